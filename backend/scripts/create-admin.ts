@@ -4,6 +4,7 @@ import dotenv from 'dotenv';
 import bcrypt from 'bcrypt';
 import { createDatabasePool, testDatabaseConnection } from '../src/config/database';
 import { createDatabaseSchema } from '../src/database/schema';
+import { getPasswordPolicyError } from '../src/config/passwordPolicy';
 
 dotenv.config();
 
@@ -126,9 +127,10 @@ const main = async (): Promise<void> => {
     process.exit(1);
   }
 
-  // Validate password strength
-  if (password.length < 8) {
-    console.error('Password must be at least 8 characters long');
+  // Validate password strength against the same policy the API enforces
+  const passwordError = getPasswordPolicyError(password);
+  if (passwordError) {
+    console.error(passwordError);
     process.exit(1);
   }
 
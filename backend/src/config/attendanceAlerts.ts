@@ -0,0 +1,17 @@
+// backend/src/config/attendanceAlerts.ts
+
+// Kinds of absence alert rule. Excused absences and sessions not marked yet are left out of both.
+export type AttendanceAlertRuleType = 'consecutive_absences' | 'absence_rate';
+
+export const ATTENDANCE_ALERT_RULE_TYPES: Record<AttendanceAlertRuleType, string> = {
+  // threshold is the number of absences in a row
+  consecutive_absences: 'Absent from this many sessions in a row',
+  // threshold is a percentage of the last window_sessions marked sessions
+  absence_rate: 'Absent from at least this percentage of recent sessions'
+};
+
+// Sessions an absence-rate rule looks back over when it doesn't set its own window
+export const DEFAULT_RATE_WINDOW_SESSIONS = 10;
+
+// Upper bound on the look-back window of an absence-rate rule
+export const MAX_RATE_WINDOW_SESSIONS = 50;
@@ -0,0 +1,11 @@
+// backend/src/config/guardians.ts
+
+// What each guardian of a child is allowed to do, besides seeing the child's timetable
+export type GuardianPermission = 'can_enroll' | 'can_view_payments' | 'receives_notices';
+
+export const GUARDIAN_PERMISSIONS: GuardianPermission[] = ['can_enroll', 'can_view_payments', 'receives_notices'];
+
+export const GUARDIAN_RELATIONSHIPS = ['parent', 'mother', 'father', 'guardian', 'grandparent', 'other'];
+
+// How long an invitation link stays valid
+export const INVITATION_LIFETIME_DAYS = 7;
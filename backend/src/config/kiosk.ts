@@ -0,0 +1,23 @@
+// backend/src/config/kiosk.ts
+
+export interface KioskSettings {
+  // How long before a class starts students can check in for it
+  check_in_opens_minutes: number;
+  // How long after the start a check-in still counts as present; later ones are marked late
+  late_grace_minutes: number;
+}
+
+// Digits in a student's check-in PIN
+export const CHECK_IN_PIN_LENGTH = 6;
+
+// Kiosk settings (read lazily, after dotenv has loaded). KIOSK_CHECK_IN_OPENS_MINUTES defaults to 30 and
+// KIOSK_LATE_GRACE_MINUTES to 10; invalid or negative values fall back to the defaults.
+export const getKioskSettings = (): KioskSettings => {
+  const opensMinutes = parseInt(process.env.KIOSK_CHECK_IN_OPENS_MINUTES || '30');
+  const graceMinutes = parseInt(process.env.KIOSK_LATE_GRACE_MINUTES || '10');
+
+  return {
+    check_in_opens_minutes: opensMinutes >= 0 ? opensMinutes : 30,
+    late_grace_minutes: graceMinutes >= 0 ? graceMinutes : 10
+  };
+};
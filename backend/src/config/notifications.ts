@@ -0,0 +1,173 @@
+// backend/src/config/notifications.ts
+
+import { AccountType } from './permissions';
+
+// Events that send notifications
+export type NotificationType =
+  | 'enrollment_confirmed'
+  | 'enrollment_cancelled'
+  | 'waitlist_offer'
+  | 'class_cancelled'
+  | 'class_changed'
+  | 'tutor_changed'
+  | 'substitute_tutor'
+  | 'student_absent'
+  | 'payment_due'
+  | 'class_reminder'
+  | 'tutor_agenda'
+  | 'attendance_alert'
+  | 'student_attendance_alert'
+  | 'leave_requested'
+  | 'leave_reviewed';
+
+// Ways a notification can reach someone; in_app is the inbox on the website
+export type NotificationChannel = 'in_app' | 'email' | 'sms';
+
+// Channels that go through the delivery queue and a transport
+export type DeliveryChannel = Exclude<NotificationChannel, 'in_app'>;
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['in_app', 'email', 'sms'];
+
+export const DELIVERY_CHANNELS: DeliveryChannel[] = ['email', 'sms'];
+
+export interface NotificationTemplate {
+  label: string;
+  // Account types that can receive this notification, and so see it in their preferences
+  accountTypes: AccountType[];
+  // Channels used until the user changes their preferences
+  defaultChannels: NotificationChannel[];
+  // {{name}} placeholders are filled from the notification's data
+  title: string;
+  body: string;
+}
+
+export const NOTIFICATION_TEMPLATES: Record<NotificationType, NotificationTemplate> = {
+  enrollment_confirmed: {
+    label: 'Enrollment confirmed',
+    accountTypes: ['parent'],
+    defaultChannels: ['in_app', 'email'],
+    title: '{{studentName}} is enrolled in {{subject}}',
+    body: '{{studentName}} is now enrolled in {{subject}} ({{when}}).'
+  },
+  enrollment_cancelled: {
+    label: 'Enrollment cancelled',
+    accountTypes: ['parent'],
+    defaultChannels: ['in_app', 'email'],
+    title: '{{studentName}} removed from {{subject}}',
+    body: '{{studentName}} is no longer enrolled in {{subject}} ({{when}}).'
+  },
+  waitlist_offer: {
+    label: 'Waitlist seat available',
+    accountTypes: ['parent'],
+    defaultChannels: ['in_app', 'email', 'sms'],
+    title: 'A seat in {{subject}} is available for {{studentName}}',
+    body: 'A seat in {{subject}} ({{when}}) is being held for {{studentName}} until {{expiresAt}}. Confirm it from the Class Operations page before then or it passes to the next student.'
+  },
+  class_cancelled: {
+    label: 'Class cancelled',
+    accountTypes: ['parent'],
+    defaultChannels: ['in_app', 'email', 'sms'],
+    title: '{{subject}} cancelled',
+    body: '{{subject}} for {{studentName}} ({{when}}) has been cancelled. Please contact the front desk if you have any questions.'
+  },
+  class_changed: {
+    label: 'Class time or room changed',
+    accountTypes: ['parent'],
+    defaultChannels: ['in_app', 'email', 'sms'],
+    title: '{{subject}} has changed',
+    body: '{{subject}} for {{studentName}} has changed: {{changes}}.'
+  },
+  tutor_changed: {
+    label: 'New tutor for a class',
+    accountTypes: ['parent'],
+    defaultChannels: ['in_app', 'email'],
+    title: 'New tutor for {{subject}}',
+    body: '{{tutorName}} will now teach {{subject}} for {{studentName}} ({{when}}).'
+  },
+  substitute_tutor: {
+    label: 'Cover tutor for a class',
+    accountTypes: ['parent'],
+    defaultChannels: ['in_app', 'email'],
+    title: 'Cover tutor for {{subject}}',
+    body: '{{tutorName}} will cover {{subject}} for {{studentName}} ({{when}}) while {{regularTutorName}} is away.'
+  },
+  student_absent: {
+    label: 'Absence from class',
+    accountTypes: ['parent'],
+    defaultChannels: ['in_app', 'email', 'sms'],
+    title: '{{studentName}} was absent from {{subject}}',
+    body: '{{studentName}} was marked absent from {{subject}} ({{when}}). Please let the front desk know if this is a mistake.'
+  },
+  payment_due: {
+    label: 'Payment due',
+    accountTypes: ['parent'],
+    defaultChannels: ['in_app', 'email'],
+    title: 'Payment due for {{studentName}}',
+    body: '{{amount}} is outstanding for {{studentName}} ({{month}}), due {{dueDate}}. You can pay online from the Payment History page.'
+  },
+  class_reminder: {
+    label: 'Upcoming class reminder',
+    accountTypes: ['parent'],
+    defaultChannels: ['in_app', 'email'],
+    title: 'Reminder: {{subject}} {{startsIn}}',
+    body: '{{studentName}} has {{subject}} {{startsIn}} ({{when}}) at {{location}}.'
+  },
+  tutor_agenda: {
+    label: 'Daily teaching agenda',
+    accountTypes: ['staff'],
+    defaultChannels: ['in_app', 'email'],
+    title: 'Your classes for {{date}}',
+    body: 'You are teaching {{classCount}} today: {{agenda}}.'
+  },
+  attendance_alert: {
+    label: 'Attendance alert',
+    accountTypes: ['parent'],
+    defaultChannels: ['in_app', 'email'],
+    title: 'Attendance alert for {{studentName}}',
+    body: '{{studentName}} has {{details}}. Please let the front desk know if there is anything we can help with.'
+  },
+  student_attendance_alert: {
+    label: 'Student absence alert',
+    accountTypes: ['staff', 'admin'],
+    defaultChannels: ['in_app', 'email'],
+    title: 'Attendance alert: {{studentName}}',
+    body: '{{studentName}} ({{branchName}}) has {{details}}. Raised by the rule "{{ruleName}}".'
+  },
+  leave_requested: {
+    label: 'Staff leave request',
+    accountTypes: ['staff', 'admin'],
+    defaultChannels: ['in_app', 'email'],
+    title: 'Leave request from {{staffName}}',
+    body: '{{staffName}} has asked for leave {{dates}} ({{classCount}} affected). Reason: {{reason}}.'
+  },
+  leave_reviewed: {
+    label: 'Leave request answered',
+    accountTypes: ['staff', 'admin'],
+    defaultChannels: ['in_app', 'email'],
+    title: 'Your leave {{dates}} was {{decision}}',
+    body: '{{reviewerName}} {{decision}} your leave request for {{dates}}.{{note}}'
+  }
+};
+
+export const NOTIFICATION_TYPES = Object.keys(NOTIFICATION_TEMPLATES) as NotificationType[];
+
+// Deliveries that keep failing are given up after this many attempts
+export const MAX_DELIVERY_ATTEMPTS = 5;
+
+// Wait before each retry, by number of failed attempts so far (the last value repeats)
+export const RETRY_DELAY_MINUTES = [1, 5, 15, 60];
+
+// Fill {{name}} placeholders; unknown names are left empty rather than shown as braces
+export const renderTemplate = (template: string, data: Record<string, string | number>): string =>
+  template.replace(/\{\{(\w+)\}\}/g, (_match, name: string) => String(data[name] ?? ''));
+
+// How class times are written in notifications, e.g. "Mon, 03 Mar 2025, 4:00 pm"
+export const formatNotificationTime = (date: Date | string): string =>
+  new Date(date).toLocaleString('en-SG', {
+    weekday: 'short',
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
@@ -0,0 +1,76 @@
+// backend/src/config/passwordPolicy.ts
+
+export type PasswordCharacterClass = 'lowercase' | 'uppercase' | 'digit' | 'symbol';
+
+export interface PasswordPolicy {
+  min_length: number;
+  required_classes: PasswordCharacterClass[];
+  // How many recent passwords (including the current one) may not be reused
+  history_count: number;
+}
+
+const CHARACTER_CLASS_PATTERNS: Record<PasswordCharacterClass, RegExp> = {
+  lowercase: /[a-z]/,
+  uppercase: /[A-Z]/,
+  digit: /[0-9]/,
+  symbol: /[^A-Za-z0-9]/
+};
+
+const CHARACTER_CLASS_LABELS: Record<PasswordCharacterClass, string> = {
+  lowercase: 'a lowercase letter',
+  uppercase: 'an uppercase letter',
+  digit: 'a number',
+  symbol: 'a symbol'
+};
+
+// Passwords that top every breach list; compared case-insensitively
+const COMMON_PASSWORDS = new Set([
+  '123456789', '12345678', '1234567890', 'password', 'password1', 'password12', 'password123',
+  'password1234', 'passw0rd', 'p@ssw0rd', 'p@ssword1', 'qwerty123', 'qwertyuiop', 'qwerty1234',
+  '1q2w3e4r', '1q2w3e4r5t', 'zaq12wsx', 'abc12345', 'abcd1234', 'iloveyou', 'iloveyou1',
+  'sunshine1', 'princess1', 'football1', 'baseball1', 'welcome1', 'welcome123', 'letmein1',
+  'admin123', 'administrator', 'changeme', 'changeme1', 'trustno1', 'superman1', 'monkey123',
+  'dragon123', 'master123', 'starwars1', 'whatever1', 'computer1', 'michael1', 'shadow123',
+  'qazwsxedc', '11111111', '00000000', '12341234', '87654321', 'asdfghjkl', 'asdf1234',
+  'tuition123', 'eduspark1', 'eduspark123', 'singapore1'
+]);
+
+// Policy settings (read lazily, after dotenv has loaded). Blank values fall back to the defaults;
+// PASSWORD_REQUIRED_CLASSES=none and PASSWORD_HISTORY_COUNT=0 switch those checks off.
+export const getPasswordPolicy = (): PasswordPolicy => {
+  const requiredClasses = (process.env.PASSWORD_REQUIRED_CLASSES || 'lowercase,uppercase,digit')
+    .split(',')
+    .map(value => value.trim())
+    .filter((value): value is PasswordCharacterClass => value in CHARACTER_CLASS_PATTERNS);
+  const historyCount = parseInt(process.env.PASSWORD_HISTORY_COUNT || '5');
+
+  return {
+    min_length: Math.max(parseInt(process.env.PASSWORD_MIN_LENGTH || '10') || 10, 8),
+    required_classes: requiredClasses,
+    history_count: isNaN(historyCount) ? 5 : Math.max(historyCount, 0)
+  };
+};
+
+// Everything that can be checked without the database: length, character classes and the denylist
+export const getPasswordPolicyError = (password: string): string | null => {
+  const policy = getPasswordPolicy();
+
+  if (typeof password !== 'string' || password.length < policy.min_length) {
+    return `Password must be at least ${policy.min_length} characters long`;
+  }
+
+  if (password.length > 128) {
+    return 'Password must be no more than 128 characters long';
+  }
+
+  const missing = policy.required_classes.filter(characterClass => !CHARACTER_CLASS_PATTERNS[characterClass].test(password));
+  if (missing.length > 0) {
+    return `Password must contain ${missing.map(characterClass => CHARACTER_CLASS_LABELS[characterClass]).join(', ')}`;
+  }
+
+  if (COMMON_PASSWORDS.has(password.toLowerCase())) {
+    return 'This password is too common. Please choose a less predictable one';
+  }
+
+  return null;
+};
@@ -0,0 +1,89 @@
+// backend/src/config/permissions.ts
+
+// Every permission the API checks. Roles are stored in the database as sets of these keys;
+// the catalogue itself lives in code because each key is tied to the routes that check it.
+export const PERMISSIONS = {
+  'student.manage_own': 'Register, edit and remove your own children',
+  'enrollment.manage_own': 'Enrol your own children in classes and manage their waitlist places',
+  'payment.view_own': 'View and pay your own invoices and balances',
+  'student.view_self': 'View your own timetable, attendance history and class materials',
+  'student.view_all': 'View every student',
+  'enrollment.view_class': 'View the students enrolled and waitlisted in a class',
+  'attendance.mark': 'Take attendance for classes you teach or cover',
+  'attendance.mark_any': 'Take and correct attendance for any class at your branches',
+  'attendance.view_all': 'View any student\'s attendance history and receive absence alerts for your branches',
+  'attendance.manage_alerts': 'Configure the rules that raise absence alerts',
+  'kiosk.manage': 'Register and revoke check-in kiosks for your branches',
+  'class.edit': 'Create, edit and cancel your own classes',
+  'class.edit_any': 'Edit and cancel classes taught by anyone',
+  'classroom.view': 'View classrooms and room availability',
+  'classroom.manage': 'Create, edit and delete classrooms, including inactive ones',
+  'branch.manage': 'Create, edit and delete branches',
+  'branch.all': 'Work across every branch instead of only assigned ones',
+  'payment.record': 'Record payments and refunds',
+  'payment.view_all': 'View all balances, invoices, account credit and reconciliation',
+  'billing.manage': 'Manage tuition rates, issue and void invoices, and run payment reminders',
+  'staff.manage': 'Manage staff accounts and assign tutors to classes',
+  'leave.request': 'Request leave from teaching',
+  'leave.manage': 'Approve staff leave and arrange cover tutors for their classes',
+  'account.security': 'Reset two-factor authentication and unlock locked accounts',
+  'audit.view': 'Search the audit log',
+  'role.manage': 'Create and edit roles and their permissions'
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export type AccountType = 'parent' | 'staff' | 'admin' | 'student';
+
+export const ACCOUNT_TYPES: AccountType[] = ['parent', 'staff', 'admin', 'student'];
+
+export const isPermission = (value: unknown): value is Permission => {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(PERMISSIONS, value);
+};
+
+// Access to "your own children" only makes sense for parent accounts
+const PARENT_PERMISSIONS: Permission[] = ['student.manage_own', 'enrollment.manage_own', 'payment.view_own'];
+
+// Student accounts are linked to one student record and only ever look at it
+const STUDENT_PERMISSIONS: Permission[] = ['student.view_self'];
+
+// Parent permissions act on "your own children", student permissions on the student's own record and
+// the rest assume a staff member, so a role only ever holds permissions that fit its account type
+export const isPermissionAllowedFor = (accountType: AccountType, permission: Permission): boolean => {
+  if (accountType === 'parent') {
+    return PARENT_PERMISSIONS.includes(permission);
+  }
+  if (accountType === 'student') {
+    return STUDENT_PERMISSIONS.includes(permission);
+  }
+  return !PARENT_PERMISSIONS.includes(permission) && !STUDENT_PERMISSIONS.includes(permission);
+};
+
+// The built-in roles, one per account type, with the access each had before roles were configurable.
+// The administrator role always has every permission so nobody can lock the centre out of its own settings.
+export const SYSTEM_ROLES: Record<AccountType, { name: string; description: string; permissions: Permission[] }> = {
+  parent: {
+    name: 'Parent',
+    description: 'Parents and guardians managing their own children',
+    permissions: PARENT_PERMISSIONS
+  },
+  staff: {
+    name: 'Staff',
+    description: 'Tutors teaching classes',
+    permissions: [
+      'student.view_all', 'enrollment.view_class', 'attendance.mark', 'class.edit',
+      'classroom.view', 'payment.record', 'payment.view_all', 'leave.request'
+    ]
+  },
+  admin: {
+    name: 'Administrator',
+    description: 'Full access to every part of the centre',
+    permissions: (Object.keys(PERMISSIONS) as Permission[])
+      .filter(permission => isPermissionAllowedFor('admin', permission))
+  },
+  student: {
+    name: 'Student',
+    description: 'Students viewing their own timetable, attendance and class materials',
+    permissions: STUDENT_PERMISSIONS
+  }
+};
@@ -0,0 +1,23 @@
+// backend/src/config/reminders.ts
+
+export interface ReminderSettings {
+  // How long before a class its reminders go out, largest first
+  offset_minutes: number[];
+  // Local hour of the day from which tutors are sent that day's agenda
+  agenda_hour: number;
+}
+
+// Reminder settings (read lazily, after dotenv has loaded). CLASS_REMINDER_HOURS is a comma-separated
+// list such as 24,2 (the default, and also used if nothing valid is given); TUTOR_AGENDA_HOUR defaults to 7.
+export const getReminderSettings = (): ReminderSettings => {
+  const offsets = (process.env.CLASS_REMINDER_HOURS || '24,2')
+    .split(',')
+    .map(value => Math.round(parseFloat(value) * 60))
+    .filter(minutes => minutes > 0);
+  const agendaHour = parseInt(process.env.TUTOR_AGENDA_HOUR || '7');
+
+  return {
+    offset_minutes: offsets.length > 0 ? [...new Set(offsets)].sort((a, b) => b - a) : [24 * 60, 2 * 60],
+    agenda_hour: agendaHour >= 0 && agendaHour <= 23 ? agendaHour : 7
+  };
+};
@@ -2,6 +2,7 @@
 
 import { Pool } from 'pg';
 import bcrypt from 'bcrypt';
+import { PERMISSIONS, SYSTEM_ROLES, AccountType } from '../config/permissions';
 
 export const createDatabaseSchema = async (pool: Pool) => {
   try {
@@ -13,10 +14,48 @@ export const createDatabaseSchema = async (pool: Pool) => {
 
     // Drop existing tables in correct order (for development)
     const dropTables = `
+      DROP TABLE IF EXISTS "TutorAvailability" CASCADE;
+      DROP TABLE IF EXISTS "TutorQualification" CASCADE;
+      DROP TABLE IF EXISTS "StaffLeave" CASCADE;
+      DROP TABLE IF EXISTS "KioskDevice" CASCADE;
+      DROP TABLE IF EXISTS "AttendanceRevision" CASCADE;
+      DROP TABLE IF EXISTS "AttendanceAlert" CASCADE;
+      DROP TABLE IF EXISTS "AttendanceAlertRule" CASCADE;
+      DROP TABLE IF EXISTS "BackgroundJob" CASCADE;
+      DROP TABLE IF EXISTS "TutorAgenda" CASCADE;
+      DROP TABLE IF EXISTS "ClassReminder" CASCADE;
+      DROP TABLE IF EXISTS "NotificationPreference" CASCADE;
+      DROP TABLE IF EXISTS "NotificationDelivery" CASCADE;
+      DROP TABLE IF EXISTS "Notification" CASCADE;
+      DROP TABLE IF EXISTS "ClassMaterial" CASCADE;
+      DROP TABLE IF EXISTS "GuardianInvitation" CASCADE;
+      DROP TABLE IF EXISTS "StudentGuardian" CASCADE;
+      DROP TABLE IF EXISTS "StaffBranch" CASCADE;
+      DROP TABLE IF EXISTS "RolePermission" CASCADE;
+      DROP TABLE IF EXISTS "Role" CASCADE;
+      DROP TABLE IF EXISTS "Permission" CASCADE;
+      DROP TABLE IF EXISTS "LoginHistory" CASCADE;
+      DROP TABLE IF EXISTS "RecoveryCode" CASCADE;
+      DROP TABLE IF EXISTS "PasswordHistory" CASCADE;
+      DROP TABLE IF EXISTS "AccountToken" CASCADE;
+      DROP TABLE IF EXISTS "RefreshToken" CASCADE;
       DROP TABLE IF EXISTS "Attendance" CASCADE;
+      DROP TABLE IF EXISTS "AuditLog" CASCADE;
+      DROP TABLE IF EXISTS "PaymentReminder" CASCADE;
+      DROP TABLE IF EXISTS "DunningSettings" CASCADE;
+      DROP TABLE IF EXISTS "PaymentWebhookEvent" CASCADE;
+      DROP TABLE IF EXISTS "CheckoutSession" CASCADE;
+      DROP TABLE IF EXISTS "AccountCredit" CASCADE;
+      DROP TABLE IF EXISTS "PaymentTransaction" CASCADE;
       DROP TABLE IF EXISTS "Payment" CASCADE;
+      DROP TABLE IF EXISTS "InvoiceLineItem" CASCADE;
+      DROP TABLE IF EXISTS "Invoice" CASCADE;
+      DROP TABLE IF EXISTS "TuitionRate" CASCADE;
+      DROP TABLE IF EXISTS "Waitlist" CASCADE;
       DROP TABLE IF EXISTS "Enrollment" CASCADE;
+      DROP TABLE IF EXISTS "TermEnrollment" CASCADE;
       DROP TABLE IF EXISTS "Class" CASCADE;
+      DROP TABLE IF EXISTS "ClassSeries" CASCADE;
       DROP TABLE IF EXISTS "Classroom" CASCADE;
       DROP TABLE IF EXISTS "Student" CASCADE;
       DROP TABLE IF EXISTS "Branch" CASCADE;
@@ -36,7 +75,7 @@ export const createDatabaseSchema = async (pool: Pool) => {
         id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
         email TEXT UNIQUE NOT NULL,
         password TEXT NOT NULL,
-        role TEXT CHECK (role IN ('parent', 'staff', 'admin')) NOT NULL,
+        role TEXT CHECK (role IN ('parent', 'staff', 'admin', 'student')) NOT NULL,
         first_name TEXT NOT NULL,
         last_name TEXT NOT NULL,
         phone TEXT,
@@ -46,8 +85,118 @@ export const createDatabaseSchema = async (pool: Pool) => {
       )
     `;
     await pool.query(createUsersTable);
+    // Student accounts came later; widen the account type check on databases created before them
+    await pool.query('ALTER TABLE "User" DROP CONSTRAINT IF EXISTS "User_role_check"');
+    await pool.query(`ALTER TABLE "User" ADD CONSTRAINT "User_role_check" CHECK (role IN ('parent', 'staff', 'admin', 'student'))`);
+    await pool.query('ALTER TABLE "User" ADD COLUMN IF NOT EXISTS email_verified BOOLEAN NOT NULL DEFAULT FALSE');
+    await pool.query('ALTER TABLE "User" ADD COLUMN IF NOT EXISTS email_verified_at TIMESTAMP NULL');
+    await pool.query('ALTER TABLE "User" ADD COLUMN IF NOT EXISTS password_changed_at TIMESTAMP NULL');
+    // Two-factor secrets are stored encrypted; the pending one waits for the first code to confirm setup
+    await pool.query('ALTER TABLE "User" ADD COLUMN IF NOT EXISTS two_factor_enabled BOOLEAN NOT NULL DEFAULT FALSE');
+    await pool.query('ALTER TABLE "User" ADD COLUMN IF NOT EXISTS two_factor_enabled_at TIMESTAMP NULL');
+    await pool.query('ALTER TABLE "User" ADD COLUMN IF NOT EXISTS totp_secret TEXT NULL');
+    await pool.query('ALTER TABLE "User" ADD COLUMN IF NOT EXISTS totp_pending_secret TEXT NULL');
+    await pool.query('ALTER TABLE "User" ADD COLUMN IF NOT EXISTS totp_last_step BIGINT NULL');
+    // Failed logins since the last successful one, and the lockout they triggered
+    await pool.query('ALTER TABLE "User" ADD COLUMN IF NOT EXISTS failed_login_count INTEGER NOT NULL DEFAULT 0');
+    await pool.query('ALTER TABLE "User" ADD COLUMN IF NOT EXISTS last_failed_login_at TIMESTAMP NULL');
+    await pool.query('ALTER TABLE "User" ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP NULL');
+    // Most teaching a tutor takes on in a week (Monday to Sunday); NULL means no limit
+    await pool.query('ALTER TABLE "User" ADD COLUMN IF NOT EXISTS max_weekly_hours NUMERIC(4,1) NULL CHECK (max_weekly_hours > 0)');
     console.log('Users table created');
 
+    // Create Permissions table (the catalogue in config/permissions.ts, kept in sync on every start)
+    const createPermissionsTable = `
+      CREATE TABLE IF NOT EXISTS "Permission" (
+        key TEXT PRIMARY KEY,
+        description TEXT NOT NULL
+      )
+    `;
+    await pool.query(createPermissionsTable);
+    const permissionKeys = Object.keys(PERMISSIONS);
+    await pool.query(`
+      INSERT INTO "Permission" (key, description)
+      SELECT * FROM UNNEST($1::text[], $2::text[])
+      ON CONFLICT (key) DO UPDATE SET description = EXCLUDED.description
+    `, [permissionKeys, Object.values(PERMISSIONS)]);
+    await pool.query('DELETE FROM "Permission" WHERE key <> ALL($1::text[])', [permissionKeys]);
+    console.log('Permissions table created');
+
+    // Create Roles table. The account type decides which dashboard a user sees and how their data is
+    // scoped (a parent only ever sees their own children); the role's permissions decide what they may do.
+    // The built-in roles, one per account type, carry a system_key and cannot be deleted.
+    const createRolesTable = `
+      CREATE TABLE IF NOT EXISTS "Role" (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        system_key TEXT UNIQUE NULL CHECK (system_key IN ('parent', 'staff', 'admin', 'student')),
+        name TEXT NOT NULL,
+        description TEXT NULL,
+        account_type TEXT CHECK (account_type IN ('parent', 'staff', 'admin', 'student')) NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+    await pool.query(createRolesTable);
+    await pool.query('ALTER TABLE "Role" DROP CONSTRAINT IF EXISTS "Role_system_key_check"');
+    await pool.query(`ALTER TABLE "Role" ADD CONSTRAINT "Role_system_key_check" CHECK (system_key IN ('parent', 'staff', 'admin', 'student'))`);
+    await pool.query('ALTER TABLE "Role" DROP CONSTRAINT IF EXISTS "Role_account_type_check"');
+    await pool.query(`ALTER TABLE "Role" ADD CONSTRAINT "Role_account_type_check" CHECK (account_type IN ('parent', 'staff', 'admin', 'student'))`);
+    await pool.query('CREATE UNIQUE INDEX IF NOT EXISTS idx_role_name ON "Role"(LOWER(name))');
+
+    const createRolePermissionsTable = `
+      CREATE TABLE IF NOT EXISTS "RolePermission" (
+        role_id UUID NOT NULL REFERENCES "Role"(id) ON DELETE CASCADE,
+        permission TEXT NOT NULL REFERENCES "Permission"(key) ON DELETE CASCADE,
+        PRIMARY KEY (role_id, permission)
+      )
+    `;
+    await pool.query(createRolePermissionsTable);
+
+    // Built-in roles start with the access the old hard-coded roles had; after that admins may change
+    // them, except the administrator role, which is always given every permission
+    for (const accountType of Object.keys(SYSTEM_ROLES) as AccountType[]) {
+      const systemRole = SYSTEM_ROLES[accountType];
+      const inserted = await pool.query(`
+        INSERT INTO "Role" (system_key, name, description, account_type)
+        VALUES ($1, $2, $3, $1)
+        ON CONFLICT (system_key) DO NOTHING
+        RETURNING id
+      `, [accountType, systemRole.name, systemRole.description]);
+
+      if (inserted.rows.length > 0 || accountType === 'admin') {
+        await pool.query(`
+          INSERT INTO "RolePermission" (role_id, permission)
+          SELECT r.id, p.permission
+          FROM "Role" r, UNNEST($2::text[]) as p(permission)
+          WHERE r.system_key = $1
+          ON CONFLICT DO NOTHING
+        `, [accountType, systemRole.permissions]);
+      }
+    }
+    console.log('Roles table created');
+
+    // Existing users get the built-in role for their account type; new users get it by default
+    await pool.query('ALTER TABLE "User" ADD COLUMN IF NOT EXISTS role_id UUID NULL REFERENCES "Role"(id)');
+    await pool.query(`
+      UPDATE "User" u SET role_id = r.id
+      FROM "Role" r
+      WHERE u.role_id IS NULL AND r.system_key = u.role
+    `);
+    await pool.query('ALTER TABLE "User" ALTER COLUMN role_id SET NOT NULL');
+    await pool.query(`
+      CREATE OR REPLACE FUNCTION set_default_user_role() RETURNS trigger AS $$
+      BEGIN
+        IF NEW.role_id IS NULL THEN
+          SELECT id INTO NEW.role_id FROM "Role" WHERE system_key = NEW.role;
+        END IF;
+        RETURN NEW;
+      END;
+      $$ LANGUAGE plpgsql
+    `);
+    await pool.query('DROP TRIGGER IF EXISTS user_default_role ON "User"');
+    await pool.query('CREATE TRIGGER user_default_role BEFORE INSERT ON "User" FOR EACH ROW EXECUTE FUNCTION set_default_user_role()');
+    console.log('User roles assigned');
+
     // Create Branches table
     const createBranchesTable = `
       CREATE TABLE IF NOT EXISTS "Branch" (
@@ -63,6 +212,27 @@ export const createDatabaseSchema = async (pool: Pool) => {
     await pool.query(createBranchesTable);
     console.log('Branches table created');
 
+    // Create Staff Branch table (the branches each staff member works at; roles with branch.all ignore it).
+    // When the table is first added, existing staff keep the access they had: every branch.
+    const staffBranchTableExists = await pool.query(`SELECT to_regclass('"StaffBranch"') IS NOT NULL as exists`);
+    const createStaffBranchesTable = `
+      CREATE TABLE IF NOT EXISTS "StaffBranch" (
+        user_id UUID NOT NULL REFERENCES "User"(id) ON DELETE CASCADE,
+        branch_id UUID NOT NULL REFERENCES "Branch"(id) ON DELETE CASCADE,
+        created_at TIMESTAMP DEFAULT NOW(),
+        PRIMARY KEY (user_id, branch_id)
+      )
+    `;
+    await pool.query(createStaffBranchesTable);
+    if (!staffBranchTableExists.rows[0].exists) {
+      await pool.query(`
+        INSERT INTO "StaffBranch" (user_id, branch_id)
+        SELECT u.id, b.id FROM "User" u CROSS JOIN "Branch" b
+        WHERE u.role <> 'parent'
+      `);
+    }
+    console.log('Staff branches table created');
+
     // Create Classrooms table
     const createClassroomsTable = `
       CREATE TABLE IF NOT EXISTS "Classroom" (
@@ -97,8 +267,109 @@ export const createDatabaseSchema = async (pool: Pool) => {
       )
     `;
     await pool.query(createStudentsTable);
+    // The student's own sign-in, when a guardian has created one
+    await pool.query('ALTER TABLE "Student" ADD COLUMN IF NOT EXISTS user_id UUID UNIQUE NULL REFERENCES "User"(id) ON DELETE SET NULL');
+    // What the student scans (as a QR code) or types at a check-in kiosk, generated the first time it is asked for
+    await pool.query('ALTER TABLE "Student" ADD COLUMN IF NOT EXISTS check_in_code TEXT UNIQUE NULL');
+    await pool.query('ALTER TABLE "Student" ADD COLUMN IF NOT EXISTS check_in_pin TEXT UNIQUE NULL');
     console.log('Students table created');
 
+    // Create Student Guardian table (every parent account linked to a child, with what each may do).
+    // Student.parent_id stays as the primary guardian, whose family account invoices and credit belong to.
+    const createStudentGuardiansTable = `
+      CREATE TABLE IF NOT EXISTS "StudentGuardian" (
+        student_id UUID NOT NULL REFERENCES "Student"(id) ON DELETE CASCADE,
+        guardian_id UUID NOT NULL REFERENCES "User"(id) ON DELETE CASCADE,
+        relationship VARCHAR(20) NOT NULL DEFAULT 'parent'
+          CHECK (relationship IN ('parent', 'mother', 'father', 'guardian', 'grandparent', 'other')),
+        is_primary BOOLEAN NOT NULL DEFAULT FALSE,
+        can_enroll BOOLEAN NOT NULL DEFAULT TRUE,
+        can_view_payments BOOLEAN NOT NULL DEFAULT TRUE,
+        receives_notices BOOLEAN NOT NULL DEFAULT TRUE,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW(),
+        PRIMARY KEY (student_id, guardian_id)
+      )
+    `;
+    await pool.query(createStudentGuardiansTable);
+
+    // Existing children keep their parent as primary guardian; new children get theirs on insert
+    await pool.query(`
+      INSERT INTO "StudentGuardian" (student_id, guardian_id, is_primary)
+      SELECT s.id, s.parent_id, TRUE FROM "Student" s
+      WHERE s.parent_id IS NOT NULL
+        AND NOT EXISTS (SELECT 1 FROM "StudentGuardian" sg WHERE sg.student_id = s.id AND sg.is_primary)
+      ON CONFLICT (student_id, guardian_id) DO UPDATE SET is_primary = TRUE
+    `);
+    await pool.query(`
+      CREATE OR REPLACE FUNCTION add_primary_guardian() RETURNS trigger AS $$
+      BEGIN
+        IF NEW.parent_id IS NOT NULL THEN
+          INSERT INTO "StudentGuardian" (student_id, guardian_id, is_primary)
+          VALUES (NEW.id, NEW.parent_id, TRUE)
+          ON CONFLICT DO NOTHING;
+        END IF;
+        RETURN NEW;
+      END;
+      $$ LANGUAGE plpgsql
+    `);
+    await pool.query('DROP TRIGGER IF EXISTS student_primary_guardian ON "Student"');
+    await pool.query('CREATE TRIGGER student_primary_guardian AFTER INSERT ON "Student" FOR EACH ROW EXECUTE FUNCTION add_primary_guardian()');
+    console.log('Student guardians table created');
+
+    // Create Guardian Invitation table (a guardian inviting another parent by email; only the token's hash is kept)
+    const createGuardianInvitationsTable = `
+      CREATE TABLE IF NOT EXISTS "GuardianInvitation" (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        student_id UUID NOT NULL REFERENCES "Student"(id) ON DELETE CASCADE,
+        invited_by UUID REFERENCES "User"(id) ON DELETE SET NULL,
+        email VARCHAR(255) NOT NULL,
+        relationship VARCHAR(20) NOT NULL DEFAULT 'parent'
+          CHECK (relationship IN ('parent', 'mother', 'father', 'guardian', 'grandparent', 'other')),
+        can_enroll BOOLEAN NOT NULL DEFAULT TRUE,
+        can_view_payments BOOLEAN NOT NULL DEFAULT TRUE,
+        receives_notices BOOLEAN NOT NULL DEFAULT TRUE,
+        token_hash VARCHAR(64) NOT NULL UNIQUE,
+        status VARCHAR(10) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'revoked')),
+        expires_at TIMESTAMP NOT NULL,
+        accepted_by UUID REFERENCES "User"(id) ON DELETE SET NULL,
+        responded_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+    await pool.query(createGuardianInvitationsTable);
+    console.log('Guardian invitations table created');
+
+    // Create Class Series table (recurrence rule that generates dated Class occurrences)
+    const createClassSeriesTable = `
+      CREATE TABLE IF NOT EXISTS "ClassSeries" (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        subject TEXT NOT NULL,
+        description TEXT,
+        level TEXT,
+        tutor_id UUID REFERENCES "User"(id) ON DELETE SET NULL,
+        classroom_id UUID NOT NULL REFERENCES "Classroom"(id) ON DELETE CASCADE,
+        branch_id UUID REFERENCES "Branch"(id) ON DELETE CASCADE,
+        frequency TEXT CHECK (frequency IN ('weekly', 'biweekly')) NOT NULL,
+        first_start_time TIMESTAMP NOT NULL,
+        duration_minutes INTEGER NOT NULL,
+        capacity INTEGER NOT NULL DEFAULT 10,
+        term_start DATE NOT NULL,
+        term_end DATE NOT NULL,
+        skip_dates DATE[] NOT NULL DEFAULT '{}',
+        created_by UUID REFERENCES "User"(id) ON DELETE SET NULL,
+        active BOOLEAN DEFAULT TRUE,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW(),
+        
+        CONSTRAINT valid_series_capacity CHECK (capacity > 0),
+        CONSTRAINT valid_series_duration CHECK (duration_minutes > 0),
+        CONSTRAINT valid_series_term CHECK (term_end >= term_start)
+      )
+    `;
+    await pool.query(createClassSeriesTable);
+    console.log('Class series table created');
+
     // Create Classes table
     const createClassesTable = `
       CREATE TABLE IF NOT EXISTS "Class" (
@@ -107,6 +378,7 @@ export const createDatabaseSchema = async (pool: Pool) => {
         description TEXT,
         level TEXT,
         tutor_id UUID REFERENCES "User"(id) ON DELETE SET NULL,
+        substitute_tutor_id UUID REFERENCES "User"(id) ON DELETE SET NULL,
         classroom_id UUID NOT NULL REFERENCES "Classroom"(id) ON DELETE CASCADE,
         start_time TIMESTAMP NOT NULL,
         end_time TIMESTAMP GENERATED ALWAYS AS (start_time + INTERVAL '1 minute' * duration_minutes) STORED,
@@ -114,6 +386,7 @@ export const createDatabaseSchema = async (pool: Pool) => {
         capacity INTEGER NOT NULL DEFAULT 10,
         branch_id UUID REFERENCES "Branch"(id) ON DELETE CASCADE,
         created_by UUID REFERENCES "User"(id) ON DELETE SET NULL,
+        series_id UUID REFERENCES "ClassSeries"(id) ON DELETE SET NULL,
         active BOOLEAN DEFAULT TRUE,
         created_at TIMESTAMP DEFAULT NOW(),
         updated_at TIMESTAMP DEFAULT NOW(),
@@ -123,8 +396,43 @@ export const createDatabaseSchema = async (pool: Pool) => {
       )
     `;
     await pool.query(createClassesTable);
+
+    // Add columns introduced after the initial release (no-op on fresh databases)
+    await pool.query('ALTER TABLE "Class" ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES "ClassSeries"(id) ON DELETE SET NULL');
+    await pool.query('ALTER TABLE "Class" ADD COLUMN IF NOT EXISTS substitute_tutor_id UUID REFERENCES "User"(id) ON DELETE SET NULL');
     console.log('Classes table created');
 
+    // Create Class Material table (links a tutor shares with a class; a series_id shares it with every session)
+    const createClassMaterialsTable = `
+      CREATE TABLE IF NOT EXISTS "ClassMaterial" (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        class_id UUID NOT NULL REFERENCES "Class"(id) ON DELETE CASCADE,
+        series_id UUID NULL REFERENCES "ClassSeries"(id) ON DELETE CASCADE,
+        title TEXT NOT NULL,
+        url TEXT NOT NULL,
+        description TEXT NULL,
+        created_by UUID REFERENCES "User"(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+    await pool.query(createClassMaterialsTable);
+    console.log('Class materials table created');
+
+    // Create Term Enrollments table (a student enrolled in every remaining session of a class series)
+    const createTermEnrollmentsTable = `
+      CREATE TABLE IF NOT EXISTS "TermEnrollment" (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        student_id UUID REFERENCES "Student"(id) ON DELETE CASCADE,
+        series_id UUID REFERENCES "ClassSeries"(id) ON DELETE CASCADE,
+        enrolled_by UUID REFERENCES "User"(id) ON DELETE SET NULL,
+        status TEXT CHECK (status IN ('active', 'cancelled')) DEFAULT 'active',
+        created_at TIMESTAMP DEFAULT NOW(),
+        cancelled_at TIMESTAMP NULL
+      )
+    `;
+    await pool.query(createTermEnrollmentsTable);
+    console.log('Term enrollments table created');
+
     // Create Enrollments table
     const createEnrollmentsTable = `
       CREATE TABLE IF NOT EXISTS "Enrollment" (
@@ -134,12 +442,97 @@ export const createDatabaseSchema = async (pool: Pool) => {
         enrolled_at TIMESTAMP DEFAULT NOW(),
         enrolled_by UUID REFERENCES "User"(id) ON DELETE SET NULL,
         status TEXT CHECK (status IN ('enrolled', 'cancelled', 'completed', 'no-show')) DEFAULT 'enrolled',
-        cancelled_at TIMESTAMP NULL
+        cancelled_at TIMESTAMP NULL,
+        term_enrollment_id UUID REFERENCES "TermEnrollment"(id) ON DELETE SET NULL
       )
     `;
     await pool.query(createEnrollmentsTable);
+    await pool.query('ALTER TABLE "Enrollment" ADD COLUMN IF NOT EXISTS term_enrollment_id UUID REFERENCES "TermEnrollment"(id) ON DELETE SET NULL');
     console.log('Enrollments table created');
 
+    // Create Waitlist table (queue of students waiting for a seat in a full class)
+    const createWaitlistTable = `
+      CREATE TABLE IF NOT EXISTS "Waitlist" (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        class_id UUID REFERENCES "Class"(id) ON DELETE CASCADE,
+        student_id UUID REFERENCES "Student"(id) ON DELETE CASCADE,
+        requested_by UUID REFERENCES "User"(id) ON DELETE SET NULL,
+        status TEXT CHECK (status IN ('waiting', 'offered', 'accepted', 'declined', 'expired', 'cancelled')) DEFAULT 'waiting',
+        offered_at TIMESTAMP NULL,
+        offer_expires_at TIMESTAMP NULL,
+        responded_at TIMESTAMP NULL,
+        enrollment_id UUID REFERENCES "Enrollment"(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+    await pool.query(createWaitlistTable);
+    console.log('Waitlist table created');
+
+    // Create Tuition Rates table (per-class, per-series or per-subject/level pricing used by billing)
+    const createTuitionRatesTable = `
+      CREATE TABLE IF NOT EXISTS "TuitionRate" (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        subject TEXT NOT NULL,
+        level TEXT NULL,
+        series_id UUID REFERENCES "ClassSeries"(id) ON DELETE CASCADE,
+        class_id UUID REFERENCES "Class"(id) ON DELETE CASCADE,
+        session_fee NUMERIC(10, 2) NOT NULL,
+        monthly_fee NUMERIC(10, 2) NULL,
+        active BOOLEAN DEFAULT TRUE,
+        created_by UUID REFERENCES "User"(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW(),
+        
+        CONSTRAINT valid_session_fee CHECK (session_fee >= 0),
+        CONSTRAINT valid_monthly_fee CHECK (monthly_fee IS NULL OR monthly_fee >= 0)
+      )
+    `;
+    await pool.query(createTuitionRatesTable);
+    console.log('Tuition rates table created');
+
+    // Create Invoices table (one issued invoice per student per month, voided invoices are kept)
+    await pool.query('CREATE SEQUENCE IF NOT EXISTS invoice_number_seq');
+    const createInvoicesTable = `
+      CREATE TABLE IF NOT EXISTS "Invoice" (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        invoice_number TEXT UNIQUE NOT NULL,
+        student_id UUID REFERENCES "Student"(id) ON DELETE CASCADE,
+        parent_id UUID REFERENCES "User"(id) ON DELETE SET NULL,
+        month TEXT NOT NULL,
+        status TEXT CHECK (status IN ('issued', 'void')) DEFAULT 'issued',
+        subtotal NUMERIC(10, 2) NOT NULL,
+        discount_total NUMERIC(10, 2) NOT NULL DEFAULT 0,
+        total NUMERIC(10, 2) NOT NULL,
+        issued_by UUID REFERENCES "User"(id) ON DELETE SET NULL,
+        issued_at TIMESTAMP DEFAULT NOW(),
+        voided_by UUID REFERENCES "User"(id) ON DELETE SET NULL,
+        voided_at TIMESTAMP NULL,
+        void_reason TEXT,
+        created_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+    await pool.query(createInvoicesTable);
+    console.log('Invoices table created');
+
+    // Create Invoice Line Items table
+    const createInvoiceLineItemsTable = `
+      CREATE TABLE IF NOT EXISTS "InvoiceLineItem" (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        invoice_id UUID REFERENCES "Invoice"(id) ON DELETE CASCADE,
+        line_type TEXT CHECK (line_type IN ('tuition', 'discount')) NOT NULL,
+        description TEXT NOT NULL,
+        class_id UUID REFERENCES "Class"(id) ON DELETE SET NULL,
+        series_id UUID REFERENCES "ClassSeries"(id) ON DELETE SET NULL,
+        sessions INTEGER NULL,
+        unit_price NUMERIC(10, 2) NULL,
+        amount NUMERIC(10, 2) NOT NULL,
+        prorated BOOLEAN DEFAULT FALSE,
+        created_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+    await pool.query(createInvoiceLineItemsTable);
+    console.log('Invoice line items table created');
+
     // Create Payments table
     const createPaymentsTable = `
       CREATE TABLE IF NOT EXISTS "Payment" (
@@ -152,6 +545,8 @@ export const createDatabaseSchema = async (pool: Pool) => {
         payment_method TEXT CHECK (payment_method IN ('cash', 'card', 'bank_transfer', 'online', 'cheque')),
         notes TEXT,
         processed_by UUID REFERENCES "User"(id) ON DELETE SET NULL,
+        invoice_id UUID REFERENCES "Invoice"(id) ON DELETE SET NULL,
+        due_date DATE NULL,
         created_at TIMESTAMP DEFAULT NOW(),
         updated_at TIMESTAMP DEFAULT NOW(),
         
@@ -159,8 +554,126 @@ export const createDatabaseSchema = async (pool: Pool) => {
       )
     `;
     await pool.query(createPaymentsTable);
+    await pool.query('ALTER TABLE "Payment" ADD COLUMN IF NOT EXISTS invoice_id UUID REFERENCES "Invoice"(id) ON DELETE SET NULL');
+    await pool.query('ALTER TABLE "Payment" ADD COLUMN IF NOT EXISTS due_date DATE NULL');
     console.log('Payments table created');
 
+    // Create Payment Transactions table (every payment or refund taken at the front desk, each with its own receipt)
+    await pool.query('CREATE SEQUENCE IF NOT EXISTS receipt_number_seq');
+    const createPaymentTransactionsTable = `
+      CREATE TABLE IF NOT EXISTS "PaymentTransaction" (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        receipt_number TEXT UNIQUE NOT NULL,
+        transaction_type TEXT CHECK (transaction_type IN ('payment', 'refund')) NOT NULL,
+        invoice_id UUID REFERENCES "Invoice"(id) ON DELETE SET NULL,
+        student_id UUID REFERENCES "Student"(id) ON DELETE SET NULL,
+        parent_id UUID REFERENCES "User"(id) ON DELETE SET NULL,
+        branch_id UUID REFERENCES "Branch"(id) ON DELETE SET NULL,
+        payment_method TEXT CHECK (payment_method IN ('cash', 'card', 'bank_transfer', 'cheque', 'credit', 'online')) NOT NULL,
+        amount NUMERIC(10, 2) NOT NULL,
+        applied_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+        credit_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+        refund_of UUID REFERENCES "PaymentTransaction"(id) ON DELETE SET NULL,
+        reference TEXT,
+        notes TEXT,
+        processed_by UUID REFERENCES "User"(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        
+        CONSTRAINT valid_transaction_amount CHECK (amount > 0),
+        CONSTRAINT valid_transaction_split CHECK (applied_amount >= 0 AND credit_amount >= 0 AND applied_amount + credit_amount = amount)
+      )
+    `;
+    await pool.query(createPaymentTransactionsTable);
+    console.log('Payment transactions table created');
+
+    // Create Account Credit table (signed ledger of a parent's overpayment credit)
+    const createAccountCreditTable = `
+      CREATE TABLE IF NOT EXISTS "AccountCredit" (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        parent_id UUID REFERENCES "User"(id) ON DELETE CASCADE,
+        amount NUMERIC(10, 2) NOT NULL,
+        transaction_id UUID REFERENCES "PaymentTransaction"(id) ON DELETE SET NULL,
+        description TEXT NOT NULL,
+        created_by UUID REFERENCES "User"(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+    await pool.query(createAccountCreditTable);
+    console.log('Account credit table created');
+
+    // Create Checkout Sessions table (online payments started by parents with a payment provider)
+    const createCheckoutSessionsTable = `
+      CREATE TABLE IF NOT EXISTS "CheckoutSession" (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        provider TEXT NOT NULL,
+        provider_session_id TEXT NOT NULL,
+        payment_id UUID REFERENCES "Payment"(id) ON DELETE CASCADE,
+        invoice_id UUID REFERENCES "Invoice"(id) ON DELETE SET NULL,
+        parent_id UUID REFERENCES "User"(id) ON DELETE CASCADE,
+        amount NUMERIC(10, 2) NOT NULL,
+        currency TEXT NOT NULL DEFAULT 'SGD',
+        checkout_url TEXT NOT NULL,
+        status TEXT CHECK (status IN ('pending', 'completed', 'cancelled', 'expired')) DEFAULT 'pending',
+        transaction_id UUID REFERENCES "PaymentTransaction"(id) ON DELETE SET NULL,
+        expires_at TIMESTAMP NOT NULL,
+        completed_at TIMESTAMP NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        
+        UNIQUE(provider, provider_session_id)
+      )
+    `;
+    await pool.query(createCheckoutSessionsTable);
+    console.log('Checkout sessions table created');
+
+    // Create Payment Webhook Events table (every provider event is processed once)
+    const createPaymentWebhookEventsTable = `
+      CREATE TABLE IF NOT EXISTS "PaymentWebhookEvent" (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        provider TEXT NOT NULL,
+        event_id TEXT NOT NULL,
+        event_type TEXT NOT NULL,
+        payload JSONB NOT NULL,
+        received_at TIMESTAMP DEFAULT NOW(),
+        
+        UNIQUE(provider, event_id)
+      )
+    `;
+    await pool.query(createPaymentWebhookEventsTable);
+    console.log('Payment webhook events table created');
+
+    // Create Dunning Settings table (single row of admin-configurable rules for overdue accounts)
+    const createDunningSettingsTable = `
+      CREATE TABLE IF NOT EXISTS "DunningSettings" (
+        id INTEGER PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+        payment_terms_days INTEGER NOT NULL DEFAULT 14 CHECK (payment_terms_days >= 0),
+        reminder_days INTEGER[] NOT NULL DEFAULT '{-3, 1, 7, 30}',
+        block_enrollment BOOLEAN NOT NULL DEFAULT FALSE,
+        block_after_days INTEGER NOT NULL DEFAULT 60 CHECK (block_after_days >= 0),
+        updated_by UUID REFERENCES "User"(id) ON DELETE SET NULL,
+        updated_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+    await pool.query(createDunningSettingsTable);
+    await pool.query('INSERT INTO "DunningSettings" (id) VALUES (1) ON CONFLICT (id) DO NOTHING');
+    console.log('Dunning settings table created');
+
+    // Create Payment Reminders table (one reminder per unpaid month per schedule step)
+    const createPaymentRemindersTable = `
+      CREATE TABLE IF NOT EXISTS "PaymentReminder" (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        payment_id UUID REFERENCES "Payment"(id) ON DELETE CASCADE,
+        parent_id UUID REFERENCES "User"(id) ON DELETE CASCADE,
+        days_from_due INTEGER NOT NULL,
+        due_date DATE NOT NULL,
+        amount_due NUMERIC(10, 2) NOT NULL,
+        sent_at TIMESTAMP DEFAULT NOW(),
+        
+        UNIQUE(payment_id, days_from_due)
+      )
+    `;
+    await pool.query(createPaymentRemindersTable);
+    console.log('Payment reminders table created');
+
     // Create Attendance table
     const createAttendanceTable = `
       CREATE TABLE IF NOT EXISTS "Attendance" (
@@ -173,13 +686,370 @@ export const createDatabaseSchema = async (pool: Pool) => {
         notes TEXT,
         marked_by UUID REFERENCES "User"(id) ON DELETE SET NULL,
         marked_at TIMESTAMP DEFAULT NOW(),
+        version INTEGER NOT NULL DEFAULT 1,
         
         UNIQUE(enrollment_id, date)
       )
     `;
     await pool.query(createAttendanceTable);
+    await pool.query('ALTER TABLE "Attendance" ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1');
     console.log('Attendance table created');
 
+    // Create Audit Log table (append-only trail of every write; actor details are copied so
+    // deleting a user never rewrites history)
+    const createAuditLogTable = `
+      CREATE TABLE IF NOT EXISTS "AuditLog" (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        occurred_at TIMESTAMP DEFAULT NOW(),
+        actor_id UUID NULL,
+        actor_email TEXT NULL,
+        actor_role TEXT NULL,
+        action TEXT NOT NULL,
+        entity_type TEXT NOT NULL,
+        entity_id TEXT NULL,
+        before_data JSONB NULL,
+        after_data JSONB NULL,
+        changed_fields TEXT[] NOT NULL DEFAULT '{}',
+        ip_address TEXT NULL,
+        request_id TEXT NULL,
+        http_method TEXT NULL,
+        path TEXT NULL
+      )
+    `;
+    await pool.query(createAuditLogTable);
+    await pool.query(`
+      CREATE OR REPLACE FUNCTION prevent_audit_log_change() RETURNS trigger AS $$
+      BEGIN
+        RAISE EXCEPTION 'AuditLog is append-only';
+      END;
+      $$ LANGUAGE plpgsql
+    `);
+    await pool.query('DROP TRIGGER IF EXISTS audit_log_append_only ON "AuditLog"');
+    await pool.query('CREATE TRIGGER audit_log_append_only BEFORE UPDATE OR DELETE ON "AuditLog" FOR EACH ROW EXECUTE FUNCTION prevent_audit_log_change()');
+    await pool.query('DROP TRIGGER IF EXISTS audit_log_no_truncate ON "AuditLog"');
+    await pool.query('CREATE TRIGGER audit_log_no_truncate BEFORE TRUNCATE ON "AuditLog" FOR EACH STATEMENT EXECUTE FUNCTION prevent_audit_log_change()');
+    console.log('Audit log table created');
+
+    // Create Refresh Tokens table (one family per sign-in; rotated tokens are kept so reuse can be detected)
+    const createRefreshTokensTable = `
+      CREATE TABLE IF NOT EXISTS "RefreshToken" (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID NOT NULL REFERENCES "User"(id) ON DELETE CASCADE,
+        family_id UUID NOT NULL,
+        token_hash VARCHAR(64) UNIQUE NOT NULL,
+        expires_at TIMESTAMP NOT NULL,
+        replaced_by UUID REFERENCES "RefreshToken"(id) ON DELETE SET NULL,
+        last_used_at TIMESTAMP NULL,
+        revoked_at TIMESTAMP NULL,
+        revoked_reason TEXT NULL,
+        user_agent TEXT NULL,
+        ip_address TEXT NULL,
+        created_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+    await pool.query(createRefreshTokensTable);
+    console.log('Refresh tokens table created');
+
+    // Create Account Tokens table (single-use email verification and password reset links)
+    const createAccountTokensTable = `
+      CREATE TABLE IF NOT EXISTS "AccountToken" (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID NOT NULL REFERENCES "User"(id) ON DELETE CASCADE,
+        purpose TEXT CHECK (purpose IN ('verify_email', 'reset_password')) NOT NULL,
+        email TEXT NOT NULL,
+        expires_at TIMESTAMP NOT NULL,
+        used_at TIMESTAMP NULL,
+        created_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+    await pool.query(createAccountTokensTable);
+    console.log('Account tokens table created');
+
+    // Create Password History table (previous hashes, so recent passwords cannot be reused)
+    const createPasswordHistoryTable = `
+      CREATE TABLE IF NOT EXISTS "PasswordHistory" (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID NOT NULL REFERENCES "User"(id) ON DELETE CASCADE,
+        password_hash TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+    await pool.query(createPasswordHistoryTable);
+    console.log('Password history table created');
+
+    // Create Recovery Codes table (hashed one-time codes for signing in without the authenticator app)
+    const createRecoveryCodesTable = `
+      CREATE TABLE IF NOT EXISTS "RecoveryCode" (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID NOT NULL REFERENCES "User"(id) ON DELETE CASCADE,
+        code_hash TEXT NOT NULL,
+        used_at TIMESTAMP NULL,
+        created_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+    await pool.query(createRecoveryCodesTable);
+    console.log('Recovery codes table created');
+
+    // Create Login History table (every sign-in attempt; user_id is empty for unknown email addresses)
+    const createLoginHistoryTable = `
+      CREATE TABLE IF NOT EXISTS "LoginHistory" (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID NULL REFERENCES "User"(id) ON DELETE CASCADE,
+        email TEXT NOT NULL,
+        success BOOLEAN NOT NULL,
+        failure_reason TEXT CHECK (failure_reason IN ('unknown_account', 'invalid_password', 'invalid_two_factor', 'locked')),
+        ip_address TEXT NULL,
+        user_agent TEXT NULL,
+        unfamiliar BOOLEAN NOT NULL DEFAULT FALSE,
+        created_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+    await pool.query(createLoginHistoryTable);
+    console.log('Login history table created');
+
+    // Create Notification table (one message for one user; in_app ones also show in their inbox)
+    const createNotificationsTable = `
+      CREATE TABLE IF NOT EXISTS "Notification" (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID NOT NULL REFERENCES "User"(id) ON DELETE CASCADE,
+        type TEXT NOT NULL,
+        title TEXT NOT NULL,
+        body TEXT NOT NULL,
+        data JSONB NOT NULL DEFAULT '{}',
+        in_app BOOLEAN NOT NULL DEFAULT TRUE,
+        read_at TIMESTAMP NULL,
+        created_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+    await pool.query(createNotificationsTable);
+    console.log('Notifications table created');
+
+    // Create Notification Delivery table (the outgoing queue: one row per notification and email/SMS channel, retried until sent or given up)
+    const createNotificationDeliveriesTable = `
+      CREATE TABLE IF NOT EXISTS "NotificationDelivery" (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        notification_id UUID NOT NULL REFERENCES "Notification"(id) ON DELETE CASCADE,
+        channel TEXT CHECK (channel IN ('email', 'sms')) NOT NULL,
+        status TEXT CHECK (status IN ('pending', 'sent', 'failed')) NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        last_error TEXT NULL,
+        transport TEXT NULL,
+        sent_at TIMESTAMP NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+
+        UNIQUE(notification_id, channel)
+      )
+    `;
+    await pool.query(createNotificationDeliveriesTable);
+    console.log('Notification deliveries table created');
+
+    // Create Notification Preference table (only choices that differ from a type's default channels need a row)
+    const createNotificationPreferencesTable = `
+      CREATE TABLE IF NOT EXISTS "NotificationPreference" (
+        user_id UUID NOT NULL REFERENCES "User"(id) ON DELETE CASCADE,
+        type TEXT NOT NULL,
+        channel TEXT CHECK (channel IN ('in_app', 'email', 'sms')) NOT NULL,
+        enabled BOOLEAN NOT NULL,
+        updated_at TIMESTAMP DEFAULT NOW(),
+
+        PRIMARY KEY (user_id, type, channel)
+      )
+    `;
+    await pool.query(createNotificationPreferencesTable);
+    console.log('Notification preferences table created');
+
+    // Create Class Reminder table (one row per session, student and reminder offset; the key stops repeats across restarts and replicas)
+    const createClassRemindersTable = `
+      CREATE TABLE IF NOT EXISTS "ClassReminder" (
+        class_id UUID NOT NULL REFERENCES "Class"(id) ON DELETE CASCADE,
+        student_id UUID NOT NULL REFERENCES "Student"(id) ON DELETE CASCADE,
+        offset_minutes INTEGER NOT NULL CHECK (offset_minutes > 0),
+        sent_at TIMESTAMP DEFAULT NOW(),
+
+        PRIMARY KEY (class_id, student_id, offset_minutes)
+      )
+    `;
+    await pool.query(createClassRemindersTable);
+    console.log('Class reminders table created');
+
+    // Create Tutor Agenda table (one row per tutor and day the agenda was sent)
+    const createTutorAgendasTable = `
+      CREATE TABLE IF NOT EXISTS "TutorAgenda" (
+        tutor_id UUID NOT NULL REFERENCES "User"(id) ON DELETE CASCADE,
+        agenda_date DATE NOT NULL,
+        class_count INTEGER NOT NULL,
+        sent_at TIMESTAMP DEFAULT NOW(),
+
+        PRIMARY KEY (tutor_id, agenda_date)
+      )
+    `;
+    await pool.query(createTutorAgendasTable);
+    console.log('Tutor agendas table created');
+
+    // Create Background Job table (when each job last ran, shared by every server so a job runs once per interval)
+    const createBackgroundJobsTable = `
+      CREATE TABLE IF NOT EXISTS "BackgroundJob" (
+        name VARCHAR(100) PRIMARY KEY,
+        last_started_at TIMESTAMP,
+        last_finished_at TIMESTAMP,
+        last_status VARCHAR(20) CHECK (last_status IN ('succeeded', 'failed')),
+        last_result INTEGER,
+        last_error TEXT
+      )
+    `;
+    await pool.query(createBackgroundJobsTable);
+    console.log('Background jobs table created');
+
+    // Create Attendance Alert Rule table (admin-configurable rules that raise alerts about a student's absences)
+    const createAttendanceAlertRulesTable = `
+      CREATE TABLE IF NOT EXISTS "AttendanceAlertRule" (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        name VARCHAR(100) NOT NULL,
+        rule_type TEXT CHECK (rule_type IN ('consecutive_absences', 'absence_rate')) NOT NULL,
+        threshold INTEGER NOT NULL CHECK (threshold > 0),
+        window_sessions INTEGER CHECK (window_sessions IS NULL OR window_sessions > 0),
+        notify_guardians BOOLEAN NOT NULL DEFAULT TRUE,
+        notify_branch_admins BOOLEAN NOT NULL DEFAULT TRUE,
+        active BOOLEAN NOT NULL DEFAULT TRUE,
+        created_by UUID REFERENCES "User"(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+    await pool.query(createAttendanceAlertRulesTable);
+    await pool.query(`
+      INSERT INTO "AttendanceAlertRule" (name, rule_type, threshold)
+      SELECT 'Two absences in a row', 'consecutive_absences', 2
+      WHERE NOT EXISTS (SELECT 1 FROM "AttendanceAlertRule")
+    `);
+    console.log('Attendance alert rules table created');
+
+    // Create Attendance Alert table (one row each time a rule fires for a student; the rule name is kept if the rule is deleted)
+    const createAttendanceAlertsTable = `
+      CREATE TABLE IF NOT EXISTS "AttendanceAlert" (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        rule_id UUID REFERENCES "AttendanceAlertRule"(id) ON DELETE SET NULL,
+        rule_name VARCHAR(100) NOT NULL,
+        student_id UUID NOT NULL REFERENCES "Student"(id) ON DELETE CASCADE,
+        attendance_id UUID REFERENCES "Attendance"(id) ON DELETE SET NULL,
+        details TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+
+        UNIQUE(rule_id, attendance_id)
+      )
+    `;
+    await pool.query(createAttendanceAlertsTable);
+    console.log('Attendance alerts table created');
+
+    // Create Attendance Revision table (every version of an attendance record: who set it, to what and why;
+    // the marker's name is copied so the history survives their account being deleted)
+    const createAttendanceRevisionsTable = `
+      CREATE TABLE IF NOT EXISTS "AttendanceRevision" (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        attendance_id UUID NOT NULL REFERENCES "Attendance"(id) ON DELETE CASCADE,
+        version INTEGER NOT NULL,
+        status TEXT NOT NULL CHECK (status IN ('present', 'absent', 'late', 'excused')),
+        previous_status TEXT NULL CHECK (previous_status IN ('present', 'absent', 'late', 'excused')),
+        notes TEXT,
+        reason TEXT,
+        changed_by UUID REFERENCES "User"(id) ON DELETE SET NULL,
+        changed_by_name TEXT,
+        changed_at TIMESTAMP DEFAULT NOW(),
+
+        UNIQUE(attendance_id, version)
+      )
+    `;
+    await pool.query(createAttendanceRevisionsTable);
+    // Records marked before revisions were kept start their history at the version they are on
+    await pool.query(`
+      INSERT INTO "AttendanceRevision" (attendance_id, version, status, notes, changed_by, changed_by_name, changed_at)
+      SELECT a.id, a.version, a.status, a.notes, a.marked_by, CONCAT(u.first_name, ' ', u.last_name), a.marked_at
+      FROM "Attendance" a
+      LEFT JOIN "User" u ON a.marked_by = u.id
+      WHERE NOT EXISTS (SELECT 1 FROM "AttendanceRevision" r WHERE r.attendance_id = a.id)
+    `);
+    console.log('Attendance revisions table created');
+
+    // Create Kiosk Device table (check-in kiosks, each signed in to one branch with a device token; only
+    // the token's hash is kept, and revoked devices are kept so their check-ins still say where they came from)
+    const createKioskDevicesTable = `
+      CREATE TABLE IF NOT EXISTS "KioskDevice" (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        branch_id UUID NOT NULL REFERENCES "Branch"(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        token_hash TEXT UNIQUE NOT NULL,
+        created_by UUID REFERENCES "User"(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        last_seen_at TIMESTAMP NULL,
+        revoked_at TIMESTAMP NULL
+      )
+    `;
+    await pool.query(createKioskDevicesTable);
+    console.log('Kiosk devices table created');
+
+    // Create Staff Leave table (leave requested by staff and approved or rejected by an admin; classes
+    // keep their regular tutor and are covered occurrence by occurrence). When the table is first added,
+    // existing staff roles are given leave.request, which the built-in Staff role now starts with.
+    const staffLeaveTableExists = await pool.query(`SELECT to_regclass('"StaffLeave"') IS NOT NULL as exists`);
+    const createStaffLeaveTable = `
+      CREATE TABLE IF NOT EXISTS "StaffLeave" (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        staff_id UUID NOT NULL REFERENCES "User"(id) ON DELETE CASCADE,
+        start_date DATE NOT NULL,
+        end_date DATE NOT NULL,
+        reason TEXT,
+        status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+        reviewed_by UUID REFERENCES "User"(id) ON DELETE SET NULL,
+        reviewed_at TIMESTAMP NULL,
+        review_note TEXT,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW(),
+
+        CONSTRAINT valid_leave_dates CHECK (end_date >= start_date)
+      )
+    `;
+    await pool.query(createStaffLeaveTable);
+    if (!staffLeaveTableExists.rows[0].exists) {
+      await pool.query(`
+        INSERT INTO "RolePermission" (role_id, permission)
+        SELECT id, 'leave.request' FROM "Role" WHERE account_type = 'staff'
+        ON CONFLICT DO NOTHING
+      `);
+    }
+    console.log('Staff leave table created');
+
+    // Create Tutor Qualification table (subjects a tutor can teach; a NULL level means every level).
+    // A tutor with no qualifications recorded is not limited to any subject.
+    const createTutorQualificationsTable = `
+      CREATE TABLE IF NOT EXISTS "TutorQualification" (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tutor_id UUID NOT NULL REFERENCES "User"(id) ON DELETE CASCADE,
+        subject TEXT NOT NULL,
+        level TEXT NULL,
+        created_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+    await pool.query(createTutorQualificationsTable);
+    console.log('Tutor qualifications table created');
+
+    // Create Tutor Availability table (weekly windows a tutor can teach in, by local day and time, with
+    // day_of_week 0 for Sunday). A tutor with no windows recorded can be scheduled at any time.
+    const createTutorAvailabilityTable = `
+      CREATE TABLE IF NOT EXISTS "TutorAvailability" (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tutor_id UUID NOT NULL REFERENCES "User"(id) ON DELETE CASCADE,
+        day_of_week INTEGER NOT NULL CHECK (day_of_week BETWEEN 0 AND 6),
+        start_time TIME NOT NULL,
+        end_time TIME NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+
+        CONSTRAINT valid_availability_window CHECK (end_time > start_time)
+      )
+    `;
+    await pool.query(createTutorAvailabilityTable);
+    console.log('Tutor availability table created');
+
     // Create indexes for performance
     const indexes = [
       // User indexes
@@ -208,22 +1078,93 @@ export const createDatabaseSchema = async (pool: Pool) => {
       'CREATE INDEX IF NOT EXISTS idx_class_classroom ON "Class"(classroom_id)',
       'CREATE INDEX IF NOT EXISTS idx_class_tutor ON "Class"(tutor_id)',
       'CREATE INDEX IF NOT EXISTS idx_class_active ON "Class"(active)',
+      'CREATE INDEX IF NOT EXISTS idx_class_series_time ON "Class"(series_id, start_time)',
+      'CREATE INDEX IF NOT EXISTS idx_class_substitute ON "Class"(substitute_tutor_id) WHERE substitute_tutor_id IS NOT NULL',
+      
+      // Term enrollment indexes
+      'CREATE INDEX IF NOT EXISTS idx_term_enrollment_student_series ON "TermEnrollment"(student_id, series_id)',
+      
+      // Class series indexes
+      'CREATE INDEX IF NOT EXISTS idx_class_series_tutor ON "ClassSeries"(tutor_id)',
+      'CREATE INDEX IF NOT EXISTS idx_class_series_active ON "ClassSeries"(active)',
       
       // Enrollment indexes
+      'CREATE INDEX IF NOT EXISTS idx_enrollment_term ON "Enrollment"(term_enrollment_id)',
       'CREATE INDEX IF NOT EXISTS idx_enrollment_class_status ON "Enrollment"(class_id, status)',
       'CREATE INDEX IF NOT EXISTS idx_enrollment_student ON "Enrollment"(student_id)',
       'CREATE INDEX IF NOT EXISTS idx_enrollment_status ON "Enrollment"(status)',
       'CREATE INDEX IF NOT EXISTS idx_enrollment_date ON "Enrollment"(enrolled_at)',
       
+      // Waitlist indexes
+      'CREATE INDEX IF NOT EXISTS idx_waitlist_class_status ON "Waitlist"(class_id, status, created_at)',
+      'CREATE INDEX IF NOT EXISTS idx_waitlist_student ON "Waitlist"(student_id)',
+      'CREATE UNIQUE INDEX IF NOT EXISTS idx_waitlist_active_entry ON "Waitlist"(class_id, student_id) WHERE status IN (\'waiting\', \'offered\')',
+      
+      // Tuition rate indexes
+      'CREATE INDEX IF NOT EXISTS idx_tuition_rate_subject_level ON "TuitionRate"(subject, level) WHERE active = TRUE',
+      'CREATE INDEX IF NOT EXISTS idx_tuition_rate_series ON "TuitionRate"(series_id) WHERE active = TRUE',
+      'CREATE INDEX IF NOT EXISTS idx_tuition_rate_class ON "TuitionRate"(class_id) WHERE active = TRUE',
+      
+      // Invoice indexes
+      'CREATE UNIQUE INDEX IF NOT EXISTS idx_invoice_active_student_month ON "Invoice"(student_id, month) WHERE status = \'issued\'',
+      'CREATE INDEX IF NOT EXISTS idx_invoice_month_status ON "Invoice"(month, status)',
+      'CREATE INDEX IF NOT EXISTS idx_invoice_parent ON "Invoice"(parent_id)',
+      'CREATE INDEX IF NOT EXISTS idx_invoice_line_item_invoice ON "InvoiceLineItem"(invoice_id)',
+      
       // Payment indexes
+      'CREATE INDEX IF NOT EXISTS idx_payment_invoice ON "Payment"(invoice_id)',
       'CREATE INDEX IF NOT EXISTS idx_payment_student_month ON "Payment"(student_id, month)',
       'CREATE INDEX IF NOT EXISTS idx_payment_date ON "Payment"(payment_date)',
       'CREATE INDEX IF NOT EXISTS idx_payment_status ON "Payment"(paid)',
+      'CREATE INDEX IF NOT EXISTS idx_payment_unpaid_due ON "Payment"(due_date) WHERE paid = FALSE',
+      'CREATE INDEX IF NOT EXISTS idx_payment_reminder_parent ON "PaymentReminder"(parent_id, sent_at)',
+      
+      // Payment transaction indexes
+      'CREATE INDEX IF NOT EXISTS idx_payment_transaction_invoice ON "PaymentTransaction"(invoice_id)',
+      'CREATE INDEX IF NOT EXISTS idx_payment_transaction_created ON "PaymentTransaction"(created_at, branch_id)',
+      'CREATE INDEX IF NOT EXISTS idx_payment_transaction_refund_of ON "PaymentTransaction"(refund_of)',
+      'CREATE INDEX IF NOT EXISTS idx_account_credit_parent ON "AccountCredit"(parent_id)',
+      'CREATE INDEX IF NOT EXISTS idx_checkout_session_payment ON "CheckoutSession"(payment_id, status)',
       
       // Attendance indexes
       'CREATE INDEX IF NOT EXISTS idx_attendance_class_date ON "Attendance"(class_id, date)',
       'CREATE INDEX IF NOT EXISTS idx_attendance_student ON "Attendance"(student_id)',
-      'CREATE INDEX IF NOT EXISTS idx_attendance_date ON "Attendance"(date)'
+      'CREATE INDEX IF NOT EXISTS idx_attendance_date ON "Attendance"(date)',
+      
+      // Audit log indexes
+      'CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON "AuditLog"(entity_type, entity_id, occurred_at)',
+      'CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON "AuditLog"(actor_id, occurred_at)',
+      'CREATE INDEX IF NOT EXISTS idx_audit_log_occurred ON "AuditLog"(occurred_at)',
+      'CREATE INDEX IF NOT EXISTS idx_audit_log_request ON "AuditLog"(request_id)',
+      
+      // Refresh token indexes
+      'CREATE INDEX IF NOT EXISTS idx_refresh_token_family ON "RefreshToken"(family_id)',
+      'CREATE INDEX IF NOT EXISTS idx_refresh_token_user ON "RefreshToken"(user_id, revoked_at)',
+      'CREATE INDEX IF NOT EXISTS idx_account_token_user ON "AccountToken"(user_id, purpose, created_at)',
+      'CREATE INDEX IF NOT EXISTS idx_password_history_user ON "PasswordHistory"(user_id, created_at)',
+      'CREATE INDEX IF NOT EXISTS idx_recovery_code_user ON "RecoveryCode"(user_id, code_hash)',
+      
+      // Login history indexes
+      'CREATE INDEX IF NOT EXISTS idx_login_history_user ON "LoginHistory"(user_id, created_at)',
+      'CREATE INDEX IF NOT EXISTS idx_login_history_created ON "LoginHistory"(created_at)',
+      'CREATE INDEX IF NOT EXISTS idx_user_locked_until ON "User"(locked_until) WHERE locked_until IS NOT NULL',
+      'CREATE INDEX IF NOT EXISTS idx_user_role_id ON "User"(role_id)',
+      'CREATE INDEX IF NOT EXISTS idx_staff_branch_branch ON "StaffBranch"(branch_id)',
+      'CREATE INDEX IF NOT EXISTS idx_student_guardian_guardian ON "StudentGuardian"(guardian_id)',
+      'CREATE INDEX IF NOT EXISTS idx_guardian_invitation_student ON "GuardianInvitation"(student_id, status)',
+      'CREATE INDEX IF NOT EXISTS idx_class_material_class ON "ClassMaterial"(class_id)',
+      'CREATE INDEX IF NOT EXISTS idx_class_material_series ON "ClassMaterial"(series_id) WHERE series_id IS NOT NULL',
+      'CREATE INDEX IF NOT EXISTS idx_notification_inbox ON "Notification"(user_id, created_at) WHERE in_app = TRUE',
+      'CREATE INDEX IF NOT EXISTS idx_notification_unread ON "Notification"(user_id) WHERE in_app = TRUE AND read_at IS NULL',
+      'CREATE INDEX IF NOT EXISTS idx_notification_delivery_due ON "NotificationDelivery"(next_attempt_at) WHERE status = \'pending\'',
+      'CREATE INDEX IF NOT EXISTS idx_class_reminder_student ON "ClassReminder"(student_id)',
+      'CREATE INDEX IF NOT EXISTS idx_attendance_alert_student ON "AttendanceAlert"(student_id, rule_id)',
+      'CREATE INDEX IF NOT EXISTS idx_attendance_alert_created ON "AttendanceAlert"(created_at)',
+      'CREATE INDEX IF NOT EXISTS idx_kiosk_device_branch ON "KioskDevice"(branch_id) WHERE revoked_at IS NULL',
+      'CREATE INDEX IF NOT EXISTS idx_staff_leave_staff_dates ON "StaffLeave"(staff_id, start_date, end_date)',
+      'CREATE INDEX IF NOT EXISTS idx_staff_leave_status ON "StaffLeave"(status, start_date)',
+      'CREATE UNIQUE INDEX IF NOT EXISTS idx_tutor_qualification_unique ON "TutorQualification"(tutor_id, LOWER(subject), LOWER(COALESCE(level, \'\')))',
+      'CREATE INDEX IF NOT EXISTS idx_tutor_availability_tutor ON "TutorAvailability"(tutor_id, day_of_week)'
     ];
 
     for (const indexQuery of indexes) {
@@ -506,6 +1447,14 @@ export const seedDatabase = async (pool: Pool) => {
 
     console.log('Classes created');
 
+    // Each tutor works at the branches they teach at
+    await pool.query(`
+      INSERT INTO "StaffBranch" (user_id, branch_id)
+      SELECT DISTINCT tutor_id, branch_id FROM "Class" WHERE tutor_id IS NOT NULL
+    `);
+
+    console.log('Staff branches assigned');
+
     // Create some enrollments for testing cascade behavior - matching students with appropriate grade levels
     await pool.query(`
       INSERT INTO "Enrollment" (student_id, class_id, enrolled_by, status)
@@ -611,6 +1560,28 @@ export const seedDatabase = async (pool: Pool) => {
 
     console.log('Payment records created');
 
+    // Create tuition rates for billing (subject-wide rates with level-specific overrides)
+    const tuitionRateData = [
+      ['Mathematics', null, 35.00, 130.00],
+      ['Mathematics', 'Secondary 4', 45.00, 170.00],
+      ['English', null, 35.00, 130.00],
+      ['Science', null, 40.00, 150.00],
+      ['Chinese', null, 30.00, 110.00],
+      ['Art', null, 25.00, null],
+      ['Music', null, 25.00, null],
+      ['Chess', null, 20.00, null],
+      ['Computer Programming', null, 40.00, null]
+    ];
+
+    for (const [subject, level, sessionFee, monthlyFee] of tuitionRateData) {
+      await pool.query(`
+        INSERT INTO "TuitionRate" (subject, level, session_fee, monthly_fee, created_by)
+        VALUES ($1, $2, $3, $4, $5)
+      `, [subject, level, sessionFee, monthlyFee, adminUser.rows[0].id]);
+    }
+
+    console.log('Tuition rates created');
+
     // Create some attendance records for testing
     const enrollmentResults = await pool.query(`
       SELECT e.id, e.student_id, e.class_id, c.start_time
@@ -7,6 +7,8 @@ import rateLimit from 'express-rate-limit';
 import dotenv from 'dotenv';
 import { createDatabasePool, testDatabaseConnection } from './config/database';
 import { createDatabaseSchema, seedDatabase } from './database/schema';
+import { assignRequestId, auditWrites } from './middleware/audit';
+import { startBackgroundJobs } from './services/jobs';
 
 // Import routes
 import authRoutes from './routes/auth';
@@ -19,6 +21,18 @@ import studentRoutes from './routes/students';
 import userRoutes from './routes/users';
 import adminRoutes from './routes/admin';
 import attendanceRoutes from './routes/attendance';
+import waitlistRoutes from './routes/waitlist';
+import invoiceRoutes from './routes/invoices';
+import balanceRoutes from './routes/balances';
+import auditRoutes from './routes/audit';
+import twoFactorRoutes from './routes/twoFactor';
+import roleRoutes from './routes/roles';
+import guardianRoutes from './routes/guardians';
+import materialRoutes from './routes/materials';
+import studentPortalRoutes from './routes/studentPortal';
+import notificationRoutes from './routes/notifications';
+import kioskRoutes from './routes/kiosk';
+import leaveRoutes from './routes/leave';
 
 dotenv.config();
 
@@ -31,6 +45,12 @@ for (const envVar of requiredEnvVars) {
   }
 }
 
+// The mock payment provider marks checkouts paid without taking money, so it is for development only
+if (process.env.PAYMENT_PROVIDER === 'mock' && process.env.NODE_ENV === 'production') {
+  console.error('FATAL: PAYMENT_PROVIDER=mock cannot be used in production');
+  process.exit(1);
+}
+
 const app = express();
 const PORT = process.env.PORT || 8080;
 const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:5173';
@@ -61,6 +81,8 @@ const generalLimiter = rateLimit({
   message: { error: 'Too many requests from this IP, please try again later.' },
   standardHeaders: true,
   legacyHeaders: false,
+  // Kiosks have their own limit below (the admin routes under /api/kiosk/devices stay on this one)
+  skip: (req) => req.path === '/api/kiosk/device' || req.path.startsWith('/api/kiosk/device/'),
 });
 
 const authLimiter = rateLimit({
@@ -71,6 +93,25 @@ const authLimiter = rateLimit({
   legacyHeaders: false,
 });
 
+// Refreshing the short-lived access token, loading the signed-in user and signing out happen throughout a
+// normal session (and from every device behind one address), so they get a looser limit than sign-in
+const sessionLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 60, // limit each IP to 60 session requests per 15 minutes
+  message: { error: 'Too many requests from this IP, please try again later.' },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// A kiosk checks in a whole class from one IP within minutes, so it gets a higher limit of its own
+const kioskLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 600, // limit each IP to 600 kiosk requests per 15 minutes
+  message: { error: 'Too many check-ins from this kiosk, please try again shortly.' },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
 // Collect default metrics (CPU, memory, event loop lag, GC, etc)
 prometheusClient.collectDefaultMetrics({ timeout: 5000 });
 
@@ -154,10 +195,14 @@ app.use(cors({
   origin: allowedOrigins,
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Request-Id'],
+  exposedHeaders: ['X-Request-Id'],
   maxAge: 86400, // 24 hours
 }));
 
+// Payment provider webhooks need the raw body to verify their signatures
+app.use('/api/payments/webhook', express.raw({ type: 'application/json', limit: '1mb' }));
+
 // Enhanced body parsing with size limits
 app.use(express.json({ 
   limit: '10mb', // Prevent large payload attacks
@@ -168,6 +213,10 @@ app.use(express.urlencoded({
   limit: '10mb'
 }));
 
+// Tag each request with an id and record every successful write in the audit log
+app.use(assignRequestId);
+app.use(auditWrites);
+
 // Track HTTP requests for Prometheus
 app.use((req, res, next) => {
   res.on('finish', () => {
@@ -204,8 +253,10 @@ async function initDatabase() {
   }
 }
 
-// Apply auth rate limiting to sensitive routes
-app.use('/api/auth', authLimiter);
+// Apply auth rate limiting to sensitive routes (/api/auth/login also covers the two-factor sign-in steps)
+app.use(['/api/auth/login', '/api/auth/register', '/api/auth/forgot-password', '/api/auth/reset-password'], authLimiter);
+app.use(['/api/auth/refresh', '/api/auth/me', '/api/auth/logout'], sessionLimiter);
+app.use('/api/kiosk/device', kioskLimiter);
 
 // Routes
 app.use('/api/auth', authRoutes);
@@ -218,6 +269,18 @@ app.use('/api/students', studentRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/admin', adminRoutes);
 app.use('/api/attendance', attendanceRoutes);
+app.use('/api/waitlist', waitlistRoutes);
+app.use('/api/invoices', invoiceRoutes);
+app.use('/api/balances', balanceRoutes);
+app.use('/api/audit', auditRoutes);
+app.use('/api/two-factor', twoFactorRoutes);
+app.use('/api/roles', roleRoutes);
+app.use('/api/guardians', guardianRoutes);
+app.use('/api/materials', materialRoutes);
+app.use('/api/student-portal', studentPortalRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/kiosk', kioskRoutes);
+app.use('/api/leave', leaveRoutes);
 
 // Handle graceful shutdown
 process.on('SIGTERM', () => {
@@ -258,6 +321,9 @@ initDatabase().then(() => {
     console.log(`Server running on port ${PORT}`);
     console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
   });
+
+  // Deliver queued notifications and send class reminders and tutor agendas in the background
+  startBackgroundJobs();
 }).catch((error) => {
   console.error('Failed to start server:', error);
   process.exit(1);
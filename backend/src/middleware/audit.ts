@@ -0,0 +1,80 @@
+// backend/src/middleware/audit.ts
+
+import crypto from 'crypto';
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from './auth';
+import { recordAudit } from '../services/audit';
+
+const REQUEST_ID_PATTERN = /^[\w-]{8,100}$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Entity recorded for writes under each API prefix when the route does not log its own entry
+const ENTITY_BY_PREFIX: Record<string, string> = {
+  admin: 'User',
+  attendance: 'Attendance',
+  auth: 'User',
+  balances: 'Payment',
+  branches: 'Branch',
+  classes: 'Class',
+  classrooms: 'Classroom',
+  enrollments: 'Enrollment',
+  guardians: 'StudentGuardian',
+  invoices: 'Invoice',
+  kiosk: 'KioskDevice',
+  leave: 'StaffLeave',
+  materials: 'ClassMaterial',
+  notifications: 'Notification',
+  payments: 'Payment',
+  roles: 'Role',
+  students: 'Student',
+  'two-factor': 'User',
+  users: 'User',
+  waitlist: 'Waitlist'
+};
+
+const ACTION_BY_METHOD: Record<string, string> = {
+  POST: 'create',
+  PUT: 'update',
+  PATCH: 'update',
+  DELETE: 'delete'
+};
+
+// Tag every request with an id (reusing a well-formed X-Request-Id from a proxy) for log correlation
+export const assignRequestId = (req: AuthRequest, res: Response, next: NextFunction): void => {
+  const incoming = req.get('X-Request-Id');
+  req.requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID();
+  res.setHeader('X-Request-Id', req.requestId);
+  next();
+};
+
+// Safety net so no successful signed-in write goes unrecorded. Routes that log a richer entry with
+// before/after snapshots through recordAudit are skipped; everything else is logged with its body.
+export const auditWrites = (req: AuthRequest, res: Response, next: NextFunction): void => {
+  const action = ACTION_BY_METHOD[req.method];
+
+  if (!action) {
+    next();
+    return;
+  }
+
+  res.on('finish', () => {
+    if (req.auditRecorded || !req.user || res.statusCode >= 400) {
+      return;
+    }
+
+    const segments = req.originalUrl.split('?')[0].split('/').filter(Boolean).slice(1);
+    const entityId = segments.find(segment => UUID_PATTERN.test(segment)) || null;
+    const body = req.body && typeof req.body === 'object' && !Buffer.isBuffer(req.body) ? req.body : null;
+
+    recordAudit(req, {
+      action,
+      entityType: ENTITY_BY_PREFIX[segments[0]] || segments[0] || 'unknown',
+      entityId,
+      after: body
+    }).catch(error => {
+      console.error('Audit log error:', error);
+    });
+  });
+
+  next();
+};
@@ -2,20 +2,31 @@
 
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { isSessionActive } from '../services/sessions';
+import { findKioskDevice, KioskDeviceSession } from '../services/kiosk';
+import { loadRequestPermissions } from '../services/permissions';
+import { Permission, AccountType, ACCOUNT_TYPES } from '../config/permissions';
 
 // Extend Express Request type to include user
 export interface AuthRequest extends Request {
   user?: {
     userId: string;
     email: string;
-    role: 'parent' | 'staff' | 'admin';
+    role: AccountType;
+    sessionId: string;
     iat?: number;
     exp?: number;
   };
+  // The check-in kiosk a device token signed in, for kiosk routes (which have no user)
+  kiosk?: KioskDeviceSession;
+  permissions?: Permission[];
+  branchScope?: string[] | null;
+  requestId?: string;
+  auditRecorded?: boolean;
 }
 
 // Authentication middleware
-export const authenticateToken = (req: AuthRequest, res: Response, next: NextFunction): void => {
+export const authenticateToken = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1];
 
@@ -32,20 +43,43 @@ export const authenticateToken = (req: AuthRequest, res: Response, next: NextFun
     return;
   }
 
+  let decoded: any;
+
   try {
     // Enhanced JWT verification with additional checks
-    const decoded = jwt.verify(token, jwtSecret, {
+    decoded = jwt.verify(token, jwtSecret, {
       algorithms: ['HS256'], // Explicitly specify allowed algorithms
       maxAge: '24h', // Maximum token age
       ignoreExpiration: false,
-    }) as any;
+    });
+  } catch (err: any) {
+    // Enhanced error logging for security monitoring
+    console.warn('SECURITY: Token verification failed', {
+      error: err.message,
+      tokenLength: token.length,
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+      timestamp: new Date().toISOString()
+    });
 
+    if (err.name === 'TokenExpiredError') {
+      res.status(401).json({ error: 'Token expired' });
+    } else if (err.name === 'JsonWebTokenError') {
+      res.status(403).json({ error: 'Invalid token' });
+    } else {
+      res.status(403).json({ error: 'Token verification failed' });
+    }
+    return;
+  }
+
+  try {
     // Additional token validation
-    if (!decoded.userId || !decoded.email || !decoded.role) {
+    if (!decoded.userId || !decoded.email || !decoded.role || !decoded.sid) {
       console.warn('SECURITY: Invalid token structure', {
         hasUserId: !!decoded.userId,
         hasEmail: !!decoded.email,
         hasRole: !!decoded.role,
+        hasSessionId: !!decoded.sid,
         ip: req.ip,
         timestamp: new Date().toISOString()
       });
@@ -53,19 +87,8 @@ export const authenticateToken = (req: AuthRequest, res: Response, next: NextFun
       return;
     }
 
-    // Check if token is close to expiring (within 1 hour)
-    if (decoded.exp) {
-      const now = Math.floor(Date.now() / 1000);
-      const timeUntilExpiry = decoded.exp - now;
-      
-      if (timeUntilExpiry < 3600) { // Less than 1 hour
-        res.setHeader('X-Token-Refresh-Needed', 'true');
-      }
-    }
-
     // Validate role against allowed values
-    const allowedRoles = ['parent', 'staff', 'admin'];
-    if (!allowedRoles.includes(decoded.role)) {
+    if (!ACCOUNT_TYPES.includes(decoded.role)) {
       console.warn('SECURITY: Invalid role in token', {
         role: decoded.role,
         userId: decoded.userId,
@@ -76,76 +99,87 @@ export const authenticateToken = (req: AuthRequest, res: Response, next: NextFun
       return;
     }
 
+    // Signed-out, rotated-away-after-reuse and deactivated sessions stop working straight away,
+    // not only when the short-lived access token expires
+    if (!(await isSessionActive(decoded.userId, decoded.sid))) {
+      res.status(401).json({ error: 'Session has ended' });
+      return;
+    }
+
     req.user = {
       userId: decoded.userId,
       email: decoded.email,
       role: decoded.role,
+      sessionId: decoded.sid,
       iat: decoded.iat,
       exp: decoded.exp
     };
+  } catch (error) {
+    console.error('Session check error:', error);
+    res.status(500).json({ error: 'Authentication failed' });
+    return;
+  }
 
-    next();
-  } catch (err: any) {
-    // Enhanced error logging for security monitoring
-    console.warn('SECURITY: Token verification failed', {
-      error: err.message,
-      tokenLength: token.length,
-      ip: req.ip,
-      userAgent: req.get('User-Agent'),
-      timestamp: new Date().toISOString()
-    });
+  next();
+};
 
-    if (err.name === 'TokenExpiredError') {
-      res.status(401).json({ error: 'Token expired' });
-    } else if (err.name === 'JsonWebTokenError') {
-      res.status(403).json({ error: 'Invalid token' });
-    } else {
-      res.status(403).json({ error: 'Token verification failed' });
-    }
+// Kiosk authentication middleware: a check-in kiosk sends its device token instead of a user's JWT,
+// and is only ever trusted with its own branch
+export const authenticateKiosk = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  const authHeader = req.headers['authorization'];
+  const token = authHeader && authHeader.split(' ')[1];
+
+  if (!token) {
+    res.status(401).json({ error: 'Device token required' });
     return;
   }
-};
 
-// Role-based middleware with audit logging
-export const requireRole = (role: 'parent' | 'staff' | 'admin') => {
-  return (req: AuthRequest, res: Response, next: NextFunction): void => {
-    if (!req.user) {
-      res.status(401).json({ error: 'Authentication required' });
-      return;
-    }
-    
-    if (req.user.role !== role) {
-      // Log unauthorized access attempts
-      console.warn('SECURITY: Unauthorized access attempt', {
-        requiredRole: role,
-        userRole: req.user.role,
-        userId: req.user.userId,
-        endpoint: req.url,
-        method: req.method,
+  try {
+    const device = await findKioskDevice(token);
+
+    if (!device) {
+      console.warn('SECURITY: Unknown or revoked kiosk device token', {
+        tokenLength: token.length,
         ip: req.ip,
+        userAgent: req.get('User-Agent'),
         timestamp: new Date().toISOString()
       });
-      
-      res.status(403).json({ error: `${role} access required` });
+      res.status(401).json({ error: 'This kiosk is not registered or has been revoked' });
       return;
     }
-    
-    next();
-  };
+
+    req.kiosk = device;
+  } catch (error) {
+    console.error('Kiosk authentication error:', error);
+    res.status(500).json({ error: 'Authentication failed' });
+    return;
+  }
+
+  next();
 };
 
-// Multiple roles middleware with audit logging, allows access if user has any of the specified roles
-export const requireAnyRole = (...roles: ('parent' | 'staff' | 'admin')[]) => {
-  return (req: AuthRequest, res: Response, next: NextFunction): void => {
+// Permission-based middleware with audit logging, allows access if the user's role grants any of the
+// specified permissions
+export const requirePermission = (...permissions: Permission[]) => {
+  return async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
     if (!req.user) {
       res.status(401).json({ error: 'Authentication required' });
       return;
     }
-    
-    if (!roles.includes(req.user.role)) {
+
+    let granted: Permission[];
+    try {
+      granted = await loadRequestPermissions(req);
+    } catch (error) {
+      console.error('Permission check error:', error);
+      res.status(500).json({ error: 'Authorization failed' });
+      return;
+    }
+
+    if (!permissions.some(permission => granted.includes(permission))) {
       // Log unauthorized access attempts
       console.warn('SECURITY: Unauthorized access attempt', {
-        allowedRoles: roles,
+        requiredPermissions: permissions,
         userRole: req.user.role,
         userId: req.user.userId,
         endpoint: req.url,
@@ -153,11 +187,11 @@ export const requireAnyRole = (...roles: ('parent' | 'staff' | 'admin')[]) => {
         ip: req.ip,
         timestamp: new Date().toISOString()
       });
-      
-      res.status(403).json({ error: `Access denied. Required roles: ${roles.join(', ')}` });
+
+      res.status(403).json({ error: 'You do not have permission to do this' });
       return;
     }
-    
+
     next();
   };
-};
\ No newline at end of file
+};
@@ -1,6 +1,10 @@
 // backend/src/middleware/validation.ts
 
 import { Request, Response, NextFunction } from 'express';
+import { getPasswordPolicyError } from '../config/passwordPolicy';
+import { GUARDIAN_RELATIONSHIPS } from '../config/guardians';
+import { NOTIFICATION_TYPES, NOTIFICATION_CHANNELS } from '../config/notifications';
+import { ATTENDANCE_ALERT_RULE_TYPES, MAX_RATE_WINDOW_SESSIONS } from '../config/attendanceAlerts';
 
 // Email validation
 export const isValidEmail = (email: string): boolean => {
@@ -9,9 +13,9 @@ export const isValidEmail = (email: string): boolean => {
   return emailRegex.test(email) && email.length <= 254; // RFC 5321 limit
 };
 
-// Password validation (at least 8 characters)
+// Password validation (length, character classes and denylist from the password policy)
 export const isValidPassword = (password: string): boolean => {
-  return Boolean(password && password.length >= 8);
+  return getPasswordPolicyError(password) === null;
 };
 
 // Name validation (only alphabets, at least 2 characters, max 50 characters, no spaces)
@@ -27,6 +31,21 @@ export const isValidPhone = (phone: string): boolean => {
   return phoneRegex.test(phone.trim());
 };
 
+// Date validation (YYYY-MM-DD, must be a real calendar date)
+export const isValidDateString = (date: string): boolean => {
+  if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date)) return false;
+  const [year, month, day] = date.split('-').map(Number);
+  const parsed = new Date(year, month - 1, day);
+  return parsed.getFullYear() === year && parsed.getMonth() === month - 1 && parsed.getDate() === day;
+};
+
+// Billing month validation (YYYY-MM)
+export const isValidMonthString = (month: string): boolean => {
+  if (typeof month !== 'string' || !/^\d{4}-\d{2}$/.test(month)) return false;
+  const monthNumber = parseInt(month.split('-')[1]);
+  return monthNumber >= 1 && monthNumber <= 12;
+};
+
 // UUID validation
 export const isValidUUID = (uuid: string): boolean => {
   const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
@@ -49,8 +68,9 @@ export const validateParentRegistration = (req: Request, res: Response, next: Ne
     return;
   }
   
-  if (!isValidPassword(password)) {
-    res.status(400).json({ error: 'Password must be at least 8 characters long' });
+  const passwordError = getPasswordPolicyError(password);
+  if (passwordError) {
+    res.status(400).json({ error: passwordError });
     return;
   }
   
@@ -92,6 +112,54 @@ export const validateLogin = (req: Request, res: Response, next: NextFunction):
   next();
 };
 
+// Forgot password validation middleware
+export const validateForgotPassword = (req: Request, res: Response, next: NextFunction): void => {
+  const { email } = req.body ?? {};
+
+  if (!email || typeof email !== 'string' || !isValidEmail(email.trim())) {
+    res.status(400).json({ error: 'A valid email address is required' });
+    return;
+  }
+
+  next();
+};
+
+// Password reset validation middleware
+export const validatePasswordReset = (req: Request, res: Response, next: NextFunction): void => {
+  const { token, password } = req.body ?? {};
+
+  if (!token || typeof token !== 'string') {
+    res.status(400).json({ error: 'Reset token is required' });
+    return;
+  }
+
+  const passwordError = getPasswordPolicyError(password);
+  if (passwordError) {
+    res.status(400).json({ error: passwordError });
+    return;
+  }
+
+  next();
+};
+
+// Password change validation middleware
+export const validatePasswordChange = (req: Request, res: Response, next: NextFunction): void => {
+  const { currentPassword, newPassword } = req.body ?? {};
+
+  if (!currentPassword || typeof currentPassword !== 'string' || !newPassword) {
+    res.status(400).json({ error: 'Current password and new password are required' });
+    return;
+  }
+
+  const passwordError = getPasswordPolicyError(newPassword);
+  if (passwordError) {
+    res.status(400).json({ error: passwordError });
+    return;
+  }
+
+  next();
+};
+
 // Profile update validation middleware
 export const validateProfileUpdate = (req: Request, res: Response, next: NextFunction): void => {
   const { firstName, lastName, phone } = req.body;
@@ -194,6 +262,115 @@ export const validateClass = (req: Request, res: Response, next: NextFunction):
   next();
 };
 
+// Class recurrence validation (only applies when a recurring series is requested)
+export const validateClassRecurrence = (req: Request, res: Response, next: NextFunction): void => {
+  const { recurrence, startTime } = req.body;
+
+  if (recurrence === undefined || recurrence === null) {
+    next();
+    return;
+  }
+
+  if (typeof recurrence !== 'object' || Array.isArray(recurrence)) {
+    res.status(400).json({ error: 'Recurrence must be an object' });
+    return;
+  }
+
+  const { frequency, termEnd, skipDates } = recurrence;
+
+  if (!['weekly', 'biweekly'].includes(frequency)) {
+    res.status(400).json({ error: 'Recurrence frequency must be weekly or biweekly' });
+    return;
+  }
+
+  if (!termEnd || !isValidDateString(termEnd)) {
+    res.status(400).json({ error: 'A valid term end date (YYYY-MM-DD) is required for recurring classes' });
+    return;
+  }
+
+  // Term end must not be before the first session
+  const firstSession = new Date(startTime);
+  const termEndDate = new Date(`${termEnd}T23:59:59`);
+  if (termEndDate < firstSession) {
+    res.status(400).json({ error: 'Term end date cannot be before the first class' });
+    return;
+  }
+
+  // Limit a single series to one year
+  const oneYearFromFirstSession = new Date(firstSession);
+  oneYearFromFirstSession.setFullYear(oneYearFromFirstSession.getFullYear() + 1);
+  if (termEndDate > oneYearFromFirstSession) {
+    res.status(400).json({ error: 'A recurring class series cannot span more than 1 year' });
+    return;
+  }
+
+  if (skipDates !== undefined) {
+    if (!Array.isArray(skipDates) || skipDates.length > 52) {
+      res.status(400).json({ error: 'Skip dates must be a list of at most 52 dates' });
+      return;
+    }
+
+    for (const skipDate of skipDates) {
+      if (!isValidDateString(skipDate)) {
+        res.status(400).json({ error: `Invalid skip date "${skipDate}". Use the YYYY-MM-DD format` });
+        return;
+      }
+    }
+  }
+
+  next();
+};
+
+// Class material validation middleware (materials are links, e.g. to worksheets or recordings)
+export const validateClassMaterial = (req: Request, res: Response, next: NextFunction): void => {
+  const { title, url, description, wholeSeries } = req.body ?? {};
+
+  if (!title || typeof title !== 'string' || title.trim().length === 0 || title.trim().length > 200) {
+    res.status(400).json({ error: 'Title is required and must be at most 200 characters' });
+    return;
+  }
+
+  if (!url || typeof url !== 'string' || !/^https?:\/\/\S+$/i.test(url.trim())) {
+    res.status(400).json({ error: 'Link must be a web address starting with http:// or https://' });
+    return;
+  }
+
+  if (description !== undefined && description !== null && (typeof description !== 'string' || description.length > 1000)) {
+    res.status(400).json({ error: 'Description must be at most 1000 characters' });
+    return;
+  }
+
+  if (wholeSeries !== undefined && typeof wholeSeries !== 'boolean') {
+    res.status(400).json({ error: 'Whole series must be true or false' });
+    return;
+  }
+
+  next();
+};
+
+// Student login validation middleware
+export const validateStudentAccount = (req: Request, res: Response, next: NextFunction): void => {
+  const { email, password } = req.body ?? {};
+
+  if (!email || typeof email !== 'string' || !password || typeof password !== 'string') {
+    res.status(400).json({ error: 'Email and password are required' });
+    return;
+  }
+
+  if (!isValidEmail(email.trim())) {
+    res.status(400).json({ error: 'Invalid email format' });
+    return;
+  }
+
+  const passwordError = getPasswordPolicyError(password);
+  if (passwordError) {
+    res.status(400).json({ error: passwordError });
+    return;
+  }
+
+  next();
+};
+
 // Student creation validation middleware
 export const validateStudent = (req: Request, res: Response, next: NextFunction): void => {
   const { firstName, lastName, grade, dateOfBirth, homeBranchId } = req.body;
@@ -256,4 +433,170 @@ export const validateStudent = (req: Request, res: Response, next: NextFunction)
   }
   
   next();
-};
\ No newline at end of file
+};
+
+// Tuition rate validation middleware
+export const validateTuitionRate = (req: Request, res: Response, next: NextFunction): void => {
+  const { subject, sessionFee, monthlyFee, seriesId, classId } = req.body;
+
+  if (!subject || typeof subject !== 'string' || subject.trim().length < 1) {
+    res.status(400).json({ error: 'Subject is required' });
+    return;
+  }
+
+  if (typeof sessionFee !== 'number' || isNaN(sessionFee) || sessionFee < 0) {
+    res.status(400).json({ error: 'Session fee must be a number of 0 or more' });
+    return;
+  }
+
+  if (monthlyFee !== undefined && monthlyFee !== null && (typeof monthlyFee !== 'number' || isNaN(monthlyFee) || monthlyFee < 0)) {
+    res.status(400).json({ error: 'Monthly fee must be a number of 0 or more if provided' });
+    return;
+  }
+
+  if (seriesId && classId) {
+    res.status(400).json({ error: 'A rate can apply to a class series or a single class, not both' });
+    return;
+  }
+
+  if ((seriesId && !isValidUUID(seriesId)) || (classId && !isValidUUID(classId))) {
+    res.status(400).json({ error: 'Invalid series or class ID format' });
+    return;
+  }
+
+  next();
+};
+
+// Dunning settings validation middleware
+export const validateDunningSettings = (req: Request, res: Response, next: NextFunction): void => {
+  const { paymentTermsDays, reminderDays, blockEnrollment, blockAfterDays } = req.body ?? {};
+
+  if (!Number.isInteger(paymentTermsDays) || paymentTermsDays < 0 || paymentTermsDays > 365) {
+    res.status(400).json({ error: 'Payment terms must be a whole number of days between 0 and 365' });
+    return;
+  }
+
+  if (!Array.isArray(reminderDays) || reminderDays.length > 10 ||
+      !reminderDays.every(days => Number.isInteger(days) && days >= -60 && days <= 365)) {
+    res.status(400).json({ error: 'Reminder schedule must be a list of up to 10 day offsets between -60 and 365' });
+    return;
+  }
+
+  if (new Set(reminderDays).size !== reminderDays.length) {
+    res.status(400).json({ error: 'Reminder schedule cannot repeat the same day' });
+    return;
+  }
+
+  if (typeof blockEnrollment !== 'boolean') {
+    res.status(400).json({ error: 'Block enrollment must be true or false' });
+    return;
+  }
+
+  if (!Number.isInteger(blockAfterDays) || blockAfterDays < 0 || blockAfterDays > 365) {
+    res.status(400).json({ error: 'Block threshold must be a whole number of days between 0 and 365' });
+    return;
+  }
+
+  next();
+};
+
+// Guardian relationship and permission validation middleware (fields are optional, e.g. for updates)
+export const validateGuardianAccess = (req: Request, res: Response, next: NextFunction): void => {
+  const { relationship, canEnroll, canViewPayments, receivesNotices } = req.body ?? {};
+
+  if (relationship !== undefined && !GUARDIAN_RELATIONSHIPS.includes(relationship)) {
+    res.status(400).json({ error: `Relationship must be one of: ${GUARDIAN_RELATIONSHIPS.join(', ')}` });
+    return;
+  }
+
+  if ([canEnroll, canViewPayments, receivesNotices].some(value => value !== undefined && typeof value !== 'boolean')) {
+    res.status(400).json({ error: 'Guardian permissions must be true or false' });
+    return;
+  }
+
+  next();
+};
+
+// Guardian invitation validation middleware
+export const validateGuardianInvitation = (req: Request, res: Response, next: NextFunction): void => {
+  const { email } = req.body ?? {};
+
+  if (!email || typeof email !== 'string' || !isValidEmail(email.trim().toLowerCase())) {
+    res.status(400).json({ error: 'Please enter a valid email address' });
+    return;
+  }
+
+  validateGuardianAccess(req, res, next);
+};
+
+// Notification preference validation middleware ({ preferences: [{ type, channel, enabled }] })
+export const validateNotificationPreferences = (req: Request, res: Response, next: NextFunction): void => {
+  const { preferences } = req.body ?? {};
+
+  if (!Array.isArray(preferences) || preferences.length === 0) {
+    res.status(400).json({ error: 'Preferences must be a non-empty list' });
+    return;
+  }
+
+  for (const preference of preferences) {
+    if (!preference || !NOTIFICATION_TYPES.includes(preference.type)) {
+      res.status(400).json({ error: `Notification type must be one of: ${NOTIFICATION_TYPES.join(', ')}` });
+      return;
+    }
+
+    if (!NOTIFICATION_CHANNELS.includes(preference.channel)) {
+      res.status(400).json({ error: `Channel must be one of: ${NOTIFICATION_CHANNELS.join(', ')}` });
+      return;
+    }
+
+    if (typeof preference.enabled !== 'boolean') {
+      res.status(400).json({ error: 'Enabled must be true or false' });
+      return;
+    }
+  }
+
+  next();
+};
+
+// Attendance alert rule validation middleware
+export const validateAttendanceAlertRule = (req: Request, res: Response, next: NextFunction): void => {
+  const { name, ruleType, threshold, windowSessions, notifyGuardians, notifyBranchAdmins, active } = req.body ?? {};
+  const ruleTypes = Object.keys(ATTENDANCE_ALERT_RULE_TYPES);
+
+  if (!name || typeof name !== 'string' || name.trim().length === 0 || name.trim().length > 100) {
+    res.status(400).json({ error: 'Rule name is required and must be at most 100 characters' });
+    return;
+  }
+
+  if (!ruleTypes.includes(ruleType)) {
+    res.status(400).json({ error: `Rule type must be one of: ${ruleTypes.join(', ')}` });
+    return;
+  }
+
+  if (!Number.isInteger(threshold) || threshold < 1 || (ruleType === 'absence_rate' && threshold > 100)) {
+    res.status(400).json({
+      error: ruleType === 'absence_rate'
+        ? 'Threshold must be a percentage between 1 and 100'
+        : 'Threshold must be a whole number of sessions, at least 1'
+    });
+    return;
+  }
+
+  if (windowSessions !== undefined && windowSessions !== null
+    && (ruleType !== 'absence_rate' || !Number.isInteger(windowSessions) || windowSessions < 2 || windowSessions > MAX_RATE_WINDOW_SESSIONS)) {
+    res.status(400).json({ error: `Window must be between 2 and ${MAX_RATE_WINDOW_SESSIONS} sessions, and only applies to absence rate rules` });
+    return;
+  }
+
+  if ([notifyGuardians, notifyBranchAdmins, active].some(value => value !== undefined && typeof value !== 'boolean')) {
+    res.status(400).json({ error: 'Notify and active settings must be true or false' });
+    return;
+  }
+
+  if (notifyGuardians === false && notifyBranchAdmins === false) {
+    res.status(400).json({ error: 'A rule must notify guardians, branch admins or both' });
+    return;
+  }
+
+  next();
+};
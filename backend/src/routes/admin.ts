@@ -3,8 +3,23 @@
 import express from 'express';
 import bcrypt from 'bcrypt';
 import { pool } from '../index';
-import { authenticateToken, requireRole, AuthRequest } from '../middleware/auth';
-import { validateParentRegistration } from '../middleware/validation';
+import { authenticateToken, requirePermission, AuthRequest } from '../middleware/auth';
+import { validateParentRegistration, isValidUUID } from '../middleware/validation';
+import { recordAudit } from '../services/audit';
+import { loadRequestPermissions } from '../services/permissions';
+import { Permission } from '../config/permissions';
+import { revokeUserSessions } from '../services/sessions';
+import { disableTwoFactor } from '../services/twoFactor';
+import { clearFailedLogins } from '../services/loginHistory';
+import {
+  getBranchScope, canAccessBranch, canManageStaffMember, worksAtBranch, getAssignedBranchIds, setAssignedBranches
+} from '../services/branchAccess';
+import { notifyClassStudents } from '../services/notifications';
+import { formatNotificationTime } from '../config/notifications';
+import { findLeaveForClass, formatLeaveDates } from '../services/staffLeave';
+import {
+  getTutorProfile, setTutorProfile, checkTutorEligibility, rankEligibleTutors, sortTutorSuggestions, formatEligibilityProblems
+} from '../services/tutorProfiles';
 
 const router = express.Router();
 
@@ -31,7 +46,7 @@ const checkComprehensiveTeacherScheduleConflict = async (
     const classStartTime = new Date(targetClass.start_time);
     const classEndTime = new Date(classStartTime.getTime() + (targetClass.duration_minutes * 60 * 1000));
 
-    // Get all existing classes for this tutor on the same date
+    // Get all existing classes this tutor teaches or covers on the same date
     const dateStart = new Date(classStartTime);
     dateStart.setHours(0, 0, 0, 0);
     const dateEnd = new Date(classStartTime);
@@ -42,7 +57,7 @@ const checkComprehensiveTeacherScheduleConflict = async (
              b.name as branch_name
       FROM "Class" c
       LEFT JOIN "Branch" b ON c.branch_id = b.id
-      WHERE c.tutor_id = $1 
+      WHERE (c.tutor_id = $1 OR c.substitute_tutor_id = $1)
         AND c.active = TRUE 
         AND c.start_time >= $2
         AND c.start_time <= $3
@@ -153,15 +168,165 @@ const formatComprehensiveConflictErrorMessage = (conflicts: { direct: any[], tra
   return message;
 };
 
-// Get all staff members (admin only)
-router.get('/staff', authenticateToken, requireRole('admin'), async (req: AuthRequest, res) => {
+// Staff accounts can only hold roles meant for staff, and callers can only hand out roles whose permissions
+// they hold themselves (so branch-limited staff cannot give access to every branch); returns an error
+// message, or null when the role fits
+const checkStaffRole = async (req: AuthRequest, roleId: string): Promise<string | null> => {
+  const result = await pool.query(`
+    SELECT r.account_type,
+           ARRAY(SELECT rp.permission FROM "RolePermission" rp WHERE rp.role_id = r.id) as permissions
+    FROM "Role" r
+    WHERE r.id = $1
+  `, [roleId]);
+
+  if (result.rows.length === 0) {
+    return 'Role not found';
+  }
+
+  if (result.rows[0].account_type !== 'staff') {
+    return 'Staff accounts can only be given staff roles';
+  }
+
+  const granted = await loadRequestPermissions(req);
+  if ((result.rows[0].permissions as Permission[]).some(permission => !granted.includes(permission))) {
+    return 'You can only give out roles whose permissions you hold yourself';
+  }
+
+  return null;
+};
+
+// Branch assignments must be existing branches the caller works at; returns an error message, or null when they are valid
+const checkBranchAssignments = async (req: AuthRequest, branchIds: unknown): Promise<string | null> => {
+  if (!Array.isArray(branchIds) || branchIds.some(branchId => typeof branchId !== 'string')) {
+    return 'Branches must be a list of branch IDs';
+  }
+
+  const scope = await getBranchScope(req);
+  if (scope !== null && branchIds.some(branchId => !scope.includes(branchId))) {
+    return 'You can only assign staff to your own branches';
+  }
+
+  const existing = await pool.query('SELECT COUNT(*) as count FROM "Branch" WHERE id = ANY($1::uuid[])', [branchIds]);
+  if (parseInt(existing.rows[0].count) !== new Set(branchIds).size) {
+    return 'Branch not found';
+  }
+
+  return null;
+};
+
+const MAX_PROFILE_ENTRIES = 50;
+const MAX_SUBJECT_LENGTH = 100;
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// A teaching profile must have a sensible weekly limit, named subjects and availability windows that end
+// after they start; returns an error message, or null when it is valid
+const checkTeachingProfile = (body: any): string | null => {
+  const { maxWeeklyHours, qualifications, availability } = body;
+
+  if (maxWeeklyHours !== null && (typeof maxWeeklyHours !== 'number' || maxWeeklyHours <= 0 || maxWeeklyHours > 80)) {
+    return 'Maximum weekly hours must be between 0 and 80, or null for no limit';
+  }
+
+  if (!Array.isArray(qualifications) || qualifications.length > MAX_PROFILE_ENTRIES) {
+    return `Qualifications must be a list of at most ${MAX_PROFILE_ENTRIES} subjects`;
+  }
+
+  for (const qualification of qualifications) {
+    if (typeof qualification?.subject !== 'string' || !qualification.subject.trim() || qualification.subject.trim().length > MAX_SUBJECT_LENGTH) {
+      return `Each qualification needs a subject of at most ${MAX_SUBJECT_LENGTH} characters`;
+    }
+    if (qualification.level !== null && qualification.level !== undefined && typeof qualification.level !== 'string') {
+      return 'A qualification\'s level must be text, or null for every level';
+    }
+  }
+
+  if (!Array.isArray(availability) || availability.length > MAX_PROFILE_ENTRIES) {
+    return `Availability must be a list of at most ${MAX_PROFILE_ENTRIES} weekly windows`;
+  }
+
+  for (const window of availability) {
+    if (!Number.isInteger(window?.dayOfWeek) || window.dayOfWeek < 0 || window.dayOfWeek > 6) {
+      return 'Each availability window needs a day of the week from 0 (Sunday) to 6 (Saturday)';
+    }
+    if (!TIME_OF_DAY_PATTERN.test(window.startTime) || !TIME_OF_DAY_PATTERN.test(window.endTime)) {
+      return 'Availability times must be HH:MM';
+    }
+    if (window.endTime <= window.startTime) {
+      return 'Each availability window must end after it starts';
+    }
+  }
+
+  return null;
+};
+
+// Staff at a class's branch ranked for taking it over. Their teaching profiles decide who is eligible,
+// and approved leave or a schedule clash (including travel between branches) also rules a tutor out.
+const suggestTutorsForClass = async (classId: string) => {
+  const classResult = await pool.query(
+    'SELECT subject, level, start_time, duration_minutes, tutor_id, branch_id FROM "Class" WHERE id = $1',
+    [classId]
+  );
+  const classInfo = classResult.rows[0];
+
+  if (!classInfo?.branch_id) {
+    return [];
+  }
+
+  const ranked = await rankEligibleTutors(classInfo.branch_id, {
+    subject: classInfo.subject,
+    level: classInfo.level,
+    sessions: [{ startTime: new Date(classInfo.start_time), durationMinutes: classInfo.duration_minutes }],
+    excludeClassIds: [classId]
+  }, classInfo.tutor_id ? [classInfo.tutor_id] : []);
+
+  const suggestions = [];
+  for (const tutor of ranked) {
+    const problems = [...tutor.problems];
+
+    const leave = await findLeaveForClass(tutor.id, classId);
+    if (leave) {
+      problems.push(`on leave ${formatLeaveDates(leave.start_date, leave.end_date)}`);
+    }
+
+    const conflictCheck = await checkComprehensiveTeacherScheduleConflict(tutor.id, classId);
+    if (conflictCheck.hasConflict) {
+      problems.push(conflictCheck.conflicts.direct.length > 0
+        ? 'teaching another class at the same time'
+        : 'teaching at another branch within an hour of this class');
+    }
+
+    suggestions.push({ ...tutor, problems, eligible: problems.length === 0 });
+  }
+
+  return sortTutorSuggestions(suggestions);
+};
+
+// Branches a staff member is assigned to, as { id, name } objects
+const STAFF_BRANCHES_COLUMN = `
+  COALESCE((
+    SELECT json_agg(json_build_object('id', b.id, 'name', b.name) ORDER BY b.name)
+    FROM "StaffBranch" sb
+    JOIN "Branch" b ON sb.branch_id = b.id
+    WHERE sb.user_id = u.id
+  ), '[]') as branches`;
+
+// Get all staff members, or those sharing a branch with the caller when they are limited to some (admin only)
+router.get('/staff', authenticateToken, requirePermission('staff.manage'), async (req: AuthRequest, res) => {
   try {
+    const branchScope = await getBranchScope(req);
+
     const result = await pool.query(`
-      SELECT id, email, first_name, last_name, phone, active, created_at, updated_at
-      FROM "User" 
-      WHERE role = 'staff'
-      ORDER BY first_name, last_name
-    `);
+      SELECT u.id, u.email, u.first_name, u.last_name, u.phone, u.active, u.two_factor_enabled,
+             u.role_id, r.name as role_name, u.created_at, u.updated_at,
+             ${STAFF_BRANCHES_COLUMN}
+      FROM "User" u
+      LEFT JOIN "Role" r ON u.role_id = r.id
+      WHERE u.role = 'staff' AND (
+        $1::uuid[] IS NULL
+        OR EXISTS (SELECT 1 FROM "StaffBranch" sb WHERE sb.user_id = u.id AND sb.branch_id = ANY($1::uuid[]))
+      )
+      ORDER BY u.first_name, u.last_name
+    `, [branchScope]);
 
     res.json(result.rows);
   } catch (error) {
@@ -170,13 +335,31 @@ router.get('/staff', authenticateToken, requireRole('admin'), async (req: AuthRe
   }
 });
 
+// Get the roles that can be given to staff accounts (admin only)
+router.get('/staff-roles', authenticateToken, requirePermission('staff.manage'), async (req: AuthRequest, res) => {
+  try {
+    const result = await pool.query(`
+      SELECT id, system_key, name, description
+      FROM "Role"
+      WHERE account_type = 'staff'
+      ORDER BY system_key IS NULL, name
+    `);
+
+    res.json(result.rows);
+  } catch (error) {
+    console.error('Get staff roles error:', error);
+    res.status(500).json({ error: 'Failed to fetch staff roles' });
+  }
+});
+
 // Get staff member details with class count (admin only)
-router.get('/staff/:id', authenticateToken, requireRole('admin'), async (req: AuthRequest, res) => {
+router.get('/staff/:id', authenticateToken, requirePermission('staff.manage'), async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
 
     const result = await pool.query(`
       SELECT u.id, u.email, u.first_name, u.last_name, u.phone, u.active, u.created_at, u.updated_at,
+             ${STAFF_BRANCHES_COLUMN},
              COUNT(c.id) as class_count,
              COUNT(CASE WHEN c.start_time > NOW() THEN 1 END) as future_class_count
       FROM "User" u
@@ -185,7 +368,7 @@ router.get('/staff/:id', authenticateToken, requireRole('admin'), async (req: Au
       GROUP BY u.id, u.email, u.first_name, u.last_name, u.phone, u.active, u.created_at, u.updated_at
     `, [id]);
 
-    if (result.rows.length === 0) {
+    if (result.rows.length === 0 || !(await canManageStaffMember(req, id))) {
       res.status(404).json({ error: 'Staff member not found' });
       return;
     }
@@ -197,10 +380,12 @@ router.get('/staff/:id', authenticateToken, requireRole('admin'), async (req: Au
   }
 });
 
-// Create new staff account (admin only)
-router.post('/staff', authenticateToken, requireRole('admin'), validateParentRegistration, async (req: AuthRequest, res) => {
+// Create new staff account and assign it to branches (admin only)
+router.post('/staff', authenticateToken, requirePermission('staff.manage'), validateParentRegistration, async (req: AuthRequest, res) => {
+  const client = await pool.connect();
+
   try {
-    const { firstName, lastName, email, phone, password } = req.body;
+    const { firstName, lastName, email, phone, password, roleId, branchIds = [] } = req.body;
 
     // Trim and normalize email
     const trimmedEmail = email.trim().toLowerCase();
@@ -216,19 +401,48 @@ router.post('/staff', authenticateToken, requireRole('admin'), validateParentReg
       return;
     }
 
+    // Without a role the account gets the built-in Staff role
+    if (roleId) {
+      const roleError = await checkStaffRole(req, roleId);
+      if (roleError) {
+        res.status(400).json({ error: roleError });
+        return;
+      }
+    }
+
+    const branchError = await checkBranchAssignments(req, branchIds);
+    if (branchError) {
+      res.status(400).json({ error: branchError });
+      return;
+    }
+
+    // Staff created by someone limited to some branches would otherwise be invisible to them
+    if (branchIds.length === 0 && (await getBranchScope(req)) !== null) {
+      res.status(400).json({ error: 'Choose at least one of your branches for this staff member' });
+      return;
+    }
+
     // Hash password
     const saltRounds = 10;
     const hashedPassword = await bcrypt.hash(password, saltRounds);
 
+    await client.query('BEGIN');
+
     // Create staff user
-    const result = await pool.query(
-      `INSERT INTO "User" (email, password, role, first_name, last_name, phone) 
-       VALUES ($1, $2, $3, $4, $5, $6) 
-       RETURNING id, email, role, first_name, last_name, phone, active, created_at`,
-      [trimmedEmail, hashedPassword, 'staff', firstName.trim(), lastName.trim(), phone?.trim() || null]
+    const result = await client.query(
+      `INSERT INTO "User" (email, password, role, role_id, first_name, last_name, phone) 
+       VALUES ($1, $2, $3, $4, $5, $6, $7) 
+       RETURNING id, email, role, role_id, first_name, last_name, phone, active, created_at`,
+      [trimmedEmail, hashedPassword, 'staff', roleId || null, firstName.trim(), lastName.trim(), phone?.trim() || null]
     );
 
-    const user = result.rows[0];
+    await setAssignedBranches(result.rows[0].id, branchIds, client);
+
+    const user = { ...result.rows[0], branch_ids: branchIds };
+
+    await recordAudit(req, { action: 'create', entityType: 'User', entityId: user.id, after: user }, client);
+
+    await client.query('COMMIT');
 
     res.status(201).json({
       message: 'Staff account created successfully',
@@ -236,52 +450,203 @@ router.post('/staff', authenticateToken, requireRole('admin'), validateParentReg
     });
 
   } catch (error) {
+    await client.query('ROLLBACK');
     console.error('Create staff error:', error);
     res.status(500).json({ error: 'Failed to create staff account' });
+  } finally {
+    client.release();
   }
 });
 
-// Update staff account (admin only)
-router.put('/staff/:id', authenticateToken, requireRole('admin'), async (req: AuthRequest, res) => {
+// Update staff account and its branch assignments (admin only). Callers limited to some branches only
+// change assignments to their own branches; the staff member keeps any others.
+router.put('/staff/:id', authenticateToken, requirePermission('staff.manage'), async (req: AuthRequest, res) => {
+  const client = await pool.connect();
+
   try {
     const { id } = req.params;
-    const { firstName, lastName, phone, active } = req.body;
+    const { firstName, lastName, phone, active, roleId, branchIds } = req.body;
 
     // Verify staff member exists
     const staffCheck = await pool.query(
-      'SELECT id FROM "User" WHERE id = $1 AND role = $2',
+      'SELECT id, email, role, role_id, first_name, last_name, phone, active, created_at, updated_at FROM "User" WHERE id = $1 AND role = $2',
       [id, 'staff']
     );
 
-    if (staffCheck.rows.length === 0) {
+    if (staffCheck.rows.length === 0 || !(await canManageStaffMember(req, id))) {
       res.status(404).json({ error: 'Staff member not found' });
       return;
     }
 
-    const result = await pool.query(`
+    if (roleId && roleId !== staffCheck.rows[0].role_id) {
+      const roleError = await checkStaffRole(req, roleId);
+      if (roleError) {
+        res.status(400).json({ error: roleError });
+        return;
+      }
+    }
+
+    if (branchIds !== undefined) {
+      const branchError = await checkBranchAssignments(req, branchIds);
+      if (branchError) {
+        res.status(400).json({ error: branchError });
+        return;
+      }
+    }
+
+    const previousBranchIds = await getAssignedBranchIds(id);
+    const branchScope = await getBranchScope(req);
+
+    await client.query('BEGIN');
+
+    const result = await client.query(`
       UPDATE "User" 
       SET first_name = COALESCE($1, first_name),
           last_name = COALESCE($2, last_name),
           phone = COALESCE($3, phone),
           active = COALESCE($4, active),
+          role_id = COALESCE($6, role_id),
           updated_at = NOW()
       WHERE id = $5 AND role = 'staff'
-      RETURNING id, email, role, first_name, last_name, phone, active, created_at, updated_at
-    `, [firstName?.trim(), lastName?.trim(), phone?.trim(), active, id]);
+      RETURNING id, email, role, role_id, first_name, last_name, phone, active, created_at, updated_at
+    `, [firstName?.trim(), lastName?.trim(), phone?.trim(), active, id, roleId || null]);
+
+    let assignedBranchIds = previousBranchIds;
+    if (branchIds !== undefined) {
+      const keptBranchIds = branchScope === null ? [] : previousBranchIds.filter(branchId => !branchScope.includes(branchId));
+      assignedBranchIds = [...new Set([...keptBranchIds, ...branchIds])];
+      await setAssignedBranches(id, assignedBranchIds, client);
+    }
+
+    // A deactivated account must not keep working on devices that are already signed in
+    if (result.rows[0].active === false) {
+      await revokeUserSessions(id, 'deactivated', client);
+    }
+
+    const staff = { ...result.rows[0], branch_ids: assignedBranchIds };
+
+    await recordAudit(req, {
+      action: 'update',
+      entityType: 'User',
+      entityId: id,
+      before: { ...staffCheck.rows[0], branch_ids: previousBranchIds },
+      after: staff
+    }, client);
+
+    await client.query('COMMIT');
 
     res.json({
       message: 'Staff account updated successfully',
-      staff: result.rows[0]
+      staff
     });
 
   } catch (error) {
+    await client.query('ROLLBACK');
     console.error('Update staff error:', error);
     res.status(500).json({ error: 'Failed to update staff account' });
+  } finally {
+    client.release();
+  }
+});
+
+// Get a staff member's teaching profile: qualifications, weekly availability and maximum hours (admin only)
+router.get('/staff/:id/teaching-profile', authenticateToken, requirePermission('staff.manage'), async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!isValidUUID(id)) {
+      res.status(400).json({ error: 'Invalid staff ID format' });
+      return;
+    }
+
+    const staffCheck = await pool.query('SELECT id FROM "User" WHERE id = $1 AND role = $2', [id, 'staff']);
+
+    if (staffCheck.rows.length === 0 || !(await canManageStaffMember(req, id))) {
+      res.status(404).json({ error: 'Staff member not found' });
+      return;
+    }
+
+    res.json(await getTutorProfile(id));
+  } catch (error) {
+    console.error('Get teaching profile error:', error);
+    res.status(500).json({ error: 'Failed to fetch teaching profile' });
+  }
+});
+
+// Replace a staff member's teaching profile (admin only). Leaving a part empty lifts that limit: no
+// qualifications means any subject, no availability means any time, and no maximum means any hours.
+router.put('/staff/:id/teaching-profile', authenticateToken, requirePermission('staff.manage'), async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!isValidUUID(id)) {
+      res.status(400).json({ error: 'Invalid staff ID format' });
+      return;
+    }
+
+    const profileError = checkTeachingProfile(req.body);
+    if (profileError) {
+      res.status(400).json({ error: profileError });
+      return;
+    }
+
+    const staffCheck = await pool.query(
+      'SELECT id, first_name, last_name FROM "User" WHERE id = $1 AND role = $2',
+      [id, 'staff']
+    );
+
+    if (staffCheck.rows.length === 0 || !(await canManageStaffMember(req, id))) {
+      res.status(404).json({ error: 'Staff member not found' });
+      return;
+    }
+
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const before = await getTutorProfile(id, client);
+
+      await setTutorProfile(id, {
+        maxWeeklyHours: req.body.maxWeeklyHours,
+        qualifications: req.body.qualifications.map((qualification: { subject: string; level?: string | null }) => ({
+          subject: qualification.subject.trim(),
+          level: qualification.level?.trim() || null
+        })),
+        availability: req.body.availability
+      }, client);
+
+      const after = await getTutorProfile(id, client);
+
+      await recordAudit(req, {
+        action: 'update_teaching_profile',
+        entityType: 'User',
+        entityId: id,
+        before,
+        after
+      }, client);
+
+      await client.query('COMMIT');
+
+      const staff = staffCheck.rows[0];
+      res.json({
+        message: `Teaching profile for ${staff.first_name} ${staff.last_name} saved`,
+        profile: after
+      });
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  } catch (error) {
+    console.error('Update teaching profile error:', error);
+    res.status(500).json({ error: 'Failed to save teaching profile' });
   }
 });
 
 // Check staff deletion impact (admin only)
-router.get('/staff/:id/deletion-impact', authenticateToken, requireRole('admin'), async (req: AuthRequest, res) => {
+router.get('/staff/:id/deletion-impact', authenticateToken, requirePermission('staff.manage'), async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
 
@@ -292,7 +657,7 @@ router.get('/staff/:id/deletion-impact', authenticateToken, requireRole('admin')
       WHERE id = $1 AND role = 'staff'
     `, [id]);
 
-    if (staffResult.rows.length === 0) {
+    if (staffResult.rows.length === 0 || !(await canManageStaffMember(req, id))) {
       res.status(404).json({ error: 'Staff member not found' });
       return;
     }
@@ -335,7 +700,7 @@ router.get('/staff/:id/deletion-impact', authenticateToken, requireRole('admin')
 });
 
 // Delete staff account (admin only)
-router.delete('/staff/:id', authenticateToken, requireRole('admin'), async (req: AuthRequest, res) => {
+router.delete('/staff/:id', authenticateToken, requirePermission('staff.manage'), async (req: AuthRequest, res) => {
   const client = await pool.connect();
   
   try {
@@ -352,11 +717,11 @@ router.delete('/staff/:id', authenticateToken, requireRole('admin'), async (req:
     
     // Get staff info for logging
     const staffResult = await client.query(
-      'SELECT first_name, last_name, email FROM "User" WHERE id = $1 AND role = $2',
+      'SELECT id, email, role, first_name, last_name, phone, active, created_at FROM "User" WHERE id = $1 AND role = $2',
       [id, 'staff']
     );
     
-    if (staffResult.rows.length === 0) {
+    if (staffResult.rows.length === 0 || !(await canManageStaffMember(req, id, client))) {
       await client.query('ROLLBACK');
       res.status(404).json({ error: 'Staff member not found' });
       return;
@@ -370,11 +735,19 @@ router.delete('/staff/:id', authenticateToken, requireRole('admin'), async (req:
       [id]
     );
     
-    // Delete staff member - classes will automatically have tutor_id set to NULL due to ON DELETE SET NULL
+    // Delete staff member - classes will automatically have tutor_id set to NULL due to ON DELETE SET NULL,
+    // and their refresh tokens are cascaded away so tokens already issued stop working at once
     await client.query(
       'DELETE FROM "User" WHERE id = $1 AND role = $2',
       [id, 'staff']
     );
+
+    await recordAudit(req, {
+      action: 'delete',
+      entityType: 'User',
+      entityId: id,
+      before: { ...staff, active_classes: parseInt(classesCount.rows[0].count) }
+    }, client);
     
     await client.query('COMMIT');
     
@@ -392,9 +765,11 @@ router.delete('/staff/:id', authenticateToken, requireRole('admin'), async (req:
   }
 });
 
-// Get classes without tutor for reassignment (admin only)
-router.get('/classes/unassigned', authenticateToken, requireRole('admin'), async (req: AuthRequest, res) => {
+// Get classes without tutor for reassignment, at the caller's branches (admin only)
+router.get('/classes/unassigned', authenticateToken, requirePermission('staff.manage'), async (req: AuthRequest, res) => {
   try {
+    const branchScope = await getBranchScope(req);
+
     const result = await pool.query(`
       SELECT c.id, c.subject, c.description, c.level, c.start_time, c.duration_minutes, c.capacity,
              c.branch_id, b.name as branch_name, b.address as branch_address,
@@ -404,10 +779,10 @@ router.get('/classes/unassigned', authenticateToken, requireRole('admin'), async
       LEFT JOIN "Branch" b ON c.branch_id = b.id
       LEFT JOIN "Classroom" cr ON c.classroom_id = cr.id
       LEFT JOIN "Enrollment" e ON c.id = e.class_id AND e.status = 'enrolled'
-      WHERE c.tutor_id IS NULL AND c.active = TRUE
+      WHERE c.tutor_id IS NULL AND c.active = TRUE AND ($1::uuid[] IS NULL OR c.branch_id = ANY($1::uuid[]))
       GROUP BY c.id, c.subject, c.description, c.level, c.start_time, c.duration_minutes, c.capacity, c.branch_id, b.name, b.address, cr.room_name
       ORDER BY c.start_time
-    `);
+    `, [branchScope]);
 
     res.json(result.rows);
   } catch (error) {
@@ -417,7 +792,7 @@ router.get('/classes/unassigned', authenticateToken, requireRole('admin'), async
 });
 
 // Reassign tutor to class (admin only)
-router.put('/classes/:classId/assign-tutor', authenticateToken, requireRole('admin'), async (req: AuthRequest, res) => {
+router.put('/classes/:classId/assign-tutor', authenticateToken, requirePermission('staff.manage'), async (req: AuthRequest, res) => {
   try {
     const { classId } = req.params;
     const { tutorId } = req.body;
@@ -440,7 +815,7 @@ router.put('/classes/:classId/assign-tutor', authenticateToken, requireRole('adm
 
     // Verify class exists
     const classCheck = await pool.query(
-      'SELECT subject, start_time FROM "Class" WHERE id = $1 AND active = TRUE',
+      'SELECT subject, level, start_time, duration_minutes, tutor_id, branch_id FROM "Class" WHERE id = $1 AND active = TRUE',
       [classId]
     );
 
@@ -449,6 +824,44 @@ router.put('/classes/:classId/assign-tutor', authenticateToken, requireRole('adm
       return;
     }
 
+    if (!(await canAccessBranch(req, classCheck.rows[0].branch_id))) {
+      res.status(403).json({ error: 'You can only assign tutors to classes at your own branches' });
+      return;
+    }
+
+    if (!(await worksAtBranch(tutorId, classCheck.rows[0].branch_id))) {
+      res.status(400).json({ error: 'This staff member is not assigned to the class\'s branch' });
+      return;
+    }
+
+    const leave = await findLeaveForClass(tutorId, classId);
+
+    if (leave) {
+      const tutor = tutorCheck.rows[0];
+      res.status(409).json({
+        error: `${tutor.first_name} ${tutor.last_name} is on leave ${formatLeaveDates(leave.start_date, leave.end_date)}`,
+        suggestions: await suggestTutorsForClass(classId)
+      });
+      return;
+    }
+
+    // Check the class fits the tutor's teaching profile
+    const eligibility = await checkTutorEligibility(tutorId, {
+      subject: classCheck.rows[0].subject,
+      level: classCheck.rows[0].level,
+      sessions: [{ startTime: new Date(classCheck.rows[0].start_time), durationMinutes: classCheck.rows[0].duration_minutes }],
+      excludeClassIds: [classId]
+    });
+
+    if (!eligibility.eligible) {
+      const tutor = tutorCheck.rows[0];
+      res.status(409).json({
+        error: formatEligibilityProblems(`${tutor.first_name} ${tutor.last_name}`, eligibility.problems),
+        suggestions: await suggestTutorsForClass(classId)
+      });
+      return;
+    }
+
     // Check for schedule conflicts
     const conflictCheck = await checkComprehensiveTeacherScheduleConflict(tutorId, classId);
     
@@ -456,7 +869,7 @@ router.put('/classes/:classId/assign-tutor', authenticateToken, requireRole('adm
       const tutor = tutorCheck.rows[0];
       const tutorName = `${tutor.first_name} ${tutor.last_name}`;
       const errorMessage = formatComprehensiveConflictErrorMessage(conflictCheck.conflicts, tutorName);
-      res.status(409).json({ error: errorMessage });
+      res.status(409).json({ error: errorMessage, suggestions: await suggestTutorsForClass(classId) });
       return;
     }
 
@@ -469,6 +882,23 @@ router.put('/classes/:classId/assign-tutor', authenticateToken, requireRole('adm
     const tutor = tutorCheck.rows[0];
     const classInfo = classCheck.rows[0];
 
+    await recordAudit(req, {
+      action: 'assign_tutor',
+      entityType: 'Class',
+      entityId: classId,
+      before: { tutor_id: classInfo.tutor_id },
+      after: { tutor_id: tutorId }
+    });
+
+    // Families are told when a class changes hands, not when it first gets a tutor
+    if (classInfo.tutor_id && classInfo.tutor_id !== tutorId) {
+      await notifyClassStudents([classId], 'tutor_changed', {
+        subject: classInfo.subject,
+        tutorName: `${tutor.first_name} ${tutor.last_name}`,
+        when: formatNotificationTime(classInfo.start_time)
+      });
+    }
+
     res.json({
       message: `${tutor.first_name} ${tutor.last_name} assigned to ${classInfo.subject} class successfully`
     });
@@ -479,8 +909,304 @@ router.put('/classes/:classId/assign-tutor', authenticateToken, requireRole('adm
   }
 });
 
+// Rank the staff who could take over a class, best fit for their teaching profile first (admin only)
+router.get('/classes/:classId/tutor-suggestions', authenticateToken, requirePermission('staff.manage'), async (req: AuthRequest, res) => {
+  try {
+    const { classId } = req.params;
+
+    if (!isValidUUID(classId)) {
+      res.status(400).json({ error: 'Invalid class ID format' });
+      return;
+    }
+
+    const classCheck = await pool.query('SELECT branch_id FROM "Class" WHERE id = $1 AND active = TRUE', [classId]);
+
+    if (classCheck.rows.length === 0) {
+      res.status(404).json({ error: 'Class not found or inactive' });
+      return;
+    }
+
+    if (!(await canAccessBranch(req, classCheck.rows[0].branch_id))) {
+      res.status(403).json({ error: 'You can only assign tutors to classes at your own branches' });
+      return;
+    }
+
+    res.json(await suggestTutorsForClass(classId));
+  } catch (error) {
+    console.error('Get tutor suggestions error:', error);
+    res.status(500).json({ error: 'Failed to suggest tutors' });
+  }
+});
+
+// Rank possible cover tutors for one class occurrence (admin only), the same way as tutors to take a class
+// over: their teaching profiles, approved leave and schedule clashes decide who can, best fit first
+router.get('/classes/:classId/substitute-suggestions', authenticateToken, requirePermission('staff.manage', 'leave.manage'), async (req: AuthRequest, res) => {
+  try {
+    const { classId } = req.params;
+
+    if (!isValidUUID(classId)) {
+      res.status(400).json({ error: 'Invalid class ID format' });
+      return;
+    }
+
+    const classCheck = await pool.query(
+      'SELECT substitute_tutor_id, branch_id FROM "Class" WHERE id = $1 AND active = TRUE',
+      [classId]
+    );
+
+    if (classCheck.rows.length === 0) {
+      res.status(404).json({ error: 'Class not found or inactive' });
+      return;
+    }
+
+    const classInfo = classCheck.rows[0];
+
+    if (!(await canAccessBranch(req, classInfo.branch_id))) {
+      res.status(403).json({ error: 'You can only arrange cover for classes at your own branches' });
+      return;
+    }
+
+    const suggestions = await suggestTutorsForClass(classId);
+
+    res.json(suggestions.map(suggestion => ({
+      ...suggestion,
+      is_current_substitute: suggestion.id === classInfo.substitute_tutor_id
+    })));
+  } catch (error) {
+    console.error('Get substitute suggestions error:', error);
+    res.status(500).json({ error: 'Failed to suggest cover tutors' });
+  }
+});
+
+// Set or clear the cover tutor for one class occurrence (admin only). The regular tutor stays assigned;
+// the cover tutor can take attendance for this occurrence alongside them. Families are told who is covering.
+router.put('/classes/:classId/substitute', authenticateToken, requirePermission('staff.manage', 'leave.manage'), async (req: AuthRequest, res) => {
+  try {
+    const { classId } = req.params;
+    const { tutorId } = req.body;
+
+    if (tutorId !== null && (typeof tutorId !== 'string' || !isValidUUID(tutorId))) {
+      res.status(400).json({ error: 'Tutor ID must be a valid staff ID, or null to remove the cover tutor' });
+      return;
+    }
+
+    const classCheck = await pool.query(
+      'SELECT subject, level, start_time, duration_minutes, tutor_id, substitute_tutor_id, branch_id FROM "Class" WHERE id = $1 AND active = TRUE',
+      [classId]
+    );
+
+    if (classCheck.rows.length === 0) {
+      res.status(404).json({ error: 'Class not found or inactive' });
+      return;
+    }
+
+    const classInfo = classCheck.rows[0];
+
+    if (!(await canAccessBranch(req, classInfo.branch_id))) {
+      res.status(403).json({ error: 'You can only arrange cover for classes at your own branches' });
+      return;
+    }
+
+    let message = `Cover tutor removed from ${classInfo.subject} class`;
+    let tutorName = '';
+
+    if (tutorId) {
+      if (tutorId === classInfo.tutor_id) {
+        res.status(400).json({ error: 'This staff member already teaches the class' });
+        return;
+      }
+
+      const tutorCheck = await pool.query(
+        'SELECT first_name, last_name FROM "User" WHERE id = $1 AND role = $2 AND active = TRUE',
+        [tutorId, 'staff']
+      );
+
+      if (tutorCheck.rows.length === 0) {
+        res.status(404).json({ error: 'Staff member not found or inactive' });
+        return;
+      }
+
+      if (!(await worksAtBranch(tutorId, classInfo.branch_id))) {
+        res.status(400).json({ error: 'This staff member is not assigned to the class\'s branch' });
+        return;
+      }
+
+      const tutor = tutorCheck.rows[0];
+      tutorName = `${tutor.first_name} ${tutor.last_name}`;
+
+      const leave = await findLeaveForClass(tutorId, classId);
+
+      if (leave) {
+        res.status(409).json({ error: `${tutorName} is on leave ${formatLeaveDates(leave.start_date, leave.end_date)}` });
+        return;
+      }
+
+      // Cover tutors are held to their teaching profiles like the regular tutor
+      const eligibility = await checkTutorEligibility(tutorId, {
+        subject: classInfo.subject,
+        level: classInfo.level,
+        sessions: [{ startTime: new Date(classInfo.start_time), durationMinutes: classInfo.duration_minutes }],
+        excludeClassIds: [classId]
+      });
+
+      if (!eligibility.eligible) {
+        res.status(409).json({ error: formatEligibilityProblems(tutorName, eligibility.problems) });
+        return;
+      }
+
+      const conflictCheck = await checkComprehensiveTeacherScheduleConflict(tutorId, classId);
+
+      if (conflictCheck.hasConflict) {
+        res.status(409).json({ error: formatComprehensiveConflictErrorMessage(conflictCheck.conflicts, tutorName) });
+        return;
+      }
+
+      message = `${tutorName} is covering the ${classInfo.subject} class on ${formatNotificationTime(classInfo.start_time)}`;
+    }
+
+    await pool.query(
+      'UPDATE "Class" SET substitute_tutor_id = $1, updated_at = NOW() WHERE id = $2',
+      [tutorId, classId]
+    );
+
+    await recordAudit(req, {
+      action: 'assign_substitute',
+      entityType: 'Class',
+      entityId: classId,
+      before: { substitute_tutor_id: classInfo.substitute_tutor_id },
+      after: { substitute_tutor_id: tutorId }
+    });
+
+    if (tutorId && tutorId !== classInfo.substitute_tutor_id) {
+      const regularTutorResult = await pool.query('SELECT first_name, last_name FROM "User" WHERE id = $1', [classInfo.tutor_id]);
+      const regularTutor = regularTutorResult.rows[0];
+
+      await notifyClassStudents([classId], 'substitute_tutor', {
+        subject: classInfo.subject,
+        tutorName,
+        regularTutorName: regularTutor ? `${regularTutor.first_name} ${regularTutor.last_name}` : 'the regular tutor',
+        when: formatNotificationTime(classInfo.start_time)
+      });
+    }
+
+    res.json({ message });
+  } catch (error) {
+    console.error('Assign substitute error:', error);
+    res.status(500).json({ error: 'Failed to update the class\'s cover tutor' });
+  }
+});
+
+// Reset another user's two-factor authentication, e.g. after they lose their phone (admin only).
+// They are signed out everywhere and set it up again on their next login if their role requires it.
+router.delete('/users/:id/two-factor', authenticateToken, requirePermission('account.security'), async (req: AuthRequest, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { id } = req.params;
+
+    if (id === req.user!.userId) {
+      res.status(400).json({ error: 'Use your profile page to change your own two-factor settings' });
+      return;
+    }
+
+    await client.query('BEGIN');
+
+    const userResult = await client.query(
+      'SELECT id, email, role, first_name, last_name FROM "User" WHERE id = $1',
+      [id]
+    );
+
+    if (userResult.rows.length === 0) {
+      await client.query('ROLLBACK');
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    const wasEnabled = await disableTwoFactor(id, client);
+
+    if (!wasEnabled) {
+      await client.query('ROLLBACK');
+      res.status(400).json({ error: 'Two-factor authentication is not enabled for this user' });
+      return;
+    }
+
+    const signedOut = await revokeUserSessions(id, 'two_factor_reset', client);
+
+    await recordAudit(req, {
+      action: 'reset_two_factor',
+      entityType: 'User',
+      entityId: id,
+      before: { two_factor_enabled: true },
+      after: { two_factor_enabled: false, sessions_revoked: signedOut }
+    }, client);
+
+    await client.query('COMMIT');
+
+    const user = userResult.rows[0];
+
+    res.json({ message: `Two-factor authentication has been reset for ${user.first_name} ${user.last_name}` });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Reset two-factor error:', error);
+    res.status(500).json({ error: 'Failed to reset two-factor authentication' });
+  } finally {
+    client.release();
+  }
+});
+
+// Get accounts that are currently locked after failed logins (admin only)
+router.get('/locked-accounts', authenticateToken, requirePermission('account.security'), async (req: AuthRequest, res) => {
+  try {
+    const result = await pool.query(`
+      SELECT id, email, role, first_name, last_name, failed_login_count, last_failed_login_at, locked_until
+      FROM "User"
+      WHERE locked_until > NOW()
+      ORDER BY locked_until DESC
+    `);
+
+    res.json(result.rows);
+  } catch (error) {
+    console.error('Get locked accounts error:', error);
+    res.status(500).json({ error: 'Failed to fetch locked accounts' });
+  }
+});
+
+// Unlock an account before its lockout ends and reset its failed login count (admin only)
+router.post('/users/:id/unlock', authenticateToken, requirePermission('account.security'), async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+
+    const userResult = await pool.query(
+      'SELECT id, first_name, last_name, failed_login_count, locked_until FROM "User" WHERE id = $1',
+      [id]
+    );
+
+    if (userResult.rows.length === 0) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    const user = userResult.rows[0];
+
+    await clearFailedLogins(id);
+
+    await recordAudit(req, {
+      action: 'unlock',
+      entityType: 'User',
+      entityId: id,
+      before: { failed_login_count: user.failed_login_count, locked_until: user.locked_until },
+      after: { failed_login_count: 0, locked_until: null }
+    });
+
+    res.json({ message: `${user.first_name} ${user.last_name} can login again` });
+  } catch (error) {
+    console.error('Unlock account error:', error);
+    res.status(500).json({ error: 'Failed to unlock account' });
+  }
+});
+
 // Get all users for overview (admin only)
-router.get('/users/overview', authenticateToken, requireRole('admin'), async (req: AuthRequest, res) => {
+router.get('/users/overview', authenticateToken, requirePermission('staff.manage'), async (req: AuthRequest, res) => {
   try {
     const result = await pool.query(`
       SELECT 
@@ -2,27 +2,54 @@
 
 import express from 'express';
 import { pool } from '../index';
-import { authenticateToken, requireRole, AuthRequest } from '../middleware/auth';
+import { authenticateToken, requirePermission, AuthRequest } from '../middleware/auth';
+import { isValidUUID, validateAttendanceAlertRule } from '../middleware/validation';
+import { recordAudit } from '../services/audit';
+import { getBranchScope } from '../services/branchAccess';
+import { hasPermission } from '../services/permissions';
+import { isGuardianOf } from '../services/guardians';
+import { notifyGuardians } from '../services/notifications';
+import { getStudentAttendanceStats } from '../services/attendanceStats';
+import { evaluateAttendanceAlerts } from '../services/attendanceAlerts';
+import { formatNotificationTime } from '../config/notifications';
 
 const router = express.Router();
 
-// Get classes with enrolled students for a staff member (staff only)
-router.get('/my-classes', authenticateToken, requireRole('staff'), async (req: AuthRequest, res) => {
+// Longest reason that can be given for correcting an attendance record
+const MAX_CORRECTION_REASON_LENGTH = 500;
+
+// The class if the caller can take attendance for it: they teach it, cover it, or hold attendance.mark_any,
+// and it is at one of their branches
+const findMarkableClass = async (req: AuthRequest, classId: string) => {
+  const result = await pool.query(`
+    SELECT id, subject, start_time
+    FROM "Class"
+    WHERE id = $1 AND active = TRUE AND ($3::uuid[] IS NULL OR branch_id = ANY($3::uuid[]))
+      AND ($4 OR tutor_id = $2 OR substitute_tutor_id = $2)
+  `, [classId, req.user!.userId, await getBranchScope(req), await hasPermission(req, 'attendance.mark_any')]);
+
+  return result.rows[0] || null;
+};
+
+// Get classes a staff member teaches or covers, with enrolled students, at their own branches (staff only)
+router.get('/my-classes', authenticateToken, requirePermission('attendance.mark', 'attendance.mark_any'), async (req: AuthRequest, res) => {
   try {
     const staffId = req.user!.userId;
+    const branchScope = await getBranchScope(req);
     
     const result = await pool.query(`
       SELECT DISTINCT c.id as class_id, c.subject, c.description, c.level, c.start_time, c.duration_minutes,
              b.name as branch_name, b.address as branch_address,
+             c.substitute_tutor_id = $1 as is_cover,
              COUNT(e.id) as enrolled_count
       FROM "Class" c
       LEFT JOIN "Branch" b ON c.branch_id = b.id
       LEFT JOIN "Enrollment" e ON c.id = e.class_id AND e.status = 'enrolled'
       LEFT JOIN "Student" s ON e.student_id = s.id AND s.active = TRUE
-      WHERE c.tutor_id = $1 AND c.active = TRUE
-      GROUP BY c.id, c.subject, c.description, c.level, c.start_time, c.duration_minutes, b.name, b.address
+      WHERE (c.tutor_id = $1 OR c.substitute_tutor_id = $1) AND c.active = TRUE AND ($2::uuid[] IS NULL OR c.branch_id = ANY($2::uuid[]))
+      GROUP BY c.id, c.subject, c.description, c.level, c.start_time, c.duration_minutes, c.substitute_tutor_id, b.name, b.address
       ORDER BY c.start_time DESC
-    `, [staffId]);
+    `, [staffId, branchScope]);
 
     res.json(result.rows);
   } catch (error) {
@@ -31,19 +58,46 @@ router.get('/my-classes', authenticateToken, requireRole('staff'), async (req: A
   }
 });
 
-// Get enrolled students for a specific class (staff only - must be assigned to the class)
-router.get('/class/:classId/students', authenticateToken, requireRole('staff'), async (req: AuthRequest, res) => {
+// Get every class on a date at the caller's branches, with its tutor and cover tutor (staff who can mark any class)
+router.get('/branch-classes', authenticateToken, requirePermission('attendance.mark_any'), async (req: AuthRequest, res) => {
+  try {
+    const date = req.query.date as string | undefined;
+
+    if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(date).getTime())) {
+      res.status(400).json({ error: 'A date in YYYY-MM-DD format is required' });
+      return;
+    }
+
+    const result = await pool.query(`
+      SELECT c.id as class_id, c.subject, c.description, c.level, c.start_time, c.duration_minutes,
+             b.name as branch_name, b.address as branch_address,
+             c.tutor_id, t.first_name as tutor_first_name, t.last_name as tutor_last_name,
+             c.substitute_tutor_id, st.first_name as substitute_first_name, st.last_name as substitute_last_name,
+             (SELECT COUNT(*) FROM "Enrollment" e WHERE e.class_id = c.id AND e.status = 'enrolled') as enrolled_count
+      FROM "Class" c
+      LEFT JOIN "Branch" b ON c.branch_id = b.id
+      LEFT JOIN "User" t ON c.tutor_id = t.id
+      LEFT JOIN "User" st ON c.substitute_tutor_id = st.id
+      WHERE c.active = TRUE AND c.start_time::date = $1::date AND ($2::uuid[] IS NULL OR c.branch_id = ANY($2::uuid[]))
+      ORDER BY c.start_time, c.subject
+    `, [date, await getBranchScope(req)]);
+
+    res.json(result.rows);
+  } catch (error) {
+    console.error('Get branch classes error:', error);
+    res.status(500).json({ error: 'Failed to fetch classes' });
+  }
+});
+
+// Get enrolled students for a specific class (staff only - must teach or cover the class, or mark any)
+router.get('/class/:classId/students', authenticateToken, requirePermission('attendance.mark', 'attendance.mark_any'), async (req: AuthRequest, res) => {
   try {
     const { classId } = req.params;
-    const staffId = req.user!.userId;
     
-    // Verify this staff member is assigned to this class
-    const classCheck = await pool.query(
-      'SELECT id FROM "Class" WHERE id = $1 AND tutor_id = $2 AND active = TRUE',
-      [classId, staffId]
-    );
+    // Verify this staff member teaches or covers this class (or can mark any), at one of their branches
+    const classInfo = await findMarkableClass(req, classId);
     
-    if (classCheck.rows.length === 0) {
+    if (!classInfo) {
       res.status(403).json({ error: 'Access denied or class not found' });
       return;
     }
@@ -67,18 +121,14 @@ router.get('/class/:classId/students', authenticateToken, requireRole('staff'),
 });
 
 // Get attendance records for a specific class and date (staff only)
-router.get('/class/:classId/date/:date', authenticateToken, requireRole('staff'), async (req: AuthRequest, res) => {
+router.get('/class/:classId/date/:date', authenticateToken, requirePermission('attendance.mark', 'attendance.mark_any'), async (req: AuthRequest, res) => {
   try {
     const { classId, date } = req.params;
-    const staffId = req.user!.userId;
     
-    // Verify this staff member is assigned to this class
-    const classCheck = await pool.query(
-      'SELECT id FROM "Class" WHERE id = $1 AND tutor_id = $2 AND active = TRUE',
-      [classId, staffId]
-    );
+    // Verify this staff member teaches or covers this class (or can mark any), at one of their branches
+    const classInfo = await findMarkableClass(req, classId);
     
-    if (classCheck.rows.length === 0) {
+    if (!classInfo) {
       res.status(403).json({ error: 'Access denied or class not found' });
       return;
     }
@@ -91,12 +141,14 @@ router.get('/class/:classId/date/:date', authenticateToken, requireRole('staff')
     }
     
     const result = await pool.query(`
-      SELECT a.id, a.enrollment_id, a.student_id, a.status, a.notes, a.marked_at,
+      SELECT a.id, a.enrollment_id, a.student_id, a.status, a.notes, a.marked_at, a.version,
+             m.first_name as marked_by_first_name, m.last_name as marked_by_last_name,
              s.first_name, s.last_name, s.grade,
              e.id as enrollment_id_check
       FROM "Attendance" a
       JOIN "Student" s ON a.student_id = s.id
       JOIN "Enrollment" e ON a.enrollment_id = e.id
+      LEFT JOIN "User" m ON a.marked_by = m.id
       WHERE a.class_id = $1 AND a.date = $2 AND s.active = TRUE
       ORDER BY s.first_name, s.last_name
     `, [classId, date]);
@@ -108,8 +160,9 @@ router.get('/class/:classId/date/:date', authenticateToken, requireRole('staff')
   }
 });
 
-// Mark or update attendance for multiple students (staff only)
-router.post('/class/:classId/date/:date/mark', authenticateToken, requireRole('staff'), async (req: AuthRequest, res) => {
+// Mark or correct attendance for multiple students (staff only). Every change is kept as a new version
+// of the record; changing a status that was already marked needs a reason.
+router.post('/class/:classId/date/:date/mark', authenticateToken, requirePermission('attendance.mark', 'attendance.mark_any'), async (req: AuthRequest, res) => {
   const client = await pool.connect();
   
   try {
@@ -119,13 +172,10 @@ router.post('/class/:classId/date/:date/mark', authenticateToken, requireRole('s
     const { attendanceRecords } = req.body;
     const staffId = req.user!.userId;
     
-    // Verify this staff member is assigned to this class
-    const classCheck = await client.query(
-      'SELECT id, subject FROM "Class" WHERE id = $1 AND tutor_id = $2 AND active = TRUE',
-      [classId, staffId]
-    );
+    // Verify this staff member teaches or covers this class (or can mark any), at one of their branches
+    const classInfo = await findMarkableClass(req, classId);
     
-    if (classCheck.rows.length === 0) {
+    if (!classInfo) {
       await client.query('ROLLBACK');
       res.status(403).json({ error: 'Access denied or class not found' });
       return;
@@ -158,6 +208,13 @@ router.post('/class/:classId/date/:date/mark', authenticateToken, requireRole('s
       return;
     }
     
+    // Only students enrolled in this class can be marked, and each record's student comes from its enrollment
+    const enrollmentResult = await client.query(
+      `SELECT id, student_id FROM "Enrollment" WHERE class_id = $1 AND status = 'enrolled'`,
+      [classId]
+    );
+    const studentByEnrollment = new Map<string, string>(enrollmentResult.rows.map(row => [row.id, row.student_id]));
+
     const validStatuses = ['present', 'absent', 'late', 'excused'];
     for (let i = 0; i < attendanceRecords.length; i++) {
       const record = attendanceRecords[i];
@@ -178,6 +235,14 @@ router.post('/class/:classId/date/:date/mark', authenticateToken, requireRole('s
         return;
       }
       
+      if (studentByEnrollment.get(record.enrollmentId) !== record.studentId) {
+        await client.query('ROLLBACK');
+        res.status(400).json({
+          error: `Record ${i + 1} is not for a student enrolled in this class`
+        });
+        return;
+      }
+      
       if (!record.status) {
         await client.query('ROLLBACK');
         res.status(400).json({ 
@@ -193,12 +258,54 @@ router.post('/class/:classId/date/:date/mark', authenticateToken, requireRole('s
         });
         return;
       }
+
+      if (record.reason !== undefined && record.reason !== null
+        && (typeof record.reason !== 'string' || record.reason.trim().length > MAX_CORRECTION_REASON_LENGTH)) {
+        await client.query('ROLLBACK');
+        res.status(400).json({
+          error: `Reason in record ${i + 1} must be text of at most ${MAX_CORRECTION_REASON_LENGTH} characters`
+        });
+        return;
+      }
     }
     
     const updatedRecords = [];
+    const newlyAbsentStudentIds: string[] = [];
     
     for (const record of attendanceRecords) {
-      // Upsert attendance record
+      const studentId = studentByEnrollment.get(record.enrollmentId)!;
+      const previousResult = await client.query(
+        'SELECT id, student_id, enrollment_id, date, status, notes, marked_by, marked_at, version FROM "Attendance" WHERE enrollment_id = $1 AND date = $2 FOR UPDATE',
+        [record.enrollmentId, date]
+      );
+
+      const previous = previousResult.rows[0] || null;
+      const notes = record.notes || null;
+      const reason = record.reason?.trim() || null;
+
+      // Saving a record unchanged doesn't add a version
+      if (previous && previous.status === record.status && (previous.notes || null) === notes) {
+        updatedRecords.push({
+          enrollmentId: record.enrollmentId,
+          studentId,
+          id: previous.id,
+          status: previous.status,
+          notes: previous.notes,
+          marked_at: previous.marked_at,
+          version: previous.version
+        });
+        continue;
+      }
+
+      if (previous && previous.status !== record.status && !reason) {
+        await client.query('ROLLBACK');
+        res.status(400).json({
+          error: `A reason is required to change record ${attendanceRecords.indexOf(record) + 1} from ${previous.status} to ${record.status}`
+        });
+        return;
+      }
+
+      // Upsert attendance record, moving it on a version when it already existed
       const result = await client.query(`
         INSERT INTO "Attendance" (student_id, class_id, enrollment_id, date, status, notes, marked_by)
         VALUES ($1, $2, $3, $4, $5, $6, $7)
@@ -207,29 +314,62 @@ router.post('/class/:classId/date/:date/mark', authenticateToken, requireRole('s
           status = EXCLUDED.status,
           notes = EXCLUDED.notes,
           marked_by = EXCLUDED.marked_by,
-          marked_at = NOW()
-        RETURNING id, status, notes, marked_at
+          marked_at = NOW(),
+          version = "Attendance".version + 1
+        RETURNING id, status, notes, marked_at, version
       `, [
-        record.studentId,
+        studentId,
         classId,
         record.enrollmentId,
         date,
         record.status,
-        record.notes || null,
+        notes,
         staffId
       ]);
+
+      await client.query(`
+        INSERT INTO "AttendanceRevision" (attendance_id, version, status, previous_status, notes, reason, changed_by, changed_by_name)
+        SELECT $1, $2, $3, $4, $5, $6, id, CONCAT(first_name, ' ', last_name)
+        FROM "User"
+        WHERE id = $7
+      `, [result.rows[0].id, result.rows[0].version, record.status, previous?.status ?? null, notes, reason, staffId]);
       
+      await recordAudit(req, {
+        action: previous ? 'update' : 'create',
+        entityType: 'Attendance',
+        entityId: result.rows[0].id,
+        before: previous,
+        after: {
+          ...(previous || { student_id: studentId, enrollment_id: record.enrollmentId, date }),
+          ...result.rows[0],
+          marked_by: staffId,
+          reason
+        }
+      }, client);
+
       updatedRecords.push({
         enrollmentId: record.enrollmentId,
-        studentId: record.studentId,
+        studentId,
         ...result.rows[0]
       });
+
+      // Re-saving an absence doesn't alert the family a second time
+      if (record.status === 'absent' && previous?.status !== 'absent') {
+        newlyAbsentStudentIds.push(studentId);
+      }
     }
+
+    await notifyGuardians(newlyAbsentStudentIds, 'student_absent', {
+      subject: classInfo.subject,
+      when: formatNotificationTime(classInfo.start_time)
+    }, client);
+
+    await evaluateAttendanceAlerts(newlyAbsentStudentIds, client);
     
     await client.query('COMMIT');
     
     res.json({
-      message: `Attendance marked for ${attendanceRecords.length} student(s) in ${classCheck.rows[0].subject}`,
+      message: `Attendance marked for ${attendanceRecords.length} student(s) in ${classInfo.subject}`,
       records: updatedRecords
     });
     
@@ -242,20 +382,51 @@ router.post('/class/:classId/date/:date/mark', authenticateToken, requireRole('s
   }
 });
 
+// Get every version of the attendance records for a class and date, newest first per student (staff only)
+router.get('/class/:classId/date/:date/history', authenticateToken, requirePermission('attendance.mark', 'attendance.mark_any'), async (req: AuthRequest, res) => {
+  try {
+    const { classId, date } = req.params;
+
+    // Verify this staff member teaches or covers this class (or can mark any), at one of their branches
+    const classInfo = await findMarkableClass(req, classId);
+
+    if (!classInfo) {
+      res.status(403).json({ error: 'Access denied or class not found' });
+      return;
+    }
+
+    if (isNaN(new Date(date).getTime())) {
+      res.status(400).json({ error: 'Invalid date format' });
+      return;
+    }
+
+    const result = await pool.query(`
+      SELECT r.id, r.attendance_id, a.enrollment_id, a.student_id, s.first_name, s.last_name,
+             r.version, r.status, r.previous_status, r.notes, r.reason, r.changed_by_name, r.changed_at
+      FROM "AttendanceRevision" r
+      JOIN "Attendance" a ON r.attendance_id = a.id
+      JOIN "Student" s ON a.student_id = s.id
+      WHERE a.class_id = $1 AND a.date = $2
+      ORDER BY s.first_name, s.last_name, a.student_id, r.version DESC
+    `, [classId, date]);
+
+    res.json(result.rows);
+  } catch (error) {
+    console.error('Get attendance history error:', error);
+    res.status(500).json({ error: 'Failed to fetch attendance history' });
+  }
+});
+
 // Get attendance summary for a class (staff only)
-router.get('/class/:classId/summary', authenticateToken, requireRole('staff'), async (req: AuthRequest, res) => {
+router.get('/class/:classId/summary', authenticateToken, requirePermission('attendance.mark', 'attendance.mark_any'), async (req: AuthRequest, res) => {
   try {
     const { classId } = req.params;
     const { startDate, endDate } = req.query;
-    const staffId = req.user!.userId;
     
-    // Verify this staff member is assigned to this class
-    const classCheck = await pool.query(
-      'SELECT id, subject, start_time FROM "Class" WHERE id = $1 AND tutor_id = $2 AND active = TRUE',
-      [classId, staffId]
-    );
+    // Verify this staff member teaches or covers this class (or can mark any), at one of their branches
+    const classInfo = await findMarkableClass(req, classId);
     
-    if (classCheck.rows.length === 0) {
+    if (!classInfo) {
       res.status(403).json({ error: 'Access denied or class not found' });
       return;
     }
@@ -291,7 +462,7 @@ router.get('/class/:classId/summary', authenticateToken, requireRole('staff'), a
     `, queryParams);
     
     res.json({
-      classInfo: classCheck.rows[0],
+      classInfo,
       summary: result.rows[0]
     });
     
@@ -301,4 +472,202 @@ router.get('/class/:classId/summary', authenticateToken, requireRole('staff'), a
   }
 });
 
-export default router;
\ No newline at end of file
+const ALERT_RULE_COLUMNS = `
+  id, name, rule_type, threshold, window_sessions, notify_guardians, notify_branch_admins, active, created_at, updated_at
+`;
+
+// Whether the caller may see a student's attendance history: one of their guardians, the student
+// themselves, or staff with attendance.view_all at the student's home branch
+const canViewStudentAttendance = async (req: AuthRequest, studentId: string): Promise<boolean> => {
+  const userId = req.user!.userId;
+  let result;
+
+  if (req.user!.role === 'parent') {
+    result = await pool.query(
+      `SELECT 1 FROM "Student" s WHERE s.id = $1 AND s.active = TRUE AND ${isGuardianOf('s', '$2')}`,
+      [studentId, userId]
+    );
+  } else if (req.user!.role === 'student') {
+    result = await pool.query(
+      'SELECT 1 FROM "Student" WHERE id = $1 AND active = TRUE AND user_id = $2',
+      [studentId, userId]
+    );
+  } else {
+    if (!(await hasPermission(req, 'attendance.view_all'))) {
+      return false;
+    }
+
+    result = await pool.query(
+      'SELECT 1 FROM "Student" WHERE id = $1 AND active = TRUE AND ($2::uuid[] IS NULL OR home_branch_id = ANY($2::uuid[]))',
+      [studentId, await getBranchScope(req)]
+    );
+  }
+
+  return result.rows.length > 0;
+};
+
+// Get one student's attendance across all their classes: rate, streaks and per-subject breakdown
+// (their guardians, the student, and staff who can view all attendance at the student's branch)
+router.get('/student/:studentId', authenticateToken, requirePermission('student.manage_own', 'student.view_self', 'attendance.view_all'), async (req: AuthRequest, res) => {
+  try {
+    const { studentId } = req.params;
+
+    if (!isValidUUID(studentId)) {
+      res.status(400).json({ error: 'Invalid student ID format' });
+      return;
+    }
+
+    if (!(await canViewStudentAttendance(req, studentId))) {
+      res.status(404).json({ error: 'Student not found or access denied' });
+      return;
+    }
+
+    res.json(await getStudentAttendanceStats(studentId));
+  } catch (error) {
+    console.error('Get student attendance stats error:', error);
+    res.status(500).json({ error: 'Failed to fetch student attendance' });
+  }
+});
+
+// Get recent absence alerts for students at the caller's branches (staff who can view all attendance)
+router.get('/alerts', authenticateToken, requirePermission('attendance.view_all'), async (req: AuthRequest, res) => {
+  try {
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 200);
+
+    const result = await pool.query(`
+      SELECT al.id, al.rule_id, al.rule_name, al.student_id, al.details, al.created_at,
+             CONCAT(s.first_name, ' ', s.last_name) as student_name,
+             b.name as branch_name
+      FROM "AttendanceAlert" al
+      JOIN "Student" s ON al.student_id = s.id
+      LEFT JOIN "Branch" b ON s.home_branch_id = b.id
+      WHERE s.active = TRUE AND ($1::uuid[] IS NULL OR s.home_branch_id = ANY($1::uuid[]))
+      ORDER BY al.created_at DESC
+      LIMIT $2
+    `, [await getBranchScope(req), limit]);
+
+    res.json(result.rows);
+  } catch (error) {
+    console.error('Get attendance alerts error:', error);
+    res.status(500).json({ error: 'Failed to fetch attendance alerts' });
+  }
+});
+
+// Get the absence alert rules (admin only)
+router.get('/alert-rules', authenticateToken, requirePermission('attendance.manage_alerts'), async (req: AuthRequest, res) => {
+  try {
+    const result = await pool.query(`SELECT ${ALERT_RULE_COLUMNS} FROM "AttendanceAlertRule" ORDER BY created_at`);
+    res.json(result.rows);
+  } catch (error) {
+    console.error('Get attendance alert rules error:', error);
+    res.status(500).json({ error: 'Failed to fetch attendance alert rules' });
+  }
+});
+
+// Create an absence alert rule (admin only)
+router.post('/alert-rules', authenticateToken, requirePermission('attendance.manage_alerts'), validateAttendanceAlertRule, async (req: AuthRequest, res) => {
+  try {
+    const { name, ruleType, threshold, windowSessions, notifyGuardians, notifyBranchAdmins, active } = req.body;
+
+    const result = await pool.query(`
+      INSERT INTO "AttendanceAlertRule" (name, rule_type, threshold, window_sessions, notify_guardians, notify_branch_admins, active, created_by)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING ${ALERT_RULE_COLUMNS}
+    `, [name.trim(), ruleType, threshold, ruleType === 'absence_rate' ? windowSessions ?? null : null,
+        notifyGuardians ?? true, notifyBranchAdmins ?? true, active ?? true, req.user!.userId]);
+
+    await recordAudit(req, {
+      action: 'create',
+      entityType: 'AttendanceAlertRule',
+      entityId: result.rows[0].id,
+      after: result.rows[0]
+    });
+
+    res.status(201).json({
+      message: 'Alert rule created successfully',
+      rule: result.rows[0]
+    });
+  } catch (error) {
+    console.error('Create attendance alert rule error:', error);
+    res.status(500).json({ error: 'Failed to create alert rule' });
+  }
+});
+
+// Update an absence alert rule (admin only)
+router.put('/alert-rules/:id', authenticateToken, requirePermission('attendance.manage_alerts'), validateAttendanceAlertRule, async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+    const { name, ruleType, threshold, windowSessions, notifyGuardians, notifyBranchAdmins, active } = req.body;
+
+    if (!isValidUUID(id)) {
+      res.status(400).json({ error: 'Invalid rule ID format' });
+      return;
+    }
+
+    const existing = await pool.query(`SELECT ${ALERT_RULE_COLUMNS} FROM "AttendanceAlertRule" WHERE id = $1`, [id]);
+    if (existing.rows.length === 0) {
+      res.status(404).json({ error: 'Alert rule not found' });
+      return;
+    }
+
+    const result = await pool.query(`
+      UPDATE "AttendanceAlertRule"
+      SET name = $2, rule_type = $3, threshold = $4, window_sessions = $5,
+          notify_guardians = COALESCE($6, notify_guardians),
+          notify_branch_admins = COALESCE($7, notify_branch_admins),
+          active = COALESCE($8, active),
+          updated_at = NOW()
+      WHERE id = $1
+      RETURNING ${ALERT_RULE_COLUMNS}
+    `, [id, name.trim(), ruleType, threshold, ruleType === 'absence_rate' ? windowSessions ?? null : null,
+        notifyGuardians, notifyBranchAdmins, active]);
+
+    await recordAudit(req, {
+      action: 'update',
+      entityType: 'AttendanceAlertRule',
+      entityId: id,
+      before: existing.rows[0],
+      after: result.rows[0]
+    });
+
+    res.json({
+      message: 'Alert rule updated successfully',
+      rule: result.rows[0]
+    });
+  } catch (error) {
+    console.error('Update attendance alert rule error:', error);
+    res.status(500).json({ error: 'Failed to update alert rule' });
+  }
+});
+
+// Delete an absence alert rule; alerts it raised are kept (admin only)
+router.delete('/alert-rules/:id', authenticateToken, requirePermission('attendance.manage_alerts'), async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!isValidUUID(id)) {
+      res.status(400).json({ error: 'Invalid rule ID format' });
+      return;
+    }
+
+    const result = await pool.query(`DELETE FROM "AttendanceAlertRule" WHERE id = $1 RETURNING ${ALERT_RULE_COLUMNS}`, [id]);
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Alert rule not found' });
+      return;
+    }
+
+    await recordAudit(req, {
+      action: 'delete',
+      entityType: 'AttendanceAlertRule',
+      entityId: id,
+      before: result.rows[0]
+    });
+
+    res.json({ message: `Alert rule "${result.rows[0].name}" deleted successfully` });
+  } catch (error) {
+    console.error('Delete attendance alert rule error:', error);
+    res.status(500).json({ error: 'Failed to delete alert rule' });
+  }
+});
+
+export default router;
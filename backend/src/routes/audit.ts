@@ -0,0 +1,105 @@
+// backend/src/routes/audit.ts
+
+import express from 'express';
+import { pool } from '../index';
+import { authenticateToken, requirePermission, AuthRequest } from '../middleware/auth';
+import { isValidDateString, isValidUUID } from '../middleware/validation';
+
+const router = express.Router();
+
+// Search the audit log by entity, user, action and date range (admin only)
+router.get('/', authenticateToken, requirePermission('audit.view'), async (req: AuthRequest, res) => {
+  try {
+    const entityType = req.query.entityType as string | undefined;
+    const entityId = req.query.entityId as string | undefined;
+    const actorId = req.query.actorId as string | undefined;
+    const actor = req.query.actor as string | undefined;
+    const action = req.query.action as string | undefined;
+    const requestId = req.query.requestId as string | undefined;
+    const from = req.query.from as string | undefined;
+    const to = req.query.to as string | undefined;
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 200);
+
+    if (actorId && !isValidUUID(actorId)) {
+      res.status(400).json({ error: 'Invalid user ID format' });
+      return;
+    }
+
+    if ((from && !isValidDateString(from)) || (to && !isValidDateString(to))) {
+      res.status(400).json({ error: 'Dates must use the YYYY-MM-DD format' });
+      return;
+    }
+
+    if (from && to && from > to) {
+      res.status(400).json({ error: 'The start date must be on or before the end date' });
+      return;
+    }
+
+    const params: any[] = [];
+    const conditions: string[] = [];
+
+    const addCondition = (sql: string, value: unknown) => {
+      params.push(value);
+      conditions.push(sql.replace('?', `$${params.length}`));
+    };
+
+    if (entityType) addCondition('a.entity_type = ?', entityType);
+    if (entityId) addCondition('a.entity_id = ?', entityId);
+    if (actorId) addCondition('a.actor_id = ?', actorId);
+    if (actor) addCondition('a.actor_email ILIKE ?', `%${actor.trim()}%`);
+    if (action) addCondition('a.action = ?', action);
+    if (requestId) addCondition('a.request_id = ?', requestId);
+    if (from) addCondition('a.occurred_at >= ?::date', from);
+    if (to) addCondition(`a.occurred_at < ?::date + INTERVAL '1 day'`, to);
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const [result, countResult] = await Promise.all([
+      pool.query(`
+        SELECT a.id, a.occurred_at, a.actor_id, a.actor_email, a.actor_role, a.action, a.entity_type, a.entity_id,
+               a.before_data, a.after_data, a.changed_fields, a.ip_address, a.request_id, a.http_method, a.path
+        FROM "AuditLog" a
+        ${where}
+        ORDER BY a.occurred_at DESC
+        LIMIT $${params.length + 1} OFFSET $${params.length + 2}
+      `, [...params, limit, (page - 1) * limit]),
+      pool.query(`SELECT COUNT(*) as total FROM "AuditLog" a ${where}`, params)
+    ]);
+
+    const total = parseInt(countResult.rows[0].total);
+
+    res.json({
+      entries: result.rows,
+      pagination: {
+        page,
+        limit,
+        total,
+        total_pages: Math.max(Math.ceil(total / limit), 1)
+      }
+    });
+  } catch (error) {
+    console.error('Audit log search error:', error);
+    res.status(500).json({ error: 'Failed to search audit log' });
+  }
+});
+
+// Get the entity types and actions that appear in the audit log, for search filters (admin only)
+router.get('/filters', authenticateToken, requirePermission('audit.view'), async (req: AuthRequest, res) => {
+  try {
+    const [entityTypes, actions] = await Promise.all([
+      pool.query('SELECT DISTINCT entity_type FROM "AuditLog" ORDER BY entity_type'),
+      pool.query('SELECT DISTINCT action FROM "AuditLog" ORDER BY action')
+    ]);
+
+    res.json({
+      entity_types: entityTypes.rows.map(row => row.entity_type),
+      actions: actions.rows.map(row => row.action)
+    });
+  } catch (error) {
+    console.error('Audit filters fetch error:', error);
+    res.status(500).json({ error: 'Failed to fetch audit filters' });
+  }
+});
+
+export default router;
@@ -2,13 +2,66 @@
 
 import express from 'express';
 import bcrypt from 'bcrypt';
-import jwt from 'jsonwebtoken';
 import { pool } from '../index';
 import { AuthRequest, authenticateToken } from '../middleware/auth';
-import { validateParentRegistration, validateLogin } from '../middleware/validation';
+import { validateParentRegistration, validateLogin, validateForgotPassword, validatePasswordReset } from '../middleware/validation';
+import { recordAudit } from '../services/audit';
+import { issueSession, rotateRefreshToken, findActiveRefreshToken, revokeSession, revokeUserSessions } from '../services/sessions';
+import {
+  consumeAccountToken,
+  invalidateAccountTokens,
+  hasRecentAccountToken,
+  sendVerificationEmail,
+  sendPasswordResetEmail
+} from '../services/accountTokens';
+import { isPasswordReused, setUserPassword } from '../services/passwords';
+import { getPasswordPolicy } from '../config/passwordPolicy';
+import {
+  isTwoFactorRequired,
+  createTwoFactorChallenge,
+  verifyTwoFactorChallenge,
+  startTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  verifyTwoFactorCode,
+  consumeRecoveryCode
+} from '../services/twoFactor';
+import {
+  recordLoginAttempt,
+  registerFailedLogin,
+  clearFailedLogins,
+  isAccountLocked,
+  getLockoutMinutesRemaining
+} from '../services/loginHistory';
+import { USER_ACCESS_COLUMNS } from '../services/permissions';
+
+// Minimum gap between emails of the same kind to one account
+const EMAIL_RESEND_MINUTES = 2;
 
 const router = express.Router();
 
+const SIGN_IN_USER_COLUMNS = `id, email, email_verified, role, first_name, last_name, phone, created_at, updated_at, ${USER_ACCESS_COLUMNS}`;
+
+const lockedMessage = (lockedUntil: Date): string => {
+  const minutes = getLockoutMinutesRemaining(lockedUntil);
+  return `Too many failed login attempts. Your account is locked for ${minutes} more minute${minutes === 1 ? '' : 's'}.`;
+};
+
+// The user object returned once a sign-in completes
+const toSignedInUser = (user: Record<string, any>) => ({
+  id: user.id,
+  email: user.email,
+  email_verified: user.email_verified,
+  role: user.role,
+  role_name: user.role_name,
+  permissions: user.permissions,
+  branch_ids: user.branch_ids,
+  first_name: user.first_name,
+  last_name: user.last_name,
+  phone: user.phone,
+  created_at: user.created_at,
+  updated_at: user.updated_at
+});
+
 // User registration (parents only)
 router.post('/register', validateParentRegistration, async (req, res) => {
   try {
@@ -36,12 +89,21 @@ router.post('/register', validateParentRegistration, async (req, res) => {
     const result = await pool.query(
       `INSERT INTO "User" (email, password, role, first_name, last_name, phone) 
        VALUES ($1, $2, $3, $4, $5, $6) 
-       RETURNING id, email, role, first_name, last_name, phone, created_at, updated_at`,
+       RETURNING ${SIGN_IN_USER_COLUMNS}`,
       [trimmedEmail, hashedPassword, 'parent', firstName.trim(), lastName.trim(), phone?.trim() || null]
     );
 
     const user = result.rows[0];
 
+    // Nobody is signed in yet, so the new parent is recorded as the actor
+    await recordAudit(req, {
+      action: 'create',
+      entityType: 'User',
+      entityId: user.id,
+      after: user,
+      actor: { userId: user.id, email: user.email, role: user.role }
+    });
+
     // Get JWT secret from environment
     const jwtSecret = process.env.JWT_SECRET;
     if (!jwtSecret) {
@@ -50,26 +112,20 @@ router.post('/register', validateParentRegistration, async (req, res) => {
       return;
     }
 
-    // Generate JWT token
-    const token = jwt.sign(
-      { userId: user.id, email: user.email, role: user.role },
-      jwtSecret,
-      { expiresIn: '24h' }
-    );
+    // The account works straight away; a failed email only means the parent has to ask for it again
+    try {
+      await sendVerificationEmail(user);
+    } catch (mailError) {
+      console.error('Verification email error:', mailError);
+    }
+
+    // Start a session: short-lived access token plus a rotating refresh token
+    const session = await issueSession(user, req);
 
     res.status(201).json({
       message: 'Account created successfully! Welcome to our tuition center.',
-      token,
-      user: {
-        id: user.id,
-        email: user.email,
-        role: user.role,
-        first_name: user.first_name,
-        last_name: user.last_name,
-        phone: user.phone,
-        created_at: user.created_at,
-        updated_at: user.updated_at
-      }
+      ...session,
+      user: toSignedInUser(user)
     });
 
   } catch (error) {
@@ -88,20 +144,35 @@ router.post('/login', validateLogin, async (req, res) => {
 
     // Find user
     const result = await pool.query(
-      'SELECT id, email, password, role, first_name, last_name, phone, created_at, updated_at FROM "User" WHERE email = $1 AND active = TRUE',
+      `SELECT ${SIGN_IN_USER_COLUMNS}, password, two_factor_enabled, locked_until FROM "User" WHERE email = $1 AND active = TRUE`,
       [trimmedEmail]
     );
 
     if (result.rows.length === 0) {
+      await recordLoginAttempt(req, { email: trimmedEmail, success: false, failureReason: 'unknown_account' });
       res.status(401).json({ error: 'Invalid credentials' });
       return;
     }
 
     const user = result.rows[0];
 
+    // A locked account is refused without checking the password, so guessing cannot continue
+    if (isAccountLocked(user.locked_until)) {
+      await recordLoginAttempt(req, { userId: user.id, email: user.email, success: false, failureReason: 'locked' });
+      res.status(423).json({ error: lockedMessage(user.locked_until) });
+      return;
+    }
+
     // Verify password
     const isValidPassword = await bcrypt.compare(password, user.password);
     if (!isValidPassword) {
+      const lockedUntil = await registerFailedLogin(user.id);
+      await recordLoginAttempt(req, { userId: user.id, email: user.email, success: false, failureReason: 'invalid_password' });
+
+      if (lockedUntil) {
+        res.status(423).json({ error: lockedMessage(lockedUntil) });
+        return;
+      }
       res.status(401).json({ error: 'Invalid credentials' });
       return;
     }
@@ -114,26 +185,37 @@ router.post('/login', validateLogin, async (req, res) => {
       return;
     }
 
-    // Generate JWT token
-    const token = jwt.sign(
-      { userId: user.id, email: user.email, role: user.role },
-      jwtSecret,
-      { expiresIn: '24h' }
-    );
+    // The password alone is not enough once two-factor is on: the client must follow up with a code
+    if (user.two_factor_enabled) {
+      res.json({
+        message: 'Enter the code from your authenticator app',
+        twoFactorRequired: true,
+        challengeToken: createTwoFactorChallenge(user.id, 'two_factor_login')
+      });
+      return;
+    }
+
+    // Roles that require two-factor have to set it up before their first session starts
+    if (isTwoFactorRequired(user.role)) {
+      res.json({
+        message: 'Your account requires two-factor authentication. Please set it up to continue.',
+        twoFactorSetupRequired: true,
+        challengeToken: createTwoFactorChallenge(user.id, 'two_factor_setup')
+      });
+      return;
+    }
+
+    // Start a session: short-lived access token plus a rotating refresh token
+    const session = await issueSession(user, req);
+
+    // The failure count only resets once the whole login has succeeded, including any second step
+    await clearFailedLogins(user.id);
+    await recordLoginAttempt(req, { userId: user.id, email: user.email, success: true });
 
     res.json({
       message: 'Login successful',
-      token,
-      user: {
-        id: user.id,
-        email: user.email,
-        role: user.role,
-        first_name: user.first_name,
-        last_name: user.last_name,
-        phone: user.phone,
-        created_at: user.created_at,
-        updated_at: user.updated_at
-      }
+      ...session,
+      user: toSignedInUser(user)
     });
 
   } catch (error) {
@@ -142,6 +224,424 @@ router.post('/login', validateLogin, async (req, res) => {
   }
 });
 
+// Second login step: a code from the authenticator app, or one of the recovery codes
+router.post('/login/two-factor', async (req, res) => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body ?? {};
+
+    const userId = verifyTwoFactorChallenge(challengeToken, 'two_factor_login');
+
+    if (!userId) {
+      res.status(401).json({ error: 'Your login has timed out. Please enter your password again.' });
+      return;
+    }
+
+    if (!code && !recoveryCode) {
+      res.status(400).json({ error: 'Authentication code is required' });
+      return;
+    }
+
+    const result = await pool.query(
+      `SELECT ${SIGN_IN_USER_COLUMNS}, locked_until FROM "User" WHERE id = $1 AND active = TRUE AND two_factor_enabled = TRUE`,
+      [userId]
+    );
+
+    const user = result.rows[0];
+
+    if (!user) {
+      res.status(401).json({ error: 'Your login has timed out. Please enter your password again.' });
+      return;
+    }
+
+    // Wrong codes count towards the same lockout as wrong passwords
+    if (isAccountLocked(user.locked_until)) {
+      await recordLoginAttempt(req, { userId: user.id, email: user.email, success: false, failureReason: 'locked' });
+      res.status(423).json({ error: lockedMessage(user.locked_until) });
+      return;
+    }
+
+    const codeAccepted = recoveryCode
+      ? await consumeRecoveryCode(user.id, recoveryCode)
+      : await verifyTwoFactorCode(user.id, code);
+
+    if (!codeAccepted) {
+      const lockedUntil = await registerFailedLogin(user.id);
+      await recordLoginAttempt(req, { userId: user.id, email: user.email, success: false, failureReason: 'invalid_two_factor' });
+
+      if (lockedUntil) {
+        res.status(423).json({ error: lockedMessage(lockedUntil) });
+        return;
+      }
+      res.status(401).json({ error: recoveryCode ? 'Invalid or already used recovery code' : 'Invalid authentication code' });
+      return;
+    }
+
+    if (recoveryCode) {
+      await recordAudit(req, {
+        action: 'use_recovery_code',
+        entityType: 'User',
+        entityId: user.id,
+        actor: { userId: user.id, email: user.email, role: user.role }
+      });
+    }
+
+    const session = await issueSession(user, req);
+
+    await clearFailedLogins(user.id);
+    await recordLoginAttempt(req, { userId: user.id, email: user.email, success: true });
+
+    res.json({
+      message: 'Login successful',
+      ...session,
+      user: toSignedInUser(user)
+    });
+
+  } catch (error) {
+    console.error('Two-factor login error:', error);
+    res.status(500).json({ error: 'Login failed' });
+  }
+});
+
+// Start the forced two-factor setup for a role that requires it (after the password step)
+router.post('/login/two-factor/setup', async (req, res) => {
+  try {
+    const userId = verifyTwoFactorChallenge(req.body?.challengeToken, 'two_factor_setup');
+
+    if (!userId) {
+      res.status(401).json({ error: 'Your login has timed out. Please enter your password again.' });
+      return;
+    }
+
+    const result = await pool.query(
+      'SELECT id, email, two_factor_enabled FROM "User" WHERE id = $1 AND active = TRUE',
+      [userId]
+    );
+
+    const user = result.rows[0];
+
+    if (!user) {
+      res.status(401).json({ error: 'Your login has timed out. Please enter your password again.' });
+      return;
+    }
+
+    if (user.two_factor_enabled) {
+      res.status(400).json({ error: 'Two-factor authentication is already set up. Please login again.' });
+      return;
+    }
+
+    res.json(await startTwoFactorEnrollment(user));
+
+  } catch (error) {
+    console.error('Two-factor setup error:', error);
+    res.status(500).json({ error: 'Failed to start two-factor setup' });
+  }
+});
+
+// Finish the forced setup with a first code; this also completes the login
+router.post('/login/two-factor/enable', async (req, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { challengeToken, code } = req.body ?? {};
+
+    const userId = verifyTwoFactorChallenge(challengeToken, 'two_factor_setup');
+
+    if (!userId) {
+      res.status(401).json({ error: 'Your login has timed out. Please enter your password again.' });
+      return;
+    }
+
+    if (!code || typeof code !== 'string') {
+      res.status(400).json({ error: 'Authentication code is required' });
+      return;
+    }
+
+    await client.query('BEGIN');
+
+    const result = await client.query(
+      `SELECT ${SIGN_IN_USER_COLUMNS} FROM "User" WHERE id = $1 AND active = TRUE`,
+      [userId]
+    );
+
+    const user = result.rows[0];
+
+    if (!user) {
+      await client.query('ROLLBACK');
+      res.status(401).json({ error: 'Your login has timed out. Please enter your password again.' });
+      return;
+    }
+
+    const recoveryCodes = await confirmTwoFactorEnrollment(user.id, code, client);
+
+    if (!recoveryCodes) {
+      await client.query('ROLLBACK');
+      res.status(400).json({ error: 'Invalid authentication code. Please check your authenticator app and try again.' });
+      return;
+    }
+
+    await recordAudit(req, {
+      action: 'enable_two_factor',
+      entityType: 'User',
+      entityId: user.id,
+      actor: { userId: user.id, email: user.email, role: user.role }
+    }, client);
+
+    const session = await issueSession(user, req, client);
+
+    await clearFailedLogins(user.id, client);
+    await recordLoginAttempt(req, { userId: user.id, email: user.email, success: true }, client);
+
+    await client.query('COMMIT');
+
+    res.json({
+      message: 'Two-factor authentication enabled. Login successful.',
+      ...session,
+      user: toSignedInUser(user),
+      recoveryCodes
+    });
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Two-factor setup error:', error);
+    res.status(500).json({ error: 'Failed to enable two-factor authentication' });
+  } finally {
+    client.release();
+  }
+});
+
+// Exchange a refresh token for a new access token and refresh token
+router.post('/refresh', async (req, res) => {
+  try {
+    const { refreshToken } = req.body ?? {};
+
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      res.status(400).json({ error: 'Refresh token is required' });
+      return;
+    }
+
+    const session = await rotateRefreshToken(refreshToken, req);
+
+    if (!session) {
+      res.status(401).json({ error: 'Session expired. Please login again.' });
+      return;
+    }
+
+    res.json({
+      token: session.token,
+      refreshToken: session.refreshToken,
+      expiresIn: session.expiresIn
+    });
+
+  } catch (error) {
+    console.error('Token refresh error:', error);
+    res.status(500).json({ error: 'Failed to refresh session' });
+  }
+});
+
+// Sign out of this device, or of every device when allDevices is set
+router.post('/logout', async (req, res) => {
+  try {
+    const { refreshToken, allDevices } = req.body ?? {};
+
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      res.status(400).json({ error: 'Refresh token is required' });
+      return;
+    }
+
+    const session = await findActiveRefreshToken(refreshToken);
+
+    // Signing out of a session that has already ended is not an error
+    if (!session) {
+      if (allDevices === true) {
+        res.status(401).json({ error: 'Session expired. Please login again.' });
+        return;
+      }
+      res.json({ message: 'Signed out successfully' });
+      return;
+    }
+
+    if (allDevices === true) {
+      const revoked = await revokeUserSessions(session.user.id, 'logout_all');
+
+      await recordAudit(req, {
+        action: 'logout_all',
+        entityType: 'User',
+        entityId: session.user.id,
+        after: { sessions_revoked: revoked },
+        actor: { userId: session.user.id, email: session.user.email, role: session.user.role }
+      });
+
+      res.json({ message: 'Signed out of all devices successfully' });
+      return;
+    }
+
+    await revokeSession(session.familyId, 'logout');
+
+    res.json({ message: 'Signed out successfully' });
+
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ error: 'Failed to sign out' });
+  }
+});
+
+// Confirm an email address from the link in the verification email
+router.post('/verify-email', async (req, res) => {
+  try {
+    const { token } = req.body ?? {};
+
+    if (!token || typeof token !== 'string') {
+      res.status(400).json({ error: 'Verification token is required' });
+      return;
+    }
+
+    const verified = await consumeAccountToken(token, 'verify_email');
+
+    if (!verified) {
+      res.status(400).json({ error: 'This verification link is invalid or has expired' });
+      return;
+    }
+
+    await pool.query(`
+      UPDATE "User"
+      SET email_verified = TRUE, email_verified_at = COALESCE(email_verified_at, NOW()), updated_at = NOW()
+      WHERE id = $1
+    `, [verified.userId]);
+
+    res.json({ message: 'Email address verified successfully' });
+
+  } catch (error) {
+    console.error('Email verification error:', error);
+    res.status(500).json({ error: 'Failed to verify email address' });
+  }
+});
+
+// Send a fresh verification email to the signed-in user
+router.post('/resend-verification', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const result = await pool.query(
+      'SELECT id, email, email_verified, first_name FROM "User" WHERE id = $1',
+      [req.user!.userId]
+    );
+
+    const user = result.rows[0];
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    if (user.email_verified) {
+      res.status(400).json({ error: 'Your email address is already verified' });
+      return;
+    }
+
+    if (await hasRecentAccountToken(user.id, 'verify_email', EMAIL_RESEND_MINUTES)) {
+      res.status(429).json({ error: 'A verification email was sent recently. Please check your inbox or try again in a few minutes.' });
+      return;
+    }
+
+    await sendVerificationEmail(user);
+
+    res.json({ message: 'Verification email sent' });
+
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    res.status(500).json({ error: 'Failed to send verification email' });
+  }
+});
+
+// Email a password reset link. The response is the same whether or not the account exists,
+// so the form cannot be used to find out who is registered.
+router.post('/forgot-password', validateForgotPassword, async (req, res) => {
+  try {
+    const trimmedEmail = req.body.email.trim().toLowerCase();
+
+    const result = await pool.query(
+      'SELECT id, email, first_name FROM "User" WHERE email = $1 AND active = TRUE',
+      [trimmedEmail]
+    );
+
+    const user = result.rows[0];
+
+    if (user && !(await hasRecentAccountToken(user.id, 'reset_password', EMAIL_RESEND_MINUTES))) {
+      await sendPasswordResetEmail(user);
+    }
+
+    res.json({ message: 'If an account exists for that email, a password reset link is on its way.' });
+
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({ error: 'Failed to send password reset email' });
+  }
+});
+
+// Set a new password from the link in the reset email
+router.post('/reset-password', validatePasswordReset, async (req, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { token, password } = req.body;
+
+    await client.query('BEGIN');
+
+    const reset = await consumeAccountToken(token, 'reset_password', client);
+
+    if (!reset) {
+      await client.query('ROLLBACK');
+      res.status(400).json({ error: 'This reset link is invalid or has expired. Please request a new one.' });
+      return;
+    }
+
+    if (await isPasswordReused(reset.userId, password, client)) {
+      await client.query('ROLLBACK');
+      res.status(400).json({ error: 'Please choose a password you have not used recently' });
+      return;
+    }
+
+    await setUserPassword(reset.userId, password, client);
+
+    // Opening the emailed link also proves the address belongs to the user
+    const result = await client.query(`
+      UPDATE "User"
+      SET email_verified = TRUE, email_verified_at = COALESCE(email_verified_at, NOW())
+      WHERE id = $1
+      RETURNING id, email, role
+    `, [reset.userId]);
+
+    const user = result.rows[0];
+
+    // Older reset links die with the old password, and anyone signed in with it is signed out
+    await invalidateAccountTokens(user.id, 'reset_password', client);
+    await revokeUserSessions(user.id, 'password_reset', client);
+    // Resetting from the emailed link is also the self-service way out of a lockout
+    await clearFailedLogins(user.id, client);
+
+    await recordAudit(req, {
+      action: 'reset_password',
+      entityType: 'User',
+      entityId: user.id,
+      actor: { userId: user.id, email: user.email, role: user.role }
+    }, client);
+
+    await client.query('COMMIT');
+
+    res.json({ message: 'Password reset successfully. Please login with your new password.' });
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Password reset error:', error);
+    res.status(500).json({ error: 'Failed to reset password' });
+  } finally {
+    client.release();
+  }
+});
+
+// Get the password rules, so forms can check them before submitting
+router.get('/password-policy', (req, res) => {
+  res.json(getPasswordPolicy());
+});
+
 // Get current user profile
 router.get('/me', authenticateToken, async (req: AuthRequest, res) => {
   try {
@@ -149,7 +649,7 @@ router.get('/me', authenticateToken, async (req: AuthRequest, res) => {
     // and populated req.user with { userId, email, role }
     // Now fetch fresh user data from database for security
     const result = await pool.query(
-      'SELECT id, email, role, first_name, last_name, phone, created_at, updated_at FROM "User" WHERE id = $1 AND active = TRUE',
+      `SELECT ${SIGN_IN_USER_COLUMNS} FROM "User" WHERE id = $1 AND active = TRUE`,
       [req.user!.userId]
     );
 
@@ -161,16 +661,7 @@ router.get('/me', authenticateToken, async (req: AuthRequest, res) => {
     const user = result.rows[0];
     
     res.json({
-      user: {
-        id: user.id,
-        email: user.email,
-        role: user.role,
-        first_name: user.first_name,
-        last_name: user.last_name,
-        phone: user.phone,
-        created_at: user.created_at,
-        updated_at: user.updated_at
-      }
+      user: toSignedInUser(user)
     });
 
   } catch (error) {
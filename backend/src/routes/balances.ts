@@ -0,0 +1,211 @@
+// backend/src/routes/balances.ts
+
+import express from 'express';
+import { pool } from '../index';
+import { authenticateToken, requirePermission, AuthRequest } from '../middleware/auth';
+import { isValidDateString, isValidUUID, validateDunningSettings } from '../middleware/validation';
+import {
+  getDunningSettings,
+  getParentBalances,
+  sendDueReminders,
+  emptyAgeingBuckets,
+  addToAgeingBucket
+} from '../services/dunning';
+import { getBranchScope, canAccessBranch, canAccessFamily } from '../services/branchAccess';
+
+const router = express.Router();
+
+// Get outstanding balances for every family at your branches, with ageing totals (staff and admin only)
+router.get('/', authenticateToken, requirePermission('payment.view_all'), async (req: AuthRequest, res) => {
+  try {
+    const branchId = req.query.branchId as string | undefined;
+    const overdueOnly = req.query.overdueOnly === 'true';
+    const minDaysOverdue = req.query.minDaysOverdue ? parseInt(req.query.minDaysOverdue as string) : 0;
+
+    if (branchId && !isValidUUID(branchId)) {
+      res.status(400).json({ error: 'Invalid branch ID format' });
+      return;
+    }
+
+    if (isNaN(minDaysOverdue) || minDaysOverdue < 0) {
+      res.status(400).json({ error: 'Minimum days overdue must be 0 or more' });
+      return;
+    }
+
+    if (branchId && !(await canAccessBranch(req, branchId))) {
+      res.status(403).json({ error: 'You can only view balances for your own branches' });
+      return;
+    }
+
+    const balances = (await getParentBalances({ branchId, branchIds: await getBranchScope(req) }))
+      .filter(balance => !overdueOnly || balance.overdue_amount > 0)
+      .filter(balance => balance.oldest_days_overdue >= minDaysOverdue);
+
+    const ageing = emptyAgeingBuckets();
+    for (const balance of balances) {
+      for (const item of balance.items) {
+        addToAgeingBucket(ageing, item.days_overdue, item.outstanding);
+      }
+    }
+
+    res.json({
+      summary: {
+        families: balances.length,
+        total_outstanding: Math.round(balances.reduce((sum, balance) => sum + balance.total_outstanding, 0) * 100) / 100,
+        overdue_amount: Math.round(balances.reduce((sum, balance) => sum + balance.overdue_amount, 0) * 100) / 100,
+        ageing
+      },
+      balances
+    });
+  } catch (error) {
+    console.error('Balances fetch error:', error);
+    res.status(500).json({ error: 'Failed to fetch outstanding balances' });
+  }
+});
+
+// Get the signed-in family's outstanding balance (parents only)
+router.get('/my', authenticateToken, requirePermission('payment.view_own'), async (req: AuthRequest, res) => {
+  try {
+    const [balance] = await getParentBalances({ guardianId: req.user!.userId });
+    const settings = await getDunningSettings();
+
+    res.json({
+      ...balance,
+      enrollment_blocked: settings.block_enrollment && balance.items.some(item => item.days_overdue > settings.block_after_days)
+    });
+  } catch (error) {
+    console.error('My balance fetch error:', error);
+    res.status(500).json({ error: 'Failed to fetch your balance' });
+  }
+});
+
+// Get one family's outstanding balance and reminder history, for children at your branches (staff and admin only)
+router.get('/parent/:parentId', authenticateToken, requirePermission('payment.view_all'), async (req: AuthRequest, res) => {
+  try {
+    const { parentId } = req.params;
+
+    if (!isValidUUID(parentId)) {
+      res.status(400).json({ error: 'Invalid parent ID format' });
+      return;
+    }
+
+    if (!(await canAccessFamily(req, parentId))) {
+      res.status(404).json({ error: 'Parent not found' });
+      return;
+    }
+
+    const branchScope = await getBranchScope(req);
+    const [balance] = await getParentBalances({ parentId, branchIds: branchScope });
+
+    if (!balance) {
+      res.status(404).json({ error: 'Parent not found' });
+      return;
+    }
+
+    const remindersResult = await pool.query(`
+      SELECT r.id, r.payment_id, r.days_from_due, r.due_date, r.amount_due, r.sent_at, p.month,
+             CONCAT(s.first_name, ' ', s.last_name) as student_name
+      FROM "PaymentReminder" r
+      JOIN "Payment" p ON r.payment_id = p.id
+      JOIN "Student" s ON p.student_id = s.id
+      WHERE r.parent_id = $1 AND ($2::uuid[] IS NULL OR s.home_branch_id = ANY($2::uuid[]))
+      ORDER BY r.sent_at DESC
+      LIMIT 50
+    `, [parentId, branchScope]);
+
+    res.json({ ...balance, reminders: remindersResult.rows });
+  } catch (error) {
+    console.error('Parent balance fetch error:', error);
+    res.status(500).json({ error: 'Failed to fetch parent balance' });
+  }
+});
+
+// Get the payment terms, reminder schedule and enrollment block rule (admin only)
+router.get('/settings', authenticateToken, requirePermission('billing.manage'), async (req: AuthRequest, res) => {
+  try {
+    res.json(await getDunningSettings());
+  } catch (error) {
+    console.error('Dunning settings fetch error:', error);
+    res.status(500).json({ error: 'Failed to fetch dunning settings' });
+  }
+});
+
+// Update the payment terms, reminder schedule and enrollment block rule (admin only)
+router.put('/settings', authenticateToken, requirePermission('billing.manage'), validateDunningSettings, async (req: AuthRequest, res) => {
+  try {
+    const { paymentTermsDays, reminderDays, blockEnrollment, blockAfterDays } = req.body;
+
+    const result = await pool.query(`
+      INSERT INTO "DunningSettings" (id, payment_terms_days, reminder_days, block_enrollment, block_after_days, updated_by, updated_at)
+      VALUES (1, $1, $2, $3, $4, $5, NOW())
+      ON CONFLICT (id) DO UPDATE
+      SET payment_terms_days = EXCLUDED.payment_terms_days, reminder_days = EXCLUDED.reminder_days,
+          block_enrollment = EXCLUDED.block_enrollment, block_after_days = EXCLUDED.block_after_days,
+          updated_by = EXCLUDED.updated_by, updated_at = NOW()
+      RETURNING payment_terms_days, reminder_days, block_enrollment, block_after_days
+    `, [paymentTermsDays, [...reminderDays].sort((a: number, b: number) => a - b), blockEnrollment, blockAfterDays, req.user!.userId]);
+
+    res.json({
+      message: 'Dunning settings updated successfully',
+      settings: result.rows[0]
+    });
+  } catch (error) {
+    console.error('Dunning settings update error:', error);
+    res.status(500).json({ error: 'Failed to update dunning settings' });
+  }
+});
+
+// Change the due date of an unpaid month, e.g. for an agreed extension (admin only)
+router.put('/payments/:paymentId/due-date', authenticateToken, requirePermission('billing.manage'), async (req: AuthRequest, res) => {
+  try {
+    const { paymentId } = req.params;
+    const { dueDate } = req.body ?? {};
+
+    if (!isValidUUID(paymentId)) {
+      res.status(400).json({ error: 'Invalid payment ID format' });
+      return;
+    }
+
+    if (!dueDate || !isValidDateString(dueDate)) {
+      res.status(400).json({ error: 'A valid due date (YYYY-MM-DD) is required' });
+      return;
+    }
+
+    const result = await pool.query(`
+      UPDATE "Payment"
+      SET due_date = $2, updated_at = NOW()
+      WHERE id = $1 AND paid = FALSE
+      RETURNING id, student_id, month, amount, TO_CHAR(due_date, 'YYYY-MM-DD') as due_date
+    `, [paymentId, dueDate]);
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Unpaid payment not found' });
+      return;
+    }
+
+    res.json({
+      message: 'Due date updated successfully',
+      payment: result.rows[0]
+    });
+  } catch (error) {
+    console.error('Due date update error:', error);
+    res.status(500).json({ error: 'Failed to update due date' });
+  }
+});
+
+// Send the reminders that have fallen due under the schedule (admin only)
+router.post('/reminders/run', authenticateToken, requirePermission('billing.manage'), async (req: AuthRequest, res) => {
+  try {
+    const sent = await sendDueReminders();
+
+    res.json({
+      message: `${sent.length} reminder${sent.length === 1 ? '' : 's'} sent`,
+      reminders: sent
+    });
+  } catch (error) {
+    console.error('Payment reminders error:', error);
+    res.status(500).json({ error: 'Failed to send payment reminders' });
+  }
+});
+
+export default router;
@@ -2,7 +2,8 @@
 
 import express from 'express';
 import { pool } from '../index';
-import { authenticateToken, requireRole, AuthRequest } from '../middleware/auth';
+import { authenticateToken, requirePermission, AuthRequest } from '../middleware/auth';
+import { recordAudit } from '../services/audit';
 
 const router = express.Router();
 
@@ -20,7 +21,7 @@ router.get('/', async (req, res) => {
 });
 
 // Get all branches including inactive ones (admin only)
-router.get('/all', authenticateToken, requireRole('admin'), async (req: AuthRequest, res) => {
+router.get('/all', authenticateToken, requirePermission('branch.manage'), async (req: AuthRequest, res) => {
   try {
     const result = await pool.query(
       'SELECT id, name, address, phone, active, created_at, updated_at FROM "Branch" ORDER BY name'
@@ -33,7 +34,7 @@ router.get('/all', authenticateToken, requireRole('admin'), async (req: AuthRequ
 });
 
 // Get a specific branch (admin only)
-router.get('/:id', authenticateToken, requireRole('admin'), async (req: AuthRequest, res) => {
+router.get('/:id', authenticateToken, requirePermission('branch.manage'), async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
 
@@ -55,7 +56,7 @@ router.get('/:id', authenticateToken, requireRole('admin'), async (req: AuthRequ
 });
 
 // Create a new branch (admin only)
-router.post('/', authenticateToken, requireRole('admin'), async (req: AuthRequest, res) => {
+router.post('/', authenticateToken, requirePermission('branch.manage'), async (req: AuthRequest, res) => {
   try {
     const { name, address, phone } = req.body;
 
@@ -92,6 +93,8 @@ router.post('/', authenticateToken, requireRole('admin'), async (req: AuthReques
       [name.trim(), address.trim(), phone?.trim() || null]
     );
 
+    await recordAudit(req, { action: 'create', entityType: 'Branch', entityId: result.rows[0].id, after: result.rows[0] });
+
     res.status(201).json({
       message: 'Branch created successfully',
       branch: result.rows[0]
@@ -104,14 +107,14 @@ router.post('/', authenticateToken, requireRole('admin'), async (req: AuthReques
 });
 
 // Update a branch (admin only)
-router.put('/:id', authenticateToken, requireRole('admin'), async (req: AuthRequest, res) => {
+router.put('/:id', authenticateToken, requirePermission('branch.manage'), async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
     const { name, address, phone, active } = req.body;
 
     // Check if branch exists
     const branchCheck = await pool.query(
-      'SELECT id FROM "Branch" WHERE id = $1',
+      'SELECT id, name, address, phone, active, created_at, updated_at FROM "Branch" WHERE id = $1',
       [id]
     );
 
@@ -161,6 +164,8 @@ router.put('/:id', authenticateToken, requireRole('admin'), async (req: AuthRequ
       RETURNING id, name, address, phone, active, created_at, updated_at
     `, [name?.trim(), address?.trim(), phone?.trim() || null, active, id]);
 
+    await recordAudit(req, { action: 'update', entityType: 'Branch', entityId: id, before: branchCheck.rows[0], after: result.rows[0] });
+
     res.json({
       message: 'Branch updated successfully',
       branch: result.rows[0]
@@ -173,7 +178,7 @@ router.put('/:id', authenticateToken, requireRole('admin'), async (req: AuthRequ
 });
 
 // Check branch deletion impact (admin only)
-router.get('/:id/deletion-impact', authenticateToken, requireRole('admin'), async (req: AuthRequest, res) => {
+router.get('/:id/deletion-impact', authenticateToken, requirePermission('branch.manage'), async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
 
@@ -284,7 +289,7 @@ router.get('/:id/deletion-impact', authenticateToken, requireRole('admin'), asyn
 });
 
 // Delete a branch (admin only)
-router.delete('/:id', authenticateToken, requireRole('admin'), async (req: AuthRequest, res) => {
+router.delete('/:id', authenticateToken, requirePermission('branch.manage'), async (req: AuthRequest, res) => {
   const client = await pool.connect();
   
   try {
@@ -301,7 +306,7 @@ router.delete('/:id', authenticateToken, requireRole('admin'), async (req: AuthR
     
     // Get branch info for logging
     const branchResult = await client.query(
-      'SELECT name, address FROM "Branch" WHERE id = $1',
+      'SELECT id, name, address, phone, active, created_at, updated_at FROM "Branch" WHERE id = $1',
       [id]
     );
     
@@ -341,6 +346,19 @@ router.delete('/:id', authenticateToken, requireRole('admin'), async (req: AuthR
       'DELETE FROM "Branch" WHERE id = $1 RETURNING name',
       [id]
     );
+
+    await recordAudit(req, {
+      action: 'delete',
+      entityType: 'Branch',
+      entityId: id,
+      before: {
+        ...branch,
+        students_affected: parseInt(studentsCount.rows[0].count),
+        classes_deleted: parseInt(classesCount.rows[0].count),
+        enrollments_cancelled: parseInt(enrollmentsCount.rows[0].count),
+        attendance_records_lost: parseInt(attendanceCount.rows[0].count)
+      }
+    }, client);
     
     await client.query('COMMIT');
     
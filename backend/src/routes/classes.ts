@@ -2,18 +2,93 @@
 
 import express from 'express';
 import { pool } from '../index';
-import { authenticateToken, requireRole, requireAnyRole, AuthRequest } from '../middleware/auth';
-import { validateClass } from '../middleware/validation';
+import { authenticateToken, requirePermission, AuthRequest } from '../middleware/auth';
+import { validateClass, validateClassRecurrence } from '../middleware/validation';
+import { processWaitlist } from '../services/waitlist';
+import { recordAudit } from '../services/audit';
+import { hasPermission } from '../services/permissions';
+import { getBranchScope, canAccessBranch } from '../services/branchAccess';
+import { isGuardianOf } from '../services/guardians';
+import { notifyClassStudents } from '../services/notifications';
+import { checkTutorEligibility, rankEligibleTutors } from '../services/tutorProfiles';
+import { formatNotificationTime } from '../config/notifications';
 
 const router = express.Router();
 
+// Days between occurrences for each supported recurrence frequency
+const SERIES_INTERVAL_DAYS: Record<string, number> = {
+  weekly: 7,
+  biweekly: 14
+};
+
+// Upper bound on occurrences generated for a single series
+const MAX_SERIES_OCCURRENCES = 52;
+
+// Format a date as a local YYYY-MM-DD key (class times are stored as local timestamps)
+const toDateKey = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+// Helper function to expand a recurrence rule into the start time of every occurrence
+const generateSeriesOccurrences = (
+  firstStartTime: Date,
+  frequency: string,
+  termEnd: string,
+  skipDates: string[] = []
+): Date[] => {
+  const skipped = new Set(skipDates);
+  const occurrences: Date[] = [];
+  const current = new Date(firstStartTime);
+
+  while (toDateKey(current) <= termEnd) {
+    if (!skipped.has(toDateKey(current))) {
+      occurrences.push(new Date(current));
+    }
+    current.setDate(current.getDate() + SERIES_INTERVAL_DAYS[frequency]);
+  }
+
+  return occurrences;
+};
+
+// Helper function to find a classroom booking that overlaps the given time slot
+const findClassroomConflict = async (
+  classroomId: string,
+  startTime: string | Date,
+  durationMinutes: number,
+  excludeClassIds: string[] = []
+): Promise<any | null> => {
+  const result = await pool.query(`
+    SELECT c.id, c.subject, c.start_time, c.end_time
+    FROM "Class" c
+    WHERE c.classroom_id = $1
+      AND c.active = TRUE
+      AND c.id != ALL($4::uuid[])
+      AND DATE(c.start_time) = DATE($2::timestamp)
+      AND c.start_time < ($2::timestamp + INTERVAL '1 minute' * $3)
+      AND (c.start_time + INTERVAL '1 minute' * c.duration_minutes) > $2::timestamp
+  `, [classroomId, startTime, durationMinutes, excludeClassIds]);
+
+  return result.rows[0] || null;
+};
+
+// Helper function to format classroom conflict error message
+const formatClassroomConflictErrorMessage = (conflict: any): string => {
+  const conflictStart = new Date(conflict.start_time).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+  const conflictEnd = new Date(conflict.end_time).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+
+  return `Classroom is already booked from ${conflictStart} to ${conflictEnd} for "${conflict.subject}"`;
+};
+
 // Helper function to check for comprehensive teacher schedule conflicts (including travel time)
 const checkComprehensiveTeacherScheduleConflict = async (
   tutorId: string, 
-  startTime: string, 
+  startTime: string | Date, 
   durationMinutes: number, 
   branchId: string,
-  excludeClassId?: string
+  excludeClassIds: string[] = []
 ): Promise<{ hasConflict: boolean; conflicts: { direct: any[], travel: any[] } }> => {
   try {
     const classStartTime = new Date(startTime);
@@ -36,12 +111,12 @@ const checkComprehensiveTeacherScheduleConflict = async (
         AND c.start_time <= $3
     `;
     
-    const queryParams = [tutorId, dateStart.toISOString(), dateEnd.toISOString()];
+    const queryParams: any[] = [tutorId, dateStart.toISOString(), dateEnd.toISOString()];
     
-    // If editing an existing class, exclude it from the conflict check
-    if (excludeClassId) {
-      query += ' AND c.id != $4';
-      queryParams.push(excludeClassId);
+    // If editing existing classes, exclude them from the conflict check
+    if (excludeClassIds.length > 0) {
+      query += ' AND c.id != ALL($4::uuid[])';
+      queryParams.push(excludeClassIds);
     }
     
     query += ' ORDER BY c.start_time';
@@ -151,6 +226,79 @@ const formatComprehensiveConflictErrorMessage = (conflicts: { direct: any[], tra
   return message;
 };
 
+// Helper function to check classroom and teacher conflicts for every occurrence of a series
+const findSeriesConflicts = async (
+  occurrences: { startTime: Date; durationMinutes: number; branchId: string; classroomId: string; excludeClassIds?: string[] }[],
+  tutorId: string | null
+): Promise<{ date: string; reason: string }[]> => {
+  const seriesConflicts: { date: string; reason: string }[] = [];
+
+  for (const occurrence of occurrences) {
+    const date = toDateKey(occurrence.startTime);
+    const excludeClassIds = occurrence.excludeClassIds || [];
+
+    const classroomConflict = await findClassroomConflict(
+      occurrence.classroomId, occurrence.startTime, occurrence.durationMinutes, excludeClassIds
+    );
+    if (classroomConflict) {
+      seriesConflicts.push({ date, reason: formatClassroomConflictErrorMessage(classroomConflict) });
+    }
+
+    if (tutorId) {
+      const teacherConflict = await checkComprehensiveTeacherScheduleConflict(
+        tutorId, occurrence.startTime, occurrence.durationMinutes, occurrence.branchId, excludeClassIds
+      );
+      if (teacherConflict.hasConflict) {
+        seriesConflicts.push({ date, reason: formatComprehensiveConflictErrorMessage(teacherConflict.conflicts) });
+      }
+    }
+  }
+
+  return seriesConflicts;
+};
+
+// Helper function to summarise series conflicts into a single error message
+const formatSeriesConflictErrorMessage = (seriesConflicts: { date: string; reason: string }[]): string => {
+  const conflictDates = [...new Set(seriesConflicts.map(conflict => conflict.date))];
+  const shownDates = conflictDates.slice(0, 5).map(date => {
+    const reasons = seriesConflicts.filter(conflict => conflict.date === date).map(conflict => conflict.reason);
+    return `${date}:\n${reasons.join('\n')}`;
+  });
+
+  let message = `${conflictDates.length} ${conflictDates.length === 1 ? 'session has' : 'sessions have'} scheduling conflicts:\n\n${shownDates.join('\n\n')}`;
+  if (conflictDates.length > 5) {
+    message += `\n\n...and ${conflictDates.length - 5} more`;
+  }
+
+  return message;
+};
+
+// Helper function to describe a class's time and room changes for families, or null if neither changed
+const describeClassChanges = async (before: any, after: any): Promise<string | null> => {
+  const changes: string[] = [];
+
+  if (new Date(before.start_time).getTime() !== new Date(after.start_time).getTime()
+    || before.duration_minutes !== after.duration_minutes) {
+    changes.push(`it now starts ${formatNotificationTime(after.start_time)} and runs for ${after.duration_minutes} minutes (was ${formatNotificationTime(before.start_time)}, ${before.duration_minutes} minutes)`);
+  }
+
+  if (before.branch_id !== after.branch_id || before.classroom_id !== after.classroom_id) {
+    const locationResult = await pool.query(`
+      SELECT b.name as branch_name, cr.room_name
+      FROM "Branch" b
+      LEFT JOIN "Classroom" cr ON cr.id = $2
+      WHERE b.id = $1
+    `, [after.branch_id, after.classroom_id]);
+
+    const location = locationResult.rows[0];
+    if (location) {
+      changes.push(`it is now held at ${location.branch_name}${location.room_name ? `, ${location.room_name}` : ''}`);
+    }
+  }
+
+  return changes.length > 0 ? changes.join('; ') : null;
+};
+
 // Get all active classes (available to parents, staff, and admin with different permissions)
 router.get('/', authenticateToken, async (req: AuthRequest, res) => {
   try {
@@ -161,15 +309,19 @@ router.get('/', authenticateToken, async (req: AuthRequest, res) => {
     let query = `
       SELECT c.id, c.subject, c.description, c.level, c.start_time, c.duration_minutes, c.capacity, 
              c.active, c.created_at, c.updated_at,
-             c.end_time, c.tutor_id, c.branch_id, c.classroom_id,
+             c.end_time, c.tutor_id, c.branch_id, c.classroom_id, c.series_id,
+             cs.frequency as series_frequency,
              b.name as branch_name, b.address as branch_address,
              cr.room_name as classroom_name,
              u.first_name as tutor_first_name, u.last_name as tutor_last_name,
+             c.substitute_tutor_id, st.first_name as substitute_first_name, st.last_name as substitute_last_name,
              COALESCE(enrolled_count.count, 0) as enrolled_count
       FROM "Class" c
       LEFT JOIN "Branch" b ON c.branch_id = b.id
       LEFT JOIN "Classroom" cr ON c.classroom_id = cr.id
       LEFT JOIN "User" u ON c.tutor_id = u.id
+      LEFT JOIN "User" st ON c.substitute_tutor_id = st.id
+      LEFT JOIN "ClassSeries" cs ON c.series_id = cs.id
       LEFT JOIN (
         SELECT 
           e.class_id,
@@ -185,9 +337,9 @@ router.get('/', authenticateToken, async (req: AuthRequest, res) => {
     const queryParams: any[] = [];
     let paramIndex = 1;
 
-    // For staff, only show classes in the future OR classes assigned to them
+    // For staff, only show classes in the future OR classes they teach or cover
     if (userRole === 'staff') {
-      query += ` AND (c.start_time > NOW() OR c.tutor_id = $${paramIndex})`;
+      query += ` AND (c.start_time > NOW() OR c.tutor_id = $${paramIndex} OR c.substitute_tutor_id = $${paramIndex})`;
       queryParams.push(userId);
       paramIndex++;
     } else if (userRole === 'parent') {
@@ -196,7 +348,7 @@ router.get('/', authenticateToken, async (req: AuthRequest, res) => {
       
       // Get parent's children's grades for filtering (separate query with its own parameters)
       const childrenGrades = await pool.query(
-        'SELECT DISTINCT grade FROM "Student" WHERE parent_id = $1 AND active = TRUE',
+        `SELECT DISTINCT s.grade FROM "Student" s WHERE ${isGuardianOf('s', '$1')} AND s.active = TRUE`,
         [userId]
       );
       
@@ -211,6 +363,14 @@ router.get('/', authenticateToken, async (req: AuthRequest, res) => {
       }
     }
 
+    // Staff limited to some branches only see classes there
+    const branchScope = await getBranchScope(req);
+    if (branchScope) {
+      query += ` AND c.branch_id = ANY($${paramIndex}::uuid[])`;
+      queryParams.push(branchScope);
+      paramIndex++;
+    }
+
     // Add branch filter if specified
     if (branchId) {
       query += ` AND c.branch_id = $${paramIndex}`;
@@ -234,12 +394,14 @@ router.get('/', authenticateToken, async (req: AuthRequest, res) => {
     query += ' ORDER BY c.start_time';
 
     const result = await pool.query(query, queryParams);
+    const canEditAny = await hasPermission(req, 'class.edit_any');
+    const canEditOwn = await hasPermission(req, 'class.edit');
 
     const classes = result.rows.map(row => ({
       ...row,
       enrolled_count: parseInt(row.enrolled_count) || 0,
-      can_edit: userRole === 'admin' || (userRole === 'staff' && row.tutor_id === userId),
-      can_delete: userRole === 'admin' || (userRole === 'staff' && row.tutor_id === userId)
+      can_edit: canEditAny || (canEditOwn && row.tutor_id === userId),
+      can_delete: canEditAny || (canEditOwn && row.tutor_id === userId)
     }));
 
     res.json(classes);
@@ -250,16 +412,73 @@ router.get('/', authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
+// Get a class series with its upcoming occurrences
+router.get('/series/:seriesId', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { seriesId } = req.params;
+
+    const seriesResult = await pool.query(`
+      SELECT cs.id, cs.subject, cs.description, cs.level, cs.tutor_id, cs.classroom_id, cs.branch_id,
+             cs.frequency, cs.first_start_time, cs.duration_minutes, cs.capacity,
+             TO_CHAR(cs.term_start, 'YYYY-MM-DD') as term_start,
+             TO_CHAR(cs.term_end, 'YYYY-MM-DD') as term_end,
+             ARRAY(SELECT TO_CHAR(d, 'YYYY-MM-DD') FROM UNNEST(cs.skip_dates) d ORDER BY d) as skip_dates,
+             cs.active, cs.created_at, cs.updated_at,
+             b.name as branch_name, cr.room_name as classroom_name,
+             u.first_name as tutor_first_name, u.last_name as tutor_last_name
+      FROM "ClassSeries" cs
+      LEFT JOIN "Branch" b ON cs.branch_id = b.id
+      LEFT JOIN "Classroom" cr ON cs.classroom_id = cr.id
+      LEFT JOIN "User" u ON cs.tutor_id = u.id
+      WHERE cs.id = $1
+    `, [seriesId]);
+
+    if (seriesResult.rows.length === 0) {
+      res.status(404).json({ error: 'Class series not found' });
+      return;
+    }
+
+    const occurrencesResult = await pool.query(`
+      SELECT c.id, c.start_time, c.end_time, c.duration_minutes, c.capacity, c.classroom_id,
+             COALESCE(enrolled_count.count, 0) as enrolled_count
+      FROM "Class" c
+      LEFT JOIN (
+        SELECT
+          e.class_id,
+          COUNT(e.id) as count
+        FROM "Enrollment" e
+        INNER JOIN "Student" s ON e.student_id = s.id AND s.active = TRUE
+        WHERE e.status = 'enrolled'
+        GROUP BY e.class_id
+      ) enrolled_count ON c.id = enrolled_count.class_id
+      WHERE c.series_id = $1 AND c.active = TRUE
+      ORDER BY c.start_time
+    `, [seriesId]);
+
+    res.json({
+      ...seriesResult.rows[0],
+      occurrences: occurrencesResult.rows.map(row => ({
+        ...row,
+        enrolled_count: parseInt(row.enrolled_count) || 0
+      }))
+    });
+
+  } catch (error) {
+    console.error('Get class series error:', error);
+    res.status(500).json({ error: 'Failed to fetch class series' });
+  }
+});
+
 // Get a specific class (public)
 router.get('/:id', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
-    const userRole = req.user!.role;
     const userId = req.user!.userId;
 
     const result = await pool.query(`
       SELECT c.id, c.subject, c.description, c.level, c.start_time, c.duration_minutes, c.capacity, 
              c.active, c.created_at, c.updated_at, c.end_time, c.tutor_id, c.branch_id, c.classroom_id,
+             c.series_id, cs.frequency as series_frequency,
              b.name as branch_name, b.address as branch_address,
              cr.room_name as classroom_name,
              u.first_name as tutor_first_name, u.last_name as tutor_last_name,
@@ -268,6 +487,7 @@ router.get('/:id', authenticateToken, async (req: AuthRequest, res) => {
       LEFT JOIN "Branch" b ON c.branch_id = b.id
       LEFT JOIN "Classroom" cr ON c.classroom_id = cr.id
       LEFT JOIN "User" u ON c.tutor_id = u.id
+      LEFT JOIN "ClassSeries" cs ON c.series_id = cs.id
       LEFT JOIN (
         SELECT 
           e.class_id,
@@ -286,13 +506,15 @@ router.get('/:id', authenticateToken, async (req: AuthRequest, res) => {
     }
 
     const classItem = result.rows[0];
+    const canEditAny = await hasPermission(req, 'class.edit_any');
+    const canEditOwn = await hasPermission(req, 'class.edit');
 
     // Add permission flags
     const classWithPermissions = {
       ...classItem,
       enrolled_count: parseInt(classItem.enrolled_count) || 0,
-      can_edit: userRole === 'admin' || (userRole === 'staff' && classItem.tutor_id === userId),
-      can_delete: userRole === 'admin' || (userRole === 'staff' && classItem.tutor_id === userId)
+      can_edit: canEditAny || (canEditOwn && classItem.tutor_id === userId),
+      can_delete: canEditAny || (canEditOwn && classItem.tutor_id === userId)
     };
 
     res.json(classWithPermissions);
@@ -304,10 +526,9 @@ router.get('/:id', authenticateToken, async (req: AuthRequest, res) => {
 });
 
 // Create a new class (staff and admin only)
-router.post('/', authenticateToken, requireAnyRole('staff', 'admin'), validateClass, async (req: AuthRequest, res) => {
+router.post('/', authenticateToken, requirePermission('class.edit'), validateClass, validateClassRecurrence, async (req: AuthRequest, res) => {
   try {
-    const { subject, description, level, startTime, durationMinutes, capacity, branchId, classroomId } = req.body;
-    const userRole = req.user!.role;
+    const { subject, description, level, startTime, durationMinutes, capacity, branchId, classroomId, recurrence } = req.body;
     const userId = req.user!.userId;
 
     // Validate required fields
@@ -341,6 +562,11 @@ router.post('/', authenticateToken, requireAnyRole('staff', 'admin'), validateCl
       return;
     }
 
+    if (!(await canAccessBranch(req, branchId))) {
+      res.status(403).json({ error: 'You can only schedule classes at your own branches' });
+      return;
+    }
+
     // Validate branch exists and is active
     const branchCheck = await pool.query(
       'SELECT id FROM "Branch" WHERE id = $1 AND active = TRUE',
@@ -367,8 +593,8 @@ router.post('/', authenticateToken, requireAnyRole('staff', 'admin'), validateCl
 
       const classroom = classroomCheck.rows[0];
 
-      // Check if classroom is active (for non-admin users)
-      if (!classroom.active && userRole !== 'admin') {
+      // Inactive classrooms can only be scheduled by those who manage classrooms
+      if (!classroom.active && !(await hasPermission(req, 'classroom.manage'))) {
         res.status(400).json({ error: 'Selected classroom is currently inactive and unavailable for scheduling' });
         return;
       }
@@ -385,43 +611,127 @@ router.post('/', authenticateToken, requireAnyRole('staff', 'admin'), validateCl
         return;
       }
 
-      // Check for classroom time conflicts
-      const conflictCheck = await pool.query(`
-        SELECT c.id, c.subject, c.start_time, c.end_time
-        FROM "Class" c
-        WHERE c.classroom_id = $1
-          AND c.active = TRUE
-          AND DATE(c.start_time) = DATE($2::timestamp)
-          AND c.start_time < ($2::timestamp + INTERVAL '1 minute' * $3)
-          AND (c.start_time + INTERVAL '1 minute' * c.duration_minutes) > $2::timestamp
-      `, [classroomId, startTime, durationMinutes]);
-
-      if (conflictCheck.rows.length > 0) {
-        const conflict = conflictCheck.rows[0];
-        const conflictStart = new Date(conflict.start_time).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
-        const conflictEnd = new Date(conflict.end_time).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
-        
-        res.status(409).json({ 
-          error: `Classroom is already booked from ${conflictStart} to ${conflictEnd} for "${conflict.subject}"` 
+      // Check for classroom time conflicts (recurring series are checked per occurrence below)
+      if (!recurrence) {
+        const classroomConflict = await findClassroomConflict(classroomId, startTime, durationMinutes);
+
+        if (classroomConflict) {
+          res.status(409).json({ error: formatClassroomConflictErrorMessage(classroomConflict) });
+          return;
+        }
+      }
+    }
+
+    // Recurring classes: expand the rule and check every occurrence before saving anything
+    let occurrences: Date[] = [];
+    if (recurrence) {
+      occurrences = generateSeriesOccurrences(new Date(startTime), recurrence.frequency, recurrence.termEnd, recurrence.skipDates || []);
+
+      if (occurrences.length === 0) {
+        res.status(400).json({ error: 'No sessions remain in the term after removing skipped dates' });
+        return;
+      }
+
+      if (occurrences.length > MAX_SERIES_OCCURRENCES) {
+        res.status(400).json({ error: `A recurring class series cannot have more than ${MAX_SERIES_OCCURRENCES} sessions` });
+        return;
+      }
+
+      const seriesConflicts = await findSeriesConflicts(
+        occurrences.map(occurrence => ({ startTime: occurrence, durationMinutes, branchId, classroomId })),
+        userId
+      );
+
+      if (seriesConflicts.length > 0) {
+        res.status(409).json({
+          error: formatSeriesConflictErrorMessage(seriesConflicts),
+          conflicts: seriesConflicts
         });
         return;
       }
+    } else {
+      // Check for teacher schedule conflicts
+      const conflictCheck = await checkComprehensiveTeacherScheduleConflict(userId, startTime, durationMinutes, branchId);    
+      
+      if (conflictCheck.hasConflict) {
+        const errorMessage = formatComprehensiveConflictErrorMessage(conflictCheck.conflicts);
+        res.status(409).json({ error: errorMessage });
+        return;
+      }
     }
 
-    // Check for teacher schedule conflicts
-    const conflictCheck = await checkComprehensiveTeacherScheduleConflict(userId, startTime, durationMinutes, branchId);    
-    
-    if (conflictCheck.hasConflict) {
-      const errorMessage = formatComprehensiveConflictErrorMessage(conflictCheck.conflicts);
-      res.status(409).json({ error: errorMessage });
+    // The class must fit your teaching profile; if it doesn't, suggest staff at the branch whose profiles
+    // fit and who are free for the first session
+    const sessions = (recurrence ? occurrences : [new Date(startTime)])
+      .map(occurrence => ({ startTime: occurrence, durationMinutes }));
+    const requirements = { subject: subject.trim(), level: level.trim(), sessions };
+    const eligibility = await checkTutorEligibility(userId, requirements);
+
+    if (!eligibility.eligible) {
+      const suggestions = [];
+      for (const tutor of await rankEligibleTutors(branchId, requirements, [userId])) {
+        if (!tutor.eligible) continue;
+        const conflictCheck = await checkComprehensiveTeacherScheduleConflict(tutor.id, sessions[0].startTime, durationMinutes, branchId);
+        if (!conflictCheck.hasConflict) {
+          suggestions.push(tutor);
+        }
+      }
+
+      res.status(409).json({
+        error: `This class doesn't fit your teaching profile: you are ${eligibility.problems.join(', and ')}`,
+        suggestions
+      });
       return;
     }
 
-    const result = await pool.query(`
-      INSERT INTO "Class" (subject, description, level, tutor_id, classroom_id, start_time, duration_minutes, capacity, branch_id, created_by)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
-      RETURNING id, subject, description, level, start_time, duration_minutes, capacity, active, created_at, updated_at
-    `, [subject, description || null, level.trim(), userId, classroomId || null, startTime, durationMinutes, capacity, branchId, userId]);
+    const client = await pool.connect();
+    let result;
+    let series = null;
+
+    try {
+      await client.query('BEGIN');
+
+      if (recurrence) {
+        const seriesResult = await client.query(`
+          INSERT INTO "ClassSeries" (subject, description, level, tutor_id, classroom_id, branch_id, frequency,
+                                     first_start_time, duration_minutes, capacity, term_start, term_end, skip_dates, created_by)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+          RETURNING id, frequency, TO_CHAR(term_start, 'YYYY-MM-DD') as term_start, TO_CHAR(term_end, 'YYYY-MM-DD') as term_end
+        `, [subject, description || null, level.trim(), userId, classroomId, branchId, recurrence.frequency,
+            startTime, durationMinutes, capacity, toDateKey(new Date(startTime)), recurrence.termEnd, recurrence.skipDates || [], userId]);
+
+        series = seriesResult.rows[0];
+
+        const occurrenceResults = [];
+        for (const occurrence of occurrences) {
+          occurrenceResults.push(await client.query(`
+            INSERT INTO "Class" (subject, description, level, tutor_id, classroom_id, start_time, duration_minutes, capacity, branch_id, created_by, series_id)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+            RETURNING id, subject, description, level, start_time, duration_minutes, capacity, active, created_at, updated_at, series_id
+          `, [subject, description || null, level.trim(), userId, classroomId, occurrence, durationMinutes, capacity, branchId, userId, series.id]));
+        }
+
+        series.occurrence_count = occurrences.length;
+        result = occurrenceResults[0];
+      } else {
+        result = await client.query(`
+          INSERT INTO "Class" (subject, description, level, tutor_id, classroom_id, start_time, duration_minutes, capacity, branch_id, created_by)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+          RETURNING id, subject, description, level, start_time, duration_minutes, capacity, active, created_at, updated_at
+        `, [subject, description || null, level.trim(), userId, classroomId || null, startTime, durationMinutes, capacity, branchId, userId]);
+      }
+
+      await recordAudit(req, series
+        ? { action: 'create', entityType: 'ClassSeries', entityId: series.id, after: { ...series, first_session: result.rows[0] } }
+        : { action: 'create', entityType: 'Class', entityId: result.rows[0].id, after: result.rows[0] }, client);
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
 
     const newClass = result.rows[0];
 
@@ -442,14 +752,18 @@ router.post('/', authenticateToken, requireAnyRole('staff', 'admin'), validateCl
       tutor_id: userId,
       branch_id: branchId,
       classroom_id: classroomId || null,
+      series_frequency: series ? series.frequency : undefined,
       enrolled_count: 0,
       can_edit: true,
       can_delete: true
     };
 
     res.status(201).json({
-      message: 'Class created successfully',
-      class: classWithDetails
+      message: series
+        ? `Class series created successfully with ${series.occurrence_count} sessions`
+        : 'Class created successfully',
+      class: classWithDetails,
+      ...(series && { series })
     });
 
   } catch (error) {
@@ -459,16 +773,22 @@ router.post('/', authenticateToken, requireAnyRole('staff', 'admin'), validateCl
 });
 
 // Update a class (staff can only update their own, admin can update any)
-router.put('/:id', authenticateToken, requireAnyRole('staff', 'admin'), async (req: AuthRequest, res) => {
+// For classes in a series, scope "following" applies the change to this and all later sessions
+router.put('/:id', authenticateToken, requirePermission('class.edit', 'class.edit_any'), async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
-    const { subject, description, level, startTime, durationMinutes, capacity, branchId, classroomId } = req.body;
-    const userRole = req.user!.role;
+    const { subject, description, level, startTime, durationMinutes, capacity, branchId, classroomId, scope = 'occurrence' } = req.body;
     const userId = req.user!.userId;
 
+    if (!['occurrence', 'following'].includes(scope)) {
+      res.status(400).json({ error: 'Scope must be either "occurrence" or "following"' });
+      return;
+    }
+
     // Check if class exists and is in the future, and get current enrollment count
     const classCheck = await pool.query(`
-      SELECT c.id, c.start_time, c.tutor_id, c.branch_id, c.classroom_id, c.capacity,
+      SELECT c.id, c.subject, c.description, c.level, c.start_time, c.duration_minutes, c.tutor_id, c.branch_id,
+             c.classroom_id, c.capacity, c.series_id,
              COALESCE(enrolled_count.count, 0) as enrolled_count
       FROM "Class" c
       LEFT JOIN (
@@ -489,14 +809,49 @@ router.put('/:id', authenticateToken, requireAnyRole('staff', 'admin'), async (r
     }
 
     const classItem = classCheck.rows[0];
-    const currentEnrollment = parseInt(classItem.enrolled_count) || 0;
 
-    // Check permissions: staff can only edit their own classes
-    if (userRole === 'staff' && classItem.tutor_id !== userId) {
+    // Check permissions: without class.edit_any you can only edit your own classes
+    if (classItem.tutor_id !== userId && !(await hasPermission(req, 'class.edit_any'))) {
       res.status(403).json({ error: 'You can only edit classes assigned to you' });
       return;
     }
 
+    // Classes can only be edited at, and moved to, your own branches
+    if (!(await canAccessBranch(req, classItem.branch_id)) || (branchId && !(await canAccessBranch(req, branchId)))) {
+      res.status(403).json({ error: 'You can only manage classes at your own branches' });
+      return;
+    }
+
+    if (scope === 'following' && !classItem.series_id) {
+      res.status(400).json({ error: 'This class is not part of a recurring series' });
+      return;
+    }
+
+    // Collect the sessions affected by this edit (this one, plus later sessions of the series)
+    let targets = [classItem];
+    if (scope === 'following') {
+      const followingResult = await pool.query(`
+        SELECT c.id, c.start_time, c.duration_minutes, c.tutor_id, c.branch_id, c.classroom_id, c.capacity, c.series_id,
+               COALESCE(enrolled_count.count, 0) as enrolled_count
+        FROM "Class" c
+        LEFT JOIN (
+          SELECT 
+            e.class_id,
+            COUNT(e.id) as count
+          FROM "Enrollment" e
+          INNER JOIN "Student" s ON e.student_id = s.id AND s.active = TRUE
+          WHERE e.status = 'enrolled'
+          GROUP BY e.class_id
+        ) enrolled_count ON c.id = enrolled_count.class_id
+        WHERE c.series_id = $1 AND c.active = TRUE AND c.start_time >= $2
+        ORDER BY c.start_time
+      `, [classItem.series_id, classItem.start_time]);
+
+      targets = followingResult.rows;
+    }
+
+    const currentEnrollment = Math.max(...targets.map(target => parseInt(target.enrolled_count) || 0));
+
     // Validate required fields for updates
     if (level !== undefined && (!level || level.trim().length === 0)) {
       res.status(400).json({ error: 'Grade/Level is required and cannot be empty' });
@@ -542,78 +897,201 @@ router.put('/:id', authenticateToken, requireAnyRole('staff', 'admin'), async (r
       }
 
       // Check if class capacity exceeds classroom capacity
-      const targetCapacity = capacity || classItem.capacity;
+      const targetCapacity = capacity || Math.max(...targets.map(target => target.capacity));
       if (targetCapacity > classroom.room_capacity) {
         res.status(400).json({ error: `Class capacity (${targetCapacity}) cannot exceed classroom capacity (${classroom.room_capacity})` });
         return;
       }
+    }
+
+    // Work out the new schedule of every affected session; a start time change shifts all of them by the same amount
+    const timeShiftMs = startTime ? new Date(startTime).getTime() - new Date(classItem.start_time).getTime() : 0;
+    const plannedSessions = targets.map(target => ({
+      id: target.id,
+      startTime: new Date(new Date(target.start_time).getTime() + timeShiftMs),
+      durationMinutes: durationMinutes || target.duration_minutes,
+      branchId: branchId || target.branch_id,
+      classroomId: classroomId || target.classroom_id
+    }));
+
+    const scheduleChanged = Boolean(startTime || durationMinutes || classroomId || branchId);
+
+    if (scope === 'occurrence' && scheduleChanged) {
+      const plannedSession = plannedSessions[0];
 
       // Check for classroom time conflicts
-      const newStartTime = startTime || classItem.start_time;
-      const newDuration = durationMinutes || classItem.duration_minutes;
-      
-      const conflictCheck = await pool.query(`
-        SELECT c.id, c.subject, c.start_time, c.end_time
-        FROM "Class" c
-        WHERE c.classroom_id = $1 
-          AND c.active = TRUE
-          AND c.id != $4
-          AND DATE(c.start_time) = DATE($2::timestamp)
-          AND c.start_time < ($2::timestamp + INTERVAL '1 minute' * $3)
-          AND (c.start_time + INTERVAL '1 minute' * c.duration_minutes) > $2::timestamp
-      `, [classroomId, newStartTime, newDuration, id]);
-
-      if (conflictCheck.rows.length > 0) {
-        const conflict = conflictCheck.rows[0];
-        const conflictStart = new Date(conflict.start_time).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
-        const conflictEnd = new Date(conflict.end_time).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+      if (plannedSession.classroomId) {
+        const classroomConflict = await findClassroomConflict(
+          plannedSession.classroomId, startTime || plannedSession.startTime, plannedSession.durationMinutes, [id]
+        );
+
+        if (classroomConflict) {
+          res.status(409).json({ error: formatClassroomConflictErrorMessage(classroomConflict) });
+          return;
+        }
+      }
+
+      // Check for teacher schedule conflicts if start time, duration or branch is being updated
+      if (classItem.tutor_id && (startTime || durationMinutes || branchId)) {
+        const conflictCheck = await checkComprehensiveTeacherScheduleConflict(
+          classItem.tutor_id, 
+          startTime || plannedSession.startTime, 
+          plannedSession.durationMinutes, 
+          plannedSession.branchId,
+          [id] // Exclude current class from conflict check
+        );
         
-        res.status(409).json({ 
-          error: `Classroom is already booked from ${conflictStart} to ${conflictEnd} for "${conflict.subject}"` 
+        if (conflictCheck.hasConflict) {
+          const errorMessage = formatComprehensiveConflictErrorMessage(conflictCheck.conflicts);
+          res.status(409).json({ error: errorMessage });
+          return;
+        }
+      }
+    } else if (scope === 'following' && scheduleChanged) {
+      // Sessions being moved never conflict with their own old slots
+      const targetIds = targets.map(target => target.id);
+      const seriesConflicts = await findSeriesConflicts(
+        plannedSessions.map(session => ({ ...session, excludeClassIds: targetIds })),
+        classItem.tutor_id
+      );
+
+      if (seriesConflicts.length > 0) {
+        res.status(409).json({
+          error: formatSeriesConflictErrorMessage(seriesConflicts),
+          conflicts: seriesConflicts
         });
         return;
       }
     }
 
-    // Check for teacher schedule conflicts if start time or duration is being updated
-    if (startTime || durationMinutes) {
-      const newStartTime = startTime || classItem.start_time;
-      const newDuration = durationMinutes || classItem.duration_minutes;
-      const newBranchId = branchId || classItem.branch_id;
-      
-      const conflictCheck = await checkComprehensiveTeacherScheduleConflict(
-        classItem.tutor_id, 
-        newStartTime, 
-        newDuration, 
-        newBranchId,
-        id // Exclude current class from conflict check
-      );
-      
-      if (conflictCheck.hasConflict) {
-        const errorMessage = formatComprehensiveConflictErrorMessage(conflictCheck.conflicts);
-        res.status(409).json({ error: errorMessage });
-        return;
+    const client = await pool.connect();
+    let updatedClass;
+
+    try {
+      await client.query('BEGIN');
+
+      if (scope === 'following') {
+        const targetIds = targets.map(target => target.id);
+        const newTermStart = toDateKey(plannedSessions[0].startTime);
+        const newLastDate = toDateKey(plannedSessions[plannedSessions.length - 1].startTime);
+
+        const firstActiveResult = await client.query(
+          'SELECT id FROM "Class" WHERE series_id = $1 AND active = TRUE ORDER BY start_time LIMIT 1',
+          [classItem.series_id]
+        );
+
+        if (firstActiveResult.rows[0].id === id) {
+          // Editing from the first session: update the series rule in place
+          await client.query(`
+            UPDATE "ClassSeries"
+            SET subject = COALESCE($2, subject),
+                description = COALESCE($3, description),
+                level = COALESCE($4, level),
+                classroom_id = COALESCE($5, classroom_id),
+                branch_id = COALESCE($6, branch_id),
+                first_start_time = $7,
+                duration_minutes = COALESCE($8, duration_minutes),
+                capacity = COALESCE($9, capacity),
+                term_start = $10::date,
+                term_end = GREATEST(term_end, $11::date),
+                updated_at = NOW()
+            WHERE id = $1
+          `, [classItem.series_id, subject, description, level?.trim(), classroomId, branchId,
+              plannedSessions[0].startTime, durationMinutes, capacity, newTermStart, newLastDate]);
+        } else {
+          // Editing from the middle: split off a new series so earlier sessions keep their original rule
+          const newSeriesResult = await client.query(`
+            INSERT INTO "ClassSeries" (subject, description, level, tutor_id, classroom_id, branch_id, frequency,
+                                       first_start_time, duration_minutes, capacity, term_start, term_end, skip_dates, created_by)
+            SELECT COALESCE($2, subject), COALESCE($3, description), COALESCE($4, level), tutor_id,
+                   COALESCE($5, classroom_id), COALESCE($6, branch_id), frequency, $7,
+                   COALESCE($8, duration_minutes), COALESCE($9, capacity), $10::date, GREATEST(term_end, $11::date),
+                   ARRAY(SELECT d FROM UNNEST(skip_dates) d WHERE d >= $10::date), $12
+            FROM "ClassSeries"
+            WHERE id = $1
+            RETURNING id
+          `, [classItem.series_id, subject, description, level?.trim(), classroomId, branchId,
+              plannedSessions[0].startTime, durationMinutes, capacity, newTermStart, newLastDate, userId]);
+
+          await client.query(`
+            UPDATE "ClassSeries"
+            SET term_end = GREATEST(term_start, $2::date - 1),
+                skip_dates = ARRAY(SELECT d FROM UNNEST(skip_dates) d WHERE d < $2::date),
+                updated_at = NOW()
+            WHERE id = $1
+          `, [classItem.series_id, toDateKey(new Date(classItem.start_time))]);
+
+          await client.query(
+            'UPDATE "Class" SET series_id = $1 WHERE id = ANY($2::uuid[])',
+            [newSeriesResult.rows[0].id, targetIds]
+          );
+        }
+      }
+
+      for (const session of plannedSessions) {
+        const result = await client.query(`
+          UPDATE "Class" 
+          SET subject = COALESCE($1, subject),
+              description = COALESCE($2, description),
+              level = COALESCE($3, level),
+              start_time = $4,
+              duration_minutes = COALESCE($5, duration_minutes),
+              capacity = COALESCE($6, capacity),
+              branch_id = COALESCE($7, branch_id),
+              classroom_id = COALESCE($8, classroom_id),
+              updated_at = NOW()
+          WHERE id = $9
+          RETURNING id, subject, description, level, start_time, duration_minutes, capacity, active, created_at, updated_at, series_id,
+                    branch_id, classroom_id
+        `, [subject, description, level?.trim(), scope === 'occurrence' && startTime ? startTime : session.startTime,
+            durationMinutes, capacity, branchId, classroomId, session.id]);
+
+        if (session.id === id) {
+          updatedClass = result.rows[0];
+        }
+      }
+
+      const { enrolled_count: _enrolledCount, ...classBefore } = classItem;
+      await recordAudit(req, {
+        action: 'update',
+        entityType: 'Class',
+        entityId: id,
+        before: classBefore,
+        after: { ...updatedClass, scope, updated_count: plannedSessions.length }
+      }, client);
+
+      // Let families know when the time or room of their sessions moved
+      const changes = scheduleChanged ? await describeClassChanges(classItem, updatedClass) : null;
+      if (changes) {
+        await notifyClassStudents(plannedSessions.map(session => session.id), 'class_changed', {
+          subject: updatedClass.subject,
+          changes: plannedSessions.length > 1
+            ? `${changes}, for ${plannedSessions.length} sessions from ${formatNotificationTime(classItem.start_time)}`
+            : changes
+        }, client);
       }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
     }
 
-    const result = await pool.query(`
-      UPDATE "Class" 
-      SET subject = COALESCE($1, subject),
-          description = COALESCE($2, description),
-          level = COALESCE($3, level),
-          start_time = COALESCE($4, start_time),
-          duration_minutes = COALESCE($5, duration_minutes),
-          capacity = COALESCE($6, capacity),
-          branch_id = COALESCE($7, branch_id),
-          classroom_id = COALESCE($8, classroom_id),
-          updated_at = NOW()
-      WHERE id = $9
-      RETURNING id, subject, description, level, start_time, duration_minutes, capacity, active, created_at, updated_at
-    `, [subject, description, level?.trim(), startTime, durationMinutes, capacity, branchId, classroomId, id]);
+    // Raised capacity frees seats for waitlisted students
+    if (capacity !== undefined) {
+      for (const session of plannedSessions) {
+        await processWaitlist(session.id);
+      }
+    }
 
     res.json({
-      message: 'Class updated successfully',
-      class: result.rows[0]
+      message: scope === 'following'
+        ? `${plannedSessions.length} ${plannedSessions.length === 1 ? 'session' : 'sessions'} updated successfully`
+        : 'Class updated successfully',
+      class: updatedClass,
+      updated_count: plannedSessions.length
     });
 
   } catch (error) {
@@ -623,15 +1101,21 @@ router.put('/:id', authenticateToken, requireAnyRole('staff', 'admin'), async (r
 });
 
 // Delete a class (staff can only delete their own, admin can delete any)
-router.delete('/:id', authenticateToken, requireAnyRole('staff', 'admin'), async (req: AuthRequest, res) => {
+// For classes in a series, scope "following" removes this and all later sessions
+router.delete('/:id', authenticateToken, requirePermission('class.edit', 'class.edit_any'), async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
-    const userRole = req.user!.role;
+    const scope = req.body?.scope || 'occurrence';
     const userId = req.user!.userId;
 
+    if (!['occurrence', 'following'].includes(scope)) {
+      res.status(400).json({ error: 'Scope must be either "occurrence" or "following"' });
+      return;
+    }
+
     // Check if class exists and is in the future
     const classCheck = await pool.query(
-      'SELECT id, subject, start_time, tutor_id FROM "Class" WHERE id = $1 AND active = TRUE AND start_time > NOW()',
+      'SELECT id, subject, level, start_time, tutor_id, branch_id, classroom_id, series_id, active FROM "Class" WHERE id = $1 AND active = TRUE AND start_time > NOW()',
       [id]
     );
 
@@ -642,20 +1126,89 @@ router.delete('/:id', authenticateToken, requireAnyRole('staff', 'admin'), async
 
     const classItem = classCheck.rows[0];
 
-    // Check permissions: staff can only delete their own classes
-    if (userRole === 'staff' && classItem.tutor_id !== userId) {
+    // Check permissions: without class.edit_any you can only delete your own classes
+    if (classItem.tutor_id !== userId && !(await hasPermission(req, 'class.edit_any'))) {
       res.status(403).json({ error: 'You can only delete classes assigned to you' });
       return;
     }
 
-    // Soft delete by setting active = false
-    await pool.query(
-      'UPDATE "Class" SET active = FALSE, updated_at = NOW() WHERE id = $1',
-      [id]
-    );
+    if (!(await canAccessBranch(req, classItem.branch_id))) {
+      res.status(403).json({ error: 'You can only manage classes at your own branches' });
+      return;
+    }
+
+    if (scope === 'following' && !classItem.series_id) {
+      res.status(400).json({ error: 'This class is not part of a recurring series' });
+      return;
+    }
+
+    if (scope === 'occurrence') {
+      // Soft delete by setting active = false
+      await pool.query(
+        'UPDATE "Class" SET active = FALSE, updated_at = NOW() WHERE id = $1',
+        [id]
+      );
+
+      await recordAudit(req, { action: 'delete', entityType: 'Class', entityId: id, before: classItem, after: { ...classItem, active: false } });
+
+      await notifyClassStudents([id], 'class_cancelled', {
+        subject: classItem.subject,
+        when: formatNotificationTime(classItem.start_time)
+      });
+
+      res.json({
+        message: `Class "${classItem.subject}" deleted successfully`
+      });
+      return;
+    }
+
+    const client = await pool.connect();
+    let deletedCount = 0;
+
+    try {
+      await client.query('BEGIN');
+
+      // Soft delete this and all later sessions of the series
+      const deleteResult = await client.query(`
+        UPDATE "Class" SET active = FALSE, updated_at = NOW()
+        WHERE series_id = $1 AND active = TRUE AND start_time >= $2
+        RETURNING id
+      `, [classItem.series_id, classItem.start_time]);
+      deletedCount = deleteResult.rowCount || 0;
+
+      // End the series before this session, or deactivate it if nothing is left
+      await client.query(`
+        UPDATE "ClassSeries"
+        SET term_end = GREATEST(term_start, $2::date - 1),
+            active = EXISTS (SELECT 1 FROM "Class" WHERE series_id = $1 AND active = TRUE),
+            updated_at = NOW()
+        WHERE id = $1
+      `, [classItem.series_id, toDateKey(new Date(classItem.start_time))]);
+
+      await recordAudit(req, {
+        action: 'delete',
+        entityType: 'Class',
+        entityId: id,
+        before: classItem,
+        after: { ...classItem, active: false, scope, deleted_count: deletedCount }
+      }, client);
+
+      await notifyClassStudents(deleteResult.rows.map(row => row.id), 'class_cancelled', {
+        subject: classItem.subject,
+        when: `${deletedCount} ${deletedCount === 1 ? 'session' : 'sessions'} from ${formatNotificationTime(classItem.start_time)}`
+      }, client);
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
 
     res.json({
-      message: `Class "${classItem.subject}" deleted successfully`
+      message: `${deletedCount} ${deletedCount === 1 ? 'session' : 'sessions'} of "${classItem.subject}" deleted successfully`,
+      deleted_count: deletedCount
     });
 
   } catch (error) {
@@ -664,4 +1217,4 @@ router.delete('/:id', authenticateToken, requireAnyRole('staff', 'admin'), async
   }
 });
 
-export default router;
\ No newline at end of file
+export default router;
@@ -2,19 +2,25 @@
 
 import express from 'express';
 import { pool } from '../index';
-import { authenticateToken, requireRole, requireAnyRole, AuthRequest } from '../middleware/auth';
+import { authenticateToken, requirePermission, AuthRequest } from '../middleware/auth';
+import { hasPermission } from '../services/permissions';
+import { recordAudit } from '../services/audit';
+import { getBranchScope, canAccessBranch } from '../services/branchAccess';
 
 const router = express.Router();
 
 // Get all classrooms for a specific branch (admin/staff only)
-router.get('/branch/:branchId', authenticateToken, requireAnyRole('admin', 'staff'), async (req: AuthRequest, res) => {
+router.get('/branch/:branchId', authenticateToken, requirePermission('classroom.view'), async (req: AuthRequest, res) => {
   try {
     const { branchId } = req.params;
-    const userRole = req.user!.role;
+
+    if (!(await canAccessBranch(req, branchId))) {
+      res.status(403).json({ error: 'You can only view classrooms at your own branches' });
+      return;
+    }
     
-    // For admins, show all classrooms (active and inactive)
-    // For staff, show only active classrooms
-    const activeFilter = userRole === 'admin' ? '' : 'AND c.active = TRUE';
+    // Those who manage classrooms see all of them (active and inactive), everyone else only active ones
+    const activeFilter = (await hasPermission(req, 'classroom.manage')) ? '' : 'AND c.active = TRUE';
     
     const result = await pool.query(`
       SELECT 
@@ -43,9 +49,11 @@ router.get('/branch/:branchId', authenticateToken, requireAnyRole('admin', 'staf
   }
 });
 
-// Get all classrooms across all branches (admin only)
-router.get('/all', authenticateToken, requireRole('admin'), async (req: AuthRequest, res) => {
+// Get all classrooms across all branches, or across the caller's branches (admin only)
+router.get('/all', authenticateToken, requirePermission('classroom.manage'), async (req: AuthRequest, res) => {
   try {
+    const branchScope = await getBranchScope(req);
+
     const result = await pool.query(`
       SELECT 
         c.id,
@@ -61,9 +69,10 @@ router.get('/all', authenticateToken, requireRole('admin'), async (req: AuthRequ
       FROM "Classroom" c
       JOIN "Branch" b ON c.branch_id = b.id
       LEFT JOIN "Class" cl ON c.id = cl.classroom_id AND cl.active = TRUE
+      WHERE $1::uuid[] IS NULL OR c.branch_id = ANY($1::uuid[])
       GROUP BY c.id, b.name
       ORDER BY b.name, c.room_name
-    `);
+    `, [branchScope]);
 
     res.json(result.rows);
   } catch (error) {
@@ -73,7 +82,7 @@ router.get('/all', authenticateToken, requireRole('admin'), async (req: AuthRequ
 });
 
 // Get a specific classroom (admin/staff only)
-router.get('/:id', authenticateToken, requireAnyRole('admin', 'staff'), async (req: AuthRequest, res) => {
+router.get('/:id', authenticateToken, requirePermission('classroom.view'), async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
 
@@ -98,6 +107,11 @@ router.get('/:id', authenticateToken, requireAnyRole('admin', 'staff'), async (r
       return;
     }
 
+    if (!(await canAccessBranch(req, result.rows[0].branch_id))) {
+      res.status(403).json({ error: 'You can only view classrooms at your own branches' });
+      return;
+    }
+
     res.json(result.rows[0]);
   } catch (error) {
     console.error('Get classroom error:', error);
@@ -106,7 +120,7 @@ router.get('/:id', authenticateToken, requireAnyRole('admin', 'staff'), async (r
 });
 
 // Get classroom availability for scheduling (admin/staff only)
-router.get('/:id/availability', authenticateToken, requireAnyRole('admin', 'staff'), async (req: AuthRequest, res) => {
+router.get('/:id/availability', authenticateToken, requirePermission('classroom.view'), async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
     const { date, exclude_class_id } = req.query;
@@ -130,6 +144,11 @@ router.get('/:id/availability', authenticateToken, requireAnyRole('admin', 'staf
 
     const classroom = classroomResult.rows[0];
 
+    if (!(await canAccessBranch(req, classroom.branch_id))) {
+      res.status(403).json({ error: 'You can only view classrooms at your own branches' });
+      return;
+    }
+
     // Get existing classes for that date with level information
     let query = `
       SELECT 
@@ -169,7 +188,7 @@ router.get('/:id/availability', authenticateToken, requireAnyRole('admin', 'staf
 });
 
 // Create a new classroom (admin only)
-router.post('/', authenticateToken, requireRole('admin'), async (req: AuthRequest, res) => {
+router.post('/', authenticateToken, requirePermission('classroom.manage'), async (req: AuthRequest, res) => {
   try {
     const { room_name, description, room_capacity, branch_id } = req.body;
 
@@ -189,6 +208,11 @@ router.post('/', authenticateToken, requireRole('admin'), async (req: AuthReques
       return;
     }
 
+    if (!(await canAccessBranch(req, branch_id))) {
+      res.status(403).json({ error: 'You can only manage classrooms at your own branches' });
+      return;
+    }
+
     // Check if branch exists and is active
     const branchCheck = await pool.query(
       'SELECT id, name FROM "Branch" WHERE id = $1 AND active = TRUE',
@@ -217,6 +241,8 @@ router.post('/', authenticateToken, requireRole('admin'), async (req: AuthReques
       RETURNING id, room_name, description, room_capacity, branch_id, active, created_at, updated_at
     `, [room_name.trim(), description?.trim() || null, room_capacity, branch_id]);
 
+    await recordAudit(req, { action: 'create', entityType: 'Classroom', entityId: result.rows[0].id, after: result.rows[0] });
+
     res.status(201).json({
       message: 'Classroom created successfully',
       classroom: {
@@ -232,14 +258,15 @@ router.post('/', authenticateToken, requireRole('admin'), async (req: AuthReques
 });
 
 // Update a classroom (admin only)
-router.put('/:id', authenticateToken, requireRole('admin'), async (req: AuthRequest, res) => {
+router.put('/:id', authenticateToken, requirePermission('classroom.manage'), async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
     const { room_name, description, room_capacity, active } = req.body;
 
     // Check if classroom exists
     const classroomCheck = await pool.query(`
-      SELECT c.id, c.branch_id, c.room_capacity, b.name as branch_name
+      SELECT c.id, c.room_name, c.description, c.room_capacity, c.branch_id, c.active, c.created_at, c.updated_at,
+             b.name as branch_name
       FROM "Classroom" c
       JOIN "Branch" b ON c.branch_id = b.id
       WHERE c.id = $1
@@ -252,6 +279,11 @@ router.put('/:id', authenticateToken, requireRole('admin'), async (req: AuthRequ
 
     const existingClassroom = classroomCheck.rows[0];
 
+    if (!(await canAccessBranch(req, existingClassroom.branch_id))) {
+      res.status(403).json({ error: 'You can only manage classrooms at your own branches' });
+      return;
+    }
+
     // Validation
     if (room_name && room_name.trim().length < 1) {
       res.status(400).json({ error: 'Room name cannot be empty' });
@@ -303,6 +335,9 @@ router.put('/:id', authenticateToken, requireRole('admin'), async (req: AuthRequ
       RETURNING id, room_name, description, room_capacity, branch_id, active, created_at, updated_at
     `, [room_name?.trim(), description?.trim(), room_capacity, active, id]);
 
+    const { branch_name: _branchName, ...classroomBefore } = existingClassroom;
+    await recordAudit(req, { action: 'update', entityType: 'Classroom', entityId: id, before: classroomBefore, after: result.rows[0] });
+
     res.json({
       message: 'Classroom updated successfully',
       classroom: {
@@ -318,13 +353,13 @@ router.put('/:id', authenticateToken, requireRole('admin'), async (req: AuthRequ
 });
 
 // Check classroom deletion impact (admin only)
-router.get('/:id/deletion-impact', authenticateToken, requireRole('admin'), async (req: AuthRequest, res) => {
+router.get('/:id/deletion-impact', authenticateToken, requirePermission('classroom.manage'), async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
 
     // Get classroom info
     const classroomResult = await pool.query(`
-      SELECT c.room_name, c.description, c.room_capacity, b.name as branch_name
+      SELECT c.room_name, c.description, c.room_capacity, c.branch_id, b.name as branch_name
       FROM "Classroom" c
       JOIN "Branch" b ON c.branch_id = b.id
       WHERE c.id = $1
@@ -337,6 +372,11 @@ router.get('/:id/deletion-impact', authenticateToken, requireRole('admin'), asyn
 
     const classroom = classroomResult.rows[0];
 
+    if (!(await canAccessBranch(req, classroom.branch_id))) {
+      res.status(403).json({ error: 'You can only manage classrooms at your own branches' });
+      return;
+    }
+
     // Get impact data
     const [classesResult, enrollmentsResult, attendanceResult] = await Promise.all([
       // Classes using this classroom
@@ -405,7 +445,7 @@ router.get('/:id/deletion-impact', authenticateToken, requireRole('admin'), asyn
 });
 
 // Delete a classroom (admin only)
-router.delete('/:id', authenticateToken, requireRole('admin'), async (req: AuthRequest, res) => {
+router.delete('/:id', authenticateToken, requirePermission('classroom.manage'), async (req: AuthRequest, res) => {
   const client = await pool.connect();
   
   try {
@@ -422,7 +462,7 @@ router.delete('/:id', authenticateToken, requireRole('admin'), async (req: AuthR
     
     // Get classroom info for logging
     const classroomResult = await client.query(`
-      SELECT c.room_name, c.description, b.name as branch_name
+      SELECT c.id, c.room_name, c.description, c.room_capacity, c.branch_id, c.active, b.name as branch_name
       FROM "Classroom" c
       JOIN "Branch" b ON c.branch_id = b.id
       WHERE c.id = $1
@@ -435,9 +475,17 @@ router.delete('/:id', authenticateToken, requireRole('admin'), async (req: AuthR
     }
     
     const classroom = classroomResult.rows[0];
+
+    if (!(await canAccessBranch(req, classroom.branch_id))) {
+      await client.query('ROLLBACK');
+      res.status(403).json({ error: 'You can only manage classrooms at your own branches' });
+      return;
+    }
     
     // Delete the classroom - classes will automatically have classroom_id set to NULL due to foreign key constraint
     await client.query('DELETE FROM "Classroom" WHERE id = $1', [id]);
+
+    await recordAudit(req, { action: 'delete', entityType: 'Classroom', entityId: id, before: classroom }, client);
     
     await client.query('COMMIT');
     
@@ -2,17 +2,22 @@
 
 import express from 'express';
 import { pool } from '../index';
-import { authenticateToken, requireRole, AuthRequest } from '../middleware/auth';
+import { authenticateToken, requirePermission, AuthRequest } from '../middleware/auth';
+import { getOccupiedSeats, processWaitlist } from '../services/waitlist';
+import { getEnrollmentBlockReason } from '../services/dunning';
+import { isGuardianOf } from '../services/guardians';
+import { notifyGuardians } from '../services/notifications';
+import { formatNotificationTime } from '../config/notifications';
 
 const router = express.Router();
 
-// Get enrollments for parent's students (parents only)
-router.get('/my-students', authenticateToken, requireRole('parent'), async (req: AuthRequest, res) => {
+// Get enrollments for the students a parent is a guardian of (parents only)
+router.get('/my-students', authenticateToken, requirePermission('enrollment.manage_own'), async (req: AuthRequest, res) => {
   try {
     const result = await pool.query(`
-      SELECT e.id, e.student_id, e.class_id, e.enrolled_at, e.status, e.cancelled_at,
+      SELECT e.id, e.student_id, e.class_id, e.enrolled_at, e.status, e.cancelled_at, e.term_enrollment_id,
              CONCAT(s.first_name, ' ', s.last_name) as student_name,
-             c.subject, c.start_time, c.duration_minutes,
+             c.subject, c.start_time, c.duration_minutes, c.series_id,
              b.name as branch_name, b.address as branch_address,
              cr.room_name as classroom_name,
              u.first_name as tutor_first_name, u.last_name as tutor_last_name
@@ -22,7 +27,7 @@ router.get('/my-students', authenticateToken, requireRole('parent'), async (req:
       LEFT JOIN "Branch" b ON c.branch_id = b.id
       LEFT JOIN "Classroom" cr ON c.classroom_id = cr.id
       LEFT JOIN "User" u ON c.tutor_id = u.id
-      WHERE s.parent_id = $1 AND s.active = TRUE AND c.active = TRUE
+      WHERE ${isGuardianOf('s', '$1')} AND s.active = TRUE AND c.active = TRUE
       ORDER BY c.start_time DESC
     `, [req.user!.userId]);
 
@@ -35,7 +40,7 @@ router.get('/my-students', authenticateToken, requireRole('parent'), async (req:
 });
 
 // Get all enrollments for a specific class (staff only)
-router.get('/class/:classId', authenticateToken, requireRole('staff'), async (req: AuthRequest, res) => {
+router.get('/class/:classId', authenticateToken, requirePermission('enrollment.view_class'), async (req: AuthRequest, res) => {
   try {
     const { classId } = req.params;
 
@@ -59,7 +64,7 @@ router.get('/class/:classId', authenticateToken, requireRole('staff'), async (re
 });
 
 // Enroll a student in a class (parents only)
-router.post('/', authenticateToken, requireRole('parent'), async (req: AuthRequest, res) => {
+router.post('/', authenticateToken, requirePermission('enrollment.manage_own'), async (req: AuthRequest, res) => {
   try {
     const { studentId, classId } = req.body;
 
@@ -68,11 +73,12 @@ router.post('/', authenticateToken, requireRole('parent'), async (req: AuthReque
       return;
     }
 
-    // Verify student belongs to this parent and get student details
-    const studentCheck = await pool.query(
-      'SELECT id, first_name, last_name, grade FROM "Student" WHERE id = $1 AND parent_id = $2 AND active = TRUE',
-      [studentId, req.user!.userId]
-    );
+    // Verify this parent is a guardian who can enroll the student and get student details
+    const studentCheck = await pool.query(`
+      SELECT s.id, s.first_name, s.last_name, s.grade, s.parent_id
+      FROM "Student" s
+      WHERE s.id = $1 AND ${isGuardianOf('s', '$2', 'can_enroll')} AND s.active = TRUE
+    `, [studentId, req.user!.userId]);
 
     if (studentCheck.rows.length === 0) {
       res.status(403).json({ error: 'Student not found or access denied' });
@@ -81,6 +87,13 @@ router.post('/', authenticateToken, requireRole('parent'), async (req: AuthReque
 
     const student = studentCheck.rows[0];
 
+    // Family accounts overdue past the admin-configured threshold cannot take new bookings
+    const blockReason = await getEnrollmentBlockReason(student.parent_id);
+    if (blockReason) {
+      res.status(403).json({ error: blockReason, enrollment_blocked: true });
+      return;
+    }
+
     // Verify class exists and is in the future (within 1 month)
     const oneMonthFromNow = new Date();
     oneMonthFromNow.setMonth(oneMonthFromNow.getMonth() + 1);
@@ -119,35 +132,73 @@ router.post('/', authenticateToken, requireRole('parent'), async (req: AuthReque
       return;
     }
 
-    // Check if class is full
-    if (parseInt(classInfo.enrolled_count) >= classInfo.capacity) {
-      res.status(400).json({ error: 'Class is full' });
-      return;
-    }
-
-    // Check if student is already enrolled (only check active enrollments)
-    const activeEnrollmentCheck = await pool.query(
-      'SELECT id FROM "Enrollment" WHERE student_id = $1 AND class_id = $2 AND status = $3',
-      [studentId, classId, 'enrolled']
+    // A seat already held for this student must be confirmed through the waitlist offer
+    const heldOfferCheck = await pool.query(
+      `SELECT id FROM "Waitlist" WHERE student_id = $1 AND class_id = $2 AND status = 'offered' AND offer_expires_at > NOW()`,
+      [studentId, classId]
     );
 
-    if (activeEnrollmentCheck.rows.length > 0) {
-      res.status(400).json({ error: 'Student is already enrolled in this class' });
+    if (heldOfferCheck.rows.length > 0) {
+      res.status(400).json({ error: 'A seat is being held for this student. Please confirm the waitlist offer instead.' });
       return;
     }
 
-    // Create enrollment
-    const result = await pool.query(`
-      INSERT INTO "Enrollment" (student_id, class_id, enrolled_by, status)
-      VALUES ($1, $2, $3, $4)
-      RETURNING id, enrolled_at, status
-    `, [studentId, classId, req.user!.userId, 'enrolled']);
+    const client = await pool.connect();
+    let enrollment;
+
+    try {
+      await client.query('BEGIN');
+
+      // Lock the class so two families cannot take its last seat at the same time
+      await client.query('SELECT id FROM "Class" WHERE id = $1 FOR UPDATE', [classId]);
+
+      // Check if class is full (seats held for waitlist offers count as taken)
+      const occupiedSeats = await getOccupiedSeats(classId, client);
+      if (occupiedSeats >= classInfo.capacity) {
+        await client.query('ROLLBACK');
+        res.status(400).json({ error: 'Class is full', waitlist_available: true });
+        return;
+      }
+
+      // Check if student is already enrolled (only check active enrollments)
+      const activeEnrollmentCheck = await client.query(
+        'SELECT id FROM "Enrollment" WHERE student_id = $1 AND class_id = $2 AND status = $3',
+        [studentId, classId, 'enrolled']
+      );
+
+      if (activeEnrollmentCheck.rows.length > 0) {
+        await client.query('ROLLBACK');
+        res.status(400).json({ error: 'Student is already enrolled in this class' });
+        return;
+      }
+
+      // Create enrollment
+      const result = await client.query(`
+        INSERT INTO "Enrollment" (student_id, class_id, enrolled_by, status)
+        VALUES ($1, $2, $3, $4)
+        RETURNING id, enrolled_at, status
+      `, [studentId, classId, req.user!.userId, 'enrolled']);
+
+      enrollment = result.rows[0];
+
+      await notifyGuardians([studentId], 'enrollment_confirmed', {
+        subject: classInfo.subject,
+        when: formatNotificationTime(classInfo.start_time)
+      }, client);
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
 
     const studentFullName = `${student.first_name} ${student.last_name}`;
 
     res.status(201).json({
       message: `${studentFullName} enrolled in ${classInfo.subject} successfully`,
-      enrollment: result.rows[0]
+      enrollment
     });
 
   } catch (error) {
@@ -156,12 +207,289 @@ router.post('/', authenticateToken, requireRole('parent'), async (req: AuthReque
   }
 });
 
+// Enroll a student in every remaining session of a class series (parents only)
+router.post('/term', authenticateToken, requirePermission('enrollment.manage_own'), async (req: AuthRequest, res) => {
+  try {
+    const { studentId, seriesId } = req.body;
+
+    if (!studentId || !seriesId) {
+      res.status(400).json({ error: 'Student ID and Series ID are required' });
+      return;
+    }
+
+    // Verify this parent is a guardian who can enroll the student and get student details
+    const studentCheck = await pool.query(`
+      SELECT s.id, s.first_name, s.last_name, s.grade, s.parent_id
+      FROM "Student" s
+      WHERE s.id = $1 AND ${isGuardianOf('s', '$2', 'can_enroll')} AND s.active = TRUE
+    `, [studentId, req.user!.userId]);
+
+    if (studentCheck.rows.length === 0) {
+      res.status(403).json({ error: 'Student not found or access denied' });
+      return;
+    }
+
+    const student = studentCheck.rows[0];
+
+    // Family accounts overdue past the admin-configured threshold cannot take new bookings
+    const blockReason = await getEnrollmentBlockReason(student.parent_id);
+    if (blockReason) {
+      res.status(403).json({ error: blockReason, enrollment_blocked: true });
+      return;
+    }
+
+    const seriesCheck = await pool.query(
+      'SELECT id, subject FROM "ClassSeries" WHERE id = $1 AND active = TRUE',
+      [seriesId]
+    );
+
+    if (seriesCheck.rows.length === 0) {
+      res.status(404).json({ error: 'Class series not found or no longer running' });
+      return;
+    }
+
+    const series = seriesCheck.rows[0];
+
+    const client = await pool.connect();
+    const booked: { class_id: string; start_time: Date; enrollment_id: string }[] = [];
+    const skipped: { class_id: string; start_time: Date; reason: string }[] = [];
+    let termEnrollment;
+
+    try {
+      await client.query('BEGIN');
+
+      // Only one active term enrollment per student and series. Locking the student first means a
+      // second request for the same student waits here and then sees the first one's term enrollment.
+      await client.query('SELECT id FROM "Student" WHERE id = $1 FOR UPDATE', [studentId]);
+
+      const existingTermCheck = await client.query(
+        'SELECT id FROM "TermEnrollment" WHERE student_id = $1 AND series_id = $2 AND status = $3',
+        [studentId, seriesId, 'active']
+      );
+
+      if (existingTermCheck.rows.length > 0) {
+        await client.query('ROLLBACK');
+        res.status(400).json({ error: 'Student is already enrolled for this term' });
+        return;
+      }
+
+      // Lock the remaining sessions so capacity checks cannot race with other enrollments
+      const sessionsResult = await client.query(`
+        SELECT c.id, c.level, c.start_time, c.capacity
+        FROM "Class" c
+        WHERE c.series_id = $1 AND c.active = TRUE AND c.start_time > NOW()
+        ORDER BY c.start_time
+        FOR UPDATE
+      `, [seriesId]);
+
+      if (sessionsResult.rows.length === 0) {
+        await client.query('ROLLBACK');
+        res.status(400).json({ error: 'This class series has no upcoming sessions' });
+        return;
+      }
+
+      const termResult = await client.query(`
+        INSERT INTO "TermEnrollment" (student_id, series_id, enrolled_by)
+        VALUES ($1, $2, $3)
+        RETURNING id, status, created_at
+      `, [studentId, seriesId, req.user!.userId]);
+
+      termEnrollment = termResult.rows[0];
+
+      // Apply the same checks as single enrollment to each session
+      for (const session of sessionsResult.rows) {
+        if (session.level !== 'Mixed Levels' && student.grade !== session.level) {
+          skipped.push({ class_id: session.id, start_time: session.start_time, reason: `Class level (${session.level}) does not match student grade (${student.grade})` });
+          continue;
+        }
+
+        const ownEnrollmentCheck = await client.query(
+          'SELECT id FROM "Enrollment" WHERE student_id = $1 AND class_id = $2 AND status = $3',
+          [studentId, session.id, 'enrolled']
+        );
+
+        if (ownEnrollmentCheck.rows.length > 0) {
+          skipped.push({ class_id: session.id, start_time: session.start_time, reason: 'Already enrolled in this session' });
+          continue;
+        }
+
+        // Seats held for waitlist offers count as taken
+        if (await getOccupiedSeats(session.id, client) >= session.capacity) {
+          skipped.push({ class_id: session.id, start_time: session.start_time, reason: 'Class is full' });
+          continue;
+        }
+
+        const enrollmentResult = await client.query(`
+          INSERT INTO "Enrollment" (student_id, class_id, enrolled_by, status, term_enrollment_id)
+          VALUES ($1, $2, $3, $4, $5)
+          RETURNING id
+        `, [studentId, session.id, req.user!.userId, 'enrolled', termEnrollment.id]);
+
+        booked.push({ class_id: session.id, start_time: session.start_time, enrollment_id: enrollmentResult.rows[0].id });
+      }
+
+      // Nothing could be booked: don't leave an empty term enrollment behind
+      if (booked.length === 0) {
+        await client.query('ROLLBACK');
+        const reasons = [...new Set(skipped.map(session => session.reason))];
+        res.status(400).json({
+          error: `None of the remaining sessions could be booked (${reasons.join('; ')})`,
+          skipped
+        });
+        return;
+      }
+
+      await notifyGuardians([studentId], 'enrollment_confirmed', {
+        subject: series.subject,
+        when: `${booked.length} ${booked.length === 1 ? 'session' : 'sessions'} from ${formatNotificationTime(booked[0].start_time)}`
+      }, client);
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    const studentFullName = `${student.first_name} ${student.last_name}`;
+    const sessionWord = booked.length === 1 ? 'session' : 'sessions';
+
+    res.status(201).json({
+      message: skipped.length > 0
+        ? `${studentFullName} enrolled in ${booked.length} ${sessionWord} of ${series.subject}. ${skipped.length} could not be booked.`
+        : `${studentFullName} enrolled in all ${booked.length} ${sessionWord} of ${series.subject} successfully`,
+      termEnrollment,
+      booked,
+      skipped
+    });
+
+  } catch (error) {
+    console.error('Create term enrollment error:', error);
+    res.status(500).json({ error: 'Failed to enroll student for the term' });
+  }
+});
+
+// Get term enrollments for parent's students (parents only)
+router.get('/term/my-students', authenticateToken, requirePermission('enrollment.manage_own'), async (req: AuthRequest, res) => {
+  try {
+    const result = await pool.query(`
+      SELECT te.id, te.student_id, te.series_id, te.status, te.created_at, te.cancelled_at,
+             CONCAT(s.first_name, ' ', s.last_name) as student_name,
+             cs.subject, cs.level, cs.frequency, cs.duration_minutes,
+             TO_CHAR(cs.term_start, 'YYYY-MM-DD') as term_start,
+             TO_CHAR(cs.term_end, 'YYYY-MM-DD') as term_end,
+             b.name as branch_name,
+             u.first_name as tutor_first_name, u.last_name as tutor_last_name,
+             COUNT(e.id) FILTER (WHERE e.status = 'enrolled' AND c.start_time > NOW()) as remaining_sessions,
+             COUNT(e.id) FILTER (WHERE e.status IN ('enrolled', 'completed') AND c.start_time <= NOW()) as attended_sessions,
+             MIN(c.start_time) FILTER (WHERE e.status = 'enrolled' AND c.start_time > NOW()) as next_session_time
+      FROM "TermEnrollment" te
+      JOIN "Student" s ON te.student_id = s.id
+      JOIN "ClassSeries" cs ON te.series_id = cs.id
+      LEFT JOIN "Branch" b ON cs.branch_id = b.id
+      LEFT JOIN "User" u ON cs.tutor_id = u.id
+      LEFT JOIN "Enrollment" e ON e.term_enrollment_id = te.id
+      LEFT JOIN "Class" c ON e.class_id = c.id AND c.active = TRUE
+      WHERE ${isGuardianOf('s', '$1')} AND s.active = TRUE
+      GROUP BY te.id, s.first_name, s.last_name, cs.id, b.name, u.first_name, u.last_name
+      ORDER BY te.created_at DESC
+    `, [req.user!.userId]);
+
+    res.json(result.rows.map(row => ({
+      ...row,
+      remaining_sessions: parseInt(row.remaining_sessions) || 0,
+      attended_sessions: parseInt(row.attended_sessions) || 0
+    })));
+
+  } catch (error) {
+    console.error('Get term enrollments error:', error);
+    res.status(500).json({ error: 'Failed to fetch term enrollments' });
+  }
+});
+
+// Cancel the remaining sessions of a term enrollment (parents only)
+router.delete('/term/:termEnrollmentId', authenticateToken, requirePermission('enrollment.manage_own'), async (req: AuthRequest, res) => {
+  try {
+    const { termEnrollmentId } = req.params;
+
+    const termCheck = await pool.query(`
+      SELECT te.id, te.student_id, cs.subject,
+             CONCAT(s.first_name, ' ', s.last_name) as student_name
+      FROM "TermEnrollment" te
+      JOIN "Student" s ON te.student_id = s.id
+      JOIN "ClassSeries" cs ON te.series_id = cs.id
+      WHERE te.id = $1 AND ${isGuardianOf('s', '$2', 'can_enroll')} AND te.status = 'active'
+    `, [termEnrollmentId, req.user!.userId]);
+
+    if (termCheck.rows.length === 0) {
+      res.status(404).json({ error: 'Term enrollment not found, access denied, or already cancelled' });
+      return;
+    }
+
+    const termEnrollment = termCheck.rows[0];
+    const client = await pool.connect();
+    let cancelledCount = 0;
+
+    try {
+      await client.query('BEGIN');
+
+      // Only sessions that have not started yet are cancelled; past sessions keep their history
+      const cancelResult = await client.query(`
+        UPDATE "Enrollment" e
+        SET status = 'cancelled', cancelled_at = NOW()
+        FROM "Class" c
+        WHERE e.class_id = c.id
+          AND e.term_enrollment_id = $1
+          AND e.status = 'enrolled'
+          AND c.start_time > NOW()
+        RETURNING e.class_id
+      `, [termEnrollmentId]);
+      cancelledCount = cancelResult.rowCount || 0;
+
+      // Offer the freed seats to waitlisted students
+      for (const row of cancelResult.rows) {
+        await processWaitlist(row.class_id, client);
+      }
+
+      await client.query(`
+        UPDATE "TermEnrollment"
+        SET status = 'cancelled', cancelled_at = NOW()
+        WHERE id = $1
+      `, [termEnrollmentId]);
+
+      if (cancelledCount > 0) {
+        await notifyGuardians([termEnrollment.student_id], 'enrollment_cancelled', {
+          subject: termEnrollment.subject,
+          when: `${cancelledCount} remaining ${cancelledCount === 1 ? 'session' : 'sessions'}`
+        }, client);
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    res.json({
+      message: `Term enrollment cancelled: ${termEnrollment.student_name} removed from ${cancelledCount} remaining ${cancelledCount === 1 ? 'session' : 'sessions'} of ${termEnrollment.subject}`,
+      cancelled_count: cancelledCount
+    });
+
+  } catch (error) {
+    console.error('Cancel term enrollment error:', error);
+    res.status(500).json({ error: 'Failed to cancel term enrollment' });
+  }
+});
+
 // Cancel an enrollment (parents only, only future classes)
-router.delete('/:enrollmentId', authenticateToken, requireRole('parent'), async (req: AuthRequest, res) => {
+router.delete('/:enrollmentId', authenticateToken, requirePermission('enrollment.manage_own'), async (req: AuthRequest, res) => {
   try {
     const { enrollmentId } = req.params;
 
-    // Verify enrollment belongs to this parent and class is in the future
+    // Verify this parent can manage the student's enrollments and the class is in the future
     const enrollmentCheck = await pool.query(`
       SELECT e.id, e.student_id, e.class_id, e.status,
              CONCAT(s.first_name, ' ', s.last_name) as student_name,
@@ -169,7 +497,7 @@ router.delete('/:enrollmentId', authenticateToken, requireRole('parent'), async
       FROM "Enrollment" e
       JOIN "Student" s ON e.student_id = s.id
       JOIN "Class" c ON e.class_id = c.id
-      WHERE e.id = $1 AND s.parent_id = $2 AND e.status = 'enrolled' AND c.start_time > NOW()
+      WHERE e.id = $1 AND ${isGuardianOf('s', '$2', 'can_enroll')} AND e.status = 'enrolled' AND c.start_time > NOW()
     `, [enrollmentId, req.user!.userId]);
 
     if (enrollmentCheck.rows.length === 0) {
@@ -186,6 +514,14 @@ router.delete('/:enrollmentId', authenticateToken, requireRole('parent'), async
       WHERE id = $1
     `, [enrollmentId]);
 
+    // Offer the freed seat to the next waitlisted student
+    await processWaitlist(enrollment.class_id);
+
+    await notifyGuardians([enrollment.student_id], 'enrollment_cancelled', {
+      subject: enrollment.subject,
+      when: formatNotificationTime(enrollment.start_time)
+    });
+
     res.json({
       message: `Enrollment cancelled: ${enrollment.student_name} removed from ${enrollment.subject}`
     });
@@ -219,9 +555,12 @@ router.get('/:enrollmentId', authenticateToken, async (req: AuthRequest, res) =>
 
     const queryParams = [enrollmentId];
 
-    // If parent, restrict to their students only
+    // If parent, restrict to the students they are a guardian of; a student to their own enrollments
     if (req.user!.role === 'parent') {
-      query += ' AND s.parent_id = $2';
+      query += ` AND ${isGuardianOf('s', '$2')}`;
+      queryParams.push(req.user!.userId);
+    } else if (req.user!.role === 'student') {
+      query += ' AND s.user_id = $2';
       queryParams.push(req.user!.userId);
     }
 
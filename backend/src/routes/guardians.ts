@@ -0,0 +1,433 @@
+// backend/src/routes/guardians.ts
+
+import express from 'express';
+import { pool } from '../index';
+import { authenticateToken, requirePermission, AuthRequest } from '../middleware/auth';
+import { isValidUUID, validateGuardianAccess, validateGuardianInvitation } from '../middleware/validation';
+import { recordAudit } from '../services/audit';
+import { getGuardianLink, hashInvitationToken, createGuardianInvitation } from '../services/guardians';
+
+const router = express.Router();
+
+const GUARDIAN_COLUMNS = `
+  sg.student_id, sg.guardian_id, sg.relationship, sg.is_primary,
+  sg.can_enroll, sg.can_view_payments, sg.receives_notices, sg.created_at, sg.updated_at
+`;
+
+const INVITATION_COLUMNS = `
+  i.id, i.student_id, i.email, i.relationship, i.can_enroll, i.can_view_payments, i.receives_notices,
+  i.status, i.expires_at, i.created_at
+`;
+
+// Get a child's guardians, and the invitations still waiting for an answer (the child's guardians only)
+router.get('/students/:studentId', authenticateToken, requirePermission('student.manage_own'), async (req: AuthRequest, res) => {
+  try {
+    const { studentId } = req.params;
+
+    if (!isValidUUID(studentId)) {
+      res.status(400).json({ error: 'Invalid student ID format' });
+      return;
+    }
+
+    const link = await getGuardianLink(studentId, req.user!.userId);
+
+    if (!link) {
+      res.status(404).json({ error: 'Student not found or access denied' });
+      return;
+    }
+
+    const [guardiansResult, invitationsResult] = await Promise.all([
+      pool.query(`
+        SELECT ${GUARDIAN_COLUMNS}, u.first_name, u.last_name, u.email
+        FROM "StudentGuardian" sg
+        JOIN "User" u ON sg.guardian_id = u.id
+        WHERE sg.student_id = $1 AND u.active = TRUE
+        ORDER BY sg.is_primary DESC, sg.created_at
+      `, [studentId]),
+      pool.query(`
+        SELECT ${INVITATION_COLUMNS}
+        FROM "GuardianInvitation" i
+        WHERE i.student_id = $1 AND i.status = 'pending' AND i.expires_at > NOW()
+        ORDER BY i.created_at DESC
+      `, [studentId])
+    ]);
+
+    res.json({
+      guardians: guardiansResult.rows,
+      invitations: invitationsResult.rows,
+      is_primary: link.is_primary
+    });
+  } catch (error) {
+    console.error('Get guardians error:', error);
+    res.status(500).json({ error: 'Failed to fetch guardians' });
+  }
+});
+
+// Invite another parent by email to become a guardian of a child (primary guardian only)
+router.post('/students/:studentId/invitations', authenticateToken, requirePermission('student.manage_own'), validateGuardianInvitation, async (req: AuthRequest, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { studentId } = req.params;
+    const { relationship = 'parent', canEnroll = true, canViewPayments = true, receivesNotices = true } = req.body;
+    const email = req.body.email.trim().toLowerCase();
+    const userId = req.user!.userId;
+
+    if (!isValidUUID(studentId)) {
+      res.status(400).json({ error: 'Invalid student ID format' });
+      return;
+    }
+
+    const link = await getGuardianLink(studentId, userId);
+
+    if (!link) {
+      res.status(404).json({ error: 'Student not found or access denied' });
+      return;
+    }
+
+    if (!link.is_primary) {
+      res.status(403).json({ error: 'Only the primary guardian can invite other guardians' });
+      return;
+    }
+
+    const existingAccount = await pool.query(`
+      SELECT u.role,
+             EXISTS (SELECT 1 FROM "StudentGuardian" sg WHERE sg.student_id = $2 AND sg.guardian_id = u.id) as is_guardian
+      FROM "User" u
+      WHERE u.email = $1
+    `, [email, studentId]);
+
+    if (existingAccount.rows[0]?.is_guardian) {
+      res.status(409).json({ error: 'This person is already a guardian of this child' });
+      return;
+    }
+
+    if (existingAccount.rows.length > 0 && existingAccount.rows[0].role !== 'parent') {
+      res.status(400).json({ error: 'Only parent accounts can be guardians' });
+      return;
+    }
+
+    const pendingInvitation = await pool.query(`
+      SELECT id FROM "GuardianInvitation"
+      WHERE student_id = $1 AND email = $2 AND status = 'pending' AND expires_at > NOW()
+    `, [studentId, email]);
+
+    if (pendingInvitation.rows.length > 0) {
+      res.status(409).json({ error: 'An invitation has already been sent to this email address' });
+      return;
+    }
+
+    const namesResult = await pool.query(`
+      SELECT CONCAT(s.first_name, ' ', s.last_name) as student_name,
+             CONCAT(u.first_name, ' ', u.last_name) as inviter_name
+      FROM "Student" s, "User" u
+      WHERE s.id = $1 AND u.id = $2
+    `, [studentId, userId]);
+    const { student_name, inviter_name } = namesResult.rows[0];
+
+    await client.query('BEGIN');
+
+    const invitation = await createGuardianInvitation({
+      studentId,
+      studentName: student_name,
+      invitedBy: { id: userId, name: inviter_name },
+      email,
+      relationship,
+      permissions: { can_enroll: canEnroll, can_view_payments: canViewPayments, receives_notices: receivesNotices }
+    }, client);
+
+    await recordAudit(req, { action: 'create', entityType: 'GuardianInvitation', entityId: invitation.id, after: invitation }, client);
+
+    await client.query('COMMIT');
+
+    res.status(201).json({
+      message: `Invitation sent to ${email}`,
+      invitation
+    });
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Create guardian invitation error:', error);
+    res.status(500).json({ error: 'Failed to send invitation' });
+  } finally {
+    client.release();
+  }
+});
+
+// Withdraw an invitation that has not been answered yet (primary guardian only)
+router.delete('/invitations/:id', authenticateToken, requirePermission('student.manage_own'), async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!isValidUUID(id)) {
+      res.status(400).json({ error: 'Invalid invitation ID format' });
+      return;
+    }
+
+    const invitationResult = await pool.query(`
+      SELECT ${INVITATION_COLUMNS}
+      FROM "GuardianInvitation" i
+      WHERE i.id = $1 AND i.status = 'pending'
+    `, [id]);
+    const invitation = invitationResult.rows[0];
+    const link = invitation ? await getGuardianLink(invitation.student_id, req.user!.userId) : null;
+
+    if (!invitation || !link?.is_primary) {
+      res.status(404).json({ error: 'Invitation not found or access denied' });
+      return;
+    }
+
+    await pool.query(
+      `UPDATE "GuardianInvitation" SET status = 'revoked', responded_at = NOW() WHERE id = $1`,
+      [id]
+    );
+
+    await recordAudit(req, {
+      action: 'revoke',
+      entityType: 'GuardianInvitation',
+      entityId: id,
+      before: invitation,
+      after: { ...invitation, status: 'revoked' }
+    });
+
+    res.json({ message: `Invitation to ${invitation.email} withdrawn` });
+  } catch (error) {
+    console.error('Revoke guardian invitation error:', error);
+    res.status(500).json({ error: 'Failed to withdraw invitation' });
+  }
+});
+
+// Change a guardian's relationship and permissions (primary guardian only). Other guardians may
+// only choose whether they receive notices themselves; the primary guardian can always enroll and pay.
+router.put('/students/:studentId/guardians/:guardianId', authenticateToken, requirePermission('student.manage_own'), validateGuardianAccess, async (req: AuthRequest, res) => {
+  try {
+    const { studentId, guardianId } = req.params;
+    const { relationship, canEnroll, canViewPayments, receivesNotices } = req.body;
+    const userId = req.user!.userId;
+
+    if (!isValidUUID(studentId) || !isValidUUID(guardianId)) {
+      res.status(400).json({ error: 'Invalid student or guardian ID format' });
+      return;
+    }
+
+    const [link, target] = await Promise.all([
+      getGuardianLink(studentId, userId),
+      getGuardianLink(studentId, guardianId)
+    ]);
+
+    if (!link || !target) {
+      res.status(404).json({ error: 'Guardian not found or access denied' });
+      return;
+    }
+
+    const onlyOwnNotices = guardianId === userId
+      && relationship === undefined && canEnroll === undefined && canViewPayments === undefined;
+
+    if (!link.is_primary && !onlyOwnNotices) {
+      res.status(403).json({ error: 'Only the primary guardian can change what guardians can do' });
+      return;
+    }
+
+    if (target.is_primary && (canEnroll === false || canViewPayments === false)) {
+      res.status(400).json({ error: 'The primary guardian can always enroll and see payments' });
+      return;
+    }
+
+    const result = await pool.query(`
+      UPDATE "StudentGuardian" sg
+      SET relationship = COALESCE($3, relationship),
+          can_enroll = COALESCE($4, can_enroll),
+          can_view_payments = COALESCE($5, can_view_payments),
+          receives_notices = COALESCE($6, receives_notices),
+          updated_at = NOW()
+      WHERE sg.student_id = $1 AND sg.guardian_id = $2
+      RETURNING ${GUARDIAN_COLUMNS}
+    `, [studentId, guardianId, relationship, canEnroll, canViewPayments, receivesNotices]);
+
+    await recordAudit(req, {
+      action: 'update',
+      entityType: 'StudentGuardian',
+      entityId: studentId,
+      before: target,
+      after: result.rows[0]
+    });
+
+    res.json({
+      message: 'Guardian updated successfully',
+      guardian: result.rows[0]
+    });
+  } catch (error) {
+    console.error('Update guardian error:', error);
+    res.status(500).json({ error: 'Failed to update guardian' });
+  }
+});
+
+// Remove a guardian from a child (the primary guardian removes others; anyone else can remove themselves)
+router.delete('/students/:studentId/guardians/:guardianId', authenticateToken, requirePermission('student.manage_own'), async (req: AuthRequest, res) => {
+  try {
+    const { studentId, guardianId } = req.params;
+    const userId = req.user!.userId;
+
+    if (!isValidUUID(studentId) || !isValidUUID(guardianId)) {
+      res.status(400).json({ error: 'Invalid student or guardian ID format' });
+      return;
+    }
+
+    const [link, target] = await Promise.all([
+      getGuardianLink(studentId, userId),
+      getGuardianLink(studentId, guardianId)
+    ]);
+
+    if (!link || !target || (!link.is_primary && guardianId !== userId)) {
+      res.status(404).json({ error: 'Guardian not found or access denied' });
+      return;
+    }
+
+    if (target.is_primary) {
+      res.status(400).json({ error: 'The primary guardian cannot be removed' });
+      return;
+    }
+
+    await pool.query('DELETE FROM "StudentGuardian" WHERE student_id = $1 AND guardian_id = $2', [studentId, guardianId]);
+
+    await recordAudit(req, { action: 'delete', entityType: 'StudentGuardian', entityId: studentId, before: target });
+
+    res.json({
+      message: guardianId === userId ? 'You are no longer a guardian of this child' : 'Guardian removed successfully'
+    });
+  } catch (error) {
+    console.error('Remove guardian error:', error);
+    res.status(500).json({ error: 'Failed to remove guardian' });
+  }
+});
+
+// Get an invitation from the link in its email, before signing in (public)
+router.get('/invitations/:token', async (req, res) => {
+  try {
+    const result = await pool.query(`
+      SELECT i.email, i.relationship, i.status, i.expires_at, i.expires_at <= NOW() as expired,
+             s.first_name as student_first_name,
+             CONCAT(u.first_name, ' ', u.last_name) as invited_by_name
+      FROM "GuardianInvitation" i
+      JOIN "Student" s ON i.student_id = s.id
+      LEFT JOIN "User" u ON i.invited_by = u.id
+      WHERE i.token_hash = $1 AND s.active = TRUE
+    `, [hashInvitationToken(req.params.token)]);
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Invitation not found' });
+      return;
+    }
+
+    const { expired, ...invitation } = result.rows[0];
+
+    res.json({
+      ...invitation,
+      status: invitation.status === 'pending' && expired ? 'expired' : invitation.status
+    });
+  } catch (error) {
+    console.error('Get guardian invitation error:', error);
+    res.status(500).json({ error: 'Failed to fetch invitation' });
+  }
+});
+
+// Accept an invitation and become a guardian of the child (parents signed in with the invited email only)
+router.post('/invitations/:token/accept', authenticateToken, requirePermission('student.manage_own'), async (req: AuthRequest, res) => {
+  const client = await pool.connect();
+
+  try {
+    const userId = req.user!.userId;
+
+    await client.query('BEGIN');
+
+    const invitationResult = await client.query(`
+      SELECT ${INVITATION_COLUMNS}, s.first_name as student_first_name, s.last_name as student_last_name
+      FROM "GuardianInvitation" i
+      JOIN "Student" s ON i.student_id = s.id AND s.active = TRUE
+      WHERE i.token_hash = $1
+      FOR UPDATE OF i
+    `, [hashInvitationToken(req.params.token)]);
+
+    const invitation = invitationResult.rows[0];
+
+    if (!invitation || invitation.status !== 'pending') {
+      await client.query('ROLLBACK');
+      res.status(404).json({ error: 'This invitation is no longer available' });
+      return;
+    }
+
+    if (new Date(invitation.expires_at) <= new Date()) {
+      await client.query('ROLLBACK');
+      res.status(400).json({ error: 'This invitation has expired. Ask for a new one.' });
+      return;
+    }
+
+    const userResult = await client.query('SELECT email FROM "User" WHERE id = $1', [userId]);
+
+    if (userResult.rows[0].email !== invitation.email) {
+      await client.query('ROLLBACK');
+      res.status(403).json({ error: `This invitation was sent to ${invitation.email}. Sign in with that address to accept it.` });
+      return;
+    }
+
+    const linkResult = await client.query(`
+      INSERT INTO "StudentGuardian" (student_id, guardian_id, relationship, can_enroll, can_view_payments, receives_notices)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (student_id, guardian_id) DO NOTHING
+      RETURNING student_id, guardian_id, relationship, is_primary, can_enroll, can_view_payments, receives_notices
+    `, [invitation.student_id, userId, invitation.relationship, invitation.can_enroll,
+        invitation.can_view_payments, invitation.receives_notices]);
+
+    await client.query(`
+      UPDATE "GuardianInvitation"
+      SET status = 'accepted', accepted_by = $2, responded_at = NOW()
+      WHERE id = $1
+    `, [invitation.id, userId]);
+
+    if (linkResult.rows.length > 0) {
+      await recordAudit(req, {
+        action: 'create',
+        entityType: 'StudentGuardian',
+        entityId: invitation.student_id,
+        after: { ...linkResult.rows[0], invitation_id: invitation.id }
+      }, client);
+    }
+
+    await client.query('COMMIT');
+
+    res.json({
+      message: `You are now a guardian of ${invitation.student_first_name} ${invitation.student_last_name}`
+    });
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Accept guardian invitation error:', error);
+    res.status(500).json({ error: 'Failed to accept invitation' });
+  } finally {
+    client.release();
+  }
+});
+
+// Decline an invitation from the link in its email (public; holding the link is enough)
+router.post('/invitations/:token/decline', async (req, res) => {
+  try {
+    const result = await pool.query(`
+      UPDATE "GuardianInvitation"
+      SET status = 'declined', responded_at = NOW()
+      WHERE token_hash = $1 AND status = 'pending'
+      RETURNING id
+    `, [hashInvitationToken(req.params.token)]);
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'This invitation is no longer available' });
+      return;
+    }
+
+    res.json({ message: 'Invitation declined' });
+  } catch (error) {
+    console.error('Decline guardian invitation error:', error);
+    res.status(500).json({ error: 'Failed to decline invitation' });
+  }
+});
+
+export default router;
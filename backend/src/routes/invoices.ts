@@ -0,0 +1,543 @@
+// backend/src/routes/invoices.ts
+
+import express from 'express';
+import { pool } from '../index';
+import { authenticateToken, requirePermission, AuthRequest } from '../middleware/auth';
+import { isValidMonthString, isValidUUID, validateTuitionRate } from '../middleware/validation';
+import { buildInvoiceDrafts, getInvoiceAmountPaid } from '../services/billing';
+import { getDunningSettings } from '../services/dunning';
+import { recordAudit } from '../services/audit';
+import { getBranchScope, canAccessBranch } from '../services/branchAccess';
+
+const router = express.Router();
+
+// Get all active tuition rates (admin only)
+router.get('/rates', authenticateToken, requirePermission('billing.manage'), async (req: AuthRequest, res) => {
+  try {
+    const result = await pool.query(`
+      SELECT r.id, r.subject, r.level, r.series_id, r.class_id, r.session_fee, r.monthly_fee,
+             r.created_at, r.updated_at,
+             cs.first_start_time as series_start_time, c.start_time as class_start_time
+      FROM "TuitionRate" r
+      LEFT JOIN "ClassSeries" cs ON r.series_id = cs.id
+      LEFT JOIN "Class" c ON r.class_id = c.id
+      WHERE r.active = TRUE
+      ORDER BY r.subject, r.level NULLS FIRST, r.series_id NULLS FIRST, r.class_id NULLS FIRST
+    `);
+
+    res.json(result.rows);
+  } catch (error) {
+    console.error('Tuition rates fetch error:', error);
+    res.status(500).json({ error: 'Failed to fetch tuition rates' });
+  }
+});
+
+// Create a tuition rate (admin only)
+router.post('/rates', authenticateToken, requirePermission('billing.manage'), validateTuitionRate, async (req: AuthRequest, res) => {
+  try {
+    const { sessionFee, monthlyFee } = req.body;
+    let { subject, level, seriesId, classId } = req.body;
+
+    // Series and class rates take their subject and level from the class itself
+    if (seriesId) {
+      const seriesCheck = await pool.query(
+        'SELECT subject, level FROM "ClassSeries" WHERE id = $1 AND active = TRUE',
+        [seriesId]
+      );
+      if (seriesCheck.rows.length === 0) {
+        res.status(404).json({ error: 'Class series not found' });
+        return;
+      }
+      subject = seriesCheck.rows[0].subject;
+      level = seriesCheck.rows[0].level;
+    } else if (classId) {
+      const classCheck = await pool.query(
+        'SELECT subject, level, series_id FROM "Class" WHERE id = $1 AND active = TRUE',
+        [classId]
+      );
+      if (classCheck.rows.length === 0) {
+        res.status(404).json({ error: 'Class not found' });
+        return;
+      }
+      if (classCheck.rows[0].series_id) {
+        res.status(400).json({ error: 'This class is part of a series. Set the rate on the class series instead' });
+        return;
+      }
+      subject = classCheck.rows[0].subject;
+      level = classCheck.rows[0].level;
+    } else {
+      seriesId = null;
+      classId = null;
+    }
+
+    const duplicateCheck = await pool.query(`
+      SELECT id FROM "TuitionRate"
+      WHERE active = TRUE
+        AND LOWER(subject) = LOWER($1)
+        AND COALESCE(level, '') = COALESCE($2, '')
+        AND series_id IS NOT DISTINCT FROM $3
+        AND class_id IS NOT DISTINCT FROM $4
+    `, [subject.trim(), level || null, seriesId || null, classId || null]);
+
+    if (duplicateCheck.rows.length > 0) {
+      res.status(409).json({ error: 'A rate already exists for this subject, level and class. Update it instead' });
+      return;
+    }
+
+    const result = await pool.query(`
+      INSERT INTO "TuitionRate" (subject, level, series_id, class_id, session_fee, monthly_fee, created_by)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING id, subject, level, series_id, class_id, session_fee, monthly_fee, created_at
+    `, [subject.trim(), level || null, seriesId || null, classId || null, sessionFee, monthlyFee ?? null, req.user!.userId]);
+
+    await recordAudit(req, { action: 'create', entityType: 'TuitionRate', entityId: result.rows[0].id, after: result.rows[0] });
+
+    res.status(201).json({
+      message: 'Tuition rate created successfully',
+      rate: result.rows[0]
+    });
+  } catch (error) {
+    console.error('Tuition rate creation error:', error);
+    res.status(500).json({ error: 'Failed to create tuition rate' });
+  }
+});
+
+// Update the fees of a tuition rate (admin only)
+router.put('/rates/:id', authenticateToken, requirePermission('billing.manage'), async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+    const { sessionFee, monthlyFee } = req.body ?? {};
+
+    if (!isValidUUID(id)) {
+      res.status(400).json({ error: 'Invalid tuition rate ID format' });
+      return;
+    }
+
+    if (typeof sessionFee !== 'number' || isNaN(sessionFee) || sessionFee < 0) {
+      res.status(400).json({ error: 'Session fee must be a number of 0 or more' });
+      return;
+    }
+
+    if (monthlyFee !== undefined && monthlyFee !== null && (typeof monthlyFee !== 'number' || isNaN(monthlyFee) || monthlyFee < 0)) {
+      res.status(400).json({ error: 'Monthly fee must be a number of 0 or more if provided' });
+      return;
+    }
+
+    const rateCheck = await pool.query(
+      'SELECT id, subject, level, series_id, class_id, session_fee, monthly_fee FROM "TuitionRate" WHERE id = $1 AND active = TRUE',
+      [id]
+    );
+
+    if (rateCheck.rows.length === 0) {
+      res.status(404).json({ error: 'Tuition rate not found' });
+      return;
+    }
+
+    // Issued invoices keep their own line amounts, so changing a rate only affects future invoices
+    const result = await pool.query(`
+      UPDATE "TuitionRate"
+      SET session_fee = $1, monthly_fee = $2, updated_at = NOW()
+      WHERE id = $3 AND active = TRUE
+      RETURNING id, subject, level, series_id, class_id, session_fee, monthly_fee, updated_at
+    `, [sessionFee, monthlyFee ?? null, id]);
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Tuition rate not found' });
+      return;
+    }
+
+    await recordAudit(req, { action: 'update', entityType: 'TuitionRate', entityId: id, before: rateCheck.rows[0], after: result.rows[0] });
+
+    res.json({
+      message: 'Tuition rate updated successfully',
+      rate: result.rows[0]
+    });
+  } catch (error) {
+    console.error('Tuition rate update error:', error);
+    res.status(500).json({ error: 'Failed to update tuition rate' });
+  }
+});
+
+// Remove a tuition rate (admin only)
+router.delete('/rates/:id', authenticateToken, requirePermission('billing.manage'), async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!isValidUUID(id)) {
+      res.status(400).json({ error: 'Invalid tuition rate ID format' });
+      return;
+    }
+
+    const result = await pool.query(`
+      UPDATE "TuitionRate"
+      SET active = FALSE, updated_at = NOW()
+      WHERE id = $1 AND active = TRUE
+      RETURNING id, subject, level, series_id, class_id, session_fee, monthly_fee
+    `, [id]);
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Tuition rate not found' });
+      return;
+    }
+
+    const rate = result.rows[0];
+    await recordAudit(req, { action: 'delete', entityType: 'TuitionRate', entityId: id, before: { ...rate, active: true }, after: { ...rate, active: false } });
+
+    res.json({ message: 'Tuition rate removed successfully' });
+  } catch (error) {
+    console.error('Tuition rate deletion error:', error);
+    res.status(500).json({ error: 'Failed to remove tuition rate' });
+  }
+});
+
+// Preview the invoices for a month without saving them (admin only)
+router.get('/preview', authenticateToken, requirePermission('billing.manage'), async (req: AuthRequest, res) => {
+  try {
+    const month = req.query.month as string;
+    const studentId = req.query.studentId as string | undefined;
+
+    if (!month || !isValidMonthString(month)) {
+      res.status(400).json({ error: 'A valid month (YYYY-MM) is required' });
+      return;
+    }
+
+    if (studentId && !isValidUUID(studentId)) {
+      res.status(400).json({ error: 'Invalid student ID format' });
+      return;
+    }
+
+    const drafts = await buildInvoiceDrafts(month, studentId ? [studentId] : null);
+
+    const existingResult = await pool.query(
+      `SELECT student_id, id, invoice_number FROM "Invoice" WHERE month = $1 AND status = 'issued'`,
+      [month]
+    );
+    const existingInvoices = new Map(existingResult.rows.map(row => [row.student_id, row]));
+
+    res.json({
+      month,
+      invoices: drafts.map(draft => ({
+        ...draft,
+        existing_invoice_id: existingInvoices.get(draft.student_id)?.id || null,
+        existing_invoice_number: existingInvoices.get(draft.student_id)?.invoice_number || null
+      })),
+      total: Math.round(drafts.reduce((sum, draft) => sum + draft.total, 0) * 100) / 100
+    });
+  } catch (error) {
+    console.error('Invoice preview error:', error);
+    res.status(500).json({ error: 'Failed to preview invoices' });
+  }
+});
+
+// Issue the invoices for a month, optionally for selected students only (admin only)
+router.post('/issue', authenticateToken, requirePermission('billing.manage'), async (req: AuthRequest, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { month, studentIds } = req.body ?? {};
+
+    if (!month || !isValidMonthString(month)) {
+      res.status(400).json({ error: 'A valid month (YYYY-MM) is required' });
+      return;
+    }
+
+    if (studentIds !== undefined && (!Array.isArray(studentIds) || studentIds.length === 0 || !studentIds.every(isValidUUID))) {
+      res.status(400).json({ error: 'Student IDs must be a non-empty list of valid IDs if provided' });
+      return;
+    }
+
+    await client.query('BEGIN');
+
+    // Serialize issuing for the same month so two admins cannot bill a student twice
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`invoice:${month}`]);
+
+    const drafts = await buildInvoiceDrafts(month, studentIds || null, client);
+    const { payment_terms_days: paymentTermsDays } = await getDunningSettings(client);
+
+    const issued = [];
+    const skipped = [];
+
+    for (const draft of drafts) {
+      if (draft.unpriced.length > 0) {
+        skipped.push({
+          student_id: draft.student_id,
+          student_name: draft.student_name,
+          reason: `No tuition rate for ${draft.unpriced.join(', ')}`
+        });
+        continue;
+      }
+
+      if (draft.line_items.length === 0) {
+        continue;
+      }
+
+      const existingInvoice = await client.query(
+        `SELECT invoice_number FROM "Invoice" WHERE student_id = $1 AND month = $2 AND status = 'issued'`,
+        [draft.student_id, month]
+      );
+
+      if (existingInvoice.rows.length > 0) {
+        skipped.push({
+          student_id: draft.student_id,
+          student_name: draft.student_name,
+          reason: `Already invoiced (${existingInvoice.rows[0].invoice_number})`
+        });
+        continue;
+      }
+
+      // The Payment row for the month stays the single record of what is owed (UNIQUE(student_id, month))
+      const existingPayment = await client.query(
+        'SELECT id, paid FROM "Payment" WHERE student_id = $1 AND month = $2 FOR UPDATE',
+        [draft.student_id, month]
+      );
+
+      if (existingPayment.rows.length > 0 && existingPayment.rows[0].paid) {
+        skipped.push({
+          student_id: draft.student_id,
+          student_name: draft.student_name,
+          reason: 'A payment for this month has already been recorded'
+        });
+        continue;
+      }
+
+      const invoiceResult = await client.query(`
+        INSERT INTO "Invoice" (invoice_number, student_id, parent_id, month, subtotal, discount_total, total, issued_by)
+        VALUES ('INV-' || REPLACE($1, '-', '') || '-' || LPAD(nextval('invoice_number_seq')::text, 5, '0'),
+                $2, $3, $1, $4, $5, $6, $7)
+        RETURNING id, invoice_number, student_id, month, status, subtotal, discount_total, total, issued_at
+      `, [month, draft.student_id, draft.parent_id, draft.subtotal, draft.discount_total, draft.total, req.user!.userId]);
+
+      const invoice = invoiceResult.rows[0];
+
+      for (const line of draft.line_items) {
+        await client.query(`
+          INSERT INTO "InvoiceLineItem" (invoice_id, line_type, description, class_id, series_id, sessions, unit_price, amount, prorated)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        `, [invoice.id, line.line_type, line.description, line.class_id, line.series_id, line.sessions, line.unit_price, line.amount, line.prorated]);
+      }
+
+      await client.query(`
+        INSERT INTO "Payment" (student_id, month, amount, paid, invoice_id, notes, due_date)
+        VALUES ($1, $2, $3, FALSE, $4, $5, CURRENT_DATE + $6::int)
+        ON CONFLICT (student_id, month) DO UPDATE
+        SET amount = EXCLUDED.amount, invoice_id = EXCLUDED.invoice_id, notes = EXCLUDED.notes,
+            due_date = EXCLUDED.due_date, updated_at = NOW()
+      `, [draft.student_id, month, draft.total, invoice.id, `Invoice ${invoice.invoice_number}`, paymentTermsDays]);
+
+      issued.push({ ...invoice, student_name: draft.student_name });
+    }
+
+    if (issued.length > 0) {
+      await recordAudit(req, {
+        action: 'issue',
+        entityType: 'Invoice',
+        after: { month, invoice_ids: issued.map(invoice => invoice.id), invoice_numbers: issued.map(invoice => invoice.invoice_number) }
+      }, client);
+    }
+
+    await client.query('COMMIT');
+
+    res.status(issued.length > 0 ? 201 : 200).json({
+      message: `${issued.length} invoice${issued.length === 1 ? '' : 's'} issued for ${month}`,
+      issued,
+      skipped
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Invoice issue error:', error);
+    res.status(500).json({ error: 'Failed to issue invoices' });
+  } finally {
+    client.release();
+  }
+});
+
+// Get invoices for students at your branches, filtered by month, status or student (staff and admin only)
+router.get('/', authenticateToken, requirePermission('payment.view_all'), async (req: AuthRequest, res) => {
+  try {
+    const month = req.query.month as string | undefined;
+    const status = req.query.status as string | undefined;
+    const studentId = req.query.studentId as string | undefined;
+
+    if (month && !isValidMonthString(month)) {
+      res.status(400).json({ error: 'Month must use the YYYY-MM format' });
+      return;
+    }
+
+    if (status && !['issued', 'void'].includes(status)) {
+      res.status(400).json({ error: 'Status must be issued or void' });
+      return;
+    }
+
+    if (studentId && !isValidUUID(studentId)) {
+      res.status(400).json({ error: 'Invalid student ID format' });
+      return;
+    }
+
+    const result = await pool.query(`
+      SELECT i.id, i.invoice_number, i.student_id, i.month, i.status, i.subtotal, i.discount_total, i.total,
+             i.issued_at, i.voided_at, i.void_reason,
+             CONCAT(s.first_name, ' ', s.last_name) as student_name,
+             CONCAT(u.first_name, ' ', u.last_name) as parent_name, i.parent_id,
+             COALESCE(t.amount_paid, 0) as amount_paid,
+             i.total - COALESCE(t.amount_paid, 0) as balance
+      FROM "Invoice" i
+      JOIN "Student" s ON i.student_id = s.id
+      LEFT JOIN "User" u ON i.parent_id = u.id
+      LEFT JOIN (
+        SELECT invoice_id,
+               SUM(CASE WHEN transaction_type = 'payment' THEN applied_amount ELSE -applied_amount END) as amount_paid
+        FROM "PaymentTransaction"
+        GROUP BY invoice_id
+      ) t ON t.invoice_id = i.id
+      WHERE ($1::text IS NULL OR i.month = $1)
+        AND ($2::text IS NULL OR i.status = $2)
+        AND ($3::uuid IS NULL OR i.student_id = $3)
+        AND ($4::uuid[] IS NULL OR s.home_branch_id = ANY($4::uuid[]))
+      ORDER BY i.month DESC, i.invoice_number DESC
+    `, [month || null, status || null, studentId || null, await getBranchScope(req)]);
+
+    res.json(result.rows);
+  } catch (error) {
+    console.error('Invoices fetch error:', error);
+    res.status(500).json({ error: 'Failed to fetch invoices' });
+  }
+});
+
+// Get a single invoice for a student at your branches, with its line items and payments (staff and admin only)
+router.get('/:id', authenticateToken, requirePermission('payment.view_all'), async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!isValidUUID(id)) {
+      res.status(400).json({ error: 'Invalid invoice ID format' });
+      return;
+    }
+
+    const invoiceResult = await pool.query(`
+      SELECT i.*,
+             CONCAT(s.first_name, ' ', s.last_name) as student_name,
+             CONCAT(u.first_name, ' ', u.last_name) as parent_name, u.email as parent_email,
+             s.home_branch_id
+      FROM "Invoice" i
+      JOIN "Student" s ON i.student_id = s.id
+      LEFT JOIN "User" u ON i.parent_id = u.id
+      WHERE i.id = $1
+    `, [id]);
+
+    if (invoiceResult.rows.length === 0 || !(await canAccessBranch(req, invoiceResult.rows[0].home_branch_id))) {
+      res.status(404).json({ error: 'Invoice not found' });
+      return;
+    }
+
+    const lineItemsResult = await pool.query(`
+      SELECT id, line_type, description, class_id, series_id, sessions, unit_price, amount, prorated
+      FROM "InvoiceLineItem"
+      WHERE invoice_id = $1
+      ORDER BY line_type DESC, created_at, description
+    `, [id]);
+
+    const transactionsResult = await pool.query(`
+      SELECT t.id, t.receipt_number, t.transaction_type, t.payment_method, t.amount, t.applied_amount,
+             t.credit_amount, t.refund_of, t.reference, t.notes, t.created_at,
+             b.name as branch_name,
+             CONCAT(u.first_name, ' ', u.last_name) as processed_by_name
+      FROM "PaymentTransaction" t
+      LEFT JOIN "Branch" b ON t.branch_id = b.id
+      LEFT JOIN "User" u ON t.processed_by = u.id
+      WHERE t.invoice_id = $1
+      ORDER BY t.created_at
+    `, [id]);
+
+    const amountPaid = await getInvoiceAmountPaid(id);
+
+    res.json({
+      ...invoiceResult.rows[0],
+      amount_paid: amountPaid,
+      balance: Math.round((parseFloat(invoiceResult.rows[0].total) - amountPaid) * 100) / 100,
+      line_items: lineItemsResult.rows,
+      transactions: transactionsResult.rows
+    });
+  } catch (error) {
+    console.error('Invoice fetch error:', error);
+    res.status(500).json({ error: 'Failed to fetch invoice' });
+  }
+});
+
+// Void an invoice with nothing paid so it can be corrected and reissued (admin only)
+router.post('/:id/void', authenticateToken, requirePermission('billing.manage'), async (req: AuthRequest, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { id } = req.params;
+    const reason = req.body?.reason;
+
+    if (!isValidUUID(id)) {
+      res.status(400).json({ error: 'Invalid invoice ID format' });
+      return;
+    }
+
+    if (!reason || typeof reason !== 'string' || reason.trim().length < 3) {
+      res.status(400).json({ error: 'A reason is required to void an invoice' });
+      return;
+    }
+
+    await client.query('BEGIN');
+
+    const invoiceCheck = await client.query(
+      'SELECT id, invoice_number, status FROM "Invoice" WHERE id = $1 FOR UPDATE',
+      [id]
+    );
+
+    if (invoiceCheck.rows.length === 0) {
+      await client.query('ROLLBACK');
+      res.status(404).json({ error: 'Invoice not found' });
+      return;
+    }
+
+    const invoice = invoiceCheck.rows[0];
+
+    if (invoice.status === 'void') {
+      await client.query('ROLLBACK');
+      res.status(400).json({ error: 'Invoice is already void' });
+      return;
+    }
+
+    // Money already taken has to be refunded before the invoice can go
+    const amountPaid = await getInvoiceAmountPaid(id, client);
+
+    if (amountPaid > 0) {
+      await client.query('ROLLBACK');
+      res.status(409).json({ error: 'This invoice has payments recorded against it. Refund them before voiding' });
+      return;
+    }
+
+    await client.query(`
+      UPDATE "Invoice"
+      SET status = 'void', voided_by = $1, voided_at = NOW(), void_reason = $2
+      WHERE id = $3
+    `, [req.user!.userId, reason.trim(), id]);
+
+    // Free the (student, month) payment slot so a corrected invoice can be issued
+    await client.query('DELETE FROM "Payment" WHERE invoice_id = $1 AND paid = FALSE', [id]);
+
+    await recordAudit(req, {
+      action: 'void',
+      entityType: 'Invoice',
+      entityId: id,
+      before: { invoice_number: invoice.invoice_number, status: invoice.status },
+      after: { invoice_number: invoice.invoice_number, status: 'void', void_reason: reason.trim() }
+    }, client);
+
+    await client.query('COMMIT');
+
+    res.json({ message: `Invoice ${invoice.invoice_number} voided successfully` });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Invoice void error:', error);
+    res.status(500).json({ error: 'Failed to void invoice' });
+  } finally {
+    client.release();
+  }
+});
+
+export default router;
@@ -0,0 +1,384 @@
+// backend/src/routes/kiosk.ts
+
+import express from 'express';
+import { pool } from '../index';
+import { authenticateToken, authenticateKiosk, requirePermission, AuthRequest } from '../middleware/auth';
+import { isValidUUID } from '../middleware/validation';
+import { CHECK_IN_PIN_LENGTH, getKioskSettings } from '../config/kiosk';
+import { recordAudit } from '../services/audit';
+import { getBranchScope, canAccessBranch } from '../services/branchAccess';
+import { isGuardianOf } from '../services/guardians';
+import { hasPermission } from '../services/permissions';
+import { createKioskDevice, issueCheckInCredentials } from '../services/kiosk';
+
+const router = express.Router();
+
+const MAX_DEVICE_NAME_LENGTH = 100;
+// Longest check-in code accepted from a scanner (issued codes are 16 characters)
+const MAX_CHECK_IN_CODE_LENGTH = 64;
+
+const DEVICE_COLUMNS = `
+  d.id, d.branch_id, b.name as branch_name, d.name, d.created_at, d.last_seen_at,
+  CONCAT(u.first_name, ' ', u.last_name) as created_by_name
+`;
+
+// An active student whose check-in code the caller may see: their guardian, the student themselves,
+// or staff who manage kiosks at the student's home branch. Returns the student, or null.
+const findCredentialStudent = async (req: AuthRequest, studentId: string) => {
+  const [isGuardian, isStudent, isKioskManager] = await Promise.all([
+    hasPermission(req, 'student.manage_own'),
+    hasPermission(req, 'student.view_self'),
+    hasPermission(req, 'kiosk.manage')
+  ]);
+
+  const result = await pool.query(`
+    SELECT s.id, s.first_name, s.last_name, s.home_branch_id
+    FROM "Student" s
+    WHERE s.id = $1 AND s.active = TRUE
+      AND (($3 AND ${isGuardianOf('s', '$2')}) OR ($4 AND s.user_id = $2) OR $5)
+  `, [studentId, req.user!.userId, isGuardian, isStudent, isKioskManager]);
+
+  const student = result.rows[0];
+
+  if (!student) {
+    return null;
+  }
+
+  // Staff only reach students of their own branches; guardians and the student are already matched above
+  if (!isGuardian && !isStudent && !(await canAccessBranch(req, student.home_branch_id))) {
+    return null;
+  }
+
+  return student;
+};
+
+// Get the check-in kiosks registered at your branches (staff only)
+router.get('/devices', authenticateToken, requirePermission('kiosk.manage'), async (req: AuthRequest, res) => {
+  try {
+    const branchScope = await getBranchScope(req);
+
+    const result = await pool.query(`
+      SELECT ${DEVICE_COLUMNS}
+      FROM "KioskDevice" d
+      JOIN "Branch" b ON d.branch_id = b.id
+      LEFT JOIN "User" u ON d.created_by = u.id
+      WHERE d.revoked_at IS NULL AND ($1::uuid[] IS NULL OR d.branch_id = ANY($1::uuid[]))
+      ORDER BY b.name, d.name
+    `, [branchScope]);
+
+    res.json(result.rows);
+  } catch (error) {
+    console.error('Get kiosk devices error:', error);
+    res.status(500).json({ error: 'Failed to fetch kiosks' });
+  }
+});
+
+// Register a check-in kiosk for a branch and get its device token, shown only this once (staff only)
+router.post('/devices', authenticateToken, requirePermission('kiosk.manage'), async (req: AuthRequest, res) => {
+  try {
+    const { branchId } = req.body;
+    const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+
+    if (typeof branchId !== 'string' || !isValidUUID(branchId)) {
+      res.status(400).json({ error: 'A valid branch is required' });
+      return;
+    }
+
+    if (!name || name.length > MAX_DEVICE_NAME_LENGTH) {
+      res.status(400).json({ error: `Kiosk name is required and must be at most ${MAX_DEVICE_NAME_LENGTH} characters` });
+      return;
+    }
+
+    const branchResult = await pool.query('SELECT name FROM "Branch" WHERE id = $1 AND active = TRUE', [branchId]);
+
+    if (branchResult.rows.length === 0) {
+      res.status(404).json({ error: 'Branch not found or inactive' });
+      return;
+    }
+
+    if (!(await canAccessBranch(req, branchId))) {
+      res.status(403).json({ error: 'You can only register kiosks at your own branches' });
+      return;
+    }
+
+    const { device, token } = await createKioskDevice({ branchId, name, createdBy: req.user!.userId });
+
+    await recordAudit(req, {
+      action: 'create',
+      entityType: 'KioskDevice',
+      entityId: device.id,
+      after: device
+    });
+
+    res.status(201).json({
+      message: `Kiosk "${name}" registered at ${branchResult.rows[0].name}`,
+      device: { ...device, branch_name: branchResult.rows[0].name },
+      token
+    });
+  } catch (error) {
+    console.error('Create kiosk device error:', error);
+    res.status(500).json({ error: 'Failed to register kiosk' });
+  }
+});
+
+// Revoke a kiosk, signing it out straight away (staff only)
+router.delete('/devices/:deviceId', authenticateToken, requirePermission('kiosk.manage'), async (req: AuthRequest, res) => {
+  try {
+    const { deviceId } = req.params;
+
+    if (!isValidUUID(deviceId)) {
+      res.status(400).json({ error: 'Invalid kiosk ID format' });
+      return;
+    }
+
+    const deviceResult = await pool.query(
+      'SELECT id, branch_id, name, created_at, last_seen_at FROM "KioskDevice" WHERE id = $1 AND revoked_at IS NULL',
+      [deviceId]
+    );
+
+    if (deviceResult.rows.length === 0) {
+      res.status(404).json({ error: 'Kiosk not found or already revoked' });
+      return;
+    }
+
+    const device = deviceResult.rows[0];
+
+    if (!(await canAccessBranch(req, device.branch_id))) {
+      res.status(403).json({ error: 'You can only revoke kiosks at your own branches' });
+      return;
+    }
+
+    const revokedResult = await pool.query(
+      'UPDATE "KioskDevice" SET revoked_at = NOW() WHERE id = $1 AND revoked_at IS NULL RETURNING revoked_at',
+      [deviceId]
+    );
+
+    await recordAudit(req, {
+      action: 'revoke',
+      entityType: 'KioskDevice',
+      entityId: deviceId,
+      before: device,
+      after: { ...device, revoked_at: revokedResult.rows[0]?.revoked_at ?? null }
+    });
+
+    res.json({ message: `Kiosk "${device.name}" revoked` });
+  } catch (error) {
+    console.error('Revoke kiosk device error:', error);
+    res.status(500).json({ error: 'Failed to revoke kiosk' });
+  }
+});
+
+// Get a student's check-in QR code and PIN, creating them the first time (guardians, the student, or staff)
+router.get('/students/:studentId/credentials', authenticateToken, requirePermission('student.manage_own', 'student.view_self', 'kiosk.manage'), async (req: AuthRequest, res) => {
+  try {
+    const { studentId } = req.params;
+
+    if (!isValidUUID(studentId)) {
+      res.status(400).json({ error: 'Invalid student ID format' });
+      return;
+    }
+
+    const student = await findCredentialStudent(req, studentId);
+
+    if (!student) {
+      res.status(404).json({ error: 'Student not found or access denied' });
+      return;
+    }
+
+    res.json(await issueCheckInCredentials(studentId, false));
+  } catch (error) {
+    console.error('Get check-in credentials error:', error);
+    res.status(500).json({ error: 'Failed to fetch check-in code' });
+  }
+});
+
+// Replace a student's check-in QR code and PIN, e.g. after a card is lost; the old ones stop working
+// (guardians, the student, or staff)
+router.post('/students/:studentId/credentials/reset', authenticateToken, requirePermission('student.manage_own', 'student.view_self', 'kiosk.manage'), async (req: AuthRequest, res) => {
+  try {
+    const { studentId } = req.params;
+
+    if (!isValidUUID(studentId)) {
+      res.status(400).json({ error: 'Invalid student ID format' });
+      return;
+    }
+
+    const student = await findCredentialStudent(req, studentId);
+
+    if (!student) {
+      res.status(404).json({ error: 'Student not found or access denied' });
+      return;
+    }
+
+    const credentials = await issueCheckInCredentials(studentId, true);
+
+    await recordAudit(req, {
+      action: 'reset_check_in_code',
+      entityType: 'Student',
+      entityId: studentId
+    });
+
+    res.json({
+      message: `New check-in code issued for ${student.first_name} ${student.last_name}`,
+      ...credentials
+    });
+  } catch (error) {
+    console.error('Reset check-in credentials error:', error);
+    res.status(500).json({ error: 'Failed to reset check-in code' });
+  }
+});
+
+// Get the kiosk's branch and today's classes there, with how many students have checked in (kiosk only)
+router.get('/device', authenticateKiosk, async (req: AuthRequest, res) => {
+  try {
+    const kiosk = req.kiosk!;
+
+    const classesResult = await pool.query(`
+      SELECT c.id, c.subject, c.level, c.start_time, c.end_time, cr.room_name,
+             COUNT(e.id)::int as enrolled_count,
+             COUNT(a.id) FILTER (WHERE a.status IN ('present', 'late'))::int as checked_in_count
+      FROM "Class" c
+      LEFT JOIN "Classroom" cr ON c.classroom_id = cr.id
+      LEFT JOIN "Enrollment" e ON e.class_id = c.id AND e.status = 'enrolled'
+      LEFT JOIN "Attendance" a ON a.enrollment_id = e.id
+      WHERE c.branch_id = $1 AND c.active = TRUE AND c.start_time::date = CURRENT_DATE
+      GROUP BY c.id, cr.room_name
+      ORDER BY c.start_time
+    `, [kiosk.branch_id]);
+
+    res.json({
+      device: kiosk,
+      settings: { ...getKioskSettings(), pin_length: CHECK_IN_PIN_LENGTH },
+      classes: classesResult.rows
+    });
+  } catch (error) {
+    console.error('Get kiosk session error:', error);
+    res.status(500).json({ error: 'Failed to load kiosk' });
+  }
+});
+
+// Check a student in with their QR code or PIN: they are marked present for the class they are enrolled
+// in at this branch that is open for check-in now, or late once the grace period has passed (kiosk only)
+router.post('/device/check-in', authenticateKiosk, async (req: AuthRequest, res) => {
+  const kiosk = req.kiosk!;
+  const { code, pin } = req.body;
+  const client = await pool.connect();
+
+  try {
+    const byCode = typeof code === 'string' && code.trim().length > 0 && code.trim().length <= MAX_CHECK_IN_CODE_LENGTH;
+    const byPin = typeof pin === 'string' && new RegExp(`^\\d{${CHECK_IN_PIN_LENGTH}}$`).test(pin);
+
+    if (!byCode && !byPin) {
+      res.status(400).json({ error: `Scan your QR code or enter your ${CHECK_IN_PIN_LENGTH}-digit PIN` });
+      return;
+    }
+
+    const { check_in_opens_minutes: opensMinutes, late_grace_minutes: graceMinutes } = getKioskSettings();
+
+    await client.query('BEGIN');
+
+    const studentResult = await client.query(
+      `SELECT id, first_name FROM "Student" WHERE active = TRUE AND ${byCode ? 'check_in_code' : 'check_in_pin'} = $1`,
+      [byCode ? code.trim() : pin]
+    );
+
+    if (studentResult.rows.length === 0) {
+      await client.query('ROLLBACK');
+      res.status(404).json({ error: 'Code not recognised. Please try again or ask at the front desk.' });
+      return;
+    }
+
+    const student = studentResult.rows[0];
+
+    // A class not checked in for yet comes first, so back-to-back classes can each be checked in for
+    const classResult = await client.query(`
+      SELECT e.id as enrollment_id, c.id as class_id, c.subject, c.start_time, c.start_time::date as date,
+             NOW() > c.start_time + make_interval(mins => $4) as is_late
+      FROM "Enrollment" e
+      JOIN "Class" c ON e.class_id = c.id
+      LEFT JOIN "Attendance" a ON a.enrollment_id = e.id
+      WHERE e.student_id = $1 AND e.status = 'enrolled' AND c.active = TRUE AND c.branch_id = $2
+        AND c.start_time - make_interval(mins => $3) <= NOW() AND c.end_time > NOW()
+      ORDER BY (a.id IS NOT NULL), c.start_time
+      LIMIT 1
+    `, [student.id, kiosk.branch_id, opensMinutes, graceMinutes]);
+
+    if (classResult.rows.length === 0) {
+      await client.query('ROLLBACK');
+      res.status(404).json({ error: `Sorry ${student.first_name}, you have no class to check in for here right now. Please ask at the front desk.` });
+      return;
+    }
+
+    const classInfo = classResult.rows[0];
+    const status = classInfo.is_late ? 'late' : 'present';
+
+    const attendanceResult = await client.query(`
+      INSERT INTO "Attendance" (student_id, class_id, enrollment_id, date, status)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (enrollment_id, date) DO NOTHING
+      RETURNING id, status, marked_at, version
+    `, [student.id, classInfo.class_id, classInfo.enrollment_id, classInfo.date, status]);
+
+    // The tutor (or an earlier scan) already took this student's attendance, which the kiosk never overrides
+    if (attendanceResult.rows.length === 0) {
+      const existing = await client.query(
+        'SELECT status FROM "Attendance" WHERE enrollment_id = $1 AND date = $2',
+        [classInfo.enrollment_id, classInfo.date]
+      );
+      await client.query('ROLLBACK');
+
+      const existingStatus = existing.rows[0]?.status;
+      res.json({
+        message: ['present', 'late'].includes(existingStatus)
+          ? `${student.first_name}, you're already checked in for ${classInfo.subject}`
+          : `${student.first_name}, you're marked ${existingStatus} for ${classInfo.subject}. Please see the front desk.`,
+        student_first_name: student.first_name,
+        subject: classInfo.subject,
+        start_time: classInfo.start_time,
+        status: existingStatus,
+        already_marked: true
+      });
+      return;
+    }
+
+    const attendance = attendanceResult.rows[0];
+
+    await client.query(`
+      INSERT INTO "AttendanceRevision" (attendance_id, version, status, changed_by_name)
+      VALUES ($1, $2, $3, $4)
+    `, [attendance.id, attendance.version, status, `Kiosk: ${kiosk.name}`]);
+
+    await recordAudit(req, {
+      action: 'check_in',
+      entityType: 'Attendance',
+      entityId: attendance.id,
+      after: {
+        student_id: student.id,
+        enrollment_id: classInfo.enrollment_id,
+        ...attendance,
+        kiosk_device_id: kiosk.id
+      }
+    }, client);
+
+    await client.query('COMMIT');
+
+    res.status(201).json({
+      message: status === 'late'
+        ? `Welcome, ${student.first_name}! You're checked in late for ${classInfo.subject}`
+        : `Welcome, ${student.first_name}! You're checked in for ${classInfo.subject}`,
+      student_first_name: student.first_name,
+      subject: classInfo.subject,
+      start_time: classInfo.start_time,
+      status,
+      already_marked: false
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Kiosk check-in error:', error);
+    res.status(500).json({ error: 'Failed to check in' });
+  } finally {
+    client.release();
+  }
+});
+
+export default router;
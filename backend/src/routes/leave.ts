@@ -0,0 +1,345 @@
+// backend/src/routes/leave.ts
+
+import express from 'express';
+import { pool } from '../index';
+import { authenticateToken, requirePermission, AuthRequest } from '../middleware/auth';
+import { isValidUUID, isValidDateString } from '../middleware/validation';
+import { recordAudit } from '../services/audit';
+import { getBranchScope, canManageStaffMember } from '../services/branchAccess';
+import { notifyUsers } from '../services/notifications';
+import { formatLeaveDates, getLeaveClasses, getLeaveManagerIds } from '../services/staffLeave';
+
+const router = express.Router();
+
+const MAX_REASON_LENGTH = 500;
+const MAX_REVIEW_NOTE_LENGTH = 500;
+const LEAVE_STATUSES = ['pending', 'approved', 'rejected', 'cancelled'];
+
+const LEAVE_COLUMNS = `
+  l.id, l.staff_id, CONCAT(s.first_name, ' ', s.last_name) as staff_name, l.start_date, l.end_date, l.reason,
+  l.status, l.reviewed_by, r.first_name || ' ' || r.last_name as reviewed_by_name, l.reviewed_at, l.review_note,
+  l.created_at, l.updated_at
+`;
+
+// Get your own leave requests, latest first (staff only)
+router.get('/mine', authenticateToken, requirePermission('leave.request'), async (req: AuthRequest, res) => {
+  try {
+    const result = await pool.query(`
+      SELECT ${LEAVE_COLUMNS}
+      FROM "StaffLeave" l
+      JOIN "User" s ON l.staff_id = s.id
+      LEFT JOIN "User" r ON l.reviewed_by = r.id
+      WHERE l.staff_id = $1
+      ORDER BY l.start_date DESC
+    `, [req.user!.userId]);
+
+    res.json(result.rows);
+  } catch (error) {
+    console.error('Get own leave error:', error);
+    res.status(500).json({ error: 'Failed to fetch leave requests' });
+  }
+});
+
+// Ask for leave from teaching over a range of days (staff only)
+router.post('/', authenticateToken, requirePermission('leave.request'), async (req: AuthRequest, res) => {
+  try {
+    const { startDate, endDate } = req.body;
+    const reason = typeof req.body.reason === 'string' ? req.body.reason.trim() : '';
+    const staffId = req.user!.userId;
+
+    if (!isValidDateString(startDate) || !isValidDateString(endDate)) {
+      res.status(400).json({ error: 'Valid start and end dates (YYYY-MM-DD) are required' });
+      return;
+    }
+
+    if (endDate < startDate) {
+      res.status(400).json({ error: 'Leave cannot end before it starts' });
+      return;
+    }
+
+    if (startDate < new Date().toLocaleDateString('en-CA')) {
+      res.status(400).json({ error: 'Leave cannot start in the past' });
+      return;
+    }
+
+    if (!reason || reason.length > MAX_REASON_LENGTH) {
+      res.status(400).json({ error: `A reason is required and must be at most ${MAX_REASON_LENGTH} characters` });
+      return;
+    }
+
+    const overlapResult = await pool.query(`
+      SELECT id FROM "StaffLeave"
+      WHERE staff_id = $1 AND status IN ('pending', 'approved')
+        AND start_date <= $3::date AND end_date >= $2::date
+      LIMIT 1
+    `, [staffId, startDate, endDate]);
+
+    if (overlapResult.rows.length > 0) {
+      res.status(409).json({ error: 'You already have leave requested for some of these days' });
+      return;
+    }
+
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(`
+        INSERT INTO "StaffLeave" (staff_id, start_date, end_date, reason)
+        VALUES ($1, $2, $3, $4)
+        RETURNING *
+      `, [staffId, startDate, endDate, reason]);
+
+      const leave = result.rows[0];
+
+      await recordAudit(req, {
+        action: 'create',
+        entityType: 'StaffLeave',
+        entityId: leave.id,
+        after: leave
+      }, client);
+
+      const [staffResult, classes, managerIds] = await Promise.all([
+        client.query('SELECT first_name, last_name FROM "User" WHERE id = $1', [staffId]),
+        getLeaveClasses(staffId, startDate, endDate, client),
+        getLeaveManagerIds(staffId, client)
+      ]);
+
+      const staff = staffResult.rows[0];
+
+      await notifyUsers(managerIds, 'leave_requested', {
+        staffName: `${staff.first_name} ${staff.last_name}`,
+        dates: formatLeaveDates(startDate, endDate),
+        classCount: classes.length === 1 ? '1 class' : `${classes.length} classes`,
+        reason
+      }, client);
+
+      await client.query('COMMIT');
+
+      res.status(201).json({
+        message: `Leave requested ${formatLeaveDates(startDate, endDate)}`,
+        leave
+      });
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  } catch (error) {
+    console.error('Request leave error:', error);
+    res.status(500).json({ error: 'Failed to request leave' });
+  }
+});
+
+// Withdraw your own leave request, before it is answered or, once approved, before it starts (staff only)
+router.delete('/:leaveId', authenticateToken, requirePermission('leave.request'), async (req: AuthRequest, res) => {
+  try {
+    const { leaveId } = req.params;
+
+    if (!isValidUUID(leaveId)) {
+      res.status(400).json({ error: 'Invalid leave ID format' });
+      return;
+    }
+
+    const leaveResult = await pool.query(
+      'SELECT * FROM "StaffLeave" WHERE id = $1 AND staff_id = $2',
+      [leaveId, req.user!.userId]
+    );
+
+    const leave = leaveResult.rows[0];
+
+    if (!leave) {
+      res.status(404).json({ error: 'Leave request not found' });
+      return;
+    }
+
+    if (leave.status !== 'pending' && leave.status !== 'approved') {
+      res.status(400).json({ error: `This leave request is already ${leave.status}` });
+      return;
+    }
+
+    if (leave.status === 'approved' && new Date(leave.start_date) <= new Date()) {
+      res.status(400).json({ error: 'Leave that has already started cannot be withdrawn; ask an admin to change it' });
+      return;
+    }
+
+    const result = await pool.query(`
+      UPDATE "StaffLeave" SET status = 'cancelled', updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1
+      RETURNING *
+    `, [leaveId]);
+
+    await recordAudit(req, {
+      action: 'cancel',
+      entityType: 'StaffLeave',
+      entityId: leaveId,
+      before: leave,
+      after: result.rows[0]
+    });
+
+    res.json({ message: 'Leave request withdrawn' });
+  } catch (error) {
+    console.error('Cancel leave error:', error);
+    res.status(500).json({ error: 'Failed to withdraw leave request' });
+  }
+});
+
+// Get leave requests from staff at your branches, optionally by status (admin only)
+router.get('/', authenticateToken, requirePermission('leave.manage'), async (req: AuthRequest, res) => {
+  try {
+    const status = req.query.status as string | undefined;
+
+    if (status && !LEAVE_STATUSES.includes(status)) {
+      res.status(400).json({ error: `Status must be one of: ${LEAVE_STATUSES.join(', ')}` });
+      return;
+    }
+
+    const branchScope = await getBranchScope(req);
+
+    const result = await pool.query(`
+      SELECT ${LEAVE_COLUMNS},
+             (SELECT COUNT(*) FROM "Class" c
+              WHERE (c.tutor_id = l.staff_id OR c.substitute_tutor_id = l.staff_id) AND c.active = TRUE
+                AND c.start_time::date BETWEEN l.start_date AND l.end_date)::int as class_count,
+             (SELECT COUNT(*) FROM "Class" c
+              WHERE ((c.tutor_id = l.staff_id AND c.substitute_tutor_id IS NULL) OR c.substitute_tutor_id = l.staff_id)
+                AND c.active = TRUE
+                AND c.start_time::date BETWEEN l.start_date AND l.end_date)::int as uncovered_count
+      FROM "StaffLeave" l
+      JOIN "User" s ON l.staff_id = s.id
+      LEFT JOIN "User" r ON l.reviewed_by = r.id
+      WHERE ($1::text IS NULL OR l.status = $1)
+        AND ($2::uuid[] IS NULL OR EXISTS (
+          SELECT 1 FROM "StaffBranch" sb WHERE sb.user_id = l.staff_id AND sb.branch_id = ANY($2::uuid[])
+        ))
+      ORDER BY l.start_date, s.first_name, s.last_name
+    `, [status || null, branchScope]);
+
+    res.json(result.rows);
+  } catch (error) {
+    console.error('Get leave requests error:', error);
+    res.status(500).json({ error: 'Failed to fetch leave requests' });
+  }
+});
+
+// Approve or reject a pending leave request (admin only)
+router.put('/:leaveId/review', authenticateToken, requirePermission('leave.manage'), async (req: AuthRequest, res) => {
+  try {
+    const { leaveId } = req.params;
+    const { decision } = req.body;
+    const note = typeof req.body.note === 'string' ? req.body.note.trim() : '';
+
+    if (!isValidUUID(leaveId)) {
+      res.status(400).json({ error: 'Invalid leave ID format' });
+      return;
+    }
+
+    if (decision !== 'approved' && decision !== 'rejected') {
+      res.status(400).json({ error: 'Decision must be approved or rejected' });
+      return;
+    }
+
+    if (note.length > MAX_REVIEW_NOTE_LENGTH) {
+      res.status(400).json({ error: `Note must be at most ${MAX_REVIEW_NOTE_LENGTH} characters` });
+      return;
+    }
+
+    const leaveResult = await pool.query('SELECT * FROM "StaffLeave" WHERE id = $1', [leaveId]);
+    const leave = leaveResult.rows[0];
+
+    if (!leave || !(await canManageStaffMember(req, leave.staff_id))) {
+      res.status(404).json({ error: 'Leave request not found' });
+      return;
+    }
+
+    if (leave.staff_id === req.user!.userId) {
+      res.status(403).json({ error: 'Another admin must answer your own leave request' });
+      return;
+    }
+
+    if (leave.status !== 'pending') {
+      res.status(400).json({ error: `This leave request is already ${leave.status}` });
+      return;
+    }
+
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(`
+        UPDATE "StaffLeave"
+        SET status = $2, reviewed_by = $3, reviewed_at = CURRENT_TIMESTAMP, review_note = $4, updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1 AND status = 'pending'
+        RETURNING *
+      `, [leaveId, decision, req.user!.userId, note || null]);
+
+      if (result.rows.length === 0) {
+        await client.query('ROLLBACK');
+        res.status(409).json({ error: 'This leave request was answered by someone else' });
+        return;
+      }
+
+      await recordAudit(req, {
+        action: decision === 'approved' ? 'approve' : 'reject',
+        entityType: 'StaffLeave',
+        entityId: leaveId,
+        before: leave,
+        after: result.rows[0]
+      }, client);
+
+      const reviewerResult = await client.query('SELECT first_name, last_name FROM "User" WHERE id = $1', [req.user!.userId]);
+      const reviewer = reviewerResult.rows[0];
+
+      await notifyUsers([leave.staff_id], 'leave_reviewed', {
+        dates: formatLeaveDates(leave.start_date, leave.end_date),
+        decision,
+        reviewerName: `${reviewer.first_name} ${reviewer.last_name}`,
+        note: note ? ` Note: ${note}` : ''
+      }, client);
+
+      await client.query('COMMIT');
+
+      res.json({
+        message: `Leave ${decision}`,
+        leave: result.rows[0]
+      });
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  } catch (error) {
+    console.error('Review leave error:', error);
+    res.status(500).json({ error: 'Failed to answer leave request' });
+  }
+});
+
+// Get the classes a staff member teaches or covers during their leave, and who is covering each (admin only)
+router.get('/:leaveId/classes', authenticateToken, requirePermission('leave.manage'), async (req: AuthRequest, res) => {
+  try {
+    const { leaveId } = req.params;
+
+    if (!isValidUUID(leaveId)) {
+      res.status(400).json({ error: 'Invalid leave ID format' });
+      return;
+    }
+
+    const leaveResult = await pool.query('SELECT staff_id, start_date, end_date FROM "StaffLeave" WHERE id = $1', [leaveId]);
+    const leave = leaveResult.rows[0];
+
+    if (!leave || !(await canManageStaffMember(req, leave.staff_id))) {
+      res.status(404).json({ error: 'Leave request not found' });
+      return;
+    }
+
+    res.json(await getLeaveClasses(leave.staff_id, leave.start_date, leave.end_date));
+  } catch (error) {
+    console.error('Get leave classes error:', error);
+    res.status(500).json({ error: 'Failed to fetch classes during leave' });
+  }
+});
+
+export default router;
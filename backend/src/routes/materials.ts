@@ -0,0 +1,142 @@
+// backend/src/routes/materials.ts
+
+import express from 'express';
+import { pool } from '../index';
+import { authenticateToken, requirePermission, AuthRequest } from '../middleware/auth';
+import { isValidUUID, validateClassMaterial } from '../middleware/validation';
+import { recordAudit } from '../services/audit';
+import { hasPermission } from '../services/permissions';
+import { canAccessBranch } from '../services/branchAccess';
+
+const router = express.Router();
+
+const MATERIAL_COLUMNS = `
+  m.id, m.class_id, m.series_id, m.title, m.url, m.description, m.created_at,
+  CONCAT(u.first_name, ' ', u.last_name) as created_by_name
+`;
+
+// Load a class whose materials the caller may manage: their own class with class.edit, any class with
+// class.edit_any, and in both cases only at their branches. Returns null otherwise.
+const getManagedClass = async (req: AuthRequest, classId: string) => {
+  const result = await pool.query(
+    'SELECT id, subject, series_id, tutor_id, branch_id FROM "Class" WHERE id = $1 AND active = TRUE',
+    [classId]
+  );
+
+  const classItem = result.rows[0];
+  if (!classItem || !(await canAccessBranch(req, classItem.branch_id))) {
+    return null;
+  }
+
+  const canManage = (await hasPermission(req, 'class.edit_any'))
+    || (classItem.tutor_id === req.user!.userId && (await hasPermission(req, 'class.edit')));
+
+  return canManage ? classItem : null;
+};
+
+// Get the materials shared with a class, including those shared with its whole series (tutors of the class and class managers)
+router.get('/class/:classId', authenticateToken, requirePermission('class.edit', 'class.edit_any'), async (req: AuthRequest, res) => {
+  try {
+    const { classId } = req.params;
+
+    if (!isValidUUID(classId)) {
+      res.status(400).json({ error: 'Invalid class ID format' });
+      return;
+    }
+
+    const classItem = await getManagedClass(req, classId);
+    if (!classItem) {
+      res.status(404).json({ error: 'Class not found or access denied' });
+      return;
+    }
+
+    const result = await pool.query(`
+      SELECT ${MATERIAL_COLUMNS}
+      FROM "ClassMaterial" m
+      LEFT JOIN "User" u ON m.created_by = u.id
+      WHERE m.class_id = $1 OR (m.series_id IS NOT NULL AND m.series_id = $2)
+      ORDER BY m.created_at DESC
+    `, [classId, classItem.series_id]);
+
+    res.json(result.rows);
+  } catch (error) {
+    console.error('Get class materials error:', error);
+    res.status(500).json({ error: 'Failed to fetch class materials' });
+  }
+});
+
+// Share a material with a class, or with every session of its series (tutors of the class and class managers)
+router.post('/class/:classId', authenticateToken, requirePermission('class.edit', 'class.edit_any'), validateClassMaterial, async (req: AuthRequest, res) => {
+  try {
+    const { classId } = req.params;
+    const { title, url, description, wholeSeries } = req.body;
+
+    if (!isValidUUID(classId)) {
+      res.status(400).json({ error: 'Invalid class ID format' });
+      return;
+    }
+
+    const classItem = await getManagedClass(req, classId);
+    if (!classItem) {
+      res.status(404).json({ error: 'Class not found or access denied' });
+      return;
+    }
+
+    if (wholeSeries && !classItem.series_id) {
+      res.status(400).json({ error: 'This class is not part of a recurring series' });
+      return;
+    }
+
+    const result = await pool.query(`
+      INSERT INTO "ClassMaterial" (class_id, series_id, title, url, description, created_by)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING id, class_id, series_id, title, url, description, created_at
+    `, [classId, wholeSeries ? classItem.series_id : null, title.trim(), url.trim(), description?.trim() || null, req.user!.userId]);
+
+    const material = result.rows[0];
+
+    await recordAudit(req, { action: 'create', entityType: 'ClassMaterial', entityId: material.id, after: material });
+
+    res.status(201).json({
+      message: 'Material shared successfully',
+      material
+    });
+  } catch (error) {
+    console.error('Create class material error:', error);
+    res.status(500).json({ error: 'Failed to share material' });
+  }
+});
+
+// Remove a shared material (tutors of the class and class managers)
+router.delete('/:id', authenticateToken, requirePermission('class.edit', 'class.edit_any'), async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!isValidUUID(id)) {
+      res.status(400).json({ error: 'Invalid material ID format' });
+      return;
+    }
+
+    const materialResult = await pool.query(
+      'SELECT id, class_id, series_id, title, url, description, created_at FROM "ClassMaterial" WHERE id = $1',
+      [id]
+    );
+
+    const material = materialResult.rows[0];
+    if (!material || !(await getManagedClass(req, material.class_id))) {
+      res.status(404).json({ error: 'Material not found or access denied' });
+      return;
+    }
+
+    await pool.query('DELETE FROM "ClassMaterial" WHERE id = $1', [id]);
+
+    await recordAudit(req, { action: 'delete', entityType: 'ClassMaterial', entityId: id, before: material });
+
+    res.json({ message: `${material.title} removed` });
+  } catch (error) {
+    console.error('Delete class material error:', error);
+    res.status(500).json({ error: 'Failed to remove material' });
+  }
+});
+
+export default router;
@@ -0,0 +1,173 @@
+// backend/src/routes/notifications.ts
+
+import express from 'express';
+import { pool } from '../index';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { isValidUUID, validateNotificationPreferences } from '../middleware/validation';
+import { recordAudit } from '../services/audit';
+import { resolveChannels } from '../services/notifications';
+import { NOTIFICATION_TEMPLATES, NOTIFICATION_TYPES, NOTIFICATION_CHANNELS } from '../config/notifications';
+
+const router = express.Router();
+
+const countUnread = async (userId: string): Promise<number> => {
+  const result = await pool.query(
+    'SELECT COUNT(*) FROM "Notification" WHERE user_id = $1 AND in_app = TRUE AND read_at IS NULL',
+    [userId]
+  );
+  return parseInt(result.rows[0].count);
+};
+
+// Get the signed-in user's inbox, newest first; ?unread=true for unread ones only (any signed-in user)
+router.get('/', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+    const unreadOnly = req.query.unread === 'true';
+
+    const result = await pool.query(`
+      SELECT id, type, title, body, data, read_at, created_at
+      FROM "Notification"
+      WHERE user_id = $1 AND in_app = TRUE ${unreadOnly ? 'AND read_at IS NULL' : ''}
+      ORDER BY created_at DESC
+      LIMIT $2 OFFSET $3
+    `, [req.user!.userId, limit, offset]);
+
+    res.json({
+      notifications: result.rows,
+      unread_count: await countUnread(req.user!.userId)
+    });
+  } catch (error) {
+    console.error('Get notifications error:', error);
+    res.status(500).json({ error: 'Failed to fetch notifications' });
+  }
+});
+
+// Get the number of unread notifications, for the badge in the navigation (any signed-in user)
+router.get('/unread-count', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    res.json({ unread_count: await countUnread(req.user!.userId) });
+  } catch (error) {
+    console.error('Get unread notification count error:', error);
+    res.status(500).json({ error: 'Failed to fetch unread notifications' });
+  }
+});
+
+// Mark one of the signed-in user's notifications as read (any signed-in user)
+router.put('/:id/read', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!isValidUUID(id)) {
+      res.status(400).json({ error: 'Invalid notification ID format' });
+      return;
+    }
+
+    const result = await pool.query(`
+      UPDATE "Notification"
+      SET read_at = COALESCE(read_at, CURRENT_TIMESTAMP)
+      WHERE id = $1 AND user_id = $2 AND in_app = TRUE
+      RETURNING id, type, title, body, data, read_at, created_at
+    `, [id, req.user!.userId]);
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Notification not found' });
+      return;
+    }
+
+    res.json(result.rows[0]);
+  } catch (error) {
+    console.error('Mark notification read error:', error);
+    res.status(500).json({ error: 'Failed to update notification' });
+  }
+});
+
+// Mark all of the signed-in user's notifications as read (any signed-in user)
+router.post('/read-all', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const result = await pool.query(
+      'UPDATE "Notification" SET read_at = CURRENT_TIMESTAMP WHERE user_id = $1 AND in_app = TRUE AND read_at IS NULL',
+      [req.user!.userId]
+    );
+
+    res.json({ message: 'All notifications marked as read', updated: result.rowCount });
+  } catch (error) {
+    console.error('Mark all notifications read error:', error);
+    res.status(500).json({ error: 'Failed to update notifications' });
+  }
+});
+
+// Get the signed-in user's channel choices for each notification they can receive (any signed-in user)
+router.get('/preferences', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const [userResult, preferenceResult] = await Promise.all([
+      pool.query('SELECT phone FROM "User" WHERE id = $1', [req.user!.userId]),
+      pool.query('SELECT type, channel, enabled FROM "NotificationPreference" WHERE user_id = $1', [req.user!.userId])
+    ]);
+
+    const saved: Record<string, Record<string, boolean>> = {};
+    for (const row of preferenceResult.rows) {
+      saved[row.type] = { ...saved[row.type], [row.channel]: row.enabled };
+    }
+
+    const types = NOTIFICATION_TYPES
+      .filter(type => NOTIFICATION_TEMPLATES[type].accountTypes.includes(req.user!.role))
+      .map(type => {
+        const enabled = resolveChannels(type, saved[type] ?? {});
+        return {
+          type,
+          label: NOTIFICATION_TEMPLATES[type].label,
+          channels: Object.fromEntries(NOTIFICATION_CHANNELS.map(channel => [channel, enabled.includes(channel)]))
+        };
+      });
+
+    res.json({
+      channels: NOTIFICATION_CHANNELS,
+      // Text messages are only sent once there is a phone number on the profile
+      sms_available: Boolean(userResult.rows[0]?.phone),
+      types
+    });
+  } catch (error) {
+    console.error('Get notification preferences error:', error);
+    res.status(500).json({ error: 'Failed to fetch notification preferences' });
+  }
+});
+
+// Update the signed-in user's channel choices (any signed-in user)
+router.put('/preferences', authenticateToken, validateNotificationPreferences, async (req: AuthRequest, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { preferences } = req.body;
+
+    await client.query('BEGIN');
+
+    for (const preference of preferences) {
+      await client.query(`
+        INSERT INTO "NotificationPreference" (user_id, type, channel, enabled)
+        VALUES ($1, $2, $3, $4)
+        ON CONFLICT (user_id, type, channel)
+        DO UPDATE SET enabled = EXCLUDED.enabled, updated_at = CURRENT_TIMESTAMP
+      `, [req.user!.userId, preference.type, preference.channel, preference.enabled]);
+    }
+
+    await recordAudit(req, {
+      action: 'notification.preferences_update',
+      entityType: 'User',
+      entityId: req.user!.userId,
+      after: { preferences }
+    }, client);
+
+    await client.query('COMMIT');
+
+    res.json({ message: 'Notification preferences saved' });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Update notification preferences error:', error);
+    res.status(500).json({ error: 'Failed to save notification preferences' });
+  } finally {
+    client.release();
+  }
+});
+
+export default router;
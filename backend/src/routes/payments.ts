@@ -1,20 +1,101 @@
 // backend/src/routes/payments.ts
 
 import express from 'express';
+import crypto from 'crypto';
 import { pool } from '../index';
-import { authenticateToken, requireRole, AuthRequest } from '../middleware/auth';
+import { authenticateToken, requirePermission, AuthRequest } from '../middleware/auth';
+import { isValidDateString, isValidUUID } from '../middleware/validation';
+import { getCreditBalance, getInvoiceAmountPaid, recordInvoicePayment, syncInvoicePayment } from '../services/billing';
+import { renderReceiptPdf, renderStatementPdf, BranchDetails } from '../services/pdf';
+import { getActivePaymentProvider, getPaymentProvider, handleWebhookEvent, signMockWebhook } from '../services/paymentGateway';
+import { getGuardianLink, isGuardianOf } from '../services/guardians';
+import { getBranchScope, canAccessBranch, canAccessFamily } from '../services/branchAccess';
+import { hasPermission } from '../services/permissions';
 
 const router = express.Router();
 
+const PAYMENT_METHODS = ['cash', 'card', 'bank_transfer', 'cheque', 'credit'];
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+const isValidAmount = (amount: any): boolean =>
+  typeof amount === 'number' && !isNaN(amount) && amount > 0 && Math.abs(Math.round(amount * 100) - amount * 100) < 1e-6;
+
+const getFrontendUrl = (): string => process.env.FRONTEND_URL || 'http://localhost:5173';
+
+// Load a student with the parent (the primary guardian, who holds the account) and home branch details printed
+// on documents. Returns null when the student does not exist, or the caller may not see the child's payments:
+// staff who see all payments only for students at their branches, others only as a guardian allowed to.
+const getStudentForDocument = async (studentId: string, req: AuthRequest) => {
+  const result = await pool.query(`
+    SELECT s.id, s.parent_id, s.home_branch_id,
+           CONCAT(s.first_name, ' ', s.last_name) as student_name,
+           CONCAT(u.first_name, ' ', u.last_name) as parent_name,
+           b.name as branch_name, b.address as branch_address, b.phone as branch_phone
+    FROM "Student" s
+    JOIN "User" u ON s.parent_id = u.id
+    LEFT JOIN "Branch" b ON s.home_branch_id = b.id
+    WHERE s.id = $1
+  `, [studentId]);
+
+  const student = result.rows[0];
+  if (!student) {
+    return null;
+  }
+
+  if (await hasPermission(req, 'payment.view_all')) {
+    if (!(await canAccessBranch(req, student.home_branch_id))) {
+      return null;
+    }
+  } else {
+    const link = await getGuardianLink(studentId, req.user!.userId);
+    if (!link?.can_view_payments) {
+      return null;
+    }
+  }
+
+  const branch: BranchDetails = {
+    name: student.branch_name || 'Tuition Center',
+    address: student.branch_address,
+    phone: student.branch_phone
+  };
+
+  return { ...student, branch };
+};
+
+// Receipts and refunds taken against the invoices of the given Payment rows, grouped by invoice
+const getTransactionsByInvoice = async (invoiceIds: string[]) => {
+  const transactionsByInvoice = new Map<string, any[]>();
+  if (invoiceIds.length === 0) {
+    return transactionsByInvoice;
+  }
+
+  const result = await pool.query(`
+    SELECT invoice_id, receipt_number, transaction_type, payment_method, amount, created_at
+    FROM "PaymentTransaction"
+    WHERE invoice_id = ANY($1::uuid[])
+    ORDER BY created_at
+  `, [invoiceIds]);
+
+  for (const row of result.rows) {
+    if (!transactionsByInvoice.has(row.invoice_id)) {
+      transactionsByInvoice.set(row.invoice_id, []);
+    }
+    transactionsByInvoice.get(row.invoice_id)!.push(row);
+  }
+
+  return transactionsByInvoice;
+};
+
 // Get payment history for my students (parents only)
-router.get('/my-students', authenticateToken, requireRole('parent'), async (req: AuthRequest, res) => {
+router.get('/my-students', authenticateToken, requirePermission('payment.view_own'), async (req: AuthRequest, res) => {
   try {
     const result = await pool.query(`
-      SELECT p.id, p.month, p.amount, p.paid, p.payment_date, p.payment_method,
+      SELECT p.id, p.student_id, p.month, p.amount, p.paid, p.payment_date, p.payment_method, p.invoice_id,
              CONCAT(s.first_name, ' ', s.last_name) as student_name
       FROM "Payment" p
       JOIN "Student" s ON p.student_id = s.id
-      WHERE s.parent_id = $1
+      WHERE ${isGuardianOf('s', '$1', 'can_view_payments')}
       ORDER BY p.month DESC, s.first_name, s.last_name
     `, [req.user!.userId]);
 
@@ -25,14 +106,16 @@ router.get('/my-students', authenticateToken, requireRole('parent'), async (req:
   }
 });
 
-// Get payment history for a specific student (parents only)
-router.get('/:student_id/history', authenticateToken, requireRole('parent'), async (req: AuthRequest, res) => {
+// Get the full payment statement for a specific student, one page at a time (parents only)
+router.get('/:student_id/history', authenticateToken, requirePermission('payment.view_own'), async (req: AuthRequest, res) => {
   try {
     const { student_id } = req.params;
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 12, 1), 100);
 
-    // Verify student belongs to this parent
+    // Verify this parent is a guardian who may see the student's payments
     const studentCheck = await pool.query(
-      'SELECT id FROM "Student" WHERE id = $1 AND parent_id = $2',
+      `SELECT s.id FROM "Student" s WHERE s.id = $1 AND ${isGuardianOf('s', '$2', 'can_view_payments')}`,
       [student_id, req.user!.userId]
     );
 
@@ -41,19 +124,737 @@ router.get('/:student_id/history', authenticateToken, requireRole('parent'), asy
       return;
     }
 
-    const result = await pool.query(`
-      SELECT id, month, amount, paid, payment_date, payment_method, notes
-      FROM "Payment"
-      WHERE student_id = $1
-      ORDER BY month DESC
-      LIMIT 3
-    `, [student_id]);
+    const [result, countResult] = await Promise.all([
+      pool.query(`
+        SELECT p.id, p.student_id, p.month, p.amount, p.paid, p.payment_date, p.payment_method, p.notes,
+               p.invoice_id, i.invoice_number
+        FROM "Payment" p
+        LEFT JOIN "Invoice" i ON p.invoice_id = i.id
+        WHERE p.student_id = $1
+        ORDER BY p.month DESC
+        LIMIT $2 OFFSET $3
+      `, [student_id, limit, (page - 1) * limit]),
+      pool.query('SELECT COUNT(*) as total FROM "Payment" WHERE student_id = $1', [student_id])
+    ]);
 
-    res.json(result.rows);
+    const total = parseInt(countResult.rows[0].total);
+
+    res.json({
+      payments: result.rows,
+      pagination: {
+        page,
+        limit,
+        total,
+        total_pages: Math.max(Math.ceil(total / limit), 1)
+      }
+    });
   } catch (error) {
     console.error('Payment history fetch error:', error);
     res.status(500).json({ error: 'Failed to fetch payment history' });
   }
 });
 
+// Download the PDF receipt for a month's payment (parents for their own children, staff and admin)
+router.get('/:paymentId/receipt', authenticateToken, requirePermission('payment.view_own', 'payment.view_all'), async (req: AuthRequest, res) => {
+  try {
+    const { paymentId } = req.params;
+
+    if (!isValidUUID(paymentId)) {
+      res.status(400).json({ error: 'Invalid payment ID format' });
+      return;
+    }
+
+    const paymentResult = await pool.query(`
+      SELECT p.id, p.student_id, p.month, p.amount, p.paid, p.payment_date, p.payment_method, p.invoice_id,
+             i.invoice_number
+      FROM "Payment" p
+      LEFT JOIN "Invoice" i ON p.invoice_id = i.id
+      WHERE p.id = $1
+    `, [paymentId]);
+
+    const payment = paymentResult.rows[0];
+    const student = payment ? await getStudentForDocument(payment.student_id, req) : null;
+
+    if (!payment || !student) {
+      res.status(404).json({ error: 'Payment not found or access denied' });
+      return;
+    }
+
+    const transactions = payment.invoice_id
+      ? (await getTransactionsByInvoice([payment.invoice_id])).get(payment.invoice_id) || []
+      : [];
+
+    if (!payment.paid && transactions.length === 0) {
+      res.status(400).json({ error: 'A receipt is only available once a payment has been made' });
+      return;
+    }
+
+    const pdf = await renderReceiptPdf({
+      branch: student.branch,
+      student_name: student.student_name,
+      parent_name: student.parent_name,
+      month: payment.month,
+      amount: payment.amount,
+      payment_date: payment.payment_date,
+      payment_method: payment.payment_method,
+      invoice_number: payment.invoice_number,
+      transactions
+    });
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="receipt-${payment.month}.pdf"`);
+    res.send(pdf);
+  } catch (error) {
+    console.error('Receipt generation error:', error);
+    res.status(500).json({ error: 'Failed to generate receipt' });
+  }
+});
+
+// Download a child's yearly PDF statement (parents for their own children, staff and admin)
+router.get('/:student_id/statement/:year', authenticateToken, requirePermission('payment.view_own', 'payment.view_all'), async (req: AuthRequest, res) => {
+  try {
+    const { student_id } = req.params;
+    const year = parseInt(req.params.year);
+
+    if (!isValidUUID(student_id)) {
+      res.status(400).json({ error: 'Invalid student ID format' });
+      return;
+    }
+
+    if (isNaN(year) || year < 2000 || year > new Date().getFullYear() + 1) {
+      res.status(400).json({ error: 'Invalid statement year' });
+      return;
+    }
+
+    const student = await getStudentForDocument(student_id, req);
+
+    if (!student) {
+      res.status(404).json({ error: 'Student not found or access denied' });
+      return;
+    }
+
+    const paymentsResult = await pool.query(`
+      SELECT p.month, p.amount, p.paid, p.payment_date, p.payment_method, p.invoice_id,
+             i.invoice_number
+      FROM "Payment" p
+      LEFT JOIN "Invoice" i ON p.invoice_id = i.id
+      WHERE p.student_id = $1 AND p.month LIKE $2
+      ORDER BY p.month
+    `, [student_id, `${year}-%`]);
+
+    const transactionsByInvoice = await getTransactionsByInvoice(
+      paymentsResult.rows.filter(row => row.invoice_id).map(row => row.invoice_id)
+    );
+
+    const pdf = await renderStatementPdf({
+      branch: student.branch,
+      student_name: student.student_name,
+      parent_name: student.parent_name,
+      year,
+      entries: paymentsResult.rows.map(row => ({
+        ...row,
+        transactions: row.invoice_id ? transactionsByInvoice.get(row.invoice_id) || [] : []
+      }))
+    });
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="statement-${year}.pdf"`);
+    res.send(pdf);
+  } catch (error) {
+    console.error('Statement generation error:', error);
+    res.status(500).json({ error: 'Failed to generate statement' });
+  }
+});
+
+// Record a payment against an invoice for a student at your branches (staff and admin only)
+router.post('/', authenticateToken, requirePermission('payment.record'), async (req: AuthRequest, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { invoiceId, amount, paymentMethod, branchId, reference, notes } = req.body ?? {};
+
+    if (!invoiceId || !isValidUUID(invoiceId)) {
+      res.status(400).json({ error: 'A valid invoice ID is required' });
+      return;
+    }
+
+    if (!isValidAmount(amount)) {
+      res.status(400).json({ error: 'Amount must be a positive number with at most 2 decimal places' });
+      return;
+    }
+
+    if (!PAYMENT_METHODS.includes(paymentMethod)) {
+      res.status(400).json({ error: `Payment method must be one of: ${PAYMENT_METHODS.join(', ')}` });
+      return;
+    }
+
+    if (paymentMethod === 'cheque' && (!reference || !reference.trim())) {
+      res.status(400).json({ error: 'Cheque number is required for cheque payments' });
+      return;
+    }
+
+    if (branchId && !isValidUUID(branchId)) {
+      res.status(400).json({ error: 'Invalid branch ID format' });
+      return;
+    }
+
+    // Takings can only be credited to an existing branch the caller works at
+    if (branchId) {
+      const branchCheck = await client.query('SELECT id FROM "Branch" WHERE id = $1', [branchId]);
+
+      if (branchCheck.rows.length === 0) {
+        res.status(400).json({ error: 'Branch not found' });
+        return;
+      }
+
+      if (!(await canAccessBranch(req, branchId))) {
+        res.status(403).json({ error: 'You can only record payments for your own branches' });
+        return;
+      }
+    }
+
+    await client.query('BEGIN');
+
+    const invoiceCheck = await client.query(`
+      SELECT i.id, i.invoice_number, i.student_id, i.parent_id, i.total, i.status,
+             s.home_branch_id
+      FROM "Invoice" i
+      JOIN "Student" s ON i.student_id = s.id
+      WHERE i.id = $1
+      FOR UPDATE OF i
+    `, [invoiceId]);
+
+    if (invoiceCheck.rows.length === 0 || !(await canAccessBranch(req, invoiceCheck.rows[0].home_branch_id))) {
+      await client.query('ROLLBACK');
+      res.status(404).json({ error: 'Invoice not found' });
+      return;
+    }
+
+    const invoice = invoiceCheck.rows[0];
+
+    if (invoice.status !== 'issued') {
+      await client.query('ROLLBACK');
+      res.status(400).json({ error: 'Payments cannot be recorded against a void invoice' });
+      return;
+    }
+
+    // Serialize changes to this family's credit balance
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`credit:${invoice.parent_id}`]);
+
+    const balance = roundCurrency(parseFloat(invoice.total) - await getInvoiceAmountPaid(invoice.id, client));
+
+    if (balance <= 0) {
+      await client.query('ROLLBACK');
+      res.status(400).json({ error: 'Invoice is already fully paid' });
+      return;
+    }
+
+    if (paymentMethod === 'credit') {
+      const creditBalance = await getCreditBalance(invoice.parent_id, client);
+      if (amount > creditBalance) {
+        await client.query('ROLLBACK');
+        res.status(400).json({ error: `Amount exceeds the available account credit (${creditBalance.toFixed(2)})` });
+        return;
+      }
+      if (amount > balance) {
+        await client.query('ROLLBACK');
+        res.status(400).json({ error: `Account credit can only cover the outstanding balance (${balance.toFixed(2)})` });
+        return;
+      }
+    }
+
+    const { receipt, invoiceStatus } = await recordInvoicePayment({
+      invoice,
+      amount,
+      balance,
+      paymentMethod,
+      branchId: branchId || invoice.home_branch_id,
+      reference: reference?.trim() || null,
+      notes: notes?.trim() || null,
+      processedBy: req.user!.userId
+    }, client);
+
+    const creditBalance = await getCreditBalance(invoice.parent_id, client);
+
+    await client.query('COMMIT');
+
+    res.status(201).json({
+      message: `Payment recorded (receipt ${receipt.receipt_number})`,
+      receipt,
+      invoice: { id: invoice.id, invoice_number: invoice.invoice_number, ...invoiceStatus },
+      credit_balance: creditBalance
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Payment recording error:', error);
+    res.status(500).json({ error: 'Failed to record payment' });
+  } finally {
+    client.release();
+  }
+});
+
+// Start an online checkout for an unpaid month (parents only)
+router.post('/:paymentId/checkout', authenticateToken, requirePermission('payment.view_own'), async (req: AuthRequest, res) => {
+  try {
+    const { paymentId } = req.params;
+
+    if (!isValidUUID(paymentId)) {
+      res.status(400).json({ error: 'Invalid payment ID format' });
+      return;
+    }
+
+    const paymentResult = await pool.query(`
+      SELECT p.id, p.month, p.amount, p.paid, p.invoice_id,
+             i.status as invoice_status, i.total as invoice_total,
+             CONCAT(s.first_name, ' ', s.last_name) as student_name
+      FROM "Payment" p
+      JOIN "Student" s ON p.student_id = s.id
+      LEFT JOIN "Invoice" i ON p.invoice_id = i.id
+      WHERE p.id = $1 AND ${isGuardianOf('s', '$2', 'can_view_payments')}
+    `, [paymentId, req.user!.userId]);
+
+    if (paymentResult.rows.length === 0) {
+      res.status(404).json({ error: 'Payment not found or access denied' });
+      return;
+    }
+
+    const payment = paymentResult.rows[0];
+
+    if (payment.paid) {
+      res.status(400).json({ error: 'This month has already been paid' });
+      return;
+    }
+
+    if (payment.invoice_id && payment.invoice_status !== 'issued') {
+      res.status(400).json({ error: 'This invoice is no longer payable' });
+      return;
+    }
+
+    // Invoiced months are charged their outstanding balance after any part payments
+    const amount = payment.invoice_id
+      ? roundCurrency(parseFloat(payment.invoice_total) - await getInvoiceAmountPaid(payment.invoice_id))
+      : parseFloat(payment.amount);
+
+    if (amount <= 0) {
+      res.status(400).json({ error: 'This month has already been paid' });
+      return;
+    }
+
+    const provider = getActivePaymentProvider();
+
+    if (!provider) {
+      res.status(503).json({ error: 'Online payments are not available' });
+      return;
+    }
+
+    // Reuse an open checkout for the same amount instead of starting a second one
+    const existingSession = await pool.query(`
+      SELECT provider_session_id, checkout_url FROM "CheckoutSession"
+      WHERE payment_id = $1 AND provider = $2 AND status = 'pending' AND expires_at > NOW() AND amount = $3
+      ORDER BY created_at DESC
+      LIMIT 1
+    `, [paymentId, provider.name, amount]);
+
+    if (existingSession.rows.length > 0) {
+      res.json({
+        message: 'Checkout session resumed',
+        session_id: existingSession.rows[0].provider_session_id,
+        checkout_url: existingSession.rows[0].checkout_url
+      });
+      return;
+    }
+
+    const session = await provider.createCheckoutSession({
+      amount,
+      currency: 'SGD',
+      description: `Tuition fees for ${payment.student_name} (${payment.month})`,
+      successUrl: `${getFrontendUrl()}/?checkout=success`,
+      cancelUrl: `${getFrontendUrl()}/?checkout=cancelled`
+    });
+
+    await pool.query(`
+      INSERT INTO "CheckoutSession" (provider, provider_session_id, payment_id, invoice_id, parent_id, amount, checkout_url, expires_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    `, [provider.name, session.providerSessionId, paymentId, payment.invoice_id, req.user!.userId, amount, session.checkoutUrl, session.expiresAt]);
+
+    res.status(201).json({
+      message: 'Checkout session created',
+      session_id: session.providerSessionId,
+      checkout_url: session.checkoutUrl
+    });
+  } catch (error) {
+    console.error('Checkout session error:', error);
+    res.status(500).json({ error: 'Failed to start online payment' });
+  }
+});
+
+// Receive a signed payment provider webhook (no user authentication, verified by signature)
+router.post('/webhook/:provider', async (req, res) => {
+  try {
+    const provider = getPaymentProvider(req.params.provider);
+
+    if (!provider) {
+      res.status(404).json({ error: 'Unknown payment provider' });
+      return;
+    }
+
+    // The webhook path is parsed as a raw body so the signature can be checked byte for byte
+    if (!Buffer.isBuffer(req.body)) {
+      res.status(400).json({ error: 'Webhook body must be JSON' });
+      return;
+    }
+
+    const event = provider.parseWebhook(req.body, req.headers);
+
+    if (!event) {
+      console.warn('SECURITY: Invalid payment webhook signature', {
+        provider: provider.name,
+        ip: req.ip,
+        timestamp: new Date().toISOString()
+      });
+      res.status(400).json({ error: 'Invalid webhook signature' });
+      return;
+    }
+
+    const result = await handleWebhookEvent(provider, event, JSON.parse(req.body.toString('utf8')));
+
+    res.json({ received: true, result });
+  } catch (error) {
+    console.error('Payment webhook error:', error);
+    res.status(500).json({ error: 'Failed to process webhook' });
+  }
+});
+
+// Get a mock checkout you started, for the test-mode checkout page (parents only, while the mock provider is active)
+router.get('/mock-checkout/:sessionId', authenticateToken, requirePermission('payment.view_own'), async (req: AuthRequest, res) => {
+  try {
+    if (getActivePaymentProvider()?.name !== 'mock') {
+      res.status(404).json({ error: 'Not found' });
+      return;
+    }
+
+    const sessionResult = await pool.query(`
+      SELECT cs.provider_session_id as session_id, cs.amount, cs.currency, cs.status, cs.expires_at, p.month,
+             CONCAT(s.first_name, ' ', s.last_name) as student_name
+      FROM "CheckoutSession" cs
+      JOIN "Payment" p ON cs.payment_id = p.id
+      JOIN "Student" s ON p.student_id = s.id
+      WHERE cs.provider = 'mock' AND cs.provider_session_id = $1 AND cs.parent_id = $2
+    `, [req.params.sessionId, req.user!.userId]);
+
+    const session = sessionResult.rows[0];
+
+    if (!session) {
+      res.status(404).json({ error: 'Checkout session not found' });
+      return;
+    }
+
+    if (session.status === 'pending' && new Date(session.expires_at) <= new Date()) {
+      session.status = 'expired';
+    }
+
+    res.json(session);
+  } catch (error) {
+    console.error('Mock checkout page error:', error);
+    res.status(500).json({ error: 'Failed to load checkout' });
+  }
+});
+
+// Complete or cancel a mock checkout you started by delivering a signed event through the normal webhook path
+// (parents only, while the mock provider is active)
+router.post('/mock-checkout/:sessionId', authenticateToken, requirePermission('payment.view_own'), async (req: AuthRequest, res) => {
+  try {
+    const provider = getActivePaymentProvider();
+
+    if (provider?.name !== 'mock') {
+      res.status(404).json({ error: 'Not found' });
+      return;
+    }
+
+    const action = req.body?.action;
+
+    if (action !== 'pay' && action !== 'cancel') {
+      res.status(400).json({ error: 'Action must be pay or cancel' });
+      return;
+    }
+
+    const sessionResult = await pool.query(`
+      SELECT provider_session_id, amount FROM "CheckoutSession"
+      WHERE provider = 'mock' AND provider_session_id = $1 AND parent_id = $2 AND status = 'pending' AND expires_at > NOW()
+    `, [req.params.sessionId, req.user!.userId]);
+
+    if (sessionResult.rows.length === 0) {
+      res.status(404).json({ error: 'Checkout session not found or no longer open' });
+      return;
+    }
+
+    const payload = JSON.stringify({
+      id: `evt_${crypto.randomBytes(12).toString('hex')}`,
+      type: action === 'pay' ? 'checkout.completed' : 'checkout.cancelled',
+      session_id: sessionResult.rows[0].provider_session_id,
+      amount: sessionResult.rows[0].amount
+    });
+
+    const event = provider.parseWebhook(Buffer.from(payload), { 'x-mock-signature': signMockWebhook(payload) });
+    await handleWebhookEvent(provider, event!, JSON.parse(payload));
+
+    res.json({
+      message: action === 'pay' ? 'Payment completed' : 'Payment cancelled',
+      result: action === 'pay' ? 'success' : 'cancelled'
+    });
+  } catch (error) {
+    console.error('Mock checkout error:', error);
+    res.status(500).json({ error: 'Failed to complete mock checkout' });
+  }
+});
+
+// Refund all or part of a recorded payment (staff and admin only)
+router.post('/:transactionId/refund', authenticateToken, requirePermission('payment.record'), async (req: AuthRequest, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { transactionId } = req.params;
+    const { amount, paymentMethod, reason } = req.body ?? {};
+
+    if (!isValidUUID(transactionId)) {
+      res.status(400).json({ error: 'Invalid transaction ID format' });
+      return;
+    }
+
+    if (!isValidAmount(amount)) {
+      res.status(400).json({ error: 'Amount must be a positive number with at most 2 decimal places' });
+      return;
+    }
+
+    if (!reason || typeof reason !== 'string' || reason.trim().length < 3) {
+      res.status(400).json({ error: 'A reason is required for refunds' });
+      return;
+    }
+
+    if (paymentMethod && !PAYMENT_METHODS.includes(paymentMethod)) {
+      res.status(400).json({ error: `Payment method must be one of: ${PAYMENT_METHODS.join(', ')}` });
+      return;
+    }
+
+    await client.query('BEGIN');
+
+    const originalCheck = await client.query(`
+      SELECT t.id, t.receipt_number, t.invoice_id, t.student_id, t.parent_id, t.branch_id,
+             t.payment_method, t.amount, t.applied_amount, t.credit_amount,
+             i.invoice_number, s.home_branch_id
+      FROM "PaymentTransaction" t
+      LEFT JOIN "Invoice" i ON t.invoice_id = i.id
+      LEFT JOIN "Student" s ON t.student_id = s.id
+      WHERE t.id = $1 AND t.transaction_type = 'payment'
+      FOR UPDATE OF t
+    `, [transactionId]);
+
+    if (originalCheck.rows.length === 0 || !(await canAccessBranch(req, originalCheck.rows[0].home_branch_id))) {
+      await client.query('ROLLBACK');
+      res.status(404).json({ error: 'Payment not found' });
+      return;
+    }
+
+    const original = originalCheck.rows[0];
+
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`credit:${original.parent_id}`]);
+
+    const refundedResult = await client.query(`
+      SELECT COALESCE(SUM(applied_amount), 0) as applied, COALESCE(SUM(credit_amount), 0) as credit
+      FROM "PaymentTransaction"
+      WHERE refund_of = $1
+    `, [transactionId]);
+
+    const refundableApplied = roundCurrency(parseFloat(original.applied_amount) - parseFloat(refundedResult.rows[0].applied));
+    const creditBalance = await getCreditBalance(original.parent_id, client);
+
+    // The overpaid part is refunded first, as long as that credit has not been spent since
+    const refundableCredit = original.payment_method === 'credit'
+      ? 0
+      : Math.min(
+          roundCurrency(parseFloat(original.credit_amount) - parseFloat(refundedResult.rows[0].credit)),
+          creditBalance
+        );
+
+    if (amount > roundCurrency(refundableApplied + refundableCredit)) {
+      await client.query('ROLLBACK');
+      res.status(400).json({
+        error: `Amount exceeds what can still be refunded on receipt ${original.receipt_number} (${roundCurrency(refundableApplied + refundableCredit).toFixed(2)})`
+      });
+      return;
+    }
+
+    const creditPart = Math.min(amount, refundableCredit);
+    const appliedPart = roundCurrency(amount - creditPart);
+
+    // Payments made from account credit are refunded back to the account
+    const refundMethod = original.payment_method === 'credit' ? 'credit' : (paymentMethod || original.payment_method);
+
+    const refundResult = await client.query(`
+      INSERT INTO "PaymentTransaction" (
+        receipt_number, transaction_type, invoice_id, student_id, parent_id, branch_id,
+        payment_method, amount, applied_amount, credit_amount, refund_of, notes, processed_by
+      )
+      VALUES ('RFD-' || LPAD(nextval('receipt_number_seq')::text, 6, '0'), 'refund', $1, $2, $3, $4,
+              $5, $6, $7, $8, $9, $10, $11)
+      RETURNING id, receipt_number, transaction_type, invoice_id, payment_method, amount, applied_amount,
+                credit_amount, refund_of, notes, created_at
+    `, [
+      original.invoice_id, original.student_id, original.parent_id, original.branch_id,
+      refundMethod, amount, appliedPart, creditPart, original.id, reason.trim(), req.user!.userId
+    ]);
+
+    const refund = refundResult.rows[0];
+
+    if (creditPart > 0) {
+      await client.query(`
+        INSERT INTO "AccountCredit" (parent_id, amount, transaction_id, description, created_by)
+        VALUES ($1, $2, $3, $4, $5)
+      `, [original.parent_id, -creditPart, refund.id, `Overpayment refunded (${refund.receipt_number})`, req.user!.userId]);
+    }
+
+    if (refundMethod === 'credit') {
+      await client.query(`
+        INSERT INTO "AccountCredit" (parent_id, amount, transaction_id, description, created_by)
+        VALUES ($1, $2, $3, $4, $5)
+      `, [original.parent_id, amount, refund.id, `Refund of ${original.receipt_number} returned to account credit`, req.user!.userId]);
+    }
+
+    const invoiceStatus = original.invoice_id
+      ? await syncInvoicePayment(original.invoice_id, req.user!.userId, null, client)
+      : null;
+
+    await client.query('COMMIT');
+
+    res.status(201).json({
+      message: `Refund recorded (receipt ${refund.receipt_number})`,
+      refund,
+      invoice: invoiceStatus ? { id: original.invoice_id, invoice_number: original.invoice_number, ...invoiceStatus } : null,
+      credit_balance: await getCreditBalance(original.parent_id)
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Refund error:', error);
+    res.status(500).json({ error: 'Failed to record refund' });
+  } finally {
+    client.release();
+  }
+});
+
+// Get a parent's account credit balance and history (staff and admin only)
+router.get('/credit/:parentId', authenticateToken, requirePermission('payment.view_all'), async (req: AuthRequest, res) => {
+  try {
+    const { parentId } = req.params;
+
+    if (!isValidUUID(parentId)) {
+      res.status(400).json({ error: 'Invalid parent ID format' });
+      return;
+    }
+
+    if (!(await canAccessFamily(req, parentId))) {
+      res.status(404).json({ error: 'Parent not found' });
+      return;
+    }
+
+    const historyResult = await pool.query(`
+      SELECT ac.id, ac.amount, ac.description, ac.created_at,
+             t.receipt_number,
+             CONCAT(u.first_name, ' ', u.last_name) as created_by_name
+      FROM "AccountCredit" ac
+      LEFT JOIN "PaymentTransaction" t ON ac.transaction_id = t.id
+      LEFT JOIN "User" u ON ac.created_by = u.id
+      WHERE ac.parent_id = $1
+      ORDER BY ac.created_at DESC
+    `, [parentId]);
+
+    res.json({
+      parent_id: parentId,
+      balance: await getCreditBalance(parentId),
+      history: historyResult.rows
+    });
+  } catch (error) {
+    console.error('Account credit fetch error:', error);
+    res.status(500).json({ error: 'Failed to fetch account credit' });
+  }
+});
+
+// Daily reconciliation of money taken per branch, payment method and staff member, for your branches (staff and admin only)
+router.get('/reconciliation', authenticateToken, requirePermission('payment.view_all'), async (req: AuthRequest, res) => {
+  try {
+    const date = (req.query.date as string) || new Date().toLocaleDateString('en-CA');
+    const branchId = req.query.branchId as string | undefined;
+
+    if (!isValidDateString(date)) {
+      res.status(400).json({ error: 'Date must use the YYYY-MM-DD format' });
+      return;
+    }
+
+    if (branchId && !isValidUUID(branchId)) {
+      res.status(400).json({ error: 'Invalid branch ID format' });
+      return;
+    }
+
+    if (branchId && !(await canAccessBranch(req, branchId))) {
+      res.status(403).json({ error: 'You can only view takings for your own branches' });
+      return;
+    }
+
+    // Account credit moves no money, so it is left out of the cash-up
+    const result = await pool.query(`
+      SELECT t.branch_id, b.name as branch_name, t.payment_method, t.processed_by,
+             CASE WHEN t.processed_by IS NULL THEN 'Online checkout' ELSE CONCAT(u.first_name, ' ', u.last_name) END as staff_name,
+             COUNT(*) FILTER (WHERE t.transaction_type = 'payment') as payments_count,
+             COALESCE(SUM(t.amount) FILTER (WHERE t.transaction_type = 'payment'), 0) as collected,
+             COUNT(*) FILTER (WHERE t.transaction_type = 'refund') as refunds_count,
+             COALESCE(SUM(t.amount) FILTER (WHERE t.transaction_type = 'refund'), 0) as refunded
+      FROM "PaymentTransaction" t
+      LEFT JOIN "Branch" b ON t.branch_id = b.id
+      LEFT JOIN "User" u ON t.processed_by = u.id
+      WHERE t.created_at >= $1::date AND t.created_at < $1::date + INTERVAL '1 day'
+        AND t.payment_method != 'credit'
+        AND ($2::uuid IS NULL OR t.branch_id = $2)
+        AND ($3::uuid[] IS NULL OR t.branch_id = ANY($3::uuid[]))
+      GROUP BY t.branch_id, b.name, t.payment_method, t.processed_by, u.first_name, u.last_name
+      ORDER BY b.name, t.payment_method, staff_name
+    `, [date, branchId || null, await getBranchScope(req)]);
+
+    const rows = result.rows.map(row => {
+      const collected = parseFloat(row.collected);
+      const refunded = parseFloat(row.refunded);
+      return {
+        ...row,
+        payments_count: parseInt(row.payments_count),
+        refunds_count: parseInt(row.refunds_count),
+        collected,
+        refunded,
+        net: roundCurrency(collected - refunded)
+      };
+    });
+
+    const totalsByMethod: Record<string, { collected: number; refunded: number; net: number }> = {};
+    for (const row of rows) {
+      const totals = totalsByMethod[row.payment_method] || { collected: 0, refunded: 0, net: 0 };
+      totals.collected = roundCurrency(totals.collected + row.collected);
+      totals.refunded = roundCurrency(totals.refunded + row.refunded);
+      totals.net = roundCurrency(totals.net + row.net);
+      totalsByMethod[row.payment_method] = totals;
+    }
+
+    res.json({
+      date,
+      branch_id: branchId || null,
+      rows,
+      totals_by_method: totalsByMethod,
+      total: {
+        collected: roundCurrency(rows.reduce((sum, row) => sum + row.collected, 0)),
+        refunded: roundCurrency(rows.reduce((sum, row) => sum + row.refunded, 0)),
+        net: roundCurrency(rows.reduce((sum, row) => sum + row.net, 0))
+      }
+    });
+  } catch (error) {
+    console.error('Payment reconciliation error:', error);
+    res.status(500).json({ error: 'Failed to generate reconciliation report' });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,315 @@
+// backend/src/routes/roles.ts
+
+import express from 'express';
+import { pool } from '../index';
+import { authenticateToken, requirePermission, AuthRequest } from '../middleware/auth';
+import { recordAudit } from '../services/audit';
+import { loadRequestPermissions } from '../services/permissions';
+import { PERMISSIONS, Permission, ACCOUNT_TYPES, AccountType, isPermission, isPermissionAllowedFor } from '../config/permissions';
+
+const router = express.Router();
+
+const ROLE_COLUMNS = `
+  r.id, r.system_key, r.name, r.description, r.account_type, r.created_at, r.updated_at,
+  ARRAY(SELECT rp.permission FROM "RolePermission" rp WHERE rp.role_id = r.id ORDER BY rp.permission) as permissions
+`;
+
+// Checks a submitted permission list; returns an error message, or null when it is valid
+const validatePermissions = (permissions: unknown, accountType: AccountType): string | null => {
+  if (!Array.isArray(permissions)) {
+    return 'Permissions must be a list';
+  }
+
+  const unknown = permissions.filter(permission => !isPermission(permission));
+  if (unknown.length > 0) {
+    return `Unknown permission: ${unknown.join(', ')}`;
+  }
+
+  const notAllowed = (permissions as Permission[]).filter(permission => !isPermissionAllowedFor(accountType, permission));
+  if (notAllowed.length > 0) {
+    return `A ${accountType} role cannot have: ${notAllowed.join(', ')}`;
+  }
+
+  return null;
+};
+
+// Role managers can only give out permissions they hold themselves, so managing roles can't widen their
+// own access (such as to every branch); returns an error message, or null when they hold them all
+const checkGrantablePermissions = async (req: AuthRequest, permissions: Permission[]): Promise<string | null> => {
+  const granted = await loadRequestPermissions(req);
+  const notHeld = permissions.filter(permission => !granted.includes(permission));
+  if (notHeld.length > 0) {
+    return `You cannot give out permissions you do not have: ${notHeld.join(', ')}`;
+  }
+
+  return null;
+};
+
+// Get the permission catalogue, with the account types each permission can be given to (role managers only)
+router.get('/permissions', authenticateToken, requirePermission('role.manage'), async (req: AuthRequest, res) => {
+  try {
+    res.json((Object.keys(PERMISSIONS) as Permission[]).map(key => ({
+      key,
+      description: PERMISSIONS[key],
+      account_types: ACCOUNT_TYPES.filter(accountType => isPermissionAllowedFor(accountType, key))
+    })));
+  } catch (error) {
+    console.error('Get permissions error:', error);
+    res.status(500).json({ error: 'Failed to fetch permissions' });
+  }
+});
+
+// Get all roles with their permissions and how many users hold each (role managers only)
+router.get('/', authenticateToken, requirePermission('role.manage'), async (req: AuthRequest, res) => {
+  try {
+    const result = await pool.query(`
+      SELECT ${ROLE_COLUMNS},
+             (SELECT COUNT(*) FROM "User" u WHERE u.role_id = r.id)::int as user_count
+      FROM "Role" r
+      ORDER BY r.system_key IS NULL, r.account_type, r.name
+    `);
+
+    res.json(result.rows);
+  } catch (error) {
+    console.error('Get roles error:', error);
+    res.status(500).json({ error: 'Failed to fetch roles' });
+  }
+});
+
+// Create a custom role (role managers only). Custom roles are for staff accounts: the account type
+// still decides which dashboard they see, the permissions decide what they can do there.
+router.post('/', authenticateToken, requirePermission('role.manage'), async (req: AuthRequest, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { name, description, permissions = [] } = req.body;
+
+    if (!name || typeof name !== 'string' || name.trim().length < 2) {
+      res.status(400).json({ error: 'Role name must be at least 2 characters long' });
+      return;
+    }
+
+    const permissionError = validatePermissions(permissions, 'staff');
+    if (permissionError) {
+      res.status(400).json({ error: permissionError });
+      return;
+    }
+
+    const grantError = await checkGrantablePermissions(req, permissions);
+    if (grantError) {
+      res.status(403).json({ error: grantError });
+      return;
+    }
+
+    const existingRole = await client.query(
+      'SELECT id FROM "Role" WHERE LOWER(name) = LOWER($1)',
+      [name.trim()]
+    );
+
+    if (existingRole.rows.length > 0) {
+      res.status(409).json({ error: 'A role with this name already exists' });
+      return;
+    }
+
+    await client.query('BEGIN');
+
+    const inserted = await client.query(
+      'INSERT INTO "Role" (name, description, account_type) VALUES ($1, $2, $3) RETURNING id',
+      [name.trim(), description?.trim() || null, 'staff']
+    );
+    const roleId = inserted.rows[0].id;
+
+    await client.query(
+      'INSERT INTO "RolePermission" (role_id, permission) SELECT $1, UNNEST($2::text[]) ON CONFLICT DO NOTHING',
+      [roleId, permissions]
+    );
+
+    const result = await client.query(`SELECT ${ROLE_COLUMNS} FROM "Role" r WHERE r.id = $1`, [roleId]);
+
+    await recordAudit(req, { action: 'create', entityType: 'Role', entityId: roleId, after: result.rows[0] }, client);
+
+    await client.query('COMMIT');
+
+    res.status(201).json({
+      message: 'Role created successfully',
+      role: { ...result.rows[0], user_count: 0 }
+    });
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Create role error:', error);
+    res.status(500).json({ error: 'Failed to create role' });
+  } finally {
+    client.release();
+  }
+});
+
+// Update a role's name, description and permissions (role managers only). The Administrator role
+// always keeps every permission, so it cannot be edited, and nobody can edit the role they hold.
+router.put('/:id', authenticateToken, requirePermission('role.manage'), async (req: AuthRequest, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { id } = req.params;
+    const { name, description, permissions } = req.body;
+
+    await client.query('BEGIN');
+
+    const roleCheck = await client.query(`SELECT ${ROLE_COLUMNS} FROM "Role" r WHERE r.id = $1 FOR UPDATE`, [id]);
+
+    if (roleCheck.rows.length === 0) {
+      await client.query('ROLLBACK');
+      res.status(404).json({ error: 'Role not found' });
+      return;
+    }
+
+    const role = roleCheck.rows[0];
+
+    if (role.system_key === 'admin') {
+      await client.query('ROLLBACK');
+      res.status(400).json({ error: 'The Administrator role always has every permission and cannot be changed' });
+      return;
+    }
+
+    const callerResult = await client.query('SELECT role_id FROM "User" WHERE id = $1', [req.user!.userId]);
+
+    if (callerResult.rows[0]?.role_id === role.id) {
+      await client.query('ROLLBACK');
+      res.status(403).json({ error: 'Another role manager must change the role you hold yourself' });
+      return;
+    }
+
+    if (name !== undefined && (typeof name !== 'string' || name.trim().length < 2)) {
+      await client.query('ROLLBACK');
+      res.status(400).json({ error: 'Role name must be at least 2 characters long' });
+      return;
+    }
+
+    if (permissions !== undefined) {
+      const permissionError = validatePermissions(permissions, role.account_type);
+      if (permissionError) {
+        await client.query('ROLLBACK');
+        res.status(400).json({ error: permissionError });
+        return;
+      }
+
+      // Permissions the role already has can stay; only adding one is limited to what the caller holds
+      const grantError = await checkGrantablePermissions(
+        req,
+        (permissions as Permission[]).filter(permission => !role.permissions.includes(permission))
+      );
+      if (grantError) {
+        await client.query('ROLLBACK');
+        res.status(403).json({ error: grantError });
+        return;
+      }
+    }
+
+    if (name) {
+      const duplicateCheck = await client.query(
+        'SELECT id FROM "Role" WHERE LOWER(name) = LOWER($1) AND id != $2',
+        [name.trim(), id]
+      );
+
+      if (duplicateCheck.rows.length > 0) {
+        await client.query('ROLLBACK');
+        res.status(409).json({ error: 'A role with this name already exists' });
+        return;
+      }
+    }
+
+    await client.query(`
+      UPDATE "Role"
+      SET name = COALESCE($1, name),
+          description = CASE WHEN $2::boolean THEN $3 ELSE description END,
+          updated_at = NOW()
+      WHERE id = $4
+    `, [name?.trim(), description !== undefined, description?.trim() || null, id]);
+
+    if (permissions !== undefined) {
+      await client.query('DELETE FROM "RolePermission" WHERE role_id = $1', [id]);
+      await client.query(
+        'INSERT INTO "RolePermission" (role_id, permission) SELECT $1, UNNEST($2::text[]) ON CONFLICT DO NOTHING',
+        [id, permissions]
+      );
+    }
+
+    const result = await client.query(`
+      SELECT ${ROLE_COLUMNS},
+             (SELECT COUNT(*) FROM "User" u WHERE u.role_id = r.id)::int as user_count
+      FROM "Role" r
+      WHERE r.id = $1
+    `, [id]);
+
+    await recordAudit(req, { action: 'update', entityType: 'Role', entityId: id, before: role, after: result.rows[0] }, client);
+
+    await client.query('COMMIT');
+
+    res.json({
+      message: 'Role updated successfully',
+      role: result.rows[0]
+    });
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Update role error:', error);
+    res.status(500).json({ error: 'Failed to update role' });
+  } finally {
+    client.release();
+  }
+});
+
+// Delete a custom role that nobody holds any more (role managers only)
+router.delete('/:id', authenticateToken, requirePermission('role.manage'), async (req: AuthRequest, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { id } = req.params;
+
+    await client.query('BEGIN');
+
+    const roleCheck = await client.query(`SELECT ${ROLE_COLUMNS} FROM "Role" r WHERE r.id = $1 FOR UPDATE`, [id]);
+
+    if (roleCheck.rows.length === 0) {
+      await client.query('ROLLBACK');
+      res.status(404).json({ error: 'Role not found' });
+      return;
+    }
+
+    const role = roleCheck.rows[0];
+
+    if (role.system_key) {
+      await client.query('ROLLBACK');
+      res.status(400).json({ error: 'Built-in roles cannot be deleted' });
+      return;
+    }
+
+    const holders = await client.query('SELECT COUNT(*) as count FROM "User" WHERE role_id = $1', [id]);
+    const holderCount = parseInt(holders.rows[0].count);
+
+    if (holderCount > 0) {
+      await client.query('ROLLBACK');
+      res.status(409).json({
+        error: `This role is assigned to ${holderCount} user${holderCount === 1 ? '' : 's'}. Move them to another role first.`
+      });
+      return;
+    }
+
+    await client.query('DELETE FROM "Role" WHERE id = $1', [id]);
+
+    await recordAudit(req, { action: 'delete', entityType: 'Role', entityId: id, before: role }, client);
+
+    await client.query('COMMIT');
+
+    res.json({ message: 'Role deleted successfully' });
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Delete role error:', error);
+    res.status(500).json({ error: 'Failed to delete role' });
+  } finally {
+    client.release();
+  }
+});
+
+export default router;
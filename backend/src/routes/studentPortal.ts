@@ -0,0 +1,132 @@
+// backend/src/routes/studentPortal.ts
+
+import express from 'express';
+import { pool } from '../index';
+import { authenticateToken, requirePermission, AuthRequest } from '../middleware/auth';
+import { getOwnStudentId } from '../services/studentAccounts';
+
+const router = express.Router();
+
+// Enrollments that count towards a student's own view: current ones and finished ones, not cancelled ones
+const COUNTED_ENROLLMENT = `e.status IN ('enrolled', 'completed')`;
+
+// Get the signed-in student's own record (students only)
+router.get('/profile', authenticateToken, requirePermission('student.view_self'), async (req: AuthRequest, res) => {
+  try {
+    const result = await pool.query(`
+      SELECT s.id, s.first_name, s.last_name, s.grade, s.date_of_birth, s.home_branch_id,
+             b.name as home_branch_name, b.address as home_branch_address
+      FROM "Student" s
+      LEFT JOIN "Branch" b ON s.home_branch_id = b.id
+      WHERE s.user_id = $1 AND s.active = TRUE
+    `, [req.user!.userId]);
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'No student record is linked to this account' });
+      return;
+    }
+
+    res.json(result.rows[0]);
+  } catch (error) {
+    console.error('Get student profile error:', error);
+    res.status(500).json({ error: 'Failed to fetch your details' });
+  }
+});
+
+// Get the signed-in student's upcoming classes (students only)
+router.get('/timetable', authenticateToken, requirePermission('student.view_self'), async (req: AuthRequest, res) => {
+  try {
+    const studentId = await getOwnStudentId(req.user!.userId);
+    if (!studentId) {
+      res.status(404).json({ error: 'No student record is linked to this account' });
+      return;
+    }
+
+    const result = await pool.query(`
+      SELECT e.id as enrollment_id, c.id as class_id, c.subject, c.description, c.level,
+             c.start_time, c.end_time, c.duration_minutes,
+             b.name as branch_name, b.address as branch_address,
+             cr.room_name as classroom_name,
+             u.first_name as tutor_first_name, u.last_name as tutor_last_name
+      FROM "Enrollment" e
+      JOIN "Class" c ON e.class_id = c.id
+      LEFT JOIN "Branch" b ON c.branch_id = b.id
+      LEFT JOIN "Classroom" cr ON c.classroom_id = cr.id
+      LEFT JOIN "User" u ON c.tutor_id = u.id
+      WHERE e.student_id = $1 AND e.status = 'enrolled' AND c.active = TRUE AND c.end_time > NOW()
+      ORDER BY c.start_time
+    `, [studentId]);
+
+    res.json(result.rows);
+  } catch (error) {
+    console.error('Get student timetable error:', error);
+    res.status(500).json({ error: 'Failed to fetch your timetable' });
+  }
+});
+
+// Get the signed-in student's attendance for every class that has started, with totals (students only)
+router.get('/attendance', authenticateToken, requirePermission('student.view_self'), async (req: AuthRequest, res) => {
+  try {
+    const studentId = await getOwnStudentId(req.user!.userId);
+    if (!studentId) {
+      res.status(404).json({ error: 'No student record is linked to this account' });
+      return;
+    }
+
+    const result = await pool.query(`
+      SELECT c.id as class_id, c.subject, c.start_time, c.duration_minutes,
+             b.name as branch_name,
+             a.status, a.marked_at
+      FROM "Enrollment" e
+      JOIN "Class" c ON e.class_id = c.id
+      LEFT JOIN "Branch" b ON c.branch_id = b.id
+      LEFT JOIN "Attendance" a ON a.enrollment_id = e.id
+      WHERE e.student_id = $1 AND ${COUNTED_ENROLLMENT} AND c.start_time <= NOW()
+      ORDER BY c.start_time DESC
+    `, [studentId]);
+
+    const summary = { present: 0, late: 0, absent: 0, excused: 0, not_marked: 0 };
+    for (const row of result.rows) {
+      summary[(row.status || 'not_marked') as keyof typeof summary]++;
+    }
+
+    res.json({ summary, records: result.rows });
+  } catch (error) {
+    console.error('Get student attendance error:', error);
+    res.status(500).json({ error: 'Failed to fetch your attendance' });
+  }
+});
+
+// Get the materials shared with the signed-in student's classes, newest first (students only)
+router.get('/materials', authenticateToken, requirePermission('student.view_self'), async (req: AuthRequest, res) => {
+  try {
+    const studentId = await getOwnStudentId(req.user!.userId);
+    if (!studentId) {
+      res.status(404).json({ error: 'No student record is linked to this account' });
+      return;
+    }
+
+    // A material shared with a series reaches every student enrolled in any of its sessions
+    const result = await pool.query(`
+      SELECT m.id, m.title, m.url, m.description, m.created_at,
+             c.subject, c.start_time as class_start_time, m.series_id IS NOT NULL as whole_series
+      FROM "ClassMaterial" m
+      JOIN "Class" c ON m.class_id = c.id
+      WHERE EXISTS (
+        SELECT 1
+        FROM "Enrollment" e
+        JOIN "Class" ec ON e.class_id = ec.id
+        WHERE e.student_id = $1 AND ${COUNTED_ENROLLMENT}
+          AND (ec.id = m.class_id OR (m.series_id IS NOT NULL AND ec.series_id = m.series_id))
+      )
+      ORDER BY m.created_at DESC
+    `, [studentId]);
+
+    res.json(result.rows);
+  } catch (error) {
+    console.error('Get student materials error:', error);
+    res.status(500).json({ error: 'Failed to fetch class materials' });
+  }
+});
+
+export default router;
@@ -1,22 +1,35 @@
 // backend/src/routes/students.ts
 
 import express from 'express';
+import bcrypt from 'bcrypt';
 import { pool } from '../index';
-import { authenticateToken, requireRole, AuthRequest } from '../middleware/auth';
-import { validateStudent } from '../middleware/validation';
+import { authenticateToken, requirePermission, AuthRequest } from '../middleware/auth';
+import { validateStudent, validateStudentAccount } from '../middleware/validation';
+import { processWaitlist } from '../services/waitlist';
+import { recordAudit } from '../services/audit';
+import { getBranchScope } from '../services/branchAccess';
+import { isGuardianOf } from '../services/guardians';
+import { closeStudentAccounts } from '../services/studentAccounts';
+import { setUserPassword } from '../services/passwords';
+import { sendVerificationEmail } from '../services/accountTokens';
 
 const router = express.Router();
 
-// Get all students for a parent (parents only)
-router.get('/my-students', authenticateToken, requireRole('parent'), async (req: AuthRequest, res) => {
+// Get all students a parent is a guardian of, with what they may do for each (parents only)
+router.get('/my-students', authenticateToken, requirePermission('student.manage_own'), async (req: AuthRequest, res) => {
   try {
     const result = await pool.query(`
       SELECT s.id, s.first_name, s.last_name, s.grade, s.date_of_birth, s.home_branch_id, s.active,
              s.created_at, s.updated_at,
-             b.name as home_branch_name, b.address as home_branch_address
+             b.name as home_branch_name, b.address as home_branch_address,
+             sg.relationship, sg.is_primary as is_primary_guardian,
+             sg.can_enroll, sg.can_view_payments, sg.receives_notices,
+             CASE WHEN su.active THEN su.email END as account_email
       FROM "Student" s
+      JOIN "StudentGuardian" sg ON sg.student_id = s.id AND sg.guardian_id = $1
       LEFT JOIN "Branch" b ON s.home_branch_id = b.id
-      WHERE s.parent_id = $1 AND s.active = TRUE
+      LEFT JOIN "User" su ON s.user_id = su.id
+      WHERE s.active = TRUE
       ORDER BY s.first_name, s.last_name
     `, [req.user!.userId]);
 
@@ -27,9 +40,21 @@ router.get('/my-students', authenticateToken, requireRole('parent'), async (req:
   }
 });
 
-// Get all students (staff only) 
-router.get('/all', authenticateToken, requireRole('staff'), async (req: AuthRequest, res) => {
+// Students whose home branch is in the branch list $n, or who are enrolled in a class at one of them
+const IN_BRANCH_SCOPE = (n: number) => `(
+  s.home_branch_id = ANY($${n}::uuid[])
+  OR EXISTS (
+    SELECT 1 FROM "Enrollment" e
+    JOIN "Class" c ON e.class_id = c.id
+    WHERE e.student_id = s.id AND e.status = 'enrolled' AND c.branch_id = ANY($${n}::uuid[])
+  )
+)`;
+
+// Get all students, limited to the caller's branches when they have any (staff only) 
+router.get('/all', authenticateToken, requirePermission('student.view_all'), async (req: AuthRequest, res) => {
   try {
+    const branchScope = await getBranchScope(req);
+
     const result = await pool.query(`
       SELECT s.id, s.first_name, s.last_name, s.grade, s.date_of_birth, s.home_branch_id, s.active,
              s.created_at, s.updated_at,
@@ -39,9 +64,9 @@ router.get('/all', authenticateToken, requireRole('staff'), async (req: AuthRequ
       FROM "Student" s
       LEFT JOIN "Branch" b ON s.home_branch_id = b.id
       LEFT JOIN "User" u ON s.parent_id = u.id
-      WHERE s.active = TRUE
+      WHERE s.active = TRUE AND ($1::uuid[] IS NULL OR ${IN_BRANCH_SCOPE(1)})
       ORDER BY s.first_name, s.last_name
-    `);
+    `, [branchScope]);
 
     res.json(result.rows);
   } catch (error) {
@@ -50,8 +75,8 @@ router.get('/all', authenticateToken, requireRole('staff'), async (req: AuthRequ
   }
 });
 
-// Create a new student (parents only)
-router.post('/', authenticateToken, requireRole('parent'), validateStudent, async (req: AuthRequest, res) => {
+// Create a new student; the parent becomes its primary guardian (parents only)
+router.post('/', authenticateToken, requirePermission('student.manage_own'), validateStudent, async (req: AuthRequest, res) => {
   try {
     const { firstName, lastName, grade, dateOfBirth, homeBranchId } = req.body;
 
@@ -76,6 +101,8 @@ router.post('/', authenticateToken, requireRole('parent'), validateStudent, asyn
 
     const student = result.rows[0];
 
+    await recordAudit(req, { action: 'create', entityType: 'Student', entityId: student.id, after: student });
+
     // Get branch info if available
     let studentWithBranch = student;
     if (student.home_branch_id) {
@@ -99,8 +126,8 @@ router.post('/', authenticateToken, requireRole('parent'), validateStudent, asyn
   }
 });
 
-// Update a student (parents can only update their own children)
-router.put('/:id', authenticateToken, requireRole('parent'), validateStudent, async (req: AuthRequest, res) => {
+// Update a student (guardians who can enroll the child only)
+router.put('/:id', authenticateToken, requirePermission('student.manage_own'), validateStudent, async (req: AuthRequest, res) => {
   const client = await pool.connect();
   
   try {
@@ -109,11 +136,13 @@ router.put('/:id', authenticateToken, requireRole('parent'), validateStudent, as
     const { id } = req.params;
     const { firstName, lastName, grade, dateOfBirth, homeBranchId } = req.body;
 
-    // Verify student belongs to this parent and get current student data
-    const studentCheck = await client.query(
-      'SELECT id, first_name, last_name, grade FROM "Student" WHERE id = $1 AND parent_id = $2 AND active = TRUE',
-      [id, req.user!.userId]
-    );
+    // Verify this parent is a guardian who can enroll the student, and get current student data.
+    // A grade change cancels enrollments, so it takes the same permission as enrolling.
+    const studentCheck = await client.query(`
+      SELECT s.id, s.first_name, s.last_name, s.grade, s.date_of_birth, s.home_branch_id, s.active, s.created_at, s.updated_at
+      FROM "Student" s
+      WHERE s.id = $1 AND ${isGuardianOf('s', '$2', 'can_enroll')} AND s.active = TRUE
+    `, [id, req.user!.userId]);
 
     if (studentCheck.rows.length === 0) {
       await client.query('ROLLBACK');
@@ -175,6 +204,9 @@ router.put('/:id', authenticateToken, requireRole('parent'), validateStudent, as
             WHERE id = $1
           `, [enrollment.id]);
 
+          // Offer the freed seat to the next waitlisted student
+          await processWaitlist(enrollment.class_id, client);
+
           cancelledEnrollments.push({
             subject: enrollment.subject,
             level: classLevel,
@@ -198,12 +230,20 @@ router.put('/:id', authenticateToken, requireRole('parent'), validateStudent, as
           date_of_birth = COALESCE($4, date_of_birth),
           home_branch_id = COALESCE($5, home_branch_id),
           updated_at = NOW()
-      WHERE id = $6 AND parent_id = $7
+      WHERE id = $6
       RETURNING id, first_name, last_name, grade, date_of_birth, home_branch_id, active, created_at, updated_at
-    `, [firstName?.trim(), lastName?.trim(), newGrade, dateOfBirth, homeBranchId, id, req.user!.userId]);
+    `, [firstName?.trim(), lastName?.trim(), newGrade, dateOfBirth, homeBranchId, id]);
 
     const student = result.rows[0];
 
+    // A student's own sign-in carries their name
+    await client.query(`
+      UPDATE "User" u
+      SET first_name = $1, last_name = $2, updated_at = NOW()
+      FROM "Student" s
+      WHERE s.id = $3 AND u.id = s.user_id
+    `, [student.first_name, student.last_name, id]);
+
     // Get branch info if available
     let studentWithBranch = student;
     if (student.home_branch_id) {
@@ -216,6 +256,14 @@ router.put('/:id', authenticateToken, requireRole('parent'), validateStudent, as
       }
     }
 
+    await recordAudit(req, {
+      action: 'update',
+      entityType: 'Student',
+      entityId: id,
+      before: currentStudent,
+      after: { ...student, cancelled_enrollments: cancelledEnrollments.length }
+    }, client);
+
     await client.query('COMMIT');
 
     // Prepare response message
@@ -244,29 +292,34 @@ router.put('/:id', authenticateToken, requireRole('parent'), validateStudent, as
   }
 });
 
-// Soft delete a student (parents can only delete their own children)
-router.delete('/:id', authenticateToken, requireRole('parent'), async (req: AuthRequest, res) => {
+// Soft delete a student (the primary guardian only)
+router.delete('/:id', authenticateToken, requirePermission('student.manage_own'), async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
 
-    // Verify student belongs to this parent
-    const studentCheck = await pool.query(
-      'SELECT id, first_name, last_name FROM "Student" WHERE id = $1 AND parent_id = $2 AND active = TRUE',
-      [id, req.user!.userId]
-    );
+    // Verify this parent is the student's primary guardian
+    const studentCheck = await pool.query(`
+      SELECT s.id, s.first_name, s.last_name, s.grade, s.home_branch_id, s.active
+      FROM "Student" s
+      JOIN "StudentGuardian" sg ON sg.student_id = s.id AND sg.guardian_id = $2 AND sg.is_primary = TRUE
+      WHERE s.id = $1 AND s.active = TRUE
+    `, [id, req.user!.userId]);
 
     if (studentCheck.rows.length === 0) {
-      res.status(404).json({ error: 'Student not found or access denied' });
+      res.status(404).json({ error: 'Student not found or access denied. Only the primary guardian can remove a child.' });
       return;
     }
 
-    // Soft delete by setting active = false
+    // Soft delete by setting active = false; the student's own sign-in goes with it
     await pool.query(
       'UPDATE "Student" SET active = FALSE, updated_at = NOW() WHERE id = $1',
       [id]
     );
+    await closeStudentAccounts([id]);
 
     const student = studentCheck.rows[0];
+    await recordAudit(req, { action: 'delete', entityType: 'Student', entityId: id, before: student, after: { ...student, active: false } });
+
     res.json({
       message: `Student ${student.first_name} ${student.last_name} removed successfully`
     });
@@ -277,7 +330,141 @@ router.delete('/:id', authenticateToken, requireRole('parent'), async (req: Auth
   }
 });
 
-// Get a specific student (parents can only view their own children, staff can view any)
+// Give a student their own sign-in to see their timetable, attendance and materials (guardians who can enroll the child only)
+router.post('/:id/account', authenticateToken, requirePermission('student.manage_own'), validateStudentAccount, async (req: AuthRequest, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { id } = req.params;
+    const { password } = req.body;
+    const trimmedEmail = req.body.email.trim().toLowerCase();
+
+    const studentCheck = await pool.query(`
+      SELECT s.id, s.first_name, s.last_name, s.user_id, u.active as account_active
+      FROM "Student" s
+      LEFT JOIN "User" u ON s.user_id = u.id
+      WHERE s.id = $1 AND ${isGuardianOf('s', '$2', 'can_enroll')} AND s.active = TRUE
+    `, [id, req.user!.userId]);
+
+    if (studentCheck.rows.length === 0) {
+      res.status(404).json({ error: 'Student not found or access denied' });
+      return;
+    }
+
+    const student = studentCheck.rows[0];
+
+    if (student.account_active) {
+      res.status(409).json({ error: `${student.first_name} already has a login` });
+      return;
+    }
+
+    const existingUser = await pool.query(
+      'SELECT id FROM "User" WHERE email = $1 AND id IS DISTINCT FROM $2',
+      [trimmedEmail, student.user_id]
+    );
+
+    if (existingUser.rows.length > 0) {
+      res.status(409).json({ error: 'An account with this email already exists' });
+      return;
+    }
+
+    await client.query('BEGIN');
+
+    let account;
+    if (student.user_id) {
+      // A login that was switched off before comes back with the new email and password
+      await setUserPassword(student.user_id, password, client);
+      const result = await client.query(`
+        UPDATE "User"
+        SET email = $2, email_verified = (email = $2 AND email_verified), first_name = $3, last_name = $4,
+            active = TRUE, updated_at = NOW()
+        WHERE id = $1
+        RETURNING id, email, email_verified, role, first_name, last_name, active, created_at
+      `, [student.user_id, trimmedEmail, student.first_name, student.last_name]);
+      account = result.rows[0];
+    } else {
+      const hashedPassword = await bcrypt.hash(password, 10);
+      const result = await client.query(`
+        INSERT INTO "User" (email, password, role, first_name, last_name)
+        VALUES ($1, $2, 'student', $3, $4)
+        RETURNING id, email, email_verified, role, first_name, last_name, active, created_at
+      `, [trimmedEmail, hashedPassword, student.first_name, student.last_name]);
+      account = result.rows[0];
+
+      await client.query('UPDATE "Student" SET user_id = $1, updated_at = NOW() WHERE id = $2', [account.id, id]);
+    }
+
+    await recordAudit(req, {
+      action: student.user_id ? 'update' : 'create',
+      entityType: 'User',
+      entityId: account.id,
+      after: { ...account, student_id: id }
+    }, client);
+
+    await client.query('COMMIT');
+
+    // The login works straight away; a failed email only means the student has to ask for it again
+    if (!account.email_verified) {
+      try {
+        await sendVerificationEmail(account);
+      } catch (mailError) {
+        console.error('Verification email error:', mailError);
+      }
+    }
+
+    res.status(201).json({
+      message: `${student.first_name} can now sign in with ${account.email}`,
+      account_email: account.email
+    });
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Create student account error:', error);
+    res.status(500).json({ error: 'Failed to create student login' });
+  } finally {
+    client.release();
+  }
+});
+
+// Switch off a student's own sign-in (guardians who can enroll the child only)
+router.delete('/:id/account', authenticateToken, requirePermission('student.manage_own'), async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+
+    const studentCheck = await pool.query(`
+      SELECT s.id, s.first_name, s.last_name, s.user_id
+      FROM "Student" s
+      WHERE s.id = $1 AND ${isGuardianOf('s', '$2', 'can_enroll')} AND s.active = TRUE
+    `, [id, req.user!.userId]);
+
+    if (studentCheck.rows.length === 0) {
+      res.status(404).json({ error: 'Student not found or access denied' });
+      return;
+    }
+
+    const student = studentCheck.rows[0];
+
+    if ((await closeStudentAccounts([id])) === 0) {
+      res.status(404).json({ error: `${student.first_name} does not have a login` });
+      return;
+    }
+
+    await recordAudit(req, {
+      action: 'update',
+      entityType: 'User',
+      entityId: student.user_id,
+      before: { active: true },
+      after: { active: false, student_id: id }
+    });
+
+    res.json({ message: `${student.first_name} can no longer sign in` });
+  } catch (error) {
+    console.error('Remove student account error:', error);
+    res.status(500).json({ error: 'Failed to remove student login' });
+  }
+});
+
+// Get a specific student (parents can only view children they are a guardian of, students themselves, staff can view any)
 router.get('/:id', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
@@ -290,12 +477,22 @@ router.get('/:id', authenticateToken, async (req: AuthRequest, res) => {
       WHERE s.id = $1 AND s.active = TRUE
     `;
     
-    let queryParams = [id];
+    let queryParams: any[] = [id];
 
-    // If parent, add parent restriction
+    // If parent, add guardian restriction; a student only sees themselves; staff limited to some
+    // branches only see students there
     if (req.user!.role === 'parent') {
-      query += ' AND s.parent_id = $2';
+      query += ` AND ${isGuardianOf('s', '$2')}`;
       queryParams.push(req.user!.userId);
+    } else if (req.user!.role === 'student') {
+      query += ' AND s.user_id = $2';
+      queryParams.push(req.user!.userId);
+    } else {
+      const branchScope = await getBranchScope(req);
+      if (branchScope) {
+        query += ` AND ${IN_BRANCH_SCOPE(2)}`;
+        queryParams.push(branchScope);
+      }
     }
 
     const result = await pool.query(query, queryParams);
@@ -0,0 +1,219 @@
+// backend/src/routes/twoFactor.ts
+
+import express from 'express';
+import bcrypt from 'bcrypt';
+import { pool } from '../index';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { recordAudit } from '../services/audit';
+import {
+  isTwoFactorRequired,
+  startTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  verifyTwoFactorCode,
+  consumeRecoveryCode,
+  regenerateRecoveryCodes,
+  countRemainingRecoveryCodes,
+  disableTwoFactor
+} from '../services/twoFactor';
+
+const router = express.Router();
+
+// Get the signed-in user's two-factor status
+router.get('/', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const result = await pool.query(
+      'SELECT two_factor_enabled, two_factor_enabled_at FROM "User" WHERE id = $1',
+      [req.user!.userId]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    const { two_factor_enabled: enabled, two_factor_enabled_at: enabledAt } = result.rows[0];
+
+    res.json({
+      enabled,
+      enabled_at: enabledAt,
+      required: isTwoFactorRequired(req.user!.role),
+      recovery_codes_remaining: enabled ? await countRemainingRecoveryCodes(req.user!.userId) : 0
+    });
+  } catch (error) {
+    console.error('Get two-factor status error:', error);
+    res.status(500).json({ error: 'Failed to fetch two-factor status' });
+  }
+});
+
+// Generate a secret and QR code for the authenticator app
+router.post('/setup', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const result = await pool.query(
+      'SELECT id, email, two_factor_enabled FROM "User" WHERE id = $1',
+      [req.user!.userId]
+    );
+
+    const user = result.rows[0];
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    if (user.two_factor_enabled) {
+      res.status(400).json({ error: 'Two-factor authentication is already enabled' });
+      return;
+    }
+
+    res.json(await startTwoFactorEnrollment(user));
+  } catch (error) {
+    console.error('Two-factor setup error:', error);
+    res.status(500).json({ error: 'Failed to start two-factor setup' });
+  }
+});
+
+// Confirm setup with a first code from the app and receive the recovery codes
+router.post('/enable', authenticateToken, async (req: AuthRequest, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { code } = req.body ?? {};
+
+    if (!code || typeof code !== 'string') {
+      res.status(400).json({ error: 'Authentication code is required' });
+      return;
+    }
+
+    await client.query('BEGIN');
+
+    const recoveryCodes = await confirmTwoFactorEnrollment(req.user!.userId, code, client);
+
+    if (!recoveryCodes) {
+      await client.query('ROLLBACK');
+      res.status(400).json({ error: 'Invalid authentication code. Please check your authenticator app and try again.' });
+      return;
+    }
+
+    await recordAudit(req, { action: 'enable_two_factor', entityType: 'User', entityId: req.user!.userId }, client);
+
+    await client.query('COMMIT');
+
+    res.json({
+      message: 'Two-factor authentication enabled successfully',
+      recoveryCodes
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Enable two-factor error:', error);
+    res.status(500).json({ error: 'Failed to enable two-factor authentication' });
+  } finally {
+    client.release();
+  }
+});
+
+// Turn two-factor off; needs the password and a current code (or a recovery code)
+router.post('/disable', authenticateToken, async (req: AuthRequest, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { password, code, recoveryCode } = req.body ?? {};
+    const userId = req.user!.userId;
+
+    if (isTwoFactorRequired(req.user!.role)) {
+      res.status(403).json({ error: 'Two-factor authentication is required for your account and cannot be turned off' });
+      return;
+    }
+
+    if (!password || typeof password !== 'string' || (!code && !recoveryCode)) {
+      res.status(400).json({ error: 'Password and authentication code are required' });
+      return;
+    }
+
+    await client.query('BEGIN');
+
+    const userResult = await client.query(
+      'SELECT password, two_factor_enabled FROM "User" WHERE id = $1 FOR UPDATE',
+      [userId]
+    );
+
+    const user = userResult.rows[0];
+
+    if (!user || !user.two_factor_enabled) {
+      await client.query('ROLLBACK');
+      res.status(400).json({ error: 'Two-factor authentication is not enabled' });
+      return;
+    }
+
+    if (!(await bcrypt.compare(password, user.password))) {
+      await client.query('ROLLBACK');
+      res.status(400).json({ error: 'Password is incorrect' });
+      return;
+    }
+
+    const codeAccepted = recoveryCode
+      ? await consumeRecoveryCode(userId, recoveryCode, client)
+      : await verifyTwoFactorCode(userId, code, client);
+
+    if (!codeAccepted) {
+      await client.query('ROLLBACK');
+      res.status(400).json({ error: 'Invalid authentication code' });
+      return;
+    }
+
+    await disableTwoFactor(userId, client);
+
+    await recordAudit(req, { action: 'disable_two_factor', entityType: 'User', entityId: userId }, client);
+
+    await client.query('COMMIT');
+
+    res.json({ message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Disable two-factor error:', error);
+    res.status(500).json({ error: 'Failed to disable two-factor authentication' });
+  } finally {
+    client.release();
+  }
+});
+
+// Replace the recovery codes (the old ones stop working); needs a current code
+router.post('/recovery-codes', authenticateToken, async (req: AuthRequest, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { code } = req.body ?? {};
+    const userId = req.user!.userId;
+
+    if (!code || typeof code !== 'string') {
+      res.status(400).json({ error: 'Authentication code is required' });
+      return;
+    }
+
+    await client.query('BEGIN');
+
+    if (!(await verifyTwoFactorCode(userId, code, client))) {
+      await client.query('ROLLBACK');
+      res.status(400).json({ error: 'Invalid authentication code' });
+      return;
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(userId, client);
+
+    await recordAudit(req, { action: 'regenerate_recovery_codes', entityType: 'User', entityId: userId }, client);
+
+    await client.query('COMMIT');
+
+    res.json({
+      message: 'New recovery codes generated. Your previous codes no longer work.',
+      recoveryCodes
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Regenerate recovery codes error:', error);
+    res.status(500).json({ error: 'Failed to generate recovery codes' });
+  } finally {
+    client.release();
+  }
+});
+
+export default router;
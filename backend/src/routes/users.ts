@@ -1,9 +1,15 @@
 // backend/src/routes/users.ts
 
 import express from 'express';
+import bcrypt from 'bcrypt';
 import { pool } from '../index';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
-import { validateProfileUpdate } from '../middleware/validation';
+import { validateProfileUpdate, validatePasswordChange } from '../middleware/validation';
+import { recordAudit } from '../services/audit';
+import { isPasswordReused, setUserPassword } from '../services/passwords';
+import { revokeUserSessions } from '../services/sessions';
+import { invalidateAccountTokens } from '../services/accountTokens';
+import { closeStudentAccounts } from '../services/studentAccounts';
 
 const router = express.Router();
 
@@ -11,7 +17,7 @@ const router = express.Router();
 router.get('/profile', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const result = await pool.query(
-      'SELECT id, email, role, first_name, last_name, phone, created_at, updated_at FROM "User" WHERE id = $1',
+      'SELECT id, email, email_verified, role, first_name, last_name, phone, created_at, updated_at FROM "User" WHERE id = $1',
       [req.user!.userId]
     );
 
@@ -24,6 +30,7 @@ router.get('/profile', authenticateToken, async (req: AuthRequest, res) => {
     res.json({
       id: user.id,
       email: user.email,
+      email_verified: user.email_verified,
       role: user.role,
       first_name: user.first_name,
       last_name: user.last_name,
@@ -42,6 +49,11 @@ router.put('/profile', authenticateToken, validateProfileUpdate, async (req: Aut
   try {
     const { firstName, lastName, phone } = req.body;
 
+    const beforeResult = await pool.query(
+      'SELECT id, email, email_verified, role, first_name, last_name, phone, created_at, updated_at FROM "User" WHERE id = $1',
+      [req.user!.userId]
+    );
+
     const result = await pool.query(`
       UPDATE "User" 
       SET first_name = COALESCE($1, first_name),
@@ -49,15 +61,18 @@ router.put('/profile', authenticateToken, validateProfileUpdate, async (req: Aut
           phone = COALESCE($3, phone),
           updated_at = NOW()
       WHERE id = $4
-      RETURNING id, email, role, first_name, last_name, phone, created_at, updated_at
+      RETURNING id, email, email_verified, role, first_name, last_name, phone, created_at, updated_at
     `, [firstName, lastName, phone, req.user!.userId]);
 
     const user = result.rows[0];
+    await recordAudit(req, { action: 'update', entityType: 'User', entityId: user.id, before: beforeResult.rows[0], after: user });
+
     res.json({
       message: 'Profile updated successfully',
       user: {
         id: user.id,
         email: user.email,
+        email_verified: user.email_verified,
         role: user.role,
         first_name: user.first_name,
         last_name: user.last_name,
@@ -72,6 +87,84 @@ router.put('/profile', authenticateToken, validateProfileUpdate, async (req: Aut
   }
 });
 
+// Change password (requires the current one); every other signed-in device is signed out
+router.put('/password', authenticateToken, validatePasswordChange, async (req: AuthRequest, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { currentPassword, newPassword } = req.body;
+    const userId = req.user!.userId;
+
+    await client.query('BEGIN');
+
+    const userResult = await client.query(
+      'SELECT password FROM "User" WHERE id = $1 FOR UPDATE',
+      [userId]
+    );
+
+    if (userResult.rows.length === 0) {
+      await client.query('ROLLBACK');
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    if (!(await bcrypt.compare(currentPassword, userResult.rows[0].password))) {
+      await client.query('ROLLBACK');
+      res.status(400).json({ error: 'Current password is incorrect' });
+      return;
+    }
+
+    if (await isPasswordReused(userId, newPassword, client)) {
+      await client.query('ROLLBACK');
+      res.status(400).json({ error: 'Please choose a password you have not used recently' });
+      return;
+    }
+
+    await setUserPassword(userId, newPassword, client);
+    await invalidateAccountTokens(userId, 'reset_password', client);
+    const signedOut = await revokeUserSessions(userId, 'password_changed', client, req.user!.sessionId);
+
+    await recordAudit(req, {
+      action: 'change_password',
+      entityType: 'User',
+      entityId: userId,
+      after: { other_sessions_signed_out: signedOut }
+    }, client);
+
+    await client.query('COMMIT');
+
+    res.json({
+      message: signedOut > 0
+        ? 'Password changed successfully. Your other devices have been signed out.'
+        : 'Password changed successfully'
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Password change error:', error);
+    res.status(500).json({ error: 'Failed to change password' });
+  } finally {
+    client.release();
+  }
+});
+
+// Get the signed-in user's recent sign-ins, including failed attempts on their account
+router.get('/login-history', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const result = await pool.query(`
+      SELECT id, success, failure_reason, ip_address, user_agent, unfamiliar, created_at
+      FROM "LoginHistory"
+      WHERE user_id = $1
+      ORDER BY created_at DESC
+      LIMIT 20
+    `, [req.user!.userId]);
+
+    res.json(result.rows);
+  } catch (error) {
+    console.error('Login history fetch error:', error);
+    res.status(500).json({ error: 'Failed to fetch login history' });
+  }
+});
+
 // Delete user account (and all related data via CASCADE)
 router.delete('/account', authenticateToken, async (req: AuthRequest, res) => {
   const client = await pool.connect();
@@ -102,20 +195,27 @@ router.delete('/account', authenticateToken, async (req: AuthRequest, res) => {
       return;
     }
     
+    // Children who have no other guardian are removed along with the account
+    const soleChildren = `
+      SELECT s.id FROM "Student" s
+      WHERE s.parent_id = $1 AND s.active = TRUE
+        AND NOT EXISTS (
+          SELECT 1 FROM "StudentGuardian" sg WHERE sg.student_id = s.id AND sg.guardian_id <> $1
+        )
+    `;
+
     // Get count of affected records for confirmation
     const [studentsResult, enrollmentsResult, paymentsResult] = await Promise.all([
-      client.query('SELECT COUNT(*) as count FROM "Student" WHERE parent_id = $1 AND active = TRUE', [userId]),
+      client.query(`SELECT COUNT(*) as count FROM (${soleChildren}) sole`, [userId]),
       client.query(`
         SELECT COUNT(DISTINCT e.id) as count 
         FROM "Enrollment" e 
-        JOIN "Student" s ON e.student_id = s.id 
-        WHERE s.parent_id = $1 AND s.active = TRUE AND e.status = 'enrolled'
+        WHERE e.student_id IN (${soleChildren}) AND e.status = 'enrolled'
       `, [userId]),
       client.query(`
         SELECT COUNT(*) as count 
         FROM "Payment" p 
-        JOIN "Student" s ON p.student_id = s.id 
-        WHERE s.parent_id = $1 AND s.active = TRUE
+        WHERE p.student_id IN (${soleChildren})
       `, [userId])
     ]);
     
@@ -123,20 +223,66 @@ router.delete('/account', authenticateToken, async (req: AuthRequest, res) => {
     const enrollmentsCount = parseInt(enrollmentsResult.rows[0].count);
     const paymentsCount = parseInt(paymentsResult.rows[0].count);
     
-    // Cancel all active enrollments for this parent's students
+    // Cancel all active enrollments for those students
     await client.query(`
       UPDATE "Enrollment" 
       SET status = 'cancelled', cancelled_at = NOW()
-      WHERE student_id IN (
-        SELECT id FROM "Student" WHERE parent_id = $1 AND active = TRUE
-      ) AND status = 'enrolled'
+      WHERE student_id IN (${soleChildren}) AND status = 'enrolled'
     `, [userId]);
     
-    // Soft delete all students
-    await client.query('UPDATE "Student" SET active = FALSE WHERE parent_id = $1', [userId]);
+    // Soft delete those students, and switch off their own sign-ins
+    const removedResult = await client.query(
+      `UPDATE "Student" SET active = FALSE WHERE id IN (${soleChildren}) RETURNING id`,
+      [userId]
+    );
+    await closeStudentAccounts(removedResult.rows.map(row => row.id), client);
+
+    // Children with other guardians stay; the longest-standing of them becomes the primary guardian
+    const handedOverResult = await client.query(`
+      UPDATE "Student" s
+      SET parent_id = next_guardian.guardian_id, updated_at = NOW()
+      FROM (
+        SELECT DISTINCT ON (sg.student_id) sg.student_id, sg.guardian_id
+        FROM "StudentGuardian" sg
+        JOIN "Student" st ON sg.student_id = st.id
+        WHERE st.parent_id = $1 AND st.active = TRUE AND sg.guardian_id <> $1
+        ORDER BY sg.student_id, sg.created_at
+      ) next_guardian
+      WHERE s.id = next_guardian.student_id
+      RETURNING s.id, s.parent_id
+    `, [userId]);
+
+    for (const student of handedOverResult.rows) {
+      await client.query(`
+        UPDATE "StudentGuardian"
+        SET is_primary = TRUE, can_enroll = TRUE, can_view_payments = TRUE, updated_at = NOW()
+        WHERE student_id = $1 AND guardian_id = $2
+      `, [student.id, student.parent_id]);
+    }
+
+    // Drop this account's links to children it no longer holds
+    await client.query(`
+      DELETE FROM "StudentGuardian" sg
+      USING "Student" s
+      WHERE sg.student_id = s.id AND sg.guardian_id = $1 AND s.parent_id <> $1
+    `, [userId]);
     
     // Soft delete user account
     await client.query('UPDATE "User" SET active = FALSE WHERE id = $1', [userId]);
+
+    await recordAudit(req, {
+      action: 'delete',
+      entityType: 'User',
+      entityId: userId,
+      before: { ...user, active: true },
+      after: {
+        ...user,
+        active: false,
+        students: studentsCount,
+        enrollments_cancelled: enrollmentsCount,
+        students_handed_over: handedOverResult.rows.length
+      }
+    }, client);
     
     await client.query('COMMIT');
     
@@ -145,7 +291,8 @@ router.delete('/account', authenticateToken, async (req: AuthRequest, res) => {
       deletedData: {
         students: studentsCount,
         enrollments: enrollmentsCount,
-        payments: paymentsCount
+        payments: paymentsCount,
+        studentsHandedOver: handedOverResult.rows.length
       }
     });
     
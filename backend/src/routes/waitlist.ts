@@ -0,0 +1,310 @@
+// backend/src/routes/waitlist.ts
+
+import express from 'express';
+import { pool } from '../index';
+import { authenticateToken, requirePermission, AuthRequest } from '../middleware/auth';
+import { getOccupiedSeats, processWaitlist, expireWaitlistOffers } from '../services/waitlist';
+import { getEnrollmentBlockReason } from '../services/dunning';
+import { isGuardianOf } from '../services/guardians';
+import { notifyGuardians } from '../services/notifications';
+import { formatNotificationTime } from '../config/notifications';
+
+const router = express.Router();
+
+// Join the waitlist for a full class (parents only)
+router.post('/', authenticateToken, requirePermission('enrollment.manage_own'), async (req: AuthRequest, res) => {
+  try {
+    const { studentId, classId } = req.body;
+
+    if (!studentId || !classId) {
+      res.status(400).json({ error: 'Student ID and Class ID are required' });
+      return;
+    }
+
+    // Verify this parent is a guardian who can enroll the student and get student details
+    const studentCheck = await pool.query(`
+      SELECT s.id, s.first_name, s.last_name, s.grade, s.parent_id
+      FROM "Student" s
+      WHERE s.id = $1 AND ${isGuardianOf('s', '$2', 'can_enroll')} AND s.active = TRUE
+    `, [studentId, req.user!.userId]);
+
+    if (studentCheck.rows.length === 0) {
+      res.status(403).json({ error: 'Student not found or access denied' });
+      return;
+    }
+
+    const student = studentCheck.rows[0];
+
+    // Family accounts overdue past the admin-configured threshold cannot take new bookings
+    const blockReason = await getEnrollmentBlockReason(student.parent_id);
+    if (blockReason) {
+      res.status(403).json({ error: blockReason, enrollment_blocked: true });
+      return;
+    }
+
+    const classCheck = await pool.query(
+      'SELECT id, subject, level, capacity FROM "Class" WHERE id = $1 AND active = TRUE AND start_time > NOW()',
+      [classId]
+    );
+
+    if (classCheck.rows.length === 0) {
+      res.status(400).json({ error: 'Class not found or has already started' });
+      return;
+    }
+
+    const classInfo = classCheck.rows[0];
+
+    // Same grade rule as enrollment
+    if (classInfo.level !== 'Mixed Levels' && student.grade !== classInfo.level) {
+      res.status(400).json({
+        error: `Student grade (${student.grade}) does not match class level (${classInfo.level}). Students can only join classes for their grade level or Mixed Levels classes.`
+      });
+      return;
+    }
+
+    const enrollmentCheck = await pool.query(
+      'SELECT id FROM "Enrollment" WHERE student_id = $1 AND class_id = $2 AND status = $3',
+      [studentId, classId, 'enrolled']
+    );
+
+    if (enrollmentCheck.rows.length > 0) {
+      res.status(400).json({ error: 'Student is already enrolled in this class' });
+      return;
+    }
+
+    const existingCheck = await pool.query(
+      `SELECT id FROM "Waitlist" WHERE student_id = $1 AND class_id = $2 AND status IN ('waiting', 'offered')`,
+      [studentId, classId]
+    );
+
+    if (existingCheck.rows.length > 0) {
+      res.status(400).json({ error: 'Student is already on the waitlist for this class' });
+      return;
+    }
+
+    // Only full classes have a waitlist
+    const occupiedSeats = await getOccupiedSeats(classId);
+    if (occupiedSeats < classInfo.capacity) {
+      res.status(400).json({ error: 'Class still has available spots. Please enroll directly.' });
+      return;
+    }
+
+    const result = await pool.query(`
+      INSERT INTO "Waitlist" (class_id, student_id, requested_by)
+      VALUES ($1, $2, $3)
+      RETURNING id, status, created_at
+    `, [classId, studentId, req.user!.userId]);
+
+    const positionResult = await pool.query(
+      `SELECT COUNT(*) as position FROM "Waitlist" WHERE class_id = $1 AND status = 'waiting' AND created_at <= $2`,
+      [classId, result.rows[0].created_at]
+    );
+
+    const position = parseInt(positionResult.rows[0].position) || 1;
+
+    res.status(201).json({
+      message: `${student.first_name} ${student.last_name} added to the waitlist for ${classInfo.subject} (position ${position})`,
+      waitlist: { ...result.rows[0], position }
+    });
+
+  } catch (error) {
+    console.error('Join waitlist error:', error);
+    res.status(500).json({ error: 'Failed to join waitlist' });
+  }
+});
+
+// Get waitlist entries for parent's students (parents only)
+router.get('/my-students', authenticateToken, requirePermission('enrollment.manage_own'), async (req: AuthRequest, res) => {
+  try {
+    await expireWaitlistOffers();
+
+    const result = await pool.query(`
+      SELECT w.id, w.class_id, w.student_id, w.status, w.created_at, w.offered_at, w.offer_expires_at,
+             CONCAT(s.first_name, ' ', s.last_name) as student_name,
+             c.subject, c.level, c.start_time, c.duration_minutes,
+             b.name as branch_name, cr.room_name as classroom_name,
+             CASE WHEN w.status = 'waiting' THEN (
+               SELECT COUNT(*) FROM "Waitlist" w2
+               WHERE w2.class_id = w.class_id AND w2.status = 'waiting'
+                 AND (w2.created_at, w2.id) <= (w.created_at, w.id)
+             ) END as position
+      FROM "Waitlist" w
+      JOIN "Student" s ON w.student_id = s.id
+      JOIN "Class" c ON w.class_id = c.id
+      LEFT JOIN "Branch" b ON c.branch_id = b.id
+      LEFT JOIN "Classroom" cr ON c.classroom_id = cr.id
+      WHERE ${isGuardianOf('s', '$1')} AND s.active = TRUE AND c.active = TRUE
+        AND w.status IN ('waiting', 'offered') AND c.start_time > NOW()
+      ORDER BY c.start_time
+    `, [req.user!.userId]);
+
+    res.json(result.rows.map(row => ({
+      ...row,
+      position: row.position !== null ? parseInt(row.position) : null
+    })));
+
+  } catch (error) {
+    console.error('Get waitlist error:', error);
+    res.status(500).json({ error: 'Failed to fetch waitlist' });
+  }
+});
+
+// Get the waitlist for a specific class (staff and admin only)
+router.get('/class/:classId', authenticateToken, requirePermission('enrollment.view_class'), async (req: AuthRequest, res) => {
+  try {
+    const { classId } = req.params;
+
+    await expireWaitlistOffers();
+
+    const result = await pool.query(`
+      SELECT w.id, w.student_id, w.status, w.created_at, w.offered_at, w.offer_expires_at,
+             CONCAT(s.first_name, ' ', s.last_name) as student_name, s.grade,
+             u.first_name as parent_first_name, u.last_name as parent_last_name, u.email as parent_email,
+             ROW_NUMBER() OVER (ORDER BY w.created_at, w.id) as position
+      FROM "Waitlist" w
+      JOIN "Student" s ON w.student_id = s.id
+      JOIN "User" u ON s.parent_id = u.id
+      WHERE w.class_id = $1 AND w.status IN ('waiting', 'offered') AND s.active = TRUE
+      ORDER BY w.created_at, w.id
+    `, [classId]);
+
+    res.json(result.rows.map(row => ({
+      ...row,
+      position: parseInt(row.position)
+    })));
+
+  } catch (error) {
+    console.error('Get class waitlist error:', error);
+    res.status(500).json({ error: 'Failed to fetch class waitlist' });
+  }
+});
+
+// Confirm a held seat and enroll the student (parents only)
+router.post('/:id/accept', authenticateToken, requirePermission('enrollment.manage_own'), async (req: AuthRequest, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { id } = req.params;
+
+    await client.query('BEGIN');
+
+    const entryCheck = await client.query(`
+      SELECT w.id, w.class_id, w.student_id, w.offer_expires_at, s.parent_id,
+             CONCAT(s.first_name, ' ', s.last_name) as student_name,
+             c.subject, c.start_time
+      FROM "Waitlist" w
+      JOIN "Student" s ON w.student_id = s.id
+      JOIN "Class" c ON w.class_id = c.id
+      WHERE w.id = $1 AND ${isGuardianOf('s', '$2', 'can_enroll')} AND s.active = TRUE
+        AND w.status = 'offered' AND w.offer_expires_at > NOW()
+        AND c.active = TRUE AND c.start_time > NOW()
+      FOR UPDATE OF w
+    `, [id, req.user!.userId]);
+
+    if (entryCheck.rows.length === 0) {
+      await client.query('ROLLBACK');
+      res.status(404).json({ error: 'Waitlist offer not found, access denied, or the hold has expired' });
+      return;
+    }
+
+    const entry = entryCheck.rows[0];
+
+    // The account may have fallen overdue since the student joined the waitlist
+    const blockReason = await getEnrollmentBlockReason(entry.parent_id, client);
+    if (blockReason) {
+      await client.query('ROLLBACK');
+      res.status(403).json({ error: blockReason, enrollment_blocked: true });
+      return;
+    }
+
+    const enrollmentResult = await client.query(`
+      INSERT INTO "Enrollment" (student_id, class_id, enrolled_by, status)
+      VALUES ($1, $2, $3, $4)
+      RETURNING id, enrolled_at, status
+    `, [entry.student_id, entry.class_id, req.user!.userId, 'enrolled']);
+
+    await client.query(`
+      UPDATE "Waitlist"
+      SET status = 'accepted', responded_at = NOW(), enrollment_id = $2
+      WHERE id = $1
+    `, [id, enrollmentResult.rows[0].id]);
+
+    await notifyGuardians([entry.student_id], 'enrollment_confirmed', {
+      subject: entry.subject,
+      when: formatNotificationTime(entry.start_time)
+    }, client);
+
+    await client.query('COMMIT');
+
+    res.json({
+      message: `${entry.student_name} enrolled in ${entry.subject} successfully`,
+      enrollment: enrollmentResult.rows[0]
+    });
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Accept waitlist offer error:', error);
+    res.status(500).json({ error: 'Failed to confirm waitlist offer' });
+  } finally {
+    client.release();
+  }
+});
+
+// Decline a held seat so it passes to the next student (parents only)
+router.post('/:id/decline', authenticateToken, requirePermission('enrollment.manage_own'), async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+
+    const result = await pool.query(`
+      UPDATE "Waitlist" w
+      SET status = 'declined', responded_at = NOW()
+      FROM "Student" s
+      WHERE w.student_id = s.id AND w.id = $1 AND ${isGuardianOf('s', '$2', 'can_enroll')} AND w.status = 'offered'
+      RETURNING w.class_id
+    `, [id, req.user!.userId]);
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Waitlist offer not found or access denied' });
+      return;
+    }
+
+    await processWaitlist(result.rows[0].class_id);
+
+    res.json({ message: 'Waitlist offer declined' });
+
+  } catch (error) {
+    console.error('Decline waitlist offer error:', error);
+    res.status(500).json({ error: 'Failed to decline waitlist offer' });
+  }
+});
+
+// Leave the waitlist (parents only)
+router.delete('/:id', authenticateToken, requirePermission('enrollment.manage_own'), async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+
+    const result = await pool.query(`
+      UPDATE "Waitlist" w
+      SET status = 'cancelled', responded_at = NOW()
+      FROM "Student" s
+      WHERE w.student_id = s.id AND w.id = $1 AND ${isGuardianOf('s', '$2', 'can_enroll')} AND w.status IN ('waiting', 'offered')
+      RETURNING w.class_id
+    `, [id, req.user!.userId]);
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Waitlist entry not found or access denied' });
+      return;
+    }
+
+    // A released hold goes to the next student in line
+    await processWaitlist(result.rows[0].class_id);
+
+    res.json({ message: 'Removed from waitlist' });
+
+  } catch (error) {
+    console.error('Leave waitlist error:', error);
+    res.status(500).json({ error: 'Failed to leave waitlist' });
+  }
+});
+
+export default router;
@@ -0,0 +1,160 @@
+// backend/src/services/accountTokens.ts
+
+import jwt from 'jsonwebtoken';
+import { Pool, PoolClient } from 'pg';
+import { pool } from '../index';
+import { sendMail } from './mailer';
+
+export type AccountTokenPurpose = 'verify_email' | 'reset_password';
+
+interface AccountTokenUser {
+  id: string;
+  email: string;
+  first_name: string;
+}
+
+// How long each kind of link stays valid
+const TOKEN_LIFETIME_MINUTES: Record<AccountTokenPurpose, number> = {
+  verify_email: 48 * 60,
+  reset_password: 60
+};
+
+const getJwtSecret = (): string => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET is not configured');
+  }
+  return secret;
+};
+
+const getFrontendUrl = (): string => process.env.FRONTEND_URL || 'http://localhost:5173';
+
+// Issue a signed link token. The signature stops forgery; the database row (the jti) makes it single-use
+// and lets every outstanding token of a purpose be cancelled at once.
+export const createAccountToken = async (
+  user: AccountTokenUser,
+  purpose: AccountTokenPurpose,
+  db: Pool | PoolClient = pool
+): Promise<string> => {
+  const lifetimeMinutes = TOKEN_LIFETIME_MINUTES[purpose];
+
+  const result = await db.query(`
+    INSERT INTO "AccountToken" (user_id, purpose, email, expires_at)
+    VALUES ($1, $2, $3, NOW() + make_interval(mins => $4))
+    RETURNING id
+  `, [user.id, purpose, user.email, lifetimeMinutes]);
+
+  return jwt.sign(
+    { purpose },
+    getJwtSecret(),
+    { subject: user.id, jwtid: result.rows[0].id, audience: purpose, expiresIn: lifetimeMinutes * 60 }
+  );
+};
+
+// Check a link token and mark it used. Returns null when it is forged, expired, already used,
+// or was issued for an email address the account no longer has.
+export const consumeAccountToken = async (
+  token: string,
+  purpose: AccountTokenPurpose,
+  db: Pool | PoolClient = pool
+): Promise<{ userId: string; email: string } | null> => {
+  let decoded: jwt.JwtPayload;
+
+  try {
+    decoded = jwt.verify(token, getJwtSecret(), { algorithms: ['HS256'], audience: purpose }) as jwt.JwtPayload;
+  } catch {
+    return null;
+  }
+
+  if (!decoded.sub || !decoded.jti) {
+    return null;
+  }
+
+  const result = await db.query(`
+    UPDATE "AccountToken" t
+    SET used_at = NOW()
+    FROM "User" u
+    WHERE t.id = $1 AND t.user_id = $2 AND t.purpose = $3
+      AND t.used_at IS NULL AND t.expires_at > NOW()
+      AND u.id = t.user_id AND u.email = t.email AND u.active = TRUE
+    RETURNING t.user_id, t.email
+  `, [decoded.jti, decoded.sub, purpose]);
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  return { userId: result.rows[0].user_id, email: result.rows[0].email };
+};
+
+// Cancel a user's unused tokens of one purpose, e.g. older reset links once the password has changed
+export const invalidateAccountTokens = async (
+  userId: string,
+  purpose: AccountTokenPurpose,
+  db: Pool | PoolClient = pool
+): Promise<void> => {
+  await db.query(`
+    UPDATE "AccountToken"
+    SET used_at = NOW()
+    WHERE user_id = $1 AND purpose = $2 AND used_at IS NULL
+  `, [userId, purpose]);
+};
+
+// Whether a token of this purpose was sent recently, so repeated requests do not flood an inbox
+export const hasRecentAccountToken = async (
+  userId: string,
+  purpose: AccountTokenPurpose,
+  withinMinutes: number
+): Promise<boolean> => {
+  const result = await pool.query(`
+    SELECT EXISTS (
+      SELECT 1 FROM "AccountToken"
+      WHERE user_id = $1 AND purpose = $2 AND created_at > NOW() - make_interval(mins => $3)
+    ) as recent
+  `, [userId, purpose, withinMinutes]);
+
+  return result.rows[0].recent;
+};
+
+export const sendVerificationEmail = async (user: AccountTokenUser): Promise<void> => {
+  const token = await createAccountToken(user, 'verify_email');
+  const link = `${getFrontendUrl()}/?verifyEmail=${encodeURIComponent(token)}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Please verify your email address',
+    text: [
+      `Hi ${user.first_name},`,
+      '',
+      'Thanks for registering with EduSpark Tuition. Please confirm your email address by opening this link:',
+      '',
+      link,
+      '',
+      `The link expires in ${TOKEN_LIFETIME_MINUTES.verify_email / 60} hours.`,
+      '',
+      'EduSpark Tuition'
+    ].join('\n')
+  });
+};
+
+export const sendPasswordResetEmail = async (user: AccountTokenUser): Promise<void> => {
+  const token = await createAccountToken(user, 'reset_password');
+  const link = `${getFrontendUrl()}/?resetToken=${encodeURIComponent(token)}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your password',
+    text: [
+      `Hi ${user.first_name},`,
+      '',
+      'We received a request to reset the password for your EduSpark Tuition account. Choose a new password here:',
+      '',
+      link,
+      '',
+      `The link expires in ${TOKEN_LIFETIME_MINUTES.reset_password} minutes and can only be used once.`,
+      'If you did not ask for this, you can ignore this email; your password stays the same.',
+      '',
+      'EduSpark Tuition'
+    ].join('\n')
+  });
+};
@@ -0,0 +1,154 @@
+// backend/src/services/attendanceAlerts.ts
+
+import { Pool, PoolClient } from 'pg';
+import { pool } from '../index';
+import { DEFAULT_RATE_WINDOW_SESSIONS } from '../config/attendanceAlerts';
+import { getAttendanceSessions, getCountedSessions, AttendanceSession } from './attendanceStats';
+import { notifyGuardians, notifyUsers } from './notifications';
+
+interface TriggeredAlert {
+  // The absence that tipped the rule over, so the same alert is never raised twice for it
+  attendanceId: string;
+  details: string;
+}
+
+const describeSession = (session: AttendanceSession): string =>
+  `${session.subject}, ${new Date(session.start_time).toLocaleDateString('en-SG', { day: '2-digit', month: 'short' })}`;
+
+// A consecutive-absences rule fires when the run of absences reaches the threshold, once per run
+const checkConsecutiveAbsences = (counted: AttendanceSession[], threshold: number): TriggeredAlert | null => {
+  const run = counted.findIndex(session => session.status !== 'absent');
+  const length = run === -1 ? counted.length : run;
+
+  if (length !== threshold) {
+    return null;
+  }
+
+  return {
+    attendanceId: counted[0].attendance_id!,
+    details: `missed ${length} sessions in a row (latest: ${describeSession(counted[0])})`
+  };
+};
+
+// An absence-rate rule fires when the latest absence takes the rate over the last window of sessions to
+// the threshold. It waits for at least half a window of history, and the caller skips it while an earlier
+// alert from the same rule is still inside the window.
+const checkAbsenceRate = (counted: AttendanceSession[], threshold: number, windowSessions: number): TriggeredAlert | null => {
+  const window = counted.slice(0, windowSessions);
+  if (counted[0]?.status !== 'absent' || window.length < Math.ceil(windowSessions / 2)) {
+    return null;
+  }
+
+  const absences = window.filter(session => session.status === 'absent').length;
+  const rate = Math.round((absences / window.length) * 100);
+  if (rate < threshold) {
+    return null;
+  }
+
+  return {
+    attendanceId: counted[0].attendance_id!,
+    details: `missed ${absences} of the last ${window.length} sessions (${rate}%)`
+  };
+};
+
+// Staff who should hear about a student's attendance: roles with attendance.view_all, working at the
+// student's home branch (or across every branch)
+const getBranchAdminIds = async (branchId: string | null, db: Pool | PoolClient): Promise<string[]> => {
+  const result = await db.query(`
+    SELECT u.id
+    FROM "User" u
+    WHERE u.active = TRUE
+      AND EXISTS (SELECT 1 FROM "RolePermission" rp WHERE rp.role_id = u.role_id AND rp.permission = 'attendance.view_all')
+      AND (
+        EXISTS (SELECT 1 FROM "RolePermission" rp WHERE rp.role_id = u.role_id AND rp.permission = 'branch.all')
+        OR EXISTS (SELECT 1 FROM "StaffBranch" sb WHERE sb.user_id = u.id AND sb.branch_id = $1)
+      )
+  `, [branchId]);
+
+  return result.rows.map(row => row.id);
+};
+
+// Check the active alert rules for students who were just marked absent, record an alert for each
+// rule that fires and notify the guardians and branch admins the rule asks for. Pass the transaction
+// client so alerts only exist if the attendance they are about was saved. Returns the alerts raised.
+export const evaluateAttendanceAlerts = async (studentIds: string[], db: Pool | PoolClient = pool): Promise<number> => {
+  if (studentIds.length === 0) {
+    return 0;
+  }
+
+  const rulesResult = await db.query(`
+    SELECT id, name, rule_type, threshold, window_sessions, notify_guardians, notify_branch_admins
+    FROM "AttendanceAlertRule"
+    WHERE active = TRUE
+  `);
+
+  if (rulesResult.rows.length === 0) {
+    return 0;
+  }
+
+  const studentsResult = await db.query(`
+    SELECT s.id, CONCAT(s.first_name, ' ', s.last_name) as student_name, s.home_branch_id, b.name as branch_name
+    FROM "Student" s
+    LEFT JOIN "Branch" b ON s.home_branch_id = b.id
+    WHERE s.id = ANY($1::uuid[]) AND s.active = TRUE
+  `, [[...new Set(studentIds)]]);
+
+  let raised = 0;
+
+  for (const student of studentsResult.rows) {
+    const counted = getCountedSessions(await getAttendanceSessions(student.id, db));
+    if (counted.length === 0) {
+      continue;
+    }
+
+    for (const rule of rulesResult.rows) {
+      const windowSessions = rule.window_sessions || DEFAULT_RATE_WINDOW_SESSIONS;
+      const triggered = rule.rule_type === 'consecutive_absences'
+        ? checkConsecutiveAbsences(counted, rule.threshold)
+        : checkAbsenceRate(counted, rule.threshold, windowSessions);
+
+      if (!triggered) {
+        continue;
+      }
+
+      if (rule.rule_type === 'absence_rate') {
+        const windowIds = counted.slice(0, windowSessions).map(session => session.attendance_id);
+        const recentAlert = await db.query(
+          'SELECT 1 FROM "AttendanceAlert" WHERE rule_id = $1 AND attendance_id = ANY($2::uuid[]) LIMIT 1',
+          [rule.id, windowIds]
+        );
+        if (recentAlert.rows.length > 0) {
+          continue;
+        }
+      }
+
+      const alertResult = await db.query(`
+        INSERT INTO "AttendanceAlert" (rule_id, rule_name, student_id, attendance_id, details)
+        VALUES ($1, $2, $3, $4, $5)
+        ON CONFLICT (rule_id, attendance_id) DO NOTHING
+        RETURNING id
+      `, [rule.id, rule.name, student.id, triggered.attendanceId, triggered.details]);
+
+      if (alertResult.rows.length === 0) {
+        continue;
+      }
+
+      if (rule.notify_guardians) {
+        await notifyGuardians([student.id], 'attendance_alert', { details: triggered.details }, db);
+      }
+
+      if (rule.notify_branch_admins) {
+        await notifyUsers(await getBranchAdminIds(student.home_branch_id, db), 'student_attendance_alert', {
+          studentName: student.student_name,
+          branchName: student.branch_name || 'no home branch',
+          details: triggered.details,
+          ruleName: rule.name
+        }, db);
+      }
+
+      raised++;
+    }
+  }
+
+  return raised;
+};
@@ -0,0 +1,111 @@
+// backend/src/services/attendanceStats.ts
+
+import { Pool, PoolClient } from 'pg';
+import { pool } from '../index';
+
+export type MarkedStatus = 'present' | 'late' | 'absent' | 'excused';
+
+export interface AttendanceSession {
+  class_id: string;
+  subject: string;
+  start_time: Date;
+  branch_name: string | null;
+  attendance_id: string | null;
+  status: MarkedStatus | null;
+}
+
+export interface AttendanceCounts {
+  present: number;
+  late: number;
+  absent: number;
+  excused: number;
+  not_marked: number;
+}
+
+export interface StudentAttendanceStats {
+  summary: AttendanceCounts;
+  // Share of marked sessions attended (present or late), excused absences left out; null before any are marked
+  attendance_rate: number | null;
+  // The run the student is on now, counting back from the latest marked session
+  current_streak: { status: 'attended' | 'absent'; length: number } | null;
+  longest_attended_streak: number;
+  subjects: (AttendanceCounts & { subject: string; attendance_rate: number | null })[];
+  recent: AttendanceSession[];
+}
+
+// Sessions shown in the recent list
+const RECENT_SESSION_COUNT = 10;
+
+const emptyCounts = (): AttendanceCounts => ({ present: 0, late: 0, absent: 0, excused: 0, not_marked: 0 });
+
+const attendanceRate = (counts: AttendanceCounts): number | null => {
+  const counted = counts.present + counts.late + counts.absent;
+  return counted > 0 ? Math.round(((counts.present + counts.late) / counted) * 1000) / 10 : null;
+};
+
+// Every session of a student's current and finished enrollments that has started, newest first,
+// with its attendance record if one was taken (cancelled enrollments are left out)
+export const getAttendanceSessions = async (studentId: string, db: Pool | PoolClient = pool): Promise<AttendanceSession[]> => {
+  const result = await db.query(`
+    SELECT c.id as class_id, c.subject, c.start_time, b.name as branch_name,
+           a.id as attendance_id, a.status
+    FROM "Enrollment" e
+    JOIN "Class" c ON e.class_id = c.id
+    LEFT JOIN "Branch" b ON c.branch_id = b.id
+    LEFT JOIN "Attendance" a ON a.enrollment_id = e.id
+    WHERE e.student_id = $1 AND e.status IN ('enrolled', 'completed') AND c.start_time <= NOW()
+    ORDER BY c.start_time DESC
+  `, [studentId]);
+
+  return result.rows;
+};
+
+// Attended or absent sessions only, newest first: excused absences and sessions not marked yet
+// neither count towards nor break a streak
+export const getCountedSessions = (sessions: AttendanceSession[]): AttendanceSession[] =>
+  sessions.filter(session => session.status !== null && session.status !== 'excused');
+
+// Attendance rate, streaks and a per-subject breakdown for one student
+export const getStudentAttendanceStats = async (studentId: string, db: Pool | PoolClient = pool): Promise<StudentAttendanceStats> => {
+  const sessions = await getAttendanceSessions(studentId, db);
+
+  const summary = emptyCounts();
+  const bySubject = new Map<string, AttendanceCounts>();
+
+  for (const session of sessions) {
+    const key = session.status || 'not_marked';
+    summary[key]++;
+
+    if (!bySubject.has(session.subject)) {
+      bySubject.set(session.subject, emptyCounts());
+    }
+    bySubject.get(session.subject)![key]++;
+  }
+
+  const counted = getCountedSessions(sessions);
+  let currentStreak: StudentAttendanceStats['current_streak'] = null;
+
+  if (counted.length > 0) {
+    const isAbsent = counted[0].status === 'absent';
+    const length = counted.findIndex(session => (session.status === 'absent') !== isAbsent);
+    currentStreak = { status: isAbsent ? 'absent' : 'attended', length: length === -1 ? counted.length : length };
+  }
+
+  let longestAttendedStreak = 0;
+  let run = 0;
+  for (const session of counted) {
+    run = session.status === 'absent' ? 0 : run + 1;
+    longestAttendedStreak = Math.max(longestAttendedStreak, run);
+  }
+
+  return {
+    summary,
+    attendance_rate: attendanceRate(summary),
+    current_streak: currentStreak,
+    longest_attended_streak: longestAttendedStreak,
+    subjects: [...bySubject.entries()]
+      .map(([subject, counts]) => ({ subject, ...counts, attendance_rate: attendanceRate(counts) }))
+      .sort((a, b) => a.subject.localeCompare(b.subject)),
+    recent: sessions.slice(0, RECENT_SESSION_COUNT)
+  };
+};
@@ -0,0 +1,74 @@
+// backend/src/services/audit.ts
+
+import { Pool, PoolClient } from 'pg';
+import { pool } from '../index';
+import { AuthRequest } from '../middleware/auth';
+
+type AuditData = Record<string, unknown>;
+
+export interface AuditEntry {
+  action: 'create' | 'update' | 'delete' | string;
+  entityType: string;
+  entityId?: string | null;
+  before?: AuditData | null;
+  after?: AuditData | null;
+  // Overrides the signed-in user, e.g. for self-registration where nobody is signed in yet
+  actor?: { userId: string; email: string; role: string };
+}
+
+const SENSITIVE_FIELD = /password|token|secret/i;
+
+// Never store credentials in the audit trail, however deeply they are nested
+const redact = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(redact);
+  }
+
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(Object.entries(value).map(([key, fieldValue]) =>
+      [key, SENSITIVE_FIELD.test(key) ? '[redacted]' : redact(fieldValue)]
+    ));
+  }
+
+  return value;
+};
+
+// Fields whose value differs between the two snapshots (every field for a create or delete)
+export const getChangedFields = (before: AuditData | null, after: AuditData | null): string[] => {
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  return [...keys]
+    .filter(key => !before || !after || JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+    .sort();
+};
+
+// Append one entry to the audit trail for a write made during this request
+export const recordAudit = async (req: AuthRequest, entry: AuditEntry, db: Pool | PoolClient = pool): Promise<void> => {
+  const actor = entry.actor || (req.user ? { userId: req.user.userId, email: req.user.email, role: req.user.role } : null);
+  const before = entry.before ? redact(entry.before) as AuditData : null;
+  const after = entry.after ? redact(entry.after) as AuditData : null;
+
+  await db.query(`
+    INSERT INTO "AuditLog" (
+      actor_id, actor_email, actor_role, action, entity_type, entity_id,
+      before_data, after_data, changed_fields, ip_address, request_id, http_method, path
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+  `, [
+    actor?.userId || null,
+    actor?.email || null,
+    actor?.role || null,
+    entry.action,
+    entry.entityType,
+    entry.entityId || null,
+    before ? JSON.stringify(before) : null,
+    after ? JSON.stringify(after) : null,
+    getChangedFields(before, after),
+    req.ip || null,
+    req.requestId || null,
+    req.method,
+    req.originalUrl.split('?')[0]
+  ]);
+
+  req.auditRecorded = true;
+};
@@ -0,0 +1,336 @@
+// backend/src/services/billing.ts
+
+import { Pool, PoolClient } from 'pg';
+import { pool } from '../index';
+
+export interface InvoiceLineDraft {
+  line_type: 'tuition' | 'discount';
+  description: string;
+  class_id: string | null;
+  series_id: string | null;
+  sessions: number | null;
+  unit_price: number | null;
+  amount: number;
+  prorated: boolean;
+}
+
+export interface InvoiceDraft {
+  student_id: string;
+  student_name: string;
+  parent_id: string;
+  month: string;
+  line_items: InvoiceLineDraft[];
+  subtotal: number;
+  discount_total: number;
+  total: number;
+  unpriced: string[];
+}
+
+// Sibling discount applied to every child after the first in a family (read lazily, after dotenv has loaded)
+const getSiblingDiscountPercent = (): number => {
+  const percent = parseFloat(process.env.SIBLING_DISCOUNT_PERCENT || '10');
+  return isNaN(percent) || percent < 0 || percent > 100 ? 10 : percent;
+};
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+const normalize = (value: string | null | undefined): string => (value || '').trim().toLowerCase();
+
+// Pick the most specific active rate: class (one-off classes) or series, then subject + level, then subject only
+const resolveRate = (rates: any[], session: any): any | null => {
+  const specific = session.series_id
+    ? rates.find(rate => rate.series_id === session.series_id)
+    : rates.find(rate => rate.class_id === session.class_id);
+
+  if (specific) {
+    return specific;
+  }
+
+  const subjectRates = rates.filter(rate =>
+    !rate.series_id && !rate.class_id && normalize(rate.subject) === normalize(session.subject)
+  );
+
+  return subjectRates.find(rate => rate.level && normalize(rate.level) === normalize(session.level))
+    || subjectRates.find(rate => !rate.level)
+    || null;
+};
+
+const describeClass = (subject: string, level: string | null): string =>
+  level ? `${subject} (${level})` : subject;
+
+// Build (but do not save) the monthly invoices for every family with billable sessions in the month.
+// Siblings are always priced together so the sibling discount is the same whether one child or the
+// whole family is requested; studentIds only filters which drafts are returned.
+export const buildInvoiceDrafts = async (
+  month: string,
+  studentIds: string[] | null = null,
+  db: Pool | PoolClient = pool
+): Promise<InvoiceDraft[]> => {
+  const monthStart = `${month}-01`;
+
+  // Cancelled enrollments are not billed, no-shows are
+  const sessionsResult = await db.query(`
+    SELECT e.student_id, s.parent_id,
+           CONCAT(s.first_name, ' ', s.last_name) as student_name,
+           c.id as class_id, c.series_id, c.subject, c.level, c.start_time
+    FROM "Enrollment" e
+    JOIN "Student" s ON e.student_id = s.id
+    JOIN "Class" c ON e.class_id = c.id
+    WHERE e.status IN ('enrolled', 'completed', 'no-show')
+      AND c.active = TRUE
+      AND c.start_time >= $1::date
+      AND c.start_time < $1::date + INTERVAL '1 month'
+      AND ($2::uuid[] IS NULL OR s.parent_id IN (
+        SELECT parent_id FROM "Student" WHERE id = ANY($2::uuid[])
+      ))
+    ORDER BY s.parent_id, s.first_name, s.last_name, c.start_time
+  `, [monthStart, studentIds]);
+
+  if (sessionsResult.rows.length === 0) {
+    return [];
+  }
+
+  const seriesIds = [...new Set(sessionsResult.rows.filter(row => row.series_id).map(row => row.series_id))];
+
+  // Number of sessions each series runs in the month, used to pro-rate monthly fees
+  const seriesSessionCounts = new Map<string, number>();
+  if (seriesIds.length > 0) {
+    const countResult = await db.query(`
+      SELECT series_id, COUNT(*) as session_count
+      FROM "Class"
+      WHERE series_id = ANY($1::uuid[]) AND active = TRUE
+        AND start_time >= $2::date
+        AND start_time < $2::date + INTERVAL '1 month'
+      GROUP BY series_id
+    `, [seriesIds, monthStart]);
+
+    for (const row of countResult.rows) {
+      seriesSessionCounts.set(row.series_id, parseInt(row.session_count));
+    }
+  }
+
+  const ratesResult = await db.query(`
+    SELECT id, subject, level, series_id, class_id, session_fee, monthly_fee
+    FROM "TuitionRate"
+    WHERE active = TRUE
+  `);
+  const rates = ratesResult.rows.map(rate => ({
+    ...rate,
+    session_fee: parseFloat(rate.session_fee),
+    monthly_fee: rate.monthly_fee !== null ? parseFloat(rate.monthly_fee) : null
+  }));
+
+  // Group sessions per student, then per series (or per one-off class)
+  const drafts = new Map<string, InvoiceDraft>();
+  const groups = new Map<string, { studentId: string; sessions: any[] }>();
+
+  for (const row of sessionsResult.rows) {
+    if (!drafts.has(row.student_id)) {
+      drafts.set(row.student_id, {
+        student_id: row.student_id,
+        student_name: row.student_name,
+        parent_id: row.parent_id,
+        month,
+        line_items: [],
+        subtotal: 0,
+        discount_total: 0,
+        total: 0,
+        unpriced: []
+      });
+    }
+
+    const groupKey = `${row.student_id}:${row.series_id || row.class_id}`;
+    if (!groups.has(groupKey)) {
+      groups.set(groupKey, { studentId: row.student_id, sessions: [] });
+    }
+    groups.get(groupKey)!.sessions.push(row);
+  }
+
+  for (const { studentId, sessions } of groups.values()) {
+    const draft = drafts.get(studentId)!;
+    const first = sessions[0];
+    const label = describeClass(first.subject, first.level);
+    const rate = resolveRate(rates, first);
+
+    if (!rate) {
+      draft.unpriced.push(label);
+      continue;
+    }
+
+    const enrolledSessions = sessions.length;
+    const seriesSessions = first.series_id ? seriesSessionCounts.get(first.series_id) || enrolledSessions : 0;
+
+    if (first.series_id && rate.monthly_fee !== null) {
+      // Monthly fee covers the whole month of a series; mid-month joiners pay for their share of sessions
+      const prorated = enrolledSessions < seriesSessions;
+      draft.line_items.push({
+        line_type: 'tuition',
+        description: prorated
+          ? `${label} - ${enrolledSessions} of ${seriesSessions} sessions (pro-rated)`
+          : `${label} - monthly fee (${enrolledSessions} sessions)`,
+        class_id: null,
+        series_id: first.series_id,
+        sessions: enrolledSessions,
+        unit_price: rate.monthly_fee,
+        amount: prorated ? roundCurrency(rate.monthly_fee * enrolledSessions / seriesSessions) : rate.monthly_fee,
+        prorated
+      });
+    } else {
+      draft.line_items.push({
+        line_type: 'tuition',
+        description: `${label} - ${enrolledSessions} session${enrolledSessions === 1 ? '' : 's'}`,
+        class_id: first.series_id ? null : first.class_id,
+        series_id: first.series_id,
+        sessions: enrolledSessions,
+        unit_price: rate.session_fee,
+        amount: roundCurrency(rate.session_fee * enrolledSessions),
+        prorated: false
+      });
+    }
+  }
+
+  for (const draft of drafts.values()) {
+    draft.subtotal = roundCurrency(draft.line_items.reduce((sum, line) => sum + line.amount, 0));
+  }
+
+  // Sibling discount: the child with the highest subtotal pays full price, the others get the discount
+  const discountPercent = getSiblingDiscountPercent();
+  if (discountPercent > 0) {
+    const families = new Map<string, InvoiceDraft[]>();
+    for (const draft of drafts.values()) {
+      if (draft.subtotal <= 0) continue;
+      if (!families.has(draft.parent_id)) {
+        families.set(draft.parent_id, []);
+      }
+      families.get(draft.parent_id)!.push(draft);
+    }
+
+    for (const siblings of families.values()) {
+      siblings.sort((a, b) => b.subtotal - a.subtotal || a.student_name.localeCompare(b.student_name));
+
+      for (const draft of siblings.slice(1)) {
+        const discount = roundCurrency(draft.subtotal * discountPercent / 100);
+        draft.line_items.push({
+          line_type: 'discount',
+          description: `Sibling discount (${discountPercent}%)`,
+          class_id: null,
+          series_id: null,
+          sessions: null,
+          unit_price: null,
+          amount: -discount,
+          prorated: false
+        });
+        draft.discount_total = discount;
+      }
+    }
+  }
+
+  for (const draft of drafts.values()) {
+    draft.total = roundCurrency(draft.subtotal - draft.discount_total);
+  }
+
+  return [...drafts.values()].filter(draft => !studentIds || studentIds.includes(draft.student_id));
+};
+
+// Amount received against an invoice, net of refunds
+export const getInvoiceAmountPaid = async (invoiceId: string, db: Pool | PoolClient = pool): Promise<number> => {
+  const result = await db.query(`
+    SELECT COALESCE(SUM(CASE WHEN transaction_type = 'payment' THEN applied_amount ELSE -applied_amount END), 0) as amount_paid
+    FROM "PaymentTransaction"
+    WHERE invoice_id = $1
+  `, [invoiceId]);
+
+  return roundCurrency(parseFloat(result.rows[0].amount_paid));
+};
+
+// A parent's unused overpayment credit
+export const getCreditBalance = async (parentId: string, db: Pool | PoolClient = pool): Promise<number> => {
+  const result = await db.query(
+    'SELECT COALESCE(SUM(amount), 0) as balance FROM "AccountCredit" WHERE parent_id = $1',
+    [parentId]
+  );
+
+  return roundCurrency(parseFloat(result.rows[0].balance));
+};
+
+// Keep the month's Payment row in step with its invoice after a payment or refund.
+// Payments made from account credit leave the recorded payment method unchanged.
+export const syncInvoicePayment = async (
+  invoiceId: string,
+  processedBy: string | null,
+  paymentMethod: string | null,
+  db: Pool | PoolClient = pool
+): Promise<{ total: number; amount_paid: number; balance: number; paid: boolean }> => {
+  const invoiceResult = await db.query('SELECT total FROM "Invoice" WHERE id = $1', [invoiceId]);
+  const total = parseFloat(invoiceResult.rows[0].total);
+  const amountPaid = await getInvoiceAmountPaid(invoiceId, db);
+  const balance = roundCurrency(total - amountPaid);
+  const paid = balance <= 0;
+
+  await db.query(`
+    UPDATE "Payment"
+    SET paid = $2,
+        payment_date = CASE WHEN $2 THEN COALESCE(payment_date, NOW()) ELSE NULL END,
+        payment_method = COALESCE($3, payment_method),
+        processed_by = $4,
+        updated_at = NOW()
+    WHERE invoice_id = $1
+  `, [invoiceId, paid, paymentMethod === 'credit' ? null : paymentMethod, processedBy]);
+
+  return { total, amount_paid: amountPaid, balance, paid };
+};
+
+// Record money received against an invoice and keep any overpayment as account credit.
+// Callers run this inside their own transaction after locking the invoice.
+export const recordInvoicePayment = async (
+  payment: {
+    invoice: { id: string; invoice_number: string; student_id: string; parent_id: string };
+    amount: number;
+    balance: number;
+    paymentMethod: string;
+    branchId: string | null;
+    reference: string | null;
+    notes: string | null;
+    processedBy: string | null;
+  },
+  db: PoolClient
+) => {
+  const { invoice, amount, balance, paymentMethod, processedBy } = payment;
+
+  // Anything paid above the outstanding balance is kept as account credit
+  const appliedAmount = Math.max(Math.min(amount, balance), 0);
+  const creditAmount = roundCurrency(amount - appliedAmount);
+
+  const transactionResult = await db.query(`
+    INSERT INTO "PaymentTransaction" (
+      receipt_number, transaction_type, invoice_id, student_id, parent_id, branch_id,
+      payment_method, amount, applied_amount, credit_amount, reference, notes, processed_by
+    )
+    VALUES ('RCT-' || LPAD(nextval('receipt_number_seq')::text, 6, '0'), 'payment', $1, $2, $3, $4,
+            $5, $6, $7, $8, $9, $10, $11)
+    RETURNING id, receipt_number, transaction_type, invoice_id, payment_method, amount, applied_amount,
+              credit_amount, reference, notes, created_at
+  `, [
+    invoice.id, invoice.student_id, invoice.parent_id, payment.branchId,
+    paymentMethod, amount, appliedAmount, creditAmount,
+    payment.reference, payment.notes, processedBy
+  ]);
+
+  const receipt = transactionResult.rows[0];
+
+  if (paymentMethod === 'credit') {
+    await db.query(`
+      INSERT INTO "AccountCredit" (parent_id, amount, transaction_id, description, created_by)
+      VALUES ($1, $2, $3, $4, $5)
+    `, [invoice.parent_id, -amount, receipt.id, `Applied to invoice ${invoice.invoice_number}`, processedBy]);
+  } else if (creditAmount > 0) {
+    await db.query(`
+      INSERT INTO "AccountCredit" (parent_id, amount, transaction_id, description, created_by)
+      VALUES ($1, $2, $3, $4, $5)
+    `, [invoice.parent_id, creditAmount, receipt.id, `Overpayment on invoice ${invoice.invoice_number}`, processedBy]);
+  }
+
+  const invoiceStatus = await syncInvoicePayment(invoice.id, processedBy, paymentMethod, db);
+
+  return { receipt, invoiceStatus };
+};
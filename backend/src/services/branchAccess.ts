@@ -0,0 +1,81 @@
+// backend/src/services/branchAccess.ts
+
+import { Pool, PoolClient } from 'pg';
+import { pool } from '../index';
+import { AuthRequest } from '../middleware/auth';
+import { hasPermission } from './permissions';
+
+// Branches a staff member is assigned to
+export const getAssignedBranchIds = async (userId: string, db: Pool | PoolClient = pool): Promise<string[]> => {
+  const result = await db.query('SELECT branch_id FROM "StaffBranch" WHERE user_id = $1', [userId]);
+  return result.rows.map(row => row.branch_id);
+};
+
+// The branches the caller works with, or null when they are not limited to any (parents, students
+// and roles with branch.all). Loaded at most once per request and kept on the request.
+export const getBranchScope = async (req: AuthRequest): Promise<string[] | null> => {
+  if (req.branchScope === undefined) {
+    req.branchScope = ['parent', 'student'].includes(req.user!.role) || (await hasPermission(req, 'branch.all'))
+      ? null
+      : await getAssignedBranchIds(req.user!.userId);
+  }
+  return req.branchScope;
+};
+
+export const canAccessBranch = async (req: AuthRequest, branchId: string | null): Promise<boolean> => {
+  const scope = await getBranchScope(req);
+  return scope === null || (branchId !== null && scope.includes(branchId));
+};
+
+// Replace a staff member's branch assignments
+export const setAssignedBranches = async (userId: string, branchIds: string[], db: Pool | PoolClient = pool): Promise<void> => {
+  await db.query('DELETE FROM "StaffBranch" WHERE user_id = $1 AND branch_id <> ALL($2::uuid[])', [userId, branchIds]);
+  await db.query(`
+    INSERT INTO "StaffBranch" (user_id, branch_id)
+    SELECT $1, UNNEST($2::uuid[])
+    ON CONFLICT DO NOTHING
+  `, [userId, branchIds]);
+};
+
+// Whether a staff member works at a branch: assigned to it, or holding a role with branch.all
+export const worksAtBranch = async (userId: string, branchId: string, db: Pool | PoolClient = pool): Promise<boolean> => {
+  const result = await db.query(`
+    SELECT 1
+    FROM "User" u
+    WHERE u.id = $1 AND (
+      EXISTS (SELECT 1 FROM "StaffBranch" sb WHERE sb.user_id = u.id AND sb.branch_id = $2)
+      OR EXISTS (SELECT 1 FROM "RolePermission" rp WHERE rp.role_id = u.role_id AND rp.permission = 'branch.all')
+    )
+  `, [userId, branchId]);
+  return result.rows.length > 0;
+};
+
+// Whether the caller can manage a staff member: callers limited to some branches can only manage
+// staff who share at least one of them
+export const canManageStaffMember = async (req: AuthRequest, userId: string, db: Pool | PoolClient = pool): Promise<boolean> => {
+  const scope = await getBranchScope(req);
+  if (scope === null) {
+    return true;
+  }
+
+  const result = await db.query(
+    'SELECT 1 FROM "StaffBranch" WHERE user_id = $1 AND branch_id = ANY($2::uuid[]) LIMIT 1',
+    [userId, scope]
+  );
+  return result.rows.length > 0;
+};
+
+// Whether the caller can see a family's account: callers limited to some branches only see families
+// with a child at one of them
+export const canAccessFamily = async (req: AuthRequest, parentId: string, db: Pool | PoolClient = pool): Promise<boolean> => {
+  const scope = await getBranchScope(req);
+  if (scope === null) {
+    return true;
+  }
+
+  const result = await db.query(
+    'SELECT 1 FROM "Student" WHERE parent_id = $1 AND home_branch_id = ANY($2::uuid[]) LIMIT 1',
+    [parentId, scope]
+  );
+  return result.rows.length > 0;
+};
@@ -0,0 +1,255 @@
+// backend/src/services/dunning.ts
+
+import { Pool, PoolClient } from 'pg';
+import { pool } from '../index';
+import { isGuardianOf } from './guardians';
+import { notifyGuardians } from './notifications';
+
+export interface DunningSettings {
+  payment_terms_days: number;
+  reminder_days: number[];
+  block_enrollment: boolean;
+  block_after_days: number;
+}
+
+export interface AgeingBuckets {
+  current: number;
+  days_1_30: number;
+  days_31_60: number;
+  days_61_90: number;
+  days_over_90: number;
+}
+
+export interface OutstandingItem {
+  payment_id: string;
+  student_id: string;
+  student_name: string;
+  parent_id: string;
+  month: string;
+  invoice_id: string | null;
+  invoice_number: string | null;
+  amount: number;
+  outstanding: number;
+  due_date: string;
+  days_overdue: number;
+}
+
+export interface ParentBalance {
+  parent_id: string;
+  parent_name: string;
+  parent_email: string;
+  parent_phone: string | null;
+  total_outstanding: number;
+  overdue_amount: number;
+  credit_balance: number;
+  net_balance: number;
+  oldest_days_overdue: number;
+  ageing: AgeingBuckets;
+  items: OutstandingItem[];
+}
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+export const emptyAgeingBuckets = (): AgeingBuckets => ({
+  current: 0,
+  days_1_30: 0,
+  days_31_60: 0,
+  days_61_90: 0,
+  days_over_90: 0
+});
+
+// Bucket a balance by how many days it is past its due date (0 or less is not yet overdue)
+export const addToAgeingBucket = (buckets: AgeingBuckets, daysOverdue: number, amount: number) => {
+  const bucket: keyof AgeingBuckets =
+    daysOverdue <= 0 ? 'current'
+      : daysOverdue <= 30 ? 'days_1_30'
+        : daysOverdue <= 60 ? 'days_31_60'
+          : daysOverdue <= 90 ? 'days_61_90'
+            : 'days_over_90';
+
+  buckets[bucket] = roundCurrency(buckets[bucket] + amount);
+};
+
+export const getDunningSettings = async (db: Pool | PoolClient = pool): Promise<DunningSettings> => {
+  const result = await db.query(`
+    SELECT payment_terms_days, reminder_days, block_enrollment, block_after_days
+    FROM "DunningSettings"
+    WHERE id = 1
+  `);
+
+  return result.rows[0] || { payment_terms_days: 14, reminder_days: [-3, 1, 7, 30], block_enrollment: false, block_after_days: 60 };
+};
+
+// Every unpaid month with money still owing. Months without a stored due date (recorded before
+// due dates existed) fall due the configured number of days after the start of the month.
+// parentId limits to one family account; guardianId to the children a guardian may see payments for;
+// branchIds to children whose home branch is one of them (null for every branch).
+export const getOutstandingItems = async (
+  filters: { parentId?: string; guardianId?: string; branchId?: string; branchIds?: string[] | null },
+  db: Pool | PoolClient = pool
+): Promise<OutstandingItem[]> => {
+  const settings = await getDunningSettings(db);
+  const params: any[] = [settings.payment_terms_days];
+  const conditions = ['p.paid = FALSE', 's.parent_id IS NOT NULL'];
+
+  if (filters.parentId) {
+    params.push(filters.parentId);
+    conditions.push(`s.parent_id = $${params.length}`);
+  }
+
+  if (filters.guardianId) {
+    params.push(filters.guardianId);
+    conditions.push(isGuardianOf('s', `$${params.length}`, 'can_view_payments'));
+  }
+
+  if (filters.branchId) {
+    params.push(filters.branchId);
+    conditions.push(`s.home_branch_id = $${params.length}`);
+  }
+
+  if (filters.branchIds) {
+    params.push(filters.branchIds);
+    conditions.push(`s.home_branch_id = ANY($${params.length}::uuid[])`);
+  }
+
+  const result = await db.query(`
+    SELECT p.id as payment_id, p.student_id, s.parent_id, p.month, p.amount, p.invoice_id,
+           CONCAT(s.first_name, ' ', s.last_name) as student_name,
+           i.invoice_number,
+           p.amount - COALESCE(tx.amount_paid, 0) as outstanding,
+           TO_CHAR(due.due_date, 'YYYY-MM-DD') as due_date,
+           CURRENT_DATE - due.due_date as days_overdue
+    FROM "Payment" p
+    JOIN "Student" s ON p.student_id = s.id
+    LEFT JOIN "Invoice" i ON p.invoice_id = i.id
+    LEFT JOIN LATERAL (
+      SELECT SUM(CASE WHEN t.transaction_type = 'payment' THEN t.applied_amount ELSE -t.applied_amount END) as amount_paid
+      FROM "PaymentTransaction" t
+      WHERE p.invoice_id IS NOT NULL AND t.invoice_id = p.invoice_id
+    ) tx ON TRUE
+    CROSS JOIN LATERAL (
+      SELECT COALESCE(p.due_date, TO_DATE(p.month || '-01', 'YYYY-MM-DD') + $1::int) as due_date
+    ) due
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY due.due_date ASC, s.first_name ASC
+  `, params);
+
+  return result.rows
+    .map(row => ({
+      ...row,
+      amount: parseFloat(row.amount),
+      outstanding: roundCurrency(parseFloat(row.outstanding)),
+      days_overdue: parseInt(row.days_overdue)
+    }))
+    .filter(item => item.outstanding > 0);
+};
+
+// Per-family balances across all children, with overdue ageing and unused account credit.
+// For a guardianId the single balance covers every child whose payments that guardian may see.
+export const getParentBalances = async (
+  filters: { parentId?: string; guardianId?: string; branchId?: string; branchIds?: string[] | null },
+  db: Pool | PoolClient = pool
+): Promise<ParentBalance[]> => {
+  const items = await getOutstandingItems(filters, db);
+  const viewerId = filters.parentId ?? filters.guardianId;
+  const parentIds = viewerId ? [viewerId] : [...new Set(items.map(item => item.parent_id))];
+
+  if (parentIds.length === 0) {
+    return [];
+  }
+
+  const parentResult = await db.query(`
+    SELECT u.id, CONCAT(u.first_name, ' ', u.last_name) as name, u.email, u.phone,
+           COALESCE((SELECT SUM(ac.amount) FROM "AccountCredit" ac WHERE ac.parent_id = u.id), 0) as credit_balance
+    FROM "User" u
+    WHERE u.id = ANY($1::uuid[])
+  `, [parentIds]);
+
+  return parentResult.rows
+    .map(parent => {
+      const parentItems = filters.guardianId ? items : items.filter(item => item.parent_id === parent.id);
+      const ageing = emptyAgeingBuckets();
+      let totalOutstanding = 0;
+      let overdueAmount = 0;
+
+      for (const item of parentItems) {
+        addToAgeingBucket(ageing, item.days_overdue, item.outstanding);
+        totalOutstanding += item.outstanding;
+        if (item.days_overdue > 0) overdueAmount += item.outstanding;
+      }
+
+      const creditBalance = roundCurrency(parseFloat(parent.credit_balance));
+
+      return {
+        parent_id: parent.id,
+        parent_name: parent.name,
+        parent_email: parent.email,
+        parent_phone: parent.phone,
+        total_outstanding: roundCurrency(totalOutstanding),
+        overdue_amount: roundCurrency(overdueAmount),
+        credit_balance: creditBalance,
+        net_balance: roundCurrency(totalOutstanding - creditBalance),
+        oldest_days_overdue: Math.max(0, ...parentItems.map(item => item.days_overdue)),
+        ageing,
+        items: parentItems
+      };
+    })
+    .sort((a, b) => b.oldest_days_overdue - a.oldest_days_overdue || b.total_outstanding - a.total_outstanding);
+};
+
+// Reason a parent may not book new classes, or null when the overdue rule is off or not triggered
+export const getEnrollmentBlockReason = async (parentId: string, db: Pool | PoolClient = pool): Promise<string | null> => {
+  const settings = await getDunningSettings(db);
+  if (!settings.block_enrollment) {
+    return null;
+  }
+
+  const items = await getOutstandingItems({ parentId }, db);
+  const blocking = items.filter(item => item.days_overdue > settings.block_after_days);
+
+  if (blocking.length === 0) {
+    return null;
+  }
+
+  const amount = roundCurrency(blocking.reduce((sum, item) => sum + item.outstanding, 0));
+  return `New enrollments are on hold because $${amount.toFixed(2)} has been overdue for more than ${settings.block_after_days} days. Please settle the outstanding balance or contact the front desk.`;
+};
+
+// Record the reminders that have fallen due under the configured schedule. Only the latest step
+// reached is sent for each month, and the unique (payment, step) pair makes reruns harmless.
+export const sendDueReminders = async (db: Pool | PoolClient = pool) => {
+  const settings = await getDunningSettings(db);
+  const schedule = [...settings.reminder_days].sort((a, b) => b - a);
+  const items = await getOutstandingItems({}, db);
+  const sent: (OutstandingItem & { days_from_due: number })[] = [];
+
+  for (const item of items) {
+    const step = schedule.find(days => item.days_overdue >= days);
+    if (step === undefined) {
+      continue;
+    }
+
+    const reminderResult = await db.query(`
+      INSERT INTO "PaymentReminder" (payment_id, parent_id, days_from_due, due_date, amount_due)
+      SELECT $1::uuid, $2::uuid, $3::int, $4::date, $5::numeric
+      WHERE NOT EXISTS (
+        SELECT 1 FROM "PaymentReminder" WHERE payment_id = $1 AND days_from_due >= $3
+      )
+      ON CONFLICT (payment_id, days_from_due) DO NOTHING
+      RETURNING id
+    `, [item.payment_id, item.parent_id, step, item.due_date, item.outstanding]);
+
+    if (reminderResult.rows.length > 0) {
+      sent.push({ ...item, days_from_due: step });
+
+      // Tell the student's guardians who can see payments, on the channels they chose
+      await notifyGuardians([item.student_id], 'payment_due', {
+        amount: `$${item.outstanding.toFixed(2)}`,
+        month: new Date(`${item.month}-01T00:00:00`).toLocaleDateString('en-SG', { month: 'long', year: 'numeric' }),
+        dueDate: new Date(`${item.due_date}T00:00:00`).toLocaleDateString('en-SG', { day: 'numeric', month: 'short', year: 'numeric' })
+      }, db, 'can_view_payments');
+    }
+  }
+
+  return sent;
+};
@@ -0,0 +1,81 @@
+// backend/src/services/guardians.ts
+
+import crypto from 'crypto';
+import { Pool, PoolClient } from 'pg';
+import { pool } from '../index';
+import { sendMail } from './mailer';
+import { GuardianPermission, INVITATION_LIFETIME_DAYS } from '../config/guardians';
+
+// SQL condition: the student row `studentAlias` is linked to the guardian in `guardianParam` (e.g. '$2'),
+// optionally only when that guardian holds `permission`
+export const isGuardianOf = (studentAlias: string, guardianParam: string, permission?: GuardianPermission): string => `EXISTS (
+  SELECT 1 FROM "StudentGuardian" guardian_link
+  WHERE guardian_link.student_id = ${studentAlias}.id
+    AND guardian_link.guardian_id = ${guardianParam}${permission ? `
+    AND guardian_link.${permission} = TRUE` : ''}
+)`;
+
+// The link between a guardian and a child, or null when they are not one of the child's guardians
+export const getGuardianLink = async (studentId: string, guardianId: string, db: Pool | PoolClient = pool) => {
+  const result = await db.query(`
+    SELECT sg.student_id, sg.guardian_id, sg.relationship, sg.is_primary,
+           sg.can_enroll, sg.can_view_payments, sg.receives_notices
+    FROM "StudentGuardian" sg
+    JOIN "Student" s ON sg.student_id = s.id
+    WHERE sg.student_id = $1 AND sg.guardian_id = $2 AND s.active = TRUE
+  `, [studentId, guardianId]);
+
+  return result.rows[0] || null;
+};
+
+// Invitation tokens are random; only their hash is stored, so a database leak cannot be used to accept them
+export const hashInvitationToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+const getFrontendUrl = (): string => process.env.FRONTEND_URL || 'http://localhost:5173';
+
+// Create an invitation for another parent to become a guardian of a child, and email them the link
+export const createGuardianInvitation = async (
+  invitation: {
+    studentId: string;
+    studentName: string;
+    invitedBy: { id: string; name: string };
+    email: string;
+    relationship: string;
+    permissions: Record<GuardianPermission, boolean>;
+  },
+  db: Pool | PoolClient = pool
+) => {
+  const token = crypto.randomBytes(32).toString('base64url');
+
+  const result = await db.query(`
+    INSERT INTO "GuardianInvitation" (student_id, invited_by, email, relationship, can_enroll, can_view_payments,
+                                      receives_notices, token_hash, expires_at)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW() + make_interval(days => $9))
+    RETURNING id, student_id, email, relationship, can_enroll, can_view_payments, receives_notices, status,
+              expires_at, created_at
+  `, [invitation.studentId, invitation.invitedBy.id, invitation.email, invitation.relationship,
+      invitation.permissions.can_enroll, invitation.permissions.can_view_payments, invitation.permissions.receives_notices,
+      hashInvitationToken(token), INVITATION_LIFETIME_DAYS]);
+
+  const link = `${getFrontendUrl()}/?guardianInvite=${encodeURIComponent(token)}`;
+
+  await sendMail({
+    to: invitation.email,
+    subject: `You have been invited to follow ${invitation.studentName} at EduSpark Tuition`,
+    text: [
+      'Hello,',
+      '',
+      `${invitation.invitedBy.name} has invited you to be a guardian of ${invitation.studentName} at EduSpark Tuition.`,
+      'Open this link, then sign in or register a parent account with this email address to accept:',
+      '',
+      link,
+      '',
+      `The invitation expires in ${INVITATION_LIFETIME_DAYS} days.`,
+      '',
+      'EduSpark Tuition'
+    ].join('\n')
+  });
+
+  return result.rows[0];
+};
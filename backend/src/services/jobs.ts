@@ -0,0 +1,111 @@
+// backend/src/services/jobs.ts
+
+import { pool } from '../index';
+import { deliverDueNotifications } from './notifications';
+import { sendClassReminders, sendTutorAgendas } from './reminders';
+import { markKioskAbsences } from './kiosk';
+import { expireWaitlistOffers } from './waitlist';
+
+export interface BackgroundJob {
+  name: string;
+  // Minimum time between runs, counted across every server
+  intervalSeconds: number;
+  // Returns how many items were handled, kept as the job's last result
+  run: () => Promise<number>;
+}
+
+// How often each server checks whether a job is due
+const TICK_SECONDS = 5;
+
+const getIntervalSeconds = (value: string | undefined, fallback: number): number => Math.max(parseInt(value || '') || fallback, 1);
+
+// Jobs run by every server (read lazily, after dotenv has loaded)
+const getBackgroundJobs = (): BackgroundJob[] => [
+  {
+    name: 'notification-delivery',
+    intervalSeconds: getIntervalSeconds(process.env.NOTIFICATION_DISPATCH_SECONDS, 15),
+    run: deliverDueNotifications
+  },
+  {
+    name: 'class-reminders',
+    intervalSeconds: getIntervalSeconds(process.env.REMINDER_JOB_SECONDS, 60),
+    run: sendClassReminders
+  },
+  {
+    name: 'tutor-agendas',
+    intervalSeconds: getIntervalSeconds(process.env.REMINDER_JOB_SECONDS, 60),
+    run: sendTutorAgendas
+  },
+  {
+    name: 'kiosk-absences',
+    intervalSeconds: getIntervalSeconds(process.env.KIOSK_ABSENCE_JOB_SECONDS, 60),
+    run: markKioskAbsences
+  },
+  {
+    name: 'waitlist-offers',
+    intervalSeconds: getIntervalSeconds(process.env.WAITLIST_JOB_SECONDS, 60),
+    run: expireWaitlistOffers
+  }
+];
+
+// Claim the next run of a job. The conditional update is atomic, so when several servers are due at the
+// same moment only one of them gets the run; the others find last_started_at already moved on.
+const claimJobRun = async (job: BackgroundJob): Promise<boolean> => {
+  await pool.query('INSERT INTO "BackgroundJob" (name) VALUES ($1) ON CONFLICT (name) DO NOTHING', [job.name]);
+
+  const result = await pool.query(`
+    UPDATE "BackgroundJob"
+    SET last_started_at = NOW()
+    WHERE name = $1 AND (last_started_at IS NULL OR last_started_at <= NOW() - make_interval(secs => $2))
+    RETURNING name
+  `, [job.name, job.intervalSeconds]);
+
+  return result.rows.length > 0;
+};
+
+// Run a job if no server has run it within its interval, and record how it went
+const runJobIfDue = async (job: BackgroundJob): Promise<void> => {
+  if (!(await claimJobRun(job))) {
+    return;
+  }
+
+  try {
+    const handled = await job.run();
+
+    await pool.query(`
+      UPDATE "BackgroundJob"
+      SET last_finished_at = NOW(), last_status = 'succeeded', last_result = $2, last_error = NULL
+      WHERE name = $1
+    `, [job.name, handled]);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error('Background job error:', { job: job.name, message });
+
+    await pool.query(`
+      UPDATE "BackgroundJob"
+      SET last_finished_at = NOW(), last_status = 'failed', last_result = NULL, last_error = $2
+      WHERE name = $1
+    `, [job.name, message]);
+  }
+};
+
+// Check the background jobs every few seconds. Every replica runs this: runs are claimed through the
+// database, and the jobs only send what they claim, so nothing is repeated after a restart or twice
+// by two servers. A job is never started again on this server while its previous run is going.
+export const startBackgroundJobs = (): NodeJS.Timeout => {
+  const jobs = getBackgroundJobs();
+  const running = new Set<string>();
+
+  return setInterval(() => {
+    for (const job of jobs) {
+      if (running.has(job.name)) {
+        continue;
+      }
+
+      running.add(job.name);
+      runJobIfDue(job)
+        .catch(error => console.error('Background job runner error:', error))
+        .finally(() => running.delete(job.name));
+    }
+  }, TICK_SECONDS * 1000);
+};
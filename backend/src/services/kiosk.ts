@@ -0,0 +1,172 @@
+// backend/src/services/kiosk.ts
+
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+import { Pool, PoolClient } from 'pg';
+import { pool } from '../index';
+import { CHECK_IN_PIN_LENGTH } from '../config/kiosk';
+import { formatNotificationTime } from '../config/notifications';
+import { notifyGuardians } from './notifications';
+import { evaluateAttendanceAlerts } from './attendanceAlerts';
+
+export interface KioskDeviceSession {
+  id: string;
+  name: string;
+  branch_id: string;
+  branch_name: string;
+}
+
+export interface CheckInCredentials {
+  code: string;
+  pin: string;
+  // The code as a QR image (data URL) for printing or showing on a phone
+  qr_code: string;
+}
+
+// Attempts at picking a code and PIN no other student has before giving up
+const MAX_CREDENTIAL_ATTEMPTS = 5;
+
+// Device tokens are random; only their hash is stored, so a database leak cannot be used to sign a kiosk in
+export const hashDeviceToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+// Register a kiosk for a branch. The device token is returned here once and never again.
+export const createKioskDevice = async (
+  device: { branchId: string; name: string; createdBy: string },
+  db: Pool | PoolClient = pool
+) => {
+  const token = crypto.randomBytes(32).toString('base64url');
+
+  const result = await db.query(`
+    INSERT INTO "KioskDevice" (branch_id, name, token_hash, created_by)
+    VALUES ($1, $2, $3, $4)
+    RETURNING id, branch_id, name, created_at, last_seen_at, revoked_at
+  `, [device.branchId, device.name, hashDeviceToken(token), device.createdBy]);
+
+  return { device: result.rows[0], token };
+};
+
+// The kiosk a device token belongs to, or null once it is revoked or its branch is closed. Every use
+// moves last_seen_at on, so admins can see which kiosks are still in service.
+export const findKioskDevice = async (token: string, db: Pool | PoolClient = pool): Promise<KioskDeviceSession | null> => {
+  const result = await db.query(`
+    UPDATE "KioskDevice" d
+    SET last_seen_at = NOW()
+    FROM "Branch" b
+    WHERE d.token_hash = $1 AND d.revoked_at IS NULL AND b.id = d.branch_id AND b.active = TRUE
+    RETURNING d.id, d.name, d.branch_id, b.name as branch_name
+  `, [hashDeviceToken(token)]);
+
+  return result.rows[0] || null;
+};
+
+const generateCheckInCode = (): string => crypto.randomBytes(12).toString('base64url');
+
+const generateCheckInPin = (): string =>
+  String(crypto.randomInt(0, 10 ** CHECK_IN_PIN_LENGTH)).padStart(CHECK_IN_PIN_LENGTH, '0');
+
+// Give a student a check-in code and PIN, replacing the ones they have when `replace` is set (e.g. after
+// a lost card), and return them with the code as a QR image. A clash with another student's code or
+// PIN is retried with fresh ones.
+export const issueCheckInCredentials = async (
+  studentId: string,
+  replace: boolean,
+  db: Pool | PoolClient = pool
+): Promise<CheckInCredentials | null> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const result = await db.query(`
+        UPDATE "Student"
+        SET check_in_code = CASE WHEN $4 OR check_in_code IS NULL THEN $2 ELSE check_in_code END,
+            check_in_pin = CASE WHEN $4 OR check_in_pin IS NULL THEN $3 ELSE check_in_pin END
+        WHERE id = $1 AND active = TRUE
+        RETURNING check_in_code, check_in_pin
+      `, [studentId, generateCheckInCode(), generateCheckInPin(), replace]);
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      const { check_in_code: code, check_in_pin: pin } = result.rows[0];
+      return { code, pin, qr_code: await QRCode.toDataURL(code) };
+    } catch (error) {
+      if ((error as { code?: string }).code !== '23505' || attempt >= MAX_CREDENTIAL_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+};
+
+// Mark every student still without a record absent once a class has ended, for classes at branches that
+// had a kiosk in service for the whole class (elsewhere tutors still take the register by hand). Records
+// a tutor already took are left alone, and the unique enrollment/date key means a record is only ever
+// added once across restarts and replicas. Guardians hear about the absence as if a tutor had marked it.
+// Returns the number of students marked absent.
+export const markKioskAbsences = async (): Promise<number> => {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const absentResult = await client.query(`
+      WITH ended AS (
+        SELECT c.id, c.start_time
+        FROM "Class" c
+        WHERE c.active = TRUE
+          AND c.end_time <= NOW() AND c.end_time > NOW() - INTERVAL '1 day'
+          AND EXISTS (
+            SELECT 1 FROM "KioskDevice" d
+            WHERE d.branch_id = c.branch_id AND d.created_at <= c.start_time
+              AND (d.revoked_at IS NULL OR d.revoked_at >= c.end_time)
+          )
+      ),
+      marked AS (
+        INSERT INTO "Attendance" (student_id, class_id, enrollment_id, date, status)
+        SELECT e.student_id, e.class_id, e.id, ended.start_time::date, 'absent'
+        FROM ended
+        JOIN "Enrollment" e ON e.class_id = ended.id AND e.status = 'enrolled'
+        JOIN "Student" s ON e.student_id = s.id AND s.active = TRUE
+        ON CONFLICT (enrollment_id, date) DO NOTHING
+        RETURNING id, student_id, class_id
+      )
+      SELECT marked.id, marked.student_id, marked.class_id, c.subject, c.start_time
+      FROM marked
+      JOIN "Class" c ON marked.class_id = c.id
+    `);
+
+    const absences = absentResult.rows;
+
+    if (absences.length > 0) {
+      await client.query(`
+        INSERT INTO "AttendanceRevision" (attendance_id, version, status, reason, changed_by_name)
+        SELECT id, 1, 'absent', 'Did not check in at the kiosk', 'Automatic at class end'
+        FROM unnest($1::uuid[]) as id
+      `, [absences.map(absence => absence.id)]);
+
+      const byClass = new Map<string, { subject: string; start_time: Date; studentIds: string[] }>();
+      for (const absence of absences) {
+        if (!byClass.has(absence.class_id)) {
+          byClass.set(absence.class_id, { subject: absence.subject, start_time: absence.start_time, studentIds: [] });
+        }
+        byClass.get(absence.class_id)!.studentIds.push(absence.student_id);
+      }
+
+      for (const classAbsences of byClass.values()) {
+        await notifyGuardians(classAbsences.studentIds, 'student_absent', {
+          subject: classAbsences.subject,
+          when: formatNotificationTime(classAbsences.start_time)
+        }, client);
+      }
+
+      await evaluateAttendanceAlerts(absences.map(absence => absence.student_id), client);
+    }
+
+    await client.query('COMMIT');
+    return absences.length;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
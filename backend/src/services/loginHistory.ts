@@ -0,0 +1,86 @@
+// backend/src/services/loginHistory.ts
+
+import { Request } from 'express';
+import { Pool, PoolClient } from 'pg';
+import { pool } from '../index';
+
+export type LoginFailureReason = 'unknown_account' | 'invalid_password' | 'invalid_two_factor' | 'locked';
+
+interface LoginAttempt {
+  userId?: string | null;
+  email: string;
+  success: boolean;
+  failureReason?: LoginFailureReason;
+}
+
+// Lockout settings (read lazily, after dotenv has loaded). After the threshold is reached every further
+// failure locks the account again, each time for twice as long, up to the maximum.
+const getLockoutThreshold = (): number => parseInt(process.env.LOGIN_LOCKOUT_THRESHOLD || '5') || 5;
+const getLockoutMinutes = (): number => parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15') || 15;
+const getLockoutMaxMinutes = (): number => parseInt(process.env.LOGIN_LOCKOUT_MAX_MINUTES || '1440') || 1440;
+
+// Minutes until a lock ends, rounded up so the message never says 0
+export const getLockoutMinutesRemaining = (lockedUntil: Date): number => {
+  return Math.max(Math.ceil((new Date(lockedUntil).getTime() - Date.now()) / 60000), 1);
+};
+
+export const isAccountLocked = (lockedUntil: Date | null): boolean => {
+  return lockedUntil !== null && new Date(lockedUntil).getTime() > Date.now();
+};
+
+// Write one row of login history. A successful sign-in from an IP address the account has never
+// signed in from before is flagged as unfamiliar (unless it is the account's first sign-in).
+export const recordLoginAttempt = async (
+  req: Request,
+  attempt: LoginAttempt,
+  db: Pool | PoolClient = pool
+): Promise<void> => {
+  const ipAddress = req.ip || null;
+
+  await db.query(`
+    INSERT INTO "LoginHistory" (user_id, email, success, failure_reason, ip_address, user_agent, unfamiliar)
+    SELECT $1::uuid, $2::text, $3::boolean, $4::text, $5::text, $6::text,
+      $3::boolean AND $1::uuid IS NOT NULL
+        AND EXISTS (SELECT 1 FROM "LoginHistory" WHERE user_id = $1::uuid AND success = TRUE)
+        AND NOT EXISTS (
+          SELECT 1 FROM "LoginHistory"
+          WHERE user_id = $1::uuid AND success = TRUE AND ip_address IS NOT DISTINCT FROM $5::text
+        )
+  `, [
+    attempt.userId || null,
+    attempt.email,
+    attempt.success,
+    attempt.failureReason || null,
+    ipAddress,
+    req.get('User-Agent')?.slice(0, 500) || null
+  ]);
+};
+
+// Count a failed attempt against an account and lock it once the threshold is reached.
+// Returns the lock expiry when this failure locked the account.
+export const registerFailedLogin = async (userId: string, db: Pool | PoolClient = pool): Promise<Date | null> => {
+  const result = await db.query(`
+    UPDATE "User"
+    SET failed_login_count = failed_login_count + 1,
+        last_failed_login_at = NOW(),
+        locked_until = CASE
+          WHEN failed_login_count + 1 >= $2
+            THEN NOW() + make_interval(mins => LEAST($3 * POWER(2, LEAST(failed_login_count + 1 - $2, 16)), $4)::int)
+          ELSE locked_until
+        END
+    WHERE id = $1
+    RETURNING locked_until, failed_login_count >= $2 as locked
+  `, [userId, getLockoutThreshold(), getLockoutMinutes(), getLockoutMaxMinutes()]);
+
+  const row = result.rows[0];
+  return row?.locked ? row.locked_until : null;
+};
+
+// A completed sign-in (or an admin unlock) starts the count again
+export const clearFailedLogins = async (userId: string, db: Pool | PoolClient = pool): Promise<void> => {
+  await db.query(`
+    UPDATE "User"
+    SET failed_login_count = 0, locked_until = NULL
+    WHERE id = $1 AND (failed_login_count > 0 OR locked_until IS NOT NULL)
+  `, [userId]);
+};
@@ -0,0 +1,181 @@
+// backend/src/services/mailer.ts
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Contract every mail transport implements
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage, rawMessage: string): Promise<void>;
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+const SMTP_TIMEOUT_MS = 10 * 1000;
+
+// Sender address and transport settings (read lazily, after dotenv has loaded)
+const getMailFrom = (): string => process.env.MAIL_FROM || 'no-reply@eduspark.local';
+const getOutboxDir = (): string => path.resolve(process.env.MAIL_OUTBOX_DIR || 'mail-outbox');
+
+// Headers may only carry ASCII, so anything else is sent as an RFC 2047 encoded word
+const encodeHeader = (value: string): string =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+// Render a message in RFC 5322 form, as it would travel over SMTP
+const buildRawMessage = (message: MailMessage): string => {
+  const from = getMailFrom();
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${from.split('@')[1] || 'localhost'}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit'
+  ];
+
+  return `${headers.join('\r\n')}\r\n\r\n${message.text.replace(/\r?\n/g, '\r\n')}`;
+};
+
+// Development transport: every message is written to the outbox directory as an .eml file
+const fileTransport: MailTransport = {
+  name: 'file',
+
+  async send(message, rawMessage) {
+    const outboxDir = getOutboxDir();
+    await fs.mkdir(outboxDir, { recursive: true });
+
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomBytes(4).toString('hex')}.eml`;
+    await fs.writeFile(path.join(outboxDir, fileName), rawMessage, 'utf8');
+    console.log(`Mail to ${message.to} written to ${path.join(outboxDir, fileName)}`);
+  }
+};
+
+// Collect complete (possibly multi-line) SMTP replies from a socket, in order
+const createReplyReader = (socket: net.Socket): (() => Promise<SmtpReply>) => {
+  const ready: SmtpReply[] = [];
+  const waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }[] = [];
+  let buffer = '';
+  let lines: string[] = [];
+  let failure: Error | null = null;
+
+  socket.on('data', chunk => {
+    buffer += chunk.toString('utf8');
+
+    let lineEnd = buffer.indexOf('\r\n');
+    while (lineEnd >= 0) {
+      const line = buffer.slice(0, lineEnd);
+      buffer = buffer.slice(lineEnd + 2);
+      lines.push(line);
+
+      // "250-..." continues a reply, "250 ..." ends it
+      if (line.charAt(3) !== '-') {
+        const reply = { code: parseInt(line.slice(0, 3)), text: lines.join('\n') };
+        lines = [];
+        const waiter = waiting.shift();
+        if (waiter) {
+          waiter.resolve(reply);
+        } else {
+          ready.push(reply);
+        }
+      }
+
+      lineEnd = buffer.indexOf('\r\n');
+    }
+  });
+
+  const fail = (error: Error) => {
+    failure = failure || error;
+    while (waiting.length > 0) {
+      waiting.shift()!.reject(failure);
+    }
+  };
+
+  socket.on('error', fail);
+  socket.on('close', () => fail(new Error('SMTP connection closed')));
+  socket.on('timeout', () => {
+    fail(new Error('SMTP connection timed out'));
+    socket.destroy();
+  });
+
+  return () => {
+    if (ready.length > 0) {
+      return Promise.resolve(ready.shift()!);
+    }
+    if (failure) {
+      return Promise.reject(failure);
+    }
+    return new Promise((resolve, reject) => waiting.push({ resolve, reject }));
+  };
+};
+
+// Plain, unauthenticated SMTP for local sinks such as MailHog or smtp4dev
+const smtpTransport: MailTransport = {
+  name: 'smtp',
+
+  async send(message, rawMessage) {
+    const socket = net.createConnection({
+      host: process.env.SMTP_HOST || 'localhost',
+      port: parseInt(process.env.SMTP_PORT || '1025') || 1025
+    });
+    socket.setTimeout(SMTP_TIMEOUT_MS);
+    const nextReply = createReplyReader(socket);
+
+    const expectReply = async (...codes: number[]) => {
+      const reply = await nextReply();
+      if (!codes.includes(reply.code)) {
+        throw new Error(`Unexpected SMTP reply: ${reply.text}`);
+      }
+    };
+
+    const sendCommand = async (command: string, ...codes: number[]) => {
+      socket.write(`${command}\r\n`);
+      await expectReply(...codes);
+    };
+
+    try {
+      await expectReply(220);
+      await sendCommand(`EHLO ${os.hostname()}`, 250);
+      await sendCommand(`MAIL FROM:<${getMailFrom()}>`, 250);
+      await sendCommand(`RCPT TO:<${message.to}>`, 250, 251);
+      await sendCommand('DATA', 354);
+      // Lines starting with a dot are doubled so they are not read as the end of the message
+      await sendCommand(`${rawMessage.replace(/^\./gm, '..')}\r\n.`, 250);
+      await sendCommand('QUIT', 221);
+    } finally {
+      socket.destroy();
+    }
+  }
+};
+
+const transports: Record<string, MailTransport> = {
+  [fileTransport.name]: fileTransport,
+  [smtpTransport.name]: smtpTransport
+};
+
+// Transport used for outgoing mail (MAIL_TRANSPORT, defaults to the file outbox)
+export const getActiveMailTransport = (): MailTransport => {
+  const name = process.env.MAIL_TRANSPORT || 'file';
+  const transport = transports[name];
+  if (!transport) {
+    throw new Error(`Unknown mail transport: ${name}`);
+  }
+  return transport;
+};
+
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  await getActiveMailTransport().send(message, buildRawMessage(message));
+};
@@ -0,0 +1,85 @@
+// backend/src/services/notificationTransports.ts
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { DeliveryChannel } from '../config/notifications';
+import { sendMail } from './mailer';
+
+export interface OutgoingNotification {
+  // Email address or phone number, depending on the channel
+  to: string;
+  title: string;
+  body: string;
+}
+
+// Contract every notification transport implements; one transport is active per channel
+export interface NotificationTransport {
+  channel: DeliveryChannel;
+  name: string;
+  send(message: OutgoingNotification): Promise<void>;
+}
+
+const getSmsOutboxDir = (): string => path.resolve(process.env.SMS_OUTBOX_DIR || 'sms-outbox');
+
+// Email goes through the mailer, which has its own file and SMTP transports (MAIL_TRANSPORT)
+const mailerTransport: NotificationTransport = {
+  channel: 'email',
+  name: 'mailer',
+
+  async send(message) {
+    await sendMail({
+      to: message.to,
+      subject: message.title,
+      text: [message.body, '', 'You can change which notifications you receive under Profile Settings.', '', 'EduSpark Tuition'].join('\n')
+    });
+  }
+};
+
+// Development transport: every text message is printed to the server log
+const smsConsoleTransport: NotificationTransport = {
+  channel: 'sms',
+  name: 'console',
+
+  async send(message) {
+    console.log(`SMS to ${message.to}: ${message.body}`);
+  }
+};
+
+// Development transport: every text message is written to the SMS outbox directory as a .txt file
+const smsFileTransport: NotificationTransport = {
+  channel: 'sms',
+  name: 'file',
+
+  async send(message) {
+    const outboxDir = getSmsOutboxDir();
+    await fs.mkdir(outboxDir, { recursive: true });
+
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomBytes(4).toString('hex')}.txt`;
+    await fs.writeFile(path.join(outboxDir, fileName), `To: ${message.to}\n\n${message.body}\n`, 'utf8');
+    console.log(`SMS to ${message.to} written to ${path.join(outboxDir, fileName)}`);
+  }
+};
+
+const transports: Record<DeliveryChannel, Record<string, NotificationTransport>> = {
+  email: { [mailerTransport.name]: mailerTransport },
+  sms: { [smsConsoleTransport.name]: smsConsoleTransport, [smsFileTransport.name]: smsFileTransport }
+};
+
+// Make another transport available, e.g. an SMS gateway; select it with EMAIL_NOTIFICATION_TRANSPORT or SMS_TRANSPORT
+export const registerNotificationTransport = (transport: NotificationTransport): void => {
+  transports[transport.channel][transport.name] = transport;
+};
+
+// Transport used for a channel (EMAIL_NOTIFICATION_TRANSPORT, default mailer; SMS_TRANSPORT, default console)
+export const getNotificationTransport = (channel: DeliveryChannel): NotificationTransport => {
+  const name = channel === 'email'
+    ? process.env.EMAIL_NOTIFICATION_TRANSPORT || mailerTransport.name
+    : process.env.SMS_TRANSPORT || smsConsoleTransport.name;
+
+  const transport = transports[channel][name];
+  if (!transport) {
+    throw new Error(`Unknown ${channel} transport: ${name}`);
+  }
+  return transport;
+};
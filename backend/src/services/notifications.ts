@@ -0,0 +1,217 @@
+// backend/src/services/notifications.ts
+
+import { Pool, PoolClient } from 'pg';
+import { pool } from '../index';
+import {
+  NotificationType,
+  NotificationChannel,
+  DeliveryChannel,
+  NOTIFICATION_TEMPLATES,
+  NOTIFICATION_CHANNELS,
+  DELIVERY_CHANNELS,
+  MAX_DELIVERY_ATTEMPTS,
+  RETRY_DELAY_MINUTES,
+  renderTemplate
+} from '../config/notifications';
+import { GuardianPermission } from '../config/guardians';
+import { getNotificationTransport } from './notificationTransports';
+
+export type NotificationData = Record<string, string | number>;
+
+// Deliveries claimed per run of the queue
+const DELIVERY_BATCH_SIZE = 25;
+
+// The channels a user receives a type on: their saved choices, and the type's defaults for the rest
+export const resolveChannels = (type: NotificationType, saved: Partial<Record<NotificationChannel, boolean>>): NotificationChannel[] => {
+  const { defaultChannels } = NOTIFICATION_TEMPLATES[type];
+  return NOTIFICATION_CHANNELS.filter(channel => saved[channel] ?? defaultChannels.includes(channel));
+};
+
+// Create a notification for each user who wants this type on at least one channel, and queue its
+// email and SMS deliveries. Pass the transaction client so nothing is sent if the change rolls back.
+// Returns the number of notifications created.
+export const notifyUsers = async (
+  userIds: string[],
+  type: NotificationType,
+  data: NotificationData,
+  db: Pool | PoolClient = pool
+): Promise<number> => {
+  const recipientIds = [...new Set(userIds)];
+  if (recipientIds.length === 0) {
+    return 0;
+  }
+
+  const template = NOTIFICATION_TEMPLATES[type];
+  const recipients = await db.query(`
+    SELECT u.id, u.role, u.phone,
+           COALESCE(json_object_agg(p.channel, p.enabled) FILTER (WHERE p.channel IS NOT NULL), '{}') as preferences
+    FROM "User" u
+    LEFT JOIN "NotificationPreference" p ON p.user_id = u.id AND p.type = $2
+    WHERE u.id = ANY($1::uuid[]) AND u.active = TRUE
+    GROUP BY u.id
+  `, [recipientIds, type]);
+
+  const title = renderTemplate(template.title, data);
+  const body = renderTemplate(template.body, data);
+  let created = 0;
+
+  for (const recipient of recipients.rows) {
+    if (!template.accountTypes.includes(recipient.role)) {
+      continue;
+    }
+
+    // Text messages need a phone number on the account
+    const channels = resolveChannels(type, recipient.preferences).filter(channel => channel !== 'sms' || recipient.phone);
+    if (channels.length === 0) {
+      continue;
+    }
+
+    const notificationResult = await db.query(`
+      INSERT INTO "Notification" (user_id, type, title, body, data, in_app)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING id
+    `, [recipient.id, type, title, body, JSON.stringify(data), channels.includes('in_app')]);
+
+    const deliveryChannels = DELIVERY_CHANNELS.filter(channel => channels.includes(channel));
+    if (deliveryChannels.length > 0) {
+      await db.query(`
+        INSERT INTO "NotificationDelivery" (notification_id, channel)
+        SELECT $1, UNNEST($2::text[])
+      `, [notificationResult.rows[0].id, deliveryChannels]);
+    }
+
+    created++;
+  }
+
+  return created;
+};
+
+// Notify the guardians of each student who receive notices, optionally only those with another
+// permission too (payment notices go to guardians who can see payments). Adds studentName to the data.
+export const notifyGuardians = async (
+  studentIds: string[],
+  type: NotificationType,
+  data: NotificationData,
+  db: Pool | PoolClient = pool,
+  permission?: GuardianPermission
+): Promise<number> => {
+  if (studentIds.length === 0) {
+    return 0;
+  }
+
+  const result = await db.query(`
+    SELECT s.id, CONCAT(s.first_name, ' ', s.last_name) as student_name, ARRAY_AGG(sg.guardian_id::text) as guardian_ids
+    FROM "Student" s
+    JOIN "StudentGuardian" sg ON sg.student_id = s.id AND sg.receives_notices = TRUE
+      ${permission ? `AND sg.${permission} = TRUE` : ''}
+    WHERE s.id = ANY($1::uuid[]) AND s.active = TRUE
+    GROUP BY s.id
+  `, [[...new Set(studentIds)]]);
+
+  let created = 0;
+  for (const student of result.rows) {
+    created += await notifyUsers(student.guardian_ids, type, { ...data, studentName: student.student_name }, db);
+  }
+
+  return created;
+};
+
+// Notify the families of every student enrolled in any of the given sessions, once per student
+export const notifyClassStudents = async (
+  classIds: string[],
+  type: NotificationType,
+  data: NotificationData,
+  db: Pool | PoolClient = pool
+): Promise<number> => {
+  if (classIds.length === 0) {
+    return 0;
+  }
+
+  const result = await db.query(
+    `SELECT DISTINCT student_id FROM "Enrollment" WHERE class_id = ANY($1::uuid[]) AND status = 'enrolled'`,
+    [classIds]
+  );
+
+  return notifyGuardians(result.rows.map(row => row.student_id), type, data, db);
+};
+
+// Send the email and SMS deliveries that are due, retrying failures with a growing delay until
+// MAX_DELIVERY_ATTEMPTS. Claimed rows are locked and skipped by other servers, so nothing goes out
+// twice when several instances share the queue. Returns how many deliveries were claimed.
+export const processNotificationQueue = async (limit: number = DELIVERY_BATCH_SIZE): Promise<number> => {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const dueResult = await client.query(`
+      SELECT d.id, d.channel, d.attempts, n.title, n.body, u.email, u.phone, u.active
+      FROM "NotificationDelivery" d
+      JOIN "Notification" n ON d.notification_id = n.id
+      JOIN "User" u ON n.user_id = u.id
+      WHERE d.status = 'pending' AND d.next_attempt_at <= NOW()
+      ORDER BY d.next_attempt_at
+      LIMIT $1
+      FOR UPDATE OF d SKIP LOCKED
+    `, [limit]);
+
+    for (const delivery of dueResult.rows) {
+      const channel: DeliveryChannel = delivery.channel;
+      const to = channel === 'email' ? delivery.email : delivery.phone;
+
+      if (!delivery.active || !to) {
+        await client.query(
+          `UPDATE "NotificationDelivery" SET status = 'failed', last_error = $2 WHERE id = $1`,
+          [delivery.id, delivery.active ? 'No phone number on the account' : 'Account is no longer active']
+        );
+        continue;
+      }
+
+      const attempts = delivery.attempts + 1;
+
+      try {
+        const transport = getNotificationTransport(channel);
+        await transport.send({ to, title: delivery.title, body: delivery.body });
+
+        await client.query(`
+          UPDATE "NotificationDelivery"
+          SET status = 'sent', attempts = $2, transport = $3, sent_at = NOW(), last_error = NULL
+          WHERE id = $1
+        `, [delivery.id, attempts, transport.name]);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const retryDelay = RETRY_DELAY_MINUTES[Math.min(attempts, RETRY_DELAY_MINUTES.length) - 1];
+
+        await client.query(`
+          UPDATE "NotificationDelivery"
+          SET status = $3, attempts = $2, last_error = $4, next_attempt_at = NOW() + make_interval(mins => $5)
+          WHERE id = $1
+        `, [delivery.id, attempts, attempts >= MAX_DELIVERY_ATTEMPTS ? 'failed' : 'pending', message, retryDelay]);
+
+        console.error('Notification delivery error:', { deliveryId: delivery.id, channel, attempts, message });
+      }
+    }
+
+    await client.query('COMMIT');
+    return dueResult.rows.length;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+// Work through everything that is due, batch by batch, so a backlog clears in one run of the background job.
+// Returns how many deliveries were claimed.
+export const deliverDueNotifications = async (): Promise<number> => {
+  let total = 0;
+  let claimed;
+
+  do {
+    claimed = await processNotificationQueue();
+    total += claimed;
+  } while (claimed === DELIVERY_BATCH_SIZE);
+
+  return total;
+};
@@ -0,0 +1,56 @@
+// backend/src/services/passwords.ts
+
+import bcrypt from 'bcrypt';
+import { Pool, PoolClient } from 'pg';
+import { pool } from '../index';
+import { getPasswordPolicy } from '../config/passwordPolicy';
+
+const SALT_ROUNDS = 10;
+
+// Whether the password matches the current one or any of the recent ones the policy remembers
+export const isPasswordReused = async (userId: string, password: string, db: Pool | PoolClient = pool): Promise<boolean> => {
+  const { history_count: historyCount } = getPasswordPolicy();
+
+  if (historyCount === 0) {
+    return false;
+  }
+
+  // The current password counts as the first of the last N
+  const result = await db.query(`
+    SELECT password as password_hash FROM "User" WHERE id = $1
+    UNION ALL
+    (SELECT password_hash FROM "PasswordHistory" WHERE user_id = $1 ORDER BY created_at DESC LIMIT $2)
+  `, [userId, Math.max(historyCount - 1, 0)]);
+
+  for (const row of result.rows) {
+    if (await bcrypt.compare(password, row.password_hash)) {
+      return true;
+    }
+  }
+
+  return false;
+};
+
+// Replace a user's password, keeping the old hash so the reuse rule can see it
+export const setUserPassword = async (userId: string, password: string, db: Pool | PoolClient = pool): Promise<void> => {
+  const hashedPassword = await bcrypt.hash(password, SALT_ROUNDS);
+
+  await db.query(`
+    INSERT INTO "PasswordHistory" (user_id, password_hash)
+    SELECT id, password FROM "User" WHERE id = $1
+  `, [userId]);
+
+  await db.query(`
+    UPDATE "User"
+    SET password = $2, password_changed_at = NOW(), updated_at = NOW()
+    WHERE id = $1
+  `, [userId, hashedPassword]);
+
+  // Only the most recent hashes are ever checked, so older ones are not worth keeping
+  await db.query(`
+    DELETE FROM "PasswordHistory"
+    WHERE user_id = $1 AND id NOT IN (
+      SELECT id FROM "PasswordHistory" WHERE user_id = $1 ORDER BY created_at DESC LIMIT $2
+    )
+  `, [userId, getPasswordPolicy().history_count]);
+};
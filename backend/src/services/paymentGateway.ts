@@ -0,0 +1,246 @@
+// backend/src/services/paymentGateway.ts
+
+import crypto from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import { pool } from '../index';
+import { getInvoiceAmountPaid, recordInvoicePayment } from './billing';
+
+export interface CheckoutSessionRequest {
+  amount: number;
+  currency: string;
+  description: string;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface CheckoutSessionResult {
+  providerSessionId: string;
+  checkoutUrl: string;
+  expiresAt: Date;
+}
+
+export interface WebhookEvent {
+  eventId: string;
+  type: 'checkout.completed' | 'checkout.cancelled';
+  providerSessionId: string;
+  amount: number;
+}
+
+// Contract every online payment provider implements
+export interface PaymentProvider {
+  name: string;
+  createCheckoutSession(request: CheckoutSessionRequest): Promise<CheckoutSessionResult>;
+  // Returns null when the signature does not match the body
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): WebhookEvent | null;
+}
+
+const MOCK_SIGNATURE_HEADER = 'x-mock-signature';
+const MOCK_SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+const MOCK_SESSION_MINUTES = 30;
+
+// Shared secret for webhook signatures (read lazily, after dotenv has loaded)
+const getWebhookSecret = (): string => {
+  const secret = process.env.PAYMENT_WEBHOOK_SECRET;
+  if (!secret) {
+    throw new Error('PAYMENT_WEBHOOK_SECRET is not configured');
+  }
+  return secret;
+};
+
+const computeMockSignature = (timestamp: number, payload: string): string =>
+  crypto.createHmac('sha256', getWebhookSecret()).update(`${timestamp}.${payload}`).digest('hex');
+
+// Signature header for a mock webhook body, in the same "t=...,v1=..." form real providers use
+export const signMockWebhook = (payload: string): string => {
+  const timestamp = Math.floor(Date.now() / 1000);
+  return `t=${timestamp},v1=${computeMockSignature(timestamp, payload)}`;
+};
+
+// Local stand-in provider so the whole flow works offline. Its checkout page is part of the web app, so
+// only the signed-in parent who started a checkout can complete it.
+const mockProvider: PaymentProvider = {
+  name: 'mock',
+
+  async createCheckoutSession(request) {
+    const providerSessionId = `mock_cs_${crypto.randomBytes(12).toString('hex')}`;
+    return {
+      providerSessionId,
+      checkoutUrl: `${new URL(request.successUrl).origin}/?mock_checkout=${providerSessionId}`,
+      expiresAt: new Date(Date.now() + MOCK_SESSION_MINUTES * 60 * 1000)
+    };
+  },
+
+  parseWebhook(rawBody, headers) {
+    const header = headers[MOCK_SIGNATURE_HEADER];
+    if (typeof header !== 'string') {
+      return null;
+    }
+
+    const parts = Object.fromEntries(header.split(',').map(part => part.split('=') as [string, string]));
+    const timestamp = parseInt(parts.t);
+    if (!parts.v1 || isNaN(timestamp) || Math.abs(Date.now() / 1000 - timestamp) > MOCK_SIGNATURE_TOLERANCE_SECONDS) {
+      return null;
+    }
+
+    const expected = Buffer.from(computeMockSignature(timestamp, rawBody.toString('utf8')), 'hex');
+    const received = Buffer.from(parts.v1, 'hex');
+    if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+      return null;
+    }
+
+    const body = JSON.parse(rawBody.toString('utf8'));
+    return {
+      eventId: body.id,
+      type: body.type,
+      providerSessionId: body.session_id,
+      amount: parseFloat(body.amount)
+    };
+  }
+};
+
+const providers: Record<string, PaymentProvider> = {
+  [mockProvider.name]: mockProvider
+};
+
+// Provider used for new checkouts (PAYMENT_PROVIDER), or null when online payments are not set up.
+// The mock provider takes no money, so it is only used when chosen explicitly and never in production.
+export const getActivePaymentProvider = (): PaymentProvider | null => {
+  const name = process.env.PAYMENT_PROVIDER;
+  if (!name) {
+    return null;
+  }
+  if (name === mockProvider.name && process.env.NODE_ENV === 'production') {
+    throw new Error('The mock payment provider cannot be used in production');
+  }
+  const provider = providers[name];
+  if (!provider) {
+    throw new Error(`Unknown payment provider: ${name}`);
+  }
+  return provider;
+};
+
+// Provider for an incoming webhook; mock events are only accepted while the mock provider is active
+export const getPaymentProvider = (name: string): PaymentProvider | null => {
+  if (name === mockProvider.name && getActivePaymentProvider()?.name !== mockProvider.name) {
+    return null;
+  }
+  return providers[name] || null;
+};
+
+// Apply a verified provider event. Safe to call more than once for the same event or session:
+// the event id is recorded first and only a pending session can be completed.
+export const handleWebhookEvent = async (
+  provider: PaymentProvider,
+  event: WebhookEvent,
+  payload: unknown
+): Promise<'processed' | 'duplicate' | 'ignored'> => {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const eventInsert = await client.query(`
+      INSERT INTO "PaymentWebhookEvent" (provider, event_id, event_type, payload)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (provider, event_id) DO NOTHING
+      RETURNING id
+    `, [provider.name, event.eventId, event.type, JSON.stringify(payload)]);
+
+    if (eventInsert.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return 'duplicate';
+    }
+
+    const sessionResult = await client.query(`
+      SELECT cs.id, cs.payment_id, cs.invoice_id, cs.parent_id, cs.amount, cs.status, cs.provider_session_id
+      FROM "CheckoutSession" cs
+      WHERE cs.provider = $1 AND cs.provider_session_id = $2
+      FOR UPDATE
+    `, [provider.name, event.providerSessionId]);
+
+    const session = sessionResult.rows[0];
+
+    if (!session || session.status !== 'pending') {
+      await client.query('COMMIT');
+      return 'ignored';
+    }
+
+    if (event.type === 'checkout.cancelled') {
+      await client.query(`UPDATE "CheckoutSession" SET status = 'cancelled' WHERE id = $1`, [session.id]);
+      await client.query('COMMIT');
+      return 'processed';
+    }
+
+    const amount = parseFloat(session.amount);
+    if (Math.abs(event.amount - amount) > 0.001) {
+      console.warn('Payment webhook amount mismatch', {
+        provider: provider.name,
+        sessionId: session.provider_session_id,
+        expected: amount,
+        received: event.amount
+      });
+      await client.query('COMMIT');
+      return 'ignored';
+    }
+
+    let transactionId: string | null = null;
+
+    if (session.invoice_id) {
+      const invoiceResult = await client.query(`
+        SELECT i.id, i.invoice_number, i.student_id, i.parent_id, i.total, i.status, s.home_branch_id
+        FROM "Invoice" i
+        JOIN "Student" s ON i.student_id = s.id
+        WHERE i.id = $1
+        FOR UPDATE OF i
+      `, [session.invoice_id]);
+
+      const invoice = invoiceResult.rows[0];
+
+      if (invoice && invoice.status === 'issued') {
+        await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`credit:${invoice.parent_id}`]);
+
+        // The balance may have changed since checkout started; any excess becomes account credit
+        const balance = Math.round((parseFloat(invoice.total) - await getInvoiceAmountPaid(invoice.id, client)) * 100) / 100;
+        const { receipt } = await recordInvoicePayment({
+          invoice,
+          amount,
+          balance,
+          paymentMethod: 'online',
+          branchId: invoice.home_branch_id,
+          reference: session.provider_session_id,
+          notes: `Online checkout (${provider.name})`,
+          processedBy: null
+        }, client);
+        transactionId = receipt.id;
+      } else {
+        // Money arrived for an invoice that was voided meanwhile, so keep it on the family account
+        // (the invoiced parent's, since any guardian with payment access may have paid)
+        await client.query(`
+          INSERT INTO "AccountCredit" (parent_id, amount, description)
+          VALUES ($1, $2, $3)
+        `, [invoice?.parent_id ?? session.parent_id, amount, `Online payment ${session.provider_session_id} for a voided invoice`]);
+      }
+    } else {
+      // Months recorded before invoicing was introduced have no invoice to pay against
+      await client.query(`
+        UPDATE "Payment"
+        SET paid = TRUE, payment_date = NOW(), payment_method = 'online', updated_at = NOW()
+        WHERE id = $1 AND paid = FALSE
+      `, [session.payment_id]);
+    }
+
+    await client.query(`
+      UPDATE "CheckoutSession"
+      SET status = 'completed', completed_at = NOW(), transaction_id = $2
+      WHERE id = $1
+    `, [session.id, transactionId]);
+
+    await client.query('COMMIT');
+    return 'processed';
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
@@ -0,0 +1,227 @@
+// backend/src/services/pdf.ts
+
+import PDFDocument from 'pdfkit';
+
+export interface BranchDetails {
+  name: string;
+  address: string | null;
+  phone: string | null;
+}
+
+export interface ReceiptTransaction {
+  receipt_number: string;
+  transaction_type: 'payment' | 'refund';
+  payment_method: string;
+  amount: number | string;
+  created_at: Date;
+}
+
+export interface ReceiptDocument {
+  branch: BranchDetails;
+  student_name: string;
+  parent_name: string;
+  month: string;
+  amount: number | string;
+  payment_date: Date | null;
+  payment_method: string | null;
+  invoice_number: string | null;
+  transactions: ReceiptTransaction[];
+}
+
+export interface StatementEntry {
+  month: string;
+  invoice_number: string | null;
+  amount: number | string;
+  paid: boolean;
+  payment_date: Date | null;
+  payment_method: string | null;
+  transactions: ReceiptTransaction[];
+}
+
+export interface StatementDocument {
+  branch: BranchDetails;
+  student_name: string;
+  parent_name: string;
+  year: number;
+  entries: StatementEntry[];
+}
+
+const PAGE_MARGIN = 50;
+
+const toAmount = (amount: number | string): number =>
+  typeof amount === 'string' ? parseFloat(amount) || 0 : amount || 0;
+
+const formatAmount = (amount: number | string): string =>
+  new Intl.NumberFormat('en-SG', { style: 'currency', currency: 'SGD' }).format(toAmount(amount));
+
+const formatDate = (date: Date | null): string =>
+  date
+    ? new Date(date).toLocaleDateString('en-SG', { day: '2-digit', month: 'short', year: 'numeric' })
+    : '-';
+
+const formatMonth = (month: string): string => {
+  const [year, monthNumber] = month.split('-');
+  return new Date(parseInt(year), parseInt(monthNumber) - 1)
+    .toLocaleDateString('en-SG', { month: 'long', year: 'numeric' });
+};
+
+const formatMethod = (method: string | null): string =>
+  method ? method.replace('_', ' ').replace(/\b\w/g, letter => letter.toUpperCase()) : '-';
+
+// Collect the generated document into a single buffer
+const renderToBuffer = (doc: PDFKit.PDFDocument): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    doc.on('data', chunk => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+    doc.end();
+  });
+
+// Branch letterhead shared by every document
+const drawBranchHeader = (doc: PDFKit.PDFDocument, branch: BranchDetails, title: string) => {
+  doc.font('Helvetica-Bold').fontSize(18).fillColor('#312e81').text(branch.name, PAGE_MARGIN, PAGE_MARGIN);
+  doc.font('Helvetica').fontSize(9).fillColor('#4b5563');
+  if (branch.address) doc.text(branch.address);
+  if (branch.phone) doc.text(`Tel: ${branch.phone}`);
+
+  doc.font('Helvetica-Bold').fontSize(14).fillColor('#111827')
+    .text(title, PAGE_MARGIN, PAGE_MARGIN, { align: 'right' });
+
+  const lineY = Math.max(doc.y, PAGE_MARGIN + 50) + 10;
+  doc.moveTo(PAGE_MARGIN, lineY).lineTo(doc.page.width - PAGE_MARGIN, lineY).strokeColor('#c7d2fe').stroke();
+  doc.x = PAGE_MARGIN;
+  doc.y = lineY + 15;
+};
+
+const drawLabelValue = (doc: PDFKit.PDFDocument, label: string, value: string) => {
+  doc.font('Helvetica-Bold').fontSize(10).fillColor('#374151').text(`${label}: `, { continued: true });
+  doc.font('Helvetica').text(value);
+};
+
+// One row of a simple left-aligned table; the last column is right-aligned
+const drawRow = (doc: PDFKit.PDFDocument, columns: string[], widths: number[], style: 'normal' | 'bold' | 'muted' = 'normal') => {
+  if (doc.y > doc.page.height - PAGE_MARGIN - 40) {
+    doc.addPage();
+  }
+
+  const y = doc.y;
+  let x = PAGE_MARGIN;
+  doc.font(style === 'bold' ? 'Helvetica-Bold' : 'Helvetica').fontSize(9).fillColor(style === 'muted' ? '#6b7280' : '#111827');
+
+  columns.forEach((column, index) => {
+    doc.text(column, x, y, {
+      width: widths[index],
+      align: index === columns.length - 1 ? 'right' : 'left'
+    });
+    x += widths[index];
+  });
+
+  doc.x = PAGE_MARGIN;
+  doc.y = y + 16;
+};
+
+const drawFooter = (doc: PDFKit.PDFDocument) => {
+  doc.moveDown(2);
+  doc.font('Helvetica').fontSize(8).fillColor('#6b7280')
+    .text(`Generated on ${formatDate(new Date())}. This is a computer-generated document and requires no signature.`, PAGE_MARGIN);
+};
+
+// Receipt for one month's payment, listing every receipt number taken against it
+export const renderReceiptPdf = (receipt: ReceiptDocument): Promise<Buffer> => {
+  const doc = new PDFDocument({ size: 'A4', margin: PAGE_MARGIN, info: { Title: `Receipt - ${receipt.student_name} - ${receipt.month}` } });
+
+  drawBranchHeader(doc, receipt.branch, 'PAYMENT RECEIPT');
+
+  drawLabelValue(doc, 'Student', receipt.student_name);
+  drawLabelValue(doc, 'Parent', receipt.parent_name);
+  drawLabelValue(doc, 'Billing month', formatMonth(receipt.month));
+  if (receipt.invoice_number) drawLabelValue(doc, 'Invoice', receipt.invoice_number);
+  drawLabelValue(doc, 'Payment date', formatDate(receipt.payment_date));
+  doc.moveDown();
+
+  const widths = [120, 120, 135, 120];
+  drawRow(doc, ['Receipt No.', 'Date', 'Method', 'Amount'], widths, 'bold');
+
+  if (receipt.transactions.length === 0) {
+    drawRow(doc, ['-', formatDate(receipt.payment_date), formatMethod(receipt.payment_method), formatAmount(receipt.amount)], widths);
+  } else {
+    for (const transaction of receipt.transactions) {
+      const amount = transaction.transaction_type === 'refund'
+        ? `-${formatAmount(transaction.amount)}`
+        : formatAmount(transaction.amount);
+      drawRow(doc, [transaction.receipt_number, formatDate(transaction.created_at), formatMethod(transaction.payment_method), amount], widths);
+    }
+  }
+
+  doc.moveDown(0.5);
+  drawRow(doc, ['', '', 'Month total', formatAmount(receipt.amount)], widths, 'bold');
+
+  if (receipt.transactions.length > 0) {
+    const amountPaid = receipt.transactions.reduce((sum, transaction) =>
+      sum + (transaction.transaction_type === 'refund' ? -1 : 1) * toAmount(transaction.amount), 0);
+    drawRow(doc, ['', '', 'Amount paid', formatAmount(amountPaid)], widths, 'bold');
+  }
+
+  drawFooter(doc);
+
+  return renderToBuffer(doc);
+};
+
+// Yearly statement of every monthly charge for one child and how it was paid
+export const renderStatementPdf = (statement: StatementDocument): Promise<Buffer> => {
+  const doc = new PDFDocument({ size: 'A4', margin: PAGE_MARGIN, info: { Title: `Statement - ${statement.student_name} - ${statement.year}` } });
+
+  drawBranchHeader(doc, statement.branch, `STATEMENT ${statement.year}`);
+
+  drawLabelValue(doc, 'Student', statement.student_name);
+  drawLabelValue(doc, 'Parent', statement.parent_name);
+  drawLabelValue(doc, 'Period', `January - December ${statement.year}`);
+  doc.moveDown();
+
+  const widths = [105, 95, 95, 100, 100];
+  drawRow(doc, ['Month', 'Invoice', 'Status', 'Paid on', 'Amount'], widths, 'bold');
+
+  let totalBilled = 0;
+  let totalPaid = 0;
+
+  for (const entry of statement.entries) {
+    const amount = toAmount(entry.amount);
+    totalBilled += amount;
+    if (entry.paid) totalPaid += amount;
+
+    drawRow(doc, [
+      formatMonth(entry.month),
+      entry.invoice_number || '-',
+      entry.paid ? `Paid (${formatMethod(entry.payment_method)})` : 'Outstanding',
+      formatDate(entry.payment_date),
+      formatAmount(amount)
+    ], widths);
+
+    for (const transaction of entry.transactions) {
+      const transactionAmount = transaction.transaction_type === 'refund'
+        ? `-${formatAmount(transaction.amount)}`
+        : formatAmount(transaction.amount);
+      drawRow(doc, [
+        '',
+        transaction.receipt_number,
+        formatMethod(transaction.payment_method),
+        formatDate(transaction.created_at),
+        transactionAmount
+      ], widths, 'muted');
+    }
+  }
+
+  if (statement.entries.length === 0) {
+    doc.font('Helvetica').fontSize(10).fillColor('#6b7280').text(`No charges were recorded in ${statement.year}.`);
+  }
+
+  doc.moveDown(0.5);
+  drawRow(doc, ['', '', '', 'Total billed', formatAmount(totalBilled)], widths, 'bold');
+  drawRow(doc, ['', '', '', 'Total paid', formatAmount(totalPaid)], widths, 'bold');
+  drawRow(doc, ['', '', '', 'Outstanding', formatAmount(totalBilled - totalPaid)], widths, 'bold');
+
+  drawFooter(doc);
+
+  return renderToBuffer(doc);
+};
@@ -0,0 +1,44 @@
+// backend/src/services/permissions.ts
+
+import { Pool, PoolClient } from 'pg';
+import { pool } from '../index';
+import { Permission } from '../config/permissions';
+import { AuthRequest } from '../middleware/auth';
+
+// Permissions granted by a user's role. Read from the database on every request, so changes to a
+// role apply to everyone holding it straight away.
+export const getUserPermissions = async (userId: string, db: Pool | PoolClient = pool): Promise<Permission[]> => {
+  const result = await db.query(`
+    SELECT rp.permission
+    FROM "User" u
+    JOIN "RolePermission" rp ON rp.role_id = u.role_id
+    WHERE u.id = $1
+    ORDER BY rp.permission
+  `, [userId]);
+
+  return result.rows.map(row => row.permission);
+};
+
+// Loaded at most once per request and kept on the request
+export const loadRequestPermissions = async (req: AuthRequest): Promise<Permission[]> => {
+  if (!req.permissions) {
+    req.permissions = await getUserPermissions(req.user!.userId);
+  }
+  return req.permissions;
+};
+
+export const hasPermission = async (req: AuthRequest, permission: Permission): Promise<boolean> => {
+  return (await loadRequestPermissions(req)).includes(permission);
+};
+
+// Role name, permissions and branch assignments (null when not limited to any) of a "User" row
+// (selected without a table alias), for the user objects returned at sign-in and by /me
+export const USER_ACCESS_COLUMNS = `
+  (SELECT name FROM "Role" WHERE id = "User".role_id) as role_name,
+  ARRAY(SELECT permission FROM "RolePermission" WHERE role_id = "User".role_id ORDER BY permission) as permissions,
+  CASE
+    WHEN "User".role IN ('parent', 'student')
+      OR EXISTS (SELECT 1 FROM "RolePermission" WHERE role_id = "User".role_id AND permission = 'branch.all')
+      THEN NULL
+    ELSE ARRAY(SELECT branch_id FROM "StaffBranch" WHERE user_id = "User".id)
+  END as branch_ids`;
@@ -0,0 +1,156 @@
+// backend/src/services/reminders.ts
+
+import { pool } from '../index';
+import { getReminderSettings } from '../config/reminders';
+import { formatNotificationTime } from '../config/notifications';
+import { notifyGuardians, notifyUsers } from './notifications';
+
+// Format a date as a local YYYY-MM-DD key (class times are stored as local timestamps)
+const toDateKey = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+// "today", "tomorrow" or "on Monday", from the actual start time rather than the offset, so late reminders still read right
+const describeDay = (startTime: Date): string => {
+  const tomorrow = new Date();
+  tomorrow.setDate(tomorrow.getDate() + 1);
+
+  if (toDateKey(startTime) === toDateKey(new Date())) {
+    return 'today';
+  }
+  if (toDateKey(startTime) === toDateKey(tomorrow)) {
+    return 'tomorrow';
+  }
+  return `on ${startTime.toLocaleDateString('en-SG', { weekday: 'long' })}`;
+};
+
+// Remind the guardians of every enrolled student as each configured offset before a class is reached.
+// Only the offset whose window the class is in now is sent, so a student enrolled two hours ahead gets
+// the 2-hour reminder rather than a late 24-hour one. A ClassReminder row is claimed in the same
+// transaction as the notifications, so each reminder goes out once across restarts and replicas.
+// Returns the number of reminders sent.
+export const sendClassReminders = async (): Promise<number> => {
+  const { offset_minutes: offsets } = getReminderSettings();
+  const client = await pool.connect();
+  let sent = 0;
+
+  try {
+    await client.query('BEGIN');
+
+    for (let i = 0; i < offsets.length; i++) {
+      const dueResult = await client.query(`
+        WITH claimed AS (
+          INSERT INTO "ClassReminder" (class_id, student_id, offset_minutes)
+          SELECT e.class_id, e.student_id, $1
+          FROM "Enrollment" e
+          JOIN "Class" c ON e.class_id = c.id
+          JOIN "Student" s ON e.student_id = s.id
+          WHERE e.status = 'enrolled' AND c.active = TRUE AND s.active = TRUE
+            AND c.start_time > NOW() + make_interval(mins => $2)
+            AND c.start_time <= NOW() + make_interval(mins => $1)
+          ON CONFLICT DO NOTHING
+          RETURNING class_id, student_id
+        )
+        SELECT claimed.student_id, c.subject, c.start_time, b.name as branch_name, cr.room_name
+        FROM claimed
+        JOIN "Class" c ON claimed.class_id = c.id
+        LEFT JOIN "Branch" b ON c.branch_id = b.id
+        LEFT JOIN "Classroom" cr ON c.classroom_id = cr.id
+      `, [offsets[i], offsets[i + 1] ?? 0]);
+
+      for (const reminder of dueResult.rows) {
+        await notifyGuardians([reminder.student_id], 'class_reminder', {
+          subject: reminder.subject,
+          startsIn: describeDay(new Date(reminder.start_time)),
+          when: formatNotificationTime(reminder.start_time),
+          location: [reminder.room_name, reminder.branch_name].filter(Boolean).join(', ') || 'the centre'
+        }, client);
+        sent++;
+      }
+    }
+
+    await client.query('COMMIT');
+    return sent;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+// Send each tutor with classes today their agenda, once per day from TUTOR_AGENDA_HOUR. The TutorAgenda
+// row is claimed with the notification, so restarts and other replicas don't send it again. A class with
+// cover goes on the substitute's agenda rather than the regular tutor's.
+// Returns the number of agendas sent.
+export const sendTutorAgendas = async (): Promise<number> => {
+  const { agenda_hour: agendaHour } = getReminderSettings();
+  const now = new Date();
+
+  if (now.getHours() < agendaHour) {
+    return 0;
+  }
+
+  const today = toDateKey(now);
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const agendaResult = await client.query(`
+      INSERT INTO "TutorAgenda" (tutor_id, agenda_date, class_count)
+      SELECT COALESCE(c.substitute_tutor_id, c.tutor_id), $1::date, COUNT(*)
+      FROM "Class" c
+      JOIN "User" u ON COALESCE(c.substitute_tutor_id, c.tutor_id) = u.id AND u.active = TRUE
+      WHERE c.active = TRUE AND c.start_time::date = $1::date
+      GROUP BY COALESCE(c.substitute_tutor_id, c.tutor_id)
+      ON CONFLICT DO NOTHING
+      RETURNING tutor_id, class_count
+    `, [today]);
+
+    if (agendaResult.rows.length > 0) {
+      const classesResult = await client.query(`
+        SELECT COALESCE(c.substitute_tutor_id, c.tutor_id) as tutor_id, c.subject, c.start_time, c.duration_minutes,
+               b.name as branch_name, cr.room_name,
+               COUNT(e.id) as enrolled_count
+        FROM "Class" c
+        LEFT JOIN "Branch" b ON c.branch_id = b.id
+        LEFT JOIN "Classroom" cr ON c.classroom_id = cr.id
+        LEFT JOIN "Enrollment" e ON e.class_id = c.id AND e.status = 'enrolled'
+        WHERE COALESCE(c.substitute_tutor_id, c.tutor_id) = ANY($2::uuid[]) AND c.active = TRUE AND c.start_time::date = $1::date
+        GROUP BY c.id, b.name, cr.room_name
+        ORDER BY c.start_time
+      `, [today, agendaResult.rows.map(row => row.tutor_id)]);
+
+      const date = now.toLocaleDateString('en-SG', { weekday: 'short', day: '2-digit', month: 'short', year: 'numeric' });
+
+      for (const agenda of agendaResult.rows) {
+        const entries = classesResult.rows
+          .filter(classItem => classItem.tutor_id === agenda.tutor_id)
+          .map(classItem => {
+            const time = new Date(classItem.start_time).toLocaleTimeString('en-SG', { hour: 'numeric', minute: '2-digit' });
+            const place = [classItem.room_name, classItem.branch_name].filter(Boolean).join(', ');
+            const students = parseInt(classItem.enrolled_count) || 0;
+            return `${time} ${classItem.subject} (${place ? `${place}, ` : ''}${students} ${students === 1 ? 'student' : 'students'})`;
+          });
+
+        await notifyUsers([agenda.tutor_id], 'tutor_agenda', {
+          date,
+          classCount: `${agenda.class_count} ${agenda.class_count === 1 ? 'class' : 'classes'}`,
+          agenda: entries.join('; ')
+        }, client);
+      }
+    }
+
+    await client.query('COMMIT');
+    return agendaResult.rows.length;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
@@ -0,0 +1,197 @@
+// backend/src/services/sessions.ts
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Request } from 'express';
+import { Pool, PoolClient } from 'pg';
+import { pool } from '../index';
+
+export interface SessionUser {
+  id: string;
+  email: string;
+  role: string;
+}
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: number;
+}
+
+// Access token and refresh token lifetimes (read lazily, after dotenv has loaded)
+const getAccessTokenMinutes = (): number => parseInt(process.env.ACCESS_TOKEN_MINUTES || '15') || 15;
+const getRefreshTokenDays = (): number => parseInt(process.env.REFRESH_TOKEN_DAYS || '30') || 30;
+
+const getJwtSecret = (): string => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET is not configured');
+  }
+  return secret;
+};
+
+// Only a hash of each refresh token is stored, so a database leak does not hand out sessions
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+// Short-lived access token; sid ties it to the refresh token family so logout takes effect immediately
+const signAccessToken = (user: SessionUser, sessionId: string): string => {
+  return jwt.sign(
+    { userId: user.id, email: user.email, role: user.role, sid: sessionId },
+    getJwtSecret(),
+    { expiresIn: getAccessTokenMinutes() * 60 }
+  );
+};
+
+// Store a new refresh token in the given family and return the raw value for the client
+const insertRefreshToken = async (userId: string, familyId: string, req: Request, db: Pool | PoolClient): Promise<{ id: string; token: string }> => {
+  const token = crypto.randomBytes(32).toString('base64url');
+
+  const result = await db.query(`
+    INSERT INTO "RefreshToken" (user_id, family_id, token_hash, expires_at, user_agent, ip_address)
+    VALUES ($1, $2, $3, NOW() + make_interval(days => $4), $5, $6)
+    RETURNING id
+  `, [userId, familyId, hashToken(token), getRefreshTokenDays(), req.get('User-Agent')?.slice(0, 500) || null, req.ip || null]);
+
+  return { id: result.rows[0].id, token };
+};
+
+// Start a new session (one refresh token family per sign-in) and issue its first token pair
+export const issueSession = async (user: SessionUser, req: Request, db: Pool | PoolClient = pool): Promise<SessionTokens> => {
+  // Expired tokens are no longer needed for reuse detection, so tidy them up on each sign-in
+  await db.query('DELETE FROM "RefreshToken" WHERE user_id = $1 AND expires_at < NOW()', [user.id]);
+
+  const familyId = crypto.randomUUID();
+  const refresh = await insertRefreshToken(user.id, familyId, req, db);
+
+  return {
+    token: signAccessToken(user, familyId),
+    refreshToken: refresh.token,
+    expiresIn: getAccessTokenMinutes() * 60
+  };
+};
+
+// Exchange a refresh token for a new pair. Each refresh token works once; presenting one that was
+// already rotated means it was copied, so the whole family is revoked and everyone must sign in again.
+export const rotateRefreshToken = async (refreshToken: string, req: Request): Promise<(SessionTokens & { user: SessionUser }) | null> => {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const tokenResult = await client.query(`
+      SELECT rt.id, rt.family_id, rt.replaced_by, rt.revoked_at, rt.expires_at < NOW() as expired,
+             u.id as user_id, u.email, u.role, u.active
+      FROM "RefreshToken" rt
+      JOIN "User" u ON rt.user_id = u.id
+      WHERE rt.token_hash = $1
+      FOR UPDATE OF rt
+    `, [hashToken(refreshToken)]);
+
+    if (tokenResult.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    const stored = tokenResult.rows[0];
+
+    if (stored.replaced_by && !stored.revoked_at) {
+      console.warn('SECURITY: Refresh token reuse detected, revoking session', {
+        userId: stored.user_id,
+        familyId: stored.family_id,
+        ip: req.ip,
+        timestamp: new Date().toISOString()
+      });
+      await revokeSession(stored.family_id, 'reuse_detected', client);
+      await client.query('COMMIT');
+      return null;
+    }
+
+    if (stored.revoked_at || stored.expired || !stored.active) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    const user: SessionUser = { id: stored.user_id, email: stored.email, role: stored.role };
+    const next = await insertRefreshToken(user.id, stored.family_id, req, client);
+
+    await client.query(`
+      UPDATE "RefreshToken"
+      SET replaced_by = $2, last_used_at = NOW()
+      WHERE id = $1
+    `, [stored.id, next.id]);
+
+    await client.query('COMMIT');
+
+    return {
+      user,
+      token: signAccessToken(user, stored.family_id),
+      refreshToken: next.token,
+      expiresIn: getAccessTokenMinutes() * 60
+    };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+// Find the live (unrotated, unrevoked, unexpired) refresh token matching a raw value
+export const findActiveRefreshToken = async (refreshToken: string, db: Pool | PoolClient = pool): Promise<{ familyId: string; user: SessionUser } | null> => {
+  const result = await db.query(`
+    SELECT rt.family_id, u.id, u.email, u.role
+    FROM "RefreshToken" rt
+    JOIN "User" u ON rt.user_id = u.id
+    WHERE rt.token_hash = $1 AND rt.replaced_by IS NULL AND rt.revoked_at IS NULL AND rt.expires_at > NOW()
+  `, [hashToken(refreshToken)]);
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  const row = result.rows[0];
+  return { familyId: row.family_id, user: { id: row.id, email: row.email, role: row.role } };
+};
+
+// End one session (sign out of a single device)
+export const revokeSession = async (familyId: string, reason: string, db: Pool | PoolClient = pool): Promise<void> => {
+  await db.query(`
+    UPDATE "RefreshToken"
+    SET revoked_at = NOW(), revoked_reason = $2
+    WHERE family_id = $1 AND revoked_at IS NULL
+  `, [familyId, reason]);
+};
+
+// End every session a user holds, e.g. sign out of all devices or account deactivation, and return
+// how many were signed in. keepSessionId spares the caller's own session, e.g. after they change their password.
+export const revokeUserSessions = async (
+  userId: string,
+  reason: string,
+  db: Pool | PoolClient = pool,
+  keepSessionId: string | null = null
+): Promise<number> => {
+  const result = await db.query(`
+    UPDATE "RefreshToken"
+    SET revoked_at = NOW(), revoked_reason = $2
+    WHERE user_id = $1 AND revoked_at IS NULL AND ($3::uuid IS NULL OR family_id <> $3::uuid)
+    RETURNING replaced_by IS NULL AND expires_at > NOW() as was_live
+  `, [userId, reason, keepSessionId]);
+
+  // Rotated-away tokens are revoked too, but only live ones count as a signed-in session
+  return result.rows.filter(row => row.was_live).length;
+};
+
+// Whether an access token's session is still usable: the user is active and the family has a live token
+export const isSessionActive = async (userId: string, sessionId: string): Promise<boolean> => {
+  const result = await pool.query(`
+    SELECT EXISTS (
+      SELECT 1
+      FROM "RefreshToken" rt
+      JOIN "User" u ON rt.user_id = u.id
+      WHERE rt.family_id = $2 AND rt.user_id = $1 AND u.active = TRUE
+        AND rt.replaced_by IS NULL AND rt.revoked_at IS NULL AND rt.expires_at > NOW()
+    ) as active
+  `, [userId, sessionId]);
+
+  return result.rows[0].active;
+};
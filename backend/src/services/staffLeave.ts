@@ -0,0 +1,72 @@
+// backend/src/services/staffLeave.ts
+
+import { Pool, PoolClient } from 'pg';
+import { pool } from '../index';
+
+const formatLeaveDay = (date: Date | string): string =>
+  new Date(date).toLocaleDateString('en-SG', { day: 'numeric', month: 'short', year: 'numeric' });
+
+// "on 3 Mar 2025" or "from 3 Mar 2025 to 7 Mar 2025", for messages and notifications
+export const formatLeaveDates = (startDate: Date | string, endDate: Date | string): string => {
+  const start = formatLeaveDay(startDate);
+  const end = formatLeaveDay(endDate);
+  return start === end ? `on ${start}` : `from ${start} to ${end}`;
+};
+
+// The approved leave a staff member is on for the day of a class, or null when they are not away then
+export const findLeaveForClass = async (staffId: string, classId: string, db: Pool | PoolClient = pool) => {
+  const result = await db.query(`
+    SELECT l.id, l.start_date, l.end_date
+    FROM "StaffLeave" l
+    JOIN "Class" c ON c.id = $2
+    WHERE l.staff_id = $1 AND l.status = 'approved'
+      AND c.start_time::date BETWEEN l.start_date AND l.end_date
+    LIMIT 1
+  `, [staffId, classId]);
+
+  return result.rows[0] || null;
+};
+
+// Active classes a staff member teaches or covers between two dates (inclusive), with who covers each
+export const getLeaveClasses = async (
+  staffId: string,
+  startDate: Date | string,
+  endDate: Date | string,
+  db: Pool | PoolClient = pool
+) => {
+  const result = await db.query(`
+    SELECT c.id, c.subject, c.level, c.start_time, c.duration_minutes, c.branch_id, b.name as branch_name,
+           c.tutor_id, c.substitute_tutor_id, sub.first_name as substitute_first_name, sub.last_name as substitute_last_name,
+           c.substitute_tutor_id = $1 as is_cover,
+           (SELECT COUNT(*) FROM "Enrollment" e WHERE e.class_id = c.id AND e.status = 'enrolled')::int as enrolled_count
+    FROM "Class" c
+    LEFT JOIN "Branch" b ON c.branch_id = b.id
+    LEFT JOIN "User" sub ON c.substitute_tutor_id = sub.id
+    WHERE (c.tutor_id = $1 OR c.substitute_tutor_id = $1) AND c.active = TRUE
+      AND c.start_time::date BETWEEN $2::date AND $3::date
+    ORDER BY c.start_time
+  `, [staffId, startDate, endDate]);
+
+  return result.rows;
+};
+
+// Who answers a staff member's leave requests: roles with leave.manage working at one of the staff
+// member's branches (or across every branch), other than the staff member themselves
+export const getLeaveManagerIds = async (staffId: string, db: Pool | PoolClient = pool): Promise<string[]> => {
+  const result = await db.query(`
+    SELECT u.id
+    FROM "User" u
+    WHERE u.active = TRUE AND u.id <> $1
+      AND EXISTS (SELECT 1 FROM "RolePermission" rp WHERE rp.role_id = u.role_id AND rp.permission = 'leave.manage')
+      AND (
+        EXISTS (SELECT 1 FROM "RolePermission" rp WHERE rp.role_id = u.role_id AND rp.permission = 'branch.all')
+        OR EXISTS (
+          SELECT 1 FROM "StaffBranch" mine
+          JOIN "StaffBranch" theirs ON theirs.branch_id = mine.branch_id
+          WHERE mine.user_id = u.id AND theirs.user_id = $1
+        )
+      )
+  `, [staffId]);
+
+  return result.rows.map(row => row.id);
+};
@@ -0,0 +1,33 @@
+// backend/src/services/studentAccounts.ts
+
+import { Pool, PoolClient } from 'pg';
+import { pool } from '../index';
+import { revokeUserSessions } from './sessions';
+
+// The active student record a student account is linked to, or null
+export const getOwnStudentId = async (userId: string, db: Pool | PoolClient = pool): Promise<string | null> => {
+  const result = await db.query('SELECT id FROM "Student" WHERE user_id = $1 AND active = TRUE', [userId]);
+  return result.rows[0]?.id ?? null;
+};
+
+// Deactivate the sign-ins of the given students and end their sessions. The link stays on the student,
+// so a guardian can later give the same login back. Returns how many accounts were closed.
+export const closeStudentAccounts = async (studentIds: string[], db: Pool | PoolClient = pool): Promise<number> => {
+  if (studentIds.length === 0) {
+    return 0;
+  }
+
+  const result = await db.query(`
+    UPDATE "User" u
+    SET active = FALSE, updated_at = NOW()
+    FROM "Student" s
+    WHERE s.id = ANY($1::uuid[]) AND u.id = s.user_id AND u.active = TRUE
+    RETURNING u.id
+  `, [studentIds]);
+
+  for (const row of result.rows) {
+    await revokeUserSessions(row.id, 'deactivated', db);
+  }
+
+  return result.rows.length;
+};
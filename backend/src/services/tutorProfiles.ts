@@ -0,0 +1,240 @@
+// backend/src/services/tutorProfiles.ts
+
+import { Pool, PoolClient } from 'pg';
+import { pool } from '../index';
+
+// How well a tutor's qualifications fit a class: recorded for its subject and level, for its subject at
+// any level, no qualifications recorded at all (so not limited), or not qualified
+export type QualificationMatch = 'level' | 'subject' | 'unrestricted' | 'none';
+
+export interface TutorProfileInput {
+  maxWeeklyHours: number | null;
+  qualifications: { subject: string; level: string | null }[];
+  availability: { dayOfWeek: number; startTime: string; endTime: string }[];
+}
+
+// What a tutor is checked against: the class's subject and level, and each session they would teach
+export interface TeachingRequirements {
+  subject: string;
+  level: string | null;
+  sessions: { startTime: Date; durationMinutes: number }[];
+  // Sessions already booked that are being reassigned, so they don't count towards the weekly hours twice
+  excludeClassIds?: string[];
+}
+
+const MATCH_RANK: Record<QualificationMatch, number> = { level: 0, subject: 1, unrestricted: 2, none: 3 };
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Local time of day as HH:MM:SS, the format TIME columns come back in
+const toTimeOfDay = (date: Date): string =>
+  [date.getHours(), date.getMinutes(), date.getSeconds()].map(part => String(part).padStart(2, '0')).join(':');
+
+// Monday 00:00 of the (local) week a date falls in
+const startOfWeek = (date: Date): Date => {
+  const weekStart = new Date(date);
+  weekStart.setHours(0, 0, 0, 0);
+  weekStart.setDate(weekStart.getDate() - ((weekStart.getDay() + 6) % 7));
+  return weekStart;
+};
+
+const formatHours = (minutes: number): string => `${Math.round(minutes / 6) / 10}`;
+
+export const getTutorProfile = async (tutorId: string, db: Pool | PoolClient = pool) => {
+  const [userResult, qualificationsResult, availabilityResult] = await Promise.all([
+    db.query('SELECT max_weekly_hours FROM "User" WHERE id = $1', [tutorId]),
+    db.query('SELECT id, subject, level FROM "TutorQualification" WHERE tutor_id = $1 ORDER BY subject, level NULLS FIRST', [tutorId]),
+    db.query(`
+      SELECT id, day_of_week, start_time::text as start_time, end_time::text as end_time
+      FROM "TutorAvailability"
+      WHERE tutor_id = $1
+      ORDER BY day_of_week, start_time
+    `, [tutorId])
+  ]);
+
+  const maxWeeklyHours = userResult.rows[0]?.max_weekly_hours;
+
+  return {
+    max_weekly_hours: maxWeeklyHours === null || maxWeeklyHours === undefined ? null : Number(maxWeeklyHours),
+    qualifications: qualificationsResult.rows,
+    availability: availabilityResult.rows
+  };
+};
+
+// Replace a tutor's qualifications, availability and weekly limit. Pass the transaction client.
+export const setTutorProfile = async (tutorId: string, profile: TutorProfileInput, db: Pool | PoolClient = pool) => {
+  await db.query('UPDATE "User" SET max_weekly_hours = $2, updated_at = NOW() WHERE id = $1', [tutorId, profile.maxWeeklyHours]);
+
+  await db.query('DELETE FROM "TutorQualification" WHERE tutor_id = $1', [tutorId]);
+  for (const qualification of profile.qualifications) {
+    await db.query(
+      'INSERT INTO "TutorQualification" (tutor_id, subject, level) VALUES ($1, $2, $3) ON CONFLICT DO NOTHING',
+      [tutorId, qualification.subject, qualification.level]
+    );
+  }
+
+  await db.query('DELETE FROM "TutorAvailability" WHERE tutor_id = $1', [tutorId]);
+  for (const window of profile.availability) {
+    await db.query(
+      'INSERT INTO "TutorAvailability" (tutor_id, day_of_week, start_time, end_time) VALUES ($1, $2, $3, $4)',
+      [tutorId, window.dayOfWeek, window.startTime, window.endTime]
+    );
+  }
+};
+
+// Minutes a tutor teaches in the week starting at weekStart: their own classes unless someone covers them,
+// and classes they cover for others
+const getBookedMinutes = async (tutorId: string, weekStart: Date, excludeClassIds: string[], db: Pool | PoolClient) => {
+  const weekEnd = new Date(weekStart);
+  weekEnd.setDate(weekEnd.getDate() + 7);
+
+  const result = await db.query(`
+    SELECT COALESCE(SUM(duration_minutes), 0)::int as minutes
+    FROM "Class"
+    WHERE ((tutor_id = $1 AND substitute_tutor_id IS NULL) OR substitute_tutor_id = $1)
+      AND active = TRUE
+      AND start_time >= $2 AND start_time < $3
+      AND NOT (id = ANY($4::uuid[]))
+  `, [tutorId, weekStart.toISOString(), weekEnd.toISOString(), excludeClassIds]);
+
+  return result.rows[0].minutes as number;
+};
+
+// Check a tutor against their profile for a class: qualified for its subject and level, available for
+// every session, and within their weekly hours. Returns the reasons they can't take it (none when they can).
+export const checkTutorEligibility = async (
+  tutorId: string,
+  requirements: TeachingRequirements,
+  db: Pool | PoolClient = pool
+) => {
+  const profile = await getTutorProfile(tutorId, db);
+  const problems: string[] = [];
+
+  const subject = requirements.subject.trim().toLowerCase();
+  const level = requirements.level?.trim().toLowerCase() || null;
+  const subjectQualifications = profile.qualifications.filter(q => q.subject.trim().toLowerCase() === subject);
+
+  let qualification: QualificationMatch = 'none';
+  if (profile.qualifications.length === 0) {
+    qualification = 'unrestricted';
+  } else if (level && subjectQualifications.some(q => q.level?.trim().toLowerCase() === level)) {
+    qualification = 'level';
+  } else if (subjectQualifications.some(q => !q.level)) {
+    qualification = 'subject';
+  }
+
+  if (qualification === 'none') {
+    problems.push(`not qualified to teach ${requirements.subject}${requirements.level ? ` (${requirements.level})` : ''}`);
+  }
+
+  if (profile.availability.length > 0) {
+    const unavailable = requirements.sessions.filter(session => {
+      const end = new Date(session.startTime.getTime() + session.durationMinutes * 60 * 1000);
+      const day = session.startTime.getDay();
+      // Windows are within a day, so a session running past midnight never fits one
+      if (end.getDay() !== day) {
+        return true;
+      }
+      const startTime = toTimeOfDay(session.startTime);
+      const endTime = toTimeOfDay(end);
+      return !profile.availability.some(window =>
+        window.day_of_week === day && window.start_time <= startTime && window.end_time >= endTime
+      );
+    });
+
+    if (unavailable.length > 0) {
+      problems.push(requirements.sessions.length === 1
+        ? `not available on ${DAY_NAMES[unavailable[0].startTime.getDay()]}s at ${toTimeOfDay(unavailable[0].startTime).slice(0, 5)}`
+        : `not available for ${unavailable.length} of the ${requirements.sessions.length} sessions`);
+    }
+  }
+
+  // Booked minutes in the week of the first session, for ranking by who has the most room
+  const excludeClassIds = requirements.excludeClassIds || [];
+  const weeks = new Map<number, number>();
+  for (const session of requirements.sessions) {
+    const weekStart = startOfWeek(session.startTime).getTime();
+    weeks.set(weekStart, (weeks.get(weekStart) || 0) + session.durationMinutes);
+  }
+
+  let bookedMinutes = 0;
+  let overLimitWeeks = 0;
+  let firstWeek = true;
+  for (const [weekStart, newMinutes] of weeks) {
+    // Without a limit only the first week is needed, for ranking
+    if (profile.max_weekly_hours === null && !firstWeek) {
+      break;
+    }
+    const booked = await getBookedMinutes(tutorId, new Date(weekStart), excludeClassIds, db);
+    if (firstWeek) {
+      bookedMinutes = booked;
+      firstWeek = false;
+    }
+    if (profile.max_weekly_hours !== null && booked + newMinutes > profile.max_weekly_hours * 60) {
+      overLimitWeeks++;
+    }
+  }
+
+  if (overLimitWeeks > 0) {
+    problems.push(weeks.size === 1
+      ? `over the weekly limit of ${profile.max_weekly_hours} hours (this would make ${formatHours(bookedMinutes + requirements.sessions[0].durationMinutes)})`
+      : `over the weekly limit of ${profile.max_weekly_hours} hours in ${overLimitWeeks} of the ${weeks.size} weeks`);
+  }
+
+  return {
+    eligible: problems.length === 0,
+    qualification,
+    problems,
+    booked_hours: Number(formatHours(bookedMinutes)),
+    max_weekly_hours: profile.max_weekly_hours
+  };
+};
+
+// One line explaining why a tutor can't take a class, for error messages
+export const formatEligibilityProblems = (tutorName: string, problems: string[]): string =>
+  `${tutorName} is ${problems.join(', and ')}`;
+
+// Active staff at a branch checked against their profiles for a class, best fit first: eligible tutors,
+// then the closest qualification match, then whoever has the most of their weekly hours to spare
+export const rankEligibleTutors = async (
+  branchId: string,
+  requirements: TeachingRequirements,
+  excludeTutorIds: string[] = [],
+  db: Pool | PoolClient = pool
+) => {
+  const staffResult = await db.query(`
+    SELECT u.id, u.first_name, u.last_name
+    FROM "User" u
+    JOIN "StaffBranch" sb ON sb.user_id = u.id AND sb.branch_id = $1
+    WHERE u.role = 'staff' AND u.active = TRUE AND NOT (u.id = ANY($2::uuid[]))
+  `, [branchId, excludeTutorIds]);
+
+  const suggestions = [];
+  for (const staff of staffResult.rows) {
+    suggestions.push({ ...staff, ...(await checkTutorEligibility(staff.id, requirements, db)) });
+  }
+
+  return sortTutorSuggestions(suggestions);
+};
+
+// Order suggestions best first; used again after a route adds its own checks such as schedule clashes
+export const sortTutorSuggestions = <T extends {
+  eligible: boolean;
+  qualification: QualificationMatch;
+  booked_hours: number;
+  max_weekly_hours: number | null;
+  first_name: string;
+  last_name: string;
+}>(suggestions: T[]): T[] => {
+  const load = (suggestion: T) => suggestion.max_weekly_hours
+    ? suggestion.booked_hours / suggestion.max_weekly_hours
+    : 0;
+
+  return [...suggestions].sort((a, b) =>
+    Number(b.eligible) - Number(a.eligible)
+    || MATCH_RANK[a.qualification] - MATCH_RANK[b.qualification]
+    || load(a) - load(b)
+    || a.booked_hours - b.booked_hours
+    || `${a.first_name} ${a.last_name}`.localeCompare(`${b.first_name} ${b.last_name}`)
+  );
+};
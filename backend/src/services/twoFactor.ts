@@ -0,0 +1,323 @@
+// backend/src/services/twoFactor.ts
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import QRCode from 'qrcode';
+import { Pool, PoolClient } from 'pg';
+import { pool } from '../index';
+
+export type TwoFactorChallengePurpose = 'two_factor_login' | 'two_factor_setup';
+
+export interface TwoFactorProvisioning {
+  secret: string;
+  otpauth_url: string;
+  qr_code: string;
+}
+
+interface TwoFactorUser {
+  id: string;
+  email: string;
+}
+
+// RFC 6238 defaults, which is what every authenticator app expects
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Accept the previous and next code too, to allow for clock drift on the phone
+const TOTP_WINDOW = 1;
+const SECRET_BYTES = 20;
+const RECOVERY_CODE_COUNT = 10;
+// Time allowed between the password step and the code step of a login
+const CHALLENGE_LIFETIME_MINUTES = 5;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const getJwtSecret = (): string => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET is not configured');
+  }
+  return secret;
+};
+
+const getIssuer = (): string => process.env.TWO_FACTOR_ISSUER || 'EduSpark Tuition';
+
+// Roles that may not sign in without two-factor authentication (read lazily, after dotenv has loaded)
+export const getTwoFactorRequiredRoles = (): string[] => {
+  return (process.env.TWO_FACTOR_REQUIRED_ROLES || '')
+    .split(',')
+    .map(role => role.trim())
+    .filter(Boolean);
+};
+
+export const isTwoFactorRequired = (role: string): boolean => getTwoFactorRequiredRoles().includes(role);
+
+const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+const base32Decode = (input: string): Buffer => {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const character of input.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(character);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+// RFC 4226 HOTP value for one counter
+const generateHotp = (secret: Buffer, counter: number): string => {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const digest = crypto.createHmac('sha1', secret).update(message).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = (digest.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+
+  return binary.toString().padStart(TOTP_DIGITS, '0');
+};
+
+// The time step a code matches within the allowed drift window, or null when it matches none
+const findMatchingStep = (secret: string, code: string): number | null => {
+  const normalized = code.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) {
+    return null;
+  }
+
+  const key = base32Decode(secret);
+  const currentStep = Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS);
+
+  for (let drift = -TOTP_WINDOW; drift <= TOTP_WINDOW; drift++) {
+    const expected = generateHotp(key, currentStep + drift);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return currentStep + drift;
+    }
+  }
+
+  return null;
+};
+
+// Secrets are encrypted at rest (AES-256-GCM), so a database dump alone cannot generate codes.
+// TWO_FACTOR_ENCRYPTION_KEY can be set to keep them independent of the JWT secret.
+const getEncryptionKey = (): Buffer => {
+  return crypto.createHash('sha256').update(process.env.TWO_FACTOR_ENCRYPTION_KEY || getJwtSecret()).digest();
+};
+
+const encryptSecret = (secret: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join(':');
+};
+
+const decryptSecret = (stored: string): string => {
+  const [iv, tag, encrypted] = stored.split(':').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+};
+
+// Recovery codes are only shown once; like passwords, only a hash is kept
+const normalizeRecoveryCode = (code: string): string => code.replace(/[\s-]/g, '').toLowerCase();
+const hashRecoveryCode = (code: string): string => crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+
+const generateRecoveryCode = (): string => {
+  const raw = base32Encode(crypto.randomBytes(7)).slice(0, 10).toLowerCase();
+  return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+};
+
+// Short-lived token proving the password step passed; it cannot be used as an access token
+export const createTwoFactorChallenge = (userId: string, purpose: TwoFactorChallengePurpose): string => {
+  return jwt.sign(
+    { purpose },
+    getJwtSecret(),
+    { subject: userId, audience: purpose, expiresIn: CHALLENGE_LIFETIME_MINUTES * 60 }
+  );
+};
+
+// The user id a challenge token was issued for, or null when it is forged, expired or for another purpose
+export const verifyTwoFactorChallenge = (token: unknown, purpose: TwoFactorChallengePurpose): string | null => {
+  if (!token || typeof token !== 'string') {
+    return null;
+  }
+
+  try {
+    const decoded = jwt.verify(token, getJwtSecret(), { algorithms: ['HS256'], audience: purpose }) as jwt.JwtPayload;
+    return decoded.sub || null;
+  } catch {
+    return null;
+  }
+};
+
+// Generate a new secret and keep it pending until the user proves their app produces matching codes
+export const startTwoFactorEnrollment = async (
+  user: TwoFactorUser,
+  db: Pool | PoolClient = pool
+): Promise<TwoFactorProvisioning> => {
+  const secret = base32Encode(crypto.randomBytes(SECRET_BYTES));
+
+  await db.query(
+    'UPDATE "User" SET totp_pending_secret = $2 WHERE id = $1',
+    [user.id, encryptSecret(secret)]
+  );
+
+  const issuer = getIssuer();
+  const label = encodeURIComponent(`${issuer}:${user.email}`);
+  // Spaces must be %20 rather than +, which some authenticator apps show literally
+  const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(issuer)}` +
+    `&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_STEP_SECONDS}`;
+
+  return {
+    secret,
+    otpauth_url: otpauthUrl,
+    qr_code: await QRCode.toDataURL(otpauthUrl)
+  };
+};
+
+// Replace a user's recovery codes with a fresh set and return them for display
+export const regenerateRecoveryCodes = async (userId: string, db: Pool | PoolClient = pool): Promise<string[]> => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+
+  await db.query('DELETE FROM "RecoveryCode" WHERE user_id = $1', [userId]);
+  await db.query(`
+    INSERT INTO "RecoveryCode" (user_id, code_hash)
+    SELECT $1, UNNEST($2::text[])
+  `, [userId, codes.map(hashRecoveryCode)]);
+
+  return codes;
+};
+
+// Switch two-factor on once a code from the pending secret checks out. Returns the new
+// recovery codes, or null when the code is wrong or no setup was started.
+export const confirmTwoFactorEnrollment = async (
+  userId: string,
+  code: string,
+  db: Pool | PoolClient = pool
+): Promise<string[] | null> => {
+  const result = await db.query(
+    'SELECT totp_pending_secret FROM "User" WHERE id = $1 AND two_factor_enabled = FALSE FOR UPDATE',
+    [userId]
+  );
+
+  const pendingSecret = result.rows[0]?.totp_pending_secret;
+  if (!pendingSecret) {
+    return null;
+  }
+
+  const step = findMatchingStep(decryptSecret(pendingSecret), code);
+  if (step === null) {
+    return null;
+  }
+
+  await db.query(`
+    UPDATE "User"
+    SET totp_secret = totp_pending_secret, totp_pending_secret = NULL, totp_last_step = $2,
+        two_factor_enabled = TRUE, two_factor_enabled_at = NOW(), updated_at = NOW()
+    WHERE id = $1
+  `, [userId, step]);
+
+  return regenerateRecoveryCodes(userId, db);
+};
+
+// Check a code from the user's authenticator app. Each code works once: the step it matched is
+// stored, and only later steps are accepted afterwards, so an intercepted code cannot be replayed.
+export const verifyTwoFactorCode = async (userId: string, code: unknown, db: Pool | PoolClient = pool): Promise<boolean> => {
+  if (!code || typeof code !== 'string') {
+    return false;
+  }
+
+  const result = await db.query(
+    'SELECT totp_secret FROM "User" WHERE id = $1 AND two_factor_enabled = TRUE',
+    [userId]
+  );
+
+  const secret = result.rows[0]?.totp_secret;
+  if (!secret) {
+    return false;
+  }
+
+  const step = findMatchingStep(decryptSecret(secret), code);
+  if (step === null) {
+    return false;
+  }
+
+  const claimed = await db.query(`
+    UPDATE "User"
+    SET totp_last_step = $2
+    WHERE id = $1 AND (totp_last_step IS NULL OR totp_last_step < $2)
+    RETURNING id
+  `, [userId, step]);
+
+  return claimed.rows.length > 0;
+};
+
+// Spend one of the user's recovery codes; false when it is wrong or already used
+export const consumeRecoveryCode = async (userId: string, code: unknown, db: Pool | PoolClient = pool): Promise<boolean> => {
+  if (!code || typeof code !== 'string') {
+    return false;
+  }
+
+  const result = await db.query(`
+    UPDATE "RecoveryCode"
+    SET used_at = NOW()
+    WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL
+    RETURNING id
+  `, [userId, hashRecoveryCode(code)]);
+
+  return result.rows.length > 0;
+};
+
+export const countRemainingRecoveryCodes = async (userId: string, db: Pool | PoolClient = pool): Promise<number> => {
+  const result = await db.query(
+    'SELECT COUNT(*)::int as remaining FROM "RecoveryCode" WHERE user_id = $1 AND used_at IS NULL',
+    [userId]
+  );
+
+  return result.rows[0].remaining;
+};
+
+// Turn two-factor off and forget the secret and recovery codes. Returns whether it was on.
+export const disableTwoFactor = async (userId: string, db: Pool | PoolClient = pool): Promise<boolean> => {
+  const result = await db.query(`
+    UPDATE "User" u
+    SET totp_secret = NULL, totp_pending_secret = NULL, totp_last_step = NULL,
+        two_factor_enabled = FALSE, two_factor_enabled_at = NULL, updated_at = NOW()
+    FROM (SELECT id, two_factor_enabled FROM "User" WHERE id = $1 FOR UPDATE) previous
+    WHERE u.id = previous.id
+    RETURNING previous.two_factor_enabled as was_enabled
+  `, [userId]);
+
+  await db.query('DELETE FROM "RecoveryCode" WHERE user_id = $1', [userId]);
+
+  return result.rows[0]?.was_enabled === true;
+};
@@ -0,0 +1,92 @@
+// backend/src/services/waitlist.ts
+
+import { Pool, PoolClient } from 'pg';
+import { pool } from '../index';
+import { notifyGuardians } from './notifications';
+import { formatNotificationTime } from '../config/notifications';
+
+// How long a promoted parent has to confirm the held seat (read lazily, after dotenv has loaded)
+const getHoldHours = (): number => parseInt(process.env.WAITLIST_HOLD_HOURS || '24') || 24;
+
+// Count of seats taken in a class: active enrollments plus seats held for waitlist offers
+export const getOccupiedSeats = async (classId: string, db: Pool | PoolClient = pool): Promise<number> => {
+  const result = await db.query(`
+    SELECT
+      (SELECT COUNT(*) FROM "Enrollment" e
+        JOIN "Student" s ON e.student_id = s.id AND s.active = TRUE
+        WHERE e.class_id = $1 AND e.status = 'enrolled') +
+      (SELECT COUNT(*) FROM "Waitlist" w
+        WHERE w.class_id = $1 AND w.status = 'offered' AND w.offer_expires_at > NOW()) as occupied
+  `, [classId]);
+
+  return parseInt(result.rows[0].occupied) || 0;
+};
+
+// Promote waiting students into free seats of a class, expiring stale offers first.
+// Returns the number of new offers made.
+export const processWaitlist = async (classId: string, db: Pool | PoolClient = pool): Promise<number> => {
+  await db.query(`
+    UPDATE "Waitlist"
+    SET status = 'expired', responded_at = NOW()
+    WHERE class_id = $1 AND status = 'offered' AND offer_expires_at <= NOW()
+  `, [classId]);
+
+  const classResult = await db.query(
+    'SELECT id, subject, capacity, start_time FROM "Class" WHERE id = $1 AND active = TRUE AND start_time > NOW()',
+    [classId]
+  );
+
+  if (classResult.rows.length === 0) {
+    return 0;
+  }
+
+  const classItem = classResult.rows[0];
+  const freeSeats = classItem.capacity - await getOccupiedSeats(classId, db);
+
+  if (freeSeats <= 0) {
+    return 0;
+  }
+
+  // Hold the seat until the hold period ends or the class starts, whichever comes first, and tell
+  // the guardians who can enroll the student
+  const offerResult = await db.query(`
+    UPDATE "Waitlist"
+    SET status = 'offered',
+        offered_at = NOW(),
+        offer_expires_at = LEAST(NOW() + INTERVAL '1 hour' * $2, $3::timestamp)
+    WHERE id IN (
+      SELECT id FROM "Waitlist"
+      WHERE class_id = $1 AND status = 'waiting'
+      ORDER BY created_at, id
+      LIMIT $4
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING id, student_id, offer_expires_at
+  `, [classId, getHoldHours(), classItem.start_time, freeSeats]);
+
+  for (const offer of offerResult.rows) {
+    await notifyGuardians([offer.student_id], 'waitlist_offer', {
+      subject: classItem.subject,
+      when: formatNotificationTime(classItem.start_time),
+      expiresAt: formatNotificationTime(offer.offer_expires_at)
+    }, db, 'can_enroll');
+  }
+
+  return offerResult.rowCount || 0;
+};
+
+// Expire every lapsed offer and pass the freed seats on to the next students in line.
+// Returns the number of new offers made.
+export const expireWaitlistOffers = async (): Promise<number> => {
+  const expiredResult = await pool.query(`
+    SELECT DISTINCT class_id FROM "Waitlist"
+    WHERE status = 'offered' AND offer_expires_at <= NOW()
+  `);
+
+  let offers = 0;
+  for (const row of expiredResult.rows) {
+    offers += await processWaitlist(row.class_id);
+  }
+
+  return offers;
+};
@@ -3,11 +3,20 @@
 export interface User {
   id: string;
   email: string;
+  email_verified: boolean;
+  email_verified_at?: Date;
   password: string;
-  role: 'parent' | 'staff' | 'admin';
+  two_factor_enabled: boolean;
+  two_factor_enabled_at?: Date;
+  failed_login_count: number;
+  last_failed_login_at?: Date;
+  locked_until?: Date;
+  role: 'parent' | 'staff' | 'admin' | 'student';
+  role_id: string;
   first_name: string;
   last_name: string;
   phone?: string;
+  max_weekly_hours?: number;
   created_at: Date;
   updated_at: Date;
 }
@@ -20,11 +29,43 @@ export interface Student {
   date_of_birth?: Date;
   parent_id?: string;
   home_branch_id?: string;
+  user_id?: string;
+  check_in_code?: string;
+  check_in_pin?: string;
   active: boolean;
   created_at: Date;
   updated_at: Date;
 }
 
+export interface StudentGuardian {
+  student_id: string;
+  guardian_id: string;
+  relationship: 'parent' | 'mother' | 'father' | 'guardian' | 'grandparent' | 'other';
+  is_primary: boolean;
+  can_enroll: boolean;
+  can_view_payments: boolean;
+  receives_notices: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface GuardianInvitation {
+  id: string;
+  student_id: string;
+  invited_by?: string;
+  email: string;
+  relationship: StudentGuardian['relationship'];
+  can_enroll: boolean;
+  can_view_payments: boolean;
+  receives_notices: boolean;
+  token_hash: string;
+  status: 'pending' | 'accepted' | 'declined' | 'revoked';
+  expires_at: Date;
+  accepted_by?: string;
+  responded_at?: Date;
+  created_at: Date;
+}
+
 export interface Branch {
   id: string;
   name: string;
@@ -52,6 +93,8 @@ export interface Class {
   description?: string;
   level?: string;
   tutor_id?: string;
+  // Covers this occurrence alongside the regular tutor
+  substitute_tutor_id?: string;
   classroom_id?: string;
   start_time: Date;
   end_time?: Date;
@@ -59,6 +102,39 @@ export interface Class {
   capacity: number;
   branch_id?: string;
   created_by?: string;
+  series_id?: string;
+  active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ClassMaterial {
+  id: string;
+  class_id: string;
+  series_id?: string;
+  title: string;
+  url: string;
+  description?: string;
+  created_by?: string;
+  created_at: Date;
+}
+
+export interface ClassSeries {
+  id: string;
+  subject: string;
+  description?: string;
+  level?: string;
+  tutor_id?: string;
+  classroom_id: string;
+  branch_id?: string;
+  frequency: 'weekly' | 'biweekly';
+  first_start_time: Date;
+  duration_minutes: number;
+  capacity: number;
+  term_start: Date;
+  term_end: Date;
+  skip_dates: Date[];
+  created_by?: string;
   active: boolean;
   created_at: Date;
   updated_at: Date;
@@ -72,6 +148,122 @@ export interface Enrollment {
   enrolled_by?: string;
   status: 'enrolled' | 'cancelled' | 'completed';
   cancelled_at?: Date;
+  term_enrollment_id?: string;
+}
+
+export interface TermEnrollment {
+  id: string;
+  student_id: string;
+  series_id: string;
+  enrolled_by?: string;
+  status: 'active' | 'cancelled';
+  created_at: Date;
+  cancelled_at?: Date;
+}
+
+export interface Waitlist {
+  id: string;
+  class_id: string;
+  student_id: string;
+  requested_by?: string;
+  status: 'waiting' | 'offered' | 'accepted' | 'declined' | 'expired' | 'cancelled';
+  offered_at?: Date;
+  offer_expires_at?: Date;
+  responded_at?: Date;
+  enrollment_id?: string;
+  created_at: Date;
+}
+
+export interface TuitionRate {
+  id: string;
+  subject: string;
+  level?: string;
+  series_id?: string;
+  class_id?: string;
+  session_fee: number;
+  monthly_fee?: number;
+  active: boolean;
+  created_by?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface Invoice {
+  id: string;
+  invoice_number: string;
+  student_id: string;
+  parent_id?: string;
+  month: string;
+  status: 'issued' | 'void';
+  subtotal: number;
+  discount_total: number;
+  total: number;
+  issued_by?: string;
+  issued_at: Date;
+  voided_by?: string;
+  voided_at?: Date;
+  void_reason?: string;
+  created_at: Date;
+}
+
+export interface InvoiceLineItem {
+  id: string;
+  invoice_id: string;
+  line_type: 'tuition' | 'discount';
+  description: string;
+  class_id?: string;
+  series_id?: string;
+  sessions?: number;
+  unit_price?: number;
+  amount: number;
+  prorated: boolean;
+  created_at: Date;
+}
+
+export interface PaymentTransaction {
+  id: string;
+  receipt_number: string;
+  transaction_type: 'payment' | 'refund';
+  invoice_id?: string;
+  student_id?: string;
+  parent_id?: string;
+  branch_id?: string;
+  payment_method: 'cash' | 'card' | 'bank_transfer' | 'cheque' | 'credit' | 'online';
+  amount: number;
+  applied_amount: number;
+  credit_amount: number;
+  refund_of?: string;
+  reference?: string;
+  notes?: string;
+  processed_by?: string;
+  created_at: Date;
+}
+
+export interface AccountCredit {
+  id: string;
+  parent_id: string;
+  amount: number;
+  transaction_id?: string;
+  description: string;
+  created_by?: string;
+  created_at: Date;
+}
+
+export interface CheckoutSession {
+  id: string;
+  provider: string;
+  provider_session_id: string;
+  payment_id: string;
+  invoice_id?: string;
+  parent_id: string;
+  amount: number;
+  currency: string;
+  checkout_url: string;
+  status: 'pending' | 'completed' | 'cancelled' | 'expired';
+  transaction_id?: string;
+  expires_at: Date;
+  completed_at?: Date;
+  created_at: Date;
 }
 
 export interface Payment {
@@ -81,11 +273,33 @@ export interface Payment {
   amount: number;
   paid: boolean;
   payment_date?: Date;
-  payment_method?: 'cash' | 'card' | 'bank_transfer' | 'online';
+  payment_method?: 'cash' | 'card' | 'bank_transfer' | 'online' | 'cheque';
   notes?: string;
+  processed_by?: string;
+  invoice_id?: string;
+  due_date?: Date;
   created_at: Date;
 }
 
+export interface DunningSettings {
+  payment_terms_days: number;
+  reminder_days: number[];
+  block_enrollment: boolean;
+  block_after_days: number;
+  updated_by?: string;
+  updated_at: Date;
+}
+
+export interface PaymentReminder {
+  id: string;
+  payment_id: string;
+  parent_id: string;
+  days_from_due: number;
+  due_date: Date;
+  amount_due: number;
+  sent_at: Date;
+}
+
 export interface Attendance {
   id: string;
   student_id: string;
@@ -94,4 +308,211 @@ export interface Attendance {
   status: 'present' | 'absent' | 'late';
   marked_by?: string;
   marked_at: Date;
-}
\ No newline at end of file
+  version: number;
+}
+
+export interface AttendanceRevision {
+  id: string;
+  attendance_id: string;
+  version: number;
+  status: 'present' | 'absent' | 'late' | 'excused';
+  previous_status?: 'present' | 'absent' | 'late' | 'excused';
+  notes?: string;
+  reason?: string;
+  changed_by?: string;
+  changed_by_name?: string;
+  changed_at: Date;
+}
+
+export interface KioskDevice {
+  id: string;
+  branch_id: string;
+  name: string;
+  token_hash: string;
+  created_by?: string;
+  created_at: Date;
+  last_seen_at?: Date;
+  revoked_at?: Date;
+}
+
+export interface StaffLeave {
+  id: string;
+  staff_id: string;
+  start_date: Date;
+  end_date: Date;
+  reason: string;
+  status: 'pending' | 'approved' | 'rejected' | 'cancelled';
+  reviewed_by?: string;
+  reviewed_at?: Date;
+  review_note?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface TutorQualification {
+  id: string;
+  tutor_id: string;
+  subject: string;
+  level?: string;
+  created_at: Date;
+}
+
+export interface TutorAvailability {
+  id: string;
+  tutor_id: string;
+  day_of_week: number;
+  start_time: string;
+  end_time: string;
+  created_at: Date;
+}
+
+export interface AuditLog {
+  id: string;
+  occurred_at: Date;
+  actor_id?: string;
+  actor_email?: string;
+  actor_role?: string;
+  action: string;
+  entity_type: string;
+  entity_id?: string;
+  before_data?: Record<string, unknown>;
+  after_data?: Record<string, unknown>;
+  changed_fields: string[];
+  ip_address?: string;
+  request_id?: string;
+  http_method?: string;
+  path?: string;
+}
+export interface RefreshToken {
+  id: string;
+  user_id: string;
+  family_id: string;
+  token_hash: string;
+  expires_at: Date;
+  replaced_by?: string;
+  last_used_at?: Date;
+  revoked_at?: Date;
+  revoked_reason?: string;
+  user_agent?: string;
+  ip_address?: string;
+  created_at: Date;
+}
+export interface AccountToken {
+  id: string;
+  user_id: string;
+  purpose: 'verify_email' | 'reset_password';
+  email: string;
+  expires_at: Date;
+  used_at?: Date;
+  created_at: Date;
+}
+export interface RecoveryCode {
+  id: string;
+  user_id: string;
+  code_hash: string;
+  used_at?: Date;
+  created_at: Date;
+}
+
+export interface LoginHistory {
+  id: string;
+  user_id?: string;
+  email: string;
+  success: boolean;
+  failure_reason?: 'unknown_account' | 'invalid_password' | 'invalid_two_factor' | 'locked';
+  ip_address?: string;
+  user_agent?: string;
+  unfamiliar: boolean;
+  created_at: Date;
+}
+
+export interface Notification {
+  id: string;
+  user_id: string;
+  type: string;
+  title: string;
+  body: string;
+  data: Record<string, string | number>;
+  in_app: boolean;
+  read_at?: Date;
+  created_at: Date;
+}
+
+export interface NotificationDelivery {
+  id: string;
+  notification_id: string;
+  channel: 'email' | 'sms';
+  status: 'pending' | 'sent' | 'failed';
+  attempts: number;
+  next_attempt_at: Date;
+  last_error?: string;
+  transport?: string;
+  sent_at?: Date;
+  created_at: Date;
+}
+
+export interface NotificationPreference {
+  user_id: string;
+  type: string;
+  channel: 'in_app' | 'email' | 'sms';
+  enabled: boolean;
+  updated_at: Date;
+}
+
+export interface ClassReminder {
+  class_id: string;
+  student_id: string;
+  offset_minutes: number;
+  sent_at: Date;
+}
+
+export interface TutorAgenda {
+  tutor_id: string;
+  agenda_date: Date;
+  class_count: number;
+  sent_at: Date;
+}
+
+export interface AttendanceAlertRule {
+  id: string;
+  name: string;
+  rule_type: 'consecutive_absences' | 'absence_rate';
+  threshold: number;
+  window_sessions?: number;
+  notify_guardians: boolean;
+  notify_branch_admins: boolean;
+  active: boolean;
+  created_by?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface AttendanceAlert {
+  id: string;
+  rule_id?: string;
+  rule_name: string;
+  student_id: string;
+  attendance_id?: string;
+  details: string;
+  created_at: Date;
+}
+
+export interface BackgroundJob {
+  name: string;
+  last_started_at?: Date;
+  last_finished_at?: Date;
+  last_status?: 'succeeded' | 'failed';
+  last_result?: number;
+  last_error?: string;
+}
+
+export interface Role {
+  id: string;
+  system_key?: 'parent' | 'staff' | 'admin' | 'student';
+  name: string;
+  description?: string;
+  account_type: 'parent' | 'staff' | 'admin' | 'student';
+  permissions: string[];
+  created_at: Date;
+  updated_at: Date;
+}
@@ -7,6 +7,8 @@ import Navigation from './components/layout/Navigation';
 import ParentDashboard from './components/parent/ParentDashboard';
 import StaffDashboard from './components/staff/StaffDashboard';
 import AdminDashboard from './components/admin/AdminDashboard';
+import StudentDashboard from './components/student/StudentDashboard';
+import KioskCheckIn from './components/kiosk/KioskCheckIn';
 
 // Feature Card Component
 interface FeatureCardProps {
@@ -62,9 +64,18 @@ const LoadingScreen: React.FC = () => (
 // Main App Content
 const AppContent: React.FC = () => {
   const { user, loading, isAuthenticated } = useAuth();
-  const [currentTab, setCurrentTab] = useState<'students' | 'classes' | 'payments' | 'profile'>('students');
-  const [currentStaffTab, setCurrentStaffTab] = useState<'classes' | 'attendance' | 'profile'>('classes');
-  const [currentAdminTab, setCurrentAdminTab] = useState<'staff' | 'classes' | 'branches' | 'profile'>('staff');
+  // A branch's check-in kiosk runs on its own device token, whoever is signed in on the browser
+  const [isKiosk] = useState(() => new URLSearchParams(window.location.search).has('kiosk'));
+  // Parents returning from an online checkout land on their payments
+  const [currentTab, setCurrentTab] = useState<'students' | 'classes' | 'payments' | 'profile'>(
+    () => {
+      const params = new URLSearchParams(window.location.search);
+      return params.has('checkout') || params.has('mock_checkout') ? 'payments' : 'students';
+    }
+  );
+  const [currentStaffTab, setCurrentStaffTab] = useState<'classes' | 'attendance' | 'staff' | 'branches' | 'audit' | 'alerts' | 'kiosks' | 'leave' | 'approvals' | 'roles' | 'profile'>('classes');
+  const [currentAdminTab, setCurrentAdminTab] = useState<'staff' | 'classes' | 'attendance' | 'branches' | 'audit' | 'alerts' | 'kiosks' | 'approvals' | 'roles' | 'profile'>('staff');
+  const [currentStudentTab, setCurrentStudentTab] = useState<'timetable' | 'attendance' | 'materials' | 'profile'>('timetable');
 
   const handleProfileClick = () => {
     if (user?.role === 'parent') {
@@ -73,6 +84,8 @@ const AppContent: React.FC = () => {
       setCurrentStaffTab('profile');
     } else if (user?.role === 'admin') {
       setCurrentAdminTab('profile');
+    } else if (user?.role === 'student') {
+      setCurrentStudentTab('profile');
     }
   };
 
@@ -80,14 +93,22 @@ const AppContent: React.FC = () => {
     setCurrentTab(tab);
   };
 
-  const handleStaffTabChange = (tab: 'classes' | 'attendance' | 'profile') => {
+  const handleStaffTabChange = (tab: 'classes' | 'attendance' | 'staff' | 'branches' | 'audit' | 'alerts' | 'kiosks' | 'leave' | 'approvals' | 'roles' | 'profile') => {
     setCurrentStaffTab(tab);
   };
 
-  const handleAdminTabChange = (tab: 'staff' | 'classes' | 'branches' | 'profile') => {
+  const handleAdminTabChange = (tab: 'staff' | 'classes' | 'attendance' | 'branches' | 'audit' | 'alerts' | 'kiosks' | 'approvals' | 'roles' | 'profile') => {
     setCurrentAdminTab(tab);
   };
 
+  const handleStudentTabChange = (tab: 'timetable' | 'attendance' | 'materials' | 'profile') => {
+    setCurrentStudentTab(tab);
+  };
+
+  if (isKiosk) {
+    return <KioskCheckIn />;
+  }
+
   if (loading) {
     return <LoadingScreen />;
   }
@@ -110,6 +131,12 @@ const AppContent: React.FC = () => {
             initialTab={currentStaffTab}
             onTabChange={handleStaffTabChange}
           />
+        ) : user.role === 'student' ? (
+          // Student Dashboard with Tabs
+          <StudentDashboard 
+            initialTab={currentStudentTab}
+            onTabChange={handleStudentTabChange}
+          />
         ) : (
           // Admin Dashboard with Tabs
           <AdminDashboard 
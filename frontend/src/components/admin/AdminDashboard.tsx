@@ -1,13 +1,21 @@
 // frontend/src/components/admin/AdminDashboard.tsx
 
 import React, { useState, useEffect } from 'react';
-import { Users, UserCheck, Settings, MapPin } from 'lucide-react';
+import { Users, UserCheck, Settings, MapPin, ClipboardList, KeyRound, BellRing, ClipboardCheck, Tablet, CalendarClock } from 'lucide-react';
 import StaffManagement from './StaffManagement';
 import ClassReassignment from './ClassReassignment';
+import AttendanceTracking from '../staff/AttendanceTracking';
 import BranchManagement from './BranchManagement';
+import AuditLog from './AuditLog';
+import AttendanceAlerts from './AttendanceAlerts';
+import KioskDevices from './KioskDevices';
+import LeaveApprovals from './LeaveApprovals';
+import RoleManagement from './RoleManagement';
 import ProfileManagement from '../profile/ProfileManagement';
+import { useAuth } from '../../hooks/useAuth';
+import { hasPermission } from '../../utils/permissions';
 
-type AdminTabType = 'staff' | 'classes' | 'branches' | 'profile';
+type AdminTabType = 'staff' | 'classes' | 'attendance' | 'branches' | 'audit' | 'alerts' | 'kiosks' | 'approvals' | 'roles' | 'profile';
 
 interface TabConfig {
   id: AdminTabType;
@@ -15,6 +23,8 @@ interface TabConfig {
   icon: React.ReactNode;
   component: React.ReactNode;
   badge?: string;
+  // Only shown when the user's role grants this permission
+  permission?: string;
 }
 
 interface AdminDashboardProps {
@@ -26,6 +36,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
   initialTab = 'staff', 
   onTabChange 
 }) => {
+  const { user } = useAuth();
   const [activeTab, setActiveTab] = useState<AdminTabType>(initialTab);
 
   const handleTabChange = (tab: AdminTabType) => {
@@ -40,24 +51,69 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
     }
   }, [initialTab, activeTab]);
 
-  const tabs: TabConfig[] = [
+  const allTabs: TabConfig[] = [
     {
       id: 'staff',
       label: 'Staff Management',
       icon: <Users size={20} />,
       component: <StaffManagement />,
+      permission: 'staff.manage',
     },
     {
       id: 'classes',
       label: 'Class Assignments',
       icon: <UserCheck size={20} />,
       component: <ClassReassignment />,
+      permission: 'staff.manage',
+    },
+    {
+      id: 'attendance',
+      label: 'Attendance',
+      icon: <ClipboardCheck size={20} />,
+      component: <AttendanceTracking />,
+      permission: 'attendance.mark_any',
     },
     {
       id: 'branches',
       label: 'Branch Management',
       icon: <MapPin size={20} />,
       component: <BranchManagement />,
+      permission: 'branch.manage',
+    },
+    {
+      id: 'audit',
+      label: 'Audit Log',
+      icon: <ClipboardList size={20} />,
+      component: <AuditLog />,
+      permission: 'audit.view',
+    },
+    {
+      id: 'alerts',
+      label: 'Attendance Alerts',
+      icon: <BellRing size={20} />,
+      component: <AttendanceAlerts />,
+      permission: 'attendance.view_all',
+    },
+    {
+      id: 'kiosks',
+      label: 'Check-in Kiosks',
+      icon: <Tablet size={20} />,
+      component: <KioskDevices />,
+      permission: 'kiosk.manage',
+    },
+    {
+      id: 'approvals',
+      label: 'Leave & Cover',
+      icon: <CalendarClock size={20} />,
+      component: <LeaveApprovals />,
+      permission: 'leave.manage',
+    },
+    {
+      id: 'roles',
+      label: 'Roles',
+      icon: <KeyRound size={20} />,
+      component: <RoleManagement />,
+      permission: 'role.manage',
     },
     {
       id: 'profile',
@@ -66,8 +122,9 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
       component: <ProfileManagement />,
     },
   ];
+  const tabs = allTabs.filter(tab => !tab.permission || hasPermission(user, tab.permission));
 
-  const currentTab = tabs.find(tab => tab.id === activeTab);
+  const currentTab = tabs.find(tab => tab.id === activeTab) ?? tabs[0];
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -81,7 +138,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                 onClick={() => handleTabChange(tab.id)}
                 className={`
                   flex items-center space-x-2 py-4 px-2 border-b-2 font-medium text-sm transition-colors whitespace-nowrap
-                  ${activeTab === tab.id
+                  ${currentTab.id === tab.id
                     ? 'border-indigo-500 text-indigo-600'
                     : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
                   }
@@ -102,7 +159,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
 
       {/* Tab Content */}
       <div className="max-w-6xl mx-auto pt-0">
-        {currentTab?.component}
+        {currentTab.component}
       </div>
     </div>
   );
@@ -0,0 +1,425 @@
+// frontend/src/components/admin/AttendanceAlerts.tsx
+
+import React, { useState, useEffect } from 'react';
+import { BellRing, Plus, Edit2, Trash2, Loader2, AlertTriangle } from 'lucide-react';
+import type { AttendanceAlert, AttendanceAlertRule } from '../../types';
+import AttendanceService from '../../services/attendance';
+import { useAuth } from '../../hooks/useAuth';
+import { hasPermission } from '../../utils/permissions';
+
+interface RuleDraft {
+  id: string | null;
+  name: string;
+  ruleType: AttendanceAlertRule['rule_type'];
+  threshold: string;
+  windowSessions: string;
+  notifyGuardians: boolean;
+  notifyBranchAdmins: boolean;
+  active: boolean;
+}
+
+const RULE_TYPE_LABELS: Record<AttendanceAlertRule['rule_type'], string> = {
+  consecutive_absences: 'Absences in a row',
+  absence_rate: 'Absence rate'
+};
+
+const describeRule = (rule: AttendanceAlertRule) => rule.rule_type === 'consecutive_absences'
+  ? `${rule.threshold} absences in a row`
+  : `${rule.threshold}% or more absent over the last ${rule.window_sessions ?? 10} sessions`;
+
+const describeRecipients = (rule: AttendanceAlertRule) => [
+  rule.notify_guardians && 'guardians',
+  rule.notify_branch_admins && 'branch admins'
+].filter(Boolean).join(' and ');
+
+const AttendanceAlerts: React.FC = () => {
+  const { user } = useAuth();
+  const canManageRules = hasPermission(user, 'attendance.manage_alerts');
+
+  const [alerts, setAlerts] = useState<AttendanceAlert[]>([]);
+  const [rules, setRules] = useState<AttendanceAlertRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  // The rule being created (id null) or edited
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+  const [formError, setFormError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const loadData = async (includeRules: boolean) => {
+    try {
+      const [alertList, ruleList] = await Promise.all([
+        AttendanceService.getAlerts(),
+        includeRules ? AttendanceService.getAlertRules() : Promise.resolve([])
+      ]);
+      setAlerts(alertList);
+      setRules(ruleList);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load attendance alerts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadData(canManageRules);
+  }, [canManageRules]);
+
+  const handleCreate = () => {
+    setDraft({
+      id: null,
+      name: '',
+      ruleType: 'consecutive_absences',
+      threshold: '3',
+      windowSessions: '10',
+      notifyGuardians: true,
+      notifyBranchAdmins: true,
+      active: true
+    });
+    setFormError('');
+    setMessage('');
+  };
+
+  const handleEdit = (rule: AttendanceAlertRule) => {
+    setDraft({
+      id: rule.id,
+      name: rule.name,
+      ruleType: rule.rule_type,
+      threshold: String(rule.threshold),
+      windowSessions: String(rule.window_sessions ?? 10),
+      notifyGuardians: rule.notify_guardians,
+      notifyBranchAdmins: rule.notify_branch_admins,
+      active: rule.active
+    });
+    setFormError('');
+    setMessage('');
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+
+    const threshold = parseInt(draft.threshold);
+    const windowSessions = parseInt(draft.windowSessions);
+
+    if (draft.name.trim().length < 2) {
+      setFormError('Rule name must be at least 2 characters long');
+      return;
+    }
+    if (!threshold || threshold < 1 || (draft.ruleType === 'absence_rate' && threshold > 100)) {
+      setFormError(draft.ruleType === 'absence_rate'
+        ? 'Absence rate must be between 1 and 100 percent'
+        : 'Number of absences must be at least 1');
+      return;
+    }
+
+    setSaving(true);
+    setFormError('');
+
+    try {
+      const ruleData = {
+        name: draft.name.trim(),
+        ruleType: draft.ruleType,
+        threshold,
+        windowSessions: draft.ruleType === 'absence_rate' ? windowSessions : undefined,
+        notifyGuardians: draft.notifyGuardians,
+        notifyBranchAdmins: draft.notifyBranchAdmins,
+        active: draft.active
+      };
+
+      const result = draft.id
+        ? await AttendanceService.updateAlertRule(draft.id, ruleData)
+        : await AttendanceService.createAlertRule(ruleData);
+
+      setMessage(result.message);
+      setDraft(null);
+      await loadData(canManageRules);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to save alert rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rule: AttendanceAlertRule) => {
+    setDeletingId(rule.id);
+    setError('');
+    setMessage('');
+
+    try {
+      setMessage(await AttendanceService.deleteAlertRule(rule.id));
+      await loadData(canManageRules);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete alert rule');
+    } finally {
+      setDeletingId(null);
+      setConfirmDeleteId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="flex items-center space-x-3">
+          <Loader2 className="animate-spin text-indigo-600" size={24} />
+          <span className="text-lg text-gray-700">Loading attendance alerts...</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="px-6 py-16">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div className="flex items-center space-x-3">
+          <BellRing className="text-indigo-500" size={32} />
+          <div>
+            <h1 className="text-3xl font-bold text-gray-800">Attendance Alerts</h1>
+            <p className="text-gray-600">Students whose absences need following up</p>
+          </div>
+        </div>
+
+        {canManageRules && (
+          <button
+            onClick={handleCreate}
+            className="flex items-center space-x-2 bg-indigo-500 hover:bg-indigo-600 text-white px-6 py-3 rounded-2xl transition-all duration-200 shadow-md text-lg font-semibold"
+          >
+            <Plus size={20} />
+            <span>Add Rule</span>
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-600">{error}</p>
+          <button
+            onClick={() => setError('')}
+            className="mt-2 text-sm text-red-700 hover:text-red-800 underline"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {message && (
+        <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+          <p className="text-green-700">{message}</p>
+        </div>
+      )}
+
+      {/* Rule editor */}
+      {draft && (
+        <form onSubmit={handleSave} className="bg-white rounded-2xl shadow-lg border border-indigo-200 p-6 mb-8 space-y-4">
+          <h3 className="text-lg font-semibold text-gray-800">
+            {draft.id ? `Edit ${draft.name || 'Rule'}` : 'New Alert Rule'}
+          </h3>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-indigo-500 focus:outline-none transition-colors"
+                placeholder="e.g. Three absences in a row"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Raise an alert on</label>
+              <select
+                value={draft.ruleType}
+                onChange={(e) => setDraft({ ...draft, ruleType: e.target.value as AttendanceAlertRule['rule_type'] })}
+                className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-indigo-500 focus:outline-none transition-colors"
+              >
+                {Object.entries(RULE_TYPE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {draft.ruleType === 'absence_rate' ? 'Absence rate (%)' : 'Absences in a row'}
+              </label>
+              <input
+                type="number"
+                min={1}
+                max={draft.ruleType === 'absence_rate' ? 100 : undefined}
+                value={draft.threshold}
+                onChange={(e) => setDraft({ ...draft, threshold: e.target.value })}
+                className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-indigo-500 focus:outline-none transition-colors"
+              />
+            </div>
+            {draft.ruleType === 'absence_rate' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Over the last (sessions)</label>
+                <input
+                  type="number"
+                  min={2}
+                  max={50}
+                  value={draft.windowSessions}
+                  onChange={(e) => setDraft({ ...draft, windowSessions: e.target.value })}
+                  className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-indigo-500 focus:outline-none transition-colors"
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-6">
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={draft.notifyGuardians}
+                onChange={(e) => setDraft({ ...draft, notifyGuardians: e.target.checked })}
+              />
+              <span>Notify guardians</span>
+            </label>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={draft.notifyBranchAdmins}
+                onChange={(e) => setDraft({ ...draft, notifyBranchAdmins: e.target.checked })}
+              />
+              <span>Notify branch admins</span>
+            </label>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={draft.active}
+                onChange={(e) => setDraft({ ...draft, active: e.target.checked })}
+              />
+              <span>Active</span>
+            </label>
+          </div>
+
+          {formError && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-red-600 text-sm">{formError}</p>
+            </div>
+          )}
+
+          <div className="flex items-center space-x-3">
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex items-center space-x-2 px-4 py-2 bg-indigo-500 text-white rounded-lg hover:bg-indigo-600 transition-colors disabled:opacity-50"
+            >
+              {saving && <Loader2 className="animate-spin" size={16} />}
+              <span>{draft.id ? 'Save Rule' : 'Create Rule'}</span>
+            </button>
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              disabled={saving}
+              className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Rules */}
+      {canManageRules && (
+        <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6 mb-8">
+          <h3 className="text-lg font-semibold text-gray-800 mb-4">Rules</h3>
+
+          {rules.length === 0 ? (
+            <p className="text-sm text-gray-500">No rules yet. Absences won't raise alerts until one is added.</p>
+          ) : (
+            <div className="divide-y divide-gray-100">
+              {rules.map(rule => (
+                <div key={rule.id} className="py-3 flex items-center justify-between gap-4">
+                  <div>
+                    <p className="font-medium text-gray-800 flex items-center space-x-2">
+                      <span>{rule.name}</span>
+                      {!rule.active && (
+                        <span className="px-2 py-1 rounded text-xs font-semibold bg-gray-100 text-gray-700">Paused</span>
+                      )}
+                    </p>
+                    <p className="text-sm text-gray-600">{describeRule(rule)} · notifies {describeRecipients(rule)}</p>
+                  </div>
+
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => handleEdit(rule)}
+                      className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                      title="Edit Rule"
+                    >
+                      <Edit2 size={16} />
+                    </button>
+                    {confirmDeleteId === rule.id ? (
+                      <>
+                        <button
+                          onClick={() => handleDelete(rule)}
+                          disabled={deletingId !== null}
+                          className="flex items-center space-x-1 px-3 py-1 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                        >
+                          {deletingId === rule.id && <Loader2 className="animate-spin" size={14} />}
+                          <span>Delete</span>
+                        </button>
+                        <button
+                          onClick={() => setConfirmDeleteId(null)}
+                          disabled={deletingId !== null}
+                          className="px-3 py-1 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                        >
+                          Keep
+                        </button>
+                      </>
+                    ) : (
+                      <button
+                        onClick={() => setConfirmDeleteId(rule.id)}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                        title="Delete Rule"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Recent alerts */}
+      <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6">
+        <h3 className="text-lg font-semibold text-gray-800 mb-4">Recent Alerts</h3>
+
+        {alerts.length === 0 ? (
+          <p className="text-sm text-gray-500">No alerts raised for students at your branches.</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {alerts.map(alert => (
+              <div key={alert.id} className="py-3 flex items-start space-x-3">
+                <AlertTriangle className="text-amber-500 mt-1 flex-shrink-0" size={18} />
+                <div>
+                  <p className="text-gray-800">
+                    <span className="font-medium">{alert.student_name}</span> {alert.details}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {alert.rule_name} · {alert.branch_name || 'No home branch'} · {new Date(alert.created_at).toLocaleString('en-SG', {
+                      day: '2-digit',
+                      month: 'short',
+                      hour: 'numeric',
+                      minute: '2-digit'
+                    })}
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AttendanceAlerts;
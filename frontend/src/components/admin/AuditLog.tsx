@@ -0,0 +1,315 @@
+// frontend/src/components/admin/AuditLog.tsx
+
+import React, { useState, useEffect } from 'react';
+import { ClipboardList, Search, Loader2, ChevronDown, ChevronUp, ChevronLeft, ChevronRight } from 'lucide-react';
+import type { AuditLogEntry, AuditLogFilters, AuditLogFilterOptions, AuditLogPage } from '../../types';
+import AuditService from '../../services/audit';
+import DateInput from '../common/DateInput';
+
+const PAGE_SIZE = 25;
+
+const AuditLog: React.FC = () => {
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  const [appliedFilters, setAppliedFilters] = useState<AuditLogFilters>({});
+  const [filterOptions, setFilterOptions] = useState<AuditLogFilterOptions>({ entity_types: [], actions: [] });
+  const [result, setResult] = useState<AuditLogPage | null>(null);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    AuditService.getFilterOptions()
+      .then(setFilterOptions)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load audit filters'));
+  }, []);
+
+  useEffect(() => {
+    const loadEntries = async () => {
+      setLoading(true);
+      setError('');
+      try {
+        setResult(await AuditService.searchAuditLog(appliedFilters, page, PAGE_SIZE));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to search audit log');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadEntries();
+  }, [appliedFilters, page]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setAppliedFilters({ ...filters });
+  };
+
+  const handleClear = () => {
+    setFilters({});
+    setPage(1);
+    setAppliedFilters({});
+  };
+
+  const updateFilter = (key: keyof AuditLogFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value || undefined }));
+  };
+
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-SG', {
+      day: '2-digit',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+  };
+
+  const formatValue = (value: unknown): string => {
+    if (value === undefined) return '—';
+    if (value === null) return 'null';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  };
+
+  const getActionStyle = (action: string) => {
+    switch (action) {
+      case 'create':
+        return 'bg-green-100 text-green-800';
+      case 'delete':
+        return 'bg-red-100 text-red-800';
+      case 'update':
+        return 'bg-blue-100 text-blue-800';
+      default:
+        return 'bg-purple-100 text-purple-800';
+    }
+  };
+
+  const renderChanges = (entry: AuditLogEntry) => {
+    if (entry.changed_fields.length === 0) {
+      return <p className="text-sm text-gray-500">No field changes recorded.</p>;
+    }
+
+    return (
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="py-1 pr-4 font-medium">Field</th>
+            <th className="py-1 pr-4 font-medium">Before</th>
+            <th className="py-1 font-medium">After</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entry.changed_fields.map(field => (
+            <tr key={field} className="border-t border-gray-100 align-top">
+              <td className="py-1 pr-4 font-mono text-gray-700">{field}</td>
+              <td className="py-1 pr-4 font-mono text-red-700 break-all">
+                {entry.before_data ? formatValue(entry.before_data[field]) : '—'}
+              </td>
+              <td className="py-1 font-mono text-green-700 break-all">
+                {entry.after_data ? formatValue(entry.after_data[field]) : '—'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    );
+  };
+
+  return (
+    <div className="px-6 py-16">
+      {/* Header */}
+      <div className="flex items-center space-x-3 mb-8">
+        <ClipboardList className="text-indigo-500" size={32} />
+        <div>
+          <h1 className="text-3xl font-bold text-gray-800">Audit Log</h1>
+          <p className="text-gray-600">Every change made in the system, who made it and when</p>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <form onSubmit={handleSearch} className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6 mb-6">
+        <div className="grid md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Entity</label>
+            <select
+              value={filters.entityType || ''}
+              onChange={(e) => updateFilter('entityType', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            >
+              <option value="">All entities</option>
+              {filterOptions.entity_types.map(type => (
+                <option key={type} value={type}>{type}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Action</label>
+            <select
+              value={filters.action || ''}
+              onChange={(e) => updateFilter('action', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            >
+              <option value="">All actions</option>
+              {filterOptions.actions.map(action => (
+                <option key={action} value={action}>{action}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">User email</label>
+            <input
+              type="text"
+              value={filters.actor || ''}
+              onChange={(e) => updateFilter('actor', e.target.value)}
+              placeholder="e.g. admin@"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Entity ID</label>
+            <input
+              type="text"
+              value={filters.entityId || ''}
+              onChange={(e) => updateFilter('entityId', e.target.value.trim())}
+              placeholder="Record ID"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+            <DateInput
+              value={filters.from || ''}
+              onChange={(value) => updateFilter('from', value)}
+              max={filters.to}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+            <DateInput
+              value={filters.to || ''}
+              onChange={(value) => updateFilter('to', value)}
+              min={filters.from}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+        <div className="flex justify-end space-x-3 mt-4">
+          <button
+            type="button"
+            onClick={handleClear}
+            className="px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+          >
+            Clear
+          </button>
+          <button
+            type="submit"
+            className="flex items-center space-x-2 px-4 py-2 bg-indigo-500 hover:bg-indigo-600 text-white rounded-lg transition-colors"
+          >
+            <Search size={16} />
+            <span>Search</span>
+          </button>
+        </div>
+      </form>
+
+      {/* Error Message */}
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-600">{error}</p>
+          <button
+            onClick={() => setError('')}
+            className="mt-2 text-sm text-red-700 hover:text-red-800 underline"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {/* Results */}
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="flex items-center space-x-3">
+            <Loader2 className="animate-spin text-indigo-600" size={24} />
+            <span className="text-lg text-gray-700">Searching audit log...</span>
+          </div>
+        </div>
+      ) : result && result.entries.length === 0 ? (
+        <div className="text-center py-12">
+          <ClipboardList className="mx-auto text-gray-300 mb-4" size={64} />
+          <h3 className="text-xl font-semibold text-gray-600 mb-2">No Entries Found</h3>
+          <p className="text-gray-500">Try widening the date range or clearing some filters.</p>
+        </div>
+      ) : result && (
+        <div className="bg-white rounded-2xl shadow-lg border border-gray-100 overflow-hidden">
+          <div className="divide-y divide-gray-100">
+            {result.entries.map(entry => (
+              <div key={entry.id}>
+                <button
+                  onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                  className="w-full flex items-center justify-between px-6 py-4 text-left hover:bg-gray-50 transition-colors"
+                >
+                  <div className="flex items-center space-x-4 min-w-0">
+                    <span className={`px-2 py-1 rounded text-xs font-semibold ${getActionStyle(entry.action)}`}>
+                      {entry.action}
+                    </span>
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-800 truncate">
+                        {entry.entity_type}
+                        {entry.entity_id && <span className="ml-2 font-mono text-xs text-gray-500">{entry.entity_id}</span>}
+                      </p>
+                      <p className="text-sm text-gray-500 truncate">
+                        {entry.actor_email || 'System'}{entry.actor_role && ` (${entry.actor_role})`} · {formatDateTime(entry.occurred_at)}
+                      </p>
+                    </div>
+                  </div>
+                  {expandedId === entry.id ? <ChevronUp size={18} className="text-gray-400" /> : <ChevronDown size={18} className="text-gray-400" />}
+                </button>
+
+                {expandedId === entry.id && (
+                  <div className="px-6 pb-4 space-y-3">
+                    {renderChanges(entry)}
+                    <div className="grid md:grid-cols-3 gap-2 text-xs text-gray-500">
+                      <p><span className="font-medium">Request:</span> {entry.http_method} {entry.path}</p>
+                      <p><span className="font-medium">IP address:</span> {entry.ip_address || '—'}</p>
+                      <p className="break-all"><span className="font-medium">Request ID:</span> {entry.request_id || '—'}</p>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* Pagination */}
+          <div className="flex items-center justify-between px-6 py-4 bg-gray-50 border-t border-gray-100">
+            <p className="text-sm text-gray-600">
+              Page {result.pagination.page} of {result.pagination.total_pages} · {result.pagination.total} entries
+            </p>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1}
+                className="flex items-center space-x-1 px-3 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-100 disabled:opacity-50"
+              >
+                <ChevronLeft size={16} />
+                <span>Newer</span>
+              </button>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page >= result.pagination.total_pages}
+                className="flex items-center space-x-1 px-3 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-100 disabled:opacity-50"
+              >
+                <span>Older</span>
+                <ChevronRight size={16} />
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuditLog;
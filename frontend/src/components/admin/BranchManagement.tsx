@@ -6,8 +6,11 @@ import type { Branch, BranchDeletionImpact } from '../../types';
 import BranchService from '../../services/branch';
 import BranchForm from './BranchForm';
 import ClassroomManagement from './ClassroomManagement';
+import { useAuth } from '../../hooks/useAuth';
+import { canAccessBranch } from '../../utils/permissions';
 
 const BranchManagement: React.FC = () => {
+  const { user } = useAuth();
   const [branches, setBranches] = useState<Branch[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
@@ -280,16 +283,18 @@ const BranchManagement: React.FC = () => {
                 )}
               </div>
 
-              {/* Classroom management */}
-              <div className="mb-4">
-                <button
-                  onClick={() => handleManageClassrooms(branch)}
-                  className="w-full hover:bg-gray-100 text-gray-600 px-4 py-2 rounded-lg transition-colors font-medium text-sm flex items-center justify-center space-x-2"
-                >
-                  <BookCopy size={16} />
-                  <span>Manage Classrooms</span>
-                </button>
-              </div>
+              {/* Classroom management (only at the user's own branches) */}
+              {canAccessBranch(user, branch.id) && (
+                <div className="mb-4">
+                  <button
+                    onClick={() => handleManageClassrooms(branch)}
+                    className="w-full hover:bg-gray-100 text-gray-600 px-4 py-2 rounded-lg transition-colors font-medium text-sm flex items-center justify-center space-x-2"
+                  >
+                    <BookCopy size={16} />
+                    <span>Manage Classrooms</span>
+                  </button>
+                </div>
+              )}
 
               {/* Footer */}
               <div className="pt-4 border-t border-gray-100">
@@ -2,9 +2,10 @@
 
 import React, { useState, useEffect, useCallback } from 'react';
 import { X, UserCheck, Calendar, MapPin, Users, Clock, AlertCircle, Loader2 } from 'lucide-react';
-import type { UnassignedClass, StaffMember } from '../../types';
+import type { UnassignedClass, StaffMember, TutorSuggestion } from '../../types';
 import AdminService from '../../services/admin';
 import ClassService from '../../services/class';
+import CoverTutors from './CoverTutors';
 
 // Interface for teacher's schedule class (from ClassForm.tsx)
 interface TeacherScheduleClass {
@@ -29,6 +30,10 @@ const ClassReassignment: React.FC = () => {
   const [selectedClass, setSelectedClass] = useState<UnassignedClass | null>(null);
   const [selectedTutor, setSelectedTutor] = useState('');
   const [assigning, setAssigning] = useState(false);
+
+  // Staff at the class's branch ranked by how well their teaching profiles fit it
+  const [suggestions, setSuggestions] = useState<TutorSuggestion[]>([]);
+  const [loadingSuggestions, setLoadingSuggestions] = useState(false);
   
   // Conflict validation states
   const [validatingConflicts, setValidatingConflicts] = useState(false);
@@ -225,11 +230,35 @@ const ClassReassignment: React.FC = () => {
     return message;
   }, [formatTime]);
 
-  const handleAssignTutor = (classItem: UnassignedClass) => {
+  const handleAssignTutor = async (classItem: UnassignedClass) => {
     setSelectedClass(classItem);
     setSelectedTutor('');
     setScheduleConflicts(null);
+    setSuggestions([]);
     setShowAssignModal(true);
+
+    setLoadingSuggestions(true);
+    try {
+      setSuggestions(await AdminService.getTutorSuggestions(classItem.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to suggest tutors');
+    } finally {
+      setLoadingSuggestions(false);
+    }
+  };
+
+  const formatSuggestion = (suggestion: TutorSuggestion) => {
+    const name = `${suggestion.first_name} ${suggestion.last_name}`;
+    if (!suggestion.eligible) {
+      return `${name} - ${suggestion.problems.join(', ')}`;
+    }
+    const fit = suggestion.qualification === 'level'
+      ? 'teaches this level'
+      : suggestion.qualification === 'subject' ? 'teaches this subject' : 'no subjects recorded';
+    const hours = suggestion.max_weekly_hours
+      ? `${suggestion.booked_hours}/${suggestion.max_weekly_hours}h that week`
+      : `${suggestion.booked_hours}h that week`;
+    return `${name} - ${fit}, ${hours}`;
   };
 
   const handleTutorSelection = async (tutorId: string) => {
@@ -297,7 +326,7 @@ const ClassReassignment: React.FC = () => {
     return new Date(classItem.start_time) > new Date();
   };
 
-  const selectedTutorData = staff.find(s => s.id === selectedTutor);
+  const selectedTutorData = suggestions.find(s => s.id === selectedTutor);
   const tutorName = selectedTutorData ? `${selectedTutorData.first_name} ${selectedTutorData.last_name}` : '';
   const hasConflicts = Boolean(scheduleConflicts && (scheduleConflicts.direct.length > 0 || scheduleConflicts.travel.length > 0));
 
@@ -320,7 +349,7 @@ const ClassReassignment: React.FC = () => {
           <UserCheck className="text-indigo-500" size={32} />
           <div>
             <h1 className="text-3xl font-bold text-gray-800">Class Assignments</h1>
-            <p className="text-gray-600">Assign tutors to classes without teachers</p>
+            <p className="text-gray-600">Assign tutors to classes without teachers and arrange cover</p>
           </div>
         </div>
         
@@ -483,6 +512,8 @@ const ClassReassignment: React.FC = () => {
         </div>
       )}
 
+      <CoverTutors staff={staff} />
+
       {/* Assignment Modal */}
       {showAssignModal && selectedClass && (
         <div className="fixed inset-0 bg-gradient-to-br from-white-100 to-indigo-200 backdrop-blur-sm flex items-center justify-center z-50">
@@ -516,15 +547,24 @@ const ClassReassignment: React.FC = () => {
                 value={selectedTutor}
                 onChange={(e) => handleTutorSelection(e.target.value)}
                 className="w-full p-3 border border-gray-200 rounded-lg focus:border-indigo-500 focus:outline-none"
-                disabled={validatingConflicts}
+                disabled={validatingConflicts || loadingSuggestions}
               >
-                <option value="">Choose a staff member</option>
-                {staff.map((staffMember) => (
-                  <option key={staffMember.id} value={staffMember.id}>
-                    {staffMember.first_name} {staffMember.last_name} ({staffMember.email})
+                <option value="">{loadingSuggestions ? 'Finding suitable tutors...' : 'Choose a staff member'}</option>
+                {suggestions.map((suggestion) => (
+                  <option key={suggestion.id} value={suggestion.id} disabled={!suggestion.eligible}>
+                    {formatSuggestion(suggestion)}
                   </option>
                 ))}
               </select>
+
+              {!loadingSuggestions && suggestions.length > 0 && !suggestions.some(suggestion => suggestion.eligible) && (
+                <p className="mt-2 text-sm text-yellow-700">
+                  Nobody at this branch fits this class; check their teaching profiles under Staff Management.
+                </p>
+              )}
+              {!loadingSuggestions && suggestions.length === 0 && (
+                <p className="mt-2 text-sm text-gray-500">No active staff are assigned to this class's branch.</p>
+              )}
               
               {validatingConflicts && (
                 <div className="mt-2 flex items-center space-x-2 text-blue-600">
@@ -0,0 +1,176 @@
+// frontend/src/components/admin/CoverTutors.tsx
+
+import React, { useState, useEffect } from 'react';
+import { UserPlus, Loader2, Clock, MapPin } from 'lucide-react';
+import type { Class, StaffMember } from '../../types';
+import AdminService from '../../services/admin';
+import ClassService from '../../services/class';
+import DateInput from '../common/DateInput';
+
+interface CoverTutorsProps {
+  staff: StaffMember[];
+}
+
+// Arrange a cover tutor for single class occurrences. The regular tutor stays assigned; the cover
+// tutor sees the class in their attendance list and can take attendance for it.
+const CoverTutors: React.FC<CoverTutorsProps> = ({ staff }) => {
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const [classes, setClasses] = useState<Class[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  // Cover tutor picked for each class, before it is saved
+  const [selections, setSelections] = useState<Record<string, string>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const loadClasses = async (classDate: string) => {
+    setLoading(true);
+    setError('');
+    try {
+      const classList = await ClassService.getAllClasses({ startDate: classDate, endDate: classDate });
+      setClasses(classList.filter(classItem => classItem.tutor_id));
+      setSelections({});
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load classes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadClasses(date);
+  }, [date]);
+
+  const handleSave = async (classItem: Class, tutorId: string | null) => {
+    setSavingId(classItem.id);
+    setError('');
+    setMessage('');
+    try {
+      setMessage(await AdminService.setClassSubstitute(classItem.id, tutorId));
+      await loadClasses(date);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update cover tutor');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const formatTime = (dateString: string) => new Date(dateString).toLocaleTimeString('en-SG', {
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+  // Staff who work at the class's branch, other than its regular tutor
+  const getCoverOptions = (classItem: Class) => staff.filter(member =>
+    member.id !== classItem.tutor_id
+    && (!member.branches || member.branches.some(branch => branch.id === classItem.branch_id))
+  );
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6 mt-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-gray-800 flex items-center space-x-2">
+          <UserPlus size={20} />
+          <span>Cover Tutors</span>
+        </h2>
+        <DateInput
+          value={date}
+          onChange={setDate}
+          className="w-auto"
+          placeholder="DD/MM/YYYY"
+        />
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-600 text-sm whitespace-pre-line">{error}</p>
+        </div>
+      )}
+
+      {message && (
+        <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg">
+          <p className="text-green-700 text-sm">{message}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center space-x-2 text-gray-500">
+          <Loader2 className="animate-spin" size={16} />
+          <span className="text-sm">Loading classes...</span>
+        </div>
+      ) : classes.length === 0 ? (
+        <p className="text-sm text-gray-500">No classes with a tutor on this date.</p>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {classes.map(classItem => {
+            const selected = selections[classItem.id] ?? '';
+
+            return (
+              <div key={classItem.id} className="py-4 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                <div>
+                  <p className="font-semibold text-gray-800">
+                    {classItem.subject} {classItem.level && `(${classItem.level})`}
+                  </p>
+                  <p className="text-sm text-gray-600 flex items-center space-x-3">
+                    <span className="flex items-center space-x-1">
+                      <Clock size={14} />
+                      <span>{formatTime(classItem.start_time)}</span>
+                    </span>
+                    <span className="flex items-center space-x-1">
+                      <MapPin size={14} />
+                      <span>{classItem.branch_name}</span>
+                    </span>
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    Tutor: {classItem.tutor_first_name} {classItem.tutor_last_name}
+                    {classItem.substitute_tutor_id && (
+                      <span className="ml-2 px-2 py-0.5 bg-amber-100 text-amber-800 text-xs font-medium rounded-full">
+                        Covered by {classItem.substitute_first_name} {classItem.substitute_last_name}
+                      </span>
+                    )}
+                  </p>
+                </div>
+
+                <div className="flex items-center space-x-2">
+                  <select
+                    value={selected}
+                    onChange={(e) => setSelections(prev => ({ ...prev, [classItem.id]: e.target.value }))}
+                    disabled={savingId !== null}
+                    className="p-2 border border-gray-200 rounded-lg text-sm focus:border-indigo-500 focus:outline-none"
+                  >
+                    <option value="">Choose cover tutor</option>
+                    {getCoverOptions(classItem).map(member => (
+                      <option key={member.id} value={member.id}>
+                        {member.first_name} {member.last_name}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => handleSave(classItem, selected)}
+                    disabled={!selected || savingId !== null}
+                    className="flex items-center space-x-1 px-3 py-2 text-sm bg-indigo-500 text-white rounded-lg hover:bg-indigo-600 transition-colors disabled:opacity-50"
+                  >
+                    {savingId === classItem.id && <Loader2 className="animate-spin" size={14} />}
+                    <span>Set Cover</span>
+                  </button>
+                  {classItem.substitute_tutor_id && (
+                    <button
+                      onClick={() => handleSave(classItem, null)}
+                      disabled={savingId !== null}
+                      className="px-3 py-2 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CoverTutors;
@@ -0,0 +1,312 @@
+// frontend/src/components/admin/KioskDevices.tsx
+
+import React, { useState, useEffect } from 'react';
+import { Tablet, Plus, Trash2, Loader2, Copy, CheckCircle } from 'lucide-react';
+import type { Branch, KioskDevice, CreatedKioskDevice } from '../../types';
+import KioskService from '../../services/kiosk';
+import BranchService from '../../services/branch';
+import { useAuth } from '../../hooks/useAuth';
+import { canAccessBranch } from '../../utils/permissions';
+
+// Register check-in kiosks for branches and revoke ones that are lost or retired. A new kiosk is set up by
+// opening its setup link on the device, which keeps the device token and drops it from the address bar.
+const KioskDevices: React.FC = () => {
+  const { user } = useAuth();
+
+  const [devices, setDevices] = useState<KioskDevice[]>([]);
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const [showForm, setShowForm] = useState(false);
+  const [branchId, setBranchId] = useState('');
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // The kiosk just registered, whose setup link can only be shown now
+  const [created, setCreated] = useState<CreatedKioskDevice | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const [confirmRevokeId, setConfirmRevokeId] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const loadDevices = async () => {
+    try {
+      setDevices(await KioskService.getDevices());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load kiosks');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadDevices();
+    BranchService.getAllBranches()
+      .then(setBranches)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load branches'));
+  }, []);
+
+  const availableBranches = branches.filter(branch => canAccessBranch(user, branch.id));
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!branchId) {
+      setError('Please choose a branch for the kiosk');
+      return;
+    }
+    if (!name.trim()) {
+      setError('Please give the kiosk a name, e.g. Front desk');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    setMessage('');
+    try {
+      const result = await KioskService.createDevice(branchId, name.trim());
+      setCreated(result);
+      setCopied(false);
+      setShowForm(false);
+      setBranchId('');
+      setName('');
+      await loadDevices();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to register kiosk');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (device: KioskDevice) => {
+    setRevokingId(device.id);
+    setError('');
+    setMessage('');
+    try {
+      setMessage(await KioskService.revokeDevice(device.id));
+      if (created?.device.id === device.id) {
+        setCreated(null);
+      }
+      await loadDevices();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke kiosk');
+    } finally {
+      setRevokingId(null);
+      setConfirmRevokeId(null);
+    }
+  };
+
+  const setupLink = created ? `${window.location.origin}/?kiosk=${encodeURIComponent(created.token)}` : '';
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(setupLink);
+      setCopied(true);
+    } catch {
+      setError('Could not copy the link; select it and copy it instead');
+    }
+  };
+
+  const formatDateTime = (dateString?: string) => dateString
+    ? new Date(dateString).toLocaleString('en-SG', {
+      day: '2-digit',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit'
+    })
+    : 'Never';
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="flex items-center space-x-3">
+          <Loader2 className="animate-spin text-indigo-600" size={24} />
+          <span className="text-lg text-gray-700">Loading kiosks...</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="px-6 py-16">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div className="flex items-center space-x-3">
+          <Tablet className="text-indigo-500" size={32} />
+          <div>
+            <h1 className="text-3xl font-bold text-gray-800">Check-in Kiosks</h1>
+            <p className="text-gray-600">Devices where students check in with their QR code or PIN</p>
+          </div>
+        </div>
+
+        <button
+          onClick={() => setShowForm(true)}
+          className="flex items-center space-x-2 bg-indigo-500 hover:bg-indigo-600 text-white px-6 py-3 rounded-2xl transition-all duration-200 shadow-md text-lg font-semibold"
+        >
+          <Plus size={20} />
+          <span>Add Kiosk</span>
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-600">{error}</p>
+          <button
+            onClick={() => setError('')}
+            className="mt-2 text-sm text-red-700 hover:text-red-800 underline"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {message && (
+        <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+          <p className="text-green-700">{message}</p>
+        </div>
+      )}
+
+      {/* Setup link for the kiosk just registered */}
+      {created && (
+        <div className="mb-8 p-6 bg-green-50 border border-green-200 rounded-2xl space-y-3">
+          <p className="font-semibold text-green-800">{created.message}</p>
+          <p className="text-sm text-green-700">
+            Open this link on the kiosk to set it up. It is only shown now; if it is lost, revoke the kiosk and add it again.
+          </p>
+          <div className="flex items-center space-x-2">
+            <input
+              type="text"
+              readOnly
+              value={setupLink}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 p-2 border border-green-200 rounded-lg text-sm font-mono bg-white"
+            />
+            <button
+              onClick={handleCopy}
+              className="flex items-center space-x-1 px-3 py-2 text-sm bg-indigo-500 text-white rounded-lg hover:bg-indigo-600 transition-colors"
+            >
+              {copied ? <CheckCircle size={14} /> : <Copy size={14} />}
+              <span>{copied ? 'Copied' : 'Copy'}</span>
+            </button>
+          </div>
+          <button
+            onClick={() => setCreated(null)}
+            className="text-sm text-green-700 hover:text-green-800 underline"
+          >
+            Done
+          </button>
+        </div>
+      )}
+
+      {/* New kiosk */}
+      {showForm && (
+        <form onSubmit={handleCreate} className="bg-white rounded-2xl shadow-lg border border-indigo-200 p-6 mb-8 space-y-4">
+          <h3 className="text-lg font-semibold text-gray-800">New Kiosk</h3>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Branch</label>
+              <select
+                value={branchId}
+                onChange={(e) => setBranchId(e.target.value)}
+                className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-indigo-500 focus:outline-none transition-colors"
+              >
+                <option value="">Choose a branch</option>
+                {availableBranches.map(branch => (
+                  <option key={branch.id} value={branch.id}>{branch.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+                className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-indigo-500 focus:outline-none transition-colors"
+                placeholder="e.g. Front desk tablet"
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-3">
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex items-center space-x-2 px-4 py-2 bg-indigo-500 text-white rounded-lg hover:bg-indigo-600 transition-colors disabled:opacity-50"
+            >
+              {saving && <Loader2 className="animate-spin" size={16} />}
+              <span>Register Kiosk</span>
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              disabled={saving}
+              className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Kiosks */}
+      <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6">
+        {devices.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No kiosks at your branches. Students who never check in are only marked absent automatically at branches with a kiosk.
+          </p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {devices.map(device => (
+              <div key={device.id} className="py-3 flex items-center justify-between gap-4">
+                <div>
+                  <p className="font-medium text-gray-800">{device.name}</p>
+                  <p className="text-sm text-gray-600">
+                    {device.branch_name} · last used {formatDateTime(device.last_seen_at)}
+                    {device.created_by_name && ` · added by ${device.created_by_name}`}
+                  </p>
+                </div>
+
+                <div className="flex items-center space-x-2">
+                  {confirmRevokeId === device.id ? (
+                    <>
+                      <button
+                        onClick={() => handleRevoke(device)}
+                        disabled={revokingId !== null}
+                        className="flex items-center space-x-1 px-3 py-1 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                      >
+                        {revokingId === device.id && <Loader2 className="animate-spin" size={14} />}
+                        <span>Revoke</span>
+                      </button>
+                      <button
+                        onClick={() => setConfirmRevokeId(null)}
+                        disabled={revokingId !== null}
+                        className="px-3 py-1 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                      >
+                        Keep
+                      </button>
+                    </>
+                  ) : (
+                    <button
+                      onClick={() => setConfirmRevokeId(device.id)}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                      title="Revoke Kiosk"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default KioskDevices;
@@ -0,0 +1,393 @@
+// frontend/src/components/admin/LeaveApprovals.tsx
+
+import React, { useState, useEffect } from 'react';
+import { CalendarClock, Loader2, Check, X, ChevronDown, UserPlus } from 'lucide-react';
+import type { StaffLeave, LeaveClass, SubstituteSuggestion } from '../../types';
+import LeaveService from '../../services/leave';
+import AdminService from '../../services/admin';
+
+// Answer staff leave requests and arrange a cover tutor for each class during approved leave. The cover
+// tutor is set per class occurrence, so the regular tutor keeps the class; families are told who covers.
+const LeaveApprovals: React.FC = () => {
+  const [pending, setPending] = useState<StaffLeave[]>([]);
+  const [approved, setApproved] = useState<StaffLeave[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  // Classes during the approved leave that is opened to arrange cover
+  const [openLeaveId, setOpenLeaveId] = useState<string | null>(null);
+  const [classes, setClasses] = useState<LeaveClass[]>([]);
+  const [classesLoading, setClassesLoading] = useState(false);
+
+  // Cover tutor suggestions for the class being arranged
+  const [coverClassId, setCoverClassId] = useState<string | null>(null);
+  const [suggestions, setSuggestions] = useState<SubstituteSuggestion[]>([]);
+  const [selectedTutorId, setSelectedTutorId] = useState('');
+  const [suggestionsLoading, setSuggestionsLoading] = useState(false);
+  const [savingCover, setSavingCover] = useState(false);
+
+  const loadLeave = async () => {
+    try {
+      const today = new Date().toLocaleDateString('en-CA');
+      const [pendingLeave, approvedLeave] = await Promise.all([
+        LeaveService.getLeaveRequests('pending'),
+        LeaveService.getLeaveRequests('approved')
+      ]);
+      setPending(pendingLeave);
+      // Only leave that is still running or to come needs cover
+      setApproved(approvedLeave.filter(item => new Date(item.end_date).toLocaleDateString('en-CA') >= today));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load leave requests');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadLeave();
+  }, []);
+
+  const loadClasses = async (leaveId: string) => {
+    setClassesLoading(true);
+    try {
+      setClasses(await LeaveService.getLeaveClasses(leaveId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load classes during leave');
+    } finally {
+      setClassesLoading(false);
+    }
+  };
+
+  const handleReview = async (item: StaffLeave, decision: 'approved' | 'rejected') => {
+    setReviewingId(item.id);
+    setError('');
+    setMessage('');
+    try {
+      const result = await LeaveService.reviewLeave(item.id, decision, notes[item.id]?.trim() || '');
+      setMessage(`${result} for ${item.staff_name}`);
+      await loadLeave();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to answer leave request');
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  const handleToggleLeave = (leaveId: string) => {
+    setCoverClassId(null);
+    if (openLeaveId === leaveId) {
+      setOpenLeaveId(null);
+      return;
+    }
+    setOpenLeaveId(leaveId);
+    setClasses([]);
+    loadClasses(leaveId);
+  };
+
+  const handleFindCover = async (classItem: LeaveClass) => {
+    setCoverClassId(classItem.id);
+    setSuggestions([]);
+    setSelectedTutorId('');
+    setSuggestionsLoading(true);
+    try {
+      const result = await AdminService.getSubstituteSuggestions(classItem.id);
+      setSuggestions(result);
+      const best = result.find(suggestion => suggestion.eligible && !suggestion.is_current_substitute);
+      setSelectedTutorId(best?.id || '');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to suggest cover tutors');
+    } finally {
+      setSuggestionsLoading(false);
+    }
+  };
+
+  const handleSetCover = async (classItem: LeaveClass) => {
+    if (!selectedTutorId) {
+      setError('Please choose a cover tutor');
+      return;
+    }
+
+    setSavingCover(true);
+    setError('');
+    setMessage('');
+    try {
+      setMessage(await AdminService.setClassSubstitute(classItem.id, selectedTutorId));
+      setCoverClassId(null);
+      if (openLeaveId) {
+        await Promise.all([loadClasses(openLeaveId), loadLeave()]);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to arrange cover');
+    } finally {
+      setSavingCover(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString('en-SG', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric'
+  });
+
+  const formatDates = (item: StaffLeave) => {
+    const start = formatDate(item.start_date);
+    const end = formatDate(item.end_date);
+    return start === end ? start : `${start} – ${end}`;
+  };
+
+  const formatDateTime = (dateString: string) => new Date(dateString).toLocaleString('en-SG', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+  const formatSuggestion = (suggestion: SubstituteSuggestion) => {
+    const name = `${suggestion.first_name} ${suggestion.last_name}`;
+    const current = suggestion.is_current_substitute ? ' - covering now' : '';
+    if (!suggestion.eligible) {
+      return `${name} - ${suggestion.problems.join(', ')}${current}`;
+    }
+    const fit = suggestion.qualification === 'level'
+      ? 'teaches this level'
+      : suggestion.qualification === 'subject' ? 'teaches this subject' : 'no subjects recorded';
+    const hours = suggestion.max_weekly_hours
+      ? `${suggestion.booked_hours}/${suggestion.max_weekly_hours}h that week`
+      : `${suggestion.booked_hours}h that week`;
+    return `${name} - ${fit}, ${hours}${current}`;
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="flex items-center space-x-3">
+          <Loader2 className="animate-spin text-indigo-600" size={24} />
+          <span className="text-lg text-gray-700">Loading leave requests...</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="px-6 py-16">
+      {/* Header */}
+      <div className="flex items-center space-x-3 mb-8">
+        <CalendarClock className="text-indigo-500" size={32} />
+        <div>
+          <h1 className="text-3xl font-bold text-gray-800">Leave & Cover</h1>
+          <p className="text-gray-600">Approve staff leave and arrange cover tutors for their classes</p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-600 whitespace-pre-line">{error}</p>
+          <button
+            onClick={() => setError('')}
+            className="mt-2 text-sm text-red-700 hover:text-red-800 underline"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {message && (
+        <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+          <p className="text-green-700">{message}</p>
+        </div>
+      )}
+
+      {/* Waiting for an answer */}
+      <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6 mb-8">
+        <h2 className="text-xl font-bold text-gray-800 mb-4">Waiting for Approval</h2>
+        {pending.length === 0 ? (
+          <p className="text-sm text-gray-500">No leave requests are waiting.</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {pending.map(item => (
+              <div key={item.id} className="py-4 space-y-2">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <p className="font-medium text-gray-800">{item.staff_name} · {formatDates(item)}</p>
+                    <p className="text-sm text-gray-600">{item.reason}</p>
+                    <p className="text-sm text-gray-500">
+                      {item.class_count === 1 ? '1 class' : `${item.class_count ?? 0} classes`} during this leave
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => handleReview(item, 'approved')}
+                      disabled={reviewingId !== null}
+                      className="flex items-center space-x-1 px-3 py-1 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                    >
+                      {reviewingId === item.id ? <Loader2 className="animate-spin" size={14} /> : <Check size={14} />}
+                      <span>Approve</span>
+                    </button>
+                    <button
+                      onClick={() => handleReview(item, 'rejected')}
+                      disabled={reviewingId !== null}
+                      className="flex items-center space-x-1 px-3 py-1 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                    >
+                      <X size={14} />
+                      <span>Reject</span>
+                    </button>
+                  </div>
+                </div>
+                <input
+                  type="text"
+                  value={notes[item.id] || ''}
+                  onChange={(e) => setNotes({ ...notes, [item.id]: e.target.value })}
+                  maxLength={500}
+                  className="w-full p-2 border border-gray-200 rounded-lg text-sm focus:border-indigo-500 focus:outline-none"
+                  placeholder="Note for the staff member (optional)"
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Approved leave needing cover */}
+      <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6">
+        <h2 className="text-xl font-bold text-gray-800 mb-4">Upcoming Leave</h2>
+        {approved.length === 0 ? (
+          <p className="text-sm text-gray-500">No approved leave is coming up.</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {approved.map(item => (
+              <div key={item.id} className="py-4">
+                <button
+                  onClick={() => handleToggleLeave(item.id)}
+                  className="w-full flex items-center justify-between text-left"
+                >
+                  <div>
+                    <p className="font-medium text-gray-800">{item.staff_name} · {formatDates(item)}</p>
+                    <p className="text-sm text-gray-600">{item.reason}</p>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    {(item.uncovered_count ?? 0) > 0 ? (
+                      <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-yellow-100 text-yellow-800">
+                        {item.uncovered_count} need cover
+                      </span>
+                    ) : (
+                      <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-800">
+                        All covered
+                      </span>
+                    )}
+                    <ChevronDown size={16} className={`text-gray-500 transition-transform ${openLeaveId === item.id ? 'rotate-180' : ''}`} />
+                  </div>
+                </button>
+
+                {openLeaveId === item.id && (
+                  <div className="mt-4 ml-4 space-y-3">
+                    {classesLoading ? (
+                      <div className="flex items-center space-x-2 text-gray-500">
+                        <Loader2 className="animate-spin" size={16} />
+                        <span className="text-sm">Loading classes...</span>
+                      </div>
+                    ) : classes.length === 0 ? (
+                      <p className="text-sm text-gray-500">No classes during this leave.</p>
+                    ) : classes.map(classItem => {
+                      // A class the staff member was covering needs someone else, whoever is recorded now
+                      const needsCover = classItem.is_cover || !classItem.substitute_tutor_id;
+
+                      return (
+                        <div key={classItem.id} className="p-3 border border-gray-100 rounded-lg space-y-2">
+                          <div className="flex items-center justify-between gap-4">
+                            <div>
+                              <p className="font-medium text-gray-800">
+                                {classItem.subject} {classItem.level && `(${classItem.level})`}
+                              </p>
+                              <p className="text-sm text-gray-600">
+                                {formatDateTime(classItem.start_time)}
+                                {classItem.branch_name && ` · ${classItem.branch_name}`}
+                                {` · ${classItem.enrolled_count} enrolled`}
+                              </p>
+                              <p className={`text-sm ${needsCover ? 'text-yellow-700' : 'text-green-700'}`}>
+                                {classItem.is_cover
+                                  ? `${item.staff_name} was covering this class`
+                                  : classItem.substitute_tutor_id
+                                    ? `Covered by ${classItem.substitute_first_name} ${classItem.substitute_last_name}`
+                                    : 'No cover tutor yet'}
+                              </p>
+                            </div>
+                            {coverClassId !== classItem.id && (
+                              <button
+                                onClick={() => handleFindCover(classItem)}
+                                className="flex items-center space-x-1 px-3 py-1 text-sm text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+                              >
+                                <UserPlus size={14} />
+                                <span>{needsCover ? 'Find Cover' : 'Change Cover'}</span>
+                              </button>
+                            )}
+                          </div>
+
+                          {coverClassId === classItem.id && (
+                            suggestionsLoading ? (
+                              <div className="flex items-center space-x-2 text-gray-500">
+                                <Loader2 className="animate-spin" size={16} />
+                                <span className="text-sm">Finding available tutors...</span>
+                              </div>
+                            ) : (
+                              <div className="space-y-2">
+                                <div className="flex items-center space-x-2">
+                                  <select
+                                    value={selectedTutorId}
+                                    onChange={(e) => setSelectedTutorId(e.target.value)}
+                                    className="flex-1 p-2 border border-gray-200 rounded-lg text-sm focus:border-indigo-500 focus:outline-none"
+                                  >
+                                    <option value="">Choose a cover tutor</option>
+                                    {suggestions.map(suggestion => (
+                                      <option
+                                        key={suggestion.id}
+                                        value={suggestion.id}
+                                        disabled={!suggestion.eligible || suggestion.is_current_substitute}
+                                      >
+                                        {formatSuggestion(suggestion)}
+                                      </option>
+                                    ))}
+                                  </select>
+                                  <button
+                                    onClick={() => handleSetCover(classItem)}
+                                    disabled={savingCover || !selectedTutorId}
+                                    className="flex items-center space-x-1 px-3 py-2 text-sm bg-indigo-500 text-white rounded-lg hover:bg-indigo-600 transition-colors disabled:opacity-50"
+                                  >
+                                    {savingCover && <Loader2 className="animate-spin" size={14} />}
+                                    <span>Set Cover</span>
+                                  </button>
+                                  <button
+                                    onClick={() => setCoverClassId(null)}
+                                    disabled={savingCover}
+                                    className="px-3 py-2 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                                  >
+                                    Cancel
+                                  </button>
+                                </div>
+                                {suggestions.length === 0 ? (
+                                  <p className="text-sm text-gray-500">No other staff work at this branch.</p>
+                                ) : !suggestions.some(suggestion => suggestion.eligible) && (
+                                  <p className="text-sm text-yellow-700">Nobody at this branch is free and able to teach this class.</p>
+                                )}
+                              </div>
+                            )
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LeaveApprovals;
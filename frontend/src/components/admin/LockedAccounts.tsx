@@ -0,0 +1,101 @@
+// frontend/src/components/admin/LockedAccounts.tsx
+
+import React, { useState, useEffect } from 'react';
+import { Lock, Unlock, Loader2 } from 'lucide-react';
+import AdminService from '../../services/admin';
+import type { LockedAccount } from '../../types';
+
+// Accounts locked after repeated failed logins; only shown while there are any
+const LockedAccounts: React.FC = () => {
+  const [accounts, setAccounts] = useState<LockedAccount[]>([]);
+  const [unlockingId, setUnlockingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const loadAccounts = async () => {
+    try {
+      setAccounts(await AdminService.getLockedAccounts());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load locked accounts');
+    }
+  };
+
+  useEffect(() => {
+    loadAccounts();
+  }, []);
+
+  const handleUnlock = async (account: LockedAccount) => {
+    setUnlockingId(account.id);
+    setError('');
+    try {
+      setMessage(await AdminService.unlockAccount(account.id));
+      await loadAccounts();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unlock account');
+    } finally {
+      setUnlockingId(null);
+    }
+  };
+
+  if (accounts.length === 0 && !error && !message) {
+    return null;
+  }
+
+  return (
+    <div className="mb-8 bg-white rounded-2xl shadow-lg border border-amber-200 p-6">
+      <h3 className="text-lg font-semibold text-gray-800 mb-4 flex items-center space-x-2">
+        <Lock className="text-amber-600" size={20} />
+        <span>Locked Accounts</span>
+      </h3>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-600 text-sm">{error}</p>
+        </div>
+      )}
+
+      {message && (
+        <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg">
+          <p className="text-green-700 text-sm">{message}</p>
+        </div>
+      )}
+
+      {accounts.length === 0 ? (
+        <p className="text-sm text-gray-500">No accounts are locked.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {accounts.map(account => (
+            <li key={account.id} className="py-3 flex items-center justify-between gap-4">
+              <div>
+                <p className="font-medium text-gray-800">
+                  {account.first_name} {account.last_name}
+                  <span className="ml-2 text-xs text-gray-500 capitalize">{account.role}</span>
+                </p>
+                <p className="text-sm text-gray-500">{account.email}</p>
+                <p className="text-xs text-gray-500">
+                  {account.failed_login_count} failed attempts · locked until{' '}
+                  {new Date(account.locked_until).toLocaleString('en-SG', {
+                    day: '2-digit',
+                    month: 'short',
+                    hour: '2-digit',
+                    minute: '2-digit'
+                  })}
+                </p>
+              </div>
+              <button
+                onClick={() => handleUnlock(account)}
+                disabled={unlockingId !== null}
+                className="flex items-center space-x-2 px-4 py-2 bg-indigo-500 text-white rounded-lg hover:bg-indigo-600 transition-colors disabled:opacity-50"
+              >
+                {unlockingId === account.id ? <Loader2 className="animate-spin" size={16} /> : <Unlock size={16} />}
+                <span>Unlock</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default LockedAccounts;
@@ -0,0 +1,364 @@
+// frontend/src/components/admin/RoleManagement.tsx
+
+import React, { useState, useEffect } from 'react';
+import { KeyRound, Plus, Edit2, Trash2, Loader2, Lock, Users } from 'lucide-react';
+import type { Role, PermissionInfo } from '../../types';
+import RoleService from '../../services/role';
+
+interface RoleDraft {
+  id: string | null;
+  name: string;
+  description: string;
+  accountType: Role['account_type'];
+  permissions: string[];
+}
+
+const ACCOUNT_TYPE_LABELS: Record<Role['account_type'], string> = {
+  parent: 'Parent accounts',
+  staff: 'Staff accounts',
+  admin: 'Administrator accounts',
+  student: 'Student accounts'
+};
+
+const RoleManagement: React.FC = () => {
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [permissions, setPermissions] = useState<PermissionInfo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  // The role being created (id null) or edited
+  const [draft, setDraft] = useState<RoleDraft | null>(null);
+  const [formError, setFormError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const loadRoles = async () => {
+    try {
+      const [roleList, permissionList] = await Promise.all([
+        RoleService.getRoles(),
+        RoleService.getPermissions()
+      ]);
+      setRoles(roleList);
+      setPermissions(permissionList);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load roles');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadRoles();
+  }, []);
+
+  const handleCreate = () => {
+    setDraft({ id: null, name: '', description: '', accountType: 'staff', permissions: [] });
+    setFormError('');
+    setMessage('');
+  };
+
+  const handleEdit = (role: Role) => {
+    setDraft({
+      id: role.id,
+      name: role.name,
+      description: role.description || '',
+      accountType: role.account_type,
+      permissions: role.permissions
+    });
+    setFormError('');
+    setMessage('');
+  };
+
+  const togglePermission = (key: string) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      permissions: draft.permissions.includes(key)
+        ? draft.permissions.filter(permission => permission !== key)
+        : [...draft.permissions, key]
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+
+    if (draft.name.trim().length < 2) {
+      setFormError('Role name must be at least 2 characters long');
+      return;
+    }
+
+    setSaving(true);
+    setFormError('');
+
+    try {
+      const roleData = {
+        name: draft.name.trim(),
+        description: draft.description.trim(),
+        permissions: draft.permissions
+      };
+
+      if (draft.id) {
+        await RoleService.updateRole(draft.id, roleData);
+        setMessage(`Role "${roleData.name}" updated. The change applies to everyone with this role straight away.`);
+      } else {
+        await RoleService.createRole(roleData);
+        setMessage(`Role "${roleData.name}" created. Assign it to staff from Staff Management.`);
+      }
+
+      setDraft(null);
+      await loadRoles();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to save role');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (role: Role) => {
+    setDeletingId(role.id);
+    setError('');
+    setMessage('');
+
+    try {
+      setMessage(await RoleService.deleteRole(role.id));
+      await loadRoles();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete role');
+    } finally {
+      setDeletingId(null);
+      setConfirmDeleteId(null);
+    }
+  };
+
+  const describePermission = (key: string) => permissions.find(permission => permission.key === key)?.description || key;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="flex items-center space-x-3">
+          <Loader2 className="animate-spin text-indigo-600" size={24} />
+          <span className="text-lg text-gray-700">Loading roles...</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="px-6 py-16">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div className="flex items-center space-x-3">
+          <KeyRound className="text-indigo-500" size={32} />
+          <div>
+            <h1 className="text-3xl font-bold text-gray-800">Roles</h1>
+            <p className="text-gray-600">Decide what each kind of account is allowed to do</p>
+          </div>
+        </div>
+
+        <button
+          onClick={handleCreate}
+          className="flex items-center space-x-2 bg-indigo-500 hover:bg-indigo-600 text-white px-6 py-3 rounded-2xl transition-all duration-200 shadow-md text-lg font-semibold"
+        >
+          <Plus size={20} />
+          <span>Add Role</span>
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-600">{error}</p>
+          <button
+            onClick={() => setError('')}
+            className="mt-2 text-sm text-red-700 hover:text-red-800 underline"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {message && (
+        <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+          <p className="text-green-700">{message}</p>
+        </div>
+      )}
+
+      {/* Role editor */}
+      {draft && (
+        <form onSubmit={handleSave} className="bg-white rounded-2xl shadow-lg border border-indigo-200 p-6 mb-8 space-y-4">
+          <h3 className="text-lg font-semibold text-gray-800">
+            {draft.id ? `Edit ${draft.name || 'Role'}` : 'New Staff Role'}
+          </h3>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-indigo-500 focus:outline-none transition-colors"
+                placeholder="e.g. Branch Manager"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+              <input
+                type="text"
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-indigo-500 focus:outline-none transition-colors"
+                placeholder="Optional"
+              />
+            </div>
+          </div>
+
+          <div>
+            <p className="block text-sm font-medium text-gray-700 mb-2">
+              Permissions <span className="font-normal text-gray-500">({ACCOUNT_TYPE_LABELS[draft.accountType]})</span>
+            </p>
+            <div className="grid md:grid-cols-2 gap-2">
+              {permissions
+                .filter(permission => permission.account_types.includes(draft.accountType))
+                .map(permission => (
+                  <label key={permission.key} className="flex items-start space-x-3 p-3 rounded-lg border border-gray-200 hover:bg-gray-50 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={draft.permissions.includes(permission.key)}
+                      onChange={() => togglePermission(permission.key)}
+                      className="mt-1"
+                    />
+                    <span>
+                      <span className="block text-sm text-gray-800">{permission.description}</span>
+                      <span className="block text-xs font-mono text-gray-500">{permission.key}</span>
+                    </span>
+                  </label>
+                ))}
+            </div>
+          </div>
+
+          {formError && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-red-600 text-sm">{formError}</p>
+            </div>
+          )}
+
+          <div className="flex items-center space-x-3">
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex items-center space-x-2 px-4 py-2 bg-indigo-500 text-white rounded-lg hover:bg-indigo-600 transition-colors disabled:opacity-50"
+            >
+              {saving && <Loader2 className="animate-spin" size={16} />}
+              <span>{draft.id ? 'Save Role' : 'Create Role'}</span>
+            </button>
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              disabled={saving}
+              className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Roles */}
+      <div className="space-y-6">
+        {roles.map(role => {
+          const isAdministrator = role.system_key === 'admin';
+
+          return (
+            <div key={role.id} className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6">
+              <div className="flex items-start justify-between gap-4 mb-4">
+                <div>
+                  <h3 className="text-xl font-bold text-gray-800 flex items-center space-x-2">
+                    <span>{role.name}</span>
+                    {role.system_key && (
+                      <span className="px-2 py-1 rounded text-xs font-semibold bg-gray-100 text-gray-700">Built-in</span>
+                    )}
+                  </h3>
+                  {role.description && <p className="text-sm text-gray-600">{role.description}</p>}
+                  <p className="text-xs text-gray-500 mt-1 flex items-center space-x-1">
+                    <Users size={12} />
+                    <span>
+                      {ACCOUNT_TYPE_LABELS[role.account_type]} · {role.user_count} user{role.user_count === 1 ? '' : 's'}
+                    </span>
+                  </p>
+                </div>
+
+                <div className="flex items-center space-x-2">
+                  {isAdministrator ? (
+                    <span className="flex items-center space-x-1 text-xs text-gray-500" title="The Administrator role always has every permission">
+                      <Lock size={14} />
+                      <span>All permissions</span>
+                    </span>
+                  ) : (
+                    <button
+                      onClick={() => handleEdit(role)}
+                      className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                      title="Edit Role"
+                    >
+                      <Edit2 size={16} />
+                    </button>
+                  )}
+                  {!role.system_key && (
+                    confirmDeleteId === role.id ? (
+                      <>
+                        <button
+                          onClick={() => handleDelete(role)}
+                          disabled={deletingId !== null}
+                          className="flex items-center space-x-1 px-3 py-1 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                        >
+                          {deletingId === role.id && <Loader2 className="animate-spin" size={14} />}
+                          <span>Delete</span>
+                        </button>
+                        <button
+                          onClick={() => setConfirmDeleteId(null)}
+                          disabled={deletingId !== null}
+                          className="px-3 py-1 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                        >
+                          Keep
+                        </button>
+                      </>
+                    ) : (
+                      <button
+                        onClick={() => setConfirmDeleteId(role.id)}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                        title="Delete Role"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    )
+                  )}
+                </div>
+              </div>
+
+              {role.permissions.length === 0 ? (
+                <p className="text-sm text-gray-500">This role has no permissions.</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {role.permissions.map(permission => (
+                    <span
+                      key={permission}
+                      className="px-2 py-1 rounded text-xs bg-indigo-50 text-indigo-700"
+                      title={describePermission(permission)}
+                    >
+                      {permission}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default RoleManagement;
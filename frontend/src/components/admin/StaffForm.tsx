@@ -2,9 +2,13 @@
 
 import React, { useState, useEffect } from 'react';
 import { X } from 'lucide-react';
-import type { StaffMember, CreateStaffRequest, UpdateStaffRequest } from '../../types';
+import type { StaffMember, CreateStaffRequest, UpdateStaffRequest, StaffRoleOption, Branch } from '../../types';
 import AdminService from '../../services/admin';
-import { getNameValidationError, getPhoneValidationError, isValidEmail, isValidPassword } from '../../utils/validation';
+import BranchService from '../../services/branch';
+import { useAuth } from '../../hooks/useAuth';
+import { canAccessBranch } from '../../utils/permissions';
+import { getNameValidationError, getPhoneValidationError, isValidEmail, getPasswordValidationError, describePasswordPolicy } from '../../utils/validation';
+import { usePasswordPolicy } from '../../hooks/usePasswordPolicy';
 
 interface StaffFormProps {
   isOpen: boolean;
@@ -14,6 +18,7 @@ interface StaffFormProps {
 }
 
 const StaffForm: React.FC<StaffFormProps> = ({ isOpen, onClose, staffMember, onSuccess }) => {
+  const { user } = useAuth();
   const [formData, setFormData] = useState({
     firstName: '',
     lastName: '',
@@ -22,8 +27,13 @@ const StaffForm: React.FC<StaffFormProps> = ({ isOpen, onClose, staffMember, onS
     password: '',
     confirmPassword: '',
     active: true,
+    roleId: '',
   });
   const [error, setError] = useState('');
+  const [roles, setRoles] = useState<StaffRoleOption[]>([]);
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [branchIds, setBranchIds] = useState<string[]>([]);
+  const passwordPolicy = usePasswordPolicy();
   const [fieldErrors, setFieldErrors] = useState({
     firstName: '',
     lastName: '',
@@ -36,6 +46,31 @@ const StaffForm: React.FC<StaffFormProps> = ({ isOpen, onClose, staffMember, onS
 
   const isEdit = !!staffMember;
 
+  // Roles are loaded once the form opens; without a choice the server uses the built-in Staff role
+  useEffect(() => {
+    if (!isOpen) return;
+    AdminService.getStaffRoles()
+      .then(setRoles)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load roles'));
+  }, [isOpen]);
+
+  // Only the caller's own branches can be handed out; assignments elsewhere are kept by the server
+  useEffect(() => {
+    if (!isOpen) return;
+    BranchService.getAllBranches()
+      .then(allBranches => setBranches(allBranches.filter(branch => canAccessBranch(user, branch.id))))
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load branches'));
+  }, [isOpen, user]);
+
+  const defaultRoleId = roles.find(role => role.system_key === 'staff')?.id || '';
+
+  const toggleBranch = (branchId: string) => {
+    setBranchIds(current => current.includes(branchId)
+      ? current.filter(id => id !== branchId)
+      : [...current, branchId]);
+    setError('');
+  };
+
   // Helper function to normalize email (trim and lowercase)
   const normalizeEmail = (emailValue: string): string => {
     return emailValue.trim().toLowerCase();
@@ -52,7 +87,9 @@ const StaffForm: React.FC<StaffFormProps> = ({ isOpen, onClose, staffMember, onS
         password: '',
         confirmPassword: '',
         active: staffMember.active,
+        roleId: staffMember.role_id || '',
       });
+      setBranchIds((staffMember.branches || []).map(branch => branch.id));
     } else {
       // Reset form for new staff
       setFormData({
@@ -63,7 +100,9 @@ const StaffForm: React.FC<StaffFormProps> = ({ isOpen, onClose, staffMember, onS
         password: '',
         confirmPassword: '',
         active: true,
+        roleId: '',
       });
+      setBranchIds([]);
     }
     setError('');
     setFieldErrors({
@@ -100,8 +139,7 @@ const StaffForm: React.FC<StaffFormProps> = ({ isOpen, onClose, staffMember, onS
         break;
       case 'password':
         if (!isEdit) { // Only validate password for new staff
-          if (!value) error = 'Password is required';
-          else if (!isValidPassword(value)) error = 'Password must be at least 8 characters long';
+          error = getPasswordValidationError(value, passwordPolicy) || '';
         }
         break;
       case 'confirmPassword':
@@ -211,6 +249,8 @@ const StaffForm: React.FC<StaffFormProps> = ({ isOpen, onClose, staffMember, onS
           lastName: formData.lastName.trim(),
           phone: formData.phone.trim() || undefined,
           active: formData.active,
+          roleId: formData.roleId || undefined,
+          branchIds: branchIds.filter(id => branches.some(branch => branch.id === id)),
         };
         await AdminService.updateStaffMember(staffMember.id, updateData);
       } else {
@@ -221,6 +261,8 @@ const StaffForm: React.FC<StaffFormProps> = ({ isOpen, onClose, staffMember, onS
           email: normalizedEmail,
           phone: formData.phone.trim() || undefined,
           password: formData.password,
+          roleId: formData.roleId || undefined,
+          branchIds,
         };
         await AdminService.createStaffMember(createData);
       }
@@ -244,7 +286,9 @@ const StaffForm: React.FC<StaffFormProps> = ({ isOpen, onClose, staffMember, onS
       password: '',
       confirmPassword: '',
       active: true,
+      roleId: '',
     });
+    setBranchIds([]);
     setError('');
     setFieldErrors({
       firstName: '',
@@ -371,6 +415,50 @@ const StaffForm: React.FC<StaffFormProps> = ({ isOpen, onClose, staffMember, onS
             )}
           </div>
 
+          {/* Role */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Role
+            </label>
+            <select
+              value={formData.roleId || defaultRoleId}
+              onChange={(e) => handleInputChange('roleId', e.target.value)}
+              className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-indigo-500 focus:outline-none transition-colors"
+            >
+              {roles.map(role => (
+                <option key={role.id} value={role.id}>
+                  {role.name}{role.description ? ` - ${role.description}` : ''}
+                </option>
+              ))}
+            </select>
+            <p className="text-sm text-gray-500 mt-1">
+              The role decides what this staff member can do. Roles are managed in the Roles tab.
+            </p>
+          </div>
+
+          {/* Branches */}
+          <div>
+            <p className="block text-sm font-medium text-gray-700 mb-2">
+              Branches
+            </p>
+            <div className="grid md:grid-cols-2 gap-2">
+              {branches.map(branch => (
+                <label key={branch.id} className="flex items-center space-x-3 p-3 rounded-lg border border-gray-200 hover:bg-gray-50 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={branchIds.includes(branch.id)}
+                    onChange={() => toggleBranch(branch.id)}
+                    className="w-4 h-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+                  />
+                  <span className="text-sm text-gray-800">{branch.name}</span>
+                </label>
+              ))}
+            </div>
+            <p className="text-sm text-gray-500 mt-1">
+              Staff only see and manage classes, classrooms and students at their branches, unless their role works across every branch.
+            </p>
+          </div>
+
           {/* Password Fields (only for new staff) */}
           {!isEdit && (
             <>
@@ -387,7 +475,7 @@ const StaffForm: React.FC<StaffFormProps> = ({ isOpen, onClose, staffMember, onS
                       ? 'border-red-300 focus:border-red-500' 
                       : 'border-gray-200 focus:border-indigo-500'
                   }`}
-                  placeholder="Minimum 8 characters"
+                  placeholder={describePasswordPolicy(passwordPolicy)}
                   required
                 />
                 {fieldErrors.password && (
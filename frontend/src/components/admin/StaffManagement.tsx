@@ -1,12 +1,19 @@
 // frontend/src/components/admin/StaffManagement.tsx
 
 import React, { useState, useEffect } from 'react';
-import { X, Users, Plus, Edit2, Trash2, Loader2, UserCheck, UserX } from 'lucide-react';
+import { X, Users, Plus, Edit2, Trash2, Loader2, UserCheck, UserX, ShieldOff, GraduationCap } from 'lucide-react';
 import type { StaffMember, StaffDeletionImpact } from '../../types';
 import AdminService from '../../services/admin';
 import StaffForm from './StaffForm';
+import LockedAccounts from './LockedAccounts';
+import TeachingProfileForm from './TeachingProfileForm';
+import { useAuth } from '../../hooks/useAuth';
+import { hasPermission } from '../../utils/permissions';
 
 const StaffManagement: React.FC = () => {
+  const { user } = useAuth();
+  // Two-factor resets and unlocking accounts need their own permission
+  const canManageSecurity = hasPermission(user, 'account.security');
   const [staff, setStaff] = useState<StaffMember[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
@@ -14,6 +21,8 @@ const StaffManagement: React.FC = () => {
   // Modal states
   const [showStaffForm, setShowStaffForm] = useState(false);
   const [editingStaff, setEditingStaff] = useState<StaffMember | null>(null);
+  // Subjects, availability and weekly hours used to check class assignments
+  const [profileStaff, setProfileStaff] = useState<StaffMember | null>(null);
   
   // Delete confirmation states
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<StaffMember | null>(null);
@@ -21,6 +30,11 @@ const StaffManagement: React.FC = () => {
   const [deleting, setDeleting] = useState(false);
   const [loadingImpact, setLoadingImpact] = useState(false);
 
+  // Two-factor reset states (e.g. a tutor who lost their phone)
+  const [confirmResetTwoFactor, setConfirmResetTwoFactor] = useState<string | null>(null);
+  const [resettingTwoFactor, setResettingTwoFactor] = useState(false);
+  const [successMessage, setSuccessMessage] = useState('');
+
   useEffect(() => {
     loadStaff();
   }, []);
@@ -88,6 +102,21 @@ const StaffManagement: React.FC = () => {
     }
   };
 
+  const handleResetTwoFactor = async (staffMember: StaffMember) => {
+    setResettingTwoFactor(true);
+    setError('');
+    setSuccessMessage('');
+    try {
+      setSuccessMessage(await AdminService.resetTwoFactor(staffMember.id));
+      setConfirmResetTwoFactor(null);
+      await loadStaff();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reset two-factor authentication');
+    } finally {
+      setResettingTwoFactor(false);
+    }
+  };
+
   const handleFormSuccess = () => {
     loadStaff(); // Reload the staff list
   };
@@ -145,6 +174,8 @@ const StaffManagement: React.FC = () => {
         </button>
       </div>
 
+      {canManageSecurity && <LockedAccounts />}
+
       {/* Error Message */}
       {error && (
         <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
@@ -158,6 +189,19 @@ const StaffManagement: React.FC = () => {
         </div>
       )}
 
+      {/* Success Message */}
+      {successMessage && (
+        <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg flex items-center justify-between">
+          <p className="text-green-700">{successMessage}</p>
+          <button
+            onClick={() => setSuccessMessage('')}
+            className="text-green-600 hover:text-green-800"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      )}
+
       {/* Staff Grid */}
       {staff.length === 0 ? (
         <div className="text-center py-12">
@@ -205,6 +249,13 @@ const StaffManagement: React.FC = () => {
                   >
                     <Edit2 size={16} />
                   </button>
+                  <button
+                    onClick={() => setProfileStaff(staffMember)}
+                    className="p-2 text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+                    title="Teaching Profile"
+                  >
+                    <GraduationCap size={16} />
+                  </button>
                   <button
                     onClick={() => handleDeleteStaff(staffMember)}
                     className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
@@ -223,6 +274,19 @@ const StaffManagement: React.FC = () => {
                   </p>
                 )}
                 
+                {staffMember.role_name && (
+                  <p className="text-sm text-gray-600">
+                    <span className="font-medium">Role:</span> {staffMember.role_name}
+                  </p>
+                )}
+
+                <p className="text-sm text-gray-600">
+                  <span className="font-medium">Branches:</span>{' '}
+                  {staffMember.branches && staffMember.branches.length > 0
+                    ? staffMember.branches.map(branch => branch.name).join(', ')
+                    : 'None assigned'}
+                </p>
+
                 <p className="text-sm text-gray-600">
                   <span className="font-medium">Status:</span>{' '}
                   <span className={`px-2 py-1 rounded text-xs font-semibold ${
@@ -234,6 +298,39 @@ const StaffManagement: React.FC = () => {
                   </span>
                 </p>
 
+                <div className="text-sm text-gray-600 flex items-center flex-wrap gap-2">
+                  <span><span className="font-medium">Two-Factor:</span> {staffMember.two_factor_enabled ? 'On' : 'Off'}</span>
+                  {staffMember.two_factor_enabled && canManageSecurity && (
+                    confirmResetTwoFactor === staffMember.id ? (
+                      <>
+                        <button
+                          onClick={() => handleResetTwoFactor(staffMember)}
+                          disabled={resettingTwoFactor}
+                          className="flex items-center space-x-1 px-2 py-1 text-xs bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+                        >
+                          {resettingTwoFactor ? <Loader2 className="animate-spin" size={12} /> : <ShieldOff size={12} />}
+                          <span>Confirm Reset</span>
+                        </button>
+                        <button
+                          onClick={() => setConfirmResetTwoFactor(null)}
+                          disabled={resettingTwoFactor}
+                          className="px-2 py-1 text-xs text-gray-600 hover:bg-gray-100 rounded"
+                        >
+                          Cancel
+                        </button>
+                      </>
+                    ) : (
+                      <button
+                        onClick={() => setConfirmResetTwoFactor(staffMember.id)}
+                        className="text-xs text-red-600 hover:text-red-700 underline"
+                        title="Turn off two-factor and sign them out, e.g. after a lost phone"
+                      >
+                        Reset
+                      </button>
+                    )
+                  )}
+                </div>
+
                 {staffMember.class_count !== undefined && (
                   <p className="text-sm text-gray-600">
                     <span className="font-medium">Classes@@@:</span> {staffMember.class_count} total
@@ -263,6 +360,14 @@ const StaffManagement: React.FC = () => {
         onSuccess={handleFormSuccess}
       />
 
+      {/* Teaching Profile Modal */}
+      <TeachingProfileForm
+        isOpen={profileStaff !== null}
+        onClose={() => setProfileStaff(null)}
+        staffMember={profileStaff}
+        onSuccess={setSuccessMessage}
+      />
+
       {/* Delete Confirmation Modal */}
       {showDeleteConfirm && (
         <div className="fixed inset-0 bg-gradient-to-br from-white-100 to-indigo-200 backdrop-blur-sm flex items-center justify-center z-50">
@@ -0,0 +1,282 @@
+// frontend/src/components/admin/TeachingProfileForm.tsx
+
+import React, { useState, useEffect } from 'react';
+import { X, Plus, Trash2, Loader2 } from 'lucide-react';
+import type { StaffMember, TutorQualification } from '../../types';
+import AdminService from '../../services/admin';
+
+interface TeachingProfileFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  staffMember: StaffMember | null;
+  onSuccess: (message: string) => void;
+}
+
+interface AvailabilityRow {
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+}
+
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Same levels as classes are scheduled for
+const LEVELS = [
+  'Nursery 1', 'Nursery 2', 'Kindergarten 1', 'Kindergarten 2',
+  'Primary 1', 'Primary 2', 'Primary 3', 'Primary 4', 'Primary 5', 'Primary 6',
+  'Secondary 1', 'Secondary 2', 'Secondary 3', 'Secondary 4', 'Secondary 5', 'Mixed Levels'
+];
+
+// Edit what a tutor can teach (subjects and levels), when they are available each week and how many hours
+// they take on. Classes are only assigned to tutors they fit; leaving a part empty means no limit.
+const TeachingProfileForm: React.FC<TeachingProfileFormProps> = ({ isOpen, onClose, staffMember, onSuccess }) => {
+  const [maxWeeklyHours, setMaxWeeklyHours] = useState('');
+  const [qualifications, setQualifications] = useState<TutorQualification[]>([]);
+  const [availability, setAvailability] = useState<AvailabilityRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen || !staffMember) return;
+
+    setLoading(true);
+    setError('');
+    AdminService.getTeachingProfile(staffMember.id)
+      .then(profile => {
+        setMaxWeeklyHours(profile.max_weekly_hours === null ? '' : String(profile.max_weekly_hours));
+        setQualifications(profile.qualifications);
+        setAvailability(profile.availability.map(window => ({
+          dayOfWeek: window.day_of_week,
+          startTime: window.start_time.slice(0, 5),
+          endTime: window.end_time.slice(0, 5)
+        })));
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load teaching profile'))
+      .finally(() => setLoading(false));
+  }, [isOpen, staffMember]);
+
+  const updateQualification = (index: number, changes: Partial<TutorQualification>) => {
+    setQualifications(qualifications.map((qualification, i) => i === index ? { ...qualification, ...changes } : qualification));
+  };
+
+  const updateAvailability = (index: number, changes: Partial<AvailabilityRow>) => {
+    setAvailability(availability.map((window, i) => i === index ? { ...window, ...changes } : window));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!staffMember) return;
+
+    const hours = maxWeeklyHours.trim() ? Number(maxWeeklyHours) : null;
+    if (hours !== null && (isNaN(hours) || hours <= 0 || hours > 80)) {
+      setError('Maximum weekly hours must be between 0 and 80, or empty for no limit');
+      return;
+    }
+    if (qualifications.some(qualification => !qualification.subject.trim())) {
+      setError('Please name the subject for each qualification, or remove it');
+      return;
+    }
+    if (availability.some(window => !window.startTime || !window.endTime || window.endTime <= window.startTime)) {
+      setError('Each availability window must end after it starts');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    try {
+      const message = await AdminService.updateTeachingProfile(staffMember.id, {
+        maxWeeklyHours: hours,
+        qualifications: qualifications.map(qualification => ({
+          subject: qualification.subject.trim(),
+          level: qualification.level || null
+        })),
+        availability
+      });
+      onSuccess(message);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save teaching profile');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isOpen || !staffMember) return null;
+
+  return (
+    <div className="fixed inset-0 bg-gradient-to-br from-white-100 to-indigo-200 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl p-8 w-full max-w-2xl relative shadow-2xl max-h-[90vh] overflow-y-auto">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 transition-colors"
+          type="button"
+        >
+          <X size={24} />
+        </button>
+
+        <h2 className="text-2xl font-bold text-gray-800 mb-2">Teaching Profile</h2>
+        <p className="text-gray-600 mb-6">
+          {staffMember.first_name} {staffMember.last_name}. Leave a section empty for no limit.
+        </p>
+
+        {loading ? (
+          <div className="flex items-center space-x-2 text-gray-500 py-8 justify-center">
+            <Loader2 className="animate-spin" size={20} />
+            <span>Loading profile...</span>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            {/* Weekly hours */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Maximum teaching hours per week</label>
+              <input
+                type="number"
+                min={0.5}
+                max={80}
+                step={0.5}
+                value={maxWeeklyHours}
+                onChange={(e) => setMaxWeeklyHours(e.target.value)}
+                className="w-40 p-3 border-2 border-gray-200 rounded-lg focus:border-indigo-500 focus:outline-none transition-colors"
+                placeholder="No limit"
+              />
+            </div>
+
+            {/* Qualifications */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-medium text-gray-700">Subjects and levels</label>
+                <button
+                  type="button"
+                  onClick={() => setQualifications([...qualifications, { subject: '', level: null }])}
+                  className="flex items-center space-x-1 text-sm text-indigo-600 hover:text-indigo-800"
+                >
+                  <Plus size={14} />
+                  <span>Add subject</span>
+                </button>
+              </div>
+              {qualifications.length === 0 ? (
+                <p className="text-sm text-gray-500">No qualifications recorded; can be given any subject.</p>
+              ) : (
+                <div className="space-y-2">
+                  {qualifications.map((qualification, index) => (
+                    <div key={index} className="flex items-center space-x-2">
+                      <input
+                        type="text"
+                        value={qualification.subject}
+                        onChange={(e) => updateQualification(index, { subject: e.target.value })}
+                        maxLength={100}
+                        className="flex-1 p-2 border-2 border-gray-200 rounded-lg focus:border-indigo-500 focus:outline-none transition-colors"
+                        placeholder="e.g. Mathematics"
+                      />
+                      <select
+                        value={qualification.level || ''}
+                        onChange={(e) => updateQualification(index, { level: e.target.value || null })}
+                        className="p-2 border-2 border-gray-200 rounded-lg focus:border-indigo-500 focus:outline-none transition-colors"
+                      >
+                        <option value="">Any level</option>
+                        {LEVELS.map(level => (
+                          <option key={level} value={level}>{level}</option>
+                        ))}
+                      </select>
+                      <button
+                        type="button"
+                        onClick={() => setQualifications(qualifications.filter((_, i) => i !== index))}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                        title="Remove"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Weekly availability */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-medium text-gray-700">Weekly availability</label>
+                <button
+                  type="button"
+                  onClick={() => setAvailability([...availability, { dayOfWeek: 1, startTime: '09:00', endTime: '17:00' }])}
+                  className="flex items-center space-x-1 text-sm text-indigo-600 hover:text-indigo-800"
+                >
+                  <Plus size={14} />
+                  <span>Add time</span>
+                </button>
+              </div>
+              {availability.length === 0 ? (
+                <p className="text-sm text-gray-500">No availability recorded; can be scheduled at any time.</p>
+              ) : (
+                <div className="space-y-2">
+                  {availability.map((window, index) => (
+                    <div key={index} className="flex items-center space-x-2">
+                      <select
+                        value={window.dayOfWeek}
+                        onChange={(e) => updateAvailability(index, { dayOfWeek: Number(e.target.value) })}
+                        className="flex-1 p-2 border-2 border-gray-200 rounded-lg focus:border-indigo-500 focus:outline-none transition-colors"
+                      >
+                        {DAYS.map((day, dayIndex) => (
+                          <option key={day} value={dayIndex}>{day}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="time"
+                        value={window.startTime}
+                        onChange={(e) => updateAvailability(index, { startTime: e.target.value })}
+                        className="p-2 border-2 border-gray-200 rounded-lg focus:border-indigo-500 focus:outline-none transition-colors"
+                      />
+                      <span className="text-gray-500">to</span>
+                      <input
+                        type="time"
+                        value={window.endTime}
+                        onChange={(e) => updateAvailability(index, { endTime: e.target.value })}
+                        className="p-2 border-2 border-gray-200 rounded-lg focus:border-indigo-500 focus:outline-none transition-colors"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setAvailability(availability.filter((_, i) => i !== index))}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                        title="Remove"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                <p className="text-red-600 text-sm">{error}</p>
+              </div>
+            )}
+
+            <div className="flex space-x-3">
+              <button
+                type="button"
+                onClick={onClose}
+                disabled={saving}
+                className="flex-1 px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="flex-1 flex items-center justify-center space-x-2 px-4 py-2 bg-indigo-500 text-white rounded-lg hover:bg-indigo-600 disabled:opacity-50 transition-colors"
+              >
+                {saving && <Loader2 className="animate-spin" size={16} />}
+                <span>Save Profile</span>
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TeachingProfileForm;
@@ -1,8 +1,11 @@
 // frontend/src/components/auth/LoginModal.tsx
 
 import React, { useState } from 'react';
-import { X } from 'lucide-react';
+import { X, ShieldCheck } from 'lucide-react';
 import { useAuth } from '../../hooks/useAuth';
+import AuthService from '../../services/auth';
+import RecoveryCodesList from './RecoveryCodesList';
+import type { TwoFactorProvisioning, TwoFactorSetupResult } from '../../types';
 
 interface LoginModalProps {
   isOpen: boolean;
@@ -14,7 +17,15 @@ const LoginModal: React.FC<LoginModalProps> = ({ isOpen, onClose }) => {
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const { login } = useAuth();
+  const [mode, setMode] = useState<'login' | 'forgot' | 'twoFactor' | 'twoFactorSetup'>('login');
+  const [resetMessage, setResetMessage] = useState('');
+  // Second login step: the challenge from the password step and the code typed in
+  const [challengeToken, setChallengeToken] = useState('');
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [provisioning, setProvisioning] = useState<TwoFactorProvisioning | null>(null);
+  const [setupResult, setSetupResult] = useState<TwoFactorSetupResult | null>(null);
+  const { login, completeTwoFactorLogin, completeTwoFactorSetup } = useAuth();
 
   // Helper function to normalize email (trim and lowercase)
   const normalizeEmail = (emailValue: string): string => {
@@ -41,10 +52,49 @@ const LoginModal: React.FC<LoginModalProps> = ({ isOpen, onClose }) => {
     setError('');
 
     try {
-      await login(normalizedEmail, password);
-      onClose();
-      setEmail('');
+      const challenge = await login(normalizedEmail, password);
       setPassword('');
+
+      if (!challenge) {
+        onClose();
+        setEmail('');
+        return;
+      }
+
+      setChallengeToken(challenge.challengeToken);
+      setCode('');
+
+      if (challenge.twoFactorSetupRequired) {
+        setMode('twoFactorSetup');
+        setProvisioning(await AuthService.startTwoFactorLoginSetup(challenge.challengeToken));
+      } else {
+        setMode('twoFactor');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Login failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!code.trim()) {
+      setError(useRecoveryCode ? 'Please enter a recovery code' : 'Please enter the code from your authenticator app');
+      return;
+    }
+
+    setIsLoading(true);
+    setError('');
+
+    try {
+      await completeTwoFactorLogin(
+        challengeToken,
+        useRecoveryCode ? { recoveryCode: code.trim() } : { code: code.trim() }
+      );
+      resetForm();
+      onClose();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Login failed');
     } finally {
@@ -52,6 +102,62 @@ const LoginModal: React.FC<LoginModalProps> = ({ isOpen, onClose }) => {
     }
   };
 
+  const handleSetupSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!code.trim()) {
+      setError('Please enter the code from your authenticator app');
+      return;
+    }
+
+    setIsLoading(true);
+    setError('');
+
+    try {
+      setSetupResult(await completeTwoFactorSetup(challengeToken, code.trim()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to enable two-factor authentication');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleForgotSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const normalizedEmail = normalizeEmail(email);
+    if (normalizedEmail !== email) {
+      setEmail(normalizedEmail);
+    }
+
+    if (!normalizedEmail) {
+      setError('Please enter your email');
+      return;
+    }
+
+    setIsLoading(true);
+    setError('');
+
+    try {
+      setResetMessage(await AuthService.requestPasswordReset(normalizedEmail));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send password reset email');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const switchMode = (nextMode: 'login' | 'forgot') => {
+    setMode(nextMode);
+    setPassword('');
+    setError('');
+    setResetMessage('');
+    setChallengeToken('');
+    setCode('');
+    setUseRecoveryCode(false);
+    setProvisioning(null);
+  };
+
   const handleEmailChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
     
@@ -88,11 +194,24 @@ const LoginModal: React.FC<LoginModalProps> = ({ isOpen, onClose }) => {
     setError('');
   };
 
-  const handleClose = () => {
-    onClose();
+  const resetForm = () => {
     setEmail('');
     setPassword('');
     setError('');
+    setMode('login');
+    setResetMessage('');
+    setChallengeToken('');
+    setCode('');
+    setUseRecoveryCode(false);
+    setProvisioning(null);
+    setSetupResult(null);
+  };
+
+  const handleClose = () => {
+    // Setup has already finished on the server, so closing the codes still signs the user in
+    setupResult?.finish();
+    onClose();
+    resetForm();
   };
 
   if (!isOpen) return null;
@@ -108,60 +227,266 @@ const LoginModal: React.FC<LoginModalProps> = ({ isOpen, onClose }) => {
           <X size={24} />
         </button>
         
-        <h2 className="text-2xl font-bold text-center mb-6 text-gray-800">Login</h2>
-        
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Email
-            </label>
-            <input
-              type="email"
-              value={email}
-              onChange={handleEmailChange}
-              onBlur={handleEmailBlur}
-              onPaste={handleEmailPaste}
-              className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-indigo-500 focus:outline-none transition-colors"
-              placeholder="Enter your email"
-              required
-            />
-          </div>
-          
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Password
-            </label>
-            <input
-              type="password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-indigo-500 focus:outline-none transition-colors"
-              placeholder="Enter your password"
-              required
-            />
-          </div>
-          
-          {error && (
-            <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
-              <p className="text-red-600 text-sm">{error}</p>
+        <h2 className="text-2xl font-bold text-center mb-6 text-gray-800">
+          {mode === 'login' && 'Login'}
+          {mode === 'forgot' && 'Reset Password'}
+          {mode === 'twoFactor' && 'Two-Factor Authentication'}
+          {mode === 'twoFactorSetup' && 'Set Up Two-Factor Authentication'}
+        </h2>
+
+        {mode === 'twoFactor' && (
+          <form onSubmit={handleTwoFactorSubmit} className="space-y-4">
+            <div className="flex items-start space-x-3 p-3 bg-indigo-50 border border-indigo-200 rounded-lg">
+              <ShieldCheck className="text-indigo-600 flex-shrink-0" size={20} />
+              <p className="text-sm text-indigo-800">
+                {useRecoveryCode
+                  ? 'Enter one of the recovery codes you saved when you set up two-factor authentication.'
+                  : 'Enter the 6-digit code from your authenticator app.'}
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {useRecoveryCode ? 'Recovery Code' : 'Authentication Code'}
+              </label>
+              <input
+                type="text"
+                value={code}
+                onChange={(e) => {
+                  setCode(e.target.value);
+                  setError('');
+                }}
+                inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                autoComplete="one-time-code"
+                autoFocus
+                className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-indigo-500 focus:outline-none transition-colors font-mono tracking-widest"
+                placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+                required
+              />
             </div>
-          )}
-          
-          <button
-            type="submit"
-            disabled={isLoading}
-            className="w-full bg-indigo-500 text-white p-3 rounded-lg font-semibold hover:bg-indigo-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
-          >
-            {isLoading ? (
-              <div className="flex items-center justify-center">
-                <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
-                Logging in...
+
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                <p className="text-red-600 text-sm">{error}</p>
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="w-full bg-indigo-500 text-white p-3 rounded-lg font-semibold hover:bg-indigo-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+            >
+              {isLoading ? (
+                <div className="flex items-center justify-center">
+                  <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
+                  Verifying...
+                </div>
+              ) : (
+                'Verify'
+              )}
+            </button>
+
+            <div className="flex items-center justify-between">
+              <button
+                type="button"
+                onClick={() => {
+                  setUseRecoveryCode(!useRecoveryCode);
+                  setCode('');
+                  setError('');
+                }}
+                className="text-sm text-indigo-600 hover:text-indigo-700"
+              >
+                {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+              </button>
+              <button
+                type="button"
+                onClick={() => switchMode('login')}
+                className="text-sm text-indigo-600 hover:text-indigo-700"
+              >
+                Back to login
+              </button>
+            </div>
+          </form>
+        )}
+
+        {mode === 'twoFactorSetup' && setupResult && (
+          <div className="space-y-4">
+            <div className="flex items-start space-x-3 p-3 bg-green-50 border border-green-200 rounded-lg">
+              <ShieldCheck className="text-green-600 flex-shrink-0" size={20} />
+              <p className="text-green-700 text-sm">Two-factor authentication is now enabled for your account.</p>
+            </div>
+            <RecoveryCodesList codes={setupResult.recoveryCodes} />
+            <button
+              type="button"
+              onClick={handleClose}
+              className="w-full bg-indigo-500 text-white p-3 rounded-lg font-semibold hover:bg-indigo-600 transition-all duration-200"
+            >
+              I've Saved My Codes
+            </button>
+          </div>
+        )}
+
+        {mode === 'twoFactorSetup' && !setupResult && (
+          <form onSubmit={handleSetupSubmit} className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Your account requires two-factor authentication. Scan this QR code with an authenticator app such as Google Authenticator or Microsoft Authenticator, then enter the 6-digit code it shows.
+            </p>
+
+            {provisioning ? (
+              <div className="flex flex-col items-center space-y-2">
+                <img src={provisioning.qr_code} alt="Two-factor authentication QR code" className="w-48 h-48" />
+                <p className="text-xs text-gray-500">Can't scan it? Enter this key instead:</p>
+                <p className="font-mono text-sm text-gray-800 break-all text-center">{provisioning.secret}</p>
               </div>
             ) : (
-              'Login'
+              !error && (
+                <div className="flex justify-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-500"></div>
+                </div>
+              )
             )}
-          </button>
-        </form>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Authentication Code
+              </label>
+              <input
+                type="text"
+                value={code}
+                onChange={(e) => {
+                  setCode(e.target.value);
+                  setError('');
+                }}
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-indigo-500 focus:outline-none transition-colors font-mono tracking-widest"
+                placeholder="123456"
+                required
+              />
+            </div>
+
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                <p className="text-red-600 text-sm">{error}</p>
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={isLoading || !provisioning}
+              className="w-full bg-indigo-500 text-white p-3 rounded-lg font-semibold hover:bg-indigo-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+            >
+              {isLoading ? (
+                <div className="flex items-center justify-center">
+                  <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
+                  Verifying...
+                </div>
+              ) : (
+                'Enable and Continue'
+              )}
+            </button>
+
+            <div className="text-center">
+              <button
+                type="button"
+                onClick={() => switchMode('login')}
+                className="text-sm text-indigo-600 hover:text-indigo-700"
+              >
+                Back to login
+              </button>
+            </div>
+          </form>
+        )}
+
+        {mode === 'forgot' && (
+          <p className="text-sm text-gray-600 mb-4">
+            Enter the email you registered with and we'll send you a link to choose a new password.
+          </p>
+        )}
+        
+        {(mode === 'login' || mode === 'forgot') && (
+          <form onSubmit={mode === 'login' ? handleSubmit : handleForgotSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Email
+              </label>
+              <input
+                type="email"
+                value={email}
+                onChange={handleEmailChange}
+                onBlur={handleEmailBlur}
+                onPaste={handleEmailPaste}
+                className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-indigo-500 focus:outline-none transition-colors"
+                placeholder="Enter your email"
+                required
+              />
+            </div>
+            
+            {mode === 'login' && (
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="block text-sm font-medium text-gray-700">
+                    Password
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => switchMode('forgot')}
+                    className="text-sm text-indigo-600 hover:text-indigo-700"
+                  >
+                    Forgot password?
+                  </button>
+                </div>
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-indigo-500 focus:outline-none transition-colors"
+                  placeholder="Enter your password"
+                  required
+                />
+              </div>
+            )}
+            
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                <p className="text-red-600 text-sm">{error}</p>
+              </div>
+            )}
+
+            {resetMessage && (
+              <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
+                <p className="text-green-700 text-sm">{resetMessage}</p>
+              </div>
+            )}
+            
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="w-full bg-indigo-500 text-white p-3 rounded-lg font-semibold hover:bg-indigo-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+            >
+              {isLoading ? (
+                <div className="flex items-center justify-center">
+                  <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
+                  {mode === 'login' ? 'Logging in...' : 'Sending...'}
+                </div>
+              ) : (
+                mode === 'login' ? 'Login' : 'Send Reset Link'
+              )}
+            </button>
+          </form>
+        )}
+
+        {mode === 'forgot' && (
+          <div className="mt-4 text-center">
+            <button
+              type="button"
+              onClick={() => switchMode('login')}
+              className="text-sm text-indigo-600 hover:text-indigo-700"
+            >
+              Back to login
+            </button>
+          </div>
+        )}
         
         {/* <div className="mt-6 text-center text-sm text-gray-500">
           <p className="mb-2">Test Accounts:</p>
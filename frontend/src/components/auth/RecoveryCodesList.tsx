@@ -0,0 +1,45 @@
+// frontend/src/components/auth/RecoveryCodesList.tsx
+
+import React, { useState } from 'react';
+import { Copy, CheckCircle } from 'lucide-react';
+
+interface RecoveryCodesListProps {
+  codes: string[];
+}
+
+const RecoveryCodesList: React.FC<RecoveryCodesListProps> = ({ codes }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'));
+      setCopied(true);
+    } catch {
+      // Clipboard access can be blocked; the codes are still on screen to write down
+      setCopied(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600">
+        Save these recovery codes somewhere safe. Each one can be used once to sign in if you lose access to your authenticator app. They will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 p-4 bg-gray-50 border border-gray-200 rounded-lg font-mono text-sm text-gray-800">
+        {codes.map(code => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <button
+        type="button"
+        onClick={handleCopy}
+        className="flex items-center space-x-2 text-sm text-indigo-600 hover:text-indigo-700"
+      >
+        {copied ? <CheckCircle size={16} /> : <Copy size={16} />}
+        <span>{copied ? 'Copied' : 'Copy codes'}</span>
+      </button>
+    </div>
+  );
+};
+
+export default RecoveryCodesList;
@@ -3,7 +3,8 @@
 import React, { useState } from 'react';
 import { X } from 'lucide-react';
 import { useAuth } from '../../hooks/useAuth';
-import { isValidEmail, isValidPassword, getNameValidationError, getPhoneValidationError } from '../../utils/validation';
+import { isValidEmail, getPasswordValidationError, describePasswordPolicy, getNameValidationError, getPhoneValidationError } from '../../utils/validation';
+import { usePasswordPolicy } from '../../hooks/usePasswordPolicy';
 
 interface RegistrationModalProps {
   isOpen: boolean;
@@ -39,6 +40,7 @@ const RegistrationModal: React.FC<RegistrationModalProps> = ({ isOpen, onClose }
     confirmPassword: '',
   });
   const { register } = useAuth();
+  const passwordPolicy = usePasswordPolicy();
 
   // Helper function to normalize email (trim and lowercase)
   const normalizeEmail = (emailValue: string): string => {
@@ -68,8 +70,7 @@ const RegistrationModal: React.FC<RegistrationModalProps> = ({ isOpen, onClose }
         error = getPhoneValidationError(value) || '';
         break;
       case 'password':
-        if (!value) error = 'Password is required';
-        else if (!isValidPassword(value)) error = 'Password must be at least 8 characters long';
+        error = getPasswordValidationError(value, passwordPolicy) || '';
         break;
       case 'confirmPassword':
         if (!value) error = 'Please confirm your password';
@@ -309,7 +310,7 @@ const RegistrationModal: React.FC<RegistrationModalProps> = ({ isOpen, onClose }
                   ? 'border-red-300 focus:border-red-500' 
                   : 'border-gray-200 focus:border-indigo-500'
               }`}
-              placeholder="Minimum 8 characters"
+              placeholder={describePasswordPolicy(passwordPolicy)}
               required
             />
             {fieldErrors.password && (
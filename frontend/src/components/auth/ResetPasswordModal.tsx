@@ -0,0 +1,141 @@
+// frontend/src/components/auth/ResetPasswordModal.tsx
+
+import React, { useState } from 'react';
+import { X, CheckCircle } from 'lucide-react';
+import AuthService from '../../services/auth';
+import { getPasswordValidationError, describePasswordPolicy } from '../../utils/validation';
+import { usePasswordPolicy } from '../../hooks/usePasswordPolicy';
+
+interface ResetPasswordModalProps {
+  token: string;
+  onClose: () => void;
+  onLoginClick: () => void;
+}
+
+const ResetPasswordModal: React.FC<ResetPasswordModalProps> = ({ token, onClose, onLoginClick }) => {
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [successMessage, setSuccessMessage] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const passwordPolicy = usePasswordPolicy();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const passwordError = getPasswordValidationError(password, passwordPolicy);
+    if (passwordError) {
+      setError(passwordError);
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setIsLoading(true);
+    setError('');
+
+    try {
+      setSuccessMessage(await AuthService.resetPassword(token, password));
+      setPassword('');
+      setConfirmPassword('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reset password');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gradient-to-br from-white-100 to-indigo-200 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl p-8 w-full max-w-md relative shadow-2xl">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 transition-colors"
+          type="button"
+        >
+          <X size={24} />
+        </button>
+
+        <h2 className="text-2xl font-bold text-center mb-6 text-gray-800">Choose a New Password</h2>
+
+        {successMessage ? (
+          <div className="space-y-4">
+            <div className="flex items-start space-x-3 p-3 bg-green-50 border border-green-200 rounded-lg">
+              <CheckCircle className="text-green-600 flex-shrink-0" size={20} />
+              <p className="text-green-700 text-sm">{successMessage}</p>
+            </div>
+            <button
+              type="button"
+              onClick={onLoginClick}
+              className="w-full bg-indigo-500 text-white p-3 rounded-lg font-semibold hover:bg-indigo-600 transition-all duration-200"
+            >
+              Go to Login
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                New Password
+              </label>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => {
+                  setPassword(e.target.value);
+                  setError('');
+                }}
+                className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-indigo-500 focus:outline-none transition-colors"
+                placeholder={describePasswordPolicy(passwordPolicy)}
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Confirm New Password
+              </label>
+              <input
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => {
+                  setConfirmPassword(e.target.value);
+                  setError('');
+                }}
+                className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-indigo-500 focus:outline-none transition-colors"
+                placeholder="Re-enter your new password"
+                required
+              />
+            </div>
+
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                <p className="text-red-600 text-sm">{error}</p>
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="w-full bg-indigo-500 text-white p-3 rounded-lg font-semibold hover:bg-indigo-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+            >
+              {isLoading ? (
+                <div className="flex items-center justify-center">
+                  <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
+                  Saving...
+                </div>
+              ) : (
+                'Reset Password'
+              )}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ResetPasswordModal;
@@ -0,0 +1,260 @@
+// frontend/src/components/kiosk/KioskCheckIn.tsx
+
+import React, { useState, useEffect, useRef } from 'react';
+import { QrCode, CheckCircle, AlertTriangle, Clock, Loader2, Delete, Tablet } from 'lucide-react';
+import type { KioskSession, KioskCheckInResult } from '../../types';
+import KioskService from '../../services/kiosk';
+
+// How long a check-in result stays on screen before the kiosk is ready for the next student
+const RESULT_SECONDS = 5;
+// How often the class list and check-in counts are refreshed
+const REFRESH_SECONDS = 60;
+
+// The check-in screen shown on a branch's kiosk at /?kiosk. It signs in with the kiosk's device token,
+// not a user's session; the setup link (/?kiosk=<token>) stores the token and then drops it from the
+// address bar. QR codes are read by a scanner that types the code into the input, like a keyboard.
+const KioskCheckIn: React.FC = () => {
+  const [session, setSession] = useState<KioskSession | null>(null);
+  const [hasToken, setHasToken] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState('');
+
+  const [entry, setEntry] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const loadSession = async () => {
+    try {
+      setSession(await KioskService.getSession());
+      setLoadError('');
+    } catch (err) {
+      // A revoked kiosk has forgotten its token; otherwise keep showing the last class list
+      if (!KioskService.getDeviceToken()) {
+        setSession(null);
+        setHasToken(false);
+      }
+      setLoadError(err instanceof Error ? err.message : 'Failed to load kiosk');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    const setupToken = new URLSearchParams(window.location.search).get('kiosk');
+    if (setupToken) {
+      KioskService.setDeviceToken(setupToken);
+      window.history.replaceState({}, '', `${window.location.pathname}?kiosk`);
+    }
+
+    if (!KioskService.getDeviceToken()) {
+      setLoading(false);
+      return;
+    }
+
+    setHasToken(true);
+    loadSession();
+    const timer = setInterval(loadSession, REFRESH_SECONDS * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Clear the result after a few seconds and get ready for the next scan
+  useEffect(() => {
+    if (!result) return;
+    const timer = setTimeout(() => setResult(null), RESULT_SECONDS * 1000);
+    return () => clearTimeout(timer);
+  }, [result]);
+
+  const pinLength = session?.settings.pin_length ?? 6;
+
+  const handleSubmit = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    const value = entry.trim();
+    if (!value || submitting) return;
+
+    setSubmitting(true);
+    try {
+      const credential = new RegExp(`^\\d{${pinLength}}$`).test(value) ? { pin: value } : { code: value };
+      const checkIn: KioskCheckInResult = await KioskService.checkIn(credential);
+      setResult({ success: !checkIn.already_marked || ['present', 'late'].includes(checkIn.status), message: checkIn.message });
+      loadSession();
+    } catch (err) {
+      setResult({ success: false, message: err instanceof Error ? err.message : 'Failed to check in' });
+      if (!KioskService.getDeviceToken()) {
+        setSession(null);
+        setHasToken(false);
+        setLoadError(err instanceof Error ? err.message : 'Failed to check in');
+      }
+    } finally {
+      setEntry('');
+      setSubmitting(false);
+      inputRef.current?.focus();
+    }
+  };
+
+  const handleKey = (key: string) => {
+    if (key === 'clear') {
+      setEntry(entry.slice(0, -1));
+    } else if (entry.length < pinLength) {
+      setEntry(entry + key);
+    }
+    inputRef.current?.focus();
+  };
+
+  const formatTime = (dateString: string) => new Date(dateString).toLocaleTimeString('en-SG', {
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-indigo-50 flex items-center justify-center">
+        <div className="flex items-center space-x-3">
+          <Loader2 className="animate-spin text-indigo-600" size={32} />
+          <span className="text-xl text-gray-700">Starting kiosk...</span>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return (
+      <div className="min-h-screen bg-indigo-50 flex items-center justify-center px-6">
+        <div className="bg-white p-10 rounded-2xl shadow-lg max-w-lg text-center">
+          <Tablet className="mx-auto text-indigo-500 mb-4" size={48} />
+          <h1 className="text-2xl font-bold text-gray-800 mb-2">
+            {hasToken ? 'Kiosk unavailable' : 'This kiosk is not set up'}
+          </h1>
+          <p className="text-gray-600">
+            {hasToken
+              ? loadError
+              : 'Open the setup link for this kiosk, created under Check-in Kiosks in the staff dashboard.'}
+          </p>
+          {hasToken && (
+            <button
+              onClick={() => { setLoading(true); loadSession(); }}
+              className="mt-6 px-6 py-3 bg-indigo-500 text-white rounded-2xl hover:bg-indigo-600 transition-colors font-semibold"
+            >
+              Try again
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-indigo-50 px-6 py-10">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-4xl font-bold text-gray-800">Welcome to EduSpark {session.device.branch_name}</h1>
+          <p className="text-lg text-gray-600">Scan your QR code or enter your PIN to check in</p>
+        </div>
+        <p className="text-sm text-gray-500">{session.device.name}</p>
+      </div>
+
+      <div className="grid lg:grid-cols-2 gap-8">
+        {/* Check-in */}
+        <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-8">
+          {result ? (
+            <div className={`h-full flex flex-col items-center justify-center text-center py-12 ${result.success ? 'text-green-700' : 'text-red-700'}`}>
+              {result.success ? <CheckCircle size={72} /> : <AlertTriangle size={72} />}
+              <p className="mt-6 text-2xl font-semibold">{result.message}</p>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div className="flex items-center space-x-3">
+                <QrCode className="text-indigo-500" size={28} />
+                <input
+                  ref={inputRef}
+                  type="text"
+                  value={entry}
+                  onChange={(e) => setEntry(e.target.value)}
+                  autoFocus
+                  autoComplete="off"
+                  disabled={submitting}
+                  className="flex-1 p-4 text-2xl font-mono tracking-widest border-2 border-gray-200 rounded-lg focus:border-indigo-500 focus:outline-none"
+                  placeholder={`Scan or enter ${pinLength}-digit PIN`}
+                />
+              </div>
+
+              <div className="grid grid-cols-3 gap-3">
+                {['1', '2', '3', '4', '5', '6', '7', '8', '9'].map(digit => (
+                  <button
+                    key={digit}
+                    type="button"
+                    onClick={() => handleKey(digit)}
+                    disabled={submitting}
+                    className="py-5 text-2xl font-semibold bg-gray-100 hover:bg-gray-200 rounded-xl transition-colors"
+                  >
+                    {digit}
+                  </button>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => handleKey('clear')}
+                  disabled={submitting}
+                  className="py-5 flex items-center justify-center bg-gray-100 hover:bg-gray-200 rounded-xl transition-colors"
+                  title="Delete"
+                >
+                  <Delete size={24} />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleKey('0')}
+                  disabled={submitting}
+                  className="py-5 text-2xl font-semibold bg-gray-100 hover:bg-gray-200 rounded-xl transition-colors"
+                >
+                  0
+                </button>
+                <button
+                  type="submit"
+                  disabled={submitting || !entry.trim()}
+                  className="py-5 flex items-center justify-center text-xl font-semibold bg-indigo-500 text-white hover:bg-indigo-600 rounded-xl transition-colors disabled:opacity-50"
+                >
+                  {submitting ? <Loader2 className="animate-spin" size={24} /> : 'Check In'}
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+
+        {/* Today's classes */}
+        <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-8">
+          <h2 className="text-xl font-bold text-gray-800 mb-4">Today's Classes</h2>
+          {session.classes.length === 0 ? (
+            <p className="text-gray-500">No classes at this branch today.</p>
+          ) : (
+            <div className="divide-y divide-gray-100">
+              {session.classes.map(classItem => (
+                <div key={classItem.id} className="py-3 flex items-center justify-between">
+                  <div>
+                    <p className="font-semibold text-gray-800">
+                      {classItem.subject} {classItem.level && `(${classItem.level})`}
+                    </p>
+                    <p className="text-sm text-gray-600 flex items-center space-x-1">
+                      <Clock size={14} />
+                      <span>
+                        {formatTime(classItem.start_time)} – {formatTime(classItem.end_time)}
+                        {classItem.room_name && ` · ${classItem.room_name}`}
+                      </span>
+                    </p>
+                  </div>
+                  <span className="text-sm font-medium text-gray-700">
+                    {classItem.checked_in_count}/{classItem.enrolled_count} checked in
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+          <p className="mt-6 text-xs text-gray-400">
+            Check-in opens {session.settings.check_in_opens_minutes} minutes before class; arrivals more than {session.settings.late_grace_minutes} minutes after the start are marked late.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KioskCheckIn;
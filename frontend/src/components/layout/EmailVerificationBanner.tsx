@@ -0,0 +1,94 @@
+// frontend/src/components/layout/EmailVerificationBanner.tsx
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Mail, CheckCircle, AlertTriangle, X } from 'lucide-react';
+import { useAuth } from '../../hooks/useAuth';
+import AuthService from '../../services/auth';
+
+const EmailVerificationBanner: React.FC = () => {
+  const { user, updateUserProfile } = useAuth();
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null);
+  const [sending, setSending] = useState(false);
+  const [sendMessage, setSendMessage] = useState('');
+  // Verification links are single-use, so make sure a remounted effect does not spend it twice
+  const verificationStarted = useRef(false);
+
+  // Visitors arriving from the link in their verification email
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.search).get('verifyEmail');
+    if (!token || verificationStarted.current) return;
+
+    verificationStarted.current = true;
+    window.history.replaceState({}, '', window.location.pathname);
+
+    AuthService.verifyEmail(token)
+      .then(message => setResult({ success: true, message }))
+      .catch(err => setResult({ success: false, message: err instanceof Error ? err.message : 'Failed to verify email address' }));
+  }, []);
+
+  // Reflect a successful verification for the signed-in user without reloading their profile
+  useEffect(() => {
+    if (result?.success && user && !user.email_verified) {
+      updateUserProfile?.({ ...user, email_verified: true });
+    }
+  }, [result, user, updateUserProfile]);
+
+  const handleResend = async () => {
+    setSending(true);
+    try {
+      setSendMessage(await AuthService.resendVerificationEmail());
+    } catch (err) {
+      setSendMessage(err instanceof Error ? err.message : 'Failed to send verification email');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (result) {
+    return (
+      <div className={`border-b ${result.success ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'}`}>
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            {result.success
+              ? <CheckCircle className="text-green-600" size={18} />
+              : <AlertTriangle className="text-red-600" size={18} />}
+            <p className={`text-sm ${result.success ? 'text-green-800' : 'text-red-700'}`}>{result.message}</p>
+          </div>
+          <button onClick={() => setResult(null)} className="text-gray-400 hover:text-gray-600">
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user || user.email_verified !== false) {
+    return null;
+  }
+
+  return (
+    <div className="bg-amber-50 border-b border-amber-200">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <div className="flex items-center space-x-2">
+          <Mail className="text-amber-600" size={18} />
+          <p className="text-sm text-amber-800">
+            Please verify your email address <span className="font-medium">{user.email}</span> using the link we sent you.
+          </p>
+        </div>
+        {sendMessage ? (
+          <p className="text-sm text-amber-800">{sendMessage}</p>
+        ) : (
+          <button
+            onClick={handleResend}
+            disabled={sending}
+            className="text-sm font-medium text-amber-700 hover:text-amber-900 underline disabled:opacity-50"
+          >
+            {sending ? 'Sending...' : 'Resend verification email'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EmailVerificationBanner;
@@ -0,0 +1,122 @@
+// frontend/src/components/layout/GuardianInvitationBanner.tsx
+
+import React, { useState, useEffect } from 'react';
+import { Users, CheckCircle, AlertTriangle, X } from 'lucide-react';
+import { useAuth } from '../../hooks/useAuth';
+import GuardianService from '../../services/guardian';
+import type { GuardianInvitationPreview } from '../../types';
+
+// Kept for the session so the invitation survives signing in or registering first
+const STORAGE_KEY = 'guardianInvite';
+
+const GuardianInvitationBanner: React.FC = () => {
+  const { user } = useAuth();
+  const [token, setToken] = useState<string | null>(null);
+  const [invitation, setInvitation] = useState<GuardianInvitationPreview | null>(null);
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null);
+  const [responding, setResponding] = useState(false);
+
+  // Visitors arriving from the link in their invitation email
+  useEffect(() => {
+    const urlToken = new URLSearchParams(window.location.search).get('guardianInvite');
+    if (urlToken) {
+      sessionStorage.setItem(STORAGE_KEY, urlToken);
+      window.history.replaceState({}, '', window.location.pathname);
+    }
+
+    const savedToken = urlToken || sessionStorage.getItem(STORAGE_KEY);
+    if (!savedToken) return;
+
+    setToken(savedToken);
+    GuardianService.getInvitation(savedToken)
+      .then(preview => {
+        if (preview.status === 'pending') {
+          setInvitation(preview);
+        } else {
+          sessionStorage.removeItem(STORAGE_KEY);
+          setResult({ success: false, message: `This guardian invitation is no longer available (${preview.status}).` });
+        }
+      })
+      .catch(err => {
+        sessionStorage.removeItem(STORAGE_KEY);
+        setResult({ success: false, message: err instanceof Error ? err.message : 'Failed to load invitation' });
+      });
+  }, []);
+
+  const handleRespond = async (accept: boolean) => {
+    if (!token) return;
+
+    setResponding(true);
+    try {
+      const message = accept
+        ? await GuardianService.acceptInvitation(token)
+        : await GuardianService.declineInvitation(token);
+      sessionStorage.removeItem(STORAGE_KEY);
+      setInvitation(null);
+      setResult({ success: true, message });
+    } catch (err) {
+      setResult({ success: false, message: err instanceof Error ? err.message : 'Failed to answer invitation' });
+    } finally {
+      setResponding(false);
+    }
+  };
+
+  if (result) {
+    return (
+      <div className={`border-b ${result.success ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'}`}>
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            {result.success
+              ? <CheckCircle className="text-green-600" size={18} />
+              : <AlertTriangle className="text-red-600" size={18} />}
+            <p className={`text-sm ${result.success ? 'text-green-800' : 'text-red-700'}`}>{result.message}</p>
+          </div>
+          <button onClick={() => setResult(null)} className="text-gray-400 hover:text-gray-600">
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!invitation) {
+    return null;
+  }
+
+  const invitedBy = invitation.invited_by_name || 'A parent';
+
+  return (
+    <div className="bg-indigo-50 border-b border-indigo-200">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <div className="flex items-center space-x-2">
+          <Users className="text-indigo-600" size={18} />
+          <p className="text-sm text-indigo-800">
+            {invitedBy} has invited you to be a guardian of <span className="font-medium">{invitation.student_first_name}</span>.
+            {!user && <> Sign in or register with <span className="font-medium">{invitation.email}</span> to accept.</>}
+            {user && user.role !== 'parent' && ' Only parent accounts can accept guardian invitations.'}
+          </p>
+        </div>
+        <div className="flex items-center space-x-3">
+          {user?.role === 'parent' && (
+            <button
+              onClick={() => handleRespond(true)}
+              disabled={responding}
+              className="px-3 py-1 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+            >
+              Accept
+            </button>
+          )}
+          <button
+            onClick={() => handleRespond(false)}
+            disabled={responding}
+            className="text-sm font-medium text-indigo-700 hover:text-indigo-900 underline disabled:opacity-50"
+          >
+            Decline
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GuardianInvitationBanner;
@@ -5,6 +5,10 @@ import { GraduationCap, LogIn, User, Settings, UserPlus, ChevronDown } from 'luc
 import { useAuth } from '../../hooks/useAuth';
 import LoginModal from '../auth/LoginModal';
 import RegistrationModal from '../auth/RegistrationModal';
+import ResetPasswordModal from '../auth/ResetPasswordModal';
+import EmailVerificationBanner from './EmailVerificationBanner';
+import GuardianInvitationBanner from './GuardianInvitationBanner';
+import NotificationBell from './NotificationBell';
 
 interface NavigationProps {
   onProfileClick?: () => void;
@@ -15,6 +19,10 @@ const Navigation: React.FC<NavigationProps> = ({ onProfileClick }) => {
   const [showLoginModal, setShowLoginModal] = useState(false);
   const [showRegistrationModal, setShowRegistrationModal] = useState(false);
   const [showProfileDropdown, setShowProfileDropdown] = useState(false);
+  // Visitors arriving from the link in a password reset email
+  const [resetToken, setResetToken] = useState<string | null>(
+    () => new URLSearchParams(window.location.search).get('resetToken')
+  );
   const dropdownRef = useRef<HTMLDivElement>(null);
 
   // Handle click outside to close dropdown
@@ -41,6 +49,11 @@ const Navigation: React.FC<NavigationProps> = ({ onProfileClick }) => {
     onProfileClick?.();
   };
 
+  const closeResetPassword = () => {
+    setResetToken(null);
+    window.history.replaceState({}, '', window.location.pathname);
+  };
+
   return (
     <>
       <nav className="bg-white bg-opacity-95 backdrop-blur-lg shadow-lg sticky top-0 z-50">
@@ -56,6 +69,8 @@ const Navigation: React.FC<NavigationProps> = ({ onProfileClick }) => {
             
             {/* Actions */}
             <div className="flex items-center space-x-4">
+              {isAuthenticated && user && <NotificationBell />}
+
               {isAuthenticated && user ? (
                 <div className="relative" ref={dropdownRef}>
                   {/* User Profile Dropdown */}
@@ -69,7 +84,7 @@ const Navigation: React.FC<NavigationProps> = ({ onProfileClick }) => {
                         {user.first_name}
                       </div>
                       <div className="text-sm text-gray-500 capitalize">
-                        {user.role}
+                        {user.role_name || user.role}
                       </div>
                     </div>
                     <ChevronDown className={`h-4 w-4 text-gray-500 transition-transform ${
@@ -133,6 +148,9 @@ const Navigation: React.FC<NavigationProps> = ({ onProfileClick }) => {
           </div>
         </div>
       </nav>
+
+      <EmailVerificationBanner />
+      <GuardianInvitationBanner />
       
       {/* Modals */}
       <LoginModal 
@@ -143,6 +161,18 @@ const Navigation: React.FC<NavigationProps> = ({ onProfileClick }) => {
         isOpen={showRegistrationModal} 
         onClose={() => setShowRegistrationModal(false)} 
       />
+      {resetToken && (
+        <ResetPasswordModal
+          token={resetToken}
+          onClose={closeResetPassword}
+          onLoginClick={() => {
+            closeResetPassword();
+            if (!isAuthenticated) {
+              setShowLoginModal(true);
+            }
+          }}
+        />
+      )}
     </>
   );
 };
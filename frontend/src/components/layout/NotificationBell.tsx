@@ -0,0 +1,176 @@
+// frontend/src/components/layout/NotificationBell.tsx
+
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { Bell, CheckCheck, Loader2 } from 'lucide-react';
+import NotificationService from '../../services/notification';
+import type { AppNotification } from '../../types';
+
+// How often the unread badge is refreshed while the page is open
+const POLL_INTERVAL_MS = 60000;
+
+// In-app inbox: a bell with the unread count, opening the latest notifications
+const NotificationBell: React.FC = () => {
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [showInbox, setShowInbox] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const inboxRef = useRef<HTMLDivElement>(null);
+
+  const refreshUnreadCount = useCallback(async () => {
+    try {
+      setUnreadCount(await NotificationService.getUnreadCount());
+    } catch {
+      // The badge simply keeps its last value until the next poll
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshUnreadCount();
+    const interval = setInterval(refreshUnreadCount, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [refreshUnreadCount]);
+
+  // Handle click outside to close the inbox
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (inboxRef.current && !inboxRef.current.contains(event.target as Node)) {
+        setShowInbox(false);
+      }
+    };
+
+    if (showInbox) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [showInbox]);
+
+  const openInbox = async () => {
+    if (showInbox) {
+      setShowInbox(false);
+      return;
+    }
+
+    setShowInbox(true);
+    setLoading(true);
+    setError('');
+    try {
+      const inbox = await NotificationService.getNotifications();
+      setNotifications(inbox.notifications);
+      setUnreadCount(inbox.unread_count);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load notifications');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleMarkRead = async (notification: AppNotification) => {
+    if (notification.read_at) return;
+
+    try {
+      const updated = await NotificationService.markAsRead(notification.id);
+      setNotifications(notifications.map(item => item.id === updated.id ? updated : item));
+      setUnreadCount(count => Math.max(count - 1, 0));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update notification');
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await NotificationService.markAllAsRead();
+      const readAt = new Date().toISOString();
+      setNotifications(notifications.map(item => ({ ...item, read_at: item.read_at || readAt })));
+      setUnreadCount(0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update notifications');
+    }
+  };
+
+  return (
+    <div className="relative" ref={inboxRef}>
+      <button
+        onClick={openInbox}
+        className="relative p-2 rounded-full text-gray-600 hover:bg-gray-100 transition-colors"
+        title="Notifications"
+      >
+        <Bell className="h-5 w-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-500 text-white text-xs font-semibold flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {showInbox && (
+        <div className="absolute right-0 mt-2 w-80 sm:w-96 bg-white rounded-lg shadow-lg border border-gray-200 z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+            <span className="font-semibold text-gray-800">Notifications</span>
+            {unreadCount > 0 && (
+              <button
+                onClick={handleMarkAllRead}
+                className="flex items-center space-x-1 text-sm text-indigo-600 hover:text-indigo-800"
+              >
+                <CheckCheck size={14} />
+                <span>Mark all read</span>
+              </button>
+            )}
+          </div>
+
+          {error && (
+            <div className="m-3 p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-red-600 text-sm">{error}</p>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="animate-spin text-indigo-600" size={20} />
+            </div>
+          ) : notifications.length === 0 && !error ? (
+            <p className="px-4 py-8 text-center text-sm text-gray-500">You're all caught up.</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+              {notifications.map(notification => (
+                <li key={notification.id}>
+                  <button
+                    onClick={() => handleMarkRead(notification)}
+                    className={`w-full text-left px-4 py-3 hover:bg-gray-50 transition-colors ${
+                      notification.read_at ? '' : 'bg-indigo-50'
+                    }`}
+                  >
+                    <div className="flex items-start space-x-2">
+                      {!notification.read_at && (
+                        <span className="mt-1.5 h-2 w-2 rounded-full bg-indigo-500 flex-shrink-0" />
+                      )}
+                      <div className="min-w-0">
+                        <p className={`text-sm text-gray-800 ${notification.read_at ? '' : 'font-semibold'}`}>
+                          {notification.title}
+                        </p>
+                        <p className="text-sm text-gray-600 mt-0.5">{notification.body}</p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {new Date(notification.created_at).toLocaleString('en-SG', {
+                            day: '2-digit',
+                            month: 'short',
+                            hour: '2-digit',
+                            minute: '2-digit'
+                          })}
+                        </p>
+                      </div>
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationBell;
@@ -1,10 +1,11 @@
 // frontend/src/components/parent/ClassOperations.tsx
 
 import React, { useState, useEffect } from 'react';
-import { Calendar, MapPin, Users, Clock, Plus, X, Loader2, Filter, User, CheckCircle, AlertCircle } from 'lucide-react';
-import type { Class, Enrollment, Student, Branch } from '../../types';
+import { Calendar, MapPin, Users, Clock, Plus, X, Loader2, Filter, User, CheckCircle, AlertCircle, Repeat, Hourglass } from 'lucide-react';
+import type { Class, Enrollment, TermEnrollment, TermEnrollmentResult, WaitlistEntry, Student, Branch } from '../../types';
 import ClassService from '../../services/class';
 import EnrollmentService from '../../services/enrollment';
+import WaitlistService from '../../services/waitlist';
 import StudentService from '../../services/student';
 import BranchService from '../../services/branch';
 import DateInput from '../common/DateInput';
@@ -17,6 +18,8 @@ const ClassOperations: React.FC<ClassOperationsProps> = ({ refreshTrigger = 0 })
   const [classes, setClasses] = useState<Class[]>([]);
   const [allClasses, setAllClasses] = useState<Class[]>([]); // Store all classes for subject extraction
   const [enrollments, setEnrollments] = useState<Enrollment[]>([]);
+  const [termEnrollments, setTermEnrollments] = useState<TermEnrollment[]>([]);
+  const [waitlistEntries, setWaitlistEntries] = useState<WaitlistEntry[]>([]);
   const [students, setStudents] = useState<Student[]>([]);
   const [branches, setBranches] = useState<Branch[]>([]);
   const [loading, setLoading] = useState(true);
@@ -38,9 +41,16 @@ const ClassOperations: React.FC<ClassOperationsProps> = ({ refreshTrigger = 0 })
   const [selectedClass, setSelectedClass] = useState<Class | null>(null);
   const [selectedStudent, setSelectedStudent] = useState('');
   const [enrolling, setEnrolling] = useState(false);
+  const [enrollForTerm, setEnrollForTerm] = useState(false);
+  const [joiningWaitlist, setJoiningWaitlist] = useState(false); // Enroll modal is joining the waitlist of a full class
+  const [respondingWaitlistId, setRespondingWaitlistId] = useState<string | null>(null);
+  
+  // Sessions that could not be booked during a term enrollment
+  const [termReport, setTermReport] = useState<TermEnrollmentResult | null>(null);
   
   // Cancellation confirmation state
   const [showCancelConfirm, setShowCancelConfirm] = useState<Enrollment | null>(null);
+  const [showTermCancelConfirm, setShowTermCancelConfirm] = useState<TermEnrollment | null>(null);
   const [cancelling, setCancelling] = useState(false);
   
   // View toggle
@@ -88,15 +98,19 @@ const ClassOperations: React.FC<ClassOperationsProps> = ({ refreshTrigger = 0 })
   const loadInitialData = async () => {
     setLoading(true);
     try {
-      const [studentList, branchList, enrollmentList] = await Promise.all([
+      const [studentList, branchList, enrollmentList, termEnrollmentList, waitlist] = await Promise.all([
         StudentService.getMyStudents(),
         BranchService.getAllBranches(),
-        EnrollmentService.getMyStudentsEnrollments()
+        EnrollmentService.getMyStudentsEnrollments(),
+        EnrollmentService.getMyTermEnrollments(),
+        WaitlistService.getMyWaitlist()
       ]);
       
       setStudents(studentList);
       setBranches(branchList);
       setEnrollments(enrollmentList);
+      setTermEnrollments(termEnrollmentList);
+      setWaitlistEntries(waitlist);
       
       // Set default date range (today to 1 month from today - matching backend validation)
       const today = new Date();
@@ -157,11 +171,35 @@ const ClassOperations: React.FC<ClassOperationsProps> = ({ refreshTrigger = 0 })
   const handleEnrollClick = (classItem: Class) => {
     setSelectedClass(classItem);
     setSelectedStudent('');
+    setEnrollForTerm(false);
+    setJoiningWaitlist(getAvailableSpots(classItem) <= 0);
     setError('');
     setSuccessMessage('');
     setShowEnrollModal(true);
   };
 
+  // Refresh enrollments, term enrollments and classes to get updated counts
+  const refreshEnrollmentData = async () => {
+    const [enrollmentList, termEnrollmentList, waitlist, classList] = await Promise.all([
+      EnrollmentService.getMyStudentsEnrollments(),
+      EnrollmentService.getMyTermEnrollments(),
+      WaitlistService.getMyWaitlist(),
+      ClassService.getAllClasses({
+        branchId: selectedBranch || undefined,
+        startDate: startDate || undefined,
+        endDate: endDate || undefined
+      })
+    ]);
+    
+    setEnrollments(enrollmentList);
+    setTermEnrollments(termEnrollmentList);
+    setWaitlistEntries(waitlist);
+    setAllClasses(classList);
+    
+    // Apply filters again
+    await loadClasses();
+  };
+
   const handleEnrollSubmit = async () => {
     if (!selectedClass || !selectedStudent) return;
     
@@ -170,33 +208,42 @@ const ClassOperations: React.FC<ClassOperationsProps> = ({ refreshTrigger = 0 })
     setSuccessMessage('');
     
     try {
-      await EnrollmentService.createEnrollment({
-        studentId: selectedStudent,
-        classId: selectedClass.id
-      });
-      
-      // Get student name for success message
-      const student = students.find(s => s.id === selectedStudent);
-      const studentName = student ? `${student.first_name} ${student.last_name}` : 'Student';
-      
-      // Refresh both enrollments and classes to get updated counts
-      const [enrollmentList, classList] = await Promise.all([
-        EnrollmentService.getMyStudentsEnrollments(),
-        ClassService.getAllClasses({
-          branchId: selectedBranch || undefined,
-          startDate: startDate || undefined,
-          endDate: endDate || undefined
-        })
-      ]);
-      
-      setEnrollments(enrollmentList);
-      setAllClasses(classList);
-      
-      // Apply filters again
-      await loadClasses();
-      
-      // Show success message
-      setSuccessMessage(`${studentName} has been successfully enrolled in ${selectedClass.subject}!`);
+      if (joiningWaitlist) {
+        const result = await WaitlistService.joinWaitlist({
+          studentId: selectedStudent,
+          classId: selectedClass.id
+        });
+        
+        await refreshEnrollmentData();
+        setSuccessMessage(result.message);
+      } else if (enrollForTerm && selectedClass.series_id) {
+        const result = await EnrollmentService.createTermEnrollment({
+          studentId: selectedStudent,
+          seriesId: selectedClass.series_id
+        });
+        
+        await refreshEnrollmentData();
+        
+        // Show which sessions could not be booked, if any
+        if (result.skipped.length > 0) {
+          setTermReport(result);
+        }
+        setSuccessMessage(result.message);
+      } else {
+        await EnrollmentService.createEnrollment({
+          studentId: selectedStudent,
+          classId: selectedClass.id
+        });
+        
+        // Get student name for success message
+        const student = students.find(s => s.id === selectedStudent);
+        const studentName = student ? `${student.first_name} ${student.last_name}` : 'Student';
+        
+        await refreshEnrollmentData();
+        
+        // Show success message
+        setSuccessMessage(`${studentName} has been successfully enrolled in ${selectedClass.subject}!`);
+      }
       
       // Auto-clear success message after 5 seconds
       setTimeout(() => {
@@ -224,21 +271,7 @@ const ClassOperations: React.FC<ClassOperationsProps> = ({ refreshTrigger = 0 })
     try {
       await EnrollmentService.cancelEnrollment(showCancelConfirm.id);
       
-      // Refresh both enrollments and classes to get updated counts
-      const [enrollmentList, classList] = await Promise.all([
-        EnrollmentService.getMyStudentsEnrollments(),
-        ClassService.getAllClasses({
-          branchId: selectedBranch || undefined,
-          startDate: startDate || undefined,
-          endDate: endDate || undefined
-        })
-      ]);
-      
-      setEnrollments(enrollmentList);
-      setAllClasses(classList);
-      
-      // Apply filters again
-      await loadClasses();
+      await refreshEnrollmentData();
       
       setShowCancelConfirm(null);
     } catch (err) {
@@ -249,6 +282,51 @@ const ClassOperations: React.FC<ClassOperationsProps> = ({ refreshTrigger = 0 })
     }
   };
 
+  const confirmCancelTermEnrollment = async () => {
+    if (!showTermCancelConfirm) return;
+
+    setCancelling(true);
+    try {
+      await EnrollmentService.cancelTermEnrollment(showTermCancelConfirm.id);
+      
+      await refreshEnrollmentData();
+      
+      setSuccessMessage(`Remaining ${showTermCancelConfirm.subject} sessions cancelled for ${showTermCancelConfirm.student_name}`);
+      setTimeout(() => {
+        setSuccessMessage('');
+      }, 5000);
+      setShowTermCancelConfirm(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel term enrollment');
+      setShowTermCancelConfirm(null);
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  // Confirm, decline or leave a waitlist entry
+  const handleWaitlistAction = async (entry: WaitlistEntry, action: 'accept' | 'decline' | 'leave') => {
+    setRespondingWaitlistId(entry.id);
+    setError('');
+    try {
+      if (action === 'accept') {
+        await WaitlistService.acceptOffer(entry.id);
+        setSuccessMessage(`${entry.student_name} has been enrolled in ${entry.subject}!`);
+      } else if (action === 'decline') {
+        await WaitlistService.declineOffer(entry.id);
+      } else {
+        await WaitlistService.leaveWaitlist(entry.id);
+      }
+      
+      await refreshEnrollmentData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update waitlist');
+      await refreshEnrollmentData();
+    } finally {
+      setRespondingWaitlistId(null);
+    }
+  };
+
   // Handler for end date changes with validation
   const handleEndDateChange = (newEndDate: string) => {
     const maxEndDate = getMaxEndDate();
@@ -307,16 +385,27 @@ const ClassOperations: React.FC<ClassOperationsProps> = ({ refreshTrigger = 0 })
     return classItem.level === 'Mixed Levels' || student.grade === classItem.level;
   };
 
+  const isStudentWaitlisted = (classId: string, studentId: string) => {
+    return waitlistEntries.some(w => w.class_id === classId && w.student_id === studentId);
+  };
+
+  // Whether the signed-in guardian may enroll the child, cancel their classes and answer waitlist offers
+  const canEnrollStudent = (studentId: string) => {
+    return students.find(student => student.id === studentId)?.can_enroll !== false;
+  };
+
   // Get eligible students for a class
   const getEligibleStudents = (classItem: Class) => {
     return students.filter(student => 
+      canEnrollStudent(student.id) &&
       canStudentEnrollInClass(classItem, student) && 
-      !isStudentEnrolled(classItem.id, student.id)
+      !isStudentEnrolled(classItem.id, student.id) &&
+      !isStudentWaitlisted(classItem.id, student.id)
     );
   };
 
   const canEnrollInClass = (classItem: Class) => {
-    return getAvailableSpots(classItem) > 0 && getEligibleStudents(classItem).length > 0;
+    return getEligibleStudents(classItem).length > 0;
   };
 
   // Get unique subjects from all available classes (including filtered by grade)
@@ -381,6 +470,29 @@ const ClassOperations: React.FC<ClassOperationsProps> = ({ refreshTrigger = 0 })
     return filtered;
   };
 
+  // Active term enrollments for the selected child
+  const getFilteredTermEnrollments = () => {
+    return termEnrollments.filter(termEnrollment => 
+      termEnrollment.status === 'active' &&
+      (selectedChild === 'all' || termEnrollment.student_id === selectedChild)
+    );
+  };
+
+  // Upcoming sessions booked through a term enrollment
+  const getTermSessions = (termEnrollmentId: string) => {
+    return enrollments
+      .filter(e => 
+        e.term_enrollment_id === termEnrollmentId && 
+        e.status === 'enrolled' && 
+        new Date(e.start_time) > new Date()
+      )
+      .sort((a, b) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime());
+  };
+
+  const formatFrequency = (frequency: string) => {
+    return frequency === 'biweekly' ? 'Every 2 weeks' : 'Weekly';
+  };
+
   // Get unique students who have enrollments
   const getStudentsWithEnrollments = () => {
     const enrolledStudentNames = [...new Set(enrollments.map(e => e.student_name))];
@@ -408,6 +520,14 @@ const ClassOperations: React.FC<ClassOperationsProps> = ({ refreshTrigger = 0 })
   }
 
   const filteredEnrollments = getFilteredEnrollments();
+  const filteredTermEnrollments = getFilteredTermEnrollments();
+  const filteredWaitlistEntries = waitlistEntries.filter(entry => 
+    selectedChild === 'all' || entry.student_id === selectedChild
+  );
+  // Sessions of an active term are listed under their term group instead
+  const singleEnrollments = filteredEnrollments.filter(e => 
+    !e.term_enrollment_id || !termEnrollments.some(t => t.id === e.term_enrollment_id && t.status === 'active')
+  );
   const studentsWithEnrollments = getStudentsWithEnrollments();
   const eligibleStudentsForSelectedClass = selectedClass ? getEligibleStudents(selectedClass) : [];
   const maxEndDate = getMaxEndDate();
@@ -702,6 +822,12 @@ const ClassOperations: React.FC<ClassOperationsProps> = ({ refreshTrigger = 0 })
                           {classItem.level}
                         </span>
                       )}
+                      {classItem.series_id && classItem.series_frequency && (
+                        <span className="inline-flex items-center gap-1 ml-2 px-2 py-1 bg-indigo-100 text-indigo-700 text-xs font-medium rounded mb-2">
+                          <Repeat size={12} />
+                          {formatFrequency(classItem.series_frequency)}
+                        </span>
+                      )}
                     </div>
                     <div className={`px-2 py-1 rounded-full text-xs font-semibold ${
                       getAvailableSpots(classItem) > 0 ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
@@ -762,11 +888,11 @@ const ClassOperations: React.FC<ClassOperationsProps> = ({ refreshTrigger = 0 })
                         : 'bg-gray-100 text-gray-400 cursor-not-allowed'
                     }`}
                   >
-                    <Plus size={20} />
+                    {getAvailableSpots(classItem) <= 0 ? <Hourglass size={20} /> : <Plus size={20} />}
                     <span>
-                      {getAvailableSpots(classItem) === 0 ? 'Class Full' : 
-                       getEligibleStudents(classItem).length === 0 ? 'No Eligible Students' :
-                       'Enroll Student'}
+                      {getEligibleStudents(classItem).length === 0 
+                        ? (getAvailableSpots(classItem) <= 0 ? 'Class Full' : 'No Eligible Students')
+                        : getAvailableSpots(classItem) <= 0 ? 'Join Waitlist' : 'Enroll Student'}
                     </span>
                   </button>
                 </div>
@@ -794,7 +920,7 @@ const ClassOperations: React.FC<ClassOperationsProps> = ({ refreshTrigger = 0 })
             </div>
           </div>
 
-          {filteredEnrollments.length === 0 ? (
+          {singleEnrollments.length === 0 && filteredTermEnrollments.length === 0 && filteredWaitlistEntries.length === 0 ? (
             <div className="text-center py-12">
               <Users className="mx-auto text-gray-300 mb-4" size={64} />
               <h3 className="text-xl font-semibold text-gray-600 mb-2">No Enrollments</h3>
@@ -809,7 +935,132 @@ const ClassOperations: React.FC<ClassOperationsProps> = ({ refreshTrigger = 0 })
             </div>
           ) : (
             <div className="space-y-4">
-              {filteredEnrollments
+              {/* Waitlist entries, with held seats awaiting confirmation first */}
+              {[...filteredWaitlistEntries]
+                .sort((a, b) => (a.status === 'offered' ? 0 : 1) - (b.status === 'offered' ? 0 : 1))
+                .map((entry) => (
+                <div key={entry.id} className={`rounded-2xl shadow-lg border p-6 ${
+                  entry.status === 'offered' ? 'bg-green-50 border-green-200' : 'bg-white border-amber-100'
+                }`}>
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <div className="flex items-center space-x-3 mb-2">
+                        <h3 className="text-xl font-bold text-gray-800">{entry.subject}</h3>
+                        <span className={`inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-semibold ${
+                          entry.status === 'offered' ? 'bg-green-100 text-green-800' : 'bg-amber-100 text-amber-800'
+                        }`}>
+                          <Hourglass size={12} />
+                          {entry.status === 'offered' ? 'Seat available' : `Waitlist #${entry.position}`}
+                        </span>
+                      </div>
+                      <div className="text-sm text-gray-600 space-y-1">
+                        <p><span className="font-medium">Student:</span> {entry.student_name}</p>
+                        <p><span className="font-medium">Date:</span> {formatDateTime(entry.start_time)}</p>
+                        <p><span className="font-medium">Branch:</span> {entry.branch_name}{entry.classroom_name ? ` (${entry.classroom_name})` : ''}</p>
+                        {entry.status === 'offered' && entry.offer_expires_at && (
+                          <p className="text-green-800 font-medium">
+                            A seat is being held for {entry.student_name}. Please confirm by {formatDateTime(entry.offer_expires_at)}.
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                    
+                    {canEnrollStudent(entry.student_id) && (
+                      <div className="ml-4 flex flex-col space-y-2">
+                        {entry.status === 'offered' ? (
+                          <>
+                            <button
+                              onClick={() => handleWaitlistAction(entry, 'accept')}
+                              disabled={respondingWaitlistId === entry.id}
+                              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors"
+                            >
+                              Confirm Seat
+                            </button>
+                            <button
+                              onClick={() => handleWaitlistAction(entry, 'decline')}
+                              disabled={respondingWaitlistId === entry.id}
+                              className="px-4 py-2 text-red-600 hover:bg-red-50 rounded-lg disabled:opacity-50 transition-colors"
+                            >
+                              Decline
+                            </button>
+                          </>
+                        ) : (
+                          <button
+                            onClick={() => handleWaitlistAction(entry, 'leave')}
+                            disabled={respondingWaitlistId === entry.id}
+                            className="px-4 py-2 text-red-600 hover:bg-red-50 rounded-lg disabled:opacity-50 transition-colors"
+                          >
+                            Leave Waitlist
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ))}
+
+              {/* Term enrollments grouped by class series */}
+              {filteredTermEnrollments.map((termEnrollment) => {
+                const termSessions = getTermSessions(termEnrollment.id);
+                
+                return (
+                  <div key={termEnrollment.id} className="bg-white rounded-2xl shadow-lg border border-indigo-100 p-6">
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1">
+                        <div className="flex items-center space-x-3 mb-2">
+                          <h3 className="text-xl font-bold text-gray-800">{termEnrollment.subject}</h3>
+                          <span className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-semibold bg-indigo-100 text-indigo-800">
+                            <Repeat size={12} />
+                            Term · {formatFrequency(termEnrollment.frequency)}
+                          </span>
+                        </div>
+                        
+                        <div className="grid md:grid-cols-2 gap-4 text-sm text-gray-600">
+                          <div>
+                            <p><span className="font-medium">Student:</span> {termEnrollment.student_name}</p>
+                            <p>
+                              <span className="font-medium">Term:</span> {new Date(`${termEnrollment.term_start}T00:00:00`).toLocaleDateString('en-SG')} – {new Date(`${termEnrollment.term_end}T00:00:00`).toLocaleDateString('en-SG')}
+                            </p>
+                            {termEnrollment.tutor_first_name ? (
+                              <p><span className="font-medium">Tutor:</span> {termEnrollment.tutor_first_name} {termEnrollment.tutor_last_name}</p>
+                            ) : (
+                              <p><span className="font-medium">Tutor:</span> To be assigned</p>
+                            )}
+                          </div>
+                          <div>
+                            <p><span className="font-medium">Branch:</span> {termEnrollment.branch_name}</p>
+                            <p><span className="font-medium">Remaining sessions:</span> {termEnrollment.remaining_sessions}</p>
+                            {termEnrollment.next_session_time && (
+                              <p><span className="font-medium">Next session:</span> {formatDateTime(termEnrollment.next_session_time)}</p>
+                            )}
+                          </div>
+                        </div>
+                        
+                        {termSessions.length > 0 && (
+                          <div className="mt-4 flex flex-wrap gap-2">
+                            {termSessions.map(session => (
+                              <span key={session.id} className="px-2 py-1 bg-gray-100 text-gray-700 text-xs rounded">
+                                {formatDateTime(session.start_time)}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                      
+                      {termEnrollment.remaining_sessions > 0 && canEnrollStudent(termEnrollment.student_id) && (
+                        <button
+                          onClick={() => setShowTermCancelConfirm(termEnrollment)}
+                          className="ml-4 px-4 py-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors whitespace-nowrap"
+                        >
+                          Cancel Remaining
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+
+              {singleEnrollments
                 .sort((a, b) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime())
                 .map((enrollment) => (
                 <div key={enrollment.id} className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6">
@@ -886,7 +1137,7 @@ const ClassOperations: React.FC<ClassOperationsProps> = ({ refreshTrigger = 0 })
                       </div>
                     </div>
                     
-                    {enrollment.status === 'enrolled' && new Date(enrollment.start_time) > new Date() && (
+                    {enrollment.status === 'enrolled' && new Date(enrollment.start_time) > new Date() && canEnrollStudent(enrollment.student_id) && (
                       <button
                         onClick={() => handleCancelEnrollment(enrollment)}
                         className="ml-4 px-4 py-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
@@ -913,7 +1164,15 @@ const ClassOperations: React.FC<ClassOperationsProps> = ({ refreshTrigger = 0 })
               <X size={24} />
             </button>
             
-            <h2 className="text-2xl font-bold text-gray-800 mb-6">Enroll Student</h2>
+            <h2 className="text-2xl font-bold text-gray-800 mb-6">{joiningWaitlist ? 'Join Waitlist' : 'Enroll Student'}</h2>
+            
+            {joiningWaitlist && (
+              <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+                <p className="text-sm text-amber-800">
+                  This class is full. When a seat opens up, it is held for the next student in line and you will need to confirm it before the hold expires.
+                </p>
+              </div>
+            )}
             
             <div className="mb-6">
               <h3 className="text-lg font-semibold text-gray-800 mb-2">{selectedClass.subject}</h3>
@@ -968,6 +1227,37 @@ const ClassOperations: React.FC<ClassOperationsProps> = ({ refreshTrigger = 0 })
               )}
             </div>
             
+            {/* Term enrollment option for recurring classes */}
+            {selectedClass.series_id && !joiningWaitlist && (
+              <div className="mb-6 space-y-2">
+                <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="enroll-scope"
+                    checked={!enrollForTerm}
+                    onChange={() => setEnrollForTerm(false)}
+                    className="w-4 h-4 text-indigo-600 border-gray-300 focus:ring-indigo-500"
+                  />
+                  This session only
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="enroll-scope"
+                    checked={enrollForTerm}
+                    onChange={() => setEnrollForTerm(true)}
+                    className="w-4 h-4 text-indigo-600 border-gray-300 focus:ring-indigo-500"
+                  />
+                  Whole term ({formatFrequency(selectedClass.series_frequency || 'weekly')}, all remaining sessions)
+                </label>
+                {enrollForTerm && (
+                  <p className="text-xs text-gray-500">
+                    Every upcoming session is booked where a seat is available. You will see any sessions that could not be booked.
+                  </p>
+                )}
+              </div>
+            )}
+            
             <div className="flex space-x-3">
               <button
                 onClick={() => setShowEnrollModal(false)}
@@ -980,7 +1270,9 @@ const ClassOperations: React.FC<ClassOperationsProps> = ({ refreshTrigger = 0 })
                 disabled={!selectedStudent || enrolling}
                 className="flex-1 px-4 py-2 bg-indigo-500 text-white rounded-lg hover:bg-indigo-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
               >
-                {enrolling ? 'Enrolling...' : 'Enroll'}
+                {enrolling 
+                  ? (joiningWaitlist ? 'Joining...' : 'Enrolling...') 
+                  : joiningWaitlist ? 'Join Waitlist' : enrollForTerm ? 'Enroll for Term' : 'Enroll'}
               </button>
             </div>
           </div>
@@ -1034,6 +1326,91 @@ const ClassOperations: React.FC<ClassOperationsProps> = ({ refreshTrigger = 0 })
         </div>
       )}
       
+      {/* Term Cancel Confirmation Modal */}
+      {showTermCancelConfirm && (
+        <div className="fixed inset-0 bg-gradient-to-br from-white-100 to-indigo-200 backdrop-blur-sm flex items-center justify-center z-50">
+          <div className="bg-white rounded-2xl p-8 w-full max-w-md relative shadow-2xl">
+            <h3 className="text-xl font-bold text-gray-800 mb-4 text-center">Cancel Remaining Sessions</h3>
+            
+            <div className="mb-6 text-center">              
+              <p className="text-gray-700 mb-2">
+                Cancel all {showTermCancelConfirm.remaining_sessions} remaining sessions of this term?
+              </p>
+              
+              <div className="bg-gray-50 p-4 rounded-lg text-left">
+                <p className="font-semibold text-gray-800">{showTermCancelConfirm.subject}</p>
+                <p className="text-sm text-gray-600">Student: {showTermCancelConfirm.student_name}</p>
+                <p className="text-sm text-gray-600">Branch: {showTermCancelConfirm.branch_name}</p>
+                {showTermCancelConfirm.next_session_time && (
+                  <p className="text-sm text-gray-600">Next session: {formatDateTime(showTermCancelConfirm.next_session_time)}</p>
+                )}
+              </div>
+              <p className="text-xs text-gray-500 mt-3">Past sessions and attendance records are kept.</p>
+            </div>
+            
+            <div className="flex space-x-3">
+              <button
+                onClick={() => setShowTermCancelConfirm(null)}
+                disabled={cancelling}
+                className="flex-1 px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+              >
+                Keep Enrollment
+              </button>
+              <button
+                onClick={confirmCancelTermEnrollment}
+                disabled={cancelling}
+                className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {cancelling ? (
+                  <div className="flex items-center justify-center">
+                    <Loader2 className="animate-spin mr-2" size={16} />
+                    Cancelling...
+                  </div>
+                ) : (
+                  'Cancel Remaining'
+                )}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Term Enrollment Report Modal */}
+      {termReport && (
+        <div className="fixed inset-0 bg-gradient-to-br from-white-100 to-indigo-200 backdrop-blur-sm flex items-center justify-center z-50">
+          <div className="bg-white rounded-2xl p-8 w-full max-w-md relative shadow-2xl max-h-[90vh] overflow-y-auto">
+            <button
+              onClick={() => setTermReport(null)}
+              className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X size={24} />
+            </button>
+            
+            <h3 className="text-xl font-bold text-gray-800 mb-4">Term Enrollment Summary</h3>
+            <p className="text-sm text-gray-700 mb-4">
+              {termReport.booked.length} {termReport.booked.length === 1 ? 'session was' : 'sessions were'} booked. 
+              The following {termReport.skipped.length === 1 ? 'session' : 'sessions'} could not be booked:
+            </p>
+            
+            <div className="space-y-2 mb-6">
+              {termReport.skipped.map(session => (
+                <div key={session.class_id} className="p-3 bg-amber-50 border border-amber-200 rounded-lg">
+                  <p className="text-sm font-medium text-amber-900">{formatDateTime(session.start_time)}</p>
+                  <p className="text-xs text-amber-800">{session.reason}</p>
+                </div>
+              ))}
+            </div>
+            
+            <button
+              onClick={() => setTermReport(null)}
+              className="w-full px-4 py-2 bg-indigo-500 text-white rounded-lg hover:bg-indigo-600 transition-colors"
+            >
+              OK
+            </button>
+          </div>
+        </div>
+      )}
+      
       {/* Success Toast Notification */}
       {successMessage && (
         <div className="fixed top-20 right-6 z-50 max-w-md">
@@ -0,0 +1,102 @@
+// frontend/src/components/parent/MockCheckout.tsx
+
+import React, { useState, useEffect } from 'react';
+import { Loader2 } from 'lucide-react';
+import type { MockCheckoutSession } from '../../types';
+import PaymentService from '../../services/payment';
+
+interface MockCheckoutProps {
+  sessionId: string;
+  onDone: (result: 'success' | 'cancelled' | null) => void;
+}
+
+// Checkout page of the local mock payment provider (test mode). It runs inside the app so only the signed-in
+// parent who started the checkout can complete it.
+const MockCheckout: React.FC<MockCheckoutProps> = ({ sessionId, onDone }) => {
+  const [session, setSession] = useState<MockCheckoutSession | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    PaymentService.getMockCheckout(sessionId)
+      .then(setSession)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load checkout'))
+      .finally(() => setLoading(false));
+  }, [sessionId]);
+
+  const handleAction = async (action: 'pay' | 'cancel') => {
+    setSubmitting(true);
+    setError('');
+    try {
+      onDone(await PaymentService.completeMockCheckout(sessionId, action));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to complete checkout');
+      setSubmitting(false);
+    }
+  };
+
+  const amount = session
+    ? new Intl.NumberFormat('en-SG', { style: 'currency', currency: session.currency }).format(parseFloat(session.amount))
+    : '';
+
+  return (
+    <div className="fixed inset-0 bg-gradient-to-br from-white-100 to-indigo-200 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl p-8 w-full max-w-sm relative shadow-2xl">
+        <p className="text-xs text-gray-500 uppercase">Mock payment provider (test mode)</p>
+
+        {loading ? (
+          <div className="flex items-center space-x-2 text-gray-500 py-8 justify-center">
+            <Loader2 className="animate-spin" size={20} />
+            <span>Loading checkout...</span>
+          </div>
+        ) : session ? (
+          <>
+            <h2 className="text-2xl font-bold text-gray-800 mt-2">{session.student_name}</h2>
+            <p className="text-gray-700">Tuition fees for {session.month}</p>
+            <p className="text-3xl font-bold text-indigo-700 my-4">{amount}</p>
+
+            {session.status === 'pending' ? (
+              <div className="space-y-2">
+                <button
+                  onClick={() => handleAction('pay')}
+                  disabled={submitting}
+                  className="w-full flex items-center justify-center space-x-2 px-4 py-3 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+                >
+                  {submitting && <Loader2 className="animate-spin" size={16} />}
+                  <span>Pay {amount}</span>
+                </button>
+                <button
+                  onClick={() => handleAction('cancel')}
+                  disabled={submitting}
+                  className="w-full px-4 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            ) : (
+              <p className="text-red-700">This checkout session is {session.status}.</p>
+            )}
+          </>
+        ) : null}
+
+        {error && (
+          <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-600 text-sm">{error}</p>
+          </div>
+        )}
+
+        {(!session || session.status !== 'pending') && !loading && (
+          <button
+            onClick={() => onDone(null)}
+            className="mt-4 w-full px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            Back to payments
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MockCheckout;
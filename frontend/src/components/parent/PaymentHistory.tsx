@@ -1,25 +1,67 @@
 // frontend/src/components/parent/PaymentHistory.tsx
 
 import React, { useState, useEffect } from 'react';
-import { CreditCard, Calendar, DollarSign, CheckCircle, XCircle, Loader2, AlertCircle } from 'lucide-react';
-import type { Payment } from '../../types';
+import { CreditCard, Calendar, DollarSign, CheckCircle, XCircle, Loader2, AlertCircle, Download, FileText, ChevronLeft, ChevronRight } from 'lucide-react';
+import type { Payment, PaymentHistoryPage } from '../../types';
 import PaymentService from '../../services/payment';
+import MockCheckout from './MockCheckout';
 
 const PaymentHistory: React.FC = () => {
   const [payments, setPayments] = useState<Payment[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
+  const [histories, setHistories] = useState<Record<string, PaymentHistoryPage>>({});
+  const [historyLoading, setHistoryLoading] = useState<string | null>(null);
+  const [statementYears, setStatementYears] = useState<Record<string, number>>({});
+  const [downloading, setDownloading] = useState<string | null>(null);
+  const [payingId, setPayingId] = useState<string | null>(null);
+  const [checkoutMessage, setCheckoutMessage] = useState('');
+  const [mockCheckoutId, setMockCheckoutId] = useState<string | null>(null);
 
   useEffect(() => {
     loadPayments();
+
+    // Show the outcome of an online checkout once, then drop it from the address bar
+    const params = new URLSearchParams(window.location.search);
+    const checkoutResult = params.get('checkout');
+    if (checkoutResult) {
+      showCheckoutResult(checkoutResult === 'success' ? 'success' : 'cancelled');
+      window.history.replaceState({}, '', window.location.pathname);
+    }
+
+    // Checkouts with the mock provider are completed on its test-mode page in the app
+    const mockCheckout = params.get('mock_checkout');
+    if (mockCheckout) {
+      setMockCheckoutId(mockCheckout);
+      window.history.replaceState({}, '', window.location.pathname);
+    }
   }, []);
 
+  const showCheckoutResult = (result: 'success' | 'cancelled') => {
+    setCheckoutMessage(result === 'success'
+      ? 'Thank you! Your online payment was received.'
+      : 'Online payment was cancelled. You have not been charged.');
+  };
+
+  const handleMockCheckoutDone = (result: 'success' | 'cancelled' | null) => {
+    setMockCheckoutId(null);
+    if (result) {
+      showCheckoutResult(result);
+      loadPayments();
+    }
+  };
+
   const loadPayments = async () => {
     setLoading(true);
     setError('');
     try {
       const paymentList = await PaymentService.getMyStudentsPayments();
       setPayments(paymentList);
+
+      // Load the first page of each child's statement
+      const studentIds = [...new Set(paymentList.map(payment => payment.student_id))];
+      const pages = await Promise.all(studentIds.map(studentId => PaymentService.getStudentPaymentHistory(studentId)));
+      setHistories(Object.fromEntries(studentIds.map((studentId, index) => [studentId, pages[index]])));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load payments');
     } finally {
@@ -27,6 +69,68 @@ const PaymentHistory: React.FC = () => {
     }
   };
 
+  const loadHistoryPage = async (studentId: string, page: number) => {
+    setHistoryLoading(studentId);
+    setError('');
+    try {
+      const history = await PaymentService.getStudentPaymentHistory(studentId, page);
+      setHistories(prev => ({ ...prev, [studentId]: history }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load payment history');
+    } finally {
+      setHistoryLoading(null);
+    }
+  };
+
+  const handlePayNow = async (payment: Payment) => {
+    setPayingId(payment.id);
+    setError('');
+    try {
+      const session = await PaymentService.createCheckoutSession(payment.id);
+      window.location.href = session.checkout_url;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start online payment');
+      setPayingId(null);
+    }
+  };
+
+  const saveFile = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDownloadReceipt = async (payment: Payment, studentName: string) => {
+    setDownloading(payment.id);
+    setError('');
+    try {
+      const pdf = await PaymentService.downloadReceipt(payment.id);
+      saveFile(pdf, `Receipt ${studentName} ${payment.month}.pdf`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to download receipt');
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const handleDownloadStatement = async (studentId: string, studentName: string, year: number) => {
+    setDownloading(`statement-${studentId}`);
+    setError('');
+    try {
+      const pdf = await PaymentService.downloadStatement(studentId, year);
+      saveFile(pdf, `Statement ${studentName} ${year}.pdf`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to download statement');
+    } finally {
+      setDownloading(null);
+    }
+  };
+
   // Helper function to safely convert amount to number
   const toNumber = (amount: number | string): number => {
     return typeof amount === 'string' ? parseFloat(amount) || 0 : amount || 0;
@@ -75,6 +179,8 @@ const PaymentHistory: React.FC = () => {
         return 'Cash';
       case 'online':
         return 'Online';
+      case 'cheque':
+        return 'Cheque';
       default:
         return 'Card';
     }
@@ -82,13 +188,18 @@ const PaymentHistory: React.FC = () => {
 
   // Group payments by student
   const paymentsByStudent = payments.reduce((acc, payment) => {
-    const studentName = payment.student_name;
-    if (!acc[studentName]) {
-      acc[studentName] = [];
+    if (!acc[payment.student_id]) {
+      acc[payment.student_id] = { studentName: payment.student_name, payments: [] };
     }
-    acc[studentName].push(payment);
+    acc[payment.student_id].payments.push(payment);
     return acc;
-  }, {} as Record<string, Payment[]>);
+  }, {} as Record<string, { studentName: string; payments: Payment[] }>);
+
+  // Years that have charges, newest first, for the yearly statement picker
+  const getStatementYears = (studentPayments: Payment[]) => {
+    const years = [...new Set(studentPayments.map(payment => parseInt(payment.month.slice(0, 4))))];
+    return years.sort((a, b) => b - a);
+  };
 
   // Calculate summary stats with proper type handling
   const totalPaid = payments.filter(p => p.paid).reduce((sum, p) => sum + toNumber(p.amount), 0);
@@ -120,6 +231,18 @@ const PaymentHistory: React.FC = () => {
         </div>
       </div>
 
+      {mockCheckoutId && <MockCheckout sessionId={mockCheckoutId} onDone={handleMockCheckoutDone} />}
+
+      {/* Checkout Result */}
+      {checkoutMessage && (
+        <div className="mb-6 p-4 bg-indigo-50 border border-indigo-200 rounded-lg flex items-center justify-between">
+          <p className="text-indigo-700">{checkoutMessage}</p>
+          <button onClick={() => setCheckoutMessage('')} className="text-sm text-indigo-700 hover:text-indigo-800 underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
       {/* Error Message */}
       {error && (
         <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
@@ -174,20 +297,43 @@ const PaymentHistory: React.FC = () => {
         </div>
       ) : (
         <div className="space-y-8">
-          {Object.entries(paymentsByStudent).map(([studentName, studentPayments]) => (
-            <div key={studentName} className="bg-white rounded-2xl shadow-lg border border-gray-100 overflow-hidden">
-              <div className="bg-indigo-500 p-4">
+          {Object.entries(paymentsByStudent).map(([studentId, { studentName, payments: allStudentPayments }]) => {
+            const history = histories[studentId];
+            const studentPayments = history ? history.payments : [];
+            const years = getStatementYears(allStudentPayments);
+            const selectedYear = statementYears[studentId] || years[0] || new Date().getFullYear();
+
+            return (
+            <div key={studentId} className="bg-white rounded-2xl shadow-lg border border-gray-100 overflow-hidden">
+              <div className="bg-indigo-500 p-4 flex flex-wrap items-center justify-between gap-3">
                 <h3 className="text-xl font-bold text-white flex items-center space-x-2">
                   <DollarSign size={20} />
                   <span>{studentName}</span>
                 </h3>
+                <div className="flex items-center space-x-2">
+                  <select
+                    value={selectedYear}
+                    onChange={(e) => setStatementYears(prev => ({ ...prev, [studentId]: parseInt(e.target.value) }))}
+                    className="px-2 py-1 rounded-lg text-sm text-gray-800 bg-white border border-indigo-200"
+                  >
+                    {(years.length > 0 ? years : [selectedYear]).map(year => (
+                      <option key={year} value={year}>{year}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => handleDownloadStatement(studentId, studentName, selectedYear)}
+                    disabled={downloading === `statement-${studentId}`}
+                    className="flex items-center space-x-1 px-3 py-1 bg-white text-indigo-600 rounded-lg text-sm font-medium hover:bg-indigo-50 disabled:opacity-50"
+                  >
+                    {downloading === `statement-${studentId}` ? <Loader2 className="animate-spin" size={16} /> : <FileText size={16} />}
+                    <span>Statement</span>
+                  </button>
+                </div>
               </div>
 
               <div className="p-6">
-                <div className="space-y-4">
-                  {studentPayments
-                    .sort((a, b) => new Date(b.month).getTime() - new Date(a.month).getTime())
-                    .map((payment) => (
+                <div className={`space-y-4 ${historyLoading === studentId ? 'opacity-50' : ''}`}>
+                  {studentPayments.map((payment) => (
                     <div key={payment.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors">
                       <div className="flex items-center space-x-4">
                         <div className="text-sm font-medium px-2 py-1 bg-blue-100 text-blue-800 rounded">
@@ -203,6 +349,9 @@ const PaymentHistory: React.FC = () => {
                               : 'Payment pending'
                             }
                           </p>
+                          {payment.invoice_number && (
+                            <p className="text-xs text-gray-500 mt-1">Invoice {payment.invoice_number}</p>
+                          )}
                           {payment.notes && (
                             <p className="text-xs text-gray-500 mt-1">{payment.notes}</p>
                           )}
@@ -223,6 +372,26 @@ const PaymentHistory: React.FC = () => {
                         <div className={`px-3 py-1 rounded-full text-xs font-semibold border ${getPaymentStatusColor(payment.paid)}`}>
                           {payment.paid ? 'Paid' : 'Pending'}
                         </div>
+                        {!payment.paid && (
+                          <button
+                            onClick={() => handlePayNow(payment)}
+                            disabled={payingId !== null}
+                            className="flex items-center space-x-1 px-3 py-1.5 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 disabled:opacity-50"
+                          >
+                            {payingId === payment.id ? <Loader2 className="animate-spin" size={16} /> : <CreditCard size={16} />}
+                            <span>Pay now</span>
+                          </button>
+                        )}
+                        {payment.paid && (
+                          <button
+                            onClick={() => handleDownloadReceipt(payment, studentName)}
+                            disabled={downloading === payment.id}
+                            title="Download receipt"
+                            className="p-2 text-indigo-600 hover:bg-indigo-100 rounded-lg disabled:opacity-50"
+                          >
+                            {downloading === payment.id ? <Loader2 className="animate-spin" size={18} /> : <Download size={18} />}
+                          </button>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -234,9 +403,34 @@ const PaymentHistory: React.FC = () => {
                     <p className="text-gray-500">No payment records for this student</p>
                   </div>
                 )}
+
+                {history && history.pagination.total_pages > 1 && (
+                  <div className="flex items-center justify-between mt-6 pt-4 border-t border-gray-100">
+                    <button
+                      onClick={() => loadHistoryPage(studentId, history.pagination.page - 1)}
+                      disabled={history.pagination.page <= 1 || historyLoading === studentId}
+                      className="flex items-center space-x-1 px-3 py-1 text-sm text-indigo-600 hover:bg-indigo-50 rounded-lg disabled:opacity-40"
+                    >
+                      <ChevronLeft size={16} />
+                      <span>Newer</span>
+                    </button>
+                    <span className="text-sm text-gray-500">
+                      Page {history.pagination.page} of {history.pagination.total_pages}
+                    </span>
+                    <button
+                      onClick={() => loadHistoryPage(studentId, history.pagination.page + 1)}
+                      disabled={history.pagination.page >= history.pagination.total_pages || historyLoading === studentId}
+                      className="flex items-center space-x-1 px-3 py-1 text-sm text-indigo-600 hover:bg-indigo-50 rounded-lg disabled:opacity-40"
+                    >
+                      <span>Older</span>
+                      <ChevronRight size={16} />
+                    </button>
+                  </div>
+                )}
               </div>
             </div>
-          ))}
+            );
+          })}
         </div>
       )}
     </div>
@@ -0,0 +1,148 @@
+// frontend/src/components/profile/NotificationSettings.tsx
+
+import React, { useState, useEffect } from 'react';
+import { Bell, Save, Loader2, CheckCircle } from 'lucide-react';
+import NotificationService from '../../services/notification';
+import type { NotificationPreferences, NotificationChannel, NotificationType } from '../../types';
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  in_app: 'In app',
+  email: 'Email',
+  sms: 'Text'
+};
+
+// Which notifications reach this account, and on which channels
+const NotificationSettings: React.FC = () => {
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [changed, setChanged] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    NotificationService.getPreferences()
+      .then(setPreferences)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load notification preferences'));
+  }, []);
+
+  const toggleChannel = (type: NotificationType, channel: NotificationChannel) => {
+    if (!preferences) return;
+
+    setPreferences({
+      ...preferences,
+      types: preferences.types.map(item => item.type === type
+        ? { ...item, channels: { ...item.channels, [channel]: !item.channels[channel] } }
+        : item)
+    });
+    setChanged(true);
+    setSuccess('');
+  };
+
+  const handleSave = async () => {
+    if (!preferences) return;
+
+    setSaving(true);
+    setError('');
+    try {
+      const message = await NotificationService.updatePreferences(
+        preferences.types.flatMap(item => preferences.channels.map(channel => ({
+          type: item.type,
+          channel,
+          enabled: item.channels[channel]
+        })))
+      );
+      setSuccess(message);
+      setChanged(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save notification preferences');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Accounts with nothing to be notified about don't get the section
+  if (preferences && preferences.types.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6 mb-8">
+      <h3 className="text-lg font-semibold text-gray-800 mb-4 flex items-center space-x-2">
+        <Bell size={20} />
+        <span>Notifications</span>
+      </h3>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-600 text-sm">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg flex items-center space-x-2">
+          <CheckCircle className="text-green-600" size={16} />
+          <p className="text-green-700 text-sm">{success}</p>
+        </div>
+      )}
+
+      {!preferences && !error && (
+        <div className="flex items-center space-x-2 text-gray-500">
+          <Loader2 className="animate-spin" size={16} />
+          <span className="text-sm">Loading...</span>
+        </div>
+      )}
+
+      {preferences && (
+        <div className="space-y-4">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-2 pr-4 font-medium">Notification</th>
+                  {preferences.channels.map(channel => (
+                    <th key={channel} className="py-2 px-3 font-medium text-center">{CHANNEL_LABELS[channel]}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {preferences.types.map(item => (
+                  <tr key={item.type}>
+                    <td className="py-3 pr-4 text-gray-800">{item.label}</td>
+                    {preferences.channels.map(channel => (
+                      <td key={channel} className="py-3 px-3 text-center">
+                        <input
+                          type="checkbox"
+                          checked={item.channels[channel]}
+                          onChange={() => toggleChannel(item.type, channel)}
+                          disabled={saving}
+                          className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {!preferences.sms_available && (
+            <p className="text-sm text-amber-700">
+              Add a phone number to your profile to receive text messages.
+            </p>
+          )}
+
+          <button
+            onClick={handleSave}
+            disabled={saving || !changed}
+            className="flex items-center space-x-2 bg-indigo-500 text-white px-4 py-2 rounded-lg font-semibold hover:bg-indigo-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+          >
+            {saving ? <Loader2 className="animate-spin" size={16} /> : <Save size={16} />}
+            <span>Save Preferences</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationSettings;
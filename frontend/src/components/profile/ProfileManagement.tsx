@@ -1,14 +1,18 @@
 // frontend/src/components/profile/ProfileManagement.tsx
 
 import React, { useState, useEffect } from 'react';
-import { User, Phone, Mail, Save, Loader2, CheckCircle, Trash2, AlertTriangle, X } from 'lucide-react';
+import { User, Phone, Mail, Save, Loader2, CheckCircle, Trash2, AlertTriangle, X, LogOut, KeyRound } from 'lucide-react';
 import { useAuth } from '../../hooks/useAuth';
 import AuthService from '../../services/auth';
-import { getNameValidationError, getPhoneValidationError } from '../../utils/validation';
+import { getNameValidationError, getPhoneValidationError, getPasswordValidationError, describePasswordPolicy } from '../../utils/validation';
+import { usePasswordPolicy } from '../../hooks/usePasswordPolicy';
+import TwoFactorSettings from './TwoFactorSettings';
+import RecentSignIns from './RecentSignIns';
+import NotificationSettings from './NotificationSettings';
 import type { UserProfileUpdateRequest } from '../../types';
 
 const ProfileManagement: React.FC = () => {
-  const { user, logout, updateUserProfile } = useAuth();
+  const { user, logout, logoutAllDevices, updateUserProfile } = useAuth();
   const [formData, setFormData] = useState({
     firstName: '',
     lastName: '',
@@ -25,6 +29,16 @@ const ProfileManagement: React.FC = () => {
     phone: '',
   });
   
+  // Change password states
+  const passwordPolicy = usePasswordPolicy();
+  const [passwordForm, setPasswordForm] = useState({ currentPassword: '', newPassword: '', confirmPassword: '' });
+  const [passwordError, setPasswordError] = useState('');
+  const [passwordSuccess, setPasswordSuccess] = useState('');
+  const [changingPassword, setChangingPassword] = useState(false);
+
+  const [confirmSignOutAll, setConfirmSignOutAll] = useState(false);
+  const [signingOutAll, setSigningOutAll] = useState(false);
+
   // Delete account states (only for parents)
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [deleteConfirmText, setDeleteConfirmText] = useState('');
@@ -143,6 +157,62 @@ const ProfileManagement: React.FC = () => {
     }
   };
 
+  const handlePasswordFieldChange = (field: keyof typeof passwordForm, value: string) => {
+    setPasswordForm(prev => ({ ...prev, [field]: value }));
+    setPasswordError('');
+    setPasswordSuccess('');
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!passwordForm.currentPassword) {
+      setPasswordError('Please enter your current password');
+      return;
+    }
+
+    const policyError = getPasswordValidationError(passwordForm.newPassword, passwordPolicy);
+    if (policyError) {
+      setPasswordError(policyError);
+      return;
+    }
+
+    if (passwordForm.newPassword !== passwordForm.confirmPassword) {
+      setPasswordError('New passwords do not match');
+      return;
+    }
+
+    setChangingPassword(true);
+    setPasswordError('');
+
+    try {
+      const message = await AuthService.changePassword({
+        currentPassword: passwordForm.currentPassword,
+        newPassword: passwordForm.newPassword
+      });
+      setPasswordSuccess(message);
+      setPasswordForm({ currentPassword: '', newPassword: '', confirmPassword: '' });
+    } catch (err) {
+      setPasswordError(err instanceof Error ? err.message : 'Failed to change password');
+    } finally {
+      setChangingPassword(false);
+    }
+  };
+
+  const handleLogoutAllDevices = async () => {
+    setSigningOutAll(true);
+    setError('');
+
+    try {
+      // Clears the signed-in user, which returns to the landing page
+      await logoutAllDevices();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign out of all devices');
+      setSigningOutAll(false);
+      setConfirmSignOutAll(false);
+    }
+  };
+
   const formatMemberSince = (dateString?: string) => {
     if (!dateString) return 'Unknown';
     const date = new Date(dateString);
@@ -161,6 +231,8 @@ const ProfileManagement: React.FC = () => {
         return 'Teacher/Staff';
       case 'admin':
         return 'Administrator';
+      case 'student':
+        return 'Student';
       default:
         return role;
     }
@@ -201,7 +273,7 @@ const ProfileManagement: React.FC = () => {
               </div>
               <div className="text-white">
                 <h2 className="text-2xl font-bold">{user.first_name} {user.last_name}</h2>
-                <p className="text-indigo-100">{getRoleDisplayName(user.role)} Account</p>
+                <p className="text-indigo-100">{user.role_name || getRoleDisplayName(user.role)} Account</p>
                 <p className="text-indigo-100 text-sm mt-1">
                   Member since {formatMemberSince(user.created_at)}
                 </p>
@@ -361,6 +433,124 @@ const ProfileManagement: React.FC = () => {
           </div>
         </div>
 
+        {/* Change Password */}
+        <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6 mb-8">
+          <h3 className="text-lg font-semibold text-gray-800 mb-4 flex items-center space-x-2">
+            <KeyRound size={20} />
+            <span>Change Password</span>
+          </h3>
+          <form onSubmit={handleChangePassword} className="space-y-4">
+            <div className="grid md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Current Password</label>
+                <input
+                  type="password"
+                  value={passwordForm.currentPassword}
+                  onChange={(e) => handlePasswordFieldChange('currentPassword', e.target.value)}
+                  className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-indigo-500 focus:outline-none transition-colors"
+                  autoComplete="current-password"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">New Password</label>
+                <input
+                  type="password"
+                  value={passwordForm.newPassword}
+                  onChange={(e) => handlePasswordFieldChange('newPassword', e.target.value)}
+                  className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-indigo-500 focus:outline-none transition-colors"
+                  autoComplete="new-password"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Confirm New Password</label>
+                <input
+                  type="password"
+                  value={passwordForm.confirmPassword}
+                  onChange={(e) => handlePasswordFieldChange('confirmPassword', e.target.value)}
+                  className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-indigo-500 focus:outline-none transition-colors"
+                  autoComplete="new-password"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              {describePasswordPolicy(passwordPolicy)}.
+              {passwordPolicy.history_count > 0 && ` You cannot reuse your last ${passwordPolicy.history_count} passwords.`}
+              {' '}Other devices will be signed out.
+            </p>
+
+            {passwordError && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                <p className="text-red-600 text-sm">{passwordError}</p>
+              </div>
+            )}
+
+            {passwordSuccess && (
+              <div className="flex items-center space-x-2 p-3 bg-green-50 border border-green-200 rounded-lg">
+                <CheckCircle className="text-green-600" size={16} />
+                <p className="text-green-700 text-sm">{passwordSuccess}</p>
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={changingPassword}
+              className="flex items-center space-x-2 px-4 py-2 bg-indigo-500 text-white rounded-lg hover:bg-indigo-600 transition-colors disabled:opacity-50"
+            >
+              {changingPassword ? <Loader2 className="animate-spin" size={16} /> : <KeyRound size={16} />}
+              <span>Update Password</span>
+            </button>
+          </form>
+        </div>
+
+        {/* Notification Preferences */}
+        <NotificationSettings />
+
+        {/* Two-Factor Authentication */}
+        <TwoFactorSettings />
+
+        {/* Recent Sign-ins */}
+        <RecentSignIns />
+
+        {/* Sessions */}
+        <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6 mb-8">
+          <h3 className="text-lg font-semibold text-gray-800 mb-4 flex items-center space-x-2">
+            <LogOut size={20} />
+            <span>Signed-in Devices</span>
+          </h3>
+          <div className="space-y-3">
+            <p className="text-gray-700">
+              Lost a device or signed in on a shared computer? Sign out everywhere and log in again on this device.
+            </p>
+            {confirmSignOutAll ? (
+              <div className="flex items-center space-x-3">
+                <button
+                  onClick={handleLogoutAllDevices}
+                  disabled={signingOutAll}
+                  className="flex items-center space-x-2 px-4 py-2 bg-gray-800 text-white rounded-lg hover:bg-gray-900 transition-colors disabled:opacity-50"
+                >
+                  {signingOutAll ? <Loader2 className="animate-spin" size={16} /> : <LogOut size={16} />}
+                  <span>Yes, Sign Out Everywhere</span>
+                </button>
+                <button
+                  onClick={() => setConfirmSignOutAll(false)}
+                  disabled={signingOutAll}
+                  className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={() => setConfirmSignOutAll(true)}
+                className="flex items-center space-x-2 px-4 py-2 bg-gray-800 text-white rounded-lg hover:bg-gray-900 transition-colors"
+              >
+                <LogOut size={16} />
+                <span>Sign Out of All Devices</span>
+              </button>
+            )}
+          </div>
+        </div>
+
         {/* Danger Zone - Delete Account (Only for Parent users) */}
         {canDeleteAccount && (
           <div className="bg-white rounded-2xl shadow-lg border border-red-200 p-6">
@@ -396,6 +586,7 @@ const ProfileManagement: React.FC = () => {
                 <p className="text-sm text-blue-700 mt-1">
                   {user.role === 'staff' && 'As a staff member, your account is managed by administrators. Contact support for account changes.'}
                   {user.role === 'admin' && 'As an administrator, your account requires special handling. Contact system support for account changes.'}
+                  {user.role === 'student' && 'Your account was set up by your parent or guardian. Ask them if you need it changed or removed.'}
                 </p>
               </div>
             </div>
@@ -0,0 +1,115 @@
+// frontend/src/components/profile/RecentSignIns.tsx
+
+import React, { useState, useEffect } from 'react';
+import { History, CheckCircle, XCircle, Loader2 } from 'lucide-react';
+import AuthService from '../../services/auth';
+import type { LoginHistoryEntry } from '../../types';
+
+const FAILURE_LABELS: Record<NonNullable<LoginHistoryEntry['failure_reason']>, string> = {
+  unknown_account: 'Failed sign-in',
+  invalid_password: 'Wrong password',
+  invalid_two_factor: 'Wrong authentication code',
+  locked: 'Blocked while locked'
+};
+
+// A short "Browser on OS" label; good enough to recognise your own devices
+const describeDevice = (userAgent?: string): string => {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser';
+  const os = /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : 'unknown system';
+
+  return `${browser} on ${os}`;
+};
+
+const RecentSignIns: React.FC = () => {
+  const [entries, setEntries] = useState<LoginHistoryEntry[] | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    AuthService.getLoginHistory()
+      .then(setEntries)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load recent sign-ins'));
+  }, []);
+
+  const failedCount = entries?.filter(entry => !entry.success).length ?? 0;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6 mb-8">
+      <h3 className="text-lg font-semibold text-gray-800 mb-4 flex items-center space-x-2">
+        <History size={20} />
+        <span>Recent Sign-ins</span>
+      </h3>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-600 text-sm">{error}</p>
+        </div>
+      )}
+
+      {!entries && !error && (
+        <div className="flex items-center space-x-2 text-gray-500">
+          <Loader2 className="animate-spin" size={16} />
+          <span className="text-sm">Loading...</span>
+        </div>
+      )}
+
+      {entries && entries.length === 0 && (
+        <p className="text-gray-500 text-sm">No sign-ins recorded yet.</p>
+      )}
+
+      {entries && entries.length > 0 && (
+        <div className="space-y-3">
+          {failedCount > 0 && (
+            <p className="text-sm text-amber-700">
+              {failedCount} failed attempt{failedCount === 1 ? '' : 's'} below. If these were not you, change your password and consider turning on two-factor authentication.
+            </p>
+          )}
+          <ul className="divide-y divide-gray-100">
+            {entries.map(entry => (
+              <li key={entry.id} className="py-3 flex items-start justify-between gap-4">
+                <div className="flex items-start space-x-3">
+                  {entry.success
+                    ? <CheckCircle className="text-green-600 flex-shrink-0 mt-0.5" size={18} />
+                    : <XCircle className="text-red-600 flex-shrink-0 mt-0.5" size={18} />}
+                  <div>
+                    <p className="text-sm font-medium text-gray-800">
+                      {entry.success ? 'Signed in' : FAILURE_LABELS[entry.failure_reason ?? 'unknown_account']}
+                      {entry.unfamiliar && (
+                        <span className="ml-2 px-2 py-0.5 rounded text-xs font-semibold bg-amber-100 text-amber-800">
+                          New location
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {describeDevice(entry.user_agent)}{entry.ip_address && ` · ${entry.ip_address}`}
+                    </p>
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500 whitespace-nowrap">
+                  {new Date(entry.created_at).toLocaleString('en-SG', {
+                    day: '2-digit',
+                    month: 'short',
+                    hour: '2-digit',
+                    minute: '2-digit'
+                  })}
+                </p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecentSignIns;
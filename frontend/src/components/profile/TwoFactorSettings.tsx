@@ -0,0 +1,294 @@
+// frontend/src/components/profile/TwoFactorSettings.tsx
+
+import React, { useState, useEffect } from 'react';
+import { ShieldCheck, ShieldOff, Loader2, CheckCircle, RefreshCw } from 'lucide-react';
+import TwoFactorService from '../../services/twoFactor';
+import RecoveryCodesList from '../auth/RecoveryCodesList';
+import type { TwoFactorStatus, TwoFactorProvisioning } from '../../types';
+
+type TwoFactorStep = 'idle' | 'setup' | 'disable' | 'regenerate';
+
+const TwoFactorSettings: React.FC = () => {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [step, setStep] = useState<TwoFactorStep>('idle');
+  const [provisioning, setProvisioning] = useState<TwoFactorProvisioning | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const loadStatus = async () => {
+    try {
+      setStatus(await TwoFactorService.getStatus());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load two-factor status');
+    }
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const resetStep = () => {
+    setStep('idle');
+    setProvisioning(null);
+    setCode('');
+    setPassword('');
+    setUseRecoveryCode(false);
+    setError('');
+  };
+
+  const handleStartSetup = async () => {
+    setWorking(true);
+    setError('');
+    setSuccess('');
+    setRecoveryCodes(null);
+
+    try {
+      setProvisioning(await TwoFactorService.startSetup());
+      setStep('setup');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start two-factor setup');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!code.trim()) {
+      setError(useRecoveryCode ? 'Please enter a recovery code' : 'Please enter the code from your authenticator app');
+      return;
+    }
+
+    if (step === 'disable' && !password) {
+      setError('Please enter your password');
+      return;
+    }
+
+    setWorking(true);
+    setError('');
+
+    try {
+      if (step === 'setup') {
+        const codes = await TwoFactorService.enable(code.trim());
+        resetStep();
+        setRecoveryCodes(codes);
+        setSuccess('Two-factor authentication is now enabled.');
+      } else if (step === 'regenerate') {
+        const codes = await TwoFactorService.regenerateRecoveryCodes(code.trim());
+        resetStep();
+        setRecoveryCodes(codes);
+        setSuccess('New recovery codes generated. Your previous codes no longer work.');
+      } else if (step === 'disable') {
+        const message = await TwoFactorService.disable(
+          password,
+          useRecoveryCode ? { recoveryCode: code.trim() } : { code: code.trim() }
+        );
+        resetStep();
+        setSuccess(message);
+      }
+      await loadStatus();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update two-factor authentication');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const openStep = (nextStep: TwoFactorStep) => {
+    resetStep();
+    setStep(nextStep);
+    setSuccess('');
+    setRecoveryCodes(null);
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6 mb-8">
+      <h3 className="text-lg font-semibold text-gray-800 mb-4 flex items-center space-x-2">
+        <ShieldCheck size={20} />
+        <span>Two-Factor Authentication</span>
+      </h3>
+
+      <div className="space-y-4">
+        {!status && !error && (
+          <div className="flex items-center space-x-2 text-gray-500">
+            <Loader2 className="animate-spin" size={16} />
+            <span className="text-sm">Loading...</span>
+          </div>
+        )}
+
+        {status && step === 'idle' && (
+          <>
+            <p className="text-gray-700">
+              {status.enabled
+                ? `Enabled${status.enabled_at ? ` since ${new Date(status.enabled_at).toLocaleDateString()}` : ''}. You have ${status.recovery_codes_remaining} unused recovery code${status.recovery_codes_remaining === 1 ? '' : 's'}.`
+                : 'Protect your account with a code from an authenticator app on your phone in addition to your password.'}
+            </p>
+            {status.required && (
+              <p className="text-sm text-gray-500">Two-factor authentication is required for your account.</p>
+            )}
+          </>
+        )}
+
+        {recoveryCodes && (
+          <RecoveryCodesList codes={recoveryCodes} />
+        )}
+
+        {step !== 'idle' && (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {step === 'setup' && provisioning && (
+              <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+                <img src={provisioning.qr_code} alt="Two-factor authentication QR code" className="w-40 h-40" />
+                <div className="space-y-2">
+                  <p className="text-sm text-gray-600">
+                    Scan the QR code with an authenticator app such as Google Authenticator or Microsoft Authenticator, then enter the 6-digit code it shows.
+                  </p>
+                  <p className="text-xs text-gray-500">Can't scan it? Enter this key instead:</p>
+                  <p className="font-mono text-sm text-gray-800 break-all">{provisioning.secret}</p>
+                </div>
+              </div>
+            )}
+
+            {step === 'regenerate' && (
+              <p className="text-sm text-gray-600">Enter a code from your authenticator app to replace your recovery codes.</p>
+            )}
+
+            <div className="grid md:grid-cols-2 gap-4">
+              {step === 'disable' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Password</label>
+                  <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => {
+                      setPassword(e.target.value);
+                      setError('');
+                    }}
+                    className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-indigo-500 focus:outline-none transition-colors"
+                    autoComplete="current-password"
+                  />
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {useRecoveryCode ? 'Recovery Code' : 'Authentication Code'}
+                </label>
+                <input
+                  type="text"
+                  value={code}
+                  onChange={(e) => {
+                    setCode(e.target.value);
+                    setError('');
+                  }}
+                  inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                  autoComplete="one-time-code"
+                  className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-indigo-500 focus:outline-none transition-colors font-mono tracking-widest"
+                  placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+                />
+              </div>
+            </div>
+
+            {step === 'disable' && (
+              <button
+                type="button"
+                onClick={() => {
+                  setUseRecoveryCode(!useRecoveryCode);
+                  setCode('');
+                  setError('');
+                }}
+                className="text-sm text-indigo-600 hover:text-indigo-700"
+              >
+                {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+              </button>
+            )}
+
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                <p className="text-red-600 text-sm">{error}</p>
+              </div>
+            )}
+
+            <div className="flex items-center space-x-3">
+              <button
+                type="submit"
+                disabled={working}
+                className={`flex items-center space-x-2 px-4 py-2 text-white rounded-lg transition-colors disabled:opacity-50 ${
+                  step === 'disable' ? 'bg-red-600 hover:bg-red-700' : 'bg-indigo-500 hover:bg-indigo-600'
+                }`}
+              >
+                {working && <Loader2 className="animate-spin" size={16} />}
+                <span>
+                  {step === 'setup' && 'Enable Two-Factor'}
+                  {step === 'regenerate' && 'Generate New Codes'}
+                  {step === 'disable' && 'Turn Off Two-Factor'}
+                </span>
+              </button>
+              <button
+                type="button"
+                onClick={resetStep}
+                disabled={working}
+                className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+
+        {step === 'idle' && error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-600 text-sm">{error}</p>
+          </div>
+        )}
+
+        {success && (
+          <div className="flex items-center space-x-2 p-3 bg-green-50 border border-green-200 rounded-lg">
+            <CheckCircle className="text-green-600" size={16} />
+            <p className="text-green-700 text-sm">{success}</p>
+          </div>
+        )}
+
+        {status && step === 'idle' && (
+          <div className="flex flex-wrap items-center gap-3">
+            {status.enabled ? (
+              <>
+                <button
+                  onClick={() => openStep('regenerate')}
+                  className="flex items-center space-x-2 px-4 py-2 bg-indigo-500 text-white rounded-lg hover:bg-indigo-600 transition-colors"
+                >
+                  <RefreshCw size={16} />
+                  <span>New Recovery Codes</span>
+                </button>
+                {!status.required && (
+                  <button
+                    onClick={() => openStep('disable')}
+                    className="flex items-center space-x-2 px-4 py-2 text-red-600 border border-red-200 rounded-lg hover:bg-red-50 transition-colors"
+                  >
+                    <ShieldOff size={16} />
+                    <span>Turn Off</span>
+                  </button>
+                )}
+              </>
+            ) : (
+              <button
+                onClick={handleStartSetup}
+                disabled={working}
+                className="flex items-center space-x-2 px-4 py-2 bg-indigo-500 text-white rounded-lg hover:bg-indigo-600 transition-colors disabled:opacity-50"
+              >
+                {working ? <Loader2 className="animate-spin" size={16} /> : <ShieldCheck size={16} />}
+                <span>Set Up Two-Factor</span>
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TwoFactorSettings;
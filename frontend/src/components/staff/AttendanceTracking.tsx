@@ -1,12 +1,17 @@
 // frontend/src/components/staff/AttendanceTracking.tsx
 
 import React, { useState, useEffect } from 'react';
-import { Users, Clock, CheckCircle, XCircle, AlertCircle, UserCheck, Loader2, BarChart3, Calendar, BookOpen, X } from 'lucide-react';
-import type { StaffClass, ClassStudent, AttendanceRecord, AttendanceMarkRequest, AttendanceSummary } from '../../types';
+import { Users, Clock, CheckCircle, XCircle, AlertCircle, UserCheck, Loader2, BarChart3, Calendar, BookOpen, X, Edit2, History } from 'lucide-react';
+import type { StaffClass, ClassStudent, AttendanceRecord, AttendanceMarkRequest, AttendanceSummary, AttendanceRevision } from '../../types';
 import AttendanceService from '../../services/attendance';
 import DateInput from '../common/DateInput';
+import { useAuth } from '../../hooks/useAuth';
+import { hasPermission } from '../../utils/permissions';
 
 const AttendanceTracking: React.FC = () => {
+  const { user } = useAuth();
+  const canMarkAny = hasPermission(user, 'attendance.mark_any');
+
   const [classes, setClasses] = useState<StaffClass[]>([]);
   const [selectedClass, setSelectedClass] = useState<StaffClass | null>(null);
   const [students, setStudents] = useState<ClassStudent[]>([]);
@@ -26,16 +31,37 @@ const AttendanceTracking: React.FC = () => {
   // Attendance state for each student
   const [attendanceState, setAttendanceState] = useState<Record<string, AttendanceMarkRequest>>({});
 
+  // Correcting attendance that was already taken, and the versions it went through
+  const [correcting, setCorrecting] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [history, setHistory] = useState<AttendanceRevision[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+
+  // Every class at the user's branches on a date, for staff who can mark any class
+  const [branchDate, setBranchDate] = useState(new Date().toISOString().split('T')[0]);
+  const [branchClasses, setBranchClasses] = useState<StaffClass[]>([]);
+
   useEffect(() => {
     loadClasses();
   }, []);
 
   useEffect(() => {
     if (selectedClass) {
+      setCorrecting(false);
+      setShowHistory(false);
+      setHistory([]);
       loadClassStudents();
     }
   }, [selectedClass]);
 
+  useEffect(() => {
+    if (canMarkAny) {
+      AttendanceService.getBranchClasses(branchDate)
+        .then(setBranchClasses)
+        .catch(err => setError(err instanceof Error ? err.message : 'Failed to load branch classes'));
+    }
+  }, [canMarkAny, branchDate]);
+
   // Load summary data when summary view is shown
   useEffect(() => {
     if (showSummary) {
@@ -197,7 +223,8 @@ const AttendanceTracking: React.FC = () => {
         enrollmentId: record.enrollmentId,
         studentId: record.studentId,
         status: record.status,
-        notes: record.notes || ''
+        notes: record.notes || '',
+        reason: record.reason?.trim() || undefined
       }));
       
       // Validate for all required fields
@@ -206,14 +233,24 @@ const AttendanceTracking: React.FC = () => {
         if (!record.enrollmentId || !record.studentId || !record.status) {
           throw new Error(`Invalid attendance record at index ${i}: missing required fields`);
         }
+        if (isStatusChanged(record.enrollmentId) && !record.reason) {
+          const student = students.find(s => s.enrollment_id === record.enrollmentId);
+          throw new Error(`Give a reason for changing ${student ? `${student.first_name} ${student.last_name}` : 'this student'}'s attendance`);
+        }
       }
       
       await AttendanceService.markAttendance(selectedClass.class_id, classDate, attendanceRecords);
       
       // Refresh attendance records to get updated data
       await loadAttendanceRecordsForStudents();
+      setCorrecting(false);
+      if (showHistory) {
+        await loadHistory();
+      }
       
-      setSuccessMessage(`Attendance saved successfully for ${attendanceRecords.length} students!`);
+      setSuccessMessage(correcting
+        ? 'Attendance corrections saved'
+        : `Attendance saved successfully for ${attendanceRecords.length} students!`);
       
       // Auto-clear success message after 3 seconds
       setTimeout(() => {
@@ -228,6 +265,38 @@ const AttendanceTracking: React.FC = () => {
     }
   };
 
+  // Whether a student's status differs from the one already saved, which needs a reason
+  const isStatusChanged = (enrollmentId: string) => {
+    const saved = attendanceRecords.find(record => record.enrollment_id === enrollmentId);
+    return Boolean(saved && attendanceState[enrollmentId] && saved.status !== attendanceState[enrollmentId].status);
+  };
+
+  const loadHistory = async () => {
+    if (!selectedClass) return;
+
+    setHistoryLoading(true);
+    try {
+      const classDate = new Date(selectedClass.start_time).toISOString().split('T')[0];
+      setHistory(await AttendanceService.getAttendanceHistory(selectedClass.class_id, classDate));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load attendance history');
+    } finally {
+      setHistoryLoading(false);
+    }
+  };
+
+  const handleToggleHistory = async () => {
+    if (!showHistory) {
+      await loadHistory();
+    }
+    setShowHistory(!showHistory);
+  };
+
+  const handleCancelCorrection = async () => {
+    setCorrecting(false);
+    await loadAttendanceRecordsForStudents();
+  };
+
   const formatDateTime = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString('en-SG', {
@@ -304,6 +373,9 @@ const AttendanceTracking: React.FC = () => {
     return classDate === today;
   };
 
+  // Attendance can be entered on the day of the class until it is taken, and corrected after that
+  const isEditable = () => correcting || (canTakeAttendance() && !isAttendanceTaken());
+
   // Check if attendance has been taken for a class
   const isAttendanceTaken = (classId?: string) => {
     if (classId) {
@@ -458,7 +530,7 @@ const AttendanceTracking: React.FC = () => {
         </div>
       )}
 
-      {classes.length === 0 ? (
+      {classes.length === 0 && !canMarkAny ? (
         <div className="text-center py-12">
           <Users className="mx-auto text-gray-300 mb-4" size={64} />
           <h3 className="text-xl font-semibold text-gray-600 mb-2">No Classes Assigned</h3>
@@ -613,18 +685,48 @@ const AttendanceTracking: React.FC = () => {
               <select
                 value={selectedClass?.class_id || ''}
                 onChange={(e) => {
-                  const classItem = classes.find(c => c.class_id === e.target.value);
+                  const classItem = classes.find(c => c.class_id === e.target.value)
+                    || branchClasses.find(c => c.class_id === e.target.value);
                   setSelectedClass(classItem || null);
                 }}
                 className="w-full p-3 border border-gray-200 rounded-lg focus:border-blue-500 focus:outline-none"
               >
                 <option value="">Choose a class</option>
-                {classes.map((classItem) => (
-                  <option key={classItem.class_id} value={classItem.class_id}>
-                    {classItem.subject} {classItem.level && `(${classItem.level})`} - {formatDateTime(classItem.start_time)} - {classItem.branch_name}
-                  </option>
-                ))}
+                <optgroup label="My classes">
+                  {classes.map((classItem) => (
+                    <option key={classItem.class_id} value={classItem.class_id}>
+                      {classItem.subject} {classItem.level && `(${classItem.level})`} - {formatDateTime(classItem.start_time)} - {classItem.branch_name}{classItem.is_cover ? ' (covering)' : ''}
+                    </option>
+                  ))}
+                </optgroup>
+                {canMarkAny && (
+                  <optgroup label="All classes at your branches on the chosen date">
+                    {branchClasses
+                      .filter(classItem => !classes.some(c => c.class_id === classItem.class_id))
+                      .map((classItem) => (
+                        <option key={classItem.class_id} value={classItem.class_id}>
+                          {classItem.subject} {classItem.level && `(${classItem.level})`} - {formatDateTime(classItem.start_time)} - {classItem.branch_name}
+                          {classItem.tutor_first_name ? ` - ${classItem.tutor_first_name} ${classItem.tutor_last_name}` : ''}
+                        </option>
+                      ))}
+                  </optgroup>
+                )}
               </select>
+
+              {canMarkAny && (
+                <div className="mt-3 flex items-center space-x-3">
+                  <label className="text-sm font-medium text-gray-700">Other classes on:</label>
+                  <DateInput
+                    value={branchDate}
+                    onChange={setBranchDate}
+                    className="w-auto"
+                    placeholder="DD/MM/YYYY"
+                  />
+                  <span className="text-sm text-gray-500">
+                    {branchClasses.length} class{branchClasses.length !== 1 ? 'es' : ''} at your branches
+                  </span>
+                </div>
+              )}
             </div>
 
             {/* Class Info and Date Status */}
@@ -645,6 +747,15 @@ const AttendanceTracking: React.FC = () => {
                       <p className="text-blue-700">{formatDuration(selectedClass.duration_minutes)}</p>
                     </div>
                   </div>
+                  {selectedClass.is_cover && (
+                    <p className="mt-3 text-sm text-blue-800">You are covering this class for its regular tutor.</p>
+                  )}
+                  {selectedClass.tutor_id !== undefined && (
+                    <p className="mt-3 text-sm text-blue-800">
+                      Tutor: {selectedClass.tutor_first_name ? `${selectedClass.tutor_first_name} ${selectedClass.tutor_last_name}` : 'Unassigned'}
+                      {selectedClass.substitute_tutor_id && ` · Covered by ${selectedClass.substitute_first_name} ${selectedClass.substitute_last_name}`}
+                    </p>
+                  )}
                 </div>
 
                 {/* Date Status Message */}
@@ -684,25 +795,58 @@ const AttendanceTracking: React.FC = () => {
                     </p>
                   </div>
                   
-                  {students.length > 0 && canTakeAttendance() && !isAttendanceTaken() && (
-                    <button
-                      onClick={handleSaveAttendance}
-                      disabled={saving}
-                      className="flex items-center space-x-2 bg-white text-indigo-500 px-6 py-3 rounded-lg font-semibold hover:bg-gray-100 disabled:opacity-50 transition-colors"
-                    >
-                      {saving ? (
-                        <>
-                          <Loader2 className="animate-spin" size={16} />
-                          <span>Saving...</span>
-                        </>
-                      ) : (
-                        <>
-                          <CheckCircle size={16} />
-                          <span>Save Attendance</span>
-                        </>
-                      )}
-                    </button>
-                  )}
+                  <div className="flex items-center space-x-3">
+                    {isAttendanceTaken() && (
+                      <button
+                        onClick={handleToggleHistory}
+                        disabled={historyLoading}
+                        className="flex items-center space-x-2 text-white px-4 py-3 rounded-lg font-semibold hover:bg-indigo-600 disabled:opacity-50 transition-colors"
+                      >
+                        {historyLoading ? <Loader2 className="animate-spin" size={16} /> : <History size={16} />}
+                        <span>{showHistory ? 'Hide History' : 'History'}</span>
+                      </button>
+                    )}
+
+                    {students.length > 0 && isAttendanceTaken() && !correcting && (
+                      <button
+                        onClick={() => setCorrecting(true)}
+                        className="flex items-center space-x-2 text-white border border-white px-4 py-3 rounded-lg font-semibold hover:bg-indigo-600 transition-colors"
+                      >
+                        <Edit2 size={16} />
+                        <span>Correct Attendance</span>
+                      </button>
+                    )}
+
+                    {correcting && (
+                      <button
+                        onClick={handleCancelCorrection}
+                        disabled={saving}
+                        className="text-white px-4 py-3 rounded-lg font-semibold hover:bg-indigo-600 disabled:opacity-50 transition-colors"
+                      >
+                        Cancel
+                      </button>
+                    )}
+
+                    {students.length > 0 && isEditable() && (
+                      <button
+                        onClick={handleSaveAttendance}
+                        disabled={saving}
+                        className="flex items-center space-x-2 bg-white text-indigo-500 px-6 py-3 rounded-lg font-semibold hover:bg-gray-100 disabled:opacity-50 transition-colors"
+                      >
+                        {saving ? (
+                          <>
+                            <Loader2 className="animate-spin" size={16} />
+                            <span>Saving...</span>
+                          </>
+                        ) : (
+                          <>
+                            <CheckCircle size={16} />
+                            <span>{correcting ? 'Save Corrections' : 'Save Attendance'}</span>
+                          </>
+                        )}
+                      </button>
+                    )}
+                  </div>
                 </div>
               </div>
 
@@ -758,7 +902,7 @@ const AttendanceTracking: React.FC = () => {
                                 </p>
                               </div>
 
-                              {canTakeAttendance() && !isAttendanceTaken() && (
+                              {isEditable() && (
                                 <div className="ml-6 flex flex-col space-y-3">
                                   {/* Status Selection */}
                                   <div className="flex space-x-2">
@@ -786,30 +930,82 @@ const AttendanceTracking: React.FC = () => {
                                     className="w-full text-xs p-2 border border-gray-200 rounded focus:border-blue-500 focus:outline-none resize-none"
                                     rows={2}
                                   />
-                                </div>
-                              )}
 
-                              {(!canTakeAttendance() || isAttendanceTaken()) && attendanceRecords.find(r => r.enrollment_id === student.enrollment_id) && (
-                                <div className="ml-6">
-                                  <div className={`flex items-center space-x-1 px-3 py-2 rounded-lg text-xs font-semibold border ${
-                                    getStatusColor(attendance.status)
-                                  }`}>
-                                    {getStatusIcon(attendance.status)}
-                                    <span className="capitalize">{attendance.status}</span>
-                                  </div>
-                                  {attendance.notes && (
-                                    <p className="text-xs text-gray-600 mt-2 max-w-48">
-                                      Notes: {attendance.notes}
-                                    </p>
+                                  {/* Reason, when changing a status that was already saved */}
+                                  {isStatusChanged(student.enrollment_id) && (
+                                    <input
+                                      type="text"
+                                      value={attendance.reason || ''}
+                                      onChange={(e) => handleAttendanceChange(student.enrollment_id, 'reason', e.target.value)}
+                                      placeholder="Reason for the change (required)"
+                                      maxLength={500}
+                                      className="w-full text-xs p-2 border border-amber-300 bg-amber-50 rounded focus:border-amber-500 focus:outline-none"
+                                    />
                                   )}
                                 </div>
                               )}
+
+                              {!isEditable() && (() => {
+                                const record = attendanceRecords.find(r => r.enrollment_id === student.enrollment_id);
+                                return record && (
+                                  <div className="ml-6">
+                                    <div className={`flex items-center space-x-1 px-3 py-2 rounded-lg text-xs font-semibold border ${
+                                      getStatusColor(attendance.status)
+                                    }`}>
+                                      {getStatusIcon(attendance.status)}
+                                      <span className="capitalize">{attendance.status}</span>
+                                    </div>
+                                    {attendance.notes && (
+                                      <p className="text-xs text-gray-600 mt-2 max-w-48">
+                                        Notes: {attendance.notes}
+                                      </p>
+                                    )}
+                                    {(record.version ?? 1) > 1 && (
+                                      <p className="text-xs text-amber-700 mt-2 max-w-48">
+                                        Corrected{record.marked_by_first_name && ` by ${record.marked_by_first_name} ${record.marked_by_last_name}`}
+                                      </p>
+                                    )}
+                                  </div>
+                                );
+                              })()}
                             </div>
                           </div>
                         );
                       })}
                     </div>
 
+                    {/* Correction History */}
+                    {showHistory && (
+                      <div className="mt-8 p-4 bg-gray-50 rounded-lg">
+                        <h4 className="font-semibold text-gray-800 mb-3 flex items-center space-x-2">
+                          <History size={16} />
+                          <span>Attendance History</span>
+                        </h4>
+
+                        {history.length === 0 ? (
+                          <p className="text-sm text-gray-500">No attendance has been recorded for this class yet.</p>
+                        ) : (
+                          <div className="space-y-2">
+                            {history.map(revision => (
+                              <div key={revision.id} className="text-sm text-gray-700 flex flex-wrap items-center gap-x-2">
+                                <span className="font-medium">{revision.first_name} {revision.last_name}</span>
+                                <span className="text-xs text-gray-500">v{revision.version}</span>
+                                <span className="capitalize">
+                                  {revision.previous_status ? `${revision.previous_status} → ${revision.status}` : `marked ${revision.status}`}
+                                </span>
+                                <span className="text-gray-500">
+                                  by {revision.changed_by_name || 'a former staff member'} at {formatDateTime(revision.changed_at)}
+                                </span>
+                                {revision.reason && (
+                                  <span className="w-full text-gray-600 italic">"{revision.reason}"</span>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    )}
+
                     {/* Attendance Summary */}
                     {attendanceRecords.length > 0 && (
                       <div className="mt-8 p-4 bg-gray-50 rounded-lg">
@@ -1,13 +1,14 @@
 // frontend/src/components/staff/ClassForm.tsx
 
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { X } from 'lucide-react';
-import type { Class, Branch, Classroom, CreateClassRequest, UpdateClassRequest, ClassroomAvailability } from '../../types';
+import { X, Repeat } from 'lucide-react';
+import type { Class, Branch, Classroom, CreateClassRequest, UpdateClassRequest, ClassroomAvailability, RecurrenceFrequency, SeriesEditScope } from '../../types';
 import ClassService from '../../services/class';
 import BranchService from '../../services/branch';
 import ClassroomService from '../../services/classroom';
 import DateInput from '../common/DateInput';
 import { useAuth } from '../../hooks/useAuth';
+import { canAccessBranch } from '../../utils/permissions';
 
 // Crucial card logic flow
 // First opening: Modal opens → clears classrooms → form populates → branch changes → classrooms reload
@@ -100,6 +101,13 @@ const ClassForm: React.FC<ClassFormProps> = ({ isOpen, onClose, classData, onSuc
   const [fieldErrors, setFieldErrors] = useState<FieldErrors>(INITIAL_FIELD_ERRORS);
   const [error, setError] = useState('');
 
+  // Recurrence state (create mode) and edit scope (edit mode for series classes)
+  const [repeatFrequency, setRepeatFrequency] = useState<RecurrenceFrequency | ''>('');
+  const [termEnd, setTermEnd] = useState('');
+  const [skipDates, setSkipDates] = useState<string[]>([]);
+  const [skipDateInput, setSkipDateInput] = useState('');
+  const [editScope, setEditScope] = useState<SeriesEditScope>('occurrence');
+
   // Data state
   const [branches, setBranches] = useState<Branch[]>([]);
   const [classrooms, setClassrooms] = useState<Classroom[]>([]);
@@ -112,6 +120,7 @@ const ClassForm: React.FC<ClassFormProps> = ({ isOpen, onClose, classData, onSuc
   const [checkingAvailability, setCheckingAvailability] = useState(false);
 
   const isEdit = !!classData;
+  const isSeriesClass = isEdit && !!classData?.series_id;
 
   // Helper function to format time
   const formatTime = useCallback((timeString: string): string => {
@@ -297,14 +306,14 @@ const ClassForm: React.FC<ClassFormProps> = ({ isOpen, onClose, classData, onSuc
     setLoadingBranches(true);
     try {
       const branchList = await BranchService.getAllBranches();
-      setBranches(branchList);
+      setBranches(branchList.filter(branch => canAccessBranch(user, branch.id)));
     } catch (err) {
       console.error('Failed to load branches:', err);
       setError('Failed to load branches');
     } finally {
       setLoadingBranches(false);
     }
-  }, [branches.length]);
+  }, [branches.length, user]);
 
   const loadClassrooms = useCallback(async (branchId: string) => {
     setLoadingClassrooms(true);
@@ -343,11 +352,38 @@ const ClassForm: React.FC<ClassFormProps> = ({ isOpen, onClose, classData, onSuc
     return `${date}T${time}:00`;
   }, []);
 
+  const resetRecurrence = useCallback(() => {
+    setRepeatFrequency('');
+    setTermEnd('');
+    setSkipDates([]);
+    setSkipDateInput('');
+    setEditScope('occurrence');
+  }, []);
+
   const resetForm = useCallback(() => {
     setFormData(INITIAL_FORM_DATA);
     setFieldErrors(INITIAL_FIELD_ERRORS);
     setError('');
     setClassroomAvailability(null);
+    resetRecurrence();
+  }, [resetRecurrence]);
+
+  // Latest allowed term end: one year after the first session
+  const maxTermEnd = useMemo(() => {
+    if (!formData.startDate) return undefined;
+    const limit = new Date(`${formData.startDate}T00:00:00`);
+    limit.setFullYear(limit.getFullYear() + 1);
+    return `${limit.getFullYear()}-${String(limit.getMonth() + 1).padStart(2, '0')}-${String(limit.getDate()).padStart(2, '0')}`;
+  }, [formData.startDate]);
+
+  const handleAddSkipDate = useCallback(() => {
+    if (!skipDateInput) return;
+    setSkipDates(prev => (prev.includes(skipDateInput) ? prev : [...prev, skipDateInput].sort()));
+    setSkipDateInput('');
+  }, [skipDateInput]);
+
+  const handleRemoveSkipDate = useCallback((date: string) => {
+    setSkipDates(prev => prev.filter(d => d !== date));
   }, []);
 
   // Form validation
@@ -491,6 +527,17 @@ const ClassForm: React.FC<ClassFormProps> = ({ isOpen, onClose, classData, onSuc
       return;
     }
 
+    if (!isEdit && repeatFrequency) {
+      if (!termEnd) {
+        setError('Please select a term end date for the recurring class');
+        return;
+      }
+      if (termEnd < formData.startDate) {
+        setError('Term end date cannot be before the first class');
+        return;
+      }
+    }
+
     // Check for classroom time conflicts and show detailed information
     const classroomConflicts = getTimeConflicts();
     if (classroomConflicts.length > 0) {
@@ -511,7 +558,7 @@ const ClassForm: React.FC<ClassFormProps> = ({ isOpen, onClose, classData, onSuc
     try {
       const startDateTime = combineDateTime(formData.startDate, formData.startTime);
       
-      const requestData: CreateClassRequest | UpdateClassRequest = {
+      const requestData: CreateClassRequest & UpdateClassRequest = {
         subject: formData.subject.trim(),
         description: formData.description.trim() || undefined,
         level: formData.level.trim(),
@@ -522,6 +569,18 @@ const ClassForm: React.FC<ClassFormProps> = ({ isOpen, onClose, classData, onSuc
         classroomId: formData.classroomId || undefined,
       };
 
+      if (!isEdit && repeatFrequency) {
+        requestData.recurrence = {
+          frequency: repeatFrequency,
+          termEnd,
+          skipDates: skipDates.filter(date => date >= formData.startDate && date <= termEnd),
+        };
+      }
+
+      if (isSeriesClass) {
+        requestData.scope = editScope;
+      }
+
       if (isEdit && classData) {
         await ClassService.updateClass(classData.id, requestData);
       } else {
@@ -535,7 +594,7 @@ const ClassForm: React.FC<ClassFormProps> = ({ isOpen, onClose, classData, onSuc
     } finally {
       setIsLoading(false);
     }
-  }, [validateForm, getTimeConflicts, formatConflictMessage, checkTeacherScheduleConflicts, formatTeacherConflictMessage, combineDateTime, formData, isEdit, classData, onSuccess]);
+  }, [validateForm, getTimeConflicts, formatConflictMessage, checkTeacherScheduleConflicts, formatTeacherConflictMessage, combineDateTime, formData, isEdit, classData, onSuccess, repeatFrequency, termEnd, skipDates, isSeriesClass, editScope]);
 
   const handleClose = useCallback(() => {
     resetForm();
@@ -606,12 +665,13 @@ const ClassForm: React.FC<ClassFormProps> = ({ isOpen, onClose, classData, onSuc
         setFormData({ ...INITIAL_FORM_DATA });
       }
 
-      // Always reset errors and availability when modal opens
+      // Always reset errors, availability and recurrence options when modal opens
       setFieldErrors({ ...INITIAL_FIELD_ERRORS });
       setError('');
       setClassroomAvailability(null);
+      resetRecurrence();
     }
-  }, [classData, isOpen]);
+  }, [classData, isOpen, resetRecurrence]);
 
   if (!isOpen) return null;
 
@@ -910,6 +970,120 @@ const ClassForm: React.FC<ClassFormProps> = ({ isOpen, onClose, classData, onSuc
             </div>
           </div>
           
+          {/* Recurrence (create mode only) */}
+          {!isEdit && (
+            <div className="p-4 border-2 border-gray-200 rounded-lg space-y-4">
+              <div className="flex items-center gap-2">
+                <Repeat className="w-4 h-4 text-indigo-500" />
+                <label className="text-sm font-medium text-gray-700">Repeat</label>
+              </div>
+              <select
+                value={repeatFrequency}
+                onChange={(e) => setRepeatFrequency(e.target.value as RecurrenceFrequency | '')}
+                className="w-full p-3 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-indigo-500 transition-colors"
+              >
+                <option value="">Does not repeat</option>
+                <option value="weekly">Weekly</option>
+                <option value="biweekly">Every 2 weeks</option>
+              </select>
+
+              {repeatFrequency && (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Term End Date *
+                    </label>
+                    <DateInput
+                      value={termEnd}
+                      onChange={setTermEnd}
+                      className="border-gray-200 focus:border-indigo-500"
+                      placeholder="DD/MM/YYYY"
+                      min={formData.startDate || minDate}
+                      max={maxTermEnd}
+                      required
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Sessions are created on the same weekday and time until this date (up to 1 year).
+                    </p>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Skip Dates (e.g. public holidays)
+                    </label>
+                    <div className="flex gap-2">
+                      <div className="flex-1">
+                        <DateInput
+                          value={skipDateInput}
+                          onChange={setSkipDateInput}
+                          className="border-gray-200 focus:border-indigo-500"
+                          placeholder="DD/MM/YYYY"
+                          min={formData.startDate || minDate}
+                          max={termEnd || maxTermEnd}
+                        />
+                      </div>
+                      <button
+                        type="button"
+                        onClick={handleAddSkipDate}
+                        disabled={!skipDateInput}
+                        className="px-4 py-2 bg-indigo-100 text-indigo-700 rounded-lg hover:bg-indigo-200 disabled:opacity-50 transition-colors"
+                      >
+                        Add
+                      </button>
+                    </div>
+                    {skipDates.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mt-2">
+                        {skipDates.map(date => (
+                          <span key={date} className="inline-flex items-center gap-1 px-2 py-1 bg-gray-100 text-gray-700 text-xs rounded-full">
+                            {new Date(`${date}T00:00:00`).toLocaleDateString('en-SG')}
+                            <button type="button" onClick={() => handleRemoveSkipDate(date)} className="text-gray-400 hover:text-gray-600">
+                              <X className="w-3 h-3" />
+                            </button>
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
+          {/* Edit scope (series classes only) */}
+          {isSeriesClass && (
+            <div className="p-4 border-2 border-gray-200 rounded-lg">
+              <div className="flex items-center gap-2 mb-3">
+                <Repeat className="w-4 h-4 text-indigo-500" />
+                <span className="text-sm font-medium text-gray-700">This class is part of a recurring series</span>
+              </div>
+              <div className="space-y-2">
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    name="editScope"
+                    checked={editScope === 'occurrence'}
+                    onChange={() => setEditScope('occurrence')}
+                  />
+                  This session only
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    name="editScope"
+                    checked={editScope === 'following'}
+                    onChange={() => setEditScope('following')}
+                  />
+                  This and all following sessions
+                </label>
+              </div>
+              {editScope === 'following' && (
+                <p className="text-xs text-gray-500 mt-2">
+                  A new start time moves every following session by the same amount. All sessions are checked for conflicts before saving.
+                </p>
+              )}
+            </div>
+          )}
+
           {error && (
             <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
               <p className="text-red-600 text-sm whitespace-pre-line">{error}</p>
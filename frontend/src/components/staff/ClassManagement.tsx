@@ -1,12 +1,16 @@
 // frontend/src/components/staff/ClassManagement.tsx
 
 import React, { useState, useEffect } from 'react';
-import { BookOpen, Plus, Calendar, MapPin, Users, Clock, Edit2, Trash2, Filter, X, Loader2, User, ToggleLeft, ToggleRight } from 'lucide-react';
-import type { Class, Branch } from '../../types';
+import { BookOpen, Plus, Calendar, MapPin, Users, Clock, Edit2, Trash2, Filter, X, Loader2, User, ToggleLeft, ToggleRight, Repeat, ClipboardList, FileText } from 'lucide-react';
+import type { Class, Branch, SeriesEditScope, ClassEnrollment, ClassWaitlistEntry } from '../../types';
 import ClassService from '../../services/class';
 import BranchService from '../../services/branch';
+import EnrollmentService from '../../services/enrollment';
+import WaitlistService from '../../services/waitlist';
 import ClassForm from './ClassForm';
+import ClassMaterials from './ClassMaterials';
 import { useAuth } from '../../hooks/useAuth';
+import { canAccessBranch } from '../../utils/permissions';
 import DateInput from '../common/DateInput';
 
 const ClassManagement: React.FC = () => {
@@ -33,8 +37,18 @@ const ClassManagement: React.FC = () => {
   
   // Delete confirmation state
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<Class | null>(null);
+  const [deleteScope, setDeleteScope] = useState<SeriesEditScope>('occurrence');
   const [deleting, setDeleting] = useState(false);
 
+  // Roster and waitlist modal state
+  const [rosterClass, setRosterClass] = useState<Class | null>(null);
+  const [roster, setRoster] = useState<ClassEnrollment[]>([]);
+  const [waitlist, setWaitlist] = useState<ClassWaitlistEntry[]>([]);
+  const [loadingRoster, setLoadingRoster] = useState(false);
+
+  // Class whose shared materials are open
+  const [materialsClass, setMaterialsClass] = useState<Class | null>(null);
+
   useEffect(() => {
     loadInitialData();
   }, []);
@@ -106,7 +120,28 @@ const ClassManagement: React.FC = () => {
     setShowClassForm(true);
   };
 
+  const handleViewRoster = async (classItem: Class) => {
+    setRosterClass(classItem);
+    setRoster([]);
+    setWaitlist([]);
+    setLoadingRoster(true);
+    try {
+      const [enrollmentList, waitlistEntries] = await Promise.all([
+        EnrollmentService.getClassEnrollments(classItem.id),
+        WaitlistService.getClassWaitlist(classItem.id)
+      ]);
+      setRoster(enrollmentList.filter(enrollment => enrollment.status === 'enrolled'));
+      setWaitlist(waitlistEntries);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load class roster');
+      setRosterClass(null);
+    } finally {
+      setLoadingRoster(false);
+    }
+  };
+
   const handleDeleteClass = (classItem: Class) => {
+    setDeleteScope('occurrence');
     setShowDeleteConfirm(classItem);
   };
 
@@ -115,7 +150,7 @@ const ClassManagement: React.FC = () => {
 
     setDeleting(true);
     try {
-      await ClassService.deleteClass(showDeleteConfirm.id);
+      await ClassService.deleteClass(showDeleteConfirm.id, deleteScope);
       
       // Refresh classes list
       await loadClasses();
@@ -264,7 +299,7 @@ const ClassManagement: React.FC = () => {
                 className="w-full p-3 border border-gray-200 rounded-lg focus:border-indigo-500 focus:outline-none"
               >
                 <option value="">All Branches</option>
-                {branches.map((branch) => (
+                {branches.filter(branch => canAccessBranch(user, branch.id)).map((branch) => (
                   <option key={branch.id} value={branch.id}>
                     {branch.name}
                   </option>
@@ -417,8 +452,32 @@ const ClassManagement: React.FC = () => {
                         {classItem.level}
                       </span>
                     )}
+                    {classItem.series_id && (
+                      <span className="inline-flex items-center gap-1 ml-2 px-2 py-1 bg-indigo-100 text-indigo-700 text-xs font-medium rounded mb-2">
+                        <Repeat size={12} />
+                        {classItem.series_frequency === 'biweekly' ? 'Every 2 weeks' : 'Weekly'}
+                      </span>
+                    )}
                   </div>
                   <div className="flex space-x-2">
+                    {classItem.can_edit && (
+                      <button
+                        onClick={() => handleViewRoster(classItem)}
+                        className="p-2 text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+                        title="Roster & Waitlist"
+                      >
+                        <ClipboardList size={16} />
+                      </button>
+                    )}
+                    {classItem.can_edit && (
+                      <button
+                        onClick={() => setMaterialsClass(classItem)}
+                        className="p-2 text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+                        title="Class Materials"
+                      >
+                        <FileText size={16} />
+                      </button>
+                    )}
                     {classItem.can_edit && isClassInFuture(classItem) && (
                       <button
                         onClick={() => handleEditClass(classItem)}
@@ -527,6 +586,92 @@ const ClassManagement: React.FC = () => {
         onSuccess={handleFormSuccess}
       />
 
+      {/* Class Materials Modal */}
+      {materialsClass && (
+        <ClassMaterials
+          classItem={materialsClass}
+          onClose={() => setMaterialsClass(null)}
+        />
+      )}
+
+      {/* Roster & Waitlist Modal */}
+      {rosterClass && (
+        <div className="fixed inset-0 bg-gradient-to-br from-white-100 to-indigo-200 backdrop-blur-sm flex items-center justify-center z-50">
+          <div className="bg-white rounded-2xl p-8 w-full max-w-3xl relative shadow-2xl max-h-[90vh] overflow-y-auto">
+            <button
+              onClick={() => setRosterClass(null)}
+              className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X size={24} />
+            </button>
+
+            <h3 className="text-xl font-bold text-gray-800 mb-1">{rosterClass.subject}</h3>
+            <p className="text-sm text-gray-600 mb-6">
+              {formatDateTime(rosterClass.start_time)} · {rosterClass.branch_name} ({rosterClass.classroom_name})
+            </p>
+
+            {loadingRoster ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="animate-spin text-indigo-600 mr-2" size={20} />
+                <span className="text-gray-600">Loading roster...</span>
+              </div>
+            ) : (
+              <div className="grid md:grid-cols-2 gap-6">
+                <div>
+                  <h4 className="font-semibold text-gray-800 mb-3">
+                    Enrolled ({roster.length}/{rosterClass.capacity})
+                  </h4>
+                  {roster.length === 0 ? (
+                    <p className="text-sm text-gray-500">No students enrolled yet.</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {roster.map(enrollment => (
+                        <div key={enrollment.id} className="p-3 bg-gray-50 rounded-lg">
+                          <p className="text-sm font-medium text-gray-800">{enrollment.student_name} ({enrollment.grade})</p>
+                          <p className="text-xs text-gray-500">
+                            Parent: {enrollment.parent_first_name} {enrollment.parent_last_name} · {enrollment.parent_email}
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <div>
+                  <h4 className="font-semibold text-gray-800 mb-3">Waitlist ({waitlist.length})</h4>
+                  {waitlist.length === 0 ? (
+                    <p className="text-sm text-gray-500">No students on the waitlist.</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {waitlist.map(entry => (
+                        <div key={entry.id} className="p-3 bg-amber-50 border border-amber-100 rounded-lg">
+                          <div className="flex items-center justify-between">
+                            <p className="text-sm font-medium text-gray-800">
+                              #{entry.position} {entry.student_name} ({entry.grade})
+                            </p>
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${
+                              entry.status === 'offered' ? 'bg-green-100 text-green-800' : 'bg-amber-100 text-amber-800'
+                            }`}>
+                              {entry.status === 'offered' ? 'Seat held' : 'Waiting'}
+                            </span>
+                          </div>
+                          <p className="text-xs text-gray-500">
+                            Parent: {entry.parent_first_name} {entry.parent_last_name} · {entry.parent_email}
+                          </p>
+                          {entry.status === 'offered' && entry.offer_expires_at && (
+                            <p className="text-xs text-green-700 mt-1">Hold expires {formatDateTime(entry.offer_expires_at)}</p>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Delete Confirmation Modal */}
       {showDeleteConfirm && (
         <div className="fixed inset-0 bg-gradient-to-br from-white-100 to-indigo-200 backdrop-blur-sm flex items-center justify-center z-50">
@@ -548,6 +693,29 @@ const ClassManagement: React.FC = () => {
                 <p className="text-sm text-gray-600">Classroom: {showDeleteConfirm.classroom_name}</p>
                 <p className="text-sm text-gray-600">Enrolled: {showDeleteConfirm.enrolled_count}/{showDeleteConfirm.capacity}</p>
               </div>
+
+              {showDeleteConfirm.series_id && (
+                <div className="mt-3 space-y-2 text-left">
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="radio"
+                      name="deleteScope"
+                      checked={deleteScope === 'occurrence'}
+                      onChange={() => setDeleteScope('occurrence')}
+                    />
+                    This session only
+                  </label>
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="radio"
+                      name="deleteScope"
+                      checked={deleteScope === 'following'}
+                      onChange={() => setDeleteScope('following')}
+                    />
+                    This and all following sessions
+                  </label>
+                </div>
+              )}
               
               {showDeleteConfirm.enrolled_count > 0 && (
                 <div className="mt-3 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
@@ -0,0 +1,219 @@
+// frontend/src/components/staff/ClassMaterials.tsx
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { X, Loader2, Plus, Trash2, ExternalLink, Repeat } from 'lucide-react';
+import type { Class, ClassMaterial } from '../../types';
+import MaterialService from '../../services/material';
+
+interface ClassMaterialsProps {
+  classItem: Class;
+  onClose: () => void;
+}
+
+const emptyMaterial = {
+  title: '',
+  url: '',
+  description: '',
+  wholeSeries: false
+};
+
+// Links a tutor shares with the students of a class, or of every session in its series
+const ClassMaterials: React.FC<ClassMaterialsProps> = ({ classItem, onClose }) => {
+  const [materials, setMaterials] = useState<ClassMaterial[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [draft, setDraft] = useState(emptyMaterial);
+  const [saving, setSaving] = useState(false);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  const loadMaterials = useCallback(async () => {
+    try {
+      setMaterials(await MaterialService.getClassMaterials(classItem.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load class materials');
+    } finally {
+      setLoading(false);
+    }
+  }, [classItem.id]);
+
+  useEffect(() => {
+    loadMaterials();
+  }, [loadMaterials]);
+
+  const handleShare = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError('');
+    try {
+      await MaterialService.createMaterial(classItem.id, {
+        title: draft.title.trim(),
+        url: draft.url.trim(),
+        description: draft.description.trim() || undefined,
+        wholeSeries: draft.wholeSeries
+      });
+      setDraft(emptyMaterial);
+      await loadMaterials();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to share material');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (material: ClassMaterial) => {
+    setSaving(true);
+    setError('');
+    try {
+      await MaterialService.deleteMaterial(material.id);
+      setConfirmDeleteId(null);
+      await loadMaterials();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove material');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gradient-to-br from-white-100 to-indigo-200 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl p-8 w-full max-w-2xl relative shadow-2xl max-h-[90vh] overflow-y-auto">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 transition-colors"
+          type="button"
+        >
+          <X size={24} />
+        </button>
+
+        <h3 className="text-xl font-bold text-gray-800 mb-1">Materials for {classItem.subject}</h3>
+        <p className="text-sm text-gray-600 mb-6">
+          Enrolled students see these on their own dashboard.
+        </p>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-600 text-sm">{error}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="animate-spin text-indigo-600" size={24} />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {materials.length === 0 ? (
+              <p className="text-sm text-gray-500">Nothing shared with this class yet.</p>
+            ) : (
+              <div className="space-y-3">
+                {materials.map((material) => (
+                  <div key={material.id} className="flex items-start justify-between p-4 border border-gray-200 rounded-lg">
+                    <div className="min-w-0">
+                      <a
+                        href={material.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center space-x-1 font-semibold text-indigo-600 hover:text-indigo-800"
+                      >
+                        <span className="truncate">{material.title}</span>
+                        <ExternalLink size={14} />
+                      </a>
+                      {material.description && (
+                        <p className="text-sm text-gray-600 mt-1">{material.description}</p>
+                      )}
+                      <p className="text-xs text-gray-500 mt-1 flex items-center space-x-1">
+                        {material.series_id && <Repeat size={12} />}
+                        <span>
+                          {material.series_id ? 'All sessions' : 'This session'}
+                          {material.created_by_name && ` · ${material.created_by_name}`}
+                        </span>
+                      </p>
+                    </div>
+
+                    {confirmDeleteId === material.id ? (
+                      <div className="flex items-center space-x-2 flex-shrink-0">
+                        <button
+                          onClick={() => handleDelete(material)}
+                          disabled={saving}
+                          className="px-3 py-1 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                        >
+                          Delete
+                        </button>
+                        <button
+                          onClick={() => setConfirmDeleteId(null)}
+                          disabled={saving}
+                          className="px-3 py-1 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                        >
+                          Keep
+                        </button>
+                      </div>
+                    ) : (
+                      <button
+                        onClick={() => setConfirmDeleteId(material.id)}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors flex-shrink-0"
+                        title="Remove Material"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Share a new material */}
+            <form onSubmit={handleShare} className="p-4 bg-gray-50 rounded-lg space-y-3">
+              <h4 className="text-sm font-semibold text-gray-700">Share a Link</h4>
+              <input
+                type="text"
+                value={draft.title}
+                onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-indigo-500 focus:outline-none transition-colors"
+                placeholder="Title, e.g. Week 3 worksheet"
+                maxLength={200}
+                required
+              />
+              <input
+                type="url"
+                value={draft.url}
+                onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+                className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-indigo-500 focus:outline-none transition-colors"
+                placeholder="https://..."
+                required
+              />
+              <textarea
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-indigo-500 focus:outline-none transition-colors"
+                placeholder="Notes for students (optional)"
+                maxLength={1000}
+                rows={2}
+              />
+              {classItem.series_id && (
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={draft.wholeSeries}
+                    onChange={(e) => setDraft({ ...draft, wholeSeries: e.target.checked })}
+                    className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  <span>Share with every session of this recurring class</span>
+                </label>
+              )}
+              <button
+                type="submit"
+                disabled={saving || !draft.title.trim() || !draft.url.trim()}
+                className="flex items-center space-x-2 bg-indigo-500 text-white px-4 py-2 rounded-lg font-semibold hover:bg-indigo-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+              >
+                {saving ? <Loader2 className="animate-spin" size={16} /> : <Plus size={16} />}
+                <span>Share</span>
+              </button>
+            </form>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ClassMaterials;
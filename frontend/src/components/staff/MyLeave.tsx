@@ -0,0 +1,276 @@
+// frontend/src/components/staff/MyLeave.tsx
+
+import React, { useState, useEffect } from 'react';
+import { CalendarOff, Plus, Loader2, X } from 'lucide-react';
+import type { StaffLeave } from '../../types';
+import LeaveService from '../../services/leave';
+import DateInput from '../common/DateInput';
+
+const STATUS_STYLES: Record<StaffLeave['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-600'
+};
+
+// Ask for leave from teaching and follow its approval. Once leave is approved, an admin arranges a cover
+// tutor for each class in it; the classes stay yours and come back to you afterwards.
+const MyLeave: React.FC = () => {
+  const [leave, setLeave] = useState<StaffLeave[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const [showForm, setShowForm] = useState(false);
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const [confirmCancelId, setConfirmCancelId] = useState<string | null>(null);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+
+  const today = new Date().toLocaleDateString('en-CA');
+
+  const loadLeave = async () => {
+    try {
+      setLeave(await LeaveService.getMyLeave());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load your leave');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadLeave();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!startDate || !endDate) {
+      setError('Please choose the first and last day of your leave');
+      return;
+    }
+    if (endDate < startDate) {
+      setError('The last day of leave cannot be before the first');
+      return;
+    }
+    if (!reason.trim()) {
+      setError('Please give a reason for your leave');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    setMessage('');
+    try {
+      setMessage(await LeaveService.requestLeave(startDate, endDate, reason.trim()));
+      setShowForm(false);
+      setStartDate('');
+      setEndDate('');
+      setReason('');
+      await loadLeave();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to request leave');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancel = async (item: StaffLeave) => {
+    setCancellingId(item.id);
+    setError('');
+    setMessage('');
+    try {
+      setMessage(await LeaveService.cancelLeave(item.id));
+      await loadLeave();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to withdraw leave');
+    } finally {
+      setCancellingId(null);
+      setConfirmCancelId(null);
+    }
+  };
+
+  const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString('en-SG', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric'
+  });
+
+  const formatDates = (item: StaffLeave) => {
+    const start = formatDate(item.start_date);
+    const end = formatDate(item.end_date);
+    return start === end ? start : `${start} – ${end}`;
+  };
+
+  // Pending leave can be withdrawn any time; approved leave only until it starts
+  const canCancel = (item: StaffLeave) =>
+    item.status === 'pending' || (item.status === 'approved' && new Date(item.start_date) > new Date());
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="flex items-center space-x-3">
+          <Loader2 className="animate-spin text-indigo-600" size={24} />
+          <span className="text-lg text-gray-700">Loading your leave...</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="px-6 py-16">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div className="flex items-center space-x-3">
+          <CalendarOff className="text-indigo-500" size={32} />
+          <div>
+            <h1 className="text-3xl font-bold text-gray-800">My Leave</h1>
+            <p className="text-gray-600">Request time off; an admin approves it and arranges cover for your classes</p>
+          </div>
+        </div>
+
+        <button
+          onClick={() => setShowForm(true)}
+          className="flex items-center space-x-2 bg-indigo-500 hover:bg-indigo-600 text-white px-6 py-3 rounded-2xl transition-all duration-200 shadow-md text-lg font-semibold"
+        >
+          <Plus size={20} />
+          <span>Request Leave</span>
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-600">{error}</p>
+          <button
+            onClick={() => setError('')}
+            className="mt-2 text-sm text-red-700 hover:text-red-800 underline"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {message && (
+        <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+          <p className="text-green-700">{message}</p>
+        </div>
+      )}
+
+      {/* New request */}
+      {showForm && (
+        <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-lg border border-indigo-200 p-6 mb-8 space-y-4">
+          <h3 className="text-lg font-semibold text-gray-800">New Leave Request</h3>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">First day</label>
+              <DateInput value={startDate} onChange={setStartDate} min={today} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Last day</label>
+              <DateInput value={endDate} onChange={setEndDate} min={startDate || today} />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Reason</label>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={500}
+              rows={3}
+              className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-indigo-500 focus:outline-none transition-colors"
+              placeholder="e.g. Medical appointment, family event"
+            />
+          </div>
+
+          <div className="flex items-center space-x-3">
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex items-center space-x-2 px-4 py-2 bg-indigo-500 text-white rounded-lg hover:bg-indigo-600 transition-colors disabled:opacity-50"
+            >
+              {saving && <Loader2 className="animate-spin" size={16} />}
+              <span>Send Request</span>
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              disabled={saving}
+              className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Requests */}
+      <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6">
+        {leave.length === 0 ? (
+          <p className="text-sm text-gray-500">You have not requested any leave.</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {leave.map(item => (
+              <div key={item.id} className="py-3 flex items-start justify-between gap-4">
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <p className="font-medium text-gray-800">{formatDates(item)}</p>
+                    <span className={`px-2 py-0.5 text-xs font-medium rounded-full capitalize ${STATUS_STYLES[item.status]}`}>
+                      {item.status}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-600">{item.reason}</p>
+                  {item.reviewed_by_name && (
+                    <p className="text-sm text-gray-500">
+                      Answered by {item.reviewed_by_name}
+                      {item.review_note && `: ${item.review_note}`}
+                    </p>
+                  )}
+                </div>
+
+                {canCancel(item) && (
+                  <div className="flex items-center space-x-2">
+                    {confirmCancelId === item.id ? (
+                      <>
+                        <button
+                          onClick={() => handleCancel(item)}
+                          disabled={cancellingId !== null}
+                          className="flex items-center space-x-1 px-3 py-1 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                        >
+                          {cancellingId === item.id && <Loader2 className="animate-spin" size={14} />}
+                          <span>Withdraw</span>
+                        </button>
+                        <button
+                          onClick={() => setConfirmCancelId(null)}
+                          disabled={cancellingId !== null}
+                          className="px-3 py-1 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                        >
+                          Keep
+                        </button>
+                      </>
+                    ) : (
+                      <button
+                        onClick={() => setConfirmCancelId(item.id)}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                        title="Withdraw Request"
+                      >
+                        <X size={16} />
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MyLeave;
@@ -1,12 +1,22 @@
 // frontend/src/components/staff/StaffDashboard.tsx
 
 import React, { useState, useEffect } from 'react';
-import { BookOpen, UserCheck, Settings } from 'lucide-react';
+import { BookOpen, UserCheck, Settings, Users, MapPin, ClipboardList, KeyRound, BellRing, Tablet, CalendarOff, CalendarClock } from 'lucide-react';
 import ClassManagement from './ClassManagement';
 import AttendanceTracking from './AttendanceTracking';
 import ProfileManagement from '../profile/ProfileManagement';
+import StaffManagement from '../admin/StaffManagement';
+import BranchManagement from '../admin/BranchManagement';
+import AuditLog from '../admin/AuditLog';
+import AttendanceAlerts from '../admin/AttendanceAlerts';
+import KioskDevices from '../admin/KioskDevices';
+import LeaveApprovals from '../admin/LeaveApprovals';
+import MyLeave from './MyLeave';
+import RoleManagement from '../admin/RoleManagement';
+import { useAuth } from '../../hooks/useAuth';
+import { hasPermission } from '../../utils/permissions';
 
-type StaffTabType = 'classes' | 'attendance' | 'profile';
+type StaffTabType = 'classes' | 'attendance' | 'staff' | 'branches' | 'audit' | 'alerts' | 'kiosks' | 'leave' | 'approvals' | 'roles' | 'profile';
 
 interface TabConfig {
   id: StaffTabType;
@@ -14,6 +24,8 @@ interface TabConfig {
   icon: React.ReactNode;
   component: React.ReactNode;
   badge?: string;
+  // Only shown when the user's role grants this permission
+  permission?: string;
 }
 
 interface StaffDashboardProps {
@@ -25,6 +37,7 @@ const StaffDashboard: React.FC<StaffDashboardProps> = ({
   initialTab = 'classes', 
   onTabChange 
 }) => {
+  const { user } = useAuth();
   const [activeTab, setActiveTab] = useState<StaffTabType>(initialTab);
 
   const handleTabChange = (tab: StaffTabType) => {
@@ -39,18 +52,77 @@ const StaffDashboard: React.FC<StaffDashboardProps> = ({
     }
   }, [initialTab, activeTab]);
 
-  const tabs: TabConfig[] = [
+  const allTabs: TabConfig[] = [
     {
       id: 'classes',
       label: 'Class Management',
       icon: <BookOpen size={20} />,
       component: <ClassManagement />,
+      permission: 'class.edit',
     },
     {
       id: 'attendance',
       label: 'Attendance Tracking',
       icon: <UserCheck size={20} />,
       component: <AttendanceTracking />,
+      permission: 'attendance.mark',
+    },
+    // Staff roles can be given parts of the admin area, e.g. a branch manager or front desk
+    {
+      id: 'staff',
+      label: 'Staff Management',
+      icon: <Users size={20} />,
+      component: <StaffManagement />,
+      permission: 'staff.manage',
+    },
+    {
+      id: 'branches',
+      label: 'Branch Management',
+      icon: <MapPin size={20} />,
+      component: <BranchManagement />,
+      permission: 'branch.manage',
+    },
+    {
+      id: 'audit',
+      label: 'Audit Log',
+      icon: <ClipboardList size={20} />,
+      component: <AuditLog />,
+      permission: 'audit.view',
+    },
+    {
+      id: 'alerts',
+      label: 'Attendance Alerts',
+      icon: <BellRing size={20} />,
+      component: <AttendanceAlerts />,
+      permission: 'attendance.view_all',
+    },
+    {
+      id: 'kiosks',
+      label: 'Check-in Kiosks',
+      icon: <Tablet size={20} />,
+      component: <KioskDevices />,
+      permission: 'kiosk.manage',
+    },
+    {
+      id: 'leave',
+      label: 'My Leave',
+      icon: <CalendarOff size={20} />,
+      component: <MyLeave />,
+      permission: 'leave.request',
+    },
+    {
+      id: 'approvals',
+      label: 'Leave & Cover',
+      icon: <CalendarClock size={20} />,
+      component: <LeaveApprovals />,
+      permission: 'leave.manage',
+    },
+    {
+      id: 'roles',
+      label: 'Roles',
+      icon: <KeyRound size={20} />,
+      component: <RoleManagement />,
+      permission: 'role.manage',
     },
     {
       id: 'profile',
@@ -59,8 +131,9 @@ const StaffDashboard: React.FC<StaffDashboardProps> = ({
       component: <ProfileManagement />,
     },
   ];
+  const tabs = allTabs.filter(tab => !tab.permission || hasPermission(user, tab.permission));
 
-  const currentTab = tabs.find(tab => tab.id === activeTab);
+  const currentTab = tabs.find(tab => tab.id === activeTab) ?? tabs[0];
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -74,7 +147,7 @@ const StaffDashboard: React.FC<StaffDashboardProps> = ({
                 onClick={() => handleTabChange(tab.id)}
                 className={`
                   flex items-center space-x-2 py-4 px-2 border-b-2 font-medium text-sm transition-colors whitespace-nowrap
-                  ${activeTab === tab.id
+                  ${currentTab.id === tab.id
                     ? 'border-indigo-500 text-indigo-600'
                     : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
                   }
@@ -95,7 +168,7 @@ const StaffDashboard: React.FC<StaffDashboardProps> = ({
 
       {/* Tab Content */}
       <div className="max-w-6xl mx-auto pt-0">
-        {currentTab?.component}
+        {currentTab.component}
       </div>
     </div>
   );
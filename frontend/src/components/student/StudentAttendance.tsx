@@ -0,0 +1,158 @@
+// frontend/src/components/student/StudentAttendance.tsx
+
+import React, { useState, useEffect } from 'react';
+import { CheckCircle, Clock, XCircle, AlertCircle, UserCheck, Loader2 } from 'lucide-react';
+import type { StudentAttendanceHistory } from '../../types';
+import StudentPortalService from '../../services/studentPortal';
+
+const STATUS_LABELS: Record<keyof StudentAttendanceHistory['summary'], string> = {
+  present: 'Present',
+  late: 'Late',
+  absent: 'Absent',
+  excused: 'Excused',
+  not_marked: 'Not marked'
+};
+
+const StudentAttendance: React.FC = () => {
+  const [history, setHistory] = useState<StudentAttendanceHistory | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadAttendance();
+  }, []);
+
+  const loadAttendance = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      setHistory(await StudentPortalService.getAttendance());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load attendance');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-SG', {
+      weekday: 'short',
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'present':
+        return 'bg-green-100 text-green-800 border-green-200';
+      case 'late':
+        return 'bg-yellow-100 text-yellow-800 border-yellow-200';
+      case 'absent':
+        return 'bg-red-100 text-red-800 border-red-200';
+      case 'excused':
+        return 'bg-blue-100 text-blue-800 border-blue-200';
+      default:
+        return 'bg-gray-100 text-gray-800 border-gray-200';
+    }
+  };
+
+  const getStatusIcon = (status: string) => {
+    switch (status) {
+      case 'present':
+        return <CheckCircle size={16} />;
+      case 'late':
+        return <Clock size={16} />;
+      case 'absent':
+        return <XCircle size={16} />;
+      case 'excused':
+        return <AlertCircle size={16} />;
+      default:
+        return <UserCheck size={16} />;
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="flex items-center space-x-3">
+          <Loader2 className="animate-spin text-indigo-600" size={24} />
+          <span className="text-lg text-gray-700">Loading attendance...</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="px-6 py-16">
+      {/* Header */}
+      <div className="flex items-center space-x-3 mb-8">
+        <CheckCircle className="text-indigo-500" size={32} />
+        <div>
+          <h1 className="text-3xl font-bold text-gray-800">My Attendance</h1>
+          <p className="text-gray-600">Every class you have been enrolled in so far</p>
+        </div>
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-600">{error}</p>
+          <button
+            onClick={loadAttendance}
+            className="mt-2 text-sm text-red-700 hover:text-red-800 underline"
+          >
+            Try again
+          </button>
+        </div>
+      )}
+
+      {history && (
+        <>
+          {/* Summary Cards */}
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-8">
+            {(Object.keys(STATUS_LABELS) as (keyof typeof STATUS_LABELS)[]).map((status) => (
+              <div key={status} className="bg-white p-4 rounded-2xl shadow-lg border border-gray-100">
+                <div className={`inline-flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-semibold border ${getStatusColor(status)}`}>
+                  {getStatusIcon(status)}
+                  <span>{STATUS_LABELS[status]}</span>
+                </div>
+                <p className="text-2xl font-bold text-gray-800 mt-2">{history.summary[status]}</p>
+              </div>
+            ))}
+          </div>
+
+          {history.records.length === 0 ? (
+            <div className="text-center py-12">
+              <UserCheck className="mx-auto text-gray-300 mb-4" size={64} />
+              <h3 className="text-xl font-semibold text-gray-600 mb-2">No Classes Yet</h3>
+              <p className="text-gray-500">Your attendance will appear here after your first class.</p>
+            </div>
+          ) : (
+            <div className="bg-white rounded-2xl shadow-lg border border-gray-100 divide-y divide-gray-100">
+              {history.records.map((record) => (
+                <div key={record.class_id} className="flex items-center justify-between p-4">
+                  <div>
+                    <p className="font-semibold text-gray-800">{record.subject}</p>
+                    <p className="text-sm text-gray-500">
+                      {formatDateTime(record.start_time)}{record.branch_name && ` · ${record.branch_name}`}
+                    </p>
+                  </div>
+                  <span className={`flex items-center space-x-1 px-3 py-1 rounded-full text-xs font-semibold border ${getStatusColor(record.status || 'not_marked')}`}>
+                    {getStatusIcon(record.status || 'not_marked')}
+                    <span>{STATUS_LABELS[record.status || 'not_marked']}</span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default StudentAttendance;
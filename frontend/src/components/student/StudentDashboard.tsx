@@ -0,0 +1,111 @@
+// frontend/src/components/student/StudentDashboard.tsx
+
+import React, { useState, useEffect } from 'react';
+import { Calendar, CheckCircle, BookOpen, Settings } from 'lucide-react';
+import StudentTimetable from './StudentTimetable';
+import StudentAttendance from './StudentAttendance';
+import StudentMaterials from './StudentMaterials';
+import ProfileManagement from '../profile/ProfileManagement';
+
+type TabType = 'timetable' | 'attendance' | 'materials' | 'profile';
+
+interface TabConfig {
+  id: TabType;
+  label: string;
+  icon: React.ReactNode;
+  component: React.ReactNode;
+  badge?: string;
+}
+
+interface StudentDashboardProps {
+  initialTab?: TabType;
+  onTabChange?: (tab: TabType) => void;
+}
+
+const StudentDashboard: React.FC<StudentDashboardProps> = ({ 
+  initialTab = 'timetable', 
+  onTabChange 
+}) => {
+  const [activeTab, setActiveTab] = useState<TabType>(initialTab);
+
+  const handleTabChange = (tab: TabType) => {
+    setActiveTab(tab);
+    onTabChange?.(tab);
+  };
+
+  // Update active tab when initialTab prop changes
+  useEffect(() => {
+    if (initialTab && initialTab !== activeTab) {
+      setActiveTab(initialTab);
+    }
+  }, [initialTab, activeTab]);
+
+  const tabs: TabConfig[] = [
+    {
+      id: 'timetable',
+      label: 'My Timetable',
+      icon: <Calendar size={20} />,
+      component: <StudentTimetable />,
+    },
+    {
+      id: 'attendance',
+      label: 'Attendance',
+      icon: <CheckCircle size={20} />,
+      component: <StudentAttendance />,
+    },
+    {
+      id: 'materials',
+      label: 'Class Materials',
+      icon: <BookOpen size={20} />,
+      component: <StudentMaterials />,
+    },
+    {
+      id: 'profile',
+      label: 'Profile Settings',
+      icon: <Settings size={20} />,
+      component: <ProfileManagement />,
+    },
+  ];
+
+  const currentTab = tabs.find(tab => tab.id === activeTab);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Sticky Tab Navigation */}
+      <div className="sticky top-16 z-30 bg-white shadow-sm border-b border-gray-200 backdrop-blur-sm bg-opacity-95">
+        <div className="max-w-6xl mx-auto px-4">
+          <nav className="flex space-x-8 overflow-x-auto">
+            {tabs.map((tab) => (
+              <button
+                key={tab.id}
+                onClick={() => handleTabChange(tab.id)}
+                className={`
+                  flex items-center space-x-2 py-4 px-2 border-b-2 font-medium text-sm transition-colors whitespace-nowrap
+                  ${activeTab === tab.id
+                    ? 'border-indigo-500 text-indigo-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }
+                `}
+              >
+                {tab.icon}
+                <span>{tab.label}</span>
+                {tab.badge && (
+                  <span className="ml-2 bg-indigo-100 text-indigo-800 text-xs px-2 py-1 rounded-full">
+                    {tab.badge}
+                  </span>
+                )}
+              </button>
+            ))}
+          </nav>
+        </div>
+      </div>
+
+      {/* Tab Content with top padding to account for sticky header */}
+      <div className="max-w-6xl mx-auto pt-0">
+        {currentTab?.component}
+      </div>
+    </div>
+  );
+};
+
+export default StudentDashboard;
\ No newline at end of file
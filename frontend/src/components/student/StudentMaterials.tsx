@@ -0,0 +1,106 @@
+// frontend/src/components/student/StudentMaterials.tsx
+
+import React, { useState, useEffect } from 'react';
+import { BookOpen, ExternalLink, Loader2 } from 'lucide-react';
+import type { StudentMaterial } from '../../types';
+import StudentPortalService from '../../services/studentPortal';
+
+const StudentMaterials: React.FC = () => {
+  const [materials, setMaterials] = useState<StudentMaterial[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadMaterials();
+  }, []);
+
+  const loadMaterials = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      setMaterials(await StudentPortalService.getMaterials());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load class materials');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-SG', {
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric'
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="flex items-center space-x-3">
+          <Loader2 className="animate-spin text-indigo-600" size={24} />
+          <span className="text-lg text-gray-700">Loading class materials...</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="px-6 py-16">
+      {/* Header */}
+      <div className="flex items-center space-x-3 mb-8">
+        <BookOpen className="text-indigo-500" size={32} />
+        <div>
+          <h1 className="text-3xl font-bold text-gray-800">Class Materials</h1>
+          <p className="text-gray-600">Notes, worksheets and links shared by your tutors</p>
+        </div>
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-600">{error}</p>
+          <button
+            onClick={loadMaterials}
+            className="mt-2 text-sm text-red-700 hover:text-red-800 underline"
+          >
+            Try again
+          </button>
+        </div>
+      )}
+
+      {materials.length === 0 && !error ? (
+        <div className="text-center py-12">
+          <BookOpen className="mx-auto text-gray-300 mb-4" size={64} />
+          <h3 className="text-xl font-semibold text-gray-600 mb-2">No Materials Yet</h3>
+          <p className="text-gray-500">Anything your tutors share with your classes will appear here.</p>
+        </div>
+      ) : (
+        <div className="grid md:grid-cols-2 gap-4">
+          {materials.map((material) => (
+            <a
+              key={material.id}
+              href={material.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="block bg-white p-6 rounded-2xl shadow-lg border border-gray-100 hover:shadow-xl transition-all duration-300"
+            >
+              <div className="flex items-start justify-between">
+                <h3 className="text-lg font-bold text-gray-800">{material.title}</h3>
+                <ExternalLink className="text-indigo-500 flex-shrink-0" size={18} />
+              </div>
+              {material.description && (
+                <p className="mt-2 text-sm text-gray-600">{material.description}</p>
+              )}
+              <p className="mt-3 text-xs text-gray-500">
+                {material.subject} · {material.whole_series ? 'All sessions' : formatDate(material.class_start_time)} · Shared {formatDate(material.created_at)}
+              </p>
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StudentMaterials;
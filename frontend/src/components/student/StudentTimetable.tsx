@@ -0,0 +1,159 @@
+// frontend/src/components/student/StudentTimetable.tsx
+
+import React, { useState, useEffect } from 'react';
+import { Calendar, Clock, MapPin, User, Loader2 } from 'lucide-react';
+import type { StudentProfile, StudentTimetableEntry } from '../../types';
+import StudentPortalService from '../../services/studentPortal';
+import CheckInCode from '../students/CheckInCode';
+
+const StudentTimetable: React.FC = () => {
+  const [profile, setProfile] = useState<StudentProfile | null>(null);
+  const [entries, setEntries] = useState<StudentTimetableEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadTimetable();
+  }, []);
+
+  const loadTimetable = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const [studentProfile, timetable] = await Promise.all([
+        StudentPortalService.getProfile(),
+        StudentPortalService.getTimetable()
+      ]);
+      setProfile(studentProfile);
+      setEntries(timetable);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load timetable');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatDay = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-SG', {
+      weekday: 'long',
+      day: 'numeric',
+      month: 'long',
+      year: 'numeric'
+    });
+  };
+
+  const formatTime = (dateString: string) => {
+    return new Date(dateString).toLocaleTimeString('en-SG', {
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  // Classes grouped by day, in timetable order
+  const entriesByDay = entries.reduce((acc, entry) => {
+    const day = formatDay(entry.start_time);
+    if (!acc[day]) {
+      acc[day] = [];
+    }
+    acc[day].push(entry);
+    return acc;
+  }, {} as Record<string, StudentTimetableEntry[]>);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="flex items-center space-x-3">
+          <Loader2 className="animate-spin text-indigo-600" size={24} />
+          <span className="text-lg text-gray-700">Loading timetable...</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="px-6 py-16">
+      {/* Header */}
+      <div className="flex items-center space-x-3 mb-8">
+        <Calendar className="text-indigo-500" size={32} />
+        <div>
+          <h1 className="text-3xl font-bold text-gray-800">
+            {profile ? `Hi ${profile.first_name}` : 'My Timetable'}
+          </h1>
+          <p className="text-gray-600">
+            Your upcoming classes{profile?.home_branch_name && ` · Home branch: ${profile.home_branch_name}`}
+          </p>
+        </div>
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-600">{error}</p>
+          <button
+            onClick={loadTimetable}
+            className="mt-2 text-sm text-red-700 hover:text-red-800 underline"
+          >
+            Try again
+          </button>
+        </div>
+      )}
+
+      {profile && (
+        <div className="mb-8 bg-white p-6 rounded-2xl shadow-lg border border-gray-100">
+          <CheckInCode studentId={profile.id} />
+        </div>
+      )}
+
+      {entries.length === 0 && !error ? (
+        <div className="text-center py-12">
+          <Calendar className="mx-auto text-gray-300 mb-4" size={64} />
+          <h3 className="text-xl font-semibold text-gray-600 mb-2">No Upcoming Classes</h3>
+          <p className="text-gray-500">Classes your parent or guardian enrolls you in will appear here.</p>
+        </div>
+      ) : (
+        <div className="space-y-8">
+          {Object.entries(entriesByDay).map(([day, dayEntries]) => (
+            <div key={day}>
+              <h2 className="text-lg font-semibold text-gray-700 mb-3">{day}</h2>
+              <div className="grid md:grid-cols-2 gap-4">
+                {dayEntries.map((entry) => (
+                  <div key={entry.enrollment_id} className="bg-white p-6 rounded-2xl shadow-lg border border-gray-100">
+                    <div className="flex items-start justify-between mb-3">
+                      <h3 className="text-xl font-bold text-gray-800">{entry.subject}</h3>
+                      {entry.level && (
+                        <span className="px-2 py-1 text-xs bg-indigo-100 text-indigo-800 rounded-full">{entry.level}</span>
+                      )}
+                    </div>
+                    <div className="space-y-2 text-sm text-gray-700">
+                      <div className="flex items-center space-x-2">
+                        <Clock className="text-gray-600" size={16} />
+                        <span>{formatTime(entry.start_time)} – {formatTime(entry.end_time)}</span>
+                      </div>
+                      {entry.branch_name && (
+                        <div className="flex items-center space-x-2">
+                          <MapPin className="text-gray-600" size={16} />
+                          <span>{entry.branch_name}{entry.classroom_name && `, ${entry.classroom_name}`}</span>
+                        </div>
+                      )}
+                      {entry.tutor_first_name && (
+                        <div className="flex items-center space-x-2">
+                          <User className="text-gray-600" size={16} />
+                          <span>{entry.tutor_first_name} {entry.tutor_last_name}</span>
+                        </div>
+                      )}
+                    </div>
+                    {entry.description && (
+                      <p className="mt-3 text-sm text-gray-500">{entry.description}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StudentTimetable;
@@ -0,0 +1,114 @@
+// frontend/src/components/students/CheckInCode.tsx
+
+import React, { useState } from 'react';
+import { QrCode, ChevronDown, Loader2, RefreshCw } from 'lucide-react';
+import type { CheckInCredentials } from '../../types';
+import KioskService from '../../services/kiosk';
+
+interface CheckInCodeProps {
+  studentId: string;
+}
+
+// A student's QR code and PIN for checking in at the centre's kiosk, loaded when first opened. A new
+// code can be issued if a printed card or phone is lost; the old QR code and PIN stop working.
+const CheckInCode: React.FC<CheckInCodeProps> = ({ studentId }) => {
+  const [open, setOpen] = useState(false);
+  const [credentials, setCredentials] = useState<CheckInCredentials | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [confirmReset, setConfirmReset] = useState(false);
+
+  const handleToggle = async () => {
+    setOpen(!open);
+    if (open || credentials) return;
+
+    setLoading(true);
+    setError('');
+    try {
+      setCredentials(await KioskService.getCheckInCredentials(studentId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load check-in code');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReset = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      setCredentials(await KioskService.resetCheckInCredentials(studentId));
+      setConfirmReset(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reset check-in code');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div>
+      <button
+        onClick={handleToggle}
+        className="flex items-center space-x-3 text-gray-700 hover:text-indigo-700"
+      >
+        <QrCode className="text-gray-600" size={16} />
+        <span className="font-medium">Check-in code</span>
+        <ChevronDown size={14} className={`transition-transform ${open ? 'rotate-180' : ''}`} />
+      </button>
+
+      {open && (
+        <div className="mt-3 ml-7">
+          {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+
+          {loading && !credentials ? (
+            <div className="flex items-center space-x-2 text-gray-500">
+              <Loader2 className="animate-spin" size={16} />
+              <span className="text-sm">Loading...</span>
+            </div>
+          ) : credentials && (
+            <div className="flex items-center space-x-4">
+              <img src={credentials.qr_code} alt="Check-in QR code" className="w-32 h-32 border border-gray-200 rounded-lg" />
+              <div className="space-y-2">
+                <p className="text-sm text-gray-600">
+                  Scan at the kiosk, or enter the PIN
+                </p>
+                <p className="text-2xl font-mono font-bold tracking-widest text-gray-800">{credentials.pin}</p>
+
+                {confirmReset ? (
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={handleReset}
+                      disabled={loading}
+                      className="flex items-center space-x-1 px-3 py-1 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                    >
+                      {loading && <Loader2 className="animate-spin" size={14} />}
+                      <span>Issue New Code</span>
+                    </button>
+                    <button
+                      onClick={() => setConfirmReset(false)}
+                      disabled={loading}
+                      className="px-3 py-1 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                    >
+                      Keep
+                    </button>
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => setConfirmReset(true)}
+                    className="flex items-center space-x-1 text-sm text-indigo-600 hover:text-indigo-800"
+                  >
+                    <RefreshCw size={14} />
+                    <span>Lost it? Issue a new code</span>
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CheckInCode;
@@ -0,0 +1,339 @@
+// frontend/src/components/students/GuardianManagement.tsx
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { X, Loader2, Mail, Trash2, Star, Send } from 'lucide-react';
+import type { Student, StudentGuardian, GuardianInvitation, GuardianRelationship, StudentGuardians, UpdateGuardianRequest } from '../../types';
+import GuardianService from '../../services/guardian';
+import { useAuth } from '../../hooks/useAuth';
+
+interface GuardianManagementProps {
+  student: Student;
+  onClose: () => void;
+  onLeft: () => void; // called after the signed-in parent removes themselves
+}
+
+const RELATIONSHIPS: GuardianRelationship[] = ['parent', 'mother', 'father', 'guardian', 'grandparent', 'other'];
+
+const PERMISSIONS: { key: 'can_enroll' | 'can_view_payments' | 'receives_notices'; field: 'canEnroll' | 'canViewPayments' | 'receivesNotices'; label: string }[] = [
+  { key: 'can_enroll', field: 'canEnroll', label: 'Can enroll' },
+  { key: 'can_view_payments', field: 'canViewPayments', label: 'Sees payments' },
+  { key: 'receives_notices', field: 'receivesNotices', label: 'Receives notices' }
+];
+
+const emptyInvite = {
+  email: '',
+  relationship: 'parent' as GuardianRelationship,
+  canEnroll: true,
+  canViewPayments: true,
+  receivesNotices: true
+};
+
+// A child's guardians: the primary guardian invites others and decides what each may do
+const GuardianManagement: React.FC<GuardianManagementProps> = ({ student, onClose, onLeft }) => {
+  const { user } = useAuth();
+  const [data, setData] = useState<StudentGuardians | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [invite, setInvite] = useState(emptyInvite);
+  const [sending, setSending] = useState(false);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [confirmRemoveId, setConfirmRemoveId] = useState<string | null>(null);
+
+  const loadGuardians = useCallback(async () => {
+    try {
+      setData(await GuardianService.getStudentGuardians(student.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load guardians');
+    } finally {
+      setLoading(false);
+    }
+  }, [student.id]);
+
+  useEffect(() => {
+    loadGuardians();
+  }, [loadGuardians]);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSending(true);
+    setError('');
+    setMessage('');
+    try {
+      const result = await GuardianService.inviteGuardian(student.id, { ...invite, email: invite.email.trim() });
+      setMessage(result.message);
+      setInvite(emptyInvite);
+      await loadGuardians();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send invitation');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleUpdate = async (guardian: StudentGuardian, changes: UpdateGuardianRequest) => {
+    setSavingId(guardian.guardian_id);
+    setError('');
+    setMessage('');
+    try {
+      await GuardianService.updateGuardian(student.id, guardian.guardian_id, changes);
+      await loadGuardians();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update guardian');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleRemove = async (guardian: StudentGuardian) => {
+    setSavingId(guardian.guardian_id);
+    setError('');
+    setMessage('');
+    try {
+      const resultMessage = await GuardianService.removeGuardian(student.id, guardian.guardian_id);
+      if (guardian.guardian_id === user?.id) {
+        onLeft();
+        return;
+      }
+      setMessage(resultMessage);
+      setConfirmRemoveId(null);
+      await loadGuardians();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove guardian');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleRevoke = async (invitation: GuardianInvitation) => {
+    setSavingId(invitation.id);
+    setError('');
+    setMessage('');
+    try {
+      setMessage(await GuardianService.revokeInvitation(invitation.id));
+      await loadGuardians();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to withdraw invitation');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const isPrimary = data?.is_primary ?? false;
+
+  return (
+    <div className="fixed inset-0 bg-gradient-to-br from-white-100 to-indigo-200 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl p-8 w-full max-w-2xl relative shadow-2xl max-h-[90vh] overflow-y-auto">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 transition-colors"
+          type="button"
+        >
+          <X size={24} />
+        </button>
+
+        <h2 className="text-2xl font-bold text-center mb-6 text-gray-800">
+          Guardians of {student.first_name} {student.last_name}
+        </h2>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-600 text-sm">{error}</p>
+          </div>
+        )}
+
+        {message && (
+          <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg">
+            <p className="text-green-700 text-sm">{message}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="animate-spin text-indigo-600" size={24} />
+          </div>
+        ) : data && (
+          <div className="space-y-6">
+            {/* Current guardians */}
+            <div className="space-y-3">
+              {data.guardians.map((guardian) => {
+                const isSelf = guardian.guardian_id === user?.id;
+                const canRemove = !guardian.is_primary && (isPrimary || isSelf);
+
+                return (
+                  <div key={guardian.guardian_id} className="p-4 border border-gray-200 rounded-lg">
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <p className="font-semibold text-gray-800 flex items-center space-x-2">
+                          <span>{guardian.first_name} {guardian.last_name}{isSelf && ' (you)'}</span>
+                          {guardian.is_primary && (
+                            <span className="flex items-center space-x-1 px-2 py-0.5 text-xs bg-indigo-100 text-indigo-800 rounded-full">
+                              <Star size={12} />
+                              <span>Primary</span>
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-sm text-gray-500">{guardian.email}</p>
+                      </div>
+
+                      <div className="flex items-center space-x-2">
+                        {isPrimary && !guardian.is_primary ? (
+                          <select
+                            value={guardian.relationship}
+                            onChange={(e) => handleUpdate(guardian, { relationship: e.target.value as GuardianRelationship })}
+                            disabled={savingId !== null}
+                            className="p-1 text-sm border border-gray-200 rounded-lg capitalize focus:border-indigo-500 focus:outline-none"
+                          >
+                            {RELATIONSHIPS.map(relationship => (
+                              <option key={relationship} value={relationship}>{relationship}</option>
+                            ))}
+                          </select>
+                        ) : (
+                          <span className="text-sm text-gray-600 capitalize">{guardian.relationship}</span>
+                        )}
+
+                        {canRemove && (
+                          confirmRemoveId === guardian.guardian_id ? (
+                            <>
+                              <button
+                                onClick={() => handleRemove(guardian)}
+                                disabled={savingId !== null}
+                                className="flex items-center space-x-1 px-3 py-1 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                              >
+                                {savingId === guardian.guardian_id && <Loader2 className="animate-spin" size={14} />}
+                                <span>{isSelf ? 'Leave' : 'Remove'}</span>
+                              </button>
+                              <button
+                                onClick={() => setConfirmRemoveId(null)}
+                                disabled={savingId !== null}
+                                className="px-3 py-1 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                              >
+                                Keep
+                              </button>
+                            </>
+                          ) : (
+                            <button
+                              onClick={() => setConfirmRemoveId(guardian.guardian_id)}
+                              className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                              title={isSelf ? 'Stop being a guardian' : 'Remove Guardian'}
+                            >
+                              <Trash2 size={16} />
+                            </button>
+                          )
+                        )}
+                      </div>
+                    </div>
+
+                    <div className="mt-3 flex flex-wrap gap-4">
+                      {PERMISSIONS.map(({ key, field, label }) => {
+                        // The primary guardian always enrolls and pays; others may only opt out of notices themselves
+                        const editable = key === 'receives_notices'
+                          ? isPrimary || isSelf
+                          : isPrimary && !guardian.is_primary;
+
+                        return (
+                          <label key={key} className={`flex items-center space-x-2 text-sm ${editable ? 'text-gray-700' : 'text-gray-400'}`}>
+                            <input
+                              type="checkbox"
+                              checked={guardian[key]}
+                              onChange={(e) => handleUpdate(guardian, { [field]: e.target.checked })}
+                              disabled={!editable || savingId !== null}
+                              className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                            />
+                            <span>{label}</span>
+                          </label>
+                        );
+                      })}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* Invitations waiting for an answer */}
+            {data.invitations.length > 0 && (
+              <div>
+                <h3 className="text-sm font-semibold text-gray-700 mb-2">Pending Invitations</h3>
+                <div className="space-y-2">
+                  {data.invitations.map((invitation) => (
+                    <div key={invitation.id} className="flex items-center justify-between p-3 bg-amber-50 border border-amber-100 rounded-lg">
+                      <div className="flex items-center space-x-2">
+                        <Mail className="text-amber-600" size={16} />
+                        <div>
+                          <p className="text-sm text-gray-800">
+                            {invitation.email} <span className="text-gray-500 capitalize">({invitation.relationship})</span>
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            Expires {new Date(invitation.expires_at).toLocaleDateString('en-SG')}
+                          </p>
+                        </div>
+                      </div>
+                      {isPrimary && (
+                        <button
+                          onClick={() => handleRevoke(invitation)}
+                          disabled={savingId !== null}
+                          className="px-3 py-1 text-sm text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+                        >
+                          Withdraw
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Invite another parent */}
+            {isPrimary && (
+              <form onSubmit={handleInvite} className="p-4 bg-gray-50 rounded-lg space-y-4">
+                <h3 className="text-sm font-semibold text-gray-700">Invite Another Guardian</h3>
+                <div className="grid md:grid-cols-3 gap-3">
+                  <input
+                    type="email"
+                    value={invite.email}
+                    onChange={(e) => setInvite({ ...invite, email: e.target.value })}
+                    className="md:col-span-2 p-3 border-2 border-gray-200 rounded-lg focus:border-indigo-500 focus:outline-none transition-colors"
+                    placeholder="Email address"
+                    required
+                  />
+                  <select
+                    value={invite.relationship}
+                    onChange={(e) => setInvite({ ...invite, relationship: e.target.value as GuardianRelationship })}
+                    className="p-3 border-2 border-gray-200 rounded-lg capitalize focus:border-indigo-500 focus:outline-none transition-colors"
+                  >
+                    {RELATIONSHIPS.map(relationship => (
+                      <option key={relationship} value={relationship}>{relationship}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex flex-wrap gap-4">
+                  {PERMISSIONS.map(({ key, field, label }) => (
+                    <label key={key} className="flex items-center space-x-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={invite[field]}
+                        onChange={(e) => setInvite({ ...invite, [field]: e.target.checked })}
+                        className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                      />
+                      <span>{label}</span>
+                    </label>
+                  ))}
+                </div>
+                <button
+                  type="submit"
+                  disabled={sending || !invite.email.trim()}
+                  className="flex items-center space-x-2 bg-indigo-500 text-white px-4 py-2 rounded-lg font-semibold hover:bg-indigo-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+                >
+                  {sending ? <Loader2 className="animate-spin" size={16} /> : <Send size={16} />}
+                  <span>{sending ? 'Sending...' : 'Send Invitation'}</span>
+                </button>
+              </form>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GuardianManagement;
@@ -0,0 +1,222 @@
+// frontend/src/components/students/StudentAccountForm.tsx
+
+import React, { useState } from 'react';
+import { X, Loader2, KeyRound, CheckCircle } from 'lucide-react';
+import type { Student } from '../../types';
+import StudentService from '../../services/student';
+import { isValidEmail, getPasswordValidationError, describePasswordPolicy } from '../../utils/validation';
+import { usePasswordPolicy } from '../../hooks/usePasswordPolicy';
+
+interface StudentAccountFormProps {
+  student: Student;
+  onClose: () => void;
+  onChanged: () => void; // called instead of onClose once the login was created or removed
+}
+
+// A child's own sign-in: lets them see their timetable, attendance and class materials, but not payments or enrollment
+const StudentAccountForm: React.FC<StudentAccountFormProps> = ({ student, onClose, onChanged }) => {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [confirmRemove, setConfirmRemove] = useState(false);
+  const [changed, setChanged] = useState(false);
+  const passwordPolicy = usePasswordPolicy();
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!isValidEmail(email.trim())) {
+      setError('Please enter a valid email address');
+      return;
+    }
+
+    const passwordError = getPasswordValidationError(password, passwordPolicy);
+    if (passwordError) {
+      setError(passwordError);
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    try {
+      const result = await StudentService.createStudentAccount(student.id, { email: email.trim(), password });
+      setMessage(result.message);
+      setPassword('');
+      setConfirmPassword('');
+      setChanged(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create student login');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      setMessage(await StudentService.removeStudentAccount(student.id));
+      setConfirmRemove(false);
+      setChanged(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove student login');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleClose = () => (changed ? onChanged() : onClose());
+
+  return (
+    <div className="fixed inset-0 bg-gradient-to-br from-white-100 to-indigo-200 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl p-8 w-full max-w-md relative shadow-2xl">
+        <button
+          onClick={handleClose}
+          className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 transition-colors"
+          type="button"
+        >
+          <X size={24} />
+        </button>
+
+        <h2 className="text-2xl font-bold text-center mb-2 text-gray-800">
+          Student Login for {student.first_name}
+        </h2>
+        <p className="text-sm text-gray-500 text-center mb-6">
+          {student.first_name} can sign in to see their timetable, attendance and class materials. They cannot see payments or change enrollments.
+        </p>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-600 text-sm">{error}</p>
+          </div>
+        )}
+
+        {message ? (
+          <div className="space-y-4">
+            <div className="flex items-start space-x-3 p-3 bg-green-50 border border-green-200 rounded-lg">
+              <CheckCircle className="text-green-600 flex-shrink-0" size={20} />
+              <p className="text-green-700 text-sm">{message}</p>
+            </div>
+            <button
+              type="button"
+              onClick={handleClose}
+              className="w-full bg-indigo-500 text-white p-3 rounded-lg font-semibold hover:bg-indigo-600 transition-all duration-200"
+            >
+              Done
+            </button>
+          </div>
+        ) : student.account_email ? (
+          <div className="space-y-4">
+            <div className="flex items-center space-x-3 p-4 bg-gray-50 rounded-lg">
+              <KeyRound className="text-indigo-600" size={20} />
+              <div>
+                <p className="text-sm text-gray-500">Signs in as</p>
+                <p className="font-medium text-gray-800">{student.account_email}</p>
+              </div>
+            </div>
+
+            {confirmRemove ? (
+              <div className="flex items-center justify-end space-x-3">
+                <span className="text-sm text-gray-600">Stop {student.first_name} from signing in?</span>
+                <button
+                  onClick={handleRemove}
+                  disabled={saving}
+                  className="flex items-center space-x-1 px-3 py-1 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                >
+                  {saving && <Loader2 className="animate-spin" size={14} />}
+                  <span>Remove</span>
+                </button>
+                <button
+                  onClick={() => setConfirmRemove(false)}
+                  disabled={saving}
+                  className="px-3 py-1 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                >
+                  Keep
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={() => setConfirmRemove(true)}
+                className="w-full p-3 text-red-600 border-2 border-red-200 rounded-lg font-semibold hover:bg-red-50 transition-colors"
+              >
+                Remove Access
+              </button>
+            )}
+          </div>
+        ) : (
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Email
+              </label>
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => {
+                  setEmail(e.target.value);
+                  setError('');
+                }}
+                className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-indigo-500 focus:outline-none transition-colors"
+                placeholder="Your child's email address"
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Password
+              </label>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => {
+                  setPassword(e.target.value);
+                  setError('');
+                }}
+                className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-indigo-500 focus:outline-none transition-colors"
+                placeholder={describePasswordPolicy(passwordPolicy)}
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Confirm Password
+              </label>
+              <input
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => {
+                  setConfirmPassword(e.target.value);
+                  setError('');
+                }}
+                className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-indigo-500 focus:outline-none transition-colors"
+                placeholder="Re-enter the password"
+                required
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={saving}
+              className="w-full flex items-center justify-center space-x-2 bg-indigo-500 text-white p-3 rounded-lg font-semibold hover:bg-indigo-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+            >
+              {saving && <Loader2 className="animate-spin" size={16} />}
+              <span>{saving ? 'Creating...' : 'Create Login'}</span>
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StudentAccountForm;
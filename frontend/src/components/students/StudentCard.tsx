@@ -1,16 +1,38 @@
 // frontend/src/components/students/StudentCard.tsx
 
-import React from 'react';
-import { User, GraduationCap, MapPin, Edit2, Trash2, Calendar } from 'lucide-react';
-import type { Student } from '../../types';
+import React, { useState, useEffect } from 'react';
+import { User, GraduationCap, MapPin, Edit2, Trash2, Calendar, Users, Heart, KeyRound, ClipboardCheck, ChevronDown } from 'lucide-react';
+import type { Student, StudentAttendanceStats } from '../../types';
+import AttendanceService from '../../services/attendance';
+import CheckInCode from './CheckInCode';
 
 interface StudentCardProps {
   student: Student;
   onEdit: (student: Student) => void;
   onDelete: (student: Student) => void;
+  onManageGuardians: (student: Student) => void;
+  onManageAccount: (student: Student) => void;
 }
 
-const StudentCard: React.FC<StudentCardProps> = ({ student, onEdit, onDelete }) => {
+// Colour an attendance rate: green from 90%, amber from 75%, red below
+const rateColor = (rate: number | null) => {
+  if (rate === null) return 'text-gray-500';
+  if (rate >= 90) return 'text-green-600';
+  if (rate >= 75) return 'text-amber-600';
+  return 'text-red-600';
+};
+
+const StudentCard: React.FC<StudentCardProps> = ({ student, onEdit, onDelete, onManageGuardians, onManageAccount }) => {
+  const [attendance, setAttendance] = useState<StudentAttendanceStats | null>(null);
+  const [attendanceError, setAttendanceError] = useState('');
+  const [showSubjects, setShowSubjects] = useState(false);
+
+  useEffect(() => {
+    AttendanceService.getStudentAttendanceStats(student.id)
+      .then(setAttendance)
+      .catch(err => setAttendanceError(err instanceof Error ? err.message : 'Failed to load attendance'));
+  }, [student.id]);
+
   const formatDate = (dateString?: string) => {
     if (!dateString) return 'Not provided';
     const date = new Date(dateString);
@@ -56,19 +78,39 @@ const StudentCard: React.FC<StudentCardProps> = ({ student, onEdit, onDelete })
         {/* Action Buttons */}
         <div className="flex space-x-2">
           <button
-            onClick={() => onEdit(student)}
-            className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
-            title="Edit Student"
+            onClick={() => onManageGuardians(student)}
+            className="p-2 text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+            title="Guardians"
           >
-            <Edit2 size={16} />
-          </button>
-          <button
-            onClick={() => onDelete(student)}
-            className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
-            title="Delete Student"
-          >
-            <Trash2 size={16} />
+            <Users size={16} />
           </button>
+          {student.can_enroll !== false && (
+            <button
+              onClick={() => onManageAccount(student)}
+              className="p-2 text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+              title="Student Login"
+            >
+              <KeyRound size={16} />
+            </button>
+          )}
+          {student.can_enroll !== false && (
+            <button
+              onClick={() => onEdit(student)}
+              className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+              title="Edit Student"
+            >
+              <Edit2 size={16} />
+            </button>
+          )}
+          {student.is_primary_guardian !== false && (
+            <button
+              onClick={() => onDelete(student)}
+              className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+              title="Delete Student"
+            >
+              <Trash2 size={16} />
+            </button>
+          )}
         </div>
       </div>
 
@@ -91,6 +133,24 @@ const StudentCard: React.FC<StudentCardProps> = ({ student, onEdit, onDelete })
           </div>
         )}
 
+        {student.is_primary_guardian === false && student.relationship && (
+          <div className="flex items-center space-x-3">
+            <Heart className="text-gray-600" size={16} />
+            <span className="text-gray-700">
+              <span className="font-medium">You are:</span> <span className="ml-2 capitalize">{student.relationship}</span>
+            </span>
+          </div>
+        )}
+
+        {student.account_email && (
+          <div className="flex items-center space-x-3">
+            <KeyRound className="text-gray-600" size={16} />
+            <span className="text-gray-700">
+              <span className="font-medium">Signs in as:</span> <span className="ml-2">{student.account_email}</span>
+            </span>
+          </div>
+        )}
+
         {student.home_branch_name && (
           <div className="flex items-center space-x-3">
             <MapPin className="text-gray-600" size={16} />
@@ -101,6 +161,75 @@ const StudentCard: React.FC<StudentCardProps> = ({ student, onEdit, onDelete })
         )}
       </div>
 
+      {/* Attendance */}
+      <div className="mt-4 pt-4 border-t border-gray-100">
+        <div className="flex items-center space-x-3">
+          <ClipboardCheck className="text-gray-600" size={16} />
+          <span className="font-medium text-gray-700">Attendance:</span>
+          {attendanceError ? (
+            <span className="text-sm text-red-600">{attendanceError}</span>
+          ) : !attendance ? (
+            <span className="text-sm text-gray-500">Loading...</span>
+          ) : attendance.attendance_rate === null ? (
+            <span className="text-sm text-gray-500">No classes marked yet</span>
+          ) : (
+            <span className={`font-semibold ${rateColor(attendance.attendance_rate)}`}>
+              {attendance.attendance_rate}%
+            </span>
+          )}
+        </div>
+
+        {attendance && attendance.attendance_rate !== null && (
+          <div className="mt-2 ml-7 space-y-2">
+            <p className="text-sm text-gray-600">
+              {attendance.summary.present + attendance.summary.late} attended
+              {attendance.summary.late > 0 && ` (${attendance.summary.late} late)`}
+              {' · '}{attendance.summary.absent} absent
+              {attendance.summary.excused > 0 && ` · ${attendance.summary.excused} excused`}
+            </p>
+            {attendance.current_streak && (
+              <p className={`text-sm ${attendance.current_streak.status === 'absent' ? 'text-red-600' : 'text-gray-600'}`}>
+                {attendance.current_streak.status === 'absent'
+                  ? `Missed the last ${attendance.current_streak.length} ${attendance.current_streak.length === 1 ? 'class' : 'classes'}`
+                  : `${attendance.current_streak.length} ${attendance.current_streak.length === 1 ? 'class' : 'classes'} attended in a row`}
+                {attendance.longest_attended_streak > 1 && ` · best run ${attendance.longest_attended_streak}`}
+              </p>
+            )}
+
+            {attendance.subjects.length > 0 && (
+              <button
+                onClick={() => setShowSubjects(!showSubjects)}
+                className="flex items-center space-x-1 text-sm text-indigo-600 hover:text-indigo-800"
+              >
+                <span>By subject</span>
+                <ChevronDown size={14} className={`transition-transform ${showSubjects ? 'rotate-180' : ''}`} />
+              </button>
+            )}
+
+            {showSubjects && (
+              <ul className="space-y-1">
+                {attendance.subjects.map(subject => (
+                  <li key={subject.subject} className="flex items-center justify-between text-sm">
+                    <span className="text-gray-700">{subject.subject}</span>
+                    <span className={rateColor(subject.attendance_rate)}>
+                      {subject.attendance_rate === null ? 'Not marked' : `${subject.attendance_rate}%`}
+                      <span className="text-gray-400 ml-2">
+                        ({subject.present + subject.late}/{subject.present + subject.late + subject.absent})
+                      </span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Kiosk check-in */}
+      <div className="mt-4 pt-4 border-t border-gray-100">
+        <CheckInCode studentId={student.id} />
+      </div>
+
       {/* Footer */}
       <div className="mt-6 pt-4 border-t border-gray-100">
         <p className="text-xs text-gray-400">
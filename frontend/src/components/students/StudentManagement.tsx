@@ -6,6 +6,8 @@ import type { Student } from '../../types';
 import StudentService from '../../services/student';
 import StudentCard from './StudentCard';
 import StudentForm from './StudentForm';
+import GuardianManagement from './GuardianManagement';
+import StudentAccountForm from './StudentAccountForm';
 
 const StudentManagement: React.FC = () => {
   const [students, setStudents] = useState<Student[]>([]);
@@ -14,6 +16,8 @@ const StudentManagement: React.FC = () => {
   const [showForm, setShowForm] = useState(false);
   const [editingStudent, setEditingStudent] = useState<Student | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<Student | null>(null);
+  const [guardiansStudent, setGuardiansStudent] = useState<Student | null>(null);
+  const [accountStudent, setAccountStudent] = useState<Student | null>(null);
 
   useEffect(() => {
     loadStudents();
@@ -130,6 +134,8 @@ const StudentManagement: React.FC = () => {
               student={student}
               onEdit={handleEditStudent}
               onDelete={handleDeleteStudent}
+              onManageGuardians={setGuardiansStudent}
+              onManageAccount={setAccountStudent}
             />
           ))}
         </div>
@@ -143,6 +149,30 @@ const StudentManagement: React.FC = () => {
         onSuccess={handleFormSuccess}
       />
 
+      {/* Guardians Modal */}
+      {guardiansStudent && (
+        <GuardianManagement
+          student={guardiansStudent}
+          onClose={() => setGuardiansStudent(null)}
+          onLeft={() => {
+            setGuardiansStudent(null);
+            loadStudents();
+          }}
+        />
+      )}
+
+      {/* Student Login Modal */}
+      {accountStudent && (
+        <StudentAccountForm
+          student={accountStudent}
+          onClose={() => setAccountStudent(null)}
+          onChanged={() => {
+            setAccountStudent(null);
+            loadStudents();
+          }}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       {showDeleteConfirm && (
         <div className="fixed inset-0 bg-gradient-to-br from-white-100 to-indigo-200 backdrop-blur-sm flex items-center justify-center z-50">
@@ -3,7 +3,7 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import type { ReactNode } from 'react';
 import AuthService from '../services/auth';
-import type { User, AuthContextType, RegisterRequest } from '../types';
+import type { User, AuthContextType, RegisterRequest, TwoFactorChallenge, TwoFactorVerification, TwoFactorSetupResult } from '../types';
 
 const AuthContext = createContext<AuthContextType | null>(null);
 
@@ -33,9 +33,28 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     initializeAuth();
   }, []);
 
-  const login = async (email: string, password: string): Promise<void> => {
+  const login = async (email: string, password: string): Promise<TwoFactorChallenge | null> => {
     const response = await AuthService.login({ email, password });
+    if (!('user' in response)) {
+      return response;
+    }
     setUser(response.user);
+    return null;
+  };
+
+  const completeTwoFactorLogin = async (challengeToken: string, verification: TwoFactorVerification): Promise<void> => {
+    const response = await AuthService.verifyTwoFactorLogin(challengeToken, verification);
+    setUser(response.user);
+  };
+
+  // The session is stored straight away, but the user is only set once the recovery codes have been
+  // saved, because signing in swaps the layout and would close the dialog showing them
+  const completeTwoFactorSetup = async (challengeToken: string, code: string): Promise<TwoFactorSetupResult> => {
+    const response = await AuthService.enableTwoFactorLoginSetup(challengeToken, code);
+    return {
+      recoveryCodes: response.recoveryCodes,
+      finish: () => setUser(response.user)
+    };
   };
 
   const register = async (registrationData: RegisterRequest): Promise<void> => {
@@ -48,15 +67,29 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     setUser(null);
   };
 
+  const logoutAllDevices = async (): Promise<void> => {
+    await AuthService.logoutAllDevices();
+    setUser(null);
+  };
+
+  // Profile updates don't return the role's permissions or branches, so keep the ones from sign-in
   const updateUserProfile = (updatedUser: User): void => {
-    setUser(updatedUser);
+    setUser(current => ({
+      ...updatedUser,
+      role_name: updatedUser.role_name ?? current?.role_name,
+      permissions: updatedUser.permissions ?? current?.permissions,
+      branch_ids: updatedUser.branch_ids !== undefined ? updatedUser.branch_ids : current?.branch_ids
+    }));
   };
 
   const value: AuthContextType = {
     user,
     login,
+    completeTwoFactorLogin,
+    completeTwoFactorSetup,
     register,
     logout,
+    logoutAllDevices,
     updateUserProfile,
     loading,
     isAuthenticated: !!user,
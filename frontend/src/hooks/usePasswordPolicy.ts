@@ -0,0 +1,27 @@
+// frontend/src/hooks/usePasswordPolicy.ts
+
+import { useState, useEffect } from 'react';
+import AuthService from '../services/auth';
+import { DEFAULT_PASSWORD_POLICY } from '../utils/validation';
+import type { PasswordPolicy } from '../types';
+
+// Server password policy for form validation; the defaults apply until it loads (or if it cannot)
+export const usePasswordPolicy = (): PasswordPolicy => {
+  const [policy, setPolicy] = useState<PasswordPolicy>(DEFAULT_PASSWORD_POLICY);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    AuthService.getPasswordPolicy()
+      .then(loaded => {
+        if (!cancelled) setPolicy(loaded);
+      })
+      .catch(error => console.error('Failed to load password policy:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return policy;
+};
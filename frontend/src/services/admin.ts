@@ -8,6 +8,12 @@ import type {
   UnassignedClass,
   AssignTutorRequest,
   UserOverview,
+  LockedAccount,
+  StaffRoleOption,
+  SubstituteSuggestion,
+  TeachingProfile,
+  UpdateTeachingProfileRequest,
+  TutorSuggestion,
   ApiError 
 } from '../types';
 import AuthService from './auth';
@@ -175,6 +181,157 @@ class AdminService {
     }
   }
 
+  static async getTeachingProfile(staffId: string): Promise<TeachingProfile> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/admin/staff/${staffId}/teaching-profile`, {
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while fetching the teaching profile');
+    }
+  }
+
+  static async updateTeachingProfile(staffId: string, profile: UpdateTeachingProfileRequest): Promise<string> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/admin/staff/${staffId}/teaching-profile`, {
+        method: 'PUT',
+        headers: this.getAuthHeaders(),
+        body: JSON.stringify(profile),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return data.message;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while saving the teaching profile');
+    }
+  }
+
+  static async resetTwoFactor(userId: string): Promise<string> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/admin/users/${userId}/two-factor`, {
+        method: 'DELETE',
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      const result = await response.json();
+      return result.message;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while resetting two-factor authentication');
+    }
+  }
+
+  static async getStaffRoles(): Promise<StaffRoleOption[]> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/admin/staff-roles`, {
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while fetching staff roles');
+    }
+  }
+
+  static async getLockedAccounts(): Promise<LockedAccount[]> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/admin/locked-accounts`, {
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while fetching locked accounts');
+    }
+  }
+
+  static async unlockAccount(userId: string): Promise<string> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/admin/users/${userId}/unlock`, {
+        method: 'POST',
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      const result = await response.json();
+      return result.message;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while unlocking the account');
+    }
+  }
+
   // Class Management
   static async getUnassignedClasses(): Promise<UnassignedClass[]> {
     try {
@@ -226,6 +383,81 @@ class AdminService {
     }
   }
 
+  static async getTutorSuggestions(classId: string): Promise<TutorSuggestion[]> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/admin/classes/${classId}/tutor-suggestions`, {
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while suggesting tutors');
+    }
+  }
+
+  static async getSubstituteSuggestions(classId: string): Promise<SubstituteSuggestion[]> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/admin/classes/${classId}/substitute-suggestions`, {
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while suggesting cover tutors');
+    }
+  }
+
+  static async setClassSubstitute(classId: string, tutorId: string | null): Promise<string> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/admin/classes/${classId}/substitute`, {
+        method: 'PUT',
+        headers: this.getAuthHeaders(),
+        body: JSON.stringify({ tutorId }),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return data.message;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while arranging cover');
+    }
+  }
+
   // Analytics
   static async getUsersOverview(): Promise<UserOverview[]> {
     try {
@@ -6,6 +6,11 @@ import type {
   AttendanceRecord, 
   AttendanceMarkRequest, 
   AttendanceSummary,
+  AttendanceRevision,
+  StudentAttendanceStats,
+  AttendanceAlert,
+  AttendanceAlertRule,
+  AttendanceAlertRuleRequest,
   ApiError 
 } from '../types';
 import AuthService from './auth';
@@ -46,6 +51,30 @@ class AttendanceService {
     }
   }
 
+  static async getBranchClasses(date: string): Promise<StaffClass[]> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/attendance/branch-classes?date=${encodeURIComponent(date)}`, {
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while fetching branch classes');
+    }
+  }
+
   static async getClassStudents(classId: string): Promise<ClassStudent[]> {
     try {
       const response = await fetch(`${this.API_BASE_URL}/attendance/class/${classId}/students`, {
@@ -131,6 +160,30 @@ class AttendanceService {
     }
   }
 
+  static async getAttendanceHistory(classId: string, date: string): Promise<AttendanceRevision[]> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/attendance/class/${classId}/date/${date}/history`, {
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while fetching attendance history');
+    }
+  }
+
   static async getAttendanceSummary(classId: string, startDate?: string, endDate?: string): Promise<AttendanceSummary> {
     try {
       const params = new URLSearchParams();
@@ -161,6 +214,156 @@ class AttendanceService {
       throw new Error('An unexpected error occurred while fetching attendance summary');
     }
   }
+
+  static async getStudentAttendanceStats(studentId: string): Promise<StudentAttendanceStats> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/attendance/student/${studentId}`, {
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while fetching student attendance');
+    }
+  }
+
+  static async getAlerts(): Promise<AttendanceAlert[]> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/attendance/alerts`, {
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while fetching attendance alerts');
+    }
+  }
+
+  static async getAlertRules(): Promise<AttendanceAlertRule[]> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/attendance/alert-rules`, {
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while fetching alert rules');
+    }
+  }
+
+  static async createAlertRule(ruleData: AttendanceAlertRuleRequest): Promise<{ message: string; rule: AttendanceAlertRule }> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/attendance/alert-rules`, {
+        method: 'POST',
+        headers: this.getAuthHeaders(),
+        body: JSON.stringify(ruleData),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while creating the alert rule');
+    }
+  }
+
+  static async updateAlertRule(ruleId: string, ruleData: AttendanceAlertRuleRequest): Promise<{ message: string; rule: AttendanceAlertRule }> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/attendance/alert-rules/${ruleId}`, {
+        method: 'PUT',
+        headers: this.getAuthHeaders(),
+        body: JSON.stringify(ruleData),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while updating the alert rule');
+    }
+  }
+
+  static async deleteAlertRule(ruleId: string): Promise<string> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/attendance/alert-rules/${ruleId}`, {
+        method: 'DELETE',
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      const result = await response.json();
+      return result.message;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while deleting the alert rule');
+    }
+  }
 }
 
 export default AttendanceService;
\ No newline at end of file
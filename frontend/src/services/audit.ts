@@ -0,0 +1,72 @@
+// frontend/src/services/audit.ts
+
+import type { AuditLogFilters, AuditLogFilterOptions, AuditLogPage, ApiError } from '../types';
+import AuthService from './auth';
+
+class AuditService {
+  // private static readonly API_BASE_URL = 'http://localhost:8080/api';
+  private static readonly API_BASE_URL = '/api';
+
+  private static getAuthHeaders() {
+    const token = AuthService.getToken();
+    return {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    };
+  }
+
+  static async searchAuditLog(filters: AuditLogFilters, page: number = 1, limit: number = 50): Promise<AuditLogPage> {
+    try {
+      const params = new URLSearchParams({ page: String(page), limit: String(limit) });
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value) params.append(key, value);
+      });
+
+      const response = await fetch(`${this.API_BASE_URL}/audit?${params.toString()}`, {
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while searching the audit log');
+    }
+  }
+
+  static async getFilterOptions(): Promise<AuditLogFilterOptions> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/audit/filters`, {
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while fetching audit filters');
+    }
+  }
+}
+
+export default AuditService;
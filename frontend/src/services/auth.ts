@@ -7,14 +7,29 @@ import type {
   RegisterResponse, 
   AuthResponse, 
   ApiError,
+  SessionTokens,
+  PasswordPolicy,
+  ChangePasswordRequest,
   UserProfileUpdateRequest,
-  User
+  User,
+  TwoFactorChallenge,
+  TwoFactorVerification,
+  TwoFactorProvisioning,
+  TwoFactorSetupLoginResponse,
+  LoginHistoryEntry
 } from '../types';
 
 class AuthService {
   // private static readonly API_BASE_URL = 'http://localhost:8080/api';
   private static readonly API_BASE_URL = '/api';
   private static readonly TOKEN_KEY = 'authToken';
+  private static readonly REFRESH_TOKEN_KEY = 'refreshToken';
+  // Refresh this long before the access token expires, so requests never go out with a stale token
+  private static readonly REFRESH_MARGIN_MS = 60 * 1000;
+
+  private static refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private static refreshPromise: Promise<boolean> | null = null;
+  private static passwordPolicyPromise: Promise<PasswordPolicy> | null = null;
 
   static getToken(): string | null {
     return localStorage.getItem(this.TOKEN_KEY);
@@ -24,8 +39,99 @@ class AuthService {
     localStorage.setItem(this.TOKEN_KEY, token);
   }
 
+  static getRefreshToken(): string | null {
+    return localStorage.getItem(this.REFRESH_TOKEN_KEY);
+  }
+
+  // Store a new access/refresh token pair and schedule the next refresh
+  static setSession(session: SessionTokens): void {
+    localStorage.setItem(this.TOKEN_KEY, session.token);
+    localStorage.setItem(this.REFRESH_TOKEN_KEY, session.refreshToken);
+    this.scheduleRefresh();
+  }
+
   static removeToken(): void {
     localStorage.removeItem(this.TOKEN_KEY);
+    localStorage.removeItem(this.REFRESH_TOKEN_KEY);
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  // Milliseconds until the stored access token expires (0 if missing or unreadable)
+  private static getTokenLifetimeMs(): number {
+    const token = this.getToken();
+    if (!token) return 0;
+
+    try {
+      const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+      return Math.max(payload.exp * 1000 - Date.now(), 0);
+    } catch {
+      return 0;
+    }
+  }
+
+  private static scheduleRefresh(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+    }
+
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.refreshSession();
+    }, Math.max(this.getTokenLifetimeMs() - this.REFRESH_MARGIN_MS, 0));
+  }
+
+  // Swap the refresh token for a new pair. Concurrent callers share one request, and other tabs are
+  // serialised through a browser lock: each refresh token works only once, and presenting a used one
+  // again makes the server end the session.
+  static refreshSession(): Promise<boolean> {
+    if (!this.refreshPromise) {
+      const refresh = () => this.performRefresh();
+      this.refreshPromise = (navigator.locks ? navigator.locks.request('auth-refresh', refresh) : refresh())
+        .finally(() => {
+          this.refreshPromise = null;
+        });
+    }
+    return this.refreshPromise;
+  }
+
+  private static async performRefresh(): Promise<boolean> {
+    // Another tab may have refreshed while this one waited for the lock
+    if (this.getTokenLifetimeMs() > this.REFRESH_MARGIN_MS) {
+      this.scheduleRefresh();
+      return true;
+    }
+
+    const refreshToken = this.getRefreshToken();
+    if (!refreshToken) {
+      return false;
+    }
+
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/auth/refresh`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ refreshToken }),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401 || response.status === 400) {
+          this.removeToken();
+        }
+        return false;
+      }
+
+      const session: SessionTokens = await response.json();
+      this.setSession(session);
+      return true;
+    } catch (error) {
+      console.error('Session refresh failed:', error);
+      return false;
+    }
   }
 
   private static getAuthHeaders() {
@@ -36,7 +142,7 @@ class AuthService {
     };
   }
 
-  static async login(credentials: LoginRequest): Promise<LoginResponse> {
+  static async login(credentials: LoginRequest): Promise<LoginResponse | TwoFactorChallenge> {
     try {
       const response = await fetch(`${this.API_BASE_URL}/auth/login`, {
         method: 'POST',
@@ -51,8 +157,37 @@ class AuthService {
         throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
       }
 
+      const data: LoginResponse | TwoFactorChallenge = await response.json();
+      // No session yet when the server asks for a second step
+      if ('token' in data) {
+        this.setSession(data);
+      }
+      return data;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred during login');
+    }
+  }
+
+  static async verifyTwoFactorLogin(challengeToken: string, verification: TwoFactorVerification): Promise<LoginResponse> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/auth/login/two-factor`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ challengeToken, ...verification }),
+      });
+
+      if (!response.ok) {
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
       const data: LoginResponse = await response.json();
-      this.setToken(data.token);
+      this.setSession(data);
       return data;
     } catch (error) {
       if (error instanceof Error) {
@@ -62,6 +197,56 @@ class AuthService {
     }
   }
 
+  static async startTwoFactorLoginSetup(challengeToken: string): Promise<TwoFactorProvisioning> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/auth/login/two-factor/setup`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ challengeToken }),
+      });
+
+      if (!response.ok) {
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while starting two-factor setup');
+    }
+  }
+
+  static async enableTwoFactorLoginSetup(challengeToken: string, code: string): Promise<TwoFactorSetupLoginResponse> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/auth/login/two-factor/enable`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ challengeToken, code }),
+      });
+
+      if (!response.ok) {
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      const data: TwoFactorSetupLoginResponse = await response.json();
+      this.setSession(data);
+      return data;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while enabling two-factor authentication');
+    }
+  }
+
   static async register(registrationData: RegisterRequest): Promise<RegisterResponse> {
     try {
       const response = await fetch(`${this.API_BASE_URL}/auth/register`, {
@@ -78,7 +263,7 @@ class AuthService {
       }
 
       const data: RegisterResponse = await response.json();
-      this.setToken(data.token);
+      this.setSession(data);
       return data;
     } catch (error) {
       if (error instanceof Error) {
@@ -88,20 +273,177 @@ class AuthService {
     }
   }
 
-  static async getCurrentUser(): Promise<AuthResponse> {
-    const token = this.getToken();
-    if (!token) {
-      throw new Error('No authentication token found');
+  // The policy only changes with server configuration, so it is fetched once per page load
+  static getPasswordPolicy(): Promise<PasswordPolicy> {
+    if (!this.passwordPolicyPromise) {
+      this.passwordPolicyPromise = fetch(`${this.API_BASE_URL}/auth/password-policy`)
+        .then(async response => {
+          if (!response.ok) {
+            throw new Error(`HTTP error! status: ${response.status}`);
+          }
+          return response.json();
+        })
+        .catch(error => {
+          this.passwordPolicyPromise = null;
+          throw error;
+        });
     }
+    return this.passwordPolicyPromise;
+  }
 
+  static async changePassword(passwordData: ChangePasswordRequest): Promise<string> {
     try {
-      const response = await fetch(`${this.API_BASE_URL}/auth/me`, {
+      const response = await fetch(`${this.API_BASE_URL}/users/password`, {
+        method: 'PUT',
+        headers: this.getAuthHeaders(),
+        body: JSON.stringify(passwordData),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          this.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      const result = await response.json();
+      return result.message;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while changing password');
+    }
+  }
+
+  static async requestPasswordReset(email: string): Promise<string> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/auth/forgot-password`, {
+        method: 'POST',
         headers: {
-          'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json',
         },
+        body: JSON.stringify({ email }),
       });
 
+      if (!response.ok) {
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      const result = await response.json();
+      return result.message;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while requesting a password reset');
+    }
+  }
+
+  static async resetPassword(token: string, password: string): Promise<string> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/auth/reset-password`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ token, password }),
+      });
+
+      if (!response.ok) {
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      // Every session was signed out on the server, including this browser's
+      this.removeToken();
+
+      const result = await response.json();
+      return result.message;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while resetting your password');
+    }
+  }
+
+  static async verifyEmail(token: string): Promise<string> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/auth/verify-email`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ token }),
+      });
+
+      if (!response.ok) {
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      const result = await response.json();
+      return result.message;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while verifying your email');
+    }
+  }
+
+  static async resendVerificationEmail(): Promise<string> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/auth/resend-verification`, {
+        method: 'POST',
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          this.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      const result = await response.json();
+      return result.message;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while sending the verification email');
+    }
+  }
+
+  static async getCurrentUser(): Promise<AuthResponse> {
+    if (!this.getToken() && !this.getRefreshToken()) {
+      throw new Error('No authentication token found');
+    }
+
+    try {
+      // Coming back to the app after a while: renew the access token before using it
+      if (this.getTokenLifetimeMs() <= this.REFRESH_MARGIN_MS) {
+        await this.refreshSession();
+      }
+
+      let response = await fetch(`${this.API_BASE_URL}/auth/me`, {
+        headers: this.getAuthHeaders(),
+      });
+
+      // The access token can be rejected early (e.g. clock skew), so retry once after refreshing
+      if (response.status === 401 && await this.refreshSession()) {
+        response = await fetch(`${this.API_BASE_URL}/auth/me`, {
+          headers: this.getAuthHeaders(),
+        });
+      }
+
       if (!response.ok) {
         if (response.status === 401) {
           this.removeToken();
@@ -111,6 +453,7 @@ class AuthService {
         throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
       }
 
+      this.scheduleRefresh();
       return await response.json();
     } catch (error) {
       if (error instanceof Error) {
@@ -171,6 +514,30 @@ class AuthService {
     }
   }
 
+  static async getLoginHistory(): Promise<LoginHistoryEntry[]> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/users/login-history`, {
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          this.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while fetching login history');
+    }
+  }
+
   static async deleteAccount(): Promise<{ message: string; deletedData: any }> {
     try {
       const response = await fetch(`${this.API_BASE_URL}/users/account`, {
@@ -201,12 +568,55 @@ class AuthService {
     }
   }
 
+  // Sign out of this device. Tokens are cleared straight away; the server-side revoke is best effort.
   static logout(): void {
+    const refreshToken = this.getRefreshToken();
     this.removeToken();
+
+    if (refreshToken) {
+      fetch(`${this.API_BASE_URL}/auth/logout`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ refreshToken }),
+      }).catch(error => {
+        console.error('Logout request failed:', error);
+      });
+    }
+  }
+
+  // Sign out of every device, including this one
+  static async logoutAllDevices(): Promise<void> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/auth/logout`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ refreshToken: this.getRefreshToken(), allDevices: true }),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          this.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      this.removeToken();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while signing out of all devices');
+    }
   }
 
   static isAuthenticated(): boolean {
-    return this.getToken() !== null;
+    return this.getToken() !== null || this.getRefreshToken() !== null;
   }
 }
 
@@ -1,6 +1,6 @@
 // frontend/src/services/class.ts
 
-import type { Class, CreateClassRequest, UpdateClassRequest, ApiError } from '../types';
+import type { Class, ClassSeries, CreateClassRequest, UpdateClassRequest, SeriesEditScope, ApiError } from '../types';
 import AuthService from './auth';
 
 class ClassService {
@@ -75,6 +75,30 @@ class ClassService {
     }
   }
 
+  static async getClassSeries(seriesId: string): Promise<ClassSeries> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/classes/series/${seriesId}`, {
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while fetching class series');
+    }
+  }
+
   static async createClass(classData: CreateClassRequest): Promise<any> {
     try {
       const response = await fetch(`${this.API_BASE_URL}/classes`, {
@@ -89,7 +113,11 @@ class ClassService {
           throw new Error('Session expired. Please login again.');
         }
         const errorData: ApiError = await response.json();
-        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+        // A class that doesn't fit your teaching profile comes back with staff who could take it instead
+        const suggestions = errorData.suggestions && errorData.suggestions.length > 0
+          ? `\n\nStaff at this branch who could take it: ${errorData.suggestions.map(tutor => `${tutor.first_name} ${tutor.last_name}`).join(', ')}`
+          : '';
+        throw new Error(`${errorData.error || `HTTP error! status: ${response.status}`}${suggestions}`);
       }
 
       return await response.json();
@@ -127,11 +155,12 @@ class ClassService {
     }
   }
 
-  static async deleteClass(classId: string): Promise<void> {
+  static async deleteClass(classId: string, scope: SeriesEditScope = 'occurrence'): Promise<void> {
     try {
       const response = await fetch(`${this.API_BASE_URL}/classes/${classId}`, {
         method: 'DELETE',
         headers: this.getAuthHeaders(),
+        body: JSON.stringify({ scope }),
       });
 
       if (!response.ok) {
@@ -1,6 +1,6 @@
 // frontend/src/services/enrollment.ts
 
-import type { Enrollment, CreateEnrollmentRequest, ApiError } from '../types';
+import type { Enrollment, ClassEnrollment, CreateEnrollmentRequest, TermEnrollment, CreateTermEnrollmentRequest, TermEnrollmentResult, ApiError } from '../types';
 import AuthService from './auth';
 
 class EnrollmentService {
@@ -80,6 +80,103 @@ class EnrollmentService {
     }
   }
 
+  static async createTermEnrollment(enrollmentData: CreateTermEnrollmentRequest): Promise<TermEnrollmentResult> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/enrollments/term`, {
+        method: 'POST',
+        headers: this.getAuthHeaders(),
+        body: JSON.stringify(enrollmentData),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while enrolling for the term');
+    }
+  }
+
+  static async getMyTermEnrollments(): Promise<TermEnrollment[]> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/enrollments/term/my-students`, {
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while fetching term enrollments');
+    }
+  }
+
+  static async cancelTermEnrollment(termEnrollmentId: string): Promise<void> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/enrollments/term/${termEnrollmentId}`, {
+        method: 'DELETE',
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while cancelling term enrollment');
+    }
+  }
+
+  static async getClassEnrollments(classId: string): Promise<ClassEnrollment[]> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/enrollments/class/${classId}`, {
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while fetching class enrollments');
+    }
+  }
+
   static async getEnrollment(enrollmentId: string): Promise<Enrollment> {
     try {
       const response = await fetch(`${this.API_BASE_URL}/enrollments/${enrollmentId}`, {
@@ -0,0 +1,219 @@
+// frontend/src/services/guardian.ts
+
+import type { StudentGuardian, StudentGuardians, GuardianInvitation, GuardianInvitationPreview, InviteGuardianRequest, UpdateGuardianRequest, ApiError } from '../types';
+import AuthService from './auth';
+
+class GuardianService {
+  // private static readonly API_BASE_URL = 'http://localhost:8080/api';
+  private static readonly API_BASE_URL = '/api';
+
+  private static getAuthHeaders() {
+    const token = AuthService.getToken();
+    return {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    };
+  }
+
+  static async getStudentGuardians(studentId: string): Promise<StudentGuardians> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/guardians/students/${studentId}`, {
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while fetching guardians');
+    }
+  }
+
+  static async inviteGuardian(studentId: string, invitation: InviteGuardianRequest): Promise<{ message: string; invitation: GuardianInvitation }> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/guardians/students/${studentId}/invitations`, {
+        method: 'POST',
+        headers: this.getAuthHeaders(),
+        body: JSON.stringify(invitation),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while sending the invitation');
+    }
+  }
+
+  static async revokeInvitation(invitationId: string): Promise<string> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/guardians/invitations/${invitationId}`, {
+        method: 'DELETE',
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      const result = await response.json();
+      return result.message;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while withdrawing the invitation');
+    }
+  }
+
+  static async updateGuardian(studentId: string, guardianId: string, guardianData: UpdateGuardianRequest): Promise<{ message: string; guardian: StudentGuardian }> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/guardians/students/${studentId}/guardians/${guardianId}`, {
+        method: 'PUT',
+        headers: this.getAuthHeaders(),
+        body: JSON.stringify(guardianData),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while updating the guardian');
+    }
+  }
+
+  static async removeGuardian(studentId: string, guardianId: string): Promise<string> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/guardians/students/${studentId}/guardians/${guardianId}`, {
+        method: 'DELETE',
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      const result = await response.json();
+      return result.message;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while removing the guardian');
+    }
+  }
+
+  static async getInvitation(token: string): Promise<GuardianInvitationPreview> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/guardians/invitations/${encodeURIComponent(token)}`, {
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (!response.ok) {
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while fetching the invitation');
+    }
+  }
+
+  static async acceptInvitation(token: string): Promise<string> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/guardians/invitations/${encodeURIComponent(token)}/accept`, {
+        method: 'POST',
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      const result = await response.json();
+      return result.message;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while accepting the invitation');
+    }
+  }
+
+  static async declineInvitation(token: string): Promise<string> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/guardians/invitations/${encodeURIComponent(token)}/decline`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (!response.ok) {
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      const result = await response.json();
+      return result.message;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while declining the invitation');
+    }
+  }
+}
+
+export default GuardianService;
@@ -0,0 +1,218 @@
+// frontend/src/services/kiosk.ts
+
+import type { KioskDevice, CreatedKioskDevice, CheckInCredentials, KioskSession, KioskCheckInResult, ApiError } from '../types';
+import AuthService from './auth';
+
+class KioskService {
+  // private static readonly API_BASE_URL = 'http://localhost:8080/api';
+  private static readonly API_BASE_URL = '/api';
+  // The kiosk's own device token, kept on the kiosk instead of a user's session
+  private static readonly DEVICE_TOKEN_KEY = 'kioskDeviceToken';
+
+  private static getAuthHeaders() {
+    const token = AuthService.getToken();
+    return {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    };
+  }
+
+  private static getDeviceHeaders() {
+    return {
+      'Authorization': `Bearer ${this.getDeviceToken()}`,
+      'Content-Type': 'application/json',
+    };
+  }
+
+  static getDeviceToken(): string | null {
+    return localStorage.getItem(this.DEVICE_TOKEN_KEY);
+  }
+
+  static setDeviceToken(token: string): void {
+    localStorage.setItem(this.DEVICE_TOKEN_KEY, token);
+  }
+
+  static removeDeviceToken(): void {
+    localStorage.removeItem(this.DEVICE_TOKEN_KEY);
+  }
+
+  // Kiosk management (staff)
+  static async getDevices(): Promise<KioskDevice[]> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/kiosk/devices`, {
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while fetching kiosks');
+    }
+  }
+
+  static async createDevice(branchId: string, name: string): Promise<CreatedKioskDevice> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/kiosk/devices`, {
+        method: 'POST',
+        headers: this.getAuthHeaders(),
+        body: JSON.stringify({ branchId, name }),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while registering the kiosk');
+    }
+  }
+
+  static async revokeDevice(deviceId: string): Promise<string> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/kiosk/devices/${deviceId}`, {
+        method: 'DELETE',
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return data.message;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while revoking the kiosk');
+    }
+  }
+
+  // Student check-in codes (guardians, students and staff)
+  static async getCheckInCredentials(studentId: string): Promise<CheckInCredentials> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/kiosk/students/${studentId}/credentials`, {
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while fetching the check-in code');
+    }
+  }
+
+  static async resetCheckInCredentials(studentId: string): Promise<CheckInCredentials & { message: string }> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/kiosk/students/${studentId}/credentials/reset`, {
+        method: 'POST',
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while resetting the check-in code');
+    }
+  }
+
+  // The kiosk itself, signed in with its device token
+  static async getSession(): Promise<KioskSession> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/kiosk/device`, {
+        headers: this.getDeviceHeaders(),
+      });
+
+      if (!response.ok) {
+        const errorData: ApiError = await response.json();
+        // The kiosk was revoked (or never registered), so forget its token
+        if (response.status === 401) {
+          this.removeDeviceToken();
+        }
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while loading the kiosk');
+    }
+  }
+
+  static async checkIn(credential: { code: string } | { pin: string }): Promise<KioskCheckInResult> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/kiosk/device/check-in`, {
+        method: 'POST',
+        headers: this.getDeviceHeaders(),
+        body: JSON.stringify(credential),
+      });
+
+      if (!response.ok) {
+        const errorData: ApiError = await response.json();
+        // The kiosk was revoked (or never registered), so forget its token
+        if (response.status === 401) {
+          this.removeDeviceToken();
+        }
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while checking in');
+    }
+  }
+}
+
+export default KioskService;
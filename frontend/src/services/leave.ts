@@ -0,0 +1,174 @@
+// frontend/src/services/leave.ts
+
+import type { StaffLeave, LeaveClass, ApiError } from '../types';
+import AuthService from './auth';
+
+class LeaveService {
+  // private static readonly API_BASE_URL = 'http://localhost:8080/api';
+  private static readonly API_BASE_URL = '/api';
+
+  private static getAuthHeaders() {
+    const token = AuthService.getToken();
+    return {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    };
+  }
+
+  // Your own leave (staff)
+  static async getMyLeave(): Promise<StaffLeave[]> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/leave/mine`, {
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while fetching your leave');
+    }
+  }
+
+  static async requestLeave(startDate: string, endDate: string, reason: string): Promise<string> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/leave`, {
+        method: 'POST',
+        headers: this.getAuthHeaders(),
+        body: JSON.stringify({ startDate, endDate, reason }),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return data.message;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while requesting leave');
+    }
+  }
+
+  static async cancelLeave(leaveId: string): Promise<string> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/leave/${leaveId}`, {
+        method: 'DELETE',
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return data.message;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while withdrawing leave');
+    }
+  }
+
+  // Leave approvals and cover (admin)
+  static async getLeaveRequests(status?: StaffLeave['status']): Promise<StaffLeave[]> {
+    try {
+      const query = status ? `?status=${status}` : '';
+      const response = await fetch(`${this.API_BASE_URL}/leave${query}`, {
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while fetching leave requests');
+    }
+  }
+
+  static async reviewLeave(leaveId: string, decision: 'approved' | 'rejected', note: string): Promise<string> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/leave/${leaveId}/review`, {
+        method: 'PUT',
+        headers: this.getAuthHeaders(),
+        body: JSON.stringify({ decision, note }),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return data.message;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while answering the leave request');
+    }
+  }
+
+  static async getLeaveClasses(leaveId: string): Promise<LeaveClass[]> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/leave/${leaveId}/classes`, {
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while fetching classes during leave');
+    }
+  }
+}
+
+export default LeaveService;
@@ -0,0 +1,95 @@
+// frontend/src/services/material.ts
+
+import type { ClassMaterial, CreateClassMaterialRequest, ApiError } from '../types';
+import AuthService from './auth';
+
+class MaterialService {
+  // private static readonly API_BASE_URL = 'http://localhost:8080/api';
+  private static readonly API_BASE_URL = '/api';
+
+  private static getAuthHeaders() {
+    const token = AuthService.getToken();
+    return {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    };
+  }
+
+  static async getClassMaterials(classId: string): Promise<ClassMaterial[]> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/materials/class/${classId}`, {
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while fetching class materials');
+    }
+  }
+
+  static async createMaterial(classId: string, materialData: CreateClassMaterialRequest): Promise<{ message: string; material: ClassMaterial }> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/materials/class/${classId}`, {
+        method: 'POST',
+        headers: this.getAuthHeaders(),
+        body: JSON.stringify(materialData),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while sharing the material');
+    }
+  }
+
+  static async deleteMaterial(materialId: string): Promise<string> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/materials/${materialId}`, {
+        method: 'DELETE',
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      const result = await response.json();
+      return result.message;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while removing the material');
+    }
+  }
+}
+
+export default MaterialService;
@@ -1,6 +1,6 @@
 // frontend/src/services/payment.ts
 
-import type { Payment, ApiError } from '../types';
+import type { Payment, PaymentHistoryPage, CheckoutSessionResponse, MockCheckoutSession, ApiError } from '../types';
 import AuthService from './auth';
 
 class PaymentService {
@@ -39,9 +39,9 @@ class PaymentService {
     }
   }
 
-  static async getStudentPaymentHistory(studentId: string): Promise<Payment[]> {
+  static async getStudentPaymentHistory(studentId: string, page: number = 1, limit: number = 12): Promise<PaymentHistoryPage> {
     try {
-      const response = await fetch(`${this.API_BASE_URL}/payments/${studentId}/history`, {
+      const response = await fetch(`${this.API_BASE_URL}/payments/${studentId}/history?page=${page}&limit=${limit}`, {
         headers: this.getAuthHeaders(),
       });
 
@@ -62,6 +62,130 @@ class PaymentService {
       throw new Error('An unexpected error occurred while fetching payment history');
     }
   }
+
+  static async downloadReceipt(paymentId: string): Promise<Blob> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/payments/${paymentId}/receipt`, {
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.blob();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while downloading the receipt');
+    }
+  }
+
+  static async downloadStatement(studentId: string, year: number): Promise<Blob> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/payments/${studentId}/statement/${year}`, {
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.blob();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while downloading the statement');
+    }
+  }
+
+  static async createCheckoutSession(paymentId: string): Promise<CheckoutSessionResponse> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/payments/${paymentId}/checkout`, {
+        method: 'POST',
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while starting the payment');
+    }
+  }
+
+  static async getMockCheckout(sessionId: string): Promise<MockCheckoutSession> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/payments/mock-checkout/${encodeURIComponent(sessionId)}`, {
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while loading the checkout');
+    }
+  }
+
+  static async completeMockCheckout(sessionId: string, action: 'pay' | 'cancel'): Promise<'success' | 'cancelled'> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/payments/mock-checkout/${encodeURIComponent(sessionId)}`, {
+        method: 'POST',
+        headers: this.getAuthHeaders(),
+        body: JSON.stringify({ action }),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return data.result;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while completing the checkout');
+    }
+  }
 }
 
 export default PaymentService;
\ No newline at end of file
@@ -1,6 +1,6 @@
 // frontend/src/services/student.ts
 
-import type { Student, CreateStudentRequest, UpdateStudentRequest, ApiError } from '../types';
+import type { Student, CreateStudentRequest, UpdateStudentRequest, CreateStudentAccountRequest, ApiError } from '../types';
 import AuthService from './auth';
 
 class StudentService {
@@ -123,6 +123,58 @@ class StudentService {
       throw new Error('An unexpected error occurred while fetching student');
     }
   }
+
+  static async createStudentAccount(studentId: string, accountData: CreateStudentAccountRequest): Promise<{ message: string; account_email: string }> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/students/${studentId}/account`, {
+        method: 'POST',
+        headers: this.getAuthHeaders(),
+        body: JSON.stringify(accountData),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while creating the student login');
+    }
+  }
+
+  static async removeStudentAccount(studentId: string): Promise<string> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/students/${studentId}/account`, {
+        method: 'DELETE',
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      const result = await response.json();
+      return result.message;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while removing the student login');
+    }
+  }
 }
 
 export default StudentService;
\ No newline at end of file
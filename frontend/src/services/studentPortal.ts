@@ -0,0 +1,115 @@
+// frontend/src/services/studentPortal.ts
+
+import type { StudentProfile, StudentTimetableEntry, StudentAttendanceHistory, StudentMaterial, ApiError } from '../types';
+import AuthService from './auth';
+
+class StudentPortalService {
+  // private static readonly API_BASE_URL = 'http://localhost:8080/api';
+  private static readonly API_BASE_URL = '/api';
+
+  private static getAuthHeaders() {
+    const token = AuthService.getToken();
+    return {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    };
+  }
+
+  static async getProfile(): Promise<StudentProfile> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/student-portal/profile`, {
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while fetching your details');
+    }
+  }
+
+  static async getTimetable(): Promise<StudentTimetableEntry[]> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/student-portal/timetable`, {
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while fetching your timetable');
+    }
+  }
+
+  static async getAttendance(): Promise<StudentAttendanceHistory> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/student-portal/attendance`, {
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while fetching your attendance');
+    }
+  }
+
+  static async getMaterials(): Promise<StudentMaterial[]> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/student-portal/materials`, {
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while fetching class materials');
+    }
+  }
+}
+
+export default StudentPortalService;
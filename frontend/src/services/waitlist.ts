@@ -0,0 +1,164 @@
+// frontend/src/services/waitlist.ts
+
+import type { WaitlistEntry, ClassWaitlistEntry, JoinWaitlistRequest, ApiError } from '../types';
+import AuthService from './auth';
+
+class WaitlistService {
+  // private static readonly API_BASE_URL = 'http://localhost:8080/api';
+  private static readonly API_BASE_URL = '/api';
+
+  private static getAuthHeaders() {
+    const token = AuthService.getToken();
+    return {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    };
+  }
+
+  static async joinWaitlist(waitlistData: JoinWaitlistRequest): Promise<{ message: string }> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/waitlist`, {
+        method: 'POST',
+        headers: this.getAuthHeaders(),
+        body: JSON.stringify(waitlistData),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while joining the waitlist');
+    }
+  }
+
+  static async getMyWaitlist(): Promise<WaitlistEntry[]> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/waitlist/my-students`, {
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while fetching the waitlist');
+    }
+  }
+
+  static async getClassWaitlist(classId: string): Promise<ClassWaitlistEntry[]> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/waitlist/class/${classId}`, {
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while fetching the class waitlist');
+    }
+  }
+
+  static async acceptOffer(waitlistId: string): Promise<{ message: string }> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/waitlist/${waitlistId}/accept`, {
+        method: 'POST',
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while confirming the held seat');
+    }
+  }
+
+  static async declineOffer(waitlistId: string): Promise<void> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/waitlist/${waitlistId}/decline`, {
+        method: 'POST',
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while declining the held seat');
+    }
+  }
+
+  static async leaveWaitlist(waitlistId: string): Promise<void> {
+    try {
+      const response = await fetch(`${this.API_BASE_URL}/waitlist/${waitlistId}`, {
+        method: 'DELETE',
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          AuthService.removeToken();
+          throw new Error('Session expired. Please login again.');
+        }
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('An unexpected error occurred while leaving the waitlist');
+    }
+  }
+}
+
+export default WaitlistService;
@@ -6,8 +6,12 @@ export interface User {
   first_name: string;
   last_name: string;
   email: string;
+  email_verified?: boolean;
   phone?: string;
-  role: 'parent' | 'staff' | 'admin';
+  role: 'parent' | 'staff' | 'admin' | 'student';
+  role_name?: string;
+  permissions?: string[];
+  branch_ids?: string[] | null; // Branches the user works at; null when not limited to any
   created_at: string;
   updated_at: string;
 }
@@ -23,11 +27,145 @@ export interface Student {
   home_branch_id?: string;
   home_branch_name?: string;
   home_branch_address?: string;
+  // The signed-in parent's link to the child (parent's own list only)
+  relationship?: GuardianRelationship;
+  is_primary_guardian?: boolean;
+  can_enroll?: boolean;
+  can_view_payments?: boolean;
+  receives_notices?: boolean;
+  // Email of the child's own sign-in, when they have an active one (parent's own list only)
+  account_email?: string;
   active: boolean;
   created_at: string;
   updated_at: string;
 }
 
+// How a guardian is related to a child
+export type GuardianRelationship = 'parent' | 'mother' | 'father' | 'guardian' | 'grandparent' | 'other';
+
+// Represents a parent linked to a child, and what they may do for the child
+export interface StudentGuardian {
+  student_id: string;
+  guardian_id: string;
+  relationship: GuardianRelationship;
+  is_primary: boolean;
+  can_enroll: boolean;
+  can_view_payments: boolean;
+  receives_notices: boolean;
+  first_name?: string;
+  last_name?: string;
+  email?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Represents an emailed invitation for another parent to become a child's guardian
+export interface GuardianInvitation {
+  id: string;
+  student_id: string;
+  email: string;
+  relationship: GuardianRelationship;
+  can_enroll: boolean;
+  can_view_payments: boolean;
+  receives_notices: boolean;
+  status: 'pending' | 'accepted' | 'declined' | 'revoked';
+  expires_at: string;
+  created_at: string;
+}
+
+// A child's guardians and unanswered invitations, and whether the signed-in parent is the primary guardian
+export interface StudentGuardians {
+  guardians: StudentGuardian[];
+  invitations: GuardianInvitation[];
+  is_primary: boolean;
+}
+
+// What the person holding an invitation link sees before accepting it
+export interface GuardianInvitationPreview {
+  email: string;
+  relationship: GuardianRelationship;
+  status: GuardianInvitation['status'] | 'expired';
+  expires_at: string;
+  student_first_name: string;
+  invited_by_name?: string;
+}
+
+// The signed-in student's own record
+export interface StudentProfile {
+  id: string;
+  first_name: string;
+  last_name: string;
+  grade: string;
+  date_of_birth?: string;
+  home_branch_id?: string;
+  home_branch_name?: string;
+  home_branch_address?: string;
+}
+
+// An upcoming class on the signed-in student's timetable
+export interface StudentTimetableEntry {
+  enrollment_id: string;
+  class_id: string;
+  subject: string;
+  description?: string;
+  level?: string;
+  start_time: string;
+  end_time: string;
+  duration_minutes: number;
+  branch_name?: string;
+  branch_address?: string;
+  classroom_name?: string;
+  tutor_first_name?: string;
+  tutor_last_name?: string;
+}
+
+// A class the signed-in student attended or missed; status is empty until the tutor marks it
+export interface StudentAttendanceRecord {
+  class_id: string;
+  subject: string;
+  start_time: string;
+  duration_minutes: number;
+  branch_name?: string;
+  status?: 'present' | 'absent' | 'late' | 'excused';
+  marked_at?: string;
+}
+
+// The signed-in student's attendance records with totals per status
+export interface StudentAttendanceHistory {
+  summary: {
+    present: number;
+    late: number;
+    absent: number;
+    excused: number;
+    not_marked: number;
+  };
+  records: StudentAttendanceRecord[];
+}
+
+// A link shared by a tutor with one class, or with every session of its series
+export interface ClassMaterial {
+  id: string;
+  class_id: string;
+  series_id?: string;
+  title: string;
+  url: string;
+  description?: string;
+  created_by_name?: string;
+  created_at: string;
+}
+
+// A material shared with one of the signed-in student's classes
+export interface StudentMaterial {
+  id: string;
+  title: string;
+  url: string;
+  description?: string;
+  created_at: string;
+  subject: string;
+  class_start_time: string;
+  whole_series: boolean;
+}
+
 // Represents a physical branch/location of the tutoring center
 export interface Branch {
   id: string;
@@ -62,6 +200,10 @@ export interface Class {
   tutor_id?: string;
   tutor_first_name?: string;
   tutor_last_name?: string;
+  // Covers this occurrence alongside the regular tutor
+  substitute_tutor_id?: string;
+  substitute_first_name?: string;
+  substitute_last_name?: string;
   classroom_id?: string;
   classroom_name?: string;
   start_time: string;
@@ -72,6 +214,8 @@ export interface Class {
   branch_name?: string;
   branch_address?: string;
   created_by?: string;
+  series_id?: string;
+  series_frequency?: RecurrenceFrequency;
   active: boolean;
   enrolled_count: number;
   can_edit?: boolean;
@@ -80,6 +224,53 @@ export interface Class {
   updated_at?: string;
 }
 
+// How often a recurring class series repeats
+export type RecurrenceFrequency = 'weekly' | 'biweekly';
+
+// Which sessions of a recurring series an edit or delete applies to
+export type SeriesEditScope = 'occurrence' | 'following';
+
+// Recurrence rule used when creating a class series
+export interface ClassRecurrence {
+  frequency: RecurrenceFrequency;
+  termEnd: string;
+  skipDates?: string[];
+}
+
+// Represents a recurring class series with its generated sessions
+export interface ClassSeries {
+  id: string;
+  subject: string;
+  description?: string;
+  level?: string;
+  tutor_id?: string;
+  tutor_first_name?: string;
+  tutor_last_name?: string;
+  classroom_id: string;
+  classroom_name?: string;
+  branch_id?: string;
+  branch_name?: string;
+  frequency: RecurrenceFrequency;
+  first_start_time: string;
+  duration_minutes: number;
+  capacity: number;
+  term_start: string;
+  term_end: string;
+  skip_dates: string[];
+  active: boolean;
+  occurrences: {
+    id: string;
+    start_time: string;
+    end_time: string;
+    duration_minutes: number;
+    capacity: number;
+    classroom_id?: string;
+    enrolled_count: number;
+  }[];
+  created_at: string;
+  updated_at: string;
+}
+
 // Represents a student's enrollment in a specific class
 export interface Enrollment {
   id: string;
@@ -97,6 +288,88 @@ export interface Enrollment {
   classroom_name?: string;
   tutor_first_name?: string;
   tutor_last_name?: string;
+  term_enrollment_id?: string;
+  series_id?: string;
+}
+
+// Represents a student's enrollment in every remaining session of a class series
+export interface TermEnrollment {
+  id: string;
+  student_id: string;
+  series_id: string;
+  status: 'active' | 'cancelled';
+  created_at: string;
+  cancelled_at?: string;
+  student_name: string;
+  subject: string;
+  level?: string;
+  frequency: RecurrenceFrequency;
+  duration_minutes: number;
+  term_start: string;
+  term_end: string;
+  branch_name?: string;
+  tutor_first_name?: string;
+  tutor_last_name?: string;
+  remaining_sessions: number;
+  attended_sessions: number;
+  next_session_time?: string;
+}
+
+// Result of a term enrollment, including sessions that could not be booked
+export interface TermEnrollmentResult {
+  message: string;
+  termEnrollment: { id: string; status: string; created_at: string };
+  booked: { class_id: string; start_time: string; enrollment_id: string }[];
+  skipped: { class_id: string; start_time: string; reason: string }[];
+}
+
+// Represents an enrollment in a class roster (staff view)
+export interface ClassEnrollment {
+  id: string;
+  student_id: string;
+  enrolled_at: string;
+  status: 'enrolled' | 'cancelled' | 'completed';
+  cancelled_at?: string;
+  student_name: string;
+  grade: string;
+  parent_first_name: string;
+  parent_last_name: string;
+  parent_email: string;
+}
+
+// Represents a student's place on a full class's waitlist (parent view)
+export interface WaitlistEntry {
+  id: string;
+  class_id: string;
+  student_id: string;
+  status: 'waiting' | 'offered';
+  created_at: string;
+  offered_at?: string;
+  offer_expires_at?: string;
+  student_name: string;
+  subject: string;
+  level?: string;
+  start_time: string;
+  duration_minutes: number;
+  branch_name?: string;
+  classroom_name?: string;
+  position: number | null;
+}
+
+// Represents a waitlisted student for a class (staff view)
+export interface ClassWaitlistEntry {
+  id: string;
+  student_id: string;
+  status: 'waiting' | 'offered';
+  created_at: string;
+  offered_at?: string;
+  offer_expires_at?: string;
+  student_name: string;
+  grade: string;
+  parent_first_name: string;
+  parent_last_name: string;
+  parent_email: string;
+  position: number;
 }
 
 // Represents a payment record for a student's monthly fees
@@ -108,11 +381,42 @@ export interface Payment {
   amount: number | string; // Can be string from database
   paid: boolean;
   payment_date?: string;
-  payment_method?: 'cash' | 'card' | 'bank_transfer' | 'online';
+  payment_method?: 'cash' | 'card' | 'bank_transfer' | 'online' | 'cheque';
   notes?: string;
+  invoice_id?: string;
+  invoice_number?: string;
   created_at: string;
 }
 
+// Represents an online checkout started for an unpaid month
+export interface CheckoutSessionResponse {
+  message: string;
+  session_id: string;
+  checkout_url: string;
+}
+
+// Represents a checkout with the local mock payment provider, shown on its test-mode checkout page
+export interface MockCheckoutSession {
+  session_id: string;
+  amount: string;
+  currency: string;
+  status: 'pending' | 'completed' | 'cancelled' | 'expired';
+  expires_at: string;
+  month: string;
+  student_name: string;
+}
+
+// Represents one page of a student's payment statement
+export interface PaymentHistoryPage {
+  payments: Payment[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    total_pages: number;
+  };
+}
+
 // Represents a staff member who can be assigned as a tutor
 export interface StaffMember {
   id: string;
@@ -125,6 +429,10 @@ export interface StaffMember {
   updated_at: string;
   class_count?: number;
   future_class_count?: number;
+  two_factor_enabled?: boolean;
+  role_id?: string;
+  role_name?: string;
+  branches?: { id: string; name: string }[];
 }
 
 // Request payload for user login
@@ -143,19 +451,76 @@ export interface RegisterRequest {
 }
 
 // Response from successful login
-export interface LoginResponse {
-  token: string;
+export interface LoginResponse extends SessionTokens {
   user: User;
   message: string;
 }
 
 // Response from successful registration
-export interface RegisterResponse {
-  token: string;
+export interface RegisterResponse extends SessionTokens {
   user: User;
   message: string;
 }
 
+// Returned by login instead of a session when a second step is needed
+export interface TwoFactorChallenge {
+  message: string;
+  challengeToken: string;
+  // The account has two-factor on: ask for a code
+  twoFactorRequired?: boolean;
+  // The account's role requires two-factor but it is not set up yet: enrol first
+  twoFactorSetupRequired?: boolean;
+}
+
+// Either a code from the authenticator app or one of the recovery codes
+export type TwoFactorVerification = { code: string } | { recoveryCode: string };
+
+// Secret and QR code for adding the account to an authenticator app
+export interface TwoFactorProvisioning {
+  secret: string;
+  otpauth_url: string;
+  qr_code: string;
+}
+
+// Two-factor settings shown on the profile page
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabled_at?: string;
+  required: boolean;
+  recovery_codes_remaining: number;
+}
+
+// Response from finishing the two-factor setup that a role requires at login
+export interface TwoFactorSetupLoginResponse extends LoginResponse {
+  recoveryCodes: string[];
+}
+
+// Recovery codes to show once, and the call that completes the sign-in after they are saved
+export interface TwoFactorSetupResult {
+  recoveryCodes: string[];
+  finish: () => void;
+}
+
+// Short-lived access token plus the rotating refresh token used to renew it
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: number;
+}
+
+// Password rules enforced by the server, so forms can check them before submitting
+export interface PasswordPolicy {
+  min_length: number;
+  required_classes: ('lowercase' | 'uppercase' | 'digit' | 'symbol')[];
+  history_count: number;
+}
+
+// Request payload for changing the signed-in user's password
+export interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+}
+
 // Response from authentication verification
 export interface AuthResponse {
   user: User;
@@ -165,14 +530,20 @@ export interface AuthResponse {
 export interface ApiError {
   error: string;
   message?: string;
+  // Staff who could take a class instead, when a tutor doesn't fit it
+  suggestions?: TutorSuggestion[];
 }
 
 // Authentication context type for React context
 export interface AuthContextType {
   user: User | null;
-  login: (email: string, password: string) => Promise<void>;
+  // Resolves with a challenge when a second step is needed, or null once signed in
+  login: (email: string, password: string) => Promise<TwoFactorChallenge | null>;
+  completeTwoFactorLogin: (challengeToken: string, verification: TwoFactorVerification) => Promise<void>;
+  completeTwoFactorSetup: (challengeToken: string, code: string) => Promise<TwoFactorSetupResult>;
   register: (registrationData: RegisterRequest) => Promise<void>;
   logout: () => void;
+  logoutAllDevices: () => Promise<void>;
   updateUserProfile?: (user: User) => void;
   loading: boolean;
   isAuthenticated: boolean;
@@ -187,6 +558,37 @@ export interface CreateStudentRequest {
   homeBranchId?: string;
 }
 
+// Request payload for inviting another parent to be a child's guardian
+export interface InviteGuardianRequest {
+  email: string;
+  relationship?: GuardianRelationship;
+  canEnroll?: boolean;
+  canViewPayments?: boolean;
+  receivesNotices?: boolean;
+}
+
+// Request payload for changing a guardian's relationship or permissions
+export interface UpdateGuardianRequest {
+  relationship?: GuardianRelationship;
+  canEnroll?: boolean;
+  canViewPayments?: boolean;
+  receivesNotices?: boolean;
+}
+
+// Request payload for giving a child their own sign-in
+export interface CreateStudentAccountRequest {
+  email: string;
+  password: string;
+}
+
+// Request payload for sharing a material with a class
+export interface CreateClassMaterialRequest {
+  title: string;
+  url: string;
+  description?: string;
+  wholeSeries?: boolean;
+}
+
 // Request payload for creating a new branch
 export interface CreateBranchRequest {
   name: string;
@@ -212,6 +614,7 @@ export interface CreateClassRequest {
   capacity: number;
   branchId: string;
   classroomId?: string;
+  recurrence?: ClassRecurrence;
 }
 
 // Request payload for creating a new enrollment
@@ -220,6 +623,18 @@ export interface CreateEnrollmentRequest {
   classId: string;
 }
 
+// Request payload for enrolling a student in a whole class series
+export interface CreateTermEnrollmentRequest {
+  studentId: string;
+  seriesId: string;
+}
+
+// Request payload for joining the waitlist of a full class
+export interface JoinWaitlistRequest {
+  studentId: string;
+  classId: string;
+}
+
 // Request payload for creating a new staff member
 export interface CreateStaffRequest {
   firstName: string;
@@ -227,6 +642,8 @@ export interface CreateStaffRequest {
   email: string;
   phone?: string;
   password: string;
+  roleId?: string;
+  branchIds?: string[];
 }
 
 // Request payload for updating user profile information
@@ -271,6 +688,7 @@ export interface UpdateClassRequest {
   capacity?: number;
   branchId?: string;
   classroomId?: string;
+  scope?: SeriesEditScope;
 }
 
 // Request payload for updating staff member information
@@ -279,6 +697,8 @@ export interface UpdateStaffRequest {
   lastName?: string;
   phone?: string;
   active?: boolean;
+  roleId?: string;
+  branchIds?: string[];
 }
 
 // Analysis of impacts when deleting a branch
@@ -348,6 +768,10 @@ export interface AttendanceRecord {
   status: 'present' | 'absent' | 'late' | 'excused';
   notes?: string;
   marked_at?: string;
+  // Goes up by one with each correction
+  version?: number;
+  marked_by_first_name?: string;
+  marked_by_last_name?: string;
   first_name: string;
   last_name: string;
   grade: string;
@@ -359,6 +783,25 @@ export interface AttendanceMarkRequest {
   studentId: string;
   status: 'present' | 'absent' | 'late' | 'excused';
   notes?: string;
+  // Required when changing a status that was already marked
+  reason?: string;
+}
+
+// One version of an attendance record: what it was set to, by whom and why
+export interface AttendanceRevision {
+  id: string;
+  attendance_id: string;
+  enrollment_id: string;
+  student_id: string;
+  first_name: string;
+  last_name: string;
+  version: number;
+  status: AttendanceRecord['status'];
+  previous_status?: AttendanceRecord['status'];
+  notes?: string;
+  reason?: string;
+  changed_by_name?: string;
+  changed_at: string;
 }
 
 // Summary statistics for class attendance
@@ -390,6 +833,15 @@ export interface StaffClass {
   branch_name: string;
   branch_address: string;
   enrolled_count: number;
+  // Set for classes this staff member is covering for another tutor
+  is_cover?: boolean;
+  // Included when listing every class at the branches
+  tutor_id?: string;
+  tutor_first_name?: string;
+  tutor_last_name?: string;
+  substitute_tutor_id?: string;
+  substitute_first_name?: string;
+  substitute_last_name?: string;
 }
 
 // Student information with parent details for class management
@@ -444,9 +896,390 @@ export interface AssignTutorRequest {
   tutorId: string;
 }
 
+// One sign-in attempt on the user's account, shown under recent sign-ins
+export interface LoginHistoryEntry {
+  id: string;
+  success: boolean;
+  failure_reason?: 'unknown_account' | 'invalid_password' | 'invalid_two_factor' | 'locked';
+  ip_address?: string;
+  user_agent?: string;
+  // Successful sign-in from an IP address the account had not used before
+  unfamiliar: boolean;
+  created_at: string;
+}
+
+// An account locked after too many failed logins
+export interface LockedAccount {
+  id: string;
+  email: string;
+  role: 'parent' | 'staff' | 'admin' | 'student';
+  first_name: string;
+  last_name: string;
+  failed_login_count: number;
+  last_failed_login_at?: string;
+  locked_until: string;
+}
+
 // Overview statistics for user types
 export interface UserOverview {
-  role: 'parent' | 'staff' | 'admin';
+  role: 'parent' | 'staff' | 'admin' | 'student';
   total_count: number;
   active_count: number;
-}
\ No newline at end of file
+}
+// A single entry in the append-only audit log of writes
+export interface AuditLogEntry {
+  id: string;
+  occurred_at: string;
+  actor_id?: string;
+  actor_email?: string;
+  actor_role?: 'parent' | 'staff' | 'admin' | 'student';
+  action: string;
+  entity_type: string;
+  entity_id?: string;
+  before_data?: Record<string, unknown>;
+  after_data?: Record<string, unknown>;
+  changed_fields: string[];
+  ip_address?: string;
+  request_id?: string;
+  http_method?: string;
+  path?: string;
+}
+
+// Search filters for the audit log
+export interface AuditLogFilters {
+  entityType?: string;
+  entityId?: string;
+  actor?: string;
+  action?: string;
+  from?: string;
+  to?: string;
+}
+
+// Represents one page of audit log search results
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    total_pages: number;
+  };
+}
+
+// Entity types and actions available for filtering the audit log
+export interface AuditLogFilterOptions {
+  entity_types: string[];
+  actions: string[];
+}
+
+// A permission that roles can grant, and the account types it can be given to
+export interface PermissionInfo {
+  key: string;
+  description: string;
+  account_types: ('parent' | 'staff' | 'admin' | 'student')[];
+}
+
+// A named set of permissions; built-in roles have a system_key and cannot be deleted
+export interface Role {
+  id: string;
+  system_key?: 'parent' | 'staff' | 'admin' | 'student';
+  name: string;
+  description?: string;
+  account_type: 'parent' | 'staff' | 'admin' | 'student';
+  permissions: string[];
+  user_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// A role that can be given to a staff account
+export interface StaffRoleOption {
+  id: string;
+  system_key?: 'staff';
+  name: string;
+  description?: string;
+}
+
+// Request payload for creating or updating a role
+export interface RoleRequest {
+  name?: string;
+  description?: string;
+  permissions?: string[];
+}
+
+// Events that send notifications
+export type NotificationType =
+  | 'enrollment_confirmed'
+  | 'enrollment_cancelled'
+  | 'waitlist_offer'
+  | 'class_cancelled'
+  | 'class_changed'
+  | 'tutor_changed'
+  | 'substitute_tutor'
+  | 'student_absent'
+  | 'payment_due'
+  | 'class_reminder'
+  | 'tutor_agenda'
+  | 'attendance_alert'
+  | 'student_attendance_alert'
+  | 'leave_requested'
+  | 'leave_reviewed';
+
+// Ways a notification can reach someone; in_app is the inbox in the navigation bar
+export type NotificationChannel = 'in_app' | 'email' | 'sms';
+
+// A notification in the signed-in user's inbox
+export interface AppNotification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  data: Record<string, string | number>;
+  read_at?: string;
+  created_at: string;
+}
+
+// A page of the inbox, with the unread total for the badge
+export interface NotificationInbox {
+  notifications: AppNotification[];
+  unread_count: number;
+}
+
+// The channels a user receives one type of notification on
+export interface NotificationTypePreference {
+  type: NotificationType;
+  label: string;
+  channels: Record<NotificationChannel, boolean>;
+}
+
+// Notification settings shown in Profile Settings; text messages need a phone number on the profile
+export interface NotificationPreferences {
+  channels: NotificationChannel[];
+  sms_available: boolean;
+  types: NotificationTypePreference[];
+}
+
+// Request payload for changing notification preferences
+export interface NotificationPreferenceUpdate {
+  type: NotificationType;
+  channel: NotificationChannel;
+  enabled: boolean;
+}
+
+// Attendance counts by status
+export interface AttendanceCounts {
+  present: number;
+  late: number;
+  absent: number;
+  excused: number;
+  not_marked: number;
+}
+
+// One session in a student's attendance history
+export interface AttendanceSession {
+  class_id: string;
+  subject: string;
+  start_time: string;
+  branch_name?: string;
+  attendance_id?: string;
+  status: 'present' | 'absent' | 'late' | 'excused' | null;
+}
+
+// A student's attendance across all their classes; rates are percentages of marked sessions attended, excused left out
+export interface StudentAttendanceStats {
+  summary: AttendanceCounts;
+  attendance_rate: number | null;
+  current_streak: { status: 'attended' | 'absent'; length: number } | null;
+  longest_attended_streak: number;
+  subjects: (AttendanceCounts & { subject: string; attendance_rate: number | null })[];
+  recent: AttendanceSession[];
+}
+
+// A rule that raises an alert about a student's absences; threshold is a count of sessions in a row, or a percentage
+export interface AttendanceAlertRule {
+  id: string;
+  name: string;
+  rule_type: 'consecutive_absences' | 'absence_rate';
+  threshold: number;
+  window_sessions?: number;
+  notify_guardians: boolean;
+  notify_branch_admins: boolean;
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Request payload for creating or updating an alert rule
+export interface AttendanceAlertRuleRequest {
+  name: string;
+  ruleType: AttendanceAlertRule['rule_type'];
+  threshold: number;
+  windowSessions?: number;
+  notifyGuardians: boolean;
+  notifyBranchAdmins: boolean;
+  active: boolean;
+}
+
+// An alert raised by a rule for a student
+export interface AttendanceAlert {
+  id: string;
+  rule_id?: string;
+  rule_name: string;
+  student_id: string;
+  student_name: string;
+  branch_name?: string;
+  details: string;
+  created_at: string;
+}
+
+// A check-in kiosk registered at a branch
+export interface KioskDevice {
+  id: string;
+  branch_id: string;
+  branch_name: string;
+  name: string;
+  created_at: string;
+  last_seen_at?: string;
+  created_by_name?: string;
+}
+
+// A newly registered kiosk, with the device token that is only shown this once
+export interface CreatedKioskDevice {
+  message: string;
+  device: KioskDevice;
+  token: string;
+}
+
+// A student's check-in code (also as a QR image) and PIN for the kiosk
+export interface CheckInCredentials {
+  code: string;
+  pin: string;
+  qr_code: string;
+}
+
+// A class at the kiosk's branch today, with how many students have checked in
+export interface KioskClass {
+  id: string;
+  subject: string;
+  level?: string;
+  start_time: string;
+  end_time: string;
+  room_name?: string;
+  enrolled_count: number;
+  checked_in_count: number;
+}
+
+// What a kiosk loads when it starts: its branch, check-in settings and today's classes
+export interface KioskSession {
+  device: {
+    id: string;
+    name: string;
+    branch_id: string;
+    branch_name: string;
+  };
+  settings: {
+    check_in_opens_minutes: number;
+    late_grace_minutes: number;
+    pin_length: number;
+  };
+  classes: KioskClass[];
+}
+
+// The outcome of a kiosk check-in
+export interface KioskCheckInResult {
+  message: string;
+  student_first_name: string;
+  subject: string;
+  start_time: string;
+  status: AttendanceRecord['status'];
+  // The student's attendance had already been taken, so nothing changed
+  already_marked: boolean;
+}
+
+// A staff member's request for leave from teaching, over whole days
+export interface StaffLeave {
+  id: string;
+  staff_id: string;
+  staff_name: string;
+  start_date: string;
+  end_date: string;
+  reason: string;
+  status: 'pending' | 'approved' | 'rejected' | 'cancelled';
+  reviewed_by?: string;
+  reviewed_by_name?: string;
+  reviewed_at?: string;
+  review_note?: string;
+  created_at: string;
+  updated_at: string;
+  // Only in the admin list: classes during the leave, and those still without a cover tutor
+  class_count?: number;
+  uncovered_count?: number;
+}
+
+// A class a staff member teaches (or covers) during their leave
+export interface LeaveClass {
+  id: string;
+  subject: string;
+  level?: string;
+  start_time: string;
+  duration_minutes: number;
+  branch_id: string;
+  branch_name?: string;
+  tutor_id?: string;
+  substitute_tutor_id?: string;
+  substitute_first_name?: string;
+  substitute_last_name?: string;
+  // The staff member is the cover tutor for this class, not its regular tutor
+  is_cover: boolean;
+  enrolled_count: number;
+}
+
+// A subject a tutor can teach; a null level means every level
+export interface TutorQualification {
+  id?: string;
+  subject: string;
+  level: string | null;
+}
+
+// A weekly window a tutor can teach in; day_of_week 0 is Sunday, times are HH:MM:SS
+export interface TutorAvailabilityWindow {
+  id?: string;
+  day_of_week: number;
+  start_time: string;
+  end_time: string;
+}
+
+// What a tutor can teach and when. Empty parts don't limit them: no qualifications means any subject,
+// no availability means any time, and no maximum means any number of hours.
+export interface TeachingProfile {
+  max_weekly_hours: number | null;
+  qualifications: TutorQualification[];
+  availability: TutorAvailabilityWindow[];
+}
+
+export interface UpdateTeachingProfileRequest {
+  maxWeeklyHours: number | null;
+  qualifications: { subject: string; level: string | null }[];
+  availability: { dayOfWeek: number; startTime: string; endTime: string }[];
+}
+
+// A staff member ranked for taking a class, best fit first
+export interface TutorSuggestion {
+  id: string;
+  first_name: string;
+  last_name: string;
+  eligible: boolean;
+  // How their qualifications fit: for the class's level, for its subject at any level, no qualifications
+  // recorded (so not limited), or not qualified
+  qualification: 'level' | 'subject' | 'unrestricted' | 'none';
+  // Why they can't take the class, when they are not eligible
+  problems: string[];
+  // Hours already booked in the week of the class
+  booked_hours: number;
+  max_weekly_hours: number | null;
+}
+
+// A staff member who could cover a class occurrence, ranked the same way, best first
+export interface SubstituteSuggestion extends TutorSuggestion {
+  is_current_substitute: boolean;
+}
@@ -0,0 +1,14 @@
+// frontend/src/utils/permissions.ts
+
+import type { User } from '../types';
+
+// Whether the signed-in user's role grants a permission. Only used to decide what to show;
+// the server checks every request itself.
+export const hasPermission = (user: User | null | undefined, permission: string): boolean => {
+  return !!user?.permissions?.includes(permission);
+};
+
+// Whether the signed-in user works at a branch; users not limited to any branches work at all of them
+export const canAccessBranch = (user: User | null | undefined, branchId: string): boolean => {
+  return !user?.branch_ids || user.branch_ids.includes(branchId);
+};
@@ -1,14 +1,55 @@
 // frontend/src/utils/validation.ts
 
+import type { PasswordPolicy } from '../types';
+
 // Email validation
 export const isValidEmail = (email: string): boolean => {
   const emailRegex = /^[a-zA-Z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/;
   return emailRegex.test(email) && email.length <= 254; // RFC 5321 limit
 };
 
-// Password validation (at least 8 characters)
-export const isValidPassword = (password: string): boolean => {
-  return Boolean(password && password.length >= 8);
+// Password policy the server uses unless configured otherwise (used until the live policy has loaded)
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  min_length: 10,
+  required_classes: ['lowercase', 'uppercase', 'digit'],
+  history_count: 5
+};
+
+const PASSWORD_CLASS_CHECKS: Record<PasswordPolicy['required_classes'][number], { pattern: RegExp; label: string }> = {
+  lowercase: { pattern: /[a-z]/, label: 'a lowercase letter' },
+  uppercase: { pattern: /[A-Z]/, label: 'an uppercase letter' },
+  digit: { pattern: /[0-9]/, label: 'a number' },
+  symbol: { pattern: /[^A-Za-z0-9]/, label: 'a symbol' }
+};
+
+// Get password validation error message (the server also rejects common and recently used passwords)
+export const getPasswordValidationError = (password: string, policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY): string | null => {
+  if (!password) {
+    return 'Password is required';
+  }
+
+  if (password.length < policy.min_length) {
+    return `Password must be at least ${policy.min_length} characters long`;
+  }
+
+  if (password.length > 128) {
+    return 'Password must be no more than 128 characters long';
+  }
+
+  const missing = policy.required_classes.filter(characterClass => !PASSWORD_CLASS_CHECKS[characterClass].pattern.test(password));
+  if (missing.length > 0) {
+    return `Password must contain ${missing.map(characterClass => PASSWORD_CLASS_CHECKS[characterClass].label).join(', ')}`;
+  }
+
+  return null;
+};
+
+// Short description of the policy for input placeholders and hints
+export const describePasswordPolicy = (policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY): string => {
+  const classes = policy.required_classes.map(characterClass => PASSWORD_CLASS_CHECKS[characterClass].label.replace(/^an? /, ''));
+  return classes.length > 0
+    ? `At least ${policy.min_length} characters, with ${classes.join(', ')}`
+    : `At least ${policy.min_length} characters`;
 };
 
 // Name validation (only alphabets, 2-50 characters, no spaces)